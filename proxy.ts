@@ -14,7 +14,8 @@ const hasSupabaseAuthCookie = (request: NextRequest) => {
 export function proxy(request: NextRequest) {
   if (
     request.nextUrl.pathname === "/" ||
-    request.nextUrl.pathname.startsWith("/auth")
+    request.nextUrl.pathname.startsWith("/auth") ||
+    request.nextUrl.pathname.startsWith("/u/")
   ) {
     return NextResponse.next();
   }
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { loadDuplicateGroups, mergeDuplicateItems } from "@/lib/catalog/duplicates";
+import { getSupabaseAdmin } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+
+const MAX_DUPLICATES_PER_MERGE = 20;
+
+const getBearerToken = (request: Request) => {
+  const authorization = request.headers.get("authorization")?.trim();
+  if (!authorization?.toLowerCase().startsWith("bearer ")) {
+    return null;
+  }
+  return authorization.slice(7).trim();
+};
+
+const isAuthorized = (request: Request) => {
+  const expectedSecret = process.env.CATALOG_ADMIN_SECRET ?? null;
+  if (!expectedSecret) {
+    throw new Error("Missing CATALOG_ADMIN_SECRET.");
+  }
+
+  return getBearerToken(request) === expectedSecret;
+};
+
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+    }
+
+    const groups = await loadDuplicateGroups(getSupabaseAdmin());
+    return NextResponse.json({ count: groups.length, groups });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Не вдалося знайти дублікати.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+    }
+
+    const body = (await request.json().catch(() => ({}))) as {
+      survivorId?: string;
+      duplicateIds?: string[];
+    };
+    const survivorId = body.survivorId?.trim();
+    const duplicateIds = [
+      ...new Set(
+        (Array.isArray(body.duplicateIds) ? body.duplicateIds : [])
+          .map((id) => (typeof id === "string" ? id.trim() : ""))
+          .filter((id) => id && id !== survivorId),
+      ),
+    ];
+
+    if (!survivorId || duplicateIds.length === 0) {
+      return NextResponse.json(
+        { error: "Missing survivorId or duplicateIds." },
+        { status: 400 },
+      );
+    }
+
+    if (duplicateIds.length > MAX_DUPLICATES_PER_MERGE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_DUPLICATES_PER_MERGE} duplicates per request.` },
+        { status: 400 },
+      );
+    }
+
+    const results = await mergeDuplicateItems({
+      supabaseAdmin: getSupabaseAdmin(),
+      survivorId,
+      duplicateIds,
+    });
+
+    return NextResponse.json({
+      survivorId,
+      merged: results.filter((result) => "summary" in result).length,
+      failed: results.filter((result) => "error" in result).length,
+      results,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Не вдалося об’єднати записи.",
+      },
+      { status: 500 },
+    );
+  }
+}
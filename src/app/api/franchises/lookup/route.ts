@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getIgdbGameFranchise } from "@/lib/igdb/server";
+import { getTmdbMovieFranchise } from "@/lib/tmdb/server";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const mediaKind = searchParams.get("mediaKind");
+  const externalId = searchParams.get("externalId")?.trim() ?? "";
+
+  if ((mediaKind !== "film" && mediaKind !== "game") || !externalId) {
+    return NextResponse.json({ error: "Invalid franchise lookup." }, { status: 400 });
+  }
+
+  try {
+    const franchise =
+      mediaKind === "film"
+        ? await getTmdbMovieFranchise(externalId)
+        : await getIgdbGameFranchise(externalId);
+    return NextResponse.json({ franchise });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to fetch franchise.",
+      },
+      { status: 502 },
+    );
+  }
+}
@@ -1,5 +1,10 @@
 import { NextResponse } from "next/server";
-import { buildFriendActivityPath, type FriendNotificationPayload } from "@/lib/friends/notifications";
+import {
+  buildEntryDiscussionPath,
+  buildFriendActivityPath,
+  isEntryDiscussionEventType,
+  type FriendNotificationPayload,
+} from "@/lib/friends/notifications";
 import { getSupabaseAdmin } from "@/lib/supabase/admin";
 import { supabaseServer } from "@/lib/supabase/server";
 
@@ -43,7 +48,7 @@ export async function POST(request: Request) {
     const supabaseAdmin = getSupabaseAdmin();
     const { data: notification, error: notificationError } = await supabaseAdmin
       .from("friend_notifications")
-      .select("id, recipient_user_id, actor_user_id, media_kind, event_id, payload")
+      .select("id, recipient_user_id, actor_user_id, media_kind, event_type, event_id, payload")
       .eq("id", notificationId)
       .eq("recipient_user_id", user.id)
       .maybeSingle();
@@ -60,13 +65,19 @@ export async function POST(request: Request) {
     }
 
     const payload = (notification.payload ?? {}) as FriendNotificationPayload;
-    let path =
-      buildFriendActivityPath({
-        actorUserId: notification.actor_user_id,
-        mediaKind: notification.media_kind,
-        userViewId: payload.userViewId,
-        itemId: payload.itemId,
-      }) ?? null;
+    let path = isEntryDiscussionEventType(notification.event_type)
+      ? buildEntryDiscussionPath({
+          recipientUserId: notification.recipient_user_id,
+          entryOwnerUserId: payload.entryOwnerUserId,
+          mediaKind: notification.media_kind,
+          userViewId: payload.userViewId,
+        })
+      : buildFriendActivityPath({
+          actorUserId: notification.actor_user_id,
+          mediaKind: notification.media_kind,
+          userViewId: payload.userViewId,
+          itemId: payload.itemId,
+        }) ?? null;
 
     if (!path && notification.event_id) {
       const { data: event, error: eventError } = await supabaseAdmin
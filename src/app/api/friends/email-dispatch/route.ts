@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { getSmtpConfig } from "@/lib/email/smtp";
+import { getEmailUnsubscribeSecret } from "@/lib/email/unsubscribeToken";
+import {
+  dispatchFriendDeliveries,
+  FRIEND_DELIVERY_ROW_COLUMNS,
+  type FriendDeliveryRow,
+} from "@/lib/friends/deliveryDispatch";
+import { createEmailDeliveryChannel } from "@/lib/friends/email";
+import { getCatalogyAppUrl } from "@/lib/friends/telegram";
+import { getSupabaseAdmin } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const getBearerToken = (request: Request) => {
+  const authorization = request.headers.get("authorization")?.trim();
+  if (!authorization?.toLowerCase().startsWith("bearer ")) {
+    return null;
+  }
+  return authorization.slice(7).trim();
+};
+
+export async function POST(request: Request) {
+  try {
+    const dispatchSecret = process.env.EMAIL_DELIVERY_SECRET;
+    if (!dispatchSecret) {
+      return NextResponse.json(
+        { error: "Missing EMAIL_DELIVERY_SECRET." },
+        { status: 500 },
+      );
+    }
+
+    const requestSecret =
+      getBearerToken(request) ??
+      request.headers.get("x-email-delivery-secret")?.trim() ??
+      null;
+
+    if (requestSecret !== dispatchSecret) {
+      return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+    }
+
+    const smtp = getSmtpConfig();
+    if (!smtp) {
+      return NextResponse.json(
+        { error: "Missing SMTP_HOST or SMTP_FROM." },
+        { status: 500 },
+      );
+    }
+
+    const unsubscribeSecret = getEmailUnsubscribeSecret();
+    if (!unsubscribeSecret) {
+      return NextResponse.json(
+        { error: "Missing EMAIL_UNSUBSCRIBE_SECRET." },
+        { status: 500 },
+      );
+    }
+
+    const body = (await request.json().catch(() => ({}))) as {
+      limit?: number;
+      dryRun?: boolean;
+    };
+    const limit = Math.max(
+      1,
+      Math.min(Number.isFinite(body.limit) ? Number(body.limit) : DEFAULT_LIMIT, MAX_LIMIT),
+    );
+    const dryRun = Boolean(body.dryRun);
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { data: deliveries, error: deliveriesError } = await supabaseAdmin
+      .from("friend_notification_deliveries")
+      .select(FRIEND_DELIVERY_ROW_COLUMNS)
+      .eq("channel", "email")
+      .in("status", ["pending", "failed"])
+      .lte("available_at", new Date().toISOString())
+      .order("created_at", { ascending: true })
+      .limit(limit);
+
+    if (deliveriesError) {
+      return NextResponse.json(
+        { error: deliveriesError.message || "Не вдалося завантажити email queue." },
+        { status: 500 },
+      );
+    }
+
+    const rows = (deliveries ?? []) as FriendDeliveryRow[];
+    const { sent, failed, skipped, results } = await dispatchFriendDeliveries({
+      supabaseAdmin,
+      channel: createEmailDeliveryChannel({ smtp, unsubscribeSecret }),
+      rows,
+      appBaseUrl: getCatalogyAppUrl(),
+      dryRun,
+    });
+
+    return NextResponse.json({
+      processed: rows.length,
+      sent,
+      failed,
+      skipped,
+      dryRun,
+      results,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Не вдалося обробити email queue.",
+      },
+      { status: 500 },
+    );
+  }
+}
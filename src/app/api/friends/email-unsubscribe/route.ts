@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import {
+  getEmailUnsubscribeSecret,
+  verifyEmailUnsubscribeToken,
+} from "@/lib/email/unsubscribeToken";
+import { getSupabaseAdmin } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+
+/** Marks the POST sent by the confirmation page, which expects HTML back. */
+const CONFIRM_FIELD = "confirm";
+
+const renderPage = (message: string, status: number, form = "") =>
+  new NextResponse(
+    `<!doctype html><html lang="uk"><head><meta charset="utf-8" /><title>Catalogy</title></head><body style="font-family:Arial,sans-serif;padding:48px;text-align:center;"><p>${message}</p>${form}</body></html>`,
+    { status, headers: { "content-type": "text/html; charset=utf-8" } },
+  );
+
+const verifyToken = (token: string | null) => {
+  const secret = getEmailUnsubscribeSecret();
+  if (!secret) {
+    return { status: 500, message: "Відписка тимчасово недоступна." };
+  }
+
+  const claims = verifyEmailUnsubscribeToken(token, secret);
+  if (!claims) {
+    return { status: 400, message: "Посилання для відписки недійсне." };
+  }
+  return { claims };
+};
+
+/** Turns email notifications off and drops the queued emails; safe to repeat. */
+const unsubscribe = async (token: string | null) => {
+  const { claims, status, message } = verifyToken(token);
+  if (!claims) {
+    return { status, message };
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from("profiles")
+    .update({ email_notifications_enabled: false })
+    .eq("id", claims.userId);
+
+  if (error) {
+    return { status: 500, message: "Не вдалося відписатися. Спробуй пізніше." };
+  }
+
+  await supabaseAdmin
+    .from("friend_notification_deliveries")
+    .update({ status: "disabled", last_error: "Unsubscribed." })
+    .eq("recipient_user_id", claims.userId)
+    .eq("channel", "email")
+    .in("status", ["pending", "failed"]);
+
+  return { status: 200, message: "Email-сповіщення вимкнено. Увімкнути їх знову можна в налаштуваннях." };
+};
+
+/**
+ * Only asks for confirmation: link scanners and mail previews open GET links,
+ * so the actual unsubscribe happens on POST.
+ */
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get("token");
+  const { claims, status, message } = verifyToken(token);
+  if (!claims) {
+    return renderPage(message, status);
+  }
+
+  const action = `/api/friends/email-unsubscribe?token=${encodeURIComponent(token ?? "")}`;
+  return renderPage(
+    "Вимкнути email-сповіщення від Catalogy?",
+    200,
+    `<form method="post" action="${action}"><input type="hidden" name="${CONFIRM_FIELD}" value="1" /><button type="submit" style="padding:10px 20px;font-size:16px;cursor:pointer;">Відписатися</button></form>`,
+  );
+}
+
+/**
+ * RFC 8058 one-click unsubscribe sent by mail clients via `List-Unsubscribe-Post`,
+ * and the confirmation form from the GET page.
+ */
+export async function POST(request: Request) {
+  const token = new URL(request.url).searchParams.get("token");
+  const form = await request.formData().catch(() => null);
+  const { status, message } = await unsubscribe(token);
+
+  if (form?.get(CONFIRM_FIELD)) {
+    return renderPage(message, status);
+  }
+  return NextResponse.json(status === 200 ? { ok: true } : { error: message }, { status });
+}
@@ -1,38 +1,32 @@
 import { NextResponse } from "next/server";
 import {
   computeTelegramRetryAt,
-  formatTelegramNotificationText,
+  createTelegramDeliveryChannel,
   getCatalogyAppUrl,
-  sendTelegramNotification,
-  type TelegramDeliveryPayload,
+  sendTelegramMessage,
+  type TelegramInlineKeyboard,
 } from "@/lib/friends/telegram";
+import {
+  dispatchFriendDeliveries,
+  FRIEND_DELIVERY_ROW_COLUMNS,
+  type FriendDeliveryResult,
+  type FriendDeliveryRow,
+} from "@/lib/friends/deliveryDispatch";
+import {
+  formatFriendNotificationDigestText,
+  groupFriendNotificationDigest,
+  normalizeFriendNotificationDeliveryMode,
+} from "@/lib/friends/notificationDigest";
 import { getSupabaseAdmin } from "@/lib/supabase/admin";
 import { getDisplayName } from "@/lib/users/displayName";
 
 export const runtime = "nodejs";
 
-type TelegramDeliveryRow = {
-  id: string;
-  recipient_user_id: string;
-  channel: "telegram";
-  status: "pending" | "processing" | "sent" | "failed" | "disabled";
-  attempt_count: number;
-  payload: TelegramDeliveryPayload;
-};
-
-type UserViewDetail = {
-  id: string;
-  user_id: string;
-  item_id: string;
-  rating: number | null;
-  comment: string | null;
-  is_viewed: boolean;
-  view_percent: number;
-  viewed_at: string;
-};
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
 
 const DEFAULT_LIMIT = 20;
 const MAX_LIMIT = 100;
+const MAX_DIGEST_ROWS = 500;
 
 const getBearerToken = (request: Request) => {
   const authorization = request.headers.get("authorization")?.trim();
@@ -42,6 +36,144 @@ const getBearerToken = (request: Request) => {
   return authorization.slice(7).trim();
 };
 
+const buildDigestKeyboard = (appBaseUrl: string): TelegramInlineKeyboard | undefined => {
+  const normalizedBaseUrl = appBaseUrl.trim().replace(/\/+$/, "");
+  return normalizedBaseUrl.startsWith("https://")
+    ? { inline_keyboard: [[{ text: "Відкрити", url: `${normalizedBaseUrl}/friends` }]] }
+    : undefined;
+};
+
+/**
+ * Sends one composed message for everything that is due in the recipient's
+ * digest window, including rows beyond the per-run limit, and marks them together.
+ */
+const dispatchRecipientDigest = async ({
+  supabaseAdmin,
+  botToken,
+  recipientUserId,
+  appBaseUrl,
+  now,
+  dryRun,
+}: {
+  supabaseAdmin: SupabaseAdmin;
+  botToken: string;
+  recipientUserId: string;
+  appBaseUrl: string;
+  now: string;
+  dryRun: boolean;
+}): Promise<FriendDeliveryResult[]> => {
+  const { data, error } = await supabaseAdmin
+    .from("friend_notification_deliveries")
+    .select(FRIEND_DELIVERY_ROW_COLUMNS)
+    .eq("channel", "telegram")
+    .eq("recipient_user_id", recipientUserId)
+    .neq("delivery_mode", "instant")
+    .in("status", ["pending", "failed"])
+    .lte("available_at", now)
+    .order("created_at", { ascending: true })
+    .limit(MAX_DIGEST_ROWS);
+
+  if (error) {
+    throw new Error(error.message || "Не вдалося завантажити дайджест.");
+  }
+
+  const rows = (data ?? []) as FriendDeliveryRow[];
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const deliveryIds = rows.map((row) => row.id);
+  const latestRow = rows[rows.length - 1];
+  const chatId = latestRow.payload.telegramChatId?.trim();
+
+  if (!chatId) {
+    if (!dryRun) {
+      await supabaseAdmin
+        .from("friend_notification_deliveries")
+        .update({
+          status: "disabled",
+          last_error: "Missing telegram chat id.",
+          last_attempt_at: new Date().toISOString(),
+        })
+        .in("id", deliveryIds);
+    }
+    return deliveryIds.map((deliveryId) => ({
+      deliveryId,
+      status: "skipped",
+      reason: "Missing telegram chat id.",
+    }));
+  }
+
+  const groups = groupFriendNotificationDigest(rows.map((row) => row.payload));
+  const actorIds = [...new Set(groups.map((group) => group.actorUserId))];
+  const { data: profiles } =
+    actorIds.length > 0
+      ? await supabaseAdmin.from("profiles").select("id, username").in("id", actorIds)
+      : { data: [] as { id: string; username: string | null }[] };
+  const actorNames = new Map(
+    (profiles ?? []).map((profile) => [
+      profile.id as string,
+      getDisplayName(profile.username as string | null, profile.id as string),
+    ]),
+  );
+  const text = formatFriendNotificationDigestText({
+    mode: normalizeFriendNotificationDeliveryMode(latestRow.delivery_mode),
+    groups,
+    actorNames,
+    appBaseUrl,
+  });
+
+  if (dryRun) {
+    return deliveryIds.map((deliveryId) => ({ deliveryId, status: "sent" }));
+  }
+
+  const attemptCount = Math.max(...rows.map((row) => row.attempt_count)) + 1;
+  await supabaseAdmin
+    .from("friend_notification_deliveries")
+    .update({
+      status: "processing",
+      attempt_count: attemptCount,
+      last_attempt_at: new Date().toISOString(),
+      last_error: null,
+    })
+    .in("id", deliveryIds);
+
+  try {
+    const { providerMessageId } = await sendTelegramMessage({
+      botToken,
+      chatId,
+      text,
+      replyMarkup: buildDigestKeyboard(appBaseUrl),
+    });
+
+    await supabaseAdmin
+      .from("friend_notification_deliveries")
+      .update({
+        status: "sent",
+        sent_at: new Date().toISOString(),
+        provider_message_id: providerMessageId,
+        last_error: null,
+      })
+      .in("id", deliveryIds);
+
+    return deliveryIds.map((deliveryId) => ({ deliveryId, status: "sent" }));
+  } catch (sendError) {
+    const message =
+      sendError instanceof Error ? sendError.message : "Telegram delivery failed.";
+
+    await supabaseAdmin
+      .from("friend_notification_deliveries")
+      .update({
+        status: "failed",
+        last_error: message,
+        available_at: computeTelegramRetryAt(attemptCount),
+      })
+      .in("id", deliveryIds);
+
+    return deliveryIds.map((deliveryId) => ({ deliveryId, status: "failed", reason: message }));
+  }
+};
+
 export async function POST(request: Request) {
   try {
     const dispatchSecret = process.env.TELEGRAM_DELIVERY_SECRET;
@@ -84,7 +216,7 @@ export async function POST(request: Request) {
 
     const { data: deliveries, error: deliveriesError } = await supabaseAdmin
       .from("friend_notification_deliveries")
-      .select("id, recipient_user_id, channel, status, attempt_count, payload")
+      .select(FRIEND_DELIVERY_ROW_COLUMNS)
       .eq("channel", "telegram")
       .in("status", ["pending", "failed"])
       .lte("available_at", now)
@@ -98,8 +230,8 @@ export async function POST(request: Request) {
       );
     }
 
-    const rows = (deliveries ?? []) as TelegramDeliveryRow[];
-    if (rows.length === 0) {
+    const queuedRows = (deliveries ?? []) as FriendDeliveryRow[];
+    if (queuedRows.length === 0) {
       return NextResponse.json({
         processed: 0,
         sent: 0,
@@ -109,184 +241,51 @@ export async function POST(request: Request) {
       });
     }
 
-    const actorIds = [...new Set(rows.map((row) => row.payload.actorUserId).filter(Boolean))];
-    const userViewIds = [
-      ...new Set(rows.map((row) => row.payload.userViewId?.trim() ?? "").filter(Boolean)),
-    ];
-    const itemIds = [
-      ...new Set(rows.map((row) => row.payload.itemId?.trim() ?? "").filter(Boolean)),
-    ];
-    const { data: profiles } =
-      actorIds.length > 0
-        ? await supabaseAdmin.from("profiles").select("id, username").in("id", actorIds)
-        : { data: [] as { id: string; username: string | null }[] };
-    const profileMap = new Map(
-      (profiles ?? []).map((profile) => [profile.id, profile.username]),
+    const rows = queuedRows.filter(
+      (row) => normalizeFriendNotificationDeliveryMode(row.delivery_mode) === "instant",
     );
-    const detailsByViewId = new Map<string, UserViewDetail>();
-    const detailsByActorItem = new Map<string, UserViewDetail>();
-
-    if (userViewIds.length > 0) {
-      const { data: userViews } = await supabaseAdmin
-        .from("user_views")
-        .select("id, user_id, item_id, rating, comment, is_viewed, view_percent, viewed_at")
-        .in("id", userViewIds);
-
-      (userViews ?? []).forEach((row) => {
-        const detail = row as UserViewDetail;
-        detailsByViewId.set(detail.id, detail);
-        detailsByActorItem.set(`${detail.user_id}:${detail.item_id}`, detail);
-      });
-    }
-
-    if (actorIds.length > 0 && itemIds.length > 0) {
-      const { data: actorViews } = await supabaseAdmin
-        .from("user_views")
-        .select("id, user_id, item_id, rating, comment, is_viewed, view_percent, viewed_at")
-        .in("user_id", actorIds)
-        .in("item_id", itemIds);
-
-      (actorViews ?? []).forEach((row) => {
-        const detail = row as UserViewDetail;
-        if (!detailsByViewId.has(detail.id)) {
-          detailsByViewId.set(detail.id, detail);
-        }
-        const actorItemKey = `${detail.user_id}:${detail.item_id}`;
-        if (!detailsByActorItem.has(actorItemKey)) {
-          detailsByActorItem.set(actorItemKey, detail);
-        }
-      });
-    }
-
-    let sent = 0;
-    let failed = 0;
-    let skipped = 0;
-    const results: Array<{
-      deliveryId: string;
-      status: "sent" | "failed" | "skipped";
-      reason?: string;
-    }> = [];
-
-    for (const delivery of rows) {
-      const chatId = delivery.payload.telegramChatId?.trim();
-      const actorId = delivery.payload.actorUserId?.trim();
-      const actorName = getDisplayName(
-        actorId ? profileMap.get(actorId) ?? null : null,
-        actorId ?? "friend",
-      );
-
-      if (!chatId) {
-        skipped += 1;
-        results.push({
-          deliveryId: delivery.id,
-          status: "skipped",
-          reason: "Missing telegram chat id.",
-        });
-        if (!dryRun) {
-          await supabaseAdmin
-            .from("friend_notification_deliveries")
-            .update({
-              status: "disabled",
-              last_error: "Missing telegram chat id.",
-              last_attempt_at: new Date().toISOString(),
-            })
-            .eq("id", delivery.id);
-        }
-        continue;
-      }
+    const digestRecipientIds = [
+      ...new Set(
+        queuedRows
+          .filter((row) => normalizeFriendNotificationDeliveryMode(row.delivery_mode) !== "instant")
+          .map((row) => row.recipient_user_id),
+      ),
+    ];
 
-      const detail =
-        (delivery.payload.userViewId
-          ? detailsByViewId.get(delivery.payload.userViewId)
-          : undefined) ??
-        (actorId && delivery.payload.itemId
-          ? detailsByActorItem.get(`${actorId}:${delivery.payload.itemId}`)
-          : undefined);
-      const payload: TelegramDeliveryPayload = {
-        ...delivery.payload,
-        rating:
-          typeof delivery.payload.rating === "number"
-            ? delivery.payload.rating
-            : detail?.rating ?? null,
-        comment: delivery.payload.comment ?? detail?.comment ?? null,
-        isViewed:
-          typeof delivery.payload.isViewed === "boolean"
-            ? delivery.payload.isViewed
-            : detail?.is_viewed,
-        viewPercent:
-          typeof delivery.payload.viewPercent === "number"
-            ? delivery.payload.viewPercent
-            : detail?.view_percent,
-        viewedAt: delivery.payload.viewedAt ?? detail?.viewed_at ?? null,
-      };
+    const instant = await dispatchFriendDeliveries({
+      supabaseAdmin,
+      channel: createTelegramDeliveryChannel(botToken),
+      rows,
+      appBaseUrl,
+      dryRun,
+    });
+    let { sent, failed, skipped } = instant;
+    const results = [...instant.results];
 
-      const text = formatTelegramNotificationText({
-        actorName,
-        payload,
+    let digests = 0;
+    for (const recipientUserId of digestRecipientIds) {
+      const digestResults = await dispatchRecipientDigest({
+        supabaseAdmin,
+        botToken,
+        recipientUserId,
         appBaseUrl,
+        now,
+        dryRun,
       });
+      if (digestResults.length === 0) continue;
 
-      if (dryRun) {
-        results.push({ deliveryId: delivery.id, status: "sent" });
-        sent += 1;
-        continue;
-      }
-
-      await supabaseAdmin
-        .from("friend_notification_deliveries")
-        .update({
-          status: "processing",
-          attempt_count: delivery.attempt_count + 1,
-          last_attempt_at: new Date().toISOString(),
-          last_error: null,
-        })
-        .eq("id", delivery.id);
-
-      try {
-        const { providerMessageId } = await sendTelegramNotification({
-          botToken,
-          chatId,
-          text,
-          photoUrl: payload.posterUrl,
-        });
-
-        await supabaseAdmin
-          .from("friend_notification_deliveries")
-          .update({
-            status: "sent",
-            sent_at: new Date().toISOString(),
-            provider_message_id: providerMessageId,
-            last_error: null,
-          })
-          .eq("id", delivery.id);
-
-        sent += 1;
-        results.push({ deliveryId: delivery.id, status: "sent" });
-      } catch (error) {
-        const nextAttemptCount = delivery.attempt_count + 1;
-        const message =
-          error instanceof Error ? error.message : "Telegram delivery failed.";
-
-        await supabaseAdmin
-          .from("friend_notification_deliveries")
-          .update({
-            status: "failed",
-            last_error: message,
-            available_at: computeTelegramRetryAt(nextAttemptCount),
-          })
-          .eq("id", delivery.id);
-
-        failed += 1;
-        results.push({
-          deliveryId: delivery.id,
-          status: "failed",
-          reason: message,
-        });
-      }
+      digests += 1;
+      digestResults.forEach((result) => {
+        if (result.status === "sent") sent += 1;
+        if (result.status === "failed") failed += 1;
+        if (result.status === "skipped") skipped += 1;
+      });
+      results.push(...digestResults);
     }
 
     return NextResponse.json({
-      processed: rows.length,
+      processed: results.length,
+      digests,
       sent,
       failed,
       skipped,
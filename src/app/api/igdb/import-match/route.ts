@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { searchGamesInIgdb } from "@/lib/igdb/server";
+
+export const runtime = "nodejs";
+
+type ImportMatchRequestRow = {
+  key?: string;
+  title?: string;
+};
+
+const MAX_ROWS_PER_REQUEST = 10;
+const MAX_CANDIDATES_PER_ROW = 5;
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as {
+      rows?: ImportMatchRequestRow[];
+    };
+    const rows = (Array.isArray(body.rows) ? body.rows : [])
+      .map((row) => ({ key: row.key?.trim() ?? "", title: row.title?.trim() ?? "" }))
+      .filter((row) => row.key && row.title);
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "Missing rows." }, { status: 400 });
+    }
+
+    if (rows.length > MAX_ROWS_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `Too many rows. Max ${MAX_ROWS_PER_REQUEST} per request.` },
+        { status: 400 },
+      );
+    }
+
+    const matches: Array<{
+      key: string;
+      candidates: Awaited<ReturnType<typeof searchGamesInIgdb>>;
+      error?: string;
+    }> = [];
+
+    // IGDB allows only a few requests per second, so rows are resolved one by one.
+    for (const row of rows) {
+      try {
+        const candidates = await searchGamesInIgdb(row.title);
+        matches.push({ key: row.key, candidates: candidates.slice(0, MAX_CANDIDATES_PER_ROW) });
+      } catch (error) {
+        matches.push({
+          key: row.key,
+          candidates: [],
+          error: error instanceof Error ? error.message : "IGDB search failed.",
+        });
+      }
+    }
+
+    return NextResponse.json({ matches });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Не вдалося зіставити ігри з IGDB.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { TV_STRUCTURE_MAX_AGE_MS } from "@/lib/films/tvProgressFlow";
+import {
+  refreshStaleItemMetadata,
+  refreshStaleTvStructures,
+  type MetadataRefreshResult,
+} from "@/lib/metadataRefresh/refreshStaleItems";
+import { getSupabaseAdmin } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const DEFAULT_STALE_DAYS = 30;
+const DEFAULT_TV_LIMIT = 10;
+const REQUEST_INTERVAL_MS = 500;
+
+const summarizeResults = (results: MetadataRefreshResult[]) => ({
+  processed: results.length,
+  updated: results.filter((result) => result.status === "updated").length,
+  unchanged: results.filter((result) => result.status === "unchanged").length,
+  failed: results.filter((result) => result.status === "failed").length,
+});
+
+const getBearerToken = (request: Request) => {
+  const authorization = request.headers.get("authorization")?.trim();
+  if (!authorization?.toLowerCase().startsWith("bearer ")) {
+    return null;
+  }
+  return authorization.slice(7).trim();
+};
+
+export async function POST(request: Request) {
+  try {
+    const refreshSecret = process.env.METADATA_REFRESH_SECRET;
+    if (!refreshSecret) {
+      return NextResponse.json(
+        { error: "Missing METADATA_REFRESH_SECRET." },
+        { status: 500 },
+      );
+    }
+
+    const requestSecret =
+      getBearerToken(request) ??
+      request.headers.get("x-metadata-refresh-secret")?.trim() ??
+      null;
+
+    if (requestSecret !== refreshSecret) {
+      return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+    }
+
+    const body = (await request.json().catch(() => ({}))) as {
+      limit?: number;
+      tvLimit?: number;
+      staleDays?: number;
+      dryRun?: boolean;
+    };
+    const limit = Math.max(
+      1,
+      Math.min(Number.isFinite(body.limit) ? Number(body.limit) : DEFAULT_LIMIT, MAX_LIMIT),
+    );
+    const staleDays = Math.max(
+      0,
+      Number.isFinite(body.staleDays) ? Number(body.staleDays) : DEFAULT_STALE_DAYS,
+    );
+    const tvLimit = Math.max(
+      0,
+      Math.min(Number.isFinite(body.tvLimit) ? Number(body.tvLimit) : DEFAULT_TV_LIMIT, MAX_LIMIT),
+    );
+    const dryRun = Boolean(body.dryRun);
+    const staleBefore = new Date(Date.now() - staleDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const results = await refreshStaleItemMetadata({
+      supabaseAdmin,
+      limit,
+      staleBefore,
+      requestIntervalMs: REQUEST_INTERVAL_MS,
+      dryRun,
+    });
+    // Airing series change weekly, so their season structure has its own, shorter window.
+    const tvResults =
+      tvLimit > 0
+        ? await refreshStaleTvStructures({
+            supabaseAdmin,
+            limit: tvLimit,
+            staleBefore: new Date(Date.now() - TV_STRUCTURE_MAX_AGE_MS).toISOString(),
+            requestIntervalMs: REQUEST_INTERVAL_MS,
+            dryRun,
+          })
+        : [];
+
+    return NextResponse.json({
+      ...summarizeResults(results),
+      dryRun,
+      results,
+      tvStructures: { ...summarizeResults(tvResults), results: tvResults },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Не вдалося оновити метадані.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,32 +1,37 @@
 import { NextResponse } from "next/server";
+import {
+  createChatCompletion,
+  getLlmErrorResponse,
+  streamChatCompletion,
+  type LlmUsageHandler,
+} from "@/lib/llm/client";
+import { authenticateLlmRequest, beginLlmUsage } from "@/lib/llm/usage";
 import { getOpenAiRecommendationModel } from "@/lib/openai/models";
-import { buildFilmRecommendationProfileContext } from "@/lib/recommendations/profileAnalysisContext";
+import {
+  buildFilmRecommendationProfileContext,
+  buildRecommendationFeedbackContext,
+} from "@/lib/recommendations/profileAnalysisContext";
+import {
+  loadRecommendationFeedback,
+  saveRecommendationCandidates,
+} from "@/lib/recommendations/feedback";
 import {
   buildRecommendationFailureMessage,
   filterRecommendationsWithStats,
+  formatRecommendationList,
+  isKnownRecommendation,
   type RecommendationAttemptDiagnostics,
 } from "@/lib/recommendations/diagnostics";
+import {
+  createRecommendationEventStream,
+  RECOMMENDATION_STREAM_HEADERS,
+} from "@/lib/recommendations/streamResponse";
 import {
   buildLlmRecoContextText,
   type FilmLlmExportRow,
 } from "@/app/statistics/filmLlmCsv";
 import type { FilmProfileSystemLayer, FilmProfileUserLayer } from "@/lib/profile-analysis/types";
 
-type OpenAiMessage = {
-  content?: string;
-};
-
-type OpenAiChoice = {
-  message?: OpenAiMessage;
-};
-
-type OpenAiResponse = {
-  choices?: OpenAiChoice[];
-  error?: {
-    message?: string;
-  };
-};
-
 type ParsedRecommendation = {
   title: string;
   year: string;
@@ -249,43 +254,24 @@ const parseRecommendations = (text: string): ParsedRecommendation[] => {
     .filter((entry): entry is ParsedRecommendation => Boolean(entry));
 };
 
-const callOpenAi = async (
+const callOpenAi = (
   context: string,
   requestedCount: number,
   promptBuilder: (context: string, requestedCount: number) => string = buildPrompt,
-) => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("Missing OPENAI_API_KEY.");
-  }
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: OPENAI_MODEL,
-      temperature: 0.9,
-      messages: [
-        {
-          role: "user",
-          content: promptBuilder(context, requestedCount),
-        },
-      ],
-    }),
+  onUsage: LlmUsageHandler | null = null,
+) =>
+  createChatCompletion({
+    model: OPENAI_MODEL,
+    onUsage,
+    temperature: 0.9,
+    messages: [
+      {
+        role: "user",
+        content: promptBuilder(context, requestedCount),
+      },
+    ],
   });
 
-  const data = (await response.json()) as OpenAiResponse;
-
-  if (!response.ok) {
-    throw new Error(data.error?.message || "OpenAI request failed.");
-  }
-
-  return data.choices?.[0]?.message?.content?.trim() ?? "";
-};
-
 export async function POST(request: Request) {
   try {
     const body = (await request.json()) as {
@@ -299,6 +285,7 @@ export async function POST(request: Request) {
       requestedCount?: number;
       outputCount?: number;
       minimumRecommendationCount?: number;
+      stream?: boolean;
     };
     const rows = Array.isArray(body.rows) ? body.rows : [];
     const knownTitleRows =
@@ -310,11 +297,17 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Missing film rows." }, { status: 400 });
     }
 
+    const caller = await authenticateLlmRequest(request);
+    const feedback = caller ? await loadRecommendationFeedback(caller, "film") : [];
     const profileContext = buildFilmRecommendationProfileContext(
       body.profileAnalysis,
       body.scopeLabel,
     );
-    const context = [buildLlmRecoContextText(rows, { includeKnownTitles: false }), profileContext]
+    const context = [
+      buildLlmRecoContextText(rows, { includeKnownTitles: false }),
+      profileContext,
+      buildRecommendationFeedbackContext(feedback),
+    ]
       .filter(Boolean)
       .join("\n\n");
     const knownTitles = buildKnownTitleSet(knownTitleRows);
@@ -336,6 +329,30 @@ export async function POST(request: Request) {
       1,
       outputCount,
     );
+    const feedbackTitles = new Set(
+      feedback.flatMap((entry) => [
+        normalizeTitle(entry.title),
+        normalizeTitle(`${entry.title} (${entry.year})`),
+      ]),
+    );
+    const storeCandidates = (recommendations: ParsedRecommendation[]) =>
+      caller
+        ? saveRecommendationCandidates(
+            caller,
+            "film",
+            recommendations.map(({ title, year, type, why }) => ({
+              scopeValue: body.scopeLabel ?? "",
+              title,
+              year,
+              type,
+              why,
+              // Already in the collection: kept as feedback, never offered as pending.
+              status: isKnownRecommendation({ title, year }, knownTitles, normalizeTitle)
+                ? "added"
+                : "new",
+            })),
+          )
+        : Promise.resolve();
     const prompt = buildPrompt(context, requestedCount, body.scopeLabel, body.userWishes);
     const diagnostics: RecommendationAttemptDiagnostics[] = [];
 
@@ -345,9 +362,53 @@ export async function POST(request: Request) {
       });
     }
 
-    const firstResponse = await callOpenAi(context, requestedCount, () => prompt);
+    const onUsage = await beginLlmUsage(caller, "film-recommendations");
+
+    if (body.stream) {
+      const secondRequestedCount = Math.min(requestedCount + 4, 20);
+      const thirdRequestedCount = Math.min(requestedCount + 8, 24);
+      const stream = createRecommendationEventStream({
+        attempts: [
+          { label: "Спроба 1 (базовий prompt)", requestedCount, prompt },
+          {
+            label: "Спроба 2 (retry prompt)",
+            requestedCount: secondRequestedCount,
+            prompt: buildRetryPrompt(context, secondRequestedCount, body.scopeLabel, body.userWishes),
+          },
+          {
+            label: "Спроба 3 (retry prompt, розширена вибірка)",
+            requestedCount: thirdRequestedCount,
+            prompt: buildRetryPrompt(context, thirdRequestedCount, body.scopeLabel, body.userWishes),
+          },
+        ],
+        minimumCount: minimumRecommendationCount,
+        outputCount,
+        knownTitles,
+        feedbackTitles,
+        normalizeTitle,
+        parse: parseRecommendations,
+        streamCompletion: (content) =>
+          streamChatCompletion({
+            model: OPENAI_MODEL,
+            onUsage,
+            temperature: 0.9,
+            messages: [{ role: "user", content }],
+          }),
+        onParsed: storeCandidates,
+        fallbackErrorMessage: "Не вдалося згенерувати рекомендації.",
+      });
+      return new Response(stream, { headers: RECOMMENDATION_STREAM_HEADERS });
+    }
+
+    const firstResponse = await callOpenAi(context, requestedCount, () => prompt, onUsage);
     const firstParsed = parseRecommendations(firstResponse);
-    const firstResult = filterRecommendationsWithStats(firstParsed, knownTitles, normalizeTitle);
+    const parsedCandidates = [...firstParsed];
+    const firstResult = filterRecommendationsWithStats(
+      firstParsed,
+      knownTitles,
+      normalizeTitle,
+      feedbackTitles,
+    );
     diagnostics.push({
       label: "Спроба 1 (базовий prompt)",
       requestedCount,
@@ -358,11 +419,21 @@ export async function POST(request: Request) {
 
     if (finalRecommendations.length < minimumRecommendationCount) {
       const secondRequestedCount = Math.min(requestedCount + 4, 20);
-      const secondResponse = await callOpenAi(context, secondRequestedCount, (nextContext, requestedCount) =>
-        buildRetryPrompt(nextContext, requestedCount, body.scopeLabel, body.userWishes),
+      const secondResponse = await callOpenAi(
+        context,
+        secondRequestedCount,
+        (nextContext, requestedCount) =>
+          buildRetryPrompt(nextContext, requestedCount, body.scopeLabel, body.userWishes),
+        onUsage,
       );
       const secondParsed = parseRecommendations(secondResponse);
-      const secondResult = filterRecommendationsWithStats(secondParsed, knownTitles, normalizeTitle);
+      parsedCandidates.push(...secondParsed);
+      const secondResult = filterRecommendationsWithStats(
+        secondParsed,
+        knownTitles,
+        normalizeTitle,
+        feedbackTitles,
+      );
       diagnostics.push({
         label: "Спроба 2 (retry prompt)",
         requestedCount: secondRequestedCount,
@@ -383,11 +454,21 @@ export async function POST(request: Request) {
 
     if (finalRecommendations.length < minimumRecommendationCount) {
       const thirdRequestedCount = Math.min(requestedCount + 8, 24);
-      const thirdResponse = await callOpenAi(context, thirdRequestedCount, (nextContext, requestedCount) =>
-        buildRetryPrompt(nextContext, requestedCount, body.scopeLabel, body.userWishes),
+      const thirdResponse = await callOpenAi(
+        context,
+        thirdRequestedCount,
+        (nextContext, requestedCount) =>
+          buildRetryPrompt(nextContext, requestedCount, body.scopeLabel, body.userWishes),
+        onUsage,
       );
       const thirdParsed = parseRecommendations(thirdResponse);
-      const thirdResult = filterRecommendationsWithStats(thirdParsed, knownTitles, normalizeTitle);
+      parsedCandidates.push(...thirdParsed);
+      const thirdResult = filterRecommendationsWithStats(
+        thirdParsed,
+        knownTitles,
+        normalizeTitle,
+        feedbackTitles,
+      );
       diagnostics.push({
         label: "Спроба 3 (retry prompt, розширена вибірка)",
         requestedCount: thirdRequestedCount,
@@ -407,14 +488,10 @@ export async function POST(request: Request) {
     }
 
     const outputRecommendations = finalRecommendations.slice(0, outputCount);
+    await storeCandidates(parsedCandidates);
     const message =
       outputRecommendations.length > 0
-        ? outputRecommendations
-            .map(
-              (entry, index) =>
-                `${index + 1}. ${entry.title} (${entry.year}) — type: ${entry.type}\nWhy it fits: ${entry.why}`,
-            )
-            .join("\n\n")
+        ? formatRecommendationList(outputRecommendations)
         : buildRecommendationFailureMessage(diagnostics);
 
     return NextResponse.json({
@@ -422,12 +499,7 @@ export async function POST(request: Request) {
       recommendations: outputRecommendations,
     });
   } catch (error) {
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error ? error.message : "Не вдалося згенерувати рекомендації.",
-      },
-      { status: 500 },
-    );
+    const { status, ...payload } = getLlmErrorResponse(error, "Не вдалося згенерувати рекомендації.");
+    return NextResponse.json(payload, { status });
   }
 }
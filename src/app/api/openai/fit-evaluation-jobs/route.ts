@@ -0,0 +1,96 @@
+import { after, NextResponse } from "next/server";
+import { getLlmErrorResponse } from "@/lib/llm/client";
+import { authenticateLlmRequest } from "@/lib/llm/usage";
+import type { ShishkaFitMediaKind } from "@/lib/shishka/fitCache";
+import {
+  createShishkaFitJob,
+  getShishkaFitStalledJobMs,
+  runShishkaFitJob,
+} from "@/lib/shishka/fitEvaluationJob";
+import {
+  mapShishkaFitJob,
+  SHISHKA_FIT_JOB_COLUMNS,
+  shouldStartShishkaFitJob,
+} from "@/lib/shishka/fitJob";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+/** The batch runs in `after()`, which shares this limit with the response. */
+export const maxDuration = 300;
+
+/**
+ * New titles are picked up only during the first part of a run, leaving the
+ * rest of `maxDuration` for the last evaluation (with its retries) to finish.
+ */
+const RUN_TIME_BUDGET_MS = 2 * 60 * 1000;
+
+const isMediaKind = (value: unknown): value is ShishkaFitMediaKind =>
+  value === "film" || value === "game";
+
+const requireCaller = async (request: Request) => {
+  const caller = await authenticateLlmRequest(request);
+  if (!caller) {
+    throw new Error("Пакетна оцінка потребує SUPABASE_SERVICE_ROLE_KEY.");
+  }
+  return caller;
+};
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as { mediaKind?: unknown; scopeValue?: string };
+    const scopeValue = body.scopeValue?.trim();
+
+    if (!isMediaKind(body.mediaKind) || !scopeValue) {
+      return NextResponse.json({ error: "Недостатньо даних для оцінки." }, { status: 400 });
+    }
+
+    const caller = await requireCaller(request);
+    const job = await createShishkaFitJob(caller, body.mediaKind, scopeValue);
+
+    if (shouldStartShishkaFitJob(job, getShishkaFitStalledJobMs())) {
+      after(async () => {
+        await runShishkaFitJob(caller, job.id, RUN_TIME_BUDGET_MS);
+      });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    const { status, ...payload } = getLlmErrorResponse(
+      error,
+      "Не вдалося запустити пакетну оцінку.",
+    );
+    return NextResponse.json(payload, { status });
+  }
+}
+
+export async function GET(request: Request) {
+  try {
+    const jobId = new URL(request.url).searchParams.get("id")?.trim();
+    if (!jobId) {
+      return NextResponse.json({ error: "Не вказано завдання." }, { status: 400 });
+    }
+
+    const { supabaseAdmin, userId } = await requireCaller(request);
+    const { data, error } = await supabaseAdmin
+      .from("shishka_fit_jobs")
+      .select(SHISHKA_FIT_JOB_COLUMNS)
+      .eq("id", jobId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error || !data) {
+      return NextResponse.json({ error: "Завдання не знайдено." }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { job: mapShishkaFitJob(data) },
+      { headers: { "Cache-Control": "private, no-store, max-age=0" } },
+    );
+  } catch (error) {
+    const { status, ...payload } = getLlmErrorResponse(
+      error,
+      "Не вдалося завантажити пакетну оцінку.",
+    );
+    return NextResponse.json(payload, { status });
+  }
+}
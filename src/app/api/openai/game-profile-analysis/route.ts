@@ -1,4 +1,6 @@
 import { NextResponse } from "next/server";
+import { createStructuredChatCompletion, getLlmErrorResponse } from "@/lib/llm/client";
+import { authenticateLlmRequest, beginLlmUsage } from "@/lib/llm/usage";
 import { getOpenAiProfileAnalysisModel } from "@/lib/openai/models";
 import { buildPlatformScopeProfilePrompt } from "@/lib/profile-analysis/game";
 import {
@@ -6,57 +8,8 @@ import {
   type GameProfilePromptRow,
 } from "@/lib/profile-analysis/types";
 
-type OpenAiMessage = {
-  content?: string;
-};
-
-type OpenAiChoice = {
-  message?: OpenAiMessage;
-};
-
-type OpenAiResponse = {
-  choices?: OpenAiChoice[];
-  error?: {
-    message?: string;
-  };
-};
-
 const OPENAI_MODEL = getOpenAiProfileAnalysisModel();
 
-const callOpenAi = async (prompt: string) => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("Missing OPENAI_API_KEY.");
-  }
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: OPENAI_MODEL,
-      temperature: 0.3,
-      response_format: { type: "json_object" },
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-    }),
-  });
-
-  const data = (await response.json()) as OpenAiResponse;
-
-  if (!response.ok) {
-    throw new Error(data.error?.message || "OpenAI request failed.");
-  }
-
-  return data.choices?.[0]?.message?.content?.trim() ?? "";
-};
-
 export async function POST(request: Request) {
   try {
     const body = (await request.json()) as {
@@ -81,19 +34,28 @@ export async function POST(request: Request) {
       return NextResponse.json({ prompt });
     }
 
-    const content = await callOpenAi(prompt);
-    const analysis = parseGameProfileAnalysis(content);
+    const caller = await authenticateLlmRequest(request);
+    const onUsage = await beginLlmUsage(caller, "game-profile-analysis");
+    const analysis = await createStructuredChatCompletion({
+      model: OPENAI_MODEL,
+      onUsage,
+      temperature: 0.3,
+      jsonMode: true,
+      messages: [
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      parse: parseGameProfileAnalysis,
+    });
 
     return NextResponse.json({
       user_profile_uk: analysis.user_profile_uk,
       system_profile_en: analysis.system_profile_en,
     });
   } catch (error) {
-    return NextResponse.json(
-      {
-        error: error instanceof Error ? error.message : "Не вдалося згенерувати профіль ігор.",
-      },
-      { status: 500 },
-    );
+    const { status, ...payload } = getLlmErrorResponse(error, "Не вдалося згенерувати профіль ігор.");
+    return NextResponse.json(payload, { status });
   }
 }
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { parsePublicProfileUsernameParam } from "@/lib/users/publicProfile";
+import { loadPublicProfile } from "@/lib/users/publicProfileServer";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ username: string }> },
+) {
+  const { username } = await params;
+  const parsedUsername = parsePublicProfileUsernameParam(username);
+  if (!parsedUsername) {
+    return NextResponse.json({ error: "Профіль не знайдено." }, { status: 404 });
+  }
+
+  try {
+    const profile = await loadPublicProfile(parsedUsername);
+    if (!profile) {
+      return NextResponse.json({ error: "Профіль не знайдено." }, { status: 404 });
+    }
+
+    return NextResponse.json(profile, {
+      headers: {
+        "Cache-Control": "public, max-age=60, stale-while-revalidate=300",
+      },
+    });
+  } catch (error) {
+    console.error("[api/public-profile] GET failed", {
+      username,
+      error:
+        error instanceof Error
+          ? {
+              name: error.name,
+              message: error.message,
+              stack: error.stack,
+            }
+          : error,
+    });
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Не вдалося завантажити профіль.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,5 +1,30 @@
 import { NextResponse } from "next/server";
+import {
+  answerTelegramCallbackQuery,
+  decodeTelegramNotificationAction,
+  editTelegramMessageText,
+  type TelegramInlineKeyboard,
+  type TelegramNotificationAction,
+} from "@/lib/friends/telegram";
 import { getSupabaseAdmin } from "@/lib/supabase/admin";
+import {
+  TELEGRAM_BOT_HELP_TEXT,
+  buildTelegramBotCandidateKeyboard,
+  decodeTelegramBotCallback,
+  formatTelegramBotStats,
+  parseTelegramBotCommand,
+  type TelegramBotCommand,
+} from "@/lib/telegram/botCommands";
+import {
+  findTelegramLinkedUserId,
+  loadTelegramBotPlan,
+  loadTelegramBotStats,
+  muteTelegramBotFriend,
+  pickTelegramBotRandomTitle,
+  planTelegramBotItem,
+  saveTelegramBotEntry,
+  searchTelegramBotCandidates,
+} from "@/lib/telegram/botServer";
 
 export const runtime = "nodejs";
 
@@ -14,8 +39,23 @@ type TelegramWebhookUpdate = {
       first_name?: string;
     };
   };
+  callback_query?: {
+    id?: string;
+    data?: string;
+    message?: {
+      message_id?: number;
+      chat?: {
+        id?: number | string;
+      };
+    };
+  };
 };
 
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
+
+const NOT_LINKED_TEXT =
+  "Цей чат ще не прив’язано до Catalogy. Натисни «Підключити Telegram» у налаштуваннях.";
+
 const extractStartToken = (text?: string) => {
   const normalized = text?.trim();
   if (!normalized?.startsWith("/start")) {
@@ -29,10 +69,12 @@ const replyTelegramMessage = async ({
   botToken,
   chatId,
   text,
+  replyMarkup,
 }: {
   botToken: string;
   chatId: string;
   text: string;
+  replyMarkup?: TelegramInlineKeyboard;
 }) => {
   await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
     method: "POST",
@@ -42,10 +84,152 @@ const replyTelegramMessage = async ({
     body: JSON.stringify({
       chat_id: chatId,
       text,
+      reply_markup: replyMarkup,
     }),
   });
 };
 
+const formatPlannedTitle = (title: { title: string; year: string | null; mediaKind: string }) =>
+  `${title.mediaKind === "game" ? "🎮" : "🎬"} ${title.title}${title.year ? ` (${title.year})` : ""}`;
+
+const buildCommandReply = async (
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+  command: TelegramBotCommand,
+): Promise<{ text: string; replyMarkup?: TelegramInlineKeyboard }> => {
+  switch (command.name) {
+    case "add":
+    case "watched": {
+      if (!command.query) {
+        return {
+          text:
+            command.name === "add"
+              ? "Вкажи назву: /add <назва>"
+              : "Вкажи назву та оцінку: /watched <назва> <1-5>",
+        };
+      }
+      const candidates = await searchTelegramBotCandidates(command.query);
+      if (candidates.length === 0) {
+        return { text: `Нічого не знайдено за запитом «${command.query}».` };
+      }
+      return {
+        text: "Обери потрібний варіант:",
+        replyMarkup: buildTelegramBotCandidateKeyboard(
+          candidates,
+          command.name,
+          command.name === "watched" ? command.rating : null,
+        ),
+      };
+    }
+    case "plan": {
+      const titles = await loadTelegramBotPlan(supabaseAdmin, userId);
+      return {
+        text:
+          titles.length > 0
+            ? ["Заплановано:", ...titles.map(formatPlannedTitle)].join("\n")
+            : "У колекції немає запланованих тайтлів.",
+      };
+    }
+    case "random": {
+      const title = await pickTelegramBotRandomTitle(supabaseAdmin, userId);
+      return {
+        text: title
+          ? `Спробуй: ${formatPlannedTitle(title)}`
+          : "У колекції немає запланованих тайтлів.",
+      };
+    }
+    case "stats":
+      return { text: formatTelegramBotStats(await loadTelegramBotStats(supabaseAdmin, userId)) };
+    case "help":
+      return { text: TELEGRAM_BOT_HELP_TEXT };
+  }
+};
+
+const runNotificationAction = async (
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+  action: TelegramNotificationAction,
+) => {
+  if (action.action === "plan") {
+    const result = await planTelegramBotItem(supabaseAdmin, { userId, itemId: action.itemId });
+    return result.status === "exists"
+      ? `«${result.title}» уже є у колекції.`
+      : `«${result.title}» додано в плани.`;
+  }
+
+  const isMuted = await muteTelegramBotFriend(supabaseAdmin, {
+    userId,
+    friendUserId: action.actorUserId,
+  });
+  return isMuted ? "Сповіщення від цього друга вимкнено." : "Контакт не знайдено.";
+};
+
+const handleCallbackQuery = async ({
+  botToken,
+  supabaseAdmin,
+  callbackQuery,
+}: {
+  botToken: string;
+  supabaseAdmin: SupabaseAdmin;
+  callbackQuery: NonNullable<TelegramWebhookUpdate["callback_query"]>;
+}) => {
+  const callbackQueryId = callbackQuery.id ?? "";
+  const chatId = callbackQuery.message?.chat?.id?.toString() ?? null;
+  const messageId = callbackQuery.message?.message_id ?? null;
+  const notificationAction = decodeTelegramNotificationAction(callbackQuery.data);
+  const callback = notificationAction ? null : decodeTelegramBotCallback(callbackQuery.data);
+
+  if (!callbackQueryId || !chatId || (!callback && !notificationAction)) {
+    return NextResponse.json({ ok: true, ignored: true });
+  }
+
+  const userId = await findTelegramLinkedUserId(supabaseAdmin, chatId);
+  if (!userId) {
+    await answerTelegramCallbackQuery({ botToken, callbackQueryId, text: NOT_LINKED_TEXT });
+    return NextResponse.json({ ok: true, handled: false, reason: "not_linked" });
+  }
+
+  // Notification buttons sit under photo captions, so answer with a toast
+  // and keep the original message intact.
+  if (notificationAction) {
+    let toastText: string;
+    try {
+      toastText = await runNotificationAction(supabaseAdmin, userId, notificationAction);
+    } catch (error) {
+      toastText = error instanceof Error ? error.message : "Не вдалося виконати дію.";
+    }
+    await answerTelegramCallbackQuery({ botToken, callbackQueryId, text: toastText });
+    return NextResponse.json({ ok: true, handled: true, action: notificationAction.action });
+  }
+
+  if (!callback) {
+    return NextResponse.json({ ok: true, ignored: true });
+  }
+
+  let text: string;
+  try {
+    const result = await saveTelegramBotEntry(supabaseAdmin, { userId, callback });
+    const ratingText = callback.rating !== null ? ` з оцінкою ${callback.rating}` : "";
+    text =
+      result.status === "exists"
+        ? `«${result.title}» уже є у колекції.`
+        : callback.action === "watched"
+          ? `«${result.title}» позначено переглянутим${ratingText}.`
+          : `«${result.title}» додано до колекції.`;
+  } catch (error) {
+    text = error instanceof Error ? error.message : "Не вдалося зберегти тайтл.";
+  }
+
+  await answerTelegramCallbackQuery({ botToken, callbackQueryId });
+  if (messageId !== null) {
+    await editTelegramMessageText({ botToken, chatId, messageId, text });
+  } else {
+    await replyTelegramMessage({ botToken, chatId, text });
+  }
+
+  return NextResponse.json({ ok: true, handled: true });
+};
+
 export async function POST(request: Request) {
   try {
     const webhookSecret = process.env.TELEGRAM_WEBHOOK_SECRET;
@@ -55,6 +239,9 @@ export async function POST(request: Request) {
     if (webhookSecret && requestSecret !== webhookSecret) {
       return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
     }
+    // Commands and buttons write to user data with the service role, so they
+    // need a verified request; only `/start` linking works without a secret.
+    const isVerified = Boolean(webhookSecret) && requestSecret === webhookSecret;
 
     const botToken = process.env.TELEGRAM_BOT_TOKEN;
     if (!botToken) {
@@ -65,15 +252,50 @@ export async function POST(request: Request) {
     }
 
     const payload = (await request.json()) as TelegramWebhookUpdate;
+    const supabaseAdmin = getSupabaseAdmin();
+
+    if (payload.callback_query) {
+      if (!isVerified) {
+        return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+      }
+      return await handleCallbackQuery({
+        botToken,
+        supabaseAdmin,
+        callbackQuery: payload.callback_query,
+      });
+    }
+
     const text = payload.message?.text?.trim();
     const startToken = extractStartToken(text);
     const chatId = payload.message?.chat?.id?.toString() ?? null;
+    const command = startToken ? null : parseTelegramBotCommand(text);
+
+    if (chatId && command) {
+      if (!isVerified) {
+        return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+      }
+      const userId = await findTelegramLinkedUserId(supabaseAdmin, chatId);
+      if (!userId) {
+        await replyTelegramMessage({ botToken, chatId, text: NOT_LINKED_TEXT });
+        return NextResponse.json({ ok: true, handled: false, reason: "not_linked" });
+      }
+
+      let reply: Awaited<ReturnType<typeof buildCommandReply>>;
+      try {
+        reply = await buildCommandReply(supabaseAdmin, userId, command);
+      } catch (error) {
+        reply = {
+          text: error instanceof Error ? error.message : "Не вдалося виконати команду.",
+        };
+      }
+      await replyTelegramMessage({ botToken, chatId, ...reply });
+      return NextResponse.json({ ok: true, handled: true, command: command.name });
+    }
 
     if (!startToken || !chatId) {
       return NextResponse.json({ ok: true, ignored: true });
     }
 
-    const supabaseAdmin = getSupabaseAdmin();
     const now = new Date().toISOString();
 
     const { data: tokenRow, error: tokenError } = await supabaseAdmin
@@ -1,38 +1,15 @@
 import { NextResponse } from "next/server";
-
-type TmdbCredits = {
-  cast?: {
-    id: number;
-    name: string;
-    original_name?: string;
-    character?: string | null;
-    order?: number | null;
-    profile_path?: string | null;
-    known_for_department?: string;
-  }[];
-  crew?: {
-    id: number;
-    name: string;
-    original_name?: string;
-    job: string;
-    department?: string | null;
-    profile_path?: string | null;
-    known_for_department?: string;
-  }[];
-};
-
-type TmdbVideo = {
-  id?: string;
-  key?: string;
-  name?: string;
-  site?: string;
-  type?: string;
-  official?: boolean;
-  iso_639_1?: string;
-  iso_3166_1?: string;
-};
-
-type TmdbDetail = {
+import {
+  mapTmdbCreditsToPeople,
+  mapTmdbTrailers,
+  mapTmdbTvStructure,
+  type TmdbCreator,
+  type TmdbCredits,
+  type TmdbTvStructureSource,
+  type TmdbVideo,
+} from "@/lib/tmdb/server";
+
+type TmdbDetail = TmdbTvStructureSource & {
   id: number;
   title: string;
   original_title?: string;
@@ -44,12 +21,7 @@ type TmdbDetail = {
   overview?: string | null;
   genres?: { id: number; name: string }[];
   vote_average?: number | null;
-  created_by?: {
-    id?: number;
-    name: string;
-    original_name?: string;
-    profile_path?: string | null;
-  }[];
+  created_by?: TmdbCreator[];
   credits?: TmdbCredits;
   images?: {
     posters?: { file_path: string }[];
@@ -155,114 +127,11 @@ export async function GET(
     }
   })();
 
-  const directorJobs =
-    resolvedMediaType === "tv" ? ["Series Director", "Director", "Creator"] : ["Director"];
-  const directorCredits = (detail.credits?.crew ?? [])
-    .filter((member) => directorJobs.includes(member.job))
-    .slice(0, 3);
-  const writerJobs =
-    resolvedMediaType === "tv"
-      ? ["Writer", "Screenplay", "Teleplay", "Story Editor", "Series Composition"]
-      : ["Writer", "Screenplay"];
-  const writerCredits = (detail.credits?.crew ?? [])
-    .filter((member) => writerJobs.includes(member.job))
-    .slice(0, 4);
-  const producerJobs =
-    resolvedMediaType === "tv"
-      ? ["Producer", "Executive Producer", "Co-Producer", "Series Producer"]
-      : ["Producer", "Executive Producer", "Co-Producer"];
-  const producerCredits = (detail.credits?.crew ?? [])
-    .filter((member) => producerJobs.includes(member.job))
-    .slice(0, 4);
-  const actorCredits = (detail.credits?.cast ?? []).slice(0, 12);
-  const director =
-    directorCredits[0]?.name ??
-    detail.created_by?.[0]?.name ??
-    "";
-  const actors = actorCredits
-    .slice(0, 5)
-    .map((member) => member.name)
-    .join(", ");
-  const creatorPeople = (detail.created_by ?? [])
-    .filter((member) => typeof member.id === "number" && !directorCredits.some((credit) => credit.id === member.id))
-    .map((member, index) => ({
-      tmdbPersonId: String(member.id),
-      name: member.name,
-      originalName: member.original_name ?? member.name,
-      roleKind: "director" as const,
-      creditGroup: "crew" as const,
-      department: "Creator",
-      job: "Creator",
-      characterName: "",
-      creditOrder: directorCredits.length + index,
-      isPrimary: directorCredits.length === 0 && index === 0,
-      profileUrl: member.profile_path
-        ? `https://image.tmdb.org/t/p/w500${member.profile_path}`
-        : "",
-    }));
-  const people = [
-    ...directorCredits.map((member, index) => ({
-      tmdbPersonId: String(member.id),
-      name: member.name,
-      originalName: member.original_name ?? member.name,
-      roleKind: "director" as const,
-      creditGroup: "crew" as const,
-      department: member.department ?? member.known_for_department ?? "",
-      job: member.job ?? "",
-      characterName: "",
-      creditOrder: index,
-      isPrimary: index === 0,
-      profileUrl: member.profile_path
-        ? `https://image.tmdb.org/t/p/w500${member.profile_path}`
-        : "",
-    })),
-    ...writerCredits.map((member, index) => ({
-      tmdbPersonId: String(member.id),
-      name: member.name,
-      originalName: member.original_name ?? member.name,
-      roleKind: "writer" as const,
-      creditGroup: "crew" as const,
-      department: member.department ?? member.known_for_department ?? "",
-      job: member.job ?? "",
-      characterName: "",
-      creditOrder: index,
-      isPrimary: index === 0,
-      profileUrl: member.profile_path
-        ? `https://image.tmdb.org/t/p/w500${member.profile_path}`
-        : "",
-    })),
-    ...producerCredits.map((member, index) => ({
-      tmdbPersonId: String(member.id),
-      name: member.name,
-      originalName: member.original_name ?? member.name,
-      roleKind: "producer" as const,
-      creditGroup: "crew" as const,
-      department: member.department ?? member.known_for_department ?? "",
-      job: member.job ?? "",
-      characterName: "",
-      creditOrder: index,
-      isPrimary: index === 0,
-      profileUrl: member.profile_path
-        ? `https://image.tmdb.org/t/p/w500${member.profile_path}`
-        : "",
-    })),
-    ...creatorPeople,
-    ...actorCredits.map((member, index) => ({
-      tmdbPersonId: String(member.id),
-      name: member.name,
-      originalName: member.original_name ?? member.name,
-      roleKind: "actor" as const,
-      creditGroup: "cast" as const,
-      department: member.known_for_department ?? "Acting",
-      job: "Actor",
-      characterName: member.character ?? "",
-      creditOrder: member.order ?? index,
-      isPrimary: index < 5,
-      profileUrl: member.profile_path
-        ? `https://image.tmdb.org/t/p/w500${member.profile_path}`
-        : "",
-    })),
-  ];
+  const { director, actors, people } = mapTmdbCreditsToPeople({
+    credits: detail.credits,
+    createdBy: detail.created_by,
+    mediaType: resolvedMediaType,
+  });
   const genreItems = (detail.genres ?? []).map((genre) => ({
     tmdbGenreId: String(genre.id),
     name: genre.name,
@@ -280,28 +149,11 @@ export async function GET(
   const imageUrls = Array.from(
     new Set([primaryPoster, ...posterImages, ...backdropImages].filter(Boolean)),
   );
-  const videoCandidates = (detail.videos?.results ?? []).filter(
-    (video) =>
-      video.site === "YouTube" &&
-      Boolean(video.key) &&
-      (video.type === "Trailer" || video.type === "Teaser"),
-  );
-  const localeVideos = videoCandidates.filter(
-    (video) => video.iso_639_1?.toLowerCase() === localeLanguage.toLowerCase(),
-  );
-  const trailers = (localeVideos.length > 0 ? localeVideos : videoCandidates).map(
-    (video) => ({
-      id: video.id ?? "",
-      name: video.name ?? "",
-      site: video.site ?? "",
-      key: video.key ?? "",
-      type: video.type ?? "",
-      official: Boolean(video.official),
-      language: video.iso_639_1 ?? "",
-      region: video.iso_3166_1 ?? "",
-      url: video.key ? `https://www.youtube.com/watch?v=${video.key}` : "",
-    }),
-  );
+  const trailers = mapTmdbTrailers(detail.videos?.results, localeLanguage);
+
+  const tvStructure = resolvedMediaType === "tv" ? mapTmdbTvStructure(detail) : null;
+  const tvSeasons = tvStructure?.tvSeasons ?? null;
+  const tvLastAiredEpisode = tvStructure?.tvLastAiredEpisode ?? null;
 
   return NextResponse.json({
     id: String(detail.id),
@@ -322,6 +174,8 @@ export async function GET(
         ? detail.vote_average.toFixed(1)
         : "",
     trailers,
+    tvSeasons,
+    tvLastAiredEpisode,
     mediaType: resolvedMediaType,
     source: "tmdb" as const,
   });
@@ -1,19 +1,5 @@
 import { NextResponse } from "next/server";
-
-type TmdbMovie = {
-  id: number;
-  media_type: "movie" | "tv" | "person";
-  title: string;
-  original_title?: string;
-  name?: string;
-  original_name?: string;
-  genre_ids?: number[];
-  release_date?: string;
-  first_air_date?: string;
-  poster_path?: string | null;
-  overview?: string | null;
-  vote_average?: number | null;
-};
+import { searchTmdbMulti, type TmdbSearchRow } from "@/lib/tmdb/server";
 
 type TmdbCredits = {
   cast?: {
@@ -51,6 +37,7 @@ export async function GET(request: Request) {
   const query = searchParams.get("q")?.trim();
   const year = searchParams.get("year")?.trim() ?? "";
   const directorQuery = searchParams.get("director")?.trim() ?? "";
+  const imdbId = searchParams.get("imdb")?.trim() ?? "";
 
   if (!query) {
     return NextResponse.json(
@@ -69,42 +56,42 @@ export async function GET(request: Request) {
     );
   }
 
-  const searchTmdb = async (searchQuery: string) => {
-    const searchUrl = new URL("https://api.themoviedb.org/3/search/multi");
-    searchUrl.searchParams.set("query", searchQuery);
-    searchUrl.searchParams.set("include_adult", "false");
-    searchUrl.searchParams.set("language", "uk-UA");
-    searchUrl.searchParams.set("region", "UA");
+  const findByImdbId = async (externalId: string) => {
+    const findUrl = new URL(`https://api.themoviedb.org/3/find/${encodeURIComponent(externalId)}`);
+    findUrl.searchParams.set("external_source", "imdb_id");
+    findUrl.searchParams.set("language", "uk-UA");
     if (apiKey) {
-      searchUrl.searchParams.set("api_key", apiKey);
+      findUrl.searchParams.set("api_key", apiKey);
     }
 
-    const response = await fetch(searchUrl.toString(), {
-      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-    });
-    const data = (await response.json()) as
-      | { results?: TmdbMovie[] }
-      | { status_message?: string };
-
-    if (!response.ok) {
-      throw new Error(
-        "status_message" in data && data.status_message
-          ? data.status_message
-          : "TMDB error.",
-      );
+    try {
+      const response = await fetch(findUrl.toString(), {
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      });
+      if (!response.ok) return [];
+      const data = (await response.json()) as {
+        movie_results?: TmdbSearchRow[];
+        tv_results?: TmdbSearchRow[];
+      };
+      return [
+        ...(data.movie_results ?? []).map((item) => ({ ...item, media_type: "movie" as const })),
+        ...(data.tv_results ?? []).map((item) => ({ ...item, media_type: "tv" as const })),
+      ];
+    } catch {
+      return [];
     }
-
-    return (data as { results?: TmdbMovie[] }).results ?? [];
   };
 
   const searchQueries = Array.from(
     new Set([query, year ? `${query} ${year}` : ""].filter(Boolean)),
   );
 
-  let rawResults: TmdbMovie[];
+  let rawResults: TmdbSearchRow[];
+  const imdbResults = /^tt\d+$/i.test(imdbId) ? await findByImdbId(imdbId) : [];
+  const imdbMatchKeys = new Set(imdbResults.map((item) => `${item.media_type}:${item.id}`));
   try {
-    const searchResponses = await Promise.all(searchQueries.map((item) => searchTmdb(item)));
-    rawResults = searchResponses.flat();
+    const searchResponses = await Promise.all(searchQueries.map((item) => searchTmdbMulti(item)));
+    rawResults = [...imdbResults, ...searchResponses.flat()];
   } catch (error) {
     return NextResponse.json(
       {
@@ -250,7 +237,7 @@ export async function GET(request: Request) {
   };
 
   const mediaResults = rawResults.filter(
-    (item): item is TmdbMovie & { media_type: "movie" | "tv" } =>
+    (item): item is TmdbSearchRow & { media_type: "movie" | "tv" } =>
       item.media_type === "movie" || item.media_type === "tv",
   );
   const uniqueMediaResults = Array.from(
@@ -301,6 +288,7 @@ export async function GET(request: Request) {
             : "",
         mediaType: item.media_type,
         source: "tmdb" as const,
+        imdbMatch: imdbMatchKeys.has(`${item.media_type}:${item.id}`),
       };
     }),
   );
@@ -309,6 +297,7 @@ export async function GET(request: Request) {
     const leftDirector = normalizeSearchValue(left.director);
     const rightDirector = normalizeSearchValue(right.director);
     const leftScore =
+      (left.imdbMatch ? 20 : 0) +
       (year && left.year === year ? 8 : 0) +
       (normalizedDirectorQuery &&
       leftDirector &&
@@ -317,6 +306,7 @@ export async function GET(request: Request) {
         ? 6
         : 0);
     const rightScore =
+      (right.imdbMatch ? 20 : 0) +
       (year && right.year === year ? 8 : 0) +
       (normalizedDirectorQuery &&
       rightDirector &&
@@ -15,14 +15,20 @@ import { usePathname, useRouter, useSearchParams, useSelectedLayoutSegment } fro
 import { Range, getTrackBackground } from "react-range";
 import ExistingCollectionEntryModal from "@/components/catalog/ExistingCollectionEntryModal";
 import FilterMultiSelectDropdown from "@/components/catalog/FilterMultiSelectDropdown";
+import UserListsMenu from "@/components/catalog/UserListsMenu";
 import CatalogSearchModal, {
   type CatalogSearchRequest,
 } from "@/components/catalog/CatalogSearchModal";
+import FilmCsvImportModal from "@/components/films/FilmCsvImportModal";
 import FilmMetadataContent from "@/components/films/FilmMetadataContent";
+import TvEpisodeProgress from "@/components/films/TvEpisodeProgress";
 import TrailerViewerModal from "@/components/films/TrailerViewerModal";
 import PersonHoverLink from "@/components/people/PersonHoverLink";
+import FitBatchModal from "@/components/recommendations/FitBatchModal";
 import RecommendModal from "@/components/recommendations/RecommendModal";
 import RecommendationRequestModal, {
+  type RecommendationCandidateStatus,
+  type RecommendationDismissReason,
   type RecommendationRequestOption,
 } from "@/components/recommendations/RecommendationRequestModal";
 import CloseIconButton from "@/components/ui/CloseIconButton";
@@ -40,6 +46,7 @@ import {
   readCollectionEntrySearchParams,
   replaceSelectedCollectionAddItemSearchParam,
 } from "@/lib/collection/entryRouting";
+import { saveFilmDraftToCollection } from "@/lib/collection/draftSubmission";
 import { loadOwnCollectionItemExists } from "@/lib/collection/loadOwnCollectionItemExists";
 import { buildFilmViewHref } from "@/lib/catalog/edit/routes";
 import { buildFriendFilmViewHref } from "@/lib/friends/routes";
@@ -62,7 +69,28 @@ import {
   loadAvailableGenresForCollection,
   loadMatchingItemIdsForGenres,
 } from "@/lib/collection/genreFilter";
+import {
+  USER_LISTS_CHANGED_EVENT,
+  loadUserLists,
+  loadViewIdsForList,
+  type UserList,
+  type UserListsChangedEventDetail,
+} from "@/lib/collection/userLists";
+import {
+  buildUserListPositions,
+  compareByUserListPosition,
+} from "@/lib/collection/userListEntries";
 import { buildFilmServiceMenuAction } from "@/lib/collection/serviceSearchLinks";
+import {
+  formatTvEpisodeCode,
+  normalizeTvLastAiredEpisode,
+  normalizeTvSeasons,
+  summarizeTvProgress,
+  type TvLastAiredEpisode,
+  type TvProgressSummary,
+  type TvSeason,
+} from "@/lib/films/tvProgress";
+import { loadTvWatchedEpisodes, type TvWatchedEpisodes } from "@/lib/films/tvProgressFlow";
 import { useSnackbar } from "@/components/ui/SnackbarProvider";
 import {
   fetchFilmTrailers,
@@ -71,6 +99,13 @@ import {
   watchExistingEntryTrailer,
 } from "@/lib/collection/trailers";
 import { useCollectionEntryLauncher } from "@/lib/collection/entryLauncher";
+import { getLlmRequestHeaders } from "@/lib/llm/requestHeaders";
+import {
+  loadPendingRecommendationCandidates,
+  RECOMMENDATION_FEEDBACK_LABELS,
+  setRecommendationFeedback,
+} from "@/lib/recommendations/feedback";
+import { readRecommendationStream } from "@/lib/recommendations/stream";
 import { supabase } from "@/lib/supabase/client";
 import {
   AVAILABILITY_OPTIONS,
@@ -87,12 +122,22 @@ import { evaluateFilmWithProfile } from "@/lib/films/fitAssessmentFlow";
 import { type FilmNormalizedGenre, type FilmNormalizedPerson } from "@/lib/films/normalizedMetadata";
 import { loadStoredGenresForItem } from "@/lib/films/storedGenres";
 import { loadStoredPeopleForItem } from "@/lib/films/storedPeople";
+import {
+  formatFranchiseProgress,
+  groupByFranchise,
+  loadFranchiseGroups,
+  type FranchiseGroup,
+} from "@/lib/franchises/membership";
 import type { FilmLlmExportRow } from "@/app/statistics/filmLlmCsv";
 import { deriveScopeMaturityStatus } from "@/app/statistics/lib/scopeReadiness";
 import type { FilmProfileSystemLayer, FilmProfileUserLayer } from "@/lib/profile-analysis/types";
 import {
+  getShishkaFitLabelRank,
+  SHISHKA_FIT_LABELS,
   type ShishkaFitAssessment,
 } from "@/lib/shishka/fitAssessment";
+import { isShishkaFitJobActive } from "@/lib/shishka/fitJob";
+import { useShishkaFitJob } from "@/lib/shishka/useShishkaFitJob";
 import styles from "@/components/catalog/CatalogSearch.module.css";
 
 type Trailer = {
@@ -162,6 +207,9 @@ type FilmCollectionItem = {
     trailers: Trailer[] | null;
     year?: number | null;
     type: string;
+    tv_seasons?: TvSeason[] | null;
+    tv_last_aired_episode?: TvLastAiredEpisode | null;
+    tv_structure_synced_at?: string | null;
   };
 };
 
@@ -185,34 +233,35 @@ type FilmRecommendationResolutionResult =
       status: "all_matches_already_known";
     };
 
-const buildFilmRecommendationOpenFailureMessage = (
-  routeMessage: string | undefined,
-  counts: {
-    searchNoResults: number;
-    alreadyKnownOrDuplicate: number;
-  },
-) => {
-  if (counts.alreadyKnownOrDuplicate > 0 && counts.searchNoResults === 0) {
-    return "Всі запропоновані рекомендації вже наявні у колекції.";
-  }
+type FilmRecommendationCandidate = {
+  key: string;
+  recommendation: AiRecommendation;
+  mediaType: "movie" | "tv";
+  status: RecommendationCandidateStatus;
+  note?: string;
+};
 
-  const details = [
-    counts.searchNoResults > 0
-      ? `TMDB не знайшов збігів для ${counts.searchNoResults} кандидат(ів)`
-      : null,
-    counts.alreadyKnownOrDuplicate > 0
-      ? `${counts.alreadyKnownOrDuplicate} кандидат(ів) відсіяно локально, бо вони вже є в колекції або дублюють наявні записи`
-      : null,
-  ].filter((value): value is string => Boolean(value));
-
-  return [
-    routeMessage || "Модель запропонувала кандидати, але не вдалося відкрити жодну картку.",
-    details.length > 0 ? `Проблеми на етапі відкриття: ${details.join("; ")}.` : null,
-  ]
-    .filter(Boolean)
-    .join("\n");
+const FILM_RECOMMENDATION_TYPE_LABELS: Record<string, string> = {
+  movie: "фільм",
+  series: "серіал",
+  miniseries: "мінісеріал",
 };
 
+const toStoredFilmRecommendation = (candidate: FilmRecommendationCandidate) => ({
+  scopeValue: getFilmScopeValue(candidate.mediaType),
+  title: candidate.recommendation.title,
+  year: candidate.recommendation.year,
+  type: candidate.recommendation.type,
+  why: candidate.recommendation.why,
+});
+
+const getFilmRecommendationResolutionNote = (
+  status: Exclude<FilmRecommendationResolutionResult["status"], "resolved">,
+) =>
+  status === "search_no_results"
+    ? "TMDB не знайшов збігів для цього кандидата."
+    : "Вже є у колекції або дублює наявний запис.";
+
 type FilmRecommendationApiResponse = {
   message?: string;
   error?: string;
@@ -220,7 +269,7 @@ type FilmRecommendationApiResponse = {
 };
 
 const FILM_VIEW_SELECT =
-  "id, created_at, updated_at, viewed_at, rating, comment, view_percent, recommend_similar, is_viewed, availability, shishka_fit_label, shishka_fit_reason, shishka_fit_profile_analyzed_at, shishka_fit_scope_value, items:items!inner (id, title, title_uk, title_en, title_original, description, genres, director, actors, poster_url, external_id, film_media_type, imdb_rating, trailers, year, type)";
+  "id, created_at, updated_at, viewed_at, rating, comment, view_percent, recommend_similar, is_viewed, availability, shishka_fit_label, shishka_fit_reason, shishka_fit_profile_analyzed_at, shishka_fit_scope_value, items:items!inner (id, title, title_uk, title_en, title_original, description, genres, director, actors, poster_url, external_id, film_media_type, imdb_rating, trailers, year, type, tv_seasons, tv_last_aired_episode, tv_structure_synced_at)";
 
 type FilmItemDraft = {
   title: string;
@@ -284,6 +333,9 @@ type Filters = {
   yearRange: [number, number];
   availability: string[];
   genres: string[];
+  listId: string | null;
+  fitLabelsAll: boolean;
+  fitLabels: string[];
   director: string;
   externalRatingRange: [number, number];
   personalRatingRange: [number, number];
@@ -295,7 +347,7 @@ type Filters = {
   sortDirectionSecondary: SortDirection;
 };
 
-type SortBy = "created_at" | "title" | "rating" | "year";
+type SortBy = "created_at" | "title" | "rating" | "year" | "fit" | "list";
 type SortDirection = "asc" | "desc";
 type QuickViewFilter = "all" | "viewed" | "planned";
 
@@ -314,6 +366,8 @@ const SORT_OPTIONS: Array<{ value: SortBy; label: string }> = [
   { value: "title", label: "Ім'я" },
   { value: "rating", label: "Особистий рейтинг" },
   { value: "year", label: "Рік релізу" },
+  { value: "fit", label: "Вірогідність сподобатись" },
+  { value: "list", label: "Порядок у списку" },
 ];
 const PAGE_SIZE = 20;
 const LOAD_AHEAD_PX = 700;
@@ -337,6 +391,9 @@ const DEFAULT_FILTERS: Filters = {
   yearRange: [MIN_YEAR, MAX_YEAR],
   availability: [],
   genres: [],
+  listId: null,
+  fitLabelsAll: true,
+  fitLabels: [],
   director: "",
   externalRatingRange: [EXTERNAL_MIN, EXTERNAL_MAX],
   personalRatingRange: [PERSONAL_MIN, PERSONAL_MAX],
@@ -402,7 +459,7 @@ const normalizeComparableTitle = (value: string) =>
     .trim();
 
 const getDefaultSortDirection = (sortBy: SortBy): SortDirection => {
-  if (sortBy === "title") return "asc";
+  if (sortBy === "title" || sortBy === "list") return "asc";
   return "desc";
 };
 
@@ -417,6 +474,9 @@ const getFiltersRequestKey = (filters: Filters) =>
     yearRange: [filters.yearRange[0], filters.yearRange[1]],
     availability: [...filters.availability],
     genres: [...filters.genres],
+    listId: filters.listId,
+    fitLabelsAll: filters.fitLabelsAll,
+    fitLabels: [...filters.fitLabels],
     director: filters.director,
     externalRatingRange: [
       filters.externalRatingRange[0],
@@ -439,8 +499,19 @@ const compareFilmsByField = (
   right: FilmCollectionItem,
   sortBy: SortBy,
   sortDirection: SortDirection,
+  listPositions: Map<string, number>,
 ) => {
   const direction = sortDirection === "asc" ? 1 : -1;
+  if (sortBy === "list") {
+    return compareByUserListPosition(left.id, right.id, listPositions) * direction;
+  }
+  if (sortBy === "fit") {
+    const leftRank = getShishkaFitLabelRank(left.shishka_fit_label);
+    const rightRank = getShishkaFitLabelRank(right.shishka_fit_label);
+    if (leftRank < 0 && rightRank >= 0) return 1;
+    if (leftRank >= 0 && rightRank < 0) return -1;
+    return (leftRank - rightRank) * direction;
+  }
   if (sortBy === "title") {
     return (
       left.items.title.localeCompare(right.items.title, "uk", {
@@ -479,6 +550,7 @@ const sortFilmCollection = (
   sortDirection: SortDirection,
   sortBySecondary: SortBy,
   sortDirectionSecondary: SortDirection,
+  listPositions: Map<string, number> = new Map(),
 ) => {
   const sorted = [...items];
   const sortSequence: Array<[SortBy, SortDirection]> = [[sortBy, sortDirection]];
@@ -487,7 +559,7 @@ const sortFilmCollection = (
   }
   sorted.sort((left, right) => {
     for (const [field, direction] of sortSequence) {
-      const cmp = compareFilmsByField(left, right, field, direction);
+      const cmp = compareFilmsByField(left, right, field, direction, listPositions);
       if (cmp !== 0) return cmp;
     }
     const createdDiff = Date.parse(right.created_at) - Date.parse(left.created_at);
@@ -550,6 +622,9 @@ export default function FilmsManager({
   ]);
   const [message, setMessage] = useState("");
   const [recommendationMessage, setRecommendationMessage] = useState("");
+  const [recommendationCandidates, setRecommendationCandidates] = useState<
+    FilmRecommendationCandidate[]
+  >([]);
   const [recommendationPromptPreview, setRecommendationPromptPreview] = useState("");
   const [trailerMessage, setTrailerMessage] = useState("");
   const [totalCount, setTotalCount] = useState(0);
@@ -562,6 +637,7 @@ export default function FilmsManager({
   const [hasMore, setHasMore] = useState(false);
   const [page, setPage] = useState(0);
   const [isAddOpen, setIsAddOpen] = useState(false);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
   const [isFiltersOpen, setIsFiltersOpen] = useState(false);
   const [isSortPopoverOpen, setIsSortPopoverOpen] = useState(false);
   const [isSortModalOpen, setIsSortModalOpen] = useState(false);
@@ -572,6 +648,10 @@ export default function FilmsManager({
     sortDirectionSecondary: DEFAULT_FILTERS.sortDirectionSecondary,
   });
   const [viewMode, setViewMode] = useState<FilmsViewMode>("cards");
+  const [isGroupedByFranchise, setIsGroupedByFranchise] = useState(false);
+  const [franchiseGroups, setFranchiseGroups] = useState<Map<string, FranchiseGroup>>(
+    () => new Map(),
+  );
   const [isDirectorsHydrating, setIsDirectorsHydrating] = useState(false);
   const [selectedView, setSelectedView] = useState<FilmCollectionItem | null>(
     null,
@@ -584,6 +664,10 @@ export default function FilmsManager({
   const [selectedViewPeople, setSelectedViewPeople] = useState<FilmNormalizedPerson[]>([]);
   const [selectedViewGenres, setSelectedViewGenres] = useState<FilmNormalizedGenre[]>([]);
   const [availableGenres, setAvailableGenres] = useState<string[]>([]);
+  const [availableLists, setAvailableLists] = useState<UserList[]>([]);
+  const [tvWatchedByViewId, setTvWatchedByViewId] = useState<Record<string, TvWatchedEpisodes>>(
+    {},
+  );
   const [selectedViewPreloadedPeople, setSelectedViewPreloadedPeople] = useState<{
     itemId: string;
     people: FilmNormalizedPerson[];
@@ -635,6 +719,14 @@ export default function FilmsManager({
   } | null>(null);
   const [recommendationScopeState, setRecommendationScopeState] =
     useState<RecommendationScopeState | null>(null);
+  const [fitBatchScopeState, setFitBatchScopeState] = useState<{
+    options: RecommendationRequestOption[];
+    isLoading: boolean;
+  } | null>(null);
+  const fitBatch = useShishkaFitJob("film", {
+    enabled: !readOnly && !ownerUserId && !isEditOnly,
+  });
+  const lastReloadedFitBatchJobIdRef = useRef<string | null>(null);
   const [contacts, setContacts] = useState<ContactOption[]>([]);
   const [isNicknameModalOpen, setIsNicknameModalOpen] = useState(false);
   const [nicknameValue, setNicknameValue] = useState("");
@@ -1347,6 +1439,45 @@ export default function FilmsManager({
     };
   }, [friendAccessState, ownerUserId, readOnly]);
 
+  useEffect(() => {
+    if (readOnly && ownerUserId && friendAccessState !== "allowed") {
+      setAvailableLists([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const reloadLists = async () => {
+      try {
+        const nextLists = await loadUserLists({ ownerUserId });
+        if (isCancelled) return;
+        setAvailableLists(nextLists);
+        const dropRemovedList = (prev: Filters) =>
+          prev.listId && !nextLists.some((list) => list.id === prev.listId)
+            ? { ...prev, listId: null }
+            : prev;
+        setAppliedFilters(dropRemovedList);
+        setPendingFilters(dropRemovedList);
+      } catch {
+        if (!isCancelled) {
+          setAvailableLists([]);
+        }
+      }
+    };
+    void reloadLists();
+
+    const handleUserListsChanged = (event: Event) => {
+      const detail = (event as CustomEvent<UserListsChangedEventDetail>).detail;
+      if (!detail?.viewId) {
+        void reloadLists();
+      }
+    };
+    window.addEventListener(USER_LISTS_CHANGED_EVENT, handleUserListsChanged);
+    return () => {
+      isCancelled = true;
+      window.removeEventListener(USER_LISTS_CHANGED_EVENT, handleUserListsChanged);
+    };
+  }, [friendAccessState, ownerUserId, readOnly]);
+
   const fetchPage = useCallback(async (pageIndex: number, filters: Filters) => {
     const requestKey = getFiltersRequestKey(filters);
     if (pageIndex === 0) {
@@ -1401,6 +1532,9 @@ export default function FilmsManager({
             selectedGenres,
           })
         : null;
+    const matchingListViewIds = filters.listId
+      ? await loadViewIdsForList(filters.listId)
+      : null;
 
     const trimmedQuery = filters.query.trim();
     const effectiveViewed = filters.viewAll ? true : filters.viewed;
@@ -1425,8 +1559,12 @@ export default function FilmsManager({
     const needsClientSort =
       filters.sortBy === "title" ||
       filters.sortBy === "year" ||
+      filters.sortBy === "fit" ||
       filters.sortBySecondary === "title" ||
-      filters.sortBySecondary === "year";
+      filters.sortBySecondary === "year" ||
+      filters.sortBySecondary === "fit" ||
+      (Boolean(matchingListViewIds) &&
+        (filters.sortBy === "list" || filters.sortBySecondary === "list"));
     if (needsClientSort && pageIndex > 0) {
       logLazy("skip:client-sort", { pageIndex });
       loadingPagesRef.current.delete(pageIndex);
@@ -1451,7 +1589,10 @@ export default function FilmsManager({
       .eq("user_id", effectiveOwnerId)
       .eq("items.type", "film");
 
-    if (matchingGenreItemIds && matchingGenreItemIds.length === 0) {
+    if (
+      (matchingGenreItemIds && matchingGenreItemIds.length === 0) ||
+      (matchingListViewIds && matchingListViewIds.length === 0)
+    ) {
       if (pageIndex === 0) {
         setCollection([]);
         collectionRef.current = [];
@@ -1471,6 +1612,10 @@ export default function FilmsManager({
       query = query.in("item_id", matchingGenreItemIds);
     }
 
+    if (matchingListViewIds && matchingListViewIds.length > 0) {
+      query = query.in("id", matchingListViewIds);
+    }
+
     if (effectiveViewed !== effectivePlanned) {
       query = query.eq("is_viewed", effectiveViewed);
     }
@@ -1489,6 +1634,10 @@ export default function FilmsManager({
       query = query.in("availability", filters.availability);
     }
 
+    if (!filters.fitLabelsAll && filters.fitLabels.length > 0) {
+      query = query.in("shishka_fit_label", filters.fitLabels);
+    }
+
     const [minYear, maxYear] = yearBounds;
     const [fromYear, toYear] = clampRange(filters.yearRange, yearBounds);
     const isYearFilterActive = fromYear !== minYear || toYear !== maxYear;
@@ -1563,6 +1712,10 @@ export default function FilmsManager({
         countQuery = countQuery.in("item_id", matchingGenreItemIds);
       }
 
+      if (matchingListViewIds && matchingListViewIds.length > 0) {
+        countQuery = countQuery.in("id", matchingListViewIds);
+      }
+
       if (effectiveViewed !== effectivePlanned) {
         countQuery = countQuery.eq("is_viewed", effectiveViewed);
       }
@@ -1585,6 +1738,10 @@ export default function FilmsManager({
         countQuery = countQuery.in("availability", filters.availability);
       }
 
+      if (!filters.fitLabelsAll && filters.fitLabels.length > 0) {
+        countQuery = countQuery.in("shishka_fit_label", filters.fitLabels);
+      }
+
       if (isExternalFilterActive) {
         countQuery = countQuery
           .gte("items.imdb_rating", String(externalMin))
@@ -1674,6 +1831,7 @@ export default function FilmsManager({
             filters.sortDirection,
             filters.sortBySecondary,
             filters.sortDirectionSecondary,
+            buildUserListPositions(matchingListViewIds ?? []),
           )
         : ((data as unknown as FilmCollectionItem[]) ?? []);
       const previousCollection = collectionRef.current;
@@ -1730,6 +1888,8 @@ export default function FilmsManager({
             filters.viewedDateFrom ||
             filters.viewedDateTo ||
             (!filters.genresAll && filters.genres.length > 0) ||
+            (!filters.fitLabelsAll && filters.fitLabels.length > 0) ||
+            filters.listId ||
             filters.director.trim(),
         );
         setMessage(
@@ -1831,6 +1991,59 @@ export default function FilmsManager({
     };
   }, [fetchPage, hasApplied, isEditOnly, loadSelectedViewById, ownerUserId, readOnly]);
 
+  useEffect(() => {
+    const activeListId = appliedFilters.listId;
+    if (isEditOnly || readOnly || ownerUserId || !hasApplied || !activeListId) {
+      return;
+    }
+
+    const handleUserListsChanged = (event: Event) => {
+      const detail = (event as CustomEvent<UserListsChangedEventDetail>).detail;
+      if (detail?.listId === activeListId && detail.viewId) {
+        void fetchPage(0, appliedFilters);
+      }
+    };
+
+    window.addEventListener(USER_LISTS_CHANGED_EVENT, handleUserListsChanged);
+    return () => {
+      window.removeEventListener(USER_LISTS_CHANGED_EVENT, handleUserListsChanged);
+    };
+  }, [appliedFilters, fetchPage, hasApplied, isEditOnly, ownerUserId, readOnly]);
+
+  useEffect(() => {
+    if (isEditOnly) return;
+    const missingViewIds = collection
+      .filter(
+        (item) =>
+          item.items.film_media_type === "tv" &&
+          normalizeTvSeasons(item.items.tv_seasons).length > 0 &&
+          !tvWatchedByViewId[item.id],
+      )
+      .map((item) => item.id);
+    if (missingViewIds.length === 0) return;
+
+    let isCancelled = false;
+    void (async () => {
+      try {
+        const watchedByViewId = await loadTvWatchedEpisodes(supabase, missingViewIds);
+        if (isCancelled) return;
+        setTvWatchedByViewId((prev) => {
+          const next = { ...prev };
+          missingViewIds.forEach((viewId) => {
+            next[viewId] = watchedByViewId.get(viewId) ?? { episodes: [], lastWatchedAt: null };
+          });
+          return next;
+        });
+      } catch {
+        // Card badges are optional; the entry modal surfaces load errors.
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [collection, isEditOnly, tvWatchedByViewId]);
+
   useEffect(() => {
     if (isEditOnly) return;
     if (readOnly && ownerUserId && friendAccessState !== "allowed") return;
@@ -2106,6 +2319,57 @@ export default function FilmsManager({
           return directorText.includes(directorFilter) || description.includes(directorFilter);
         });
   }, [appliedFilters.director, collection]);
+
+  const franchiseSections = useMemo(
+    () => groupByFranchise(displayedCollection, (item) => item.items.id, franchiseGroups),
+    [displayedCollection, franchiseGroups],
+  );
+
+  useEffect(() => {
+    if (viewMode !== "cards" || !isGroupedByFranchise) return;
+    let isCancelled = false;
+
+    void (async () => {
+      const effectiveOwnerId = ownerUserId ?? (await supabase.auth.getUser()).data.user?.id;
+      if (!effectiveOwnerId) return;
+      const groups = await loadFranchiseGroups({
+        supabase,
+        ownerUserId: effectiveOwnerId,
+        itemIds: displayedCollection.map((item) => item.items.id),
+      });
+      if (!isCancelled) {
+        setFranchiseGroups(groups);
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [displayedCollection, isGroupedByFranchise, ownerUserId, viewMode]);
+
+  const tvProgressByViewId = useMemo(() => {
+    const summaries = new Map<string, TvProgressSummary>();
+    displayedCollection.forEach((item) => {
+      const watched = tvWatchedByViewId[item.id];
+      if (item.items.film_media_type !== "tv" || !watched) return;
+      const seasons = normalizeTvSeasons(item.items.tv_seasons);
+      if (seasons.length === 0) return;
+      summaries.set(
+        item.id,
+        summarizeTvProgress({
+          seasons,
+          lastAired: normalizeTvLastAiredEpisode(item.items.tv_last_aired_episode),
+          watchedEpisodes: watched.episodes,
+          lastWatchedAt: watched.lastWatchedAt,
+        }),
+      );
+    });
+    return summaries;
+  }, [displayedCollection, tvWatchedByViewId]);
+  const itemsWithNewEpisodes = useMemo(
+    () => displayedCollection.filter((item) => tvProgressByViewId.get(item.id)?.hasNewEpisode),
+    [displayedCollection, tvProgressByViewId],
+  );
   const fetchAllFilmsLibraryForRecommendations = async () => {
     const {
       data: { user },
@@ -2259,6 +2523,41 @@ export default function FilmsManager({
       .map(({ value, label }) => ({ value, label }));
   };
 
+  const completedFitBatchJobId =
+    fitBatch.job?.status === "completed" ? fitBatch.job.id : null;
+
+  useEffect(() => {
+    if (
+      !completedFitBatchJobId ||
+      lastReloadedFitBatchJobIdRef.current === completedFitBatchJobId
+    ) {
+      return;
+    }
+    lastReloadedFitBatchJobIdRef.current = completedFitBatchJobId;
+    void fetchPage(0, appliedFilters);
+  }, [appliedFilters, completedFitBatchJobId, fetchPage]);
+
+  const handleOpenFitBatch = async () => {
+    setMessage("");
+    setFitBatchScopeState({ options: [], isLoading: true });
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      setFitBatchScopeState(null);
+      setMessage("Потрібна авторизація.");
+      return;
+    }
+    const profileAnalysisByScope = await fetchFilmProfileAnalysesForRecommendations(user.id);
+    setFitBatchScopeState({
+      options: Object.keys(profileAnalysisByScope).map((scopeValue) => ({
+        value: scopeValue,
+        label: scopeValue,
+      })),
+      isLoading: false,
+    });
+  };
+
   const handleOpenRecommendRequest = async () => {
     setMessage("");
     setRecommendationMessage("");
@@ -2273,9 +2572,10 @@ export default function FilmsManager({
         return;
       }
       const effectiveOwnerId = ownerUserId ?? user.id;
-      const [allRows, profileAnalysisByScope] = await Promise.all([
+      const [allRows, profileAnalysisByScope, pendingCandidates] = await Promise.all([
         fetchAllFilmsLibraryForRecommendations(),
         fetchFilmProfileAnalysesForRecommendations(effectiveOwnerId),
+        loadPendingRecommendationCandidates({ supabase, mediaKind: "film" }),
       ]);
       if (allRows.length === 0) {
         setMessage("Бібліотека порожня.");
@@ -2289,6 +2589,14 @@ export default function FilmsManager({
           "Наразі немає достатньо інформації для рекомендацій. Додайте більше фільмів, серіалів, оцінок і переглядів.",
         profileAnalysisByScope,
       });
+      setRecommendationCandidates(
+        pendingCandidates.map((candidate) => ({
+          key: `${candidate.title}__${candidate.year}`,
+          recommendation: { ...candidate, raw: "" },
+          mediaType: candidate.scopeValue === "Серіали" ? "tv" : "movie",
+          status: "idle",
+        })),
+      );
     } catch (error) {
       setMessage(error instanceof Error ? error.message : "Не вдалося підготувати рекомендації.");
     } finally {
@@ -2401,9 +2709,7 @@ export default function FilmsManager({
       }
       const response = await fetch("/api/openai/film-recommendations", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: await getLlmRequestHeaders(),
         body: JSON.stringify({
           rows: scopedRows,
           knownTitleRows: recommendationScopeState?.rows ?? scopedRows,
@@ -2446,155 +2752,61 @@ export default function FilmsManager({
         setMessage("Немає достатньо даних для цього формату.");
         return;
       }
-      const requestRecommendations = async (
-        requestedCount: number,
-        additionalKnownTitles: string[] = [],
-      ) => {
-        const response = await fetch("/api/openai/film-recommendations", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            rows: scopedRows,
-            knownTitleRows: recommendationScopeState?.rows ?? scopedRows,
-            additionalKnownTitles,
-            requestedCount,
-            outputCount: requestedCount,
-            minimumRecommendationCount: Math.min(4, requestedCount),
-            scopeLabel: mediaType === "tv" ? "Серіали" : "Кіно",
-            userWishes: wishes,
-            profileAnalysis:
-              recommendationScopeState?.profileAnalysisByScope[
-                mediaType === "tv" ? "Серіали" : "Кіно"
-              ],
-          }),
-        });
-        const data = (await response.json()) as FilmRecommendationApiResponse;
-        return { response, data };
-      };
-
-      const tryOpenBatch = async (
-        recommendations: AiRecommendation[],
-      ): Promise<
-        | {
-            opened: true;
-          }
-        | {
-            opened: false;
-            counts: {
-              searchNoResults: number;
-              alreadyKnownOrDuplicate: number;
-            };
-          }
-      > => {
-        const resolutionCounts = {
-          searchNoResults: 0,
-          alreadyKnownOrDuplicate: 0,
-        };
-
-        for (const recommendation of recommendations) {
-          const resolution = await resolveRecommendedFilm(recommendation, mediaType);
-          if (resolution.status === "search_no_results") {
-            resolutionCounts.searchNoResults += 1;
-            continue;
-          }
-          if (resolution.status === "all_matches_already_known") {
-            resolutionCounts.alreadyKnownOrDuplicate += 1;
-            continue;
-          }
-          const recommendedFilm = resolution.item;
+      const response = await fetch("/api/openai/film-recommendations", {
+        method: "POST",
+        headers: await getLlmRequestHeaders(),
+        body: JSON.stringify({
+          rows: scopedRows,
+          knownTitleRows: recommendationScopeState?.rows ?? scopedRows,
+          additionalKnownTitles: recommendationCandidates.map(
+            (candidate) => candidate.recommendation.title,
+          ),
+          requestedCount: 6,
+          outputCount: 6,
+          minimumRecommendationCount: 4,
+          scopeLabel: getFilmScopeValue(mediaType),
+          userWishes: wishes,
+          profileAnalysis:
+            recommendationScopeState?.profileAnalysisByScope[
+              getFilmScopeValue(mediaType)
+            ],
+          stream: true,
+        }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as FilmRecommendationApiResponse;
+        setRecommendationMessage(data.error || "Не вдалося згенерувати рекомендації.");
+        showSnackbar("Не вдалося згенерувати рекомендації");
+        return;
+      }
 
-          openSelectedFilmDraft(recommendedFilm, {
-            recommendationComment: recommendation.why,
-            recommendationScopeValue: getFilmScopeValue(recommendedFilm.mediaType),
-            recommendationFitAssessment: null,
-            closeSearch: false,
-          });
-          setRecommendationScopeState(null);
-          setRecommendationMessage(
-            `${recommendation.title} (${recommendation.year})\nWhy it fits: ${recommendation.why}`,
-          );
-          showSnackbar("Рекомендацію відкрито");
-          return { opened: true };
+      const result = await readRecommendationStream<AiRecommendation>(response, (event) => {
+        if (event.type !== "candidate") {
+          return;
         }
+        const { recommendation } = event;
+        setRecommendationCandidates((prev) => [
+          ...prev,
+          {
+            key: `${recommendation.title}__${recommendation.year}`,
+            recommendation,
+            mediaType,
+            status: "idle",
+          },
+        ]);
+      });
 
-        return {
-          opened: false,
-          counts: resolutionCounts,
-        };
-      };
-
-      const firstBatch = await requestRecommendations(6);
-      if (!firstBatch.response.ok) {
-        const nextMessage = firstBatch.data.error || "Не вдалося згенерувати рекомендації.";
-        setRecommendationMessage(nextMessage);
+      if (result.type === "error") {
+        setRecommendationMessage(result.error || "Не вдалося згенерувати рекомендації.");
         showSnackbar("Не вдалося згенерувати рекомендації");
         return;
       }
-
-      const firstRecommendations = firstBatch.data.recommendations ?? [];
-      if (firstRecommendations.length === 0) {
+      if (result.recommendations.length === 0) {
         setRecommendationMessage(
-          firstBatch.data.message || "Не вдалося згенерувати рекомендації для цього формату.",
+          result.message || "Не вдалося згенерувати рекомендації для цього формату.",
         );
         showSnackbar("Рекомендацій не знайдено");
-        return;
       }
-
-      const firstOpenResult = await tryOpenBatch(firstRecommendations);
-      if (firstOpenResult.opened) {
-        return;
-      }
-
-      const shouldRequestWiderBatch =
-        firstOpenResult.counts.alreadyKnownOrDuplicate === firstRecommendations.length
-        && firstOpenResult.counts.searchNoResults === 0;
-
-      if (shouldRequestWiderBatch) {
-        const secondBatch = await requestRecommendations(
-          10,
-          firstRecommendations.map((recommendation) => recommendation.title),
-        );
-        if (secondBatch.response.ok) {
-          const secondRecommendations = secondBatch.data.recommendations ?? [];
-          if (secondRecommendations.length > 0) {
-            const secondOpenResult = await tryOpenBatch(secondRecommendations);
-            if (secondOpenResult.opened) {
-              return;
-            }
-
-            if (
-              secondOpenResult.counts.alreadyKnownOrDuplicate === secondRecommendations.length
-              && secondOpenResult.counts.searchNoResults === 0
-            ) {
-              setRecommendationMessage("Всі запропоновані рекомендації вже наявні у колекції.");
-              showSnackbar("Нових рекомендацій не знайдено");
-              return;
-            }
-
-            setRecommendationMessage(
-              buildFilmRecommendationOpenFailureMessage(
-                secondBatch.data.message,
-                secondOpenResult.counts,
-              ),
-            );
-            showSnackbar("Не вдалося відкрити жодну рекомендацію");
-            return;
-          }
-
-          setRecommendationMessage(
-            secondBatch.data.message || "Всі запропоновані рекомендації вже наявні у колекції.",
-          );
-          showSnackbar("Нових рекомендацій не знайдено");
-          return;
-        }
-      }
-
-      setRecommendationMessage(
-        buildFilmRecommendationOpenFailureMessage(firstBatch.data.message, firstOpenResult.counts),
-      );
-      showSnackbar("Не вдалося відкрити жодну рекомендацію");
     } catch (error) {
       const nextMessage =
         error instanceof Error ? error.message : "Не вдалося згенерувати рекомендації.";
@@ -2604,6 +2816,122 @@ export default function FilmsManager({
       setIsGeneratingRecommendations(false);
     }
   };
+  const updateRecommendationCandidate = (
+    key: string,
+    patch: Pick<FilmRecommendationCandidate, "status" | "note">,
+  ) => {
+    setRecommendationCandidates((prev) =>
+      prev.map((candidate) => (candidate.key === key ? { ...candidate, ...patch } : candidate)),
+    );
+  };
+  const handleDismissRecommendationCandidate = async (
+    key: string,
+    reason: RecommendationDismissReason,
+  ) => {
+    const candidate = recommendationCandidates.find((entry) => entry.key === key);
+    if (!candidate) {
+      return;
+    }
+    updateRecommendationCandidate(key, { status: "busy", note: undefined });
+    try {
+      await setRecommendationFeedback({
+        supabase,
+        mediaKind: "film",
+        candidate: toStoredFilmRecommendation(candidate),
+        status: reason,
+      });
+      updateRecommendationCandidate(key, {
+        status: "dismissed",
+        note: RECOMMENDATION_FEEDBACK_LABELS[reason],
+      });
+    } catch (error) {
+      updateRecommendationCandidate(key, {
+        status: "failed",
+        note: error instanceof Error ? error.message : "Не вдалося зберегти відгук.",
+      });
+    }
+  };
+  const resolveRecommendationCandidate = async (key: string) => {
+    const candidate = recommendationCandidates.find((entry) => entry.key === key);
+    if (!candidate) {
+      return null;
+    }
+    updateRecommendationCandidate(key, { status: "busy", note: undefined });
+    try {
+      const resolution = await resolveRecommendedFilm(candidate.recommendation, candidate.mediaType);
+      if (resolution.status !== "resolved") {
+        updateRecommendationCandidate(key, {
+          status: "failed",
+          note: getFilmRecommendationResolutionNote(resolution.status),
+        });
+        return null;
+      }
+      return { candidate, item: resolution.item };
+    } catch (error) {
+      updateRecommendationCandidate(key, {
+        status: "failed",
+        note: error instanceof Error ? error.message : "Не вдалося знайти фільм.",
+      });
+      return null;
+    }
+  };
+  const handleOpenRecommendationCandidate = async (key: string) => {
+    const resolved = await resolveRecommendationCandidate(key);
+    if (!resolved) {
+      return;
+    }
+    openSelectedFilmDraft(resolved.item, {
+      recommendationComment: resolved.candidate.recommendation.why,
+      recommendationScopeValue: getFilmScopeValue(resolved.item.mediaType),
+      recommendationFitAssessment: null,
+      closeSearch: false,
+    });
+    setRecommendationScopeState(null);
+    setRecommendationCandidates([]);
+    setRecommendationMessage("");
+    showSnackbar("Рекомендацію відкрито");
+  };
+  const handlePlanRecommendationCandidate = async (key: string) => {
+    const resolved = await resolveRecommendationCandidate(key);
+    if (!resolved) {
+      return;
+    }
+    try {
+      const result = await saveFilmDraftToCollection({
+        supabase,
+        film: resolved.item,
+        payload: {
+          viewedAt: new Date().toISOString().slice(0, 10),
+          comment: "",
+          recommendSimilar: false,
+          isViewed: false,
+          rating: null,
+          viewPercent: 0,
+          platforms: [],
+          availability: null,
+          shishkaFitAssessment: null,
+        },
+        allowUpdateExistingViewForNew: false,
+      });
+      updateRecommendationCandidate(key, { status: "planned", note: "Додано в заплановані." });
+      void setRecommendationFeedback({
+        supabase,
+        mediaKind: "film",
+        candidate: toStoredFilmRecommendation(resolved.candidate),
+        status: "added",
+      }).catch(() => undefined);
+      emitCollectionEntrySaved({
+        mediaKind: "film",
+        itemId: result.itemId ?? null,
+        viewId: result.viewId ?? null,
+      });
+    } catch (error) {
+      updateRecommendationCandidate(key, {
+        status: "failed",
+        note: error instanceof Error ? error.message : "Не вдалося додати у колекцію.",
+      });
+    }
+  };
   const [yearRangeFrom, yearRangeTo] = clampRange(appliedFilters.yearRange, yearBounds);
   const isFiltersApplied =
     Boolean(
@@ -2616,6 +2944,8 @@ export default function FilmsManager({
       (appliedFilters.viewAll ? true : appliedFilters.planned) ||
     !appliedFilters.availabilityAll ||
     (!appliedFilters.genresAll && appliedFilters.genres.length > 0) ||
+    (!appliedFilters.fitLabelsAll && appliedFilters.fitLabels.length > 0) ||
+    Boolean(appliedFilters.listId) ||
     yearRangeFrom !== yearBounds[0] ||
     yearRangeTo !== yearBounds[1] ||
     appliedFilters.externalRatingRange[0] !== EXTERNAL_MIN ||
@@ -3449,6 +3779,49 @@ export default function FilmsManager({
     return [...groups.entries()].sort(([left], [right]) => left.localeCompare(right, "uk"));
   }, [displayedCollection]);
 
+  const renderFilmCardItem = (item: FilmCollectionItem) => (
+    <div key={item.id} className={styles.filmCardShell}>
+      <button
+        type="button"
+        className={`${styles.resultButton} ${styles.filmCardViewItem}`}
+        onClick={() => {
+          void openSelectedView(item);
+        }}
+      >
+        <div className={styles.filmCardPosterWrapper}>
+          {item.items.poster_url ? (
+            <Image
+              className={styles.poster}
+              src={item.items.poster_url}
+              alt={`Постер ${item.items.title}`}
+              width={270}
+              height={405}
+              sizes="(max-width: 720px) 70vw, 270px"
+              loading="lazy"
+              unoptimized
+            />
+          ) : (
+            <div className={styles.posterPlaceholder}>No image</div>
+          )}
+        </div>
+        <div className={styles.filmCardFooter}>
+          <div className={styles.filmCardRatingsRow}>
+            <span className={styles.resultRating}>IMDb: {item.items.imdb_rating ?? "—"}</span>
+            <span className={styles.resultRating}>Мій: {item.rating ?? "—"}</span>
+          </div>
+          {renderTvProgressBadge(item)}
+        </div>
+      </button>
+      {!readOnly ? (
+        <UserListsMenu
+          variant="icon"
+          viewId={item.id}
+          className={styles.filmCardListsMenu}
+        />
+      ) : null}
+    </div>
+  );
+
   const renderActorLinks = (people?: FilmNormalizedPerson[] | null) => {
     const actors = (people ?? [])
       .filter((person) => person.roleKind === "actor")
@@ -3574,6 +3947,24 @@ export default function FilmsManager({
     );
   };
 
+  const renderTvProgressBadge = (item: FilmCollectionItem) => {
+    const summary = tvProgressByViewId.get(item.id);
+    if (!summary?.nextEpisode || summary.watchedCount === 0) {
+      return null;
+    }
+
+    return (
+      <span
+        className={`${styles.tvProgressBadge} ${
+          summary.hasNewEpisode ? styles.tvProgressBadgeNew : ""
+        }`}
+      >
+        {summary.hasNewEpisode ? "Нова серія · " : ""}
+        {formatTvEpisodeCode(summary.nextEpisode)} далі
+      </span>
+    );
+  };
+
   const renderDefaultFilmItem = (
     item: FilmCollectionItem,
     keyPrefix = "",
@@ -3661,6 +4052,7 @@ export default function FilmsManager({
         )}
         <div className={styles.userMeta}>
           <span>Переглянуто: {item.is_viewed ? "так" : "ні"}</span>
+          {renderTvProgressBadge(item)}
           {item.is_viewed && item.viewed_at ? (
             <span>Дата перегляду: {formatViewedDate(item.viewed_at)}</span>
           ) : null}
@@ -3738,6 +4130,7 @@ export default function FilmsManager({
     <ExistingCollectionEntryModal
       key={selectedView.id}
       title={selectedView.items.title}
+      viewId={selectedView.id}
       posterUrl={(selectedViewItemDraft?.poster_url ?? selectedView.items.poster_url) ?? undefined}
       imageUrls={selectedViewItemDraft?.imageUrls ?? selectedViewImageUrls ?? undefined}
       fitTargetText="цей фільм"
@@ -3776,6 +4169,32 @@ export default function FilmsManager({
           </button>
         ) : null
       }
+      extraContent={
+        selectedView.items.film_media_type === "tv" ? (
+          <TvEpisodeProgress
+            viewId={selectedView.id}
+            itemId={selectedView.items.id}
+            externalId={selectedView.items.external_id}
+            seasons={selectedView.items.tv_seasons}
+            lastAiredEpisode={selectedView.items.tv_last_aired_episode}
+            structureSyncedAt={selectedView.items.tv_structure_synced_at}
+            readOnly={readOnly}
+            onProgressChange={(summary, watched) => {
+              setTvWatchedByViewId((prev) => ({ ...prev, [selectedView.id]: watched }));
+              patchCollectionEntryByViewId({
+                viewId: selectedView.id,
+                setCollection,
+                setSelectedView,
+                applyPatch: (item) => ({
+                  ...item,
+                  view_percent: summary.viewPercent,
+                  is_viewed: summary.isViewed,
+                }),
+              });
+            }}
+          />
+        ) : null
+      }
       initialValues={{
         viewedAt: selectedView.viewed_at,
         comment: selectedView.comment,
@@ -3886,12 +4305,29 @@ export default function FilmsManager({
       canPreviewPrompt={isRecommendationPromptDebugEnabled && !readOnly}
       isPreviewingPrompt={isPreviewingRecommendationPrompt}
       promptPreview={recommendationPromptPreview}
+      candidates={recommendationCandidates.map((candidate) => ({
+        key: candidate.key,
+        title: candidate.recommendation.title,
+        meta: [
+          candidate.recommendation.year,
+          FILM_RECOMMENDATION_TYPE_LABELS[candidate.recommendation.type],
+        ]
+          .filter(Boolean)
+          .join(" · "),
+        why: candidate.recommendation.why,
+        status: candidate.status,
+        note: candidate.note,
+      }))}
       placeholder="щось легше, без жахів, не дуже довге"
       onClose={() => {
         setRecommendationScopeState(null);
+        setRecommendationCandidates([]);
         setRecommendationMessage("");
         setRecommendationPromptPreview("");
       }}
+      onOpenCandidate={handleOpenRecommendationCandidate}
+      onPlanCandidate={handlePlanRecommendationCandidate}
+      onDismissCandidate={handleDismissRecommendationCandidate}
       onPreviewPrompt={async (scopeValue, wishes) => {
         await handlePreviewRecommendationPrompt(scopeValue as "movie" | "tv", wishes);
       }}
@@ -3901,6 +4337,21 @@ export default function FilmsManager({
     />
   ) : null;
 
+  const fitBatchModal = fitBatchScopeState ? (
+    <FitBatchModal
+      title="Оцінити заплановані фільми"
+      scopeLabel="Формат"
+      options={fitBatchScopeState.options}
+      emptyMessage="Спершу проаналізуй кіно-профіль на сторінці профілю."
+      isLoading={fitBatchScopeState.isLoading}
+      job={fitBatch.job}
+      error={fitBatch.error}
+      isStarting={fitBatch.isStarting}
+      onStart={fitBatch.start}
+      onClose={() => setFitBatchScopeState(null)}
+    />
+  ) : null;
+
   const nicknameModal = isNicknameModalOpen ? (
     <div
       className={styles.filtersOverlay}
@@ -3968,6 +4419,7 @@ export default function FilmsManager({
         {trailerViewerModal}
         {recommendItemModal}
         {recommendationScopeModal}
+        {fitBatchModal}
         {nicknameModal}
       </div>
     );
@@ -4155,6 +4607,18 @@ export default function FilmsManager({
               >
                 Детальний
               </button>
+              {viewMode === "cards" ? (
+                <button
+                  type="button"
+                  className={`${styles.viewSwitchButton} ${
+                    isGroupedByFranchise ? styles.viewSwitchButtonActive : ""
+                  }`}
+                  onClick={() => setIsGroupedByFranchise((current) => !current)}
+                  aria-pressed={isGroupedByFranchise}
+                >
+                  Франшизи
+                </button>
+              ) : null}
               <button
                 type="button"
                 className={`${styles.viewSwitchButton} ${
@@ -4231,6 +4695,25 @@ export default function FilmsManager({
                 >
                   {recommendIcon}
                 </button>
+                <button
+                  type="button"
+                  className={`btnBase btnSecondary ${styles.desktopOnlyAction}`}
+                  onClick={() => setIsCsvImportOpen(true)}
+                  disabled={isGeneratingRecommendations}
+                >
+                  Імпорт CSV
+                </button>
+                <button
+                  type="button"
+                  className={`btnBase btnSecondary ${styles.desktopOnlyAction}`}
+                  onClick={() => {
+                    void handleOpenFitBatch();
+                  }}
+                >
+                  {isShishkaFitJobActive(fitBatch.job)
+                    ? `Оцінюємо ${fitBatch.job.processedCount}/${fitBatch.job.totalCount}`
+                    : "Оцінити заплановані"}
+                </button>
                 <button
                   type="button"
                   className={`btnBase btnPrimary ${styles.desktopOnlyAction}`}
@@ -4263,6 +4746,27 @@ export default function FilmsManager({
         <p className={styles.message}>{friendAccessMessage}</p>
       ) : null}
       {message ? <p className={styles.message}>{message}</p> : null}
+      {!readOnly && itemsWithNewEpisodes.length > 0 ? (
+        <div className={styles.newEpisodesBar}>
+          <span>Вийшли нові серії:</span>
+          {itemsWithNewEpisodes.map((item) => {
+            const nextEpisode = tvProgressByViewId.get(item.id)?.nextEpisode;
+            return (
+              <button
+                key={item.id}
+                type="button"
+                className={styles.newEpisodesChip}
+                onClick={() => {
+                  void openSelectedView(item);
+                }}
+              >
+                {item.items.title}
+                {nextEpisode ? ` · ${formatTvEpisodeCode(nextEpisode)}` : ""}
+              </button>
+            );
+          })}
+        </div>
+      ) : null}
       {viewMode === "default" && isFriendAccessAllowed ? (
         <div className={styles.results}>{displayedCollection.map((item) => renderDefaultFilmItem(item))}</div>
       ) : null}
@@ -4283,41 +4787,35 @@ export default function FilmsManager({
         </div>
       ) : null}
       {viewMode === "cards" && isFriendAccessAllowed ? (
-        <div className={`${styles.results} ${styles.filmCardsGrid}`}>
-          {displayedCollection.map((item) => (
-            <button
-              key={item.id}
-              type="button"
-              className={`${styles.resultButton} ${styles.filmCardViewItem}`}
-              onClick={() => {
-                void openSelectedView(item);
-              }}
-            >
-              <div className={styles.filmCardPosterWrapper}>
-                {item.items.poster_url ? (
-                  <Image
-                    className={styles.poster}
-                    src={item.items.poster_url}
-                    alt={`Постер ${item.items.title}`}
-                    width={270}
-                    height={405}
-                    sizes="(max-width: 720px) 70vw, 270px"
-                    loading="lazy"
-                    unoptimized
-                  />
-                ) : (
-                  <div className={styles.posterPlaceholder}>No image</div>
-                )}
-              </div>
-              <div className={styles.filmCardFooter}>
-                <div className={styles.filmCardRatingsRow}>
-                  <span className={styles.resultRating}>IMDb: {item.items.imdb_rating ?? "—"}</span>
-                  <span className={styles.resultRating}>Мій: {item.rating ?? "—"}</span>
+        isGroupedByFranchise ? (
+          <div className={styles.directorGroups}>
+            {franchiseSections.sections.map(({ group, items }) => (
+              <section key={group.href} className={styles.directorGroup}>
+                <h3 className={styles.directorTitle}>
+                  <Link href={group.href} className={styles.metaEntityLink}>
+                    {group.name}
+                  </Link>{" "}
+                  · {formatFranchiseProgress(group, "film")}
+                </h3>
+                <div className={`${styles.results} ${styles.filmCardsGrid}`}>
+                  {items.map((item) => renderFilmCardItem(item))}
                 </div>
-              </div>
-            </button>
-          ))}
-        </div>
+              </section>
+            ))}
+            {franchiseSections.ungrouped.length > 0 ? (
+              <section className={styles.directorGroup}>
+                <h3 className={styles.directorTitle}>Без франшизи</h3>
+                <div className={`${styles.results} ${styles.filmCardsGrid}`}>
+                  {franchiseSections.ungrouped.map((item) => renderFilmCardItem(item))}
+                </div>
+              </section>
+            ) : null}
+          </div>
+        ) : (
+          <div className={`${styles.results} ${styles.filmCardsGrid}`}>
+            {displayedCollection.map((item) => renderFilmCardItem(item))}
+          </div>
+        )
       ) : null}
       {hasApplied && hasMore && isFriendAccessAllowed ? (
         <div ref={loadMoreRef} className={styles.loadMoreTrigger} />
@@ -4389,6 +4887,42 @@ export default function FilmsManager({
                 }))
               }
             />
+            <FilterMultiSelectDropdown
+              title="Вірогідність сподобатись"
+              options={[...SHISHKA_FIT_LABELS]}
+              selectedValues={pendingFilters.fitLabels}
+              allSelected={pendingFilters.fitLabelsAll}
+              emptyLabel="Оберіть оцінки"
+              onChange={({ selectedValues, allSelected }) =>
+                setPendingFilters((prev) => ({
+                  ...prev,
+                  fitLabels: selectedValues,
+                  fitLabelsAll: allSelected,
+                }))
+              }
+            />
+            {availableLists.length > 0 ? (
+              <label className={styles.filtersField}>
+                Список
+                <select
+                  className={styles.sortSelect}
+                  value={pendingFilters.listId ?? ""}
+                  onChange={(event) =>
+                    setPendingFilters((prev) => ({
+                      ...prev,
+                      listId: event.target.value || null,
+                    }))
+                  }
+                >
+                  <option value="">Усі записи</option>
+                  {availableLists.map((list) => (
+                    <option key={list.id} value={list.id}>
+                      {list.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
             <label className={styles.filtersField}>
               Режисер
               <input
@@ -4929,11 +5463,16 @@ export default function FilmsManager({
         />
       ) : null}
 
+      {isCsvImportOpen ? (
+        <FilmCsvImportModal onClose={() => setIsCsvImportOpen(false)} />
+      ) : null}
+
       {refreshPickerModal}
       {selectedViewModal}
       {trailerViewerModal}
       {recommendItemModal}
       {recommendationScopeModal}
+      {fitBatchModal}
       {nicknameModal}
     </div>
   );
@@ -0,0 +1,312 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import CatalogLayout from "@/components/catalog/CatalogLayout";
+import searchStyles from "@/components/catalog/CatalogSearch.module.css";
+import {
+  buildFilmCatalogHref,
+  buildFilmViewHref,
+  buildGameCatalogHref,
+  buildGameViewHref,
+} from "@/lib/catalog/edit/routes";
+import {
+  buildFranchiseProgress,
+  formatFranchiseProgress,
+  type FranchiseEntry,
+  type FranchiseMediaKind,
+  type FranchiseOwnedEntry,
+  type FranchiseProgressRow,
+} from "@/lib/franchises/membership";
+import { parseFranchiseRouteId } from "@/lib/franchises/routes";
+import { supabase } from "@/lib/supabase/client";
+import styles from "@/app/actors/ActorsPage.module.css";
+
+type FranchiseRecord = {
+  mediaKind: FranchiseMediaKind;
+  name: string;
+  posterUrl: string | null;
+  entries: FranchiseEntry[];
+};
+
+function FranchiseEntryCard({
+  row,
+  mediaKind,
+}: {
+  row: FranchiseProgressRow;
+  mediaKind: FranchiseMediaKind;
+}) {
+  const content = (
+    <>
+      <div className={searchStyles.resultHeader}>
+        <div className={searchStyles.titleRow}>
+          <h3 className={searchStyles.resultTitle}>
+            {row.position}. {row.title}
+          </h3>
+          {row.owned ? (
+            <div className={searchStyles.ratingRow}>
+              <span className={searchStyles.resultRating}>Мій: {row.owned.rating ?? "—"}</span>
+            </div>
+          ) : null}
+        </div>
+      </div>
+      <div className={searchStyles.posterWrapper}>
+        {row.posterUrl ? (
+          <Image
+            src={row.posterUrl}
+            alt={row.title}
+            width={180}
+            height={270}
+            className={searchStyles.poster}
+          />
+        ) : (
+          <div className={searchStyles.posterPlaceholder}>Без постера</div>
+        )}
+      </div>
+      <div className={searchStyles.resultContent}>
+        <p className={searchStyles.resultMeta}>Рік: {row.year || "—"}</p>
+        <div className={searchStyles.userMeta}>
+          {row.owned ? (
+            <span>
+              {mediaKind === "film" ? "Переглянуто" : "Пройдено"}:{" "}
+              {row.owned.isViewed ? "так" : "ні"}
+            </span>
+          ) : (
+            <span>Ще немає у колекції</span>
+          )}
+        </div>
+      </div>
+    </>
+  );
+  const className = `${searchStyles.resultItem} ${searchStyles.resultButton} ${searchStyles.collectionItem}`;
+
+  if (!row.owned) {
+    return <div className={className}>{content}</div>;
+  }
+
+  return (
+    <Link
+      href={
+        mediaKind === "film"
+          ? buildFilmViewHref(row.owned.viewId)
+          : buildGameViewHref(row.owned.viewId)
+      }
+      className={className}
+    >
+      {content}
+    </Link>
+  );
+}
+
+export default function FranchiseDetailPage({ franchiseId }: { franchiseId: string }) {
+  const [franchise, setFranchise] = useState<FranchiseRecord | null>(null);
+  const [ownedByExternalId, setOwnedByExternalId] = useState(
+    () => new Map<string, FranchiseOwnedEntry>(),
+  );
+  const [message, setMessage] = useState("Завантаження франшизи…");
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    void (async () => {
+      const target = parseFranchiseRouteId(franchiseId);
+      if (!target) {
+        if (!isCancelled) {
+          setMessage("Франшизу не знайдено.");
+        }
+        return;
+      }
+
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        if (!isCancelled) {
+          setMessage("Потрібна авторизація.");
+        }
+        return;
+      }
+
+      const { data: franchiseData, error: franchiseError } = await supabase
+        .from("franchises")
+        .select("media_kind, name, poster_url, entries")
+        .eq("source", target.source)
+        .eq("source_franchise_id", target.sourceFranchiseId)
+        .maybeSingle();
+
+      if (franchiseError || !franchiseData) {
+        if (!isCancelled) {
+          setFranchise(null);
+          setMessage(
+            franchiseError ? "Не вдалося завантажити франшизу." : "Франшизу не знайдено.",
+          );
+        }
+        return;
+      }
+
+      const record = franchiseData as {
+        media_kind: FranchiseMediaKind;
+        name: string;
+        poster_url: string | null;
+        entries: FranchiseEntry[] | null;
+      };
+      const entries = record.entries ?? [];
+      const nextOwned = new Map<string, FranchiseOwnedEntry>();
+
+      if (entries.length > 0) {
+        const { data: viewsData, error: viewsError } = await supabase
+          .from("user_views")
+          .select("id, rating, is_viewed, items!inner(type, external_id)")
+          .eq("user_id", user.id)
+          .eq("items.type", record.media_kind)
+          .in(
+            "items.external_id",
+            entries.map((entry) => entry.sourceItemId),
+          );
+
+        if (viewsError) {
+          if (!isCancelled) {
+            setMessage("Не вдалося завантажити твої записи.");
+          }
+          return;
+        }
+
+        ((viewsData ?? []) as Array<{
+          id: string;
+          rating?: number | null;
+          is_viewed?: boolean | null;
+          items:
+            | { external_id?: string | null }
+            | Array<{ external_id?: string | null }>
+            | null;
+        }>).forEach((row) => {
+          const item = Array.isArray(row.items) ? row.items[0] : row.items;
+          if (!item?.external_id) {
+            return;
+          }
+          nextOwned.set(item.external_id, {
+            viewId: row.id,
+            isViewed: Boolean(row.is_viewed),
+            rating: row.rating ?? null,
+          });
+        });
+      }
+
+      if (!isCancelled) {
+        setFranchise({
+          mediaKind: record.media_kind,
+          name: record.name,
+          posterUrl: record.poster_url,
+          entries,
+        });
+        setOwnedByExternalId(nextOwned);
+        setMessage(entries.length > 0 ? "" : "Склад франшизи поки невідомий.");
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [franchiseId]);
+
+  const progress = useMemo(
+    () => buildFranchiseProgress(franchise?.entries ?? [], ownedByExternalId),
+    [franchise, ownedByExternalId],
+  );
+  const averageRating = useMemo(() => {
+    const ratings = progress.rows
+      .map((row) => row.owned?.rating ?? null)
+      .filter((value): value is number => value !== null);
+    return ratings.length > 0
+      ? ratings.reduce((sum, value) => sum + value, 0) / ratings.length
+      : null;
+  }, [progress.rows]);
+  const mediaKind = franchise?.mediaKind ?? "film";
+
+  return (
+    <CatalogLayout
+      title={franchise?.name ?? "Франшиза"}
+      headerRight={
+        <Link
+          href={mediaKind === "film" ? buildFilmCatalogHref() : buildGameCatalogHref()}
+          className="btnBase btnSecondary"
+        >
+          {mediaKind === "film" ? "До фільмів" : "До ігор"}
+        </Link>
+      }
+    >
+      <div className={styles.content}>
+        {message ? <p className={styles.message}>{message}</p> : null}
+
+        {franchise ? (
+          <>
+            <section className={styles.hero}>
+              <div className={styles.heroMedia}>
+                {franchise.posterUrl ? (
+                  <Image
+                    src={franchise.posterUrl}
+                    alt={franchise.name}
+                    width={360}
+                    height={540}
+                    className={styles.heroImage}
+                  />
+                ) : (
+                  <div className={styles.heroPlaceholder}>Постер недоступний</div>
+                )}
+              </div>
+              <div className={styles.heroContent}>
+                <div className={styles.kpiGrid}>
+                  <div className={styles.kpiCard}>
+                    <span className={styles.kpiLabel}>Частин</span>
+                    <span className={styles.kpiValue}>{progress.totalCount}</span>
+                  </div>
+                  <div className={styles.kpiCard}>
+                    <span className={styles.kpiLabel}>У колекції</span>
+                    <span className={styles.kpiValue}>{progress.ownedCount}</span>
+                  </div>
+                  <div className={styles.kpiCard}>
+                    <span className={styles.kpiLabel}>Прогрес</span>
+                    <span className={styles.kpiValue}>
+                      {progress.watchedCount} / {progress.totalCount}
+                    </span>
+                  </div>
+                  <div className={styles.kpiCard}>
+                    <span className={styles.kpiLabel}>Середня моя оцінка</span>
+                    <span className={styles.kpiValue}>
+                      {averageRating !== null ? averageRating.toFixed(1) : "—"}
+                    </span>
+                  </div>
+                </div>
+
+                <div className={styles.metaList}>
+                  <p className={styles.metaItem}>{formatFranchiseProgress(progress, mediaKind)}</p>
+                  {progress.missing.length > 0 ? (
+                    <p className={styles.metaItem}>
+                      Бракує: {progress.missing.map((row) => row.title).join("; ")}
+                    </p>
+                  ) : (
+                    <p className={styles.metaItem}>Усі частини вже в колекції.</p>
+                  )}
+                </div>
+              </div>
+            </section>
+
+            <section className={styles.section}>
+              <div className={styles.sectionHeader}>
+                <h2 className={styles.sectionTitle}>Усі частини</h2>
+                <span className={styles.sectionMeta}>{progress.totalCount}</span>
+              </div>
+              <div className={searchStyles.results}>
+                {progress.rows.map((row) => (
+                  <FranchiseEntryCard key={row.sourceItemId} row={row} mediaKind={mediaKind} />
+                ))}
+              </div>
+            </section>
+          </>
+        ) : null}
+      </div>
+    </CatalogLayout>
+  );
+}
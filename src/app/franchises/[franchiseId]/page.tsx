@@ -0,0 +1,10 @@
+import FranchiseDetailPage from "./FranchiseDetailPage";
+
+export default async function FranchisePage({
+  params,
+}: {
+  params: Promise<{ franchiseId: string }>;
+}) {
+  const { franchiseId } = await params;
+  return <FranchiseDetailPage franchiseId={franchiseId} />;
+}
@@ -5,7 +5,17 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabase/client";
 import { useCollectionEntryLauncher } from "@/lib/collection/entryLauncher";
+import { emitCollectionEntrySaved } from "@/lib/collection/events";
+import { addExistingItemToCollection } from "@/lib/collection/viewMutations";
 import {
+  groupFriendActivityEvents,
+  loadFriendActivityFeedPage,
+  type FriendActivityEventRow,
+  type FriendActivityFeedCursor,
+} from "@/lib/friends/activityFeed";
+import {
+  buildEntryDiscussionPath,
+  isEntryDiscussionEventType,
   loadFriendNotifications,
   type FriendNotificationRow,
 } from "@/lib/friends/notifications";
@@ -78,7 +88,9 @@ type FriendNotification = FriendNotificationRow & {
   } | null;
 };
 
-type TabKey = "recommendations" | "contacts" | "settings";
+type FriendViewDetails = NonNullable<FriendNotification["viewDetails"]>;
+
+type TabKey = "recommendations" | "feed" | "contacts" | "settings";
 type RecommendationTabKey = "inbox" | "updates" | "sent";
 type ContactNotificationKey =
   | "notify_film_added"
@@ -88,6 +100,7 @@ type ContactNotificationKey =
 
 const tabLabels: Record<TabKey, string> = {
   recommendations: "Рекомендації",
+  feed: "Стрічка",
   contacts: "Контакти",
   settings: "Налаштування",
 };
@@ -100,6 +113,12 @@ const recommendationTabLabels: Record<RecommendationTabKey, string> = {
 
 const formatDate = (value: string) =>
   new Date(value).toLocaleDateString("uk-UA");
+
+const formatDateRange = (from: string, to: string) => {
+  const fromText = formatDate(from);
+  const toText = formatDate(to);
+  return fromText === toText ? toText : `${fromText} — ${toText}`;
+};
 const NICKNAME_PATTERN = /^[A-Za-z0-9_-]{3,24}$/;
 
 type FriendsFeedCardTextProps = {
@@ -192,6 +211,14 @@ export default function FriendsManager() {
   const [postNicknameAction, setPostNicknameAction] = useState<"createInvite" | null>(
     null,
   );
+  const [feedEvents, setFeedEvents] = useState<FriendActivityEventRow[]>([]);
+  const [feedViewDetails, setFeedViewDetails] = useState<Map<string, FriendViewDetails>>(
+    new Map(),
+  );
+  const [feedCursor, setFeedCursor] = useState<FriendActivityFeedCursor | null>(null);
+  const [feedLoadedKey, setFeedLoadedKey] = useState<string | null>(null);
+  const [isFeedLoading, setIsFeedLoading] = useState(false);
+  const [quickAddingItemId, setQuickAddingItemId] = useState<string | null>(null);
 
   const pendingCount = useMemo(
     () => inbox.filter((item) => item.status === "pending").length,
@@ -217,6 +244,22 @@ export default function FriendsManager() {
     [notifications, showArchivedNotifications],
   );
   const friendsBadgeCount = pendingCount + unreadNotificationCount;
+  const acceptedContactIdsKey = useMemo(
+    () =>
+      contacts
+        .filter((contact) => contact.status === "accepted")
+        .map((contact) => contact.other_user_id)
+        .join(","),
+    [contacts],
+  );
+  const feedBursts = useMemo(() => groupFriendActivityEvents(feedEvents), [feedEvents]);
+  const contactProfileById = useMemo(
+    () =>
+      new Map(
+        contacts.map((contact) => [contact.other_user_id, contact.profile] as const),
+      ),
+    [contacts],
+  );
 
   const loadProfiles = useCallback(async (ids: string[]) => {
     if (ids.length === 0) return new Map<string, Profile>();
@@ -230,7 +273,7 @@ export default function FriendsManager() {
   }, []);
 
   const loadNotificationViewDetails = useCallback(
-    async (notificationRows: FriendNotificationRow[]) => {
+    async (notificationRows: Array<Pick<FriendNotificationRow, "actor_user_id" | "payload">>) => {
       const userViewIds = notificationRows
         .map((item) => item.payload.userViewId?.trim() ?? "")
         .filter(Boolean);
@@ -525,6 +568,58 @@ export default function FriendsManager() {
     loadAll();
   }, [loadAll]);
 
+  const loadFeedPage = useCallback(
+    async (cursor: FriendActivityFeedCursor | null) => {
+      setIsFeedLoading(true);
+      try {
+        const actorUserIds = acceptedContactIdsKey ? acceptedContactIdsKey.split(",") : [];
+        const { events, nextCursor } = await loadFriendActivityFeedPage(supabase, {
+          actorUserIds,
+          cursor,
+        });
+        const { detailsByViewId } = await loadNotificationViewDetails(events);
+        const itemIds = [...new Set(events.map((event) => event.item_id))];
+        const ownItemIds = new Set<string>();
+        if (currentUserId && itemIds.length > 0) {
+          const { data: ownViews } = await supabase
+            .from("user_views")
+            .select("item_id")
+            .eq("user_id", currentUserId)
+            .in("item_id", itemIds);
+          (ownViews ?? []).forEach((row) => {
+            if (row.item_id) {
+              ownItemIds.add(row.item_id);
+            }
+          });
+        }
+
+        setFeedEvents((prev) => (cursor ? [...prev, ...events] : events));
+        setFeedViewDetails((prev) => {
+          const next = new Map(cursor ? prev : []);
+          detailsByViewId.forEach((detail, viewId) => next.set(viewId, detail));
+          return next;
+        });
+        setOwnCollectionItemIds((prev) => new Set([...prev, ...ownItemIds]));
+        setFeedCursor(nextCursor);
+        setFeedLoadedKey(acceptedContactIdsKey);
+      } catch (error) {
+        setMessage(
+          error instanceof Error ? error.message : "Не вдалося завантажити стрічку друзів.",
+        );
+      }
+      setIsFeedLoading(false);
+    },
+    [acceptedContactIdsKey, currentUserId, loadNotificationViewDetails],
+  );
+
+  useEffect(() => {
+    if (activeTab !== "feed" || isLoading || feedLoadedKey === acceptedContactIdsKey) {
+      return;
+    }
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    void loadFeedPage(null);
+  }, [acceptedContactIdsKey, activeTab, feedLoadedKey, isLoading, loadFeedPage]);
+
   const validateNickname = (value: string) => {
     if (!NICKNAME_PATTERN.test(value)) {
       return "3-24 символи: літери, цифри, _, -";
@@ -825,7 +920,46 @@ export default function FriendsManager() {
     });
   }, [openCreateOwnEntry, setNotificationsArchived]);
 
-  const getNotificationText = (notification: FriendNotification) => {
+  const handleQuickAddFeedItem = async (event: FriendActivityEventRow) => {
+    setQuickAddingItemId(event.item_id);
+    setMessage("");
+    try {
+      await addExistingItemToCollection({ supabase, itemId: event.item_id });
+      setOwnCollectionItemIds((prev) => new Set([...prev, event.item_id]));
+      emitCollectionEntrySaved({ mediaKind: event.media_kind, itemId: event.item_id });
+      setMessage(`«${event.payload.title ?? "Без назви"}» додано до твоєї колекції.`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося додати у колекцію.");
+    }
+    setQuickAddingItemId(null);
+  };
+
+  const handleOpenEntryDiscussion = useCallback((item: FriendNotification) => {
+    const path = buildEntryDiscussionPath({
+      recipientUserId: item.recipient_user_id,
+      entryOwnerUserId: item.payload.entryOwnerUserId,
+      mediaKind: item.media_kind,
+      userViewId: item.payload.userViewId,
+    });
+    if (!path) {
+      setMessage("Не вдалося відкрити обговорення.");
+      return;
+    }
+    router.push(path);
+  }, [router]);
+
+  const getNotificationText = (
+    notification: Pick<FriendNotificationRow, "event_type" | "media_kind">,
+  ) => {
+    if (notification.event_type === "commented") {
+      return "Прокоментував(ла) твій запис";
+    }
+    if (notification.event_type === "replied") {
+      return "Відповів(ла) на твій коментар";
+    }
+    if (notification.event_type === "reacted") {
+      return "Відреагував(ла) на твій запис";
+    }
     return notification.event_type === "viewed"
       ? notification.media_kind === "film"
         ? "Завершив(ла) перегляд фільму"
@@ -1088,9 +1222,14 @@ export default function FriendsManager() {
                       <div className={styles.posterPlaceholder}>No image</div>
                     )}
                     {(() => {
-                      const rating = getNotificationDisplayRating(item);
-                      const comment = getNotificationDisplayComment(item);
-                      const ownItemId = item.viewDetails?.itemId ?? item.payload.itemId ?? null;
+                      const isDiscussion = isEntryDiscussionEventType(item.event_type);
+                      const rating = isDiscussion ? null : getNotificationDisplayRating(item);
+                      const comment = isDiscussion
+                        ? item.payload.comment?.trim() || null
+                        : getNotificationDisplayComment(item);
+                      const ownItemId = isDiscussion
+                        ? null
+                        : item.viewDetails?.itemId ?? item.payload.itemId ?? null;
                       const isOwnItemAdded = isOwnCollectionItem(ownItemId);
 
                       return (
@@ -1104,13 +1243,16 @@ export default function FriendsManager() {
                           {typeof rating === "number" ? (
                             <p className={styles.meta}>Рейтинг: {rating.toFixed(1)}</p>
                           ) : null}
-                          {item.viewDetails ? (
+                          {isDiscussion && item.payload.reaction ? (
+                            <p className={styles.meta}>Реакція: {item.payload.reaction}</p>
+                          ) : null}
+                          {!isDiscussion && item.viewDetails ? (
                             <p className={styles.meta}>
                               Переглянуто: {item.viewDetails.isViewed ? "так" : "ні"} (
                               {item.viewDetails.viewPercent}%)
                             </p>
                           ) : null}
-                          {item.viewDetails?.isViewed && item.viewDetails.viewedAt ? (
+                          {!isDiscussion && item.viewDetails?.isViewed && item.viewDetails.viewedAt ? (
                             <p className={styles.meta}>
                               Дата перегляду: {formatDate(item.viewDetails.viewedAt)}
                             </p>
@@ -1131,13 +1273,23 @@ export default function FriendsManager() {
                                 {isOwnItemAdded ? "Редагувати" : "Додати собі у колекцію"}
                               </button>
                             ) : null}
-                            <button
-                              type="button"
-                              className="btnBase btnSecondary"
-                              onClick={() => handleOpenFriendCollection(item)}
-                            >
-                              Відкрити колекцію друга
-                            </button>
+                            {isDiscussion ? (
+                              <button
+                                type="button"
+                                className="btnBase btnPrimary"
+                                onClick={() => handleOpenEntryDiscussion(item)}
+                              >
+                                Відкрити обговорення
+                              </button>
+                            ) : (
+                              <button
+                                type="button"
+                                className="btnBase btnSecondary"
+                                onClick={() => handleOpenFriendCollection(item)}
+                              >
+                                Відкрити колекцію друга
+                              </button>
+                            )}
                             {!item.is_read ? (
                               <button
                                 type="button"
@@ -1206,6 +1358,122 @@ export default function FriendsManager() {
         </div>
       ) : null}
 
+      {activeTab === "feed" ? (
+        <div className={styles.list}>
+          {feedBursts.map((burst) => (
+            <section key={burst.key} className={styles.feedBurst}>
+              <div className={styles.feedBurstHeader}>
+                <h3>
+                  {getDisplayName(
+                    contactProfileById.get(burst.actorUserId)?.username,
+                    burst.actorUserId,
+                  )}
+                </h3>
+                <span className={styles.meta}>
+                  {formatDateRange(burst.startedAt, burst.endedAt)}
+                  {burst.events.length > 1 ? ` · ${burst.events.length} записів` : ""}
+                </span>
+              </div>
+              {burst.events.map((event) => {
+                const details = feedViewDetails.get(event.user_view_id) ?? null;
+                const rating =
+                  typeof event.payload.rating === "number"
+                    ? event.payload.rating
+                    : details?.rating ?? null;
+                const comment = details?.comment?.trim() || null;
+                const isOwnItemAdded = isOwnCollectionItem(event.item_id);
+
+                return (
+                  <div key={event.id} className={styles.card}>
+                    {event.payload.posterUrl ? (
+                      <Image
+                        className={styles.poster}
+                        src={event.payload.posterUrl}
+                        alt={`Постер ${event.payload.title ?? "твору"}`}
+                        width={96}
+                        height={140}
+                        unoptimized
+                      />
+                    ) : (
+                      <div className={styles.posterPlaceholder}>No image</div>
+                    )}
+                    <FriendsFeedCardText
+                      title={event.payload.title ?? "Без назви"}
+                      dateText={formatDate(event.occurred_at)}
+                      typeLabel={getNotificationText(event)}
+                      byline={event.media_kind === "film" ? "Кіно" : "Ігри"}
+                      comment={comment}
+                      commentLabel="Коментар:"
+                    >
+                      {typeof rating === "number" ? (
+                        <p className={styles.meta}>Рейтинг: {rating.toFixed(1)}</p>
+                      ) : null}
+                      <div className={styles.actionsRow}>
+                        {isOwnItemAdded ? (
+                          <button
+                            type="button"
+                            className="btnBase btnSecondary"
+                            onClick={() =>
+                              openCreateOwnEntry({
+                                mediaKind: event.media_kind,
+                                itemId: event.item_id,
+                              })
+                            }
+                          >
+                            Редагувати
+                          </button>
+                        ) : (
+                          <button
+                            type="button"
+                            className="btnBase btnPrimary"
+                            onClick={() => void handleQuickAddFeedItem(event)}
+                            disabled={quickAddingItemId === event.item_id}
+                          >
+                            {quickAddingItemId === event.item_id
+                              ? "Додавання..."
+                              : "Додати собі у колекцію"}
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          className="btnBase btnSecondary"
+                          onClick={() =>
+                            router.push(
+                              `/friends/${event.actor_user_id}/${
+                                event.media_kind === "film" ? "films" : "games"
+                              }`,
+                            )
+                          }
+                        >
+                          Відкрити колекцію друга
+                        </button>
+                      </div>
+                    </FriendsFeedCardText>
+                  </div>
+                );
+              })}
+            </section>
+          ))}
+          {isFeedLoading ? <p className={styles.message}>Завантаження...</p> : null}
+          {!isFeedLoading && feedLoadedKey !== null && feedBursts.length === 0 ? (
+            <p className={styles.message}>
+              Друзі ще нічого не додавали, або їхні колекції закриті.
+            </p>
+          ) : null}
+          {feedCursor && !isFeedLoading ? (
+            <div className={styles.inlineActions}>
+              <button
+                type="button"
+                className="btnBase btnSecondary"
+                onClick={() => void loadFeedPage(feedCursor)}
+              >
+                Показати ще
+              </button>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
       {activeTab === "contacts" ? (
         <div className={styles.invites}>
           <div className={styles.inviteForm}>
@@ -15,12 +15,18 @@ import { usePathname, useRouter, useSearchParams, useSelectedLayoutSegment } fro
 import { Range, getTrackBackground } from "react-range";
 import ExistingCollectionEntryModal from "@/components/catalog/ExistingCollectionEntryModal";
 import FilterMultiSelectDropdown from "@/components/catalog/FilterMultiSelectDropdown";
+import UserListsMenu from "@/components/catalog/UserListsMenu";
 import CatalogSearchModal, {
   type CatalogSearchRequest,
 } from "@/components/catalog/CatalogSearchModal";
 import TrailerViewerModal from "@/components/films/TrailerViewerModal";
+import GameCsvImportModal from "@/components/games/GameCsvImportModal";
+import { GameProgressMeta } from "@/components/games/GameMetadataContent";
+import FitBatchModal from "@/components/recommendations/FitBatchModal";
 import RecommendModal from "@/components/recommendations/RecommendModal";
 import RecommendationRequestModal, {
+  type RecommendationCandidateStatus,
+  type RecommendationDismissReason,
   type RecommendationRequestOption,
 } from "@/components/recommendations/RecommendationRequestModal";
 import CloseIconButton from "@/components/ui/CloseIconButton";
@@ -41,8 +47,15 @@ import {
   readCollectionEntrySearchParams,
   replaceSelectedCollectionAddItemSearchParam,
 } from "@/lib/collection/entryRouting";
+import { saveGameDraftToCollection } from "@/lib/collection/draftSubmission";
 import { loadOwnCollectionItemExists } from "@/lib/collection/loadOwnCollectionItemExists";
 import { buildGameViewHref } from "@/lib/catalog/edit/routes";
+import {
+  formatFranchiseProgress,
+  groupByFranchise,
+  loadFranchiseGroups,
+  type FranchiseGroup,
+} from "@/lib/franchises/membership";
 import { buildFriendGameViewHref } from "@/lib/friends/routes";
 import {
   CATALOG_SCREEN_SNAPSHOT_VERSION,
@@ -63,6 +76,17 @@ import {
   loadAvailableGenresForCollection,
   loadMatchingItemIdsForGenres,
 } from "@/lib/collection/genreFilter";
+import {
+  USER_LISTS_CHANGED_EVENT,
+  loadUserLists,
+  loadViewIdsForList,
+  type UserList,
+  type UserListsChangedEventDetail,
+} from "@/lib/collection/userLists";
+import {
+  buildUserListPositions,
+  compareByUserListPosition,
+} from "@/lib/collection/userListEntries";
 import { buildGameServiceMenuAction } from "@/lib/collection/serviceSearchLinks";
 import { useSnackbar } from "@/components/ui/SnackbarProvider";
 import {
@@ -72,6 +96,13 @@ import {
   watchExistingEntryTrailer,
 } from "@/lib/collection/trailers";
 import { useCollectionEntryLauncher } from "@/lib/collection/entryLauncher";
+import { getLlmRequestHeaders } from "@/lib/llm/requestHeaders";
+import {
+  loadPendingRecommendationCandidates,
+  RECOMMENDATION_FEEDBACK_LABELS,
+  setRecommendationFeedback,
+} from "@/lib/recommendations/feedback";
+import { readRecommendationStream } from "@/lib/recommendations/stream";
 import { supabase } from "@/lib/supabase/client";
 import { buildGenreHref } from "@/lib/genres/routes";
 import {
@@ -81,8 +112,26 @@ import {
   normalizeGameTrailers,
   updateGameView as updateGameViewMutation,
 } from "@/lib/games/collectionFlow";
-import { type GameNormalizedGenre } from "@/lib/games/normalizedMetadata";
+import {
+  GAME_COMPLETION_STATUSES,
+  GAME_COMPLETION_STATUS_LABELS,
+  formatGameHoursPlayed,
+  normalizeGameHoursPlayed,
+  normalizeGameProgress,
+  toGameProgressViewColumns,
+  type GameCompletionStatus,
+} from "@/lib/games/gameProgress";
+import {
+  type GameNormalizedCompany,
+  type GameNormalizedGenre,
+} from "@/lib/games/normalizedMetadata";
 import { loadStoredGameGenresForItem } from "@/lib/games/storedGenres";
+import {
+  GAME_COMPANY_ROLE_LABELS,
+  buildStudioHref,
+  loadStoredGameCompaniesForItem,
+  type StudioCompanyRow,
+} from "@/lib/games/companies";
 import {
   AVAILABILITY_OPTIONS,
   DEFAULT_GAME_PLATFORM_OPTIONS,
@@ -94,8 +143,12 @@ import type { GameLlmExportRow } from "@/app/statistics/gameLlmContext";
 import { deriveScopeMaturityStatus } from "@/app/statistics/lib/scopeReadiness";
 import type { GameProfileSystemLayer, GameProfileUserLayer } from "@/lib/profile-analysis/types";
 import {
+  getShishkaFitLabelRank,
+  SHISHKA_FIT_LABELS,
   type ShishkaFitAssessment,
 } from "@/lib/shishka/fitAssessment";
+import { isShishkaFitJobActive } from "@/lib/shishka/fitJob";
+import { useShishkaFitJob } from "@/lib/shishka/useShishkaFitJob";
 import styles from "@/components/catalog/CatalogSearch.module.css";
 
 type Trailer = GameCollectionTrailer;
@@ -128,6 +181,10 @@ type GameCollectionItem = {
   is_viewed: boolean;
   availability: string | null;
   platforms: string[] | null;
+  hours_played?: number | null;
+  completion_status?: GameCompletionStatus | null;
+  started_at?: string | null;
+  finished_at?: string | null;
   shishka_fit_label?: ShishkaFitAssessment["label"] | null;
   shishka_fit_reason?: string | null;
   shishka_fit_profile_analyzed_at?: string | null;
@@ -173,41 +230,29 @@ type GameRecommendationResolutionResult =
       status: "all_matches_already_known";
     };
 
-const buildGameRecommendationOpenFailureMessage = (
-  routeMessage: string | undefined,
-  counts: {
-    alreadyKnownBeforeSearch: number;
-    searchNoResults: number;
-    allMatchesAlreadyKnown: number;
-  },
-) => {
-  if (
-    counts.searchNoResults === 0
-    && counts.alreadyKnownBeforeSearch + counts.allMatchesAlreadyKnown > 0
-  ) {
-    return "Всі запропоновані рекомендації вже наявні у колекції.";
-  }
-
-  const details = [
-    counts.alreadyKnownBeforeSearch > 0
-      ? `${counts.alreadyKnownBeforeSearch} кандидат(ів) відсіяно ще до пошуку, бо такі тайтли вже є в колекції`
-      : null,
-    counts.searchNoResults > 0
-      ? `RAWG/пошук не знайшов збігів для ${counts.searchNoResults} кандидат(ів)`
-      : null,
-    counts.allMatchesAlreadyKnown > 0
-      ? `${counts.allMatchesAlreadyKnown} кандидат(ів) відсіяно після пошуку, бо знайдені збіги вже є в колекції або дублюють наявні записи`
-      : null,
-  ].filter((value): value is string => Boolean(value));
-
-  return [
-    routeMessage || "Модель запропонувала кандидати, але не вдалося відкрити жодну картку.",
-    details.length > 0 ? `Проблеми на етапі відкриття: ${details.join("; ")}.` : null,
-  ]
-    .filter(Boolean)
-    .join("\n");
+type GameRecommendationCandidate = {
+  key: string;
+  recommendation: AiRecommendation;
+  platform: string;
+  status: RecommendationCandidateStatus;
+  note?: string;
 };
 
+const toStoredGameRecommendation = (candidate: GameRecommendationCandidate) => ({
+  scopeValue: candidate.platform,
+  title: candidate.recommendation.title,
+  year: candidate.recommendation.year,
+  type: candidate.recommendation.type,
+  why: candidate.recommendation.why,
+});
+
+const getGameRecommendationResolutionNote = (
+  status: Exclude<GameRecommendationResolutionResult["status"], "resolved">,
+) =>
+  status === "search_no_results"
+    ? "RAWG/пошук не знайшов збігів для цього кандидата."
+    : "Вже є у колекції або дублює наявний запис.";
+
 type GameRecommendationApiResponse = {
   message?: string;
   error?: string;
@@ -215,7 +260,7 @@ type GameRecommendationApiResponse = {
 };
 
 const GAME_VIEW_SELECT =
-  "id, created_at, updated_at, viewed_at, rating, comment, view_percent, recommend_similar, is_viewed, availability, platforms, shishka_fit_label, shishka_fit_reason, shishka_fit_profile_analyzed_at, shishka_fit_scope_value, items:items!inner (id, title, description, genres, poster_url, external_id, imdb_rating, trailers, year, type)";
+  "id, created_at, updated_at, viewed_at, rating, comment, view_percent, recommend_similar, is_viewed, availability, platforms, hours_played, completion_status, started_at, finished_at, shishka_fit_label, shishka_fit_reason, shishka_fit_profile_analyzed_at, shishka_fit_scope_value, items:items!inner (id, title, description, genres, poster_url, external_id, imdb_rating, trailers, year, type)";
 
 type ContactOption = {
   id: string;
@@ -260,6 +305,13 @@ type Filters = {
   availability: string[];
   platforms: string[];
   genres: string[];
+  listId: string | null;
+  fitLabelsAll: boolean;
+  fitLabels: string[];
+  completionStatusesAll: boolean;
+  completionStatuses: GameCompletionStatus[];
+  hoursPlayedFrom: string;
+  hoursPlayedTo: string;
   externalRatingRange: [number, number];
   personalRatingRange: [number, number];
   viewedDateFrom: string;
@@ -270,7 +322,15 @@ type Filters = {
   sortDirectionSecondary: SortDirection;
 };
 
-type SortBy = "created_at" | "title" | "rating" | "year";
+type SortBy =
+  | "created_at"
+  | "title"
+  | "rating"
+  | "year"
+  | "fit"
+  | "hours_played"
+  | "finished_at"
+  | "list";
 type SortDirection = "asc" | "desc";
 type QuickViewFilter = "all" | "viewed" | "planned";
 type GamesViewMode = "default" | "cards";
@@ -288,6 +348,10 @@ const SORT_OPTIONS: Array<{ value: SortBy; label: string }> = [
   { value: "title", label: "Ім'я" },
   { value: "rating", label: "Особистий рейтинг" },
   { value: "year", label: "Рік релізу" },
+  { value: "fit", label: "Вірогідність сподобатись" },
+  { value: "hours_played", label: "Години гри" },
+  { value: "finished_at", label: "Дата завершення" },
+  { value: "list", label: "Порядок у списку" },
 ];
 const GAME_PLATFORM_OPTIONS = [...DEFAULT_GAME_PLATFORM_OPTIONS];
 const normalizeGameExternalId = (value?: string | null) => value?.trim() || null;
@@ -306,6 +370,13 @@ const DEFAULT_FILTERS: Filters = {
   availability: [],
   platforms: [],
   genres: [],
+  listId: null,
+  fitLabelsAll: true,
+  fitLabels: [],
+  completionStatusesAll: true,
+  completionStatuses: [],
+  hoursPlayedFrom: "",
+  hoursPlayedTo: "",
   externalRatingRange: [EXTERNAL_MIN, EXTERNAL_MAX],
   personalRatingRange: [PERSONAL_MIN, PERSONAL_MAX],
   viewedDateFrom: "",
@@ -361,7 +432,7 @@ const normalizeComparableTitle = (value: string) =>
     .trim();
 
 const getDefaultSortDirection = (sortBy: SortBy): SortDirection => {
-  if (sortBy === "title") return "asc";
+  if (sortBy === "title" || sortBy === "list") return "asc";
   return "desc";
 };
 
@@ -378,6 +449,13 @@ const getFiltersRequestKey = (filters: Filters) =>
     availability: [...filters.availability],
     platforms: [...filters.platforms],
     genres: [...filters.genres],
+    listId: filters.listId,
+    fitLabelsAll: filters.fitLabelsAll,
+    fitLabels: [...filters.fitLabels],
+    completionStatusesAll: filters.completionStatusesAll,
+    completionStatuses: [...filters.completionStatuses],
+    hoursPlayedFrom: filters.hoursPlayedFrom,
+    hoursPlayedTo: filters.hoursPlayedTo,
     externalRatingRange: [
       filters.externalRatingRange[0],
       filters.externalRatingRange[1],
@@ -399,8 +477,19 @@ const compareGamesByField = (
   right: GameCollectionItem,
   sortBy: SortBy,
   sortDirection: SortDirection,
+  listPositions: Map<string, number>,
 ) => {
   const direction = sortDirection === "asc" ? 1 : -1;
+  if (sortBy === "list") {
+    return compareByUserListPosition(left.id, right.id, listPositions) * direction;
+  }
+  if (sortBy === "fit") {
+    const leftRank = getShishkaFitLabelRank(left.shishka_fit_label);
+    const rightRank = getShishkaFitLabelRank(right.shishka_fit_label);
+    if (leftRank < 0 && rightRank >= 0) return 1;
+    if (leftRank >= 0 && rightRank < 0) return -1;
+    return (leftRank - rightRank) * direction;
+  }
   if (sortBy === "title") {
     return (
       left.items.title.localeCompare(right.items.title, "uk", {
@@ -418,6 +507,26 @@ const compareGamesByField = (
     }
     return 0;
   }
+  if (sortBy === "hours_played") {
+    const leftHours = left.hours_played ?? null;
+    const rightHours = right.hours_played ?? null;
+    if (leftHours === null && rightHours !== null) return 1;
+    if (leftHours !== null && rightHours === null) return -1;
+    if (leftHours !== null && rightHours !== null && leftHours !== rightHours) {
+      return (leftHours - rightHours) * direction;
+    }
+    return 0;
+  }
+  if (sortBy === "finished_at") {
+    const leftFinished = left.finished_at ?? null;
+    const rightFinished = right.finished_at ?? null;
+    if (leftFinished === null && rightFinished !== null) return 1;
+    if (leftFinished !== null && rightFinished === null) return -1;
+    if (leftFinished !== null && rightFinished !== null && leftFinished !== rightFinished) {
+      return leftFinished.localeCompare(rightFinished) * direction;
+    }
+    return 0;
+  }
   if (sortBy === "rating") {
     const leftRating = left.rating ?? null;
     const rightRating = right.rating ?? null;
@@ -439,6 +548,7 @@ const sortGameCollection = (
   sortDirection: SortDirection,
   sortBySecondary: SortBy,
   sortDirectionSecondary: SortDirection,
+  listPositions: Map<string, number> = new Map(),
 ) => {
   const sorted = [...items];
   const sortSequence: Array<[SortBy, SortDirection]> = [[sortBy, sortDirection]];
@@ -447,7 +557,7 @@ const sortGameCollection = (
   }
   sorted.sort((left, right) => {
     for (const [field, direction] of sortSequence) {
-      const cmp = compareGamesByField(left, right, field, direction);
+      const cmp = compareGamesByField(left, right, field, direction, listPositions);
       if (cmp !== 0) return cmp;
     }
     const createdDiff = Date.parse(right.created_at) - Date.parse(left.created_at);
@@ -508,6 +618,9 @@ export default function GamesManager({
   ]);
   const [message, setMessage] = useState("");
   const [recommendationMessage, setRecommendationMessage] = useState("");
+  const [recommendationCandidates, setRecommendationCandidates] = useState<
+    GameRecommendationCandidate[]
+  >([]);
   const [recommendationPromptPreview, setRecommendationPromptPreview] = useState("");
   const [trailerMessage, setTrailerMessage] = useState("");
   const [totalCount, setTotalCount] = useState(0);
@@ -520,6 +633,7 @@ export default function GamesManager({
   const [hasMore, setHasMore] = useState(false);
   const [page, setPage] = useState(0);
   const [isAddOpen, setIsAddOpen] = useState(false);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
   const [isFiltersOpen, setIsFiltersOpen] = useState(false);
   const [isSortPopoverOpen, setIsSortPopoverOpen] = useState(false);
   const [isSortModalOpen, setIsSortModalOpen] = useState(false);
@@ -530,6 +644,10 @@ export default function GamesManager({
     sortDirectionSecondary: DEFAULT_FILTERS.sortDirectionSecondary,
   });
   const [viewMode, setViewMode] = useState<GamesViewMode>("cards");
+  const [isGroupedByFranchise, setIsGroupedByFranchise] = useState(false);
+  const [franchiseGroups, setFranchiseGroups] = useState<Map<string, FranchiseGroup>>(
+    () => new Map(),
+  );
   const [selectedView, setSelectedView] = useState<GameCollectionItem | null>(
     null,
   );
@@ -538,7 +656,9 @@ export default function GamesManager({
     null,
   );
   const [selectedViewGenres, setSelectedViewGenres] = useState<GameNormalizedGenre[]>([]);
+  const [selectedViewCompanies, setSelectedViewCompanies] = useState<StudioCompanyRow[]>([]);
   const [availableGenres, setAvailableGenres] = useState<string[]>([]);
+  const [availableLists, setAvailableLists] = useState<UserList[]>([]);
   const [trailerModal, setTrailerModal] = useState<TrailerModalState<Trailer>>(null);
   const [isTrailerLoading, setIsTrailerLoading] = useState(false);
   const [isRefreshPickerOpen, setIsRefreshPickerOpen] = useState(false);
@@ -587,6 +707,14 @@ export default function GamesManager({
   } | null>(null);
   const [recommendationScopeState, setRecommendationScopeState] =
     useState<RecommendationScopeState | null>(null);
+  const [fitBatchScopeState, setFitBatchScopeState] = useState<{
+    options: RecommendationRequestOption[];
+    isLoading: boolean;
+  } | null>(null);
+  const fitBatch = useShishkaFitJob("game", {
+    enabled: !readOnly && !ownerUserId && !isEditOnly,
+  });
+  const lastReloadedFitBatchJobIdRef = useRef<string | null>(null);
   const [contacts, setContacts] = useState<ContactOption[]>([]);
   const [isNicknameModalOpen, setIsNicknameModalOpen] = useState(false);
   const [nicknameValue, setNicknameValue] = useState("");
@@ -712,6 +840,7 @@ export default function GamesManager({
   useEffect(() => {
     setSelectedViewItemDraft(null);
     setSelectedViewGenres([]);
+    setSelectedViewCompanies([]);
     setIsRefreshPickerOpen(false);
     setRefreshSearchQuery("");
   }, [selectedView?.id]);
@@ -721,15 +850,20 @@ export default function GamesManager({
 
     if (!selectedItemId) {
       setSelectedViewGenres([]);
+      setSelectedViewCompanies([]);
       return;
     }
 
     let isCancelled = false;
 
     void (async () => {
-      const storedGenres = await loadStoredGameGenresForItem(supabase, selectedItemId);
+      const [storedGenres, storedCompanies] = await Promise.all([
+        loadStoredGameGenresForItem(supabase, selectedItemId),
+        loadStoredGameCompaniesForItem(supabase, selectedItemId),
+      ]);
       if (!isCancelled) {
         setSelectedViewGenres(storedGenres);
+        setSelectedViewCompanies(storedCompanies);
       }
     })();
 
@@ -1250,6 +1384,45 @@ export default function GamesManager({
     };
   }, [friendAccessState, ownerUserId, readOnly]);
 
+  useEffect(() => {
+    if (readOnly && ownerUserId && friendAccessState !== "allowed") {
+      setAvailableLists([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const reloadLists = async () => {
+      try {
+        const nextLists = await loadUserLists({ ownerUserId });
+        if (isCancelled) return;
+        setAvailableLists(nextLists);
+        const dropRemovedList = (prev: Filters) =>
+          prev.listId && !nextLists.some((list) => list.id === prev.listId)
+            ? { ...prev, listId: null }
+            : prev;
+        setAppliedFilters(dropRemovedList);
+        setPendingFilters(dropRemovedList);
+      } catch {
+        if (!isCancelled) {
+          setAvailableLists([]);
+        }
+      }
+    };
+    void reloadLists();
+
+    const handleUserListsChanged = (event: Event) => {
+      const detail = (event as CustomEvent<UserListsChangedEventDetail>).detail;
+      if (!detail?.viewId) {
+        void reloadLists();
+      }
+    };
+    window.addEventListener(USER_LISTS_CHANGED_EVENT, handleUserListsChanged);
+    return () => {
+      isCancelled = true;
+      window.removeEventListener(USER_LISTS_CHANGED_EVENT, handleUserListsChanged);
+    };
+  }, [friendAccessState, ownerUserId, readOnly]);
+
   const fetchPage = useCallback(async (pageIndex: number, filters: Filters) => {
     const requestKey = getFiltersRequestKey(filters);
     if (pageIndex === 0) {
@@ -1304,6 +1477,9 @@ export default function GamesManager({
             selectedGenres,
           })
         : null;
+    const matchingListViewIds = filters.listId
+      ? await loadViewIdsForList(filters.listId)
+      : null;
 
     const trimmedQuery = filters.query.trim();
     const effectiveViewed = filters.viewAll ? true : filters.viewed;
@@ -1328,8 +1504,12 @@ export default function GamesManager({
     const needsClientSort =
       filters.sortBy === "title" ||
       filters.sortBy === "year" ||
+      filters.sortBy === "fit" ||
       filters.sortBySecondary === "title" ||
-      filters.sortBySecondary === "year";
+      filters.sortBySecondary === "year" ||
+      filters.sortBySecondary === "fit" ||
+      (Boolean(matchingListViewIds) &&
+        (filters.sortBy === "list" || filters.sortBySecondary === "list"));
     if (needsClientSort && pageIndex > 0) {
       logLazy("skip:client-sort", { pageIndex });
       loadingPagesRef.current.delete(pageIndex);
@@ -1354,7 +1534,10 @@ export default function GamesManager({
       .eq("user_id", effectiveOwnerId)
       .eq("items.type", "game");
 
-    if (matchingGenreItemIds && matchingGenreItemIds.length === 0) {
+    if (
+      (matchingGenreItemIds && matchingGenreItemIds.length === 0) ||
+      (matchingListViewIds && matchingListViewIds.length === 0)
+    ) {
       if (pageIndex === 0) {
         setCollection([]);
         collectionRef.current = [];
@@ -1374,6 +1557,10 @@ export default function GamesManager({
       query = query.in("item_id", matchingGenreItemIds);
     }
 
+    if (matchingListViewIds && matchingListViewIds.length > 0) {
+      query = query.in("id", matchingListViewIds);
+    }
+
     if (effectiveViewed !== effectivePlanned) {
       query = query.eq("is_viewed", effectiveViewed);
     }
@@ -1389,10 +1576,29 @@ export default function GamesManager({
       query = query.in("availability", filters.availability);
     }
 
+    if (!filters.fitLabelsAll && filters.fitLabels.length > 0) {
+      query = query.in("shishka_fit_label", filters.fitLabels);
+    }
+
     if (!filters.platformsAll && filters.platforms.length > 0) {
       query = query.overlaps("platforms", filters.platforms);
     }
 
+    const isCompletionStatusFilterActive =
+      !filters.completionStatusesAll && filters.completionStatuses.length > 0;
+    if (isCompletionStatusFilterActive) {
+      query = query.in("completion_status", filters.completionStatuses);
+    }
+
+    const hoursPlayedFrom = normalizeGameHoursPlayed(filters.hoursPlayedFrom);
+    const hoursPlayedTo = normalizeGameHoursPlayed(filters.hoursPlayedTo);
+    if (hoursPlayedFrom !== null) {
+      query = query.gte("hours_played", hoursPlayedFrom);
+    }
+    if (hoursPlayedTo !== null) {
+      query = query.lte("hours_played", hoursPlayedTo);
+    }
+
     const [minYear, maxYear] = yearBounds;
     const [fromYear, toYear] = clampRange(filters.yearRange, yearBounds);
     const isYearFilterActive = fromYear !== minYear || toYear !== maxYear;
@@ -1447,6 +1653,11 @@ export default function GamesManager({
           ascending,
           nullsFirst: false,
         });
+      } else if (field === "hours_played" || field === "finished_at") {
+        query = query.order(field, {
+          ascending,
+          nullsFirst: false,
+        });
       } else {
         query = query.order("created_at", { ascending });
       }
@@ -1467,6 +1678,10 @@ export default function GamesManager({
         countQuery = countQuery.in("item_id", matchingGenreItemIds);
       }
 
+      if (matchingListViewIds && matchingListViewIds.length > 0) {
+        countQuery = countQuery.in("id", matchingListViewIds);
+      }
+
       if (effectiveViewed !== effectivePlanned) {
         countQuery = countQuery.eq("is_viewed", effectiveViewed);
       }
@@ -1489,10 +1704,25 @@ export default function GamesManager({
         countQuery = countQuery.in("availability", filters.availability);
       }
 
+      if (!filters.fitLabelsAll && filters.fitLabels.length > 0) {
+        countQuery = countQuery.in("shishka_fit_label", filters.fitLabels);
+      }
+
       if (!filters.platformsAll && filters.platforms.length > 0) {
         countQuery = countQuery.overlaps("platforms", filters.platforms);
       }
 
+      if (isCompletionStatusFilterActive) {
+        countQuery = countQuery.in("completion_status", filters.completionStatuses);
+      }
+
+      if (hoursPlayedFrom !== null) {
+        countQuery = countQuery.gte("hours_played", hoursPlayedFrom);
+      }
+      if (hoursPlayedTo !== null) {
+        countQuery = countQuery.lte("hours_played", hoursPlayedTo);
+      }
+
       if (isExternalFilterActive) {
         countQuery = countQuery
           .gte("items.imdb_rating", String(externalMin))
@@ -1582,6 +1812,7 @@ export default function GamesManager({
             filters.sortDirection,
             filters.sortBySecondary,
             filters.sortDirectionSecondary,
+            buildUserListPositions(matchingListViewIds ?? []),
           )
         : ((data as unknown as GameCollectionItem[]) ?? []);
       const previousCollection = collectionRef.current;
@@ -1637,7 +1868,12 @@ export default function GamesManager({
             isPersonalFilterActive ||
             filters.viewedDateFrom ||
             filters.viewedDateTo ||
-            (!filters.genresAll && filters.genres.length > 0),
+            (!filters.genresAll && filters.genres.length > 0) ||
+            (!filters.fitLabelsAll && filters.fitLabels.length > 0) ||
+            filters.listId ||
+            isCompletionStatusFilterActive ||
+            hoursPlayedFrom !== null ||
+            hoursPlayedTo !== null,
         );
         setMessage(
           hasActiveFilters
@@ -1738,6 +1974,25 @@ export default function GamesManager({
     };
   }, [fetchPage, hasApplied, isEditOnly, loadSelectedViewById, ownerUserId, readOnly]);
 
+  useEffect(() => {
+    const activeListId = appliedFilters.listId;
+    if (isEditOnly || readOnly || ownerUserId || !hasApplied || !activeListId) {
+      return;
+    }
+
+    const handleUserListsChanged = (event: Event) => {
+      const detail = (event as CustomEvent<UserListsChangedEventDetail>).detail;
+      if (detail?.listId === activeListId && detail.viewId) {
+        void fetchPage(0, appliedFilters);
+      }
+    };
+
+    window.addEventListener(USER_LISTS_CHANGED_EVENT, handleUserListsChanged);
+    return () => {
+      window.removeEventListener(USER_LISTS_CHANGED_EVENT, handleUserListsChanged);
+    };
+  }, [appliedFilters, fetchPage, hasApplied, isEditOnly, ownerUserId, readOnly]);
+
   useEffect(() => {
     if (isEditOnly) return;
     if (readOnly && ownerUserId && friendAccessState !== "allowed") return;
@@ -1963,6 +2218,34 @@ export default function GamesManager({
   ]);
 
   const displayedCollection = collection;
+
+  const franchiseSections = useMemo(
+    () => groupByFranchise(displayedCollection, (item) => item.items.id, franchiseGroups),
+    [displayedCollection, franchiseGroups],
+  );
+
+  useEffect(() => {
+    if (viewMode !== "cards" || !isGroupedByFranchise) return;
+    let isCancelled = false;
+
+    void (async () => {
+      const effectiveOwnerId = ownerUserId ?? (await supabase.auth.getUser()).data.user?.id;
+      if (!effectiveOwnerId) return;
+      const groups = await loadFranchiseGroups({
+        supabase,
+        ownerUserId: effectiveOwnerId,
+        itemIds: displayedCollection.map((item) => item.items.id),
+      });
+      if (!isCancelled) {
+        setFranchiseGroups(groups);
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [displayedCollection, isGroupedByFranchise, ownerUserId, viewMode]);
+
   const visiblePlatformsSet = useMemo(
     () => new Set(visiblePlatforms),
     [visiblePlatforms],
@@ -1978,7 +2261,12 @@ export default function GamesManager({
       (appliedFilters.viewAll ? true : appliedFilters.planned) ||
     !appliedFilters.availabilityAll ||
     (!appliedFilters.genresAll && appliedFilters.genres.length > 0) ||
+    (!appliedFilters.fitLabelsAll && appliedFilters.fitLabels.length > 0) ||
+    Boolean(appliedFilters.listId) ||
     !appliedFilters.platformsAll ||
+    (!appliedFilters.completionStatusesAll && appliedFilters.completionStatuses.length > 0) ||
+    normalizeGameHoursPlayed(appliedFilters.hoursPlayedFrom) !== null ||
+    normalizeGameHoursPlayed(appliedFilters.hoursPlayedTo) !== null ||
     yearRangeFrom !== yearBounds[0] ||
     yearRangeTo !== yearBounds[1] ||
     appliedFilters.externalRatingRange[0] !== EXTERNAL_MIN ||
@@ -2314,6 +2602,41 @@ export default function GamesManager({
       .map(({ value, label }) => ({ value, label }));
   };
 
+  const completedFitBatchJobId =
+    fitBatch.job?.status === "completed" ? fitBatch.job.id : null;
+
+  useEffect(() => {
+    if (
+      !completedFitBatchJobId ||
+      lastReloadedFitBatchJobIdRef.current === completedFitBatchJobId
+    ) {
+      return;
+    }
+    lastReloadedFitBatchJobIdRef.current = completedFitBatchJobId;
+    void fetchPage(0, appliedFilters);
+  }, [appliedFilters, completedFitBatchJobId, fetchPage]);
+
+  const handleOpenFitBatch = async () => {
+    setMessage("");
+    setFitBatchScopeState({ options: [], isLoading: true });
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      setFitBatchScopeState(null);
+      setMessage("Потрібна авторизація.");
+      return;
+    }
+    const profileAnalysisByScope = await fetchGameProfileAnalysesForRecommendations(user.id);
+    setFitBatchScopeState({
+      options: Object.keys(profileAnalysisByScope).map((scopeValue) => ({
+        value: scopeValue,
+        label: scopeValue,
+      })),
+      isLoading: false,
+    });
+  };
+
   const handleOpenRecommendRequest = async () => {
     setMessage("");
     setRecommendationMessage("");
@@ -2328,9 +2651,10 @@ export default function GamesManager({
         return;
       }
       const effectiveOwnerId = ownerUserId ?? user.id;
-      const [allRows, profileAnalysisByScope] = await Promise.all([
+      const [allRows, profileAnalysisByScope, pendingCandidates] = await Promise.all([
         fetchAllGamesLibraryForRecommendations(),
         fetchGameProfileAnalysesForRecommendations(effectiveOwnerId),
+        loadPendingRecommendationCandidates({ supabase, mediaKind: "game" }),
       ]);
       if (allRows.length === 0) {
         setMessage("Бібліотека порожня.");
@@ -2344,6 +2668,14 @@ export default function GamesManager({
           "Наразі немає достатньо інформації для рекомендацій. Додайте більше ігор, оцінок і прогресу по платформах.",
         profileAnalysisByScope,
       });
+      setRecommendationCandidates(
+        pendingCandidates.map((candidate) => ({
+          key: `${candidate.title}__${candidate.year}`,
+          recommendation: { ...candidate, raw: "" },
+          platform: candidate.scopeValue,
+          status: "idle",
+        })),
+      );
     } catch (error) {
       setMessage(error instanceof Error ? error.message : "Не вдалося підготувати рекомендації.");
     } finally {
@@ -2474,9 +2806,7 @@ export default function GamesManager({
       }
       const response = await fetch("/api/openai/game-recommendations", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: await getLlmRequestHeaders(),
         body: JSON.stringify({
           rows: scopedRows,
           knownTitleRows: recommendationScopeState?.rows ?? scopedRows,
@@ -2771,6 +3101,7 @@ export default function GamesManager({
       setSelectedView,
       extraViewPatch: {
         platforms: normalizedPlatforms,
+        ...(payload.gameProgress ? toGameProgressViewColumns(payload.gameProgress) : {}),
       },
       applyPatch: (item) => ({
         ...item,
@@ -2821,6 +3152,7 @@ export default function GamesManager({
           poster?: string;
           genres?: string;
           genreItems?: GameNormalizedGenre[];
+          companyItems?: GameNormalizedCompany[];
           trailers?: Trailer[] | null;
         })
       : null;
@@ -2861,6 +3193,7 @@ export default function GamesManager({
       ratingSource: detailData?.source ?? game.ratingSource,
       genres,
       normalizedGenres: detailData?.genreItems ?? game.genreItems ?? [],
+      normalizedCompanies: detailData?.companyItems ?? null,
       description,
       external_id: game.id,
       trailers: trailers ?? null,
@@ -2955,155 +3288,56 @@ export default function GamesManager({
         return;
       }
 
-      const requestRecommendations = async (
-        requestedCount: number,
-        additionalKnownTitles: string[] = [],
-      ) => {
-        const response = await fetch("/api/openai/game-recommendations", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            rows: scopedRows,
-            knownTitleRows: recommendationScopeState?.rows ?? scopedRows,
-            additionalKnownTitles,
-            requestedCount,
-            outputCount: requestedCount,
-            minimumRecommendationCount: Math.min(4, requestedCount),
-            scopeLabel: platform,
-            userWishes: wishes,
-            profileAnalysis: recommendationScopeState?.profileAnalysisByScope[platform],
-          }),
-        });
-        const data = (await response.json()) as GameRecommendationApiResponse;
-        return { response, data };
-      };
-
-      const tryOpenBatch = async (
-        recommendations: AiRecommendation[],
-      ): Promise<
-        | { opened: true }
-        | {
-            opened: false;
-            counts: {
-              alreadyKnownBeforeSearch: number;
-              searchNoResults: number;
-              allMatchesAlreadyKnown: number;
-            };
-          }
-      > => {
-        const resolutionCounts = {
-          alreadyKnownBeforeSearch: 0,
-          searchNoResults: 0,
-          allMatchesAlreadyKnown: 0,
-        };
-
-        for (const recommendation of recommendations) {
-          const resolution = await resolveRecommendedGame(recommendation);
-          if (resolution.status === "already_known_before_search") {
-            resolutionCounts.alreadyKnownBeforeSearch += 1;
-            continue;
-          }
-          if (resolution.status === "search_no_results") {
-            resolutionCounts.searchNoResults += 1;
-            continue;
-          }
-          if (resolution.status === "all_matches_already_known") {
-            resolutionCounts.allMatchesAlreadyKnown += 1;
-            continue;
-          }
-          const recommendedGame = resolution.item;
-
-          openSelectedGameDraft(recommendedGame, {
-            recommendationComment: recommendation.why,
-            recommendationScopeValue: platform,
-            recommendationFitAssessment: null,
-            closeSearch: false,
-          });
-          setRecommendationScopeState(null);
-          showSnackbar("Рекомендацію відкрито");
-          return { opened: true };
-        }
-
-        return {
-          opened: false,
-          counts: resolutionCounts,
-        };
-      };
-
-      const firstBatch = await requestRecommendations(6);
-      if (!firstBatch.response.ok) {
-        const nextMessage = firstBatch.data.error || "Не вдалося згенерувати рекомендації.";
-        setRecommendationMessage(nextMessage);
+      const response = await fetch("/api/openai/game-recommendations", {
+        method: "POST",
+        headers: await getLlmRequestHeaders(),
+        body: JSON.stringify({
+          rows: scopedRows,
+          knownTitleRows: recommendationScopeState?.rows ?? scopedRows,
+          additionalKnownTitles: recommendationCandidates.map(
+            (candidate) => candidate.recommendation.title,
+          ),
+          requestedCount: 6,
+          outputCount: 6,
+          minimumRecommendationCount: 4,
+          scopeLabel: platform,
+          userWishes: wishes,
+          profileAnalysis: recommendationScopeState?.profileAnalysisByScope[platform],
+          stream: true,
+        }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as GameRecommendationApiResponse;
+        setRecommendationMessage(data.error || "Не вдалося згенерувати рекомендації.");
         showSnackbar("Не вдалося згенерувати рекомендації");
         return;
       }
 
-      const firstRecommendations = firstBatch.data.recommendations ?? [];
-      if (firstRecommendations.length === 0) {
-        setRecommendationMessage(firstBatch.data.message || "Не вдалося згенерувати рекомендації.");
-        showSnackbar("Рекомендацій не знайдено");
-        return;
-      }
+      const result = await readRecommendationStream<AiRecommendation>(response, (event) => {
+        if (event.type !== "candidate") {
+          return;
+        }
+        const { recommendation } = event;
+        setRecommendationCandidates((prev) => [
+          ...prev,
+          {
+            key: `${recommendation.title}__${recommendation.year}`,
+            recommendation,
+            platform,
+            status: "idle",
+          },
+        ]);
+      });
 
-      const firstOpenResult = await tryOpenBatch(firstRecommendations);
-      if (firstOpenResult.opened) {
+      if (result.type === "error") {
+        setRecommendationMessage(result.error || "Не вдалося згенерувати рекомендації.");
+        showSnackbar("Не вдалося згенерувати рекомендації");
         return;
       }
-
-      const firstKnownOnlyCount =
-        firstOpenResult.counts.alreadyKnownBeforeSearch + firstOpenResult.counts.allMatchesAlreadyKnown;
-      const shouldRequestWiderBatch =
-        firstKnownOnlyCount === firstRecommendations.length && firstOpenResult.counts.searchNoResults === 0;
-
-      if (shouldRequestWiderBatch) {
-        const secondBatch = await requestRecommendations(
-          10,
-          firstRecommendations.map((recommendation) => recommendation.title),
-        );
-        if (secondBatch.response.ok) {
-          const secondRecommendations = secondBatch.data.recommendations ?? [];
-          if (secondRecommendations.length > 0) {
-            const secondOpenResult = await tryOpenBatch(secondRecommendations);
-            if (secondOpenResult.opened) {
-              return;
-            }
-
-            const secondKnownOnlyCount =
-              secondOpenResult.counts.alreadyKnownBeforeSearch
-              + secondOpenResult.counts.allMatchesAlreadyKnown;
-            if (
-              secondKnownOnlyCount === secondRecommendations.length
-              && secondOpenResult.counts.searchNoResults === 0
-            ) {
-              setRecommendationMessage("Всі запропоновані рекомендації вже наявні у колекції.");
-              showSnackbar("Нових рекомендацій не знайдено");
-              return;
-            }
-
-            setRecommendationMessage(
-              buildGameRecommendationOpenFailureMessage(
-                secondBatch.data.message,
-                secondOpenResult.counts,
-              ),
-            );
-            showSnackbar("Не вдалося відкрити жодну рекомендацію");
-            return;
-          }
-
-          setRecommendationMessage(
-            secondBatch.data.message || "Всі запропоновані рекомендації вже наявні у колекції.",
-          );
-          showSnackbar("Нових рекомендацій не знайдено");
-          return;
-        }
+      if (result.recommendations.length === 0) {
+        setRecommendationMessage(result.message || "Не вдалося згенерувати рекомендації.");
+        showSnackbar("Рекомендацій не знайдено");
       }
-
-      setRecommendationMessage(
-        buildGameRecommendationOpenFailureMessage(firstBatch.data.message, firstOpenResult.counts),
-      );
-      showSnackbar("Не вдалося відкрити жодну рекомендацію");
     } catch (error) {
       const nextMessage =
         error instanceof Error ? error.message : "Не вдалося згенерувати рекомендації.";
@@ -3113,6 +3347,121 @@ export default function GamesManager({
       setIsGeneratingRecommendations(false);
     }
   };
+  const updateRecommendationCandidate = (
+    key: string,
+    patch: Pick<GameRecommendationCandidate, "status" | "note">,
+  ) => {
+    setRecommendationCandidates((prev) =>
+      prev.map((candidate) => (candidate.key === key ? { ...candidate, ...patch } : candidate)),
+    );
+  };
+  const handleDismissRecommendationCandidate = async (
+    key: string,
+    reason: RecommendationDismissReason,
+  ) => {
+    const candidate = recommendationCandidates.find((entry) => entry.key === key);
+    if (!candidate) {
+      return;
+    }
+    updateRecommendationCandidate(key, { status: "busy", note: undefined });
+    try {
+      await setRecommendationFeedback({
+        supabase,
+        mediaKind: "game",
+        candidate: toStoredGameRecommendation(candidate),
+        status: reason,
+      });
+      updateRecommendationCandidate(key, {
+        status: "dismissed",
+        note: RECOMMENDATION_FEEDBACK_LABELS[reason],
+      });
+    } catch (error) {
+      updateRecommendationCandidate(key, {
+        status: "failed",
+        note: error instanceof Error ? error.message : "Не вдалося зберегти відгук.",
+      });
+    }
+  };
+  const resolveRecommendationCandidate = async (key: string) => {
+    const candidate = recommendationCandidates.find((entry) => entry.key === key);
+    if (!candidate) {
+      return null;
+    }
+    updateRecommendationCandidate(key, { status: "busy", note: undefined });
+    try {
+      const resolution = await resolveRecommendedGame(candidate.recommendation);
+      if (resolution.status !== "resolved") {
+        updateRecommendationCandidate(key, {
+          status: "failed",
+          note: getGameRecommendationResolutionNote(resolution.status),
+        });
+        return null;
+      }
+      return { candidate, item: resolution.item };
+    } catch (error) {
+      updateRecommendationCandidate(key, {
+        status: "failed",
+        note: error instanceof Error ? error.message : "Не вдалося знайти гру.",
+      });
+      return null;
+    }
+  };
+  const handleOpenRecommendationCandidate = async (key: string) => {
+    const resolved = await resolveRecommendationCandidate(key);
+    if (!resolved) {
+      return;
+    }
+    openSelectedGameDraft(resolved.item, {
+      recommendationComment: resolved.candidate.recommendation.why,
+      recommendationScopeValue: resolved.candidate.platform,
+      recommendationFitAssessment: null,
+      closeSearch: false,
+    });
+    setRecommendationScopeState(null);
+    setRecommendationCandidates([]);
+    setRecommendationMessage("");
+    showSnackbar("Рекомендацію відкрито");
+  };
+  const handlePlanRecommendationCandidate = async (key: string) => {
+    const resolved = await resolveRecommendationCandidate(key);
+    if (!resolved) {
+      return;
+    }
+    try {
+      const result = await saveGameDraftToCollection({
+        supabase,
+        game: resolved.item,
+        payload: {
+          viewedAt: new Date().toISOString().slice(0, 10),
+          comment: "",
+          recommendSimilar: false,
+          isViewed: false,
+          rating: null,
+          viewPercent: 0,
+          platforms: [resolved.candidate.platform],
+          availability: null,
+          shishkaFitAssessment: null,
+        },
+      });
+      updateRecommendationCandidate(key, { status: "planned", note: "Додано в заплановані." });
+      void setRecommendationFeedback({
+        supabase,
+        mediaKind: "game",
+        candidate: toStoredGameRecommendation(resolved.candidate),
+        status: "added",
+      }).catch(() => undefined);
+      emitCollectionEntrySaved({
+        mediaKind: "game",
+        itemId: result.itemId ?? null,
+        viewId: result.viewId ?? null,
+      });
+    } catch (error) {
+      updateRecommendationCandidate(key, {
+        status: "failed",
+        note: error instanceof Error ? error.message : "Не вдалося додати у колекцію.",
+      });
+    }
+  };
 
   const handleRefreshGameSearch = useCallback(
     async ({ query }: CatalogSearchRequest) => {
@@ -3204,6 +3553,49 @@ export default function GamesManager({
     );
   };
 
+  const renderGameCardItem = (item: GameCollectionItem) => (
+    <div key={item.id} className={styles.filmCardShell}>
+      <button
+        type="button"
+        className={`${styles.resultButton} ${styles.filmCardViewItem}`}
+        onClick={() => openSelectedView(item)}
+      >
+        <div className={styles.filmCardPosterWrapper}>
+          {item.items.poster_url ? (
+            <Image
+              className={styles.poster}
+              src={item.items.poster_url}
+              alt={`Постер ${item.items.title}`}
+              width={270}
+              height={405}
+              sizes="(max-width: 720px) 70vw, 270px"
+              loading="lazy"
+              unoptimized
+            />
+          ) : (
+            <div className={styles.posterPlaceholder}>No image</div>
+          )}
+        </div>
+        <div className={styles.filmCardFooter}>
+          <div className={styles.filmCardRatingsRow}>
+            <span className={styles.resultRating}>
+              {getExternalRatingLabel(undefined, item.items.imdb_rating)}:{" "}
+              {item.items.imdb_rating ?? "—"}
+            </span>
+            <span className={styles.resultRating}>Мій: {item.rating ?? "—"}</span>
+          </div>
+        </div>
+      </button>
+      {!readOnly ? (
+        <UserListsMenu
+          variant="icon"
+          viewId={item.id}
+          className={styles.filmCardListsMenu}
+        />
+      ) : null}
+    </div>
+  );
+
   const renderGenreLinks = (genres?: GameNormalizedGenre[] | null) => {
     const resolvedGenres = (genres ?? []).slice(0, 8);
 
@@ -3232,6 +3624,36 @@ export default function GamesManager({
     );
   };
 
+  const renderStudioLinks = (companies: StudioCompanyRow[]) => {
+    if (companies.length === 0) {
+      return null;
+    }
+
+    const rolesByCompanyId = new Map<string, { name: string; roles: string[] }>();
+    companies.forEach((company) => {
+      const current = rolesByCompanyId.get(company.sourceCompanyId) ?? {
+        name: company.name,
+        roles: [],
+      };
+      current.roles.push(GAME_COMPANY_ROLE_LABELS[company.roleKind].toLowerCase());
+      rolesByCompanyId.set(company.sourceCompanyId, current);
+    });
+
+    return (
+      <span className={styles.metaEntityLinks}>
+        {[...rolesByCompanyId.entries()].map(([sourceCompanyId, company], index) => (
+          <span key={sourceCompanyId}>
+            {index > 0 ? ", " : null}
+            <Link href={buildStudioHref(sourceCompanyId)} className={styles.metaEntityLink}>
+              {company.name}
+            </Link>{" "}
+            ({company.roles.join(", ")})
+          </span>
+        ))}
+      </span>
+    );
+  };
+
   const ensureSearchDescription = useCallback(async (id: string) => {
     if (searchDescriptions[id] || fetchingSearchDescRef.current.has(id)) {
       return;
@@ -3411,6 +3833,7 @@ export default function GamesManager({
     <ExistingCollectionEntryModal
       key={selectedView.id}
       title={selectedView.items.title}
+      viewId={selectedView.id}
       posterUrl={(selectedViewItemDraft?.poster_url ?? selectedView.items.poster_url) ?? undefined}
       fitTargetText="ця гра"
       platformOptions={visiblePlatforms}
@@ -3457,7 +3880,9 @@ export default function GamesManager({
         platforms: selectedView.platforms ?? [],
         availability: selectedView.availability,
         shishkaFitAssessment: getStoredShishkaFitAssessment(selectedView),
+        gameProgress: normalizeGameProgress(selectedView),
       }}
+      showGameProgress
       onRefresh={handleRefreshSelectedGameMetadata}
       onEvaluate={(payload) =>
         evaluateGameWithProfile(
@@ -3508,6 +3933,12 @@ export default function GamesManager({
                 (selectedViewItemDraft?.genres ?? selectedView.items.genres)}
             </p>
           ) : null}
+          {selectedViewCompanies.length > 0 ? (
+            <p className={styles.resultMeta}>
+              Студії: {renderStudioLinks(selectedViewCompanies)}
+            </p>
+          ) : null}
+          <GameProgressMeta progress={normalizeGameProgress(selectedView)} />
           {(selectedViewItemDraft?.description ?? selectedView.items.description) ? (
             <ModalDescription
               text={selectedViewItemDraft?.description ?? selectedView.items.description ?? ""}
@@ -3553,12 +3984,24 @@ export default function GamesManager({
       canPreviewPrompt={isRecommendationPromptDebugEnabled}
       isPreviewingPrompt={isPreviewingRecommendationPrompt}
       promptPreview={recommendationPromptPreview}
+      candidates={recommendationCandidates.map((candidate) => ({
+        key: candidate.key,
+        title: candidate.recommendation.title,
+        meta: [candidate.recommendation.year, candidate.platform].filter(Boolean).join(" · "),
+        why: candidate.recommendation.why,
+        status: candidate.status,
+        note: candidate.note,
+      }))}
       placeholder="щось легше, без жахів, не дуже довге"
       onClose={() => {
         setRecommendationScopeState(null);
+        setRecommendationCandidates([]);
         setRecommendationMessage("");
         setRecommendationPromptPreview("");
       }}
+      onOpenCandidate={handleOpenRecommendationCandidate}
+      onPlanCandidate={handlePlanRecommendationCandidate}
+      onDismissCandidate={handleDismissRecommendationCandidate}
       onPreviewPrompt={async (scopeValue, wishes) => {
         await handlePreviewRecommendationPrompt(scopeValue, wishes);
       }}
@@ -3568,6 +4011,21 @@ export default function GamesManager({
     />
   ) : null;
 
+  const fitBatchModal = fitBatchScopeState ? (
+    <FitBatchModal
+      title="Оцінити заплановані ігри"
+      scopeLabel="Платформа"
+      options={fitBatchScopeState.options}
+      emptyMessage="Спершу проаналізуй ігровий профіль на сторінці профілю."
+      isLoading={fitBatchScopeState.isLoading}
+      job={fitBatch.job}
+      error={fitBatch.error}
+      isStarting={fitBatch.isStarting}
+      onStart={fitBatch.start}
+      onClose={() => setFitBatchScopeState(null)}
+    />
+  ) : null;
+
   const nicknameModal = isNicknameModalOpen ? (
     <div
       className={styles.filtersOverlay}
@@ -3635,6 +4093,7 @@ export default function GamesManager({
         {trailerViewerModal}
         {recommendItemModal}
         {recommendationScopeModal}
+        {fitBatchModal}
         {nicknameModal}
       </div>
     );
@@ -3822,6 +4281,18 @@ export default function GamesManager({
               >
                 Детальний
               </button>
+              {viewMode === "cards" ? (
+                <button
+                  type="button"
+                  className={`${styles.viewSwitchButton} ${
+                    isGroupedByFranchise ? styles.viewSwitchButtonActive : ""
+                  }`}
+                  onClick={() => setIsGroupedByFranchise((current) => !current)}
+                  aria-pressed={isGroupedByFranchise}
+                >
+                  Франшизи
+                </button>
+              ) : null}
             </div>
           </div>
           <div className={`${styles.toolbarQuickSwitch} ${styles.desktopOnlyAction}`}>
@@ -3889,6 +4360,25 @@ export default function GamesManager({
                 >
                   {recommendIcon}
                 </button>
+                <button
+                  type="button"
+                  className={`btnBase btnSecondary ${styles.desktopOnlyAction}`}
+                  onClick={() => setIsCsvImportOpen(true)}
+                  disabled={isGeneratingRecommendations}
+                >
+                  Імпорт CSV
+                </button>
+                <button
+                  type="button"
+                  className={`btnBase btnSecondary ${styles.desktopOnlyAction}`}
+                  onClick={() => {
+                    void handleOpenFitBatch();
+                  }}
+                >
+                  {isShishkaFitJobActive(fitBatch.job)
+                    ? `Оцінюємо ${fitBatch.job.processedCount}/${fitBatch.job.totalCount}`
+                    : "Оцінити заплановані"}
+                </button>
                 <button
                   type="button"
                   className={`btnBase btnPrimary ${styles.desktopOnlyAction}`}
@@ -4016,6 +4506,21 @@ export default function GamesManager({
                       ? `${formatViewedDate(item.viewed_at)} (${item.view_percent}%)`
                       : "ні"}
                   </span>
+                  {item.completion_status || typeof item.hours_played === "number" ? (
+                    <span>
+                      Прогрес:{" "}
+                      {[
+                        item.completion_status
+                          ? GAME_COMPLETION_STATUS_LABELS[item.completion_status]
+                          : null,
+                        typeof item.hours_played === "number"
+                          ? formatGameHoursPlayed(item.hours_played)
+                          : null,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                  ) : null}
                   {(item.platforms ?? []).filter((platform) => visiblePlatformsSet.has(platform))
                     .length > 0 ? (
                       <span>
@@ -4035,42 +4540,35 @@ export default function GamesManager({
         })}
       </div> : null}
       {viewMode === "cards" && isFriendAccessAllowed ? (
-        <div className={`${styles.results} ${styles.filmCardsGrid}`}>
-          {displayedCollection.map((item) => (
-            <button
-              key={item.id}
-              type="button"
-              className={`${styles.resultButton} ${styles.filmCardViewItem}`}
-              onClick={() => openSelectedView(item)}
-            >
-              <div className={styles.filmCardPosterWrapper}>
-                {item.items.poster_url ? (
-                  <Image
-                    className={styles.poster}
-                    src={item.items.poster_url}
-                    alt={`Постер ${item.items.title}`}
-                    width={270}
-                    height={405}
-                    sizes="(max-width: 720px) 70vw, 270px"
-                    loading="lazy"
-                    unoptimized
-                  />
-                ) : (
-                  <div className={styles.posterPlaceholder}>No image</div>
-                )}
-              </div>
-              <div className={styles.filmCardFooter}>
-                <div className={styles.filmCardRatingsRow}>
-                  <span className={styles.resultRating}>
-                    {getExternalRatingLabel(undefined, item.items.imdb_rating)}:{" "}
-                    {item.items.imdb_rating ?? "—"}
-                  </span>
-                  <span className={styles.resultRating}>Мій: {item.rating ?? "—"}</span>
+        isGroupedByFranchise ? (
+          <div className={styles.directorGroups}>
+            {franchiseSections.sections.map(({ group, items }) => (
+              <section key={group.href} className={styles.directorGroup}>
+                <h3 className={styles.directorTitle}>
+                  <Link href={group.href} className={styles.metaEntityLink}>
+                    {group.name}
+                  </Link>{" "}
+                  · {formatFranchiseProgress(group, "game")}
+                </h3>
+                <div className={`${styles.results} ${styles.filmCardsGrid}`}>
+                  {items.map((item) => renderGameCardItem(item))}
                 </div>
-              </div>
-            </button>
-          ))}
-        </div>
+              </section>
+            ))}
+            {franchiseSections.ungrouped.length > 0 ? (
+              <section className={styles.directorGroup}>
+                <h3 className={styles.directorTitle}>Без франшизи</h3>
+                <div className={`${styles.results} ${styles.filmCardsGrid}`}>
+                  {franchiseSections.ungrouped.map((item) => renderGameCardItem(item))}
+                </div>
+              </section>
+            ) : null}
+          </div>
+        ) : (
+          <div className={`${styles.results} ${styles.filmCardsGrid}`}>
+            {displayedCollection.map((item) => renderGameCardItem(item))}
+          </div>
+        )
       ) : null}
       {hasApplied && hasMore && isFriendAccessAllowed ? (
         <div ref={loadMoreRef} className={styles.loadMoreTrigger} />
@@ -4142,6 +4640,42 @@ export default function GamesManager({
                 }))
               }
             />
+            <FilterMultiSelectDropdown
+              title="Вірогідність сподобатись"
+              options={[...SHISHKA_FIT_LABELS]}
+              selectedValues={pendingFilters.fitLabels}
+              allSelected={pendingFilters.fitLabelsAll}
+              emptyLabel="Оберіть оцінки"
+              onChange={({ selectedValues, allSelected }) =>
+                setPendingFilters((prev) => ({
+                  ...prev,
+                  fitLabels: selectedValues,
+                  fitLabelsAll: allSelected,
+                }))
+              }
+            />
+            {availableLists.length > 0 ? (
+              <label className={styles.filtersField}>
+                Список
+                <select
+                  className={styles.sortSelect}
+                  value={pendingFilters.listId ?? ""}
+                  onChange={(event) =>
+                    setPendingFilters((prev) => ({
+                      ...prev,
+                      listId: event.target.value || null,
+                    }))
+                  }
+                >
+                  <option value="">Усі записи</option>
+                  {availableLists.map((list) => (
+                    <option key={list.id} value={list.id}>
+                      {list.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
             {visiblePlatforms.length > 0 ? (
               <FilterMultiSelectDropdown
                 title="Платформи"
@@ -4413,6 +4947,82 @@ export default function GamesManager({
                 </div>
               </div>
             ) : null}
+            <div className={styles.filtersGroup}>
+              <p className={styles.filtersGroupTitle}>Статус гри</p>
+              <div className={styles.filtersControls}>
+                <label className={styles.filtersOption}>
+                  <input
+                    className={styles.filtersCheckbox}
+                    type="checkbox"
+                    checked={pendingFilters.completionStatusesAll}
+                    onChange={(event) =>
+                      setPendingFilters((prev) => ({
+                        ...prev,
+                        completionStatusesAll: event.target.checked,
+                      }))
+                    }
+                  />
+                  Все
+                </label>
+                {GAME_COMPLETION_STATUSES.map((status) => (
+                  <label
+                    key={status}
+                    className={`${styles.filtersOption} ${
+                      pendingFilters.completionStatusesAll ? styles.filtersOptionDisabled : ""
+                    }`}
+                  >
+                    <input
+                      className={styles.filtersCheckbox}
+                      type="checkbox"
+                      checked={pendingFilters.completionStatuses.includes(status)}
+                      disabled={pendingFilters.completionStatusesAll}
+                      onChange={(event) =>
+                        setPendingFilters((prev) => ({
+                          ...prev,
+                          completionStatusesAll: false,
+                          completionStatuses: event.target.checked
+                            ? [...prev.completionStatuses, status]
+                            : prev.completionStatuses.filter((value) => value !== status),
+                        }))
+                      }
+                    />
+                    {GAME_COMPLETION_STATUS_LABELS[status]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className={styles.filtersDates}>
+              <label className={styles.filtersField}>
+                Години гри: від
+                <input
+                  className={styles.filtersInput}
+                  type="text"
+                  inputMode="decimal"
+                  value={pendingFilters.hoursPlayedFrom}
+                  onChange={(event) =>
+                    setPendingFilters((prev) => ({
+                      ...prev,
+                      hoursPlayedFrom: event.target.value,
+                    }))
+                  }
+                />
+              </label>
+              <label className={styles.filtersField}>
+                до
+                <input
+                  className={styles.filtersInput}
+                  type="text"
+                  inputMode="decimal"
+                  value={pendingFilters.hoursPlayedTo}
+                  onChange={(event) =>
+                    setPendingFilters((prev) => ({
+                      ...prev,
+                      hoursPlayedTo: event.target.value,
+                    }))
+                  }
+                />
+              </label>
+            </div>
             <div className={styles.filtersGroup}>
               <p className={styles.filtersGroupTitle}>Перегляд</p>
               <div className={styles.filtersControls}>
@@ -4632,11 +5242,16 @@ export default function GamesManager({
         />
       ) : null}
 
+      {isCsvImportOpen ? (
+        <GameCsvImportModal onClose={() => setIsCsvImportOpen(false)} />
+      ) : null}
+
       {refreshPickerModal}
       {selectedViewModal}
       {trailerViewerModal}
       {recommendItemModal}
       {recommendationScopeModal}
+      {fitBatchModal}
       {nicknameModal}
     </div>
   );
@@ -14,6 +14,7 @@ import {
 } from "react";
 import CatalogLayout from "@/components/catalog/CatalogLayout";
 import CatalogModal from "@/components/catalog/CatalogModal";
+import { GameProgressMeta } from "@/components/games/GameMetadataContent";
 import TrailerViewerModal from "@/components/films/TrailerViewerModal";
 import searchStyles from "@/components/catalog/CatalogSearch.module.css";
 import type { GameGenreEditEntryView } from "@/lib/catalog/edit/types";
@@ -28,6 +29,11 @@ import {
   type GameNormalizedGenre,
   trySyncGameNormalizedGenres,
 } from "@/lib/games/normalizedMetadata";
+import {
+  normalizeGameProgress,
+  toGameProgressViewColumns,
+  type GameProgressInput,
+} from "@/lib/games/gameProgress";
 import { normalizeGamePlatforms } from "@/lib/games/platforms";
 import {
   AVAILABILITY_OPTIONS,
@@ -455,7 +461,7 @@ const loadGameGenreCollectionData = async (source: GenreSource, sourceGenreId: s
   const { data, error } = await supabase
     .from("user_views")
     .select(
-      "id, viewed_at, comment, recommend_similar, is_viewed, rating, view_percent, availability, platforms, shishka_fit_label, shishka_fit_reason, shishka_fit_profile_analyzed_at, shishka_fit_scope_value, items!inner(id, title, description, genres, poster_url, external_id, year, imdb_rating, type)",
+      "id, viewed_at, comment, recommend_similar, is_viewed, rating, view_percent, availability, platforms, hours_played, completion_status, started_at, finished_at, shishka_fit_label, shishka_fit_reason, shishka_fit_profile_analyzed_at, shishka_fit_scope_value, items!inner(id, title, description, genres, poster_url, external_id, year, imdb_rating, type)",
     )
     .eq("user_id", user.id)
     .in("item_id", itemIds)
@@ -479,6 +485,10 @@ const loadGameGenreCollectionData = async (source: GenreSource, sourceGenreId: s
     view_percent: number;
     availability: string | null;
     platforms: string[] | null;
+    hours_played?: number | null;
+    completion_status?: string | null;
+    started_at?: string | null;
+    finished_at?: string | null;
     shishka_fit_label?: ShishkaFitAssessment["label"] | null;
     shishka_fit_reason?: string | null;
     shishka_fit_profile_analyzed_at?: string | null;
@@ -520,6 +530,7 @@ const loadGameGenreCollectionData = async (source: GenreSource, sourceGenreId: s
             viewPercent: row.view_percent,
             availability: row.availability,
             platforms: normalizeGamePlatforms(row.platforms),
+            gameProgress: normalizeGameProgress(row),
             shishkaFitLabel: row.shishka_fit_label ?? null,
             shishkaFitReason: row.shishka_fit_reason ?? null,
             shishkaFitProfileAnalyzedAt: row.shishka_fit_profile_analyzed_at ?? null,
@@ -709,6 +720,7 @@ export default function GameGenreDetailPage({
       platforms: string[];
       availability: string | null;
       shishkaFitAssessment: ShishkaFitAssessment | null;
+      gameProgress: GameProgressInput | null;
     }) => {
       if (!selectedExistingGame) {
         return;
@@ -731,6 +743,7 @@ export default function GameGenreDetailPage({
           shishka_fit_profile_analyzed_at:
             payload.shishkaFitAssessment?.profileAnalyzedAt ?? null,
           shishka_fit_scope_value: payload.shishkaFitAssessment?.scopeValue ?? null,
+          ...(payload.gameProgress ? toGameProgressViewColumns(payload.gameProgress) : {}),
         })
         .eq("id", selectedExistingGame.viewId);
 
@@ -1084,6 +1097,7 @@ export default function GameGenreDetailPage({
             showRecommendSimilar={false}
             availabilityOptions={AVAILABILITY_OPTIONS}
             platformOptions={GAME_PLATFORM_OPTIONS}
+            showGameProgress
             onAdd={handleUpdateSelectedGame}
             onDelete={handleDeleteSelectedGame}
             onRefresh={handleRefreshSelectedGame}
@@ -1116,6 +1130,7 @@ export default function GameGenreDetailPage({
               platforms: activeGame.platforms,
               availability: activeGame.availability,
               shishkaFitAssessment: getStoredShishkaFitAssessment(activeGame),
+              gameProgress: activeGame.gameProgress,
             }}
             submitLabel="Зберегти"
           >
@@ -1140,6 +1155,7 @@ export default function GameGenreDetailPage({
                     Жанри: {renderGenreLinks(activeGenres) ?? activeGenreText}
                   </p>
                 ) : null}
+                <GameProgressMeta progress={activeGame.gameProgress} />
                 {trailerMessage ? <p className={styles.message}>{trailerMessage}</p> : null}
                 <ModalDescription text={selectedDraft?.description ?? activeGame.item.description ?? ""} />
               </div>
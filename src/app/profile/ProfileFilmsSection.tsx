@@ -2,8 +2,10 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { flushSync } from "react-dom";
+import { getLlmRequestHeaders } from "@/lib/llm/requestHeaders";
 import { supabase } from "@/lib/supabase/client";
 import ProfileAnalysisUserView from "./ProfileAnalysisUserView";
+import ProfileFitJobButton from "./ProfileFitJobButton";
 import {
   DEFAULT_SCOPE_MATURITY_THRESHOLDS,
   buildScopeBreakdownEntry,
@@ -361,6 +363,11 @@ const renderScopeCard = (
             >
               Переглянути промпт
             </button>
+            <ProfileFitJobButton
+              mediaKind="film"
+              scopeValue={entry.scopeValue}
+              disabled={!analysis}
+            />
           </div>
           <span className={styles.scopeActionMeta}>
             Останній аналіз: {formatAnalysisDate(analysis?.analyzedAt)}
@@ -629,9 +636,7 @@ export default function ProfileFilmsSection() {
     try {
       const response = await fetch("/api/openai/film-profile-analysis", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: await getLlmRequestHeaders(),
         body: JSON.stringify({
           rows: promptRows,
           mediaType,
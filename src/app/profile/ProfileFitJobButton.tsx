@@ -0,0 +1,41 @@
+"use client";
+
+import type { ShishkaFitMediaKind } from "@/lib/shishka/fitCache";
+import { formatShishkaFitJobStatus, isShishkaFitJobActive } from "@/lib/shishka/fitJob";
+import { useShishkaFitJob } from "@/lib/shishka/useShishkaFitJob";
+import styles from "../statistics/StatisticsPage.module.css";
+
+type ProfileFitJobButtonProps = {
+  mediaKind: ShishkaFitMediaKind;
+  scopeValue: string;
+  disabled?: boolean;
+};
+
+export default function ProfileFitJobButton({
+  mediaKind,
+  scopeValue,
+  disabled = false,
+}: ProfileFitJobButtonProps) {
+  const { job, error, isStarting, start } = useShishkaFitJob(mediaKind, {
+    scopeValue,
+    enabled: !disabled,
+  });
+
+  return (
+    <>
+      <button
+        type="button"
+        className="btnBase btnSecondary"
+        onClick={() => void start(scopeValue)}
+        disabled={disabled || isStarting || isShishkaFitJobActive(job)}
+      >
+        Оцінити заплановані
+      </button>
+      {job || error ? (
+        <span className={styles.scopeActionMeta}>
+          {error || (job ? formatShishkaFitJobStatus(job) : "")}
+        </span>
+      ) : null}
+    </>
+  );
+}
@@ -2,9 +2,11 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { flushSync } from "react-dom";
+import { getLlmRequestHeaders } from "@/lib/llm/requestHeaders";
 import { supabase } from "@/lib/supabase/client";
 import { normalizeGamePlatforms } from "@/lib/games/platforms";
 import ProfileAnalysisUserView from "./ProfileAnalysisUserView";
+import ProfileFitJobButton from "./ProfileFitJobButton";
 import { buildGameProfilePromptRows, buildPlatformScopeProfilePrompt } from "@/lib/profile-analysis/game";
 import {
   DEFAULT_SCOPE_MATURITY_THRESHOLDS,
@@ -336,6 +338,11 @@ const renderScopeCard = (
             >
               Переглянути промпт
             </button>
+            <ProfileFitJobButton
+              mediaKind="game"
+              scopeValue={entry.scopeValue}
+              disabled={!analysis}
+            />
           </div>
           <span className={styles.scopeActionMeta}>
             Останній аналіз: {formatAnalysisDate(analysis?.analyzedAt)}
@@ -606,9 +613,7 @@ export default function ProfileGamesSection() {
     try {
       const response = await fetch("/api/openai/game-profile-analysis", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: await getLlmRequestHeaders(),
         body: JSON.stringify({
           rows: promptRows,
           platform: entry.scopeValue,
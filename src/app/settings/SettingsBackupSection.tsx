@@ -0,0 +1,215 @@
+"use client";
+
+import { useState } from "react";
+import {
+  buildUserBackupFileName,
+  parseUserBackup,
+  type UserBackup,
+  type UserBackupRestoreMode,
+} from "@/lib/backup/userBackup";
+import {
+  exportUserBackup,
+  restoreUserBackup,
+  type UserBackupRestoreSummary,
+} from "@/lib/backup/userBackupFlow";
+import { emitCollectionEntrySaved } from "@/lib/collection/events";
+import { getCsvTimestamp } from "@/lib/csv/getCsvTimestamp";
+import { supabase } from "@/lib/supabase/client";
+import styles from "./SettingsPage.module.css";
+
+const downloadJsonFile = (filename: string, payload: unknown) => {
+  const blob = new Blob([JSON.stringify(payload, null, 2)], {
+    type: "application/json;charset=utf-8;",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export default function SettingsBackupSection() {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<UserBackup | null>(null);
+  const [restoreMode, setRestoreMode] = useState<UserBackupRestoreMode>("merge");
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [summary, setSummary] = useState<UserBackupRestoreSummary | null>(null);
+  const [message, setMessage] = useState("");
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage("");
+    try {
+      const backup = await exportUserBackup(supabase);
+      downloadJsonFile(buildUserBackupFileName(getCsvTimestamp()), backup);
+      setMessage(`Резервну копію створено: ${backup.entries.length} записів.`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося створити резервну копію.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (file: File | null) => {
+    if (!file) return;
+    setMessage("");
+    setSummary(null);
+    try {
+      setPendingBackup(parseUserBackup(await file.text()));
+    } catch (error) {
+      setPendingBackup(null);
+      setMessage(error instanceof Error ? error.message : "Не вдалося прочитати файл.");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingBackup) return;
+    setIsRestoring(true);
+    setMessage("");
+    setProgress({ done: 0, total: pendingBackup.entries.length });
+    try {
+      const nextSummary = await restoreUserBackup({
+        supabase,
+        backup: pendingBackup,
+        mode: restoreMode,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setSummary(nextSummary);
+      setPendingBackup(null);
+      if (nextSummary.created > 0 || nextSummary.updated > 0) {
+        emitCollectionEntrySaved({ mediaKind: "film", itemId: null });
+        emitCollectionEntrySaved({ mediaKind: "game", itemId: null });
+      }
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося відновити дані.");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const isBusy = isExporting || isRestoring;
+
+  return (
+    <section className={styles.section}>
+      <h2 className={styles.sectionTitle}>Резервна копія</h2>
+      <p className={styles.sectionText}>
+        JSON-файл містить усі записи колекції разом із даними каталогу, історією переглядів,
+        прогресом серій і списками, надіслані друзям рекомендації, рекомендації Шишки, аналізи
+        профілю, сповіщення від друзів і налаштування відображення.
+      </p>
+      <div className={styles.actionsInline}>
+        <button
+          type="button"
+          className="btnBase btnPrimary"
+          onClick={() => void handleExport()}
+          disabled={isBusy}
+        >
+          {isExporting ? "Підготовка..." : "Завантажити резервну копію"}
+        </button>
+        <label className={`btnBase btnSecondary ${isBusy ? styles.disabledLabel : ""}`}>
+          Відновити з файлу
+          <input
+            className={styles.fileInput}
+            type="file"
+            accept=".json,application/json"
+            disabled={isBusy}
+            onChange={(event) => {
+              void handleFileChange(event.target.files?.[0] ?? null);
+              event.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {pendingBackup ? (
+        <div className={styles.statusCard}>
+          <p className={styles.statusLine}>
+            Копія від{" "}
+            <strong>
+              {pendingBackup.exportedAt
+                ? new Date(pendingBackup.exportedAt).toLocaleString("uk-UA")
+                : "невідомої дати"}
+            </strong>
+            {pendingBackup.username ? ` (@${pendingBackup.username})` : ""}:{" "}
+            {pendingBackup.entries.length} записів, {pendingBackup.profileAnalyses.length}{" "}
+            аналізів профілю.
+          </p>
+          <label className={styles.field}>
+            Якщо запис уже є у колекції
+            <select
+              className={styles.select}
+              value={restoreMode}
+              onChange={(event) => setRestoreMode(event.target.value as UserBackupRestoreMode)}
+              disabled={isBusy}
+            >
+              <option value="merge">Залишити поточний (лише додати нове)</option>
+              <option value="overwrite">Замінити даними з копії</option>
+            </select>
+          </label>
+          <p className={styles.sectionText}>
+            Налаштування відображення та сповіщення від друзів відновлюються лише в режимі
+            заміни. Повторне відновлення тієї ж копії не створює дублікатів.
+          </p>
+          <div className={styles.actionsInline}>
+            <button
+              type="button"
+              className="btnBase btnPrimary"
+              onClick={() => void handleRestore()}
+              disabled={isBusy}
+            >
+              {isRestoring
+                ? `Відновлення... ${progress.done} / ${progress.total}`
+                : "Відновити"}
+            </button>
+            <button
+              type="button"
+              className="btnBase btnSecondary"
+              onClick={() => setPendingBackup(null)}
+              disabled={isBusy}
+            >
+              Скасувати
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {summary ? (
+        <div className={styles.statusCard}>
+          <p className={styles.statusLine}>Додано: {summary.created}</p>
+          <p className={styles.statusLine}>Оновлено: {summary.updated}</p>
+          <p className={styles.statusLine}>Залишено без змін: {summary.skipped}</p>
+          <p className={styles.statusLine}>Аналізів профілю: {summary.profileAnalyses}</p>
+          <p className={styles.statusLine}>Списків: {summary.lists}</p>
+          <p className={styles.statusLine}>
+            Рекомендацій друзям: {summary.recommendations}, рекомендацій Шишки:{" "}
+            {summary.recommendationCandidates}
+          </p>
+          {restoreMode === "overwrite" ? (
+            <p className={styles.statusLine}>
+              Друзів зі сповіщеннями: {summary.contacts}
+              {summary.preferencesRestored ? ", налаштування відновлено" : ""}
+            </p>
+          ) : null}
+          {summary.failed.length > 0 ? (
+            <>
+              <p className={styles.statusLine}>Помилки: {summary.failed.length}</p>
+              <ul className={styles.failedList}>
+                {summary.failed.map((entry, index) => (
+                  <li key={`${entry.title}-${index}`}>
+                    {entry.title} — {entry.message}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+
+      {message ? <p className={styles.message}>{message}</p> : null}
+    </section>
+  );
+}
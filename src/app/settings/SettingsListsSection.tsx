@@ -0,0 +1,208 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  USER_LIST_NAME_MAX_LENGTH,
+  createUserList,
+  deleteUserList,
+  loadUserLists,
+  reorderUserLists,
+  updateUserList,
+  type UserList,
+} from "@/lib/collection/userLists";
+import { supabase } from "@/lib/supabase/client";
+import styles from "./SettingsPage.module.css";
+
+export default function SettingsListsSection() {
+  const [lists, setLists] = useState<UserList[]>([]);
+  const [nameDrafts, setNameDrafts] = useState<Record<string, string>>({});
+  const [newListName, setNewListName] = useState("");
+  const [viewsVisibleToFriends, setViewsVisibleToFriends] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyListId, setBusyListId] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const reload = useCallback(async () => {
+    const nextLists = await loadUserLists();
+    setLists(nextLists);
+    setNameDrafts(Object.fromEntries(nextLists.map((list) => [list.id, list.name])));
+  }, []);
+
+  useEffect(() => {
+    let isCancelled = false;
+    void (async () => {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (user) {
+          const { data: profile } = await supabase
+            .from("profiles")
+            .select("views_visible_to_friends")
+            .eq("id", user.id)
+            .maybeSingle();
+          if (!isCancelled) {
+            setViewsVisibleToFriends(Boolean(profile?.views_visible_to_friends));
+          }
+        }
+        await reload();
+      } catch (error) {
+        if (!isCancelled) {
+          setMessage(error instanceof Error ? error.message : "Не вдалося завантажити списки.");
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [reload]);
+
+  const runListAction = async (listId: string | null, action: () => Promise<void>) => {
+    setBusyListId(listId ?? "");
+    setMessage("");
+    try {
+      await action();
+      await reload();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося оновити список.");
+    } finally {
+      setBusyListId(null);
+    }
+  };
+
+  const moveList = (index: number, offset: -1 | 1) => {
+    const targetIndex = index + offset;
+    if (targetIndex < 0 || targetIndex >= lists.length) return;
+    const nextIds = lists.map((list) => list.id);
+    [nextIds[index], nextIds[targetIndex]] = [nextIds[targetIndex], nextIds[index]];
+    void runListAction(lists[index].id, () => reorderUserLists(nextIds));
+  };
+
+  const isBusy = busyListId !== null;
+
+  return (
+    <section className={styles.section}>
+      <h2 className={styles.sectionTitle}>Списки</h2>
+      <p className={styles.sectionText}>
+        Власні добірки з фільмів, серіалів та ігор. Додати запис до списку можна з картки
+        запису в колекції.
+      </p>
+      {!viewsVisibleToFriends ? (
+        <p className={styles.message}>
+          Спільні списки бачать друзі лише тоді, коли колекція відкрита для друзів.
+        </p>
+      ) : null}
+
+      <form
+        className={styles.actionsInline}
+        onSubmit={(event) => {
+          event.preventDefault();
+          void runListAction(null, async () => {
+            await createUserList(newListName);
+            setNewListName("");
+          });
+        }}
+      >
+        <input
+          className={styles.input}
+          value={newListName}
+          maxLength={USER_LIST_NAME_MAX_LENGTH}
+          placeholder="Новий список"
+          onChange={(event) => setNewListName(event.target.value)}
+          disabled={isBusy}
+        />
+        <button
+          type="submit"
+          className="btnBase btnPrimary"
+          disabled={isBusy || !newListName.trim()}
+        >
+          Створити
+        </button>
+      </form>
+
+      {isLoading ? <p className={styles.message}>Завантаження...</p> : null}
+      {!isLoading && lists.length === 0 ? (
+        <p className={styles.message}>Ще немає списків.</p>
+      ) : null}
+      {lists.map((list, index) => {
+        const draftName = nameDrafts[list.id] ?? list.name;
+        return (
+          <div key={list.id} className={styles.statusCard}>
+            <div className={styles.actionsInline}>
+              <input
+                className={styles.input}
+                value={draftName}
+                maxLength={USER_LIST_NAME_MAX_LENGTH}
+                onChange={(event) =>
+                  setNameDrafts((prev) => ({ ...prev, [list.id]: event.target.value }))
+                }
+                disabled={isBusy}
+                aria-label="Назва списку"
+              />
+              <button
+                type="button"
+                className="btnBase btnSecondary"
+                onClick={() =>
+                  void runListAction(list.id, () =>
+                    updateUserList(list.id, { name: draftName }),
+                  )
+                }
+                disabled={isBusy || draftName.trim() === list.name}
+              >
+                Перейменувати
+              </button>
+              <button
+                type="button"
+                className="btnBase btnSecondary"
+                onClick={() => moveList(index, -1)}
+                disabled={isBusy || index === 0}
+                aria-label="Вище"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="btnBase btnSecondary"
+                onClick={() => moveList(index, 1)}
+                disabled={isBusy || index === lists.length - 1}
+                aria-label="Нижче"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="btnBase btnSecondary"
+                onClick={() => {
+                  if (!window.confirm(`Видалити список «${list.name}»?`)) return;
+                  void runListAction(list.id, () => deleteUserList(list.id));
+                }}
+                disabled={isBusy}
+              >
+                Видалити
+              </button>
+            </div>
+            <label className={styles.checkboxRow}>
+              <input
+                type="checkbox"
+                className={styles.checkbox}
+                checked={list.isShared}
+                onChange={(event) => {
+                  const isShared = event.target.checked;
+                  void runListAction(list.id, () => updateUserList(list.id, { isShared }));
+                }}
+                disabled={isBusy}
+              />
+              Показувати друзям
+            </label>
+          </div>
+        );
+      })}
+      {message ? <p className={styles.message}>{message}</p> : null}
+    </section>
+  );
+}
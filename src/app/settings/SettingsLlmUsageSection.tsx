@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+import styles from "./SettingsPage.module.css";
+
+const HISTORY_LIMIT = 50;
+
+const ROUTE_LABELS: Record<string, string> = {
+  "film-fit-evaluation": "Оцінка фільму",
+  "game-fit-evaluation": "Оцінка гри",
+  "film-profile-analysis": "Аналіз кіно-профілю",
+  "game-profile-analysis": "Аналіз ігрового профілю",
+  "film-recommendations": "Рекомендації фільмів",
+  "game-recommendations": "Рекомендації ігор",
+};
+
+type LlmUsageRow = {
+  id: string;
+  route: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  success: boolean;
+  error_code: string | null;
+  created_at: string;
+};
+
+const getUtcDayStart = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+};
+
+export default function SettingsLlmUsageSection() {
+  const [rows, setRows] = useState<LlmUsageRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    let isCancelled = false;
+    void (async () => {
+      try {
+        const { data, error } = await supabase
+          .from("llm_usage_events")
+          .select(
+            "id, route, model, prompt_tokens, completion_tokens, latency_ms, success, error_code, created_at",
+          )
+          .order("created_at", { ascending: false })
+          .limit(HISTORY_LIMIT);
+        if (error) {
+          throw new Error("Не вдалося завантажити історію запитів ШІ.");
+        }
+        if (!isCancelled) {
+          setRows((data ?? []) as LlmUsageRow[]);
+        }
+      } catch (error) {
+        if (!isCancelled) {
+          setMessage(
+            error instanceof Error ? error.message : "Не вдалося завантажити історію запитів ШІ.",
+          );
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const dayStart = getUtcDayStart().getTime();
+  const todayRows = rows.filter((row) => new Date(row.created_at).getTime() >= dayStart);
+  const todayTokens = todayRows.reduce(
+    (total, row) => total + row.prompt_tokens + row.completion_tokens,
+    0,
+  );
+
+  return (
+    <section className={styles.section}>
+      <h2 className={styles.sectionTitle}>Використання ШІ</h2>
+      <p className={styles.sectionText}>
+        Запити до оцінок, аналізу профілю та рекомендацій мають денний ліміт, який оновлюється о
+        00:00 UTC.
+      </p>
+      {isLoading ? <p className={styles.message}>Завантаження...</p> : null}
+      {!isLoading ? (
+        <div className={styles.statusCard}>
+          <p className={styles.statusLine}>Сьогодні запитів: {todayRows.length}</p>
+          <p className={styles.statusLine}>Сьогодні токенів: {todayTokens}</p>
+        </div>
+      ) : null}
+
+      <h3 className={styles.sectionTitle}>Останні запити</h3>
+      {!isLoading && rows.length === 0 ? (
+        <p className={styles.message}>Ще немає запитів.</p>
+      ) : null}
+      {rows.length > 0 ? (
+        <ul className={styles.usageList}>
+          {rows.map((row) => (
+            <li key={row.id} className={styles.usageRow}>
+              <span>{new Date(row.created_at).toLocaleString("uk-UA")}</span>
+              <span>{ROUTE_LABELS[row.route] ?? row.route}</span>
+              <span className={styles.usageMeta}>
+                {row.model} · {row.prompt_tokens + row.completion_tokens} токенів ·{" "}
+                {(row.latency_ms / 1000).toFixed(1)} с ·{" "}
+                {row.success ? "успішно" : `помилка${row.error_code ? ` (${row.error_code})` : ""}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {message ? <p className={styles.message}>{message}</p> : null}
+    </section>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  loadNormalizedCoverage,
+  runNormalizedBackfill,
+  type NormalizedBackfillSummary,
+  type NormalizedCoverage,
+  type NormalizedCoverageStats,
+} from "@/lib/metadataRefresh/normalizedBackfill";
+import { supabase } from "@/lib/supabase/client";
+import styles from "./SettingsPage.module.css";
+
+const formatCoverage = (label: string, stats: NormalizedCoverageStats) =>
+  `${label}: ${stats.normalized} з ${stats.total} повністю нормалізовано, лише текст — ${stats.textOnly}` +
+  (stats.withoutSource > 0 ? ` (без джерела: ${stats.withoutSource})` : "");
+
+export default function SettingsNormalizationSection() {
+  const [coverage, setCoverage] = useState<NormalizedCoverage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [summary, setSummary] = useState<NormalizedBackfillSummary | null>(null);
+  const [message, setMessage] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refreshCoverage = useCallback(async () => {
+    try {
+      setCoverage(await loadNormalizedCoverage(supabase));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося порахувати покриття.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshCoverage();
+    return () => abortRef.current?.abort();
+  }, [refreshCoverage]);
+
+  const handleRun = async () => {
+    if (!coverage || coverage.pending.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setMessage("");
+    setSummary(null);
+    setProgress({ done: 0, total: coverage.pending.length });
+    try {
+      setSummary(
+        await runNormalizedBackfill({
+          supabase,
+          items: coverage.pending,
+          signal: controller.signal,
+          onProgress: (done, total) => setProgress({ done, total }),
+        }),
+      );
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося доповнити метадані.");
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+      await refreshCoverage();
+    }
+  };
+
+  return (
+    <section className={styles.section}>
+      <h2 className={styles.sectionTitle}>Люди та жанри</h2>
+      <p className={styles.sectionText}>
+        Старі записи мають жанри, режисерів і акторів лише текстом, тому не з’являються на
+        сторінках жанрів і людей. Доповнення підтягує їх із TMDB та IGDB; його можна зупинити й
+        продовжити пізніше.
+      </p>
+      {isLoading ? <p className={styles.message}>Завантаження...</p> : null}
+      {coverage ? (
+        <div className={styles.statusCard}>
+          <p className={styles.statusLine}>{formatCoverage("Фільми", coverage.film)}</p>
+          <p className={styles.statusLine}>{formatCoverage("Ігри", coverage.game)}</p>
+        </div>
+      ) : null}
+
+      {coverage && coverage.pending.length > 0 ? (
+        <div className={styles.actionsInline}>
+          <button
+            type="button"
+            className="btnBase btnPrimary"
+            onClick={() => void handleRun()}
+            disabled={isRunning}
+          >
+            {isRunning
+              ? `Доповнення... ${progress.done} / ${progress.total}`
+              : `Доповнити (${coverage.pending.length})`}
+          </button>
+          {isRunning ? (
+            <button
+              type="button"
+              className="btnBase btnSecondary"
+              onClick={() => abortRef.current?.abort()}
+            >
+              Зупинити
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      {summary ? (
+        <div className={styles.statusCard}>
+          <p className={styles.statusLine}>
+            {summary.stopped ? "Зупинено" : "Готово"}: оброблено {summary.done}
+          </p>
+          {summary.failed.length > 0 ? (
+            <>
+              <p className={styles.statusLine}>Помилки: {summary.failed.length}</p>
+              <ul className={styles.failedList}>
+                {summary.failed.map((entry, index) => (
+                  <li key={`${entry.title}-${index}`}>
+                    {entry.title} — {entry.message}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+
+      {message ? <p className={styles.message}>{message}</p> : null}
+    </section>
+  );
+}
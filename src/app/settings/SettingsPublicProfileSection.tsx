@@ -0,0 +1,198 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { loadUserLists, updateUserList, type UserList } from "@/lib/collection/userLists";
+import { supabase } from "@/lib/supabase/client";
+import {
+  buildPublicProfilePath,
+  normalizePublicProfileSettings,
+  type PublicProfileSettings,
+} from "@/lib/users/publicProfile";
+import styles from "./SettingsPage.module.css";
+
+const SETTINGS_COLUMNS: Record<keyof PublicProfileSettings, string> = {
+  enabled: "public_profile_enabled",
+  showLists: "public_profile_show_lists",
+  showTopRated: "public_profile_show_top_rated",
+  showStatistics: "public_profile_show_statistics",
+};
+
+const SECTION_OPTIONS: Array<{ key: Exclude<keyof PublicProfileSettings, "enabled">; label: string }> = [
+  { key: "showStatistics", label: "Статистика" },
+  { key: "showTopRated", label: "Найвищі оцінки" },
+  { key: "showLists", label: "Вибрані списки" },
+];
+
+export default function SettingsPublicProfileSection() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [username, setUsername] = useState<string | null>(null);
+  const [settings, setSettings] = useState<PublicProfileSettings>(() =>
+    normalizePublicProfileSettings(null),
+  );
+  const [lists, setLists] = useState<UserList[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    let isCancelled = false;
+    void (async () => {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) {
+          throw new Error("Потрібна авторизація.");
+        }
+        const [{ data: profile, error }, nextLists] = await Promise.all([
+          supabase
+            .from("profiles")
+            .select(
+              "username, public_profile_enabled, public_profile_show_lists, public_profile_show_top_rated, public_profile_show_statistics",
+            )
+            .eq("id", user.id)
+            .maybeSingle(),
+          loadUserLists(),
+        ]);
+        if (error) {
+          throw new Error("Не вдалося завантажити налаштування профілю.");
+        }
+        if (!isCancelled) {
+          setUserId(user.id);
+          setUsername(profile?.username ?? null);
+          setSettings(normalizePublicProfileSettings(profile));
+          setLists(nextLists);
+        }
+      } catch (error) {
+        if (!isCancelled) {
+          setMessage(
+            error instanceof Error ? error.message : "Не вдалося завантажити налаштування профілю.",
+          );
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const updateSetting = async (key: keyof PublicProfileSettings, value: boolean) => {
+    if (!userId) return;
+    setIsSaving(true);
+    setMessage("");
+    const { error } = await supabase
+      .from("profiles")
+      .update({ [SETTINGS_COLUMNS[key]]: value })
+      .eq("id", userId);
+    setIsSaving(false);
+    if (error) {
+      setMessage("Не вдалося зберегти налаштування профілю.");
+      return;
+    }
+    setSettings((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateListVisibility = async (listId: string, isPublic: boolean) => {
+    setIsSaving(true);
+    setMessage("");
+    try {
+      await updateUserList(listId, { isPublic });
+      setLists((prev) => prev.map((list) => (list.id === listId ? { ...list, isPublic } : list)));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося оновити список.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const profilePath = username ? buildPublicProfilePath(username) : null;
+  const isDisabled = isLoading || isSaving || !username;
+
+  return (
+    <section className={styles.section}>
+      <h2 className={styles.sectionTitle}>Публічний профіль</h2>
+      <p className={styles.sectionText}>
+        Сторінка лише для перегляду, яку можна відкрити за посиланням без входу в акаунт.
+      </p>
+      {isLoading ? <p className={styles.message}>Завантаження...</p> : null}
+      {!isLoading && !username ? (
+        <p className={styles.message}>
+          Спершу вкажи нікнейм на сторінці друзів: він стане адресою профілю.
+        </p>
+      ) : null}
+      <label className={styles.checkboxRow}>
+        <input
+          type="checkbox"
+          className={styles.checkbox}
+          checked={settings.enabled}
+          onChange={(event) => void updateSetting("enabled", event.target.checked)}
+          disabled={isDisabled}
+        />
+        Увімкнути публічний профіль
+      </label>
+      {settings.enabled && profilePath ? (
+        <div className={styles.statusCard}>
+          <p className={styles.statusLine}>
+            Посилання: <Link href={profilePath}>{profilePath}</Link>
+          </p>
+          <div className={styles.actionsInline}>
+            <button
+              type="button"
+              className="btnBase btnSecondary"
+              onClick={() => {
+                void navigator.clipboard
+                  .writeText(`${window.location.origin}${profilePath}`)
+                  .then(() => setMessage("Посилання скопійовано."))
+                  .catch(() => setMessage("Не вдалося скопіювати посилання."));
+              }}
+            >
+              Скопіювати посилання
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <h3 className={styles.sectionTitle}>Що показувати</h3>
+      {SECTION_OPTIONS.map((option) => (
+        <label key={option.key} className={styles.checkboxRow}>
+          <input
+            type="checkbox"
+            className={styles.checkbox}
+            checked={settings[option.key]}
+            onChange={(event) => void updateSetting(option.key, event.target.checked)}
+            disabled={isDisabled}
+          />
+          {option.label}
+        </label>
+      ))}
+
+      {settings.showLists ? (
+        <>
+          <h3 className={styles.sectionTitle}>Списки у профілі</h3>
+          {!isLoading && lists.length === 0 ? (
+            <p className={styles.message}>Ще немає списків.</p>
+          ) : null}
+          {lists.map((list) => (
+            <label key={list.id} className={styles.checkboxRow}>
+              <input
+                type="checkbox"
+                className={styles.checkbox}
+                checked={list.isPublic}
+                onChange={(event) => void updateListVisibility(list.id, event.target.checked)}
+                disabled={isDisabled}
+              />
+              {list.name}
+            </label>
+          ))}
+        </>
+      ) : null}
+      {message ? <p className={styles.message}>{message}</p> : null}
+    </section>
+  );
+}
@@ -9,6 +9,17 @@ import {
   isAvailabilityOption,
   writeDisplayPreferences,
 } from "@/lib/settings/displayPreferences";
+import {
+  FRIEND_NOTIFICATION_DELIVERY_MODES,
+  FRIEND_NOTIFICATION_DELIVERY_MODE_LABELS,
+  normalizeFriendNotificationDeliveryMode,
+  type FriendNotificationDeliveryMode,
+} from "@/lib/friends/notificationDigest";
+import SettingsBackupSection from "./SettingsBackupSection";
+import SettingsListsSection from "./SettingsListsSection";
+import SettingsLlmUsageSection from "./SettingsLlmUsageSection";
+import SettingsNormalizationSection from "./SettingsNormalizationSection";
+import SettingsPublicProfileSection from "./SettingsPublicProfileSection";
 import styles from "./SettingsPage.module.css";
 
 type TelegramLinkTokenRow = {
@@ -22,7 +33,9 @@ type TelegramLinkTokenRow = {
 
 export default function SettingsPage() {
   const telegramBotUsername = process.env.NEXT_PUBLIC_TELEGRAM_BOT_USERNAME ?? "";
-  const [activeTab, setActiveTab] = useState<"films" | "games" | "telegram">("films");
+  const [activeTab, setActiveTab] = useState<
+    "films" | "games" | "telegram" | "email" | "lists" | "profile" | "ai" | "data"
+  >("films");
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [message, setMessage] = useState("");
@@ -42,6 +55,10 @@ export default function SettingsPage() {
   const [defaultGameIsViewed, setDefaultGameIsViewed] = useState<boolean | null>(null);
   const [telegramNotificationsEnabled, setTelegramNotificationsEnabled] = useState(false);
   const [telegramChatId, setTelegramChatId] = useState("");
+  const [emailNotificationsEnabled, setEmailNotificationsEnabled] = useState(false);
+  const [accountEmail, setAccountEmail] = useState("");
+  const [telegramDeliveryMode, setTelegramDeliveryMode] =
+    useState<FriendNotificationDeliveryMode>("instant");
   const [telegramLinkToken, setTelegramLinkToken] = useState<string | null>(null);
   const [telegramLinkExpiresAt, setTelegramLinkExpiresAt] = useState<string | null>(null);
   const [telegramLinkedUsername, setTelegramLinkedUsername] = useState<string | null>(null);
@@ -115,7 +132,7 @@ export default function SettingsPage() {
         supabase
           .from("profiles")
           .select(
-            "settings_show_film_availability, settings_show_game_availability, settings_visible_game_platforms, settings_default_game_platform, settings_default_film_availability, settings_default_game_availability, settings_default_film_is_viewed, settings_default_game_is_viewed, telegram_notifications_enabled, telegram_chat_id",
+            "settings_show_film_availability, settings_show_game_availability, settings_visible_game_platforms, settings_default_game_platform, settings_default_film_availability, settings_default_game_availability, settings_default_film_is_viewed, settings_default_game_is_viewed, telegram_notifications_enabled, telegram_chat_id, telegram_delivery_mode, email_notifications_enabled",
           )
           .eq("id", user.id)
           .maybeSingle(),
@@ -174,6 +191,11 @@ export default function SettingsPage() {
       );
       setTelegramNotificationsEnabled(data?.telegram_notifications_enabled ?? false);
       setTelegramChatId(data?.telegram_chat_id ?? "");
+      setTelegramDeliveryMode(
+        normalizeFriendNotificationDeliveryMode(data?.telegram_delivery_mode),
+      );
+      setEmailNotificationsEnabled(data?.email_notifications_enabled ?? false);
+      setAccountEmail(user.email ?? "");
       setTelegramLinkToken(activeToken?.token ?? null);
       setTelegramLinkExpiresAt(activeToken?.expires_at ?? null);
       setTelegramLinkedUsername(linkedRes.data?.telegram_username ?? null);
@@ -457,6 +479,8 @@ export default function SettingsPage() {
       telegram_notifications_enabled:
         telegramNotificationsEnabled && normalizedTelegramChatId.length > 0,
       telegram_chat_id: normalizedTelegramChatId || null,
+      telegram_delivery_mode: telegramDeliveryMode,
+      email_notifications_enabled: emailNotificationsEnabled && accountEmail.length > 0,
     };
 
     const { error } = await supabase
@@ -525,6 +549,49 @@ export default function SettingsPage() {
           >
             Telegram
           </button>
+          <button
+            type="button"
+            className={`${styles.tabButton} ${
+              activeTab === "email" ? styles.tabButtonActive : ""
+            }`}
+            onClick={() => setActiveTab("email")}
+          >
+            Email
+          </button>
+          <button
+            type="button"
+            className={`${styles.tabButton} ${
+              activeTab === "lists" ? styles.tabButtonActive : ""
+            }`}
+            onClick={() => setActiveTab("lists")}
+          >
+            Списки
+          </button>
+          <button
+            type="button"
+            className={`${styles.tabButton} ${
+              activeTab === "profile" ? styles.tabButtonActive : ""
+            }`}
+            onClick={() => setActiveTab("profile")}
+          >
+            Профіль
+          </button>
+          <button
+            type="button"
+            className={`${styles.tabButton} ${activeTab === "ai" ? styles.tabButtonActive : ""}`}
+            onClick={() => setActiveTab("ai")}
+          >
+            ШІ
+          </button>
+          <button
+            type="button"
+            className={`${styles.tabButton} ${
+              activeTab === "data" ? styles.tabButtonActive : ""
+            }`}
+            onClick={() => setActiveTab("data")}
+          >
+            Дані
+          </button>
         </div>
 
         {activeTab === "films" ? (
@@ -671,6 +738,42 @@ export default function SettingsPage() {
               </select>
             </label>
           </section>
+        ) : activeTab === "email" ? (
+          <section className={styles.section}>
+            <h2 className={styles.sectionTitle}>Email</h2>
+            <div className={styles.statusCard}>
+              <p className={styles.sectionText}>
+                Сповіщення про активність друзів, коментарі та реакції приходитимуть на пошту
+                акаунта. Відписатися можна з будь-якого листа.
+              </p>
+            </div>
+            <label className={styles.checkboxRow}>
+              <input
+                className={styles.checkbox}
+                type="checkbox"
+                checked={emailNotificationsEnabled}
+                onChange={(event) => setEmailNotificationsEnabled(event.target.checked)}
+                disabled={isLoading || isSaving || !accountEmail}
+              />
+              Увімкнути email-сповіщення
+            </label>
+            <div className={styles.statusCard}>
+              <p className={styles.statusLine}>
+                Адреса: <strong>{accountEmail || "не вказана"}</strong>
+              </p>
+            </div>
+          </section>
+        ) : activeTab === "lists" ? (
+          <SettingsListsSection />
+        ) : activeTab === "profile" ? (
+          <SettingsPublicProfileSection />
+        ) : activeTab === "ai" ? (
+          <SettingsLlmUsageSection />
+        ) : activeTab === "data" ? (
+          <>
+            <SettingsBackupSection />
+            <SettingsNormalizationSection />
+          </>
         ) : (
           <section className={styles.section}>
             <h2 className={styles.sectionTitle}>Telegram</h2>
@@ -760,6 +863,25 @@ export default function SettingsPage() {
               />
               Увімкнути Telegram-сповіщення
             </label>
+            <label className={styles.field}>
+              Як надсилати сповіщення
+              <select
+                className={styles.select}
+                value={telegramDeliveryMode}
+                onChange={(event) =>
+                  setTelegramDeliveryMode(
+                    normalizeFriendNotificationDeliveryMode(event.target.value),
+                  )
+                }
+                disabled={isLoading || isSaving}
+              >
+                {FRIEND_NOTIFICATION_DELIVERY_MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {FRIEND_NOTIFICATION_DELIVERY_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </label>
             <div className={styles.statusCard}>
               <p className={styles.statusLine}>
                 Статус каналу:{" "}
@@ -773,16 +895,21 @@ export default function SettingsPage() {
           </section>
         )}
 
-        <div className={styles.actions}>
-          <button
-            type="button"
-            className="btnBase btnPrimary"
-            onClick={save}
-            disabled={isLoading || isSaving}
-          >
-            {isSaving ? "Збереження..." : "Зберегти"}
-          </button>
-        </div>
+        {activeTab !== "lists" &&
+        activeTab !== "profile" &&
+        activeTab !== "ai" &&
+        activeTab !== "data" ? (
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className="btnBase btnPrimary"
+              onClick={save}
+              disabled={isLoading || isSaving}
+            >
+              {isSaving ? "Збереження..." : "Зберегти"}
+            </button>
+          </div>
+        ) : null}
         {message ? <p className={styles.message}>{message}</p> : null}
       </div>
     </CatalogLayout>
@@ -217,9 +217,40 @@ export default function StatisticsGamesPage({
           <span className={styles.kpiLabel}>Додано за 30 днів</span>
           <strong className={styles.kpiValue}>{payload.summary.addedLast30Days}</strong>
         </div>
+        {payload.playtime && payload.playtime.trackedTitles > 0 ? (
+          <div className={`${styles.kpiCard} ${styles.kpiCardWide}`}>
+            <span className={styles.kpiLabel}>Годин у грі</span>
+            <strong className={styles.kpiValue}>
+              {payload.playtime.totalHours}{" "}
+              <span className={styles.kpiValueMuted}>
+                ({payload.playtime.trackedTitles} ігр.)
+              </span>
+            </strong>
+          </div>
+        ) : null}
       </div>
 
       <div className={styles.sectionGrid}>
+        {payload.playtime && payload.playtime.trackedTitles > 0 ? (
+          <>
+            <section className={styles.section}>
+              <h3 className={styles.sectionTitle}>Години за платформами</h3>
+              <StatisticsRankedList
+                entries={payload.playtime.hoursByPlatform}
+                valueLabel="hours"
+                emptyMessage="Додайте платформи до ігор із вказаними годинами."
+              />
+            </section>
+            <section className={styles.section}>
+              <h3 className={styles.sectionTitle}>Години за жанрами</h3>
+              <StatisticsRankedList
+                entries={payload.playtime.hoursByGenre}
+                valueLabel="hours"
+                emptyMessage="Недостатньо даних."
+              />
+            </section>
+          </>
+        ) : null}
         <section className={`${styles.section} ${styles.sectionFull}`}>
           {platformGroups.length === 0 ? (
             <div className={styles.emptyBox}>
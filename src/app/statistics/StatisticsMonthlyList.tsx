@@ -38,7 +38,7 @@ export default function StatisticsMonthlyList({
           <div className={styles.listRow}>
             <span className={styles.listLabel}>{entry.label}</span>
             <span className={styles.listValue}>
-              {entry.count} {itemLabel === "games" ? "ігр." : "фільм."}
+              {entry.count} {itemLabel === "games" ? "проходж." : "перегл."}
             </span>
           </div>
           <div className={styles.barTrack}>
@@ -7,7 +7,7 @@ import styles from "./StatisticsPage.module.css";
 
 type StatisticsRankedListProps = {
   entries: RankedEntry[];
-  valueLabel: "films" | "games" | "points";
+  valueLabel: "films" | "games" | "points" | "hours";
   emptyMessage: string;
 };
 
@@ -45,7 +45,9 @@ export default function StatisticsRankedList({
                 ? "бал."
                 : valueLabel === "games"
                   ? "ігр."
-                  : "фільм."}
+                  : valueLabel === "hours"
+                    ? "год."
+                    : "фільм."}
             </span>
           </div>
           <div className={styles.barTrack}>
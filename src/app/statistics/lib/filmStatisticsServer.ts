@@ -1,5 +1,10 @@
 import { getSupabaseAdmin } from "@/lib/supabase/admin";
 import { deriveScopeMaturityStatus } from "./scopeReadiness";
+import {
+  buildMonthlySessionEntries,
+  loadViewSessionDatesByViewId,
+  resolveViewSessionDates,
+} from "./viewSessionDates";
 import type {
   FilmMediaType,
   FilmScopeStats,
@@ -9,6 +14,7 @@ import type {
 const RELATED_QUERY_BATCH_SIZE = 200;
 
 type RawStatsRow = {
+  id: string;
   created_at: string | null;
   viewed_at: string | null;
   is_viewed: boolean | null;
@@ -41,6 +47,7 @@ type FilmStatsRow = {
   title: string;
   createdAt: string | null;
   viewedAt: string | null;
+  sessionDates: string[];
   isViewed: boolean;
   rating: number | null;
   viewPercent: number;
@@ -303,32 +310,6 @@ const buildRankedEntries = (
     .slice(0, 5);
 };
 
-const buildMonthlyEntries = (rows: FilmStatsRow[]) => {
-  const aggregate = new Map<string, number>();
-  rows.forEach((row) => {
-    if (!row.viewedAt) return;
-    const date = new Date(row.viewedAt);
-    if (Number.isNaN(date.getTime())) return;
-    const key = `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
-    aggregate.set(key, (aggregate.get(key) ?? 0) + 1);
-  });
-
-  return Array.from(aggregate.entries())
-    .sort(([left], [right]) => right.localeCompare(left))
-    .map(([key, count]) => {
-      const date = new Date(`${key}-01T00:00:00Z`);
-      return {
-        key,
-        count,
-        label: new Intl.DateTimeFormat("uk-UA", {
-          month: "short",
-          year: "numeric",
-          timeZone: "UTC",
-        }).format(date),
-      };
-    });
-};
-
 const buildScopeStats = (rows: FilmStatsRow[], mediaType: FilmMediaType): FilmScopeStats => {
   const now = new Date();
   const completedRows = rows.filter(isCompletedFilm);
@@ -411,7 +392,7 @@ const buildScopeStats = (rows: FilmStatsRow[], mediaType: FilmMediaType): FilmSc
       "viewed",
       canonicalActorHrefByLabel,
     ),
-    monthlyEntries: buildMonthlyEntries(rows.filter((row) => row.isViewed)),
+    monthlyEntries: buildMonthlySessionEntries(rows.filter((row) => row.isViewed)),
   };
 };
 
@@ -425,7 +406,7 @@ export async function loadFilmStatistics(userId: string): Promise<FilmStatistics
     const { data, error } = await supabaseAdmin
       .from("user_views")
       .select(
-        "created_at, viewed_at, is_viewed, rating, view_percent, items:items!inner(id, title, genres, director, actors, film_media_type, type)",
+        "id, created_at, viewed_at, is_viewed, rating, view_percent, items:items!inner(id, title, genres, director, actors, film_media_type, type)",
       )
       .eq("user_id", userId)
       .eq("items.type", "film")
@@ -444,6 +425,10 @@ export async function loadFilmStatistics(userId: string): Promise<FilmStatistics
     const itemIds = chunkRaw
       .map((row) => (Array.isArray(row.items) ? row.items[0]?.id : row.items?.id))
       .filter((itemId): itemId is string => Boolean(itemId));
+    const sessionDatesByViewId = await loadViewSessionDatesByViewId(
+      supabaseAdmin,
+      chunkRaw.map((row) => row.id),
+    );
     const peopleByItemId = new Map<
       string,
       Array<{
@@ -613,6 +598,7 @@ export async function loadFilmStatistics(userId: string): Promise<FilmStatistics
         title: item?.title?.trim() || "Без назви",
         createdAt: row.created_at,
         viewedAt: row.viewed_at,
+        sessionDates: resolveViewSessionDates(row.viewed_at, sessionDatesByViewId.get(row.id)),
         isViewed: Boolean(row.is_viewed),
         rating: row.rating,
         viewPercent: Math.max(0, Math.min(100, row.view_percent ?? 0)),
@@ -1,4 +1,5 @@
 import { buildGenreHref } from "@/lib/genres/routes";
+import { normalizeGameHoursPlayed } from "@/lib/games/gameProgress";
 import { normalizeGamePlatforms } from "@/lib/games/platforms";
 import { getSupabaseAdmin } from "@/lib/supabase/admin";
 import {
@@ -6,6 +7,11 @@ import {
   calculateMedian,
   deriveProfileInterpretation,
 } from "./scopeReadiness";
+import {
+  buildMonthlySessionEntries,
+  loadViewSessionDatesByViewId,
+  resolveViewSessionDates,
+} from "./viewSessionDates";
 import type { GameStatisticsPayload, GlobalSummary } from "../statisticsTypes";
 
 const RELATED_QUERY_BATCH_SIZE = 200;
@@ -29,12 +35,14 @@ const logGameStatisticsDebug = (
 };
 
 type RawStatsRow = {
+  id: string;
   created_at: string | null;
   viewed_at: string | null;
   is_viewed: boolean | null;
   rating: number | null;
   view_percent: number | null;
   platforms: string[] | null;
+  hours_played: number | string | null;
   items:
     | {
         id?: string | null;
@@ -56,10 +64,12 @@ type GameStatsRow = {
   title: string;
   createdAt: string | null;
   viewedAt: string | null;
+  sessionDates: string[];
   isViewed: boolean;
   rating: number | null;
   viewPercent: number;
   platforms: string[];
+  hoursPlayed: number | null;
   genres: string[];
   genreItems: Array<{
     source: "rawg" | "igdb";
@@ -103,7 +113,13 @@ const isAddedInLast30Days = (row: GameStatsRow, now: Date) => {
   return now.getTime() - createdAt.getTime() <= 30 * 24 * 60 * 60 * 1000;
 };
 
-const buildRankedEntries = (rows: GameStatsRow[], mode: "genres" | "platforms") => {
+const countRow = () => 1;
+
+const buildRankedEntries = (
+  rows: GameStatsRow[],
+  mode: "genres" | "platforms",
+  getRowValue: (row: GameStatsRow) => number = countRow,
+) => {
   const aggregate = new Map<
     string,
     { label: string; href?: string; value: number; itemCount: number }
@@ -141,7 +157,7 @@ const buildRankedEntries = (rows: GameStatsRow[], mode: "genres" | "platforms")
       aggregate.set(entry.key, {
         label: current.label,
         href: current.href ?? entry.href,
-        value: current.value + 1,
+        value: current.value + getRowValue(row),
         itemCount: current.itemCount + 1,
       });
     });
@@ -152,7 +168,7 @@ const buildRankedEntries = (rows: GameStatsRow[], mode: "genres" | "platforms")
       key,
       label: entry.label,
       href: entry.href,
-      value: entry.value,
+      value: Math.round(entry.value * 10) / 10,
       itemCount: entry.itemCount,
     }))
     .sort((left, right) => {
@@ -163,32 +179,6 @@ const buildRankedEntries = (rows: GameStatsRow[], mode: "genres" | "platforms")
     .slice(0, 5);
 };
 
-const buildMonthlyEntries = (rows: GameStatsRow[]) => {
-  const aggregate = new Map<string, number>();
-  rows.forEach((row) => {
-    if (!row.viewedAt) return;
-    const date = new Date(row.viewedAt);
-    if (Number.isNaN(date.getTime())) return;
-    const key = `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
-    aggregate.set(key, (aggregate.get(key) ?? 0) + 1);
-  });
-
-  return Array.from(aggregate.entries())
-    .sort(([left], [right]) => right.localeCompare(left))
-    .map(([key, count]) => {
-      const date = new Date(`${key}-01T00:00:00Z`);
-      return {
-        key,
-        count,
-        label: new Intl.DateTimeFormat("uk-UA", {
-          month: "short",
-          year: "numeric",
-          timeZone: "UTC",
-        }).format(date),
-      };
-    });
-};
-
 export async function loadGameStatistics(userId: string): Promise<GameStatisticsPayload> {
   const supabaseAdmin = getSupabaseAdmin();
   const pageSize = 1000;
@@ -256,7 +246,7 @@ export async function loadGameStatistics(userId: string): Promise<GameStatistics
     const { data, error } = await supabaseAdmin
       .from("user_views")
       .select(
-        "created_at, viewed_at, is_viewed, rating, view_percent, platforms, items:items!inner(id, title, genres, type)",
+        "id, created_at, viewed_at, is_viewed, rating, view_percent, platforms, hours_played, items:items!inner(id, title, genres, type)",
       )
       .eq("user_id", userId)
       .eq("items.type", "game")
@@ -284,6 +274,10 @@ export async function loadGameStatistics(userId: string): Promise<GameStatistics
     const itemIds = chunkRaw
       .map((row) => (Array.isArray(row.items) ? row.items[0]?.id : row.items?.id))
       .filter((itemId): itemId is string => Boolean(itemId));
+    const sessionDatesByViewId = await loadViewSessionDatesByViewId(
+      supabaseAdmin,
+      chunkRaw.map((row) => row.id),
+    );
     const genresByItemId = new Map<
       string,
       Array<{
@@ -400,10 +394,12 @@ export async function loadGameStatistics(userId: string): Promise<GameStatistics
         title: item?.title?.trim() || "Без назви",
         createdAt: row.created_at,
         viewedAt: row.viewed_at,
+        sessionDates: resolveViewSessionDates(row.viewed_at, sessionDatesByViewId.get(row.id)),
         isViewed: Boolean(row.is_viewed),
         rating: row.rating,
         viewPercent: Math.max(0, Math.min(100, row.view_percent ?? 0)),
         platforms: normalizeGamePlatforms(row.platforms),
+        hoursPlayed: normalizeGameHoursPlayed(row.hours_played),
         genres: normalizeGenres(item?.genres),
         genreItems:
           itemId && (genresByItemId.get(itemId)?.length ?? 0) > 0
@@ -505,7 +501,7 @@ export async function loadGameStatistics(userId: string): Promise<GameStatistics
         topLikedGenres: buildRankedEntries(platformLikedRows, "genres"),
         topDislikedGenres: buildRankedEntries(platformDislikedRows, "genres"),
         topDroppedGenres: buildRankedEntries(platformDroppedRows, "genres"),
-        monthlyEntries: buildMonthlyEntries(platformEngagedRows),
+        monthlyEntries: buildMonthlySessionEntries(platformEngagedRows),
       });
     })
     .sort((left, right) => {
@@ -516,6 +512,16 @@ export async function loadGameStatistics(userId: string): Promise<GameStatistics
       return left.scopeValue.localeCompare(right.scopeValue, "uk");
     });
 
+  const playtimeRows = collected.filter((row) => (row.hoursPlayed ?? 0) > 0);
+  const getHoursPlayed = (row: GameStatsRow) => row.hoursPlayed ?? 0;
+  const playtime = {
+    totalHours:
+      Math.round(playtimeRows.reduce((sum, row) => sum + getHoursPlayed(row), 0) * 10) / 10,
+    trackedTitles: playtimeRows.length,
+    hoursByPlatform: buildRankedEntries(playtimeRows, "platforms", getHoursPlayed),
+    hoursByGenre: buildRankedEntries(playtimeRows, "genres", getHoursPlayed),
+  };
+
   const interpretation = deriveProfileInterpretation("platform", scopeEntries);
   summary.numberOfWorkingScopes = interpretation.workingScopes.length;
   summary.profileType = interpretation.profileType;
@@ -533,5 +539,6 @@ export async function loadGameStatistics(userId: string): Promise<GameStatistics
     summary,
     scopeEntries,
     interpretation,
+    playtime,
   };
 }
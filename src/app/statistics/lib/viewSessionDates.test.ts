@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { buildMonthlySessionEntries, resolveViewSessionDates } from "./viewSessionDates";
+
+describe("view session dates", () => {
+  it("counts every rewatch in the month it happened", () => {
+    const entries = buildMonthlySessionEntries([
+      {
+        sessionDates: [
+          "2026-01-05T10:00:00Z",
+          "2026-01-20T10:00:00Z",
+          "2026-03-01T10:00:00Z",
+        ],
+      },
+      { sessionDates: ["2026-01-31T23:30:00Z"] },
+      { sessionDates: ["not a date"] },
+    ]);
+
+    expect(entries.map(({ key, count }) => ({ key, count }))).toEqual([
+      { key: "2026-03", count: 1 },
+      { key: "2026-01", count: 3 },
+    ]);
+  });
+
+  it("falls back to the entry's own date when it has no sessions", () => {
+    expect(resolveViewSessionDates("2025-05-01T00:00:00Z", undefined)).toEqual([
+      "2025-05-01T00:00:00Z",
+    ]);
+    expect(resolveViewSessionDates("2025-05-01T00:00:00Z", [])).toEqual([
+      "2025-05-01T00:00:00Z",
+    ]);
+    expect(resolveViewSessionDates(null, undefined)).toEqual([]);
+    expect(
+      resolveViewSessionDates("2025-05-01T00:00:00Z", [
+        "2025-05-01T00:00:00Z",
+        "2026-02-01T00:00:00Z",
+      ]),
+    ).toHaveLength(2);
+  });
+});
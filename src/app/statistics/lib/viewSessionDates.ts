@@ -0,0 +1,90 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const VIEW_SESSION_BATCH_SIZE = 200;
+const VIEW_SESSION_PAGE_SIZE = 1000;
+
+type ViewSessionDateRow = {
+  view_id: string | null;
+  viewed_at: string | null;
+};
+
+export async function loadViewSessionDatesByViewId(
+  supabaseAdmin: SupabaseClient,
+  viewIds: string[],
+) {
+  const datesByViewId = new Map<string, string[]>();
+
+  for (let offset = 0; offset < viewIds.length; offset += VIEW_SESSION_BATCH_SIZE) {
+    const viewIdBatch = viewIds.slice(offset, offset + VIEW_SESSION_BATCH_SIZE);
+    let from = 0;
+
+    while (true) {
+      const { data, error } = await supabaseAdmin
+        .from("user_view_sessions")
+        .select("view_id, viewed_at")
+        .in("view_id", viewIdBatch)
+        .order("viewed_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + VIEW_SESSION_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(error.message || "Не вдалося завантажити сесії переглядів.");
+      }
+
+      const rows = (data ?? []) as ViewSessionDateRow[];
+      rows.forEach((row) => {
+        if (!row.view_id || !row.viewed_at) return;
+        const current = datesByViewId.get(row.view_id) ?? [];
+        current.push(row.viewed_at);
+        datesByViewId.set(row.view_id, current);
+      });
+
+      if (rows.length < VIEW_SESSION_PAGE_SIZE) {
+        break;
+      }
+      from += VIEW_SESSION_PAGE_SIZE;
+    }
+  }
+
+  return datesByViewId;
+}
+
+// Entries saved before sessions existed (or whose sessions were all removed)
+// still count once, by their own viewed_at.
+export const resolveViewSessionDates = (
+  viewedAt: string | null,
+  sessionDates: string[] | undefined,
+) => {
+  if (sessionDates && sessionDates.length > 0) {
+    return sessionDates;
+  }
+  return viewedAt ? [viewedAt] : [];
+};
+
+/** Views per month, newest month first; every session (rewatch) counts separately. */
+export const buildMonthlySessionEntries = (rows: Array<{ sessionDates: string[] }>) => {
+  const aggregate = new Map<string, number>();
+  rows.forEach((row) => {
+    row.sessionDates.forEach((sessionDate) => {
+      const date = new Date(sessionDate);
+      if (Number.isNaN(date.getTime())) return;
+      const key = `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+      aggregate.set(key, (aggregate.get(key) ?? 0) + 1);
+    });
+  });
+
+  return Array.from(aggregate.entries())
+    .sort(([left], [right]) => right.localeCompare(left))
+    .map(([key, count]) => {
+      const date = new Date(`${key}-01T00:00:00Z`);
+      return {
+        key,
+        count,
+        label: new Intl.DateTimeFormat("uk-UA", {
+          month: "short",
+          year: "numeric",
+          timeZone: "UTC",
+        }).format(date),
+      };
+    });
+};
@@ -153,11 +153,20 @@ export type GameStatisticsExportRow = {
   viewedAt: string | null;
 };
 
+export type GamePlaytimeSummary = {
+  totalHours: number;
+  trackedTitles: number;
+  hoursByPlatform: RankedEntry[];
+  hoursByGenre: RankedEntry[];
+};
+
 export type GameStatisticsPayload = {
   exportRows: GameStatisticsExportRow[];
   summary: GlobalSummary;
   scopeEntries: ScopeBreakdownEntry[];
   interpretation: ProfileInterpretation;
+  /** Missing in snapshots built before playtime tracking. */
+  playtime?: GamePlaytimeSummary;
 };
 
 export type StatisticsSnapshotState = {
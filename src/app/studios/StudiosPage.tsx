@@ -0,0 +1,193 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import CatalogLayout from "@/components/catalog/CatalogLayout";
+import {
+  GAME_COMPANY_ROLE_LABELS,
+  ITEM_COMPANY_SELECT,
+  aggregateStudioStats,
+  averageRating,
+  buildStudioHref,
+  toStudioCompanyRows,
+  type StudioCollectionStat,
+  type StudioItemStat,
+} from "@/lib/games/companies";
+import { supabase } from "@/lib/supabase/client";
+import styles from "@/app/actors/ActorsPage.module.css";
+
+export default function StudiosPage() {
+  const [studios, setStudios] = useState<StudioCollectionStat[]>([]);
+  const [message, setMessage] = useState("Завантаження студій…");
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    void (async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        if (!isCancelled) {
+          setStudios([]);
+          setMessage("Потрібна авторизація.");
+        }
+        return;
+      }
+
+      const { data: viewsData, error: viewsError } = await supabase
+        .from("user_views")
+        .select("item_id, is_viewed, rating, items!inner(type)")
+        .eq("user_id", user.id)
+        .eq("items.type", "game");
+
+      if (viewsError) {
+        if (!isCancelled) {
+          setStudios([]);
+          setMessage("Не вдалося завантажити студії.");
+        }
+        return;
+      }
+
+      const itemStats = new Map<string, StudioItemStat>();
+      ((viewsData ?? []) as Array<{
+        item_id?: string | null;
+        is_viewed?: boolean | null;
+        rating?: number | null;
+      }>).forEach((row) => {
+        if (!row.item_id) {
+          return;
+        }
+        itemStats.set(row.item_id, {
+          isViewed: Boolean(row.is_viewed),
+          rating: row.rating ?? null,
+        });
+      });
+
+      const itemIds = [...itemStats.keys()];
+      if (itemIds.length === 0) {
+        if (!isCancelled) {
+          setStudios([]);
+          setMessage("У колекції ще немає ігор.");
+        }
+        return;
+      }
+
+      const { data: companyRows, error: companyError } = await supabase
+        .from("item_companies")
+        .select(ITEM_COMPANY_SELECT)
+        .in("item_id", itemIds);
+
+      if (companyError) {
+        if (!isCancelled) {
+          setStudios([]);
+          setMessage("Не вдалося завантажити студії.");
+        }
+        return;
+      }
+
+      const nextStudios = aggregateStudioStats(toStudioCompanyRows(companyRows), itemStats);
+
+      if (!isCancelled) {
+        setStudios(nextStudios);
+        setMessage(
+          nextStudios.length > 0
+            ? ""
+            : "Студії з’являться, щойно ти додаси гру з IGDB до колекції.",
+        );
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const stats = useMemo(() => {
+    const ratings = studios
+      .map((entry) => entry.averageRating)
+      .filter((value): value is number => value !== null);
+    return {
+      totalStudios: studios.length,
+      developers: studios.filter((entry) => entry.roles.includes("developer")).length,
+      publishers: studios.filter((entry) => entry.roles.includes("publisher")).length,
+      averageAcrossStudios: averageRating(ratings),
+    };
+  }, [studios]);
+
+  return (
+    <CatalogLayout
+      title="Студії"
+      headerRight={
+        <Link href="/statistics" className="btnBase btnSecondary">
+          До статистики
+        </Link>
+      }
+    >
+      <div className={styles.content}>
+        {message ? <p className={styles.message}>{message}</p> : null}
+
+        {studios.length > 0 ? (
+          <>
+            <section className={styles.section}>
+              <div className={styles.kpiGrid}>
+                <div className={styles.kpiCard}>
+                  <span className={styles.kpiLabel}>Студій у колекції</span>
+                  <span className={styles.kpiValue}>{stats.totalStudios}</span>
+                </div>
+                <div className={styles.kpiCard}>
+                  <span className={styles.kpiLabel}>Розробники / видавці</span>
+                  <span className={styles.kpiValue}>
+                    {stats.developers} / {stats.publishers}
+                  </span>
+                </div>
+                <div className={styles.kpiCard}>
+                  <span className={styles.kpiLabel}>Середня оцінка студій</span>
+                  <span className={styles.kpiValue}>
+                    {stats.averageAcrossStudios !== null
+                      ? stats.averageAcrossStudios.toFixed(1)
+                      : "—"}
+                  </span>
+                </div>
+              </div>
+            </section>
+
+            <section className={styles.section}>
+              <div className={styles.sectionHeader}>
+                <h2 className={styles.sectionTitle}>Студії та видавці</h2>
+                <span className={styles.sectionMeta}>{studios.length}</span>
+              </div>
+              <div className={styles.results}>
+                {studios.map((studio) => (
+                  <Link
+                    key={studio.sourceCompanyId}
+                    href={buildStudioHref(studio.sourceCompanyId)}
+                    className={styles.personCard}
+                  >
+                    <article className={styles.resultCard}>
+                      <div className={styles.resultBody}>
+                        <div className={styles.resultHeader}>
+                          <h3 className={styles.resultTitle}>{studio.name}</h3>
+                        </div>
+                        <p className={styles.resultMeta}>
+                          {studio.roles.map((role) => GAME_COMPANY_ROLE_LABELS[role]).join(" • ")}
+                        </p>
+                        <p className={styles.resultMeta}>Ігор: {studio.totalTitles}</p>
+                        <p className={styles.resultMeta}>Пройдено: {studio.playedTitles}</p>
+                        <p className={styles.resultMeta}>
+                          Середня оцінка:{" "}
+                          {studio.averageRating !== null ? studio.averageRating.toFixed(1) : "—"}
+                        </p>
+                      </div>
+                    </article>
+                  </Link>
+                ))}
+              </div>
+            </section>
+          </>
+        ) : null}
+      </div>
+    </CatalogLayout>
+  );
+}
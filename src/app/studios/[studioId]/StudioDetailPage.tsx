@@ -0,0 +1,340 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import CatalogLayout from "@/components/catalog/CatalogLayout";
+import searchStyles from "@/components/catalog/CatalogSearch.module.css";
+import { buildGameViewHref } from "@/lib/catalog/edit/routes";
+import {
+  GAME_COMPANY_ROLE_LABELS,
+  averageRating,
+  type GameCompanyRole,
+} from "@/lib/games/companies";
+import { supabase } from "@/lib/supabase/client";
+import styles from "@/app/actors/ActorsPage.module.css";
+
+type StudioRecord = {
+  id: string;
+  name: string;
+  logoUrl: string | null;
+};
+
+type StudioGameEntry = {
+  itemId: string;
+  viewId: string;
+  title: string;
+  posterUrl: string | null;
+  year: number | null;
+  rating: number | null;
+  isViewed: boolean;
+  roles: GameCompanyRole[];
+};
+
+const ALLOWED_GAME_IMAGE_HOSTS = new Set(["images.igdb.com", "media.rawg.io"]);
+
+const toImageUrl = (value?: string | null) => {
+  if (!value) {
+    return null;
+  }
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === "https:" && ALLOWED_GAME_IMAGE_HOSTS.has(parsed.hostname)
+      ? parsed.toString()
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+function StudioGamesSection({
+  title,
+  entries,
+  emptyMessage,
+}: {
+  title: string;
+  entries: StudioGameEntry[];
+  emptyMessage: string;
+}) {
+  return (
+    <section className={styles.section}>
+      <div className={styles.sectionHeader}>
+        <h2 className={styles.sectionTitle}>{title}</h2>
+        <span className={styles.sectionMeta}>{entries.length}</span>
+      </div>
+      {entries.length > 0 ? (
+        <div className={searchStyles.results}>
+          {entries.map((entry) => {
+            const posterUrl = toImageUrl(entry.posterUrl);
+            return (
+              <Link
+                key={entry.viewId}
+                href={buildGameViewHref(entry.viewId)}
+                className={`${searchStyles.resultItem} ${searchStyles.resultButton} ${searchStyles.collectionItem}`}
+              >
+                <div className={searchStyles.resultHeader}>
+                  <div className={searchStyles.titleRow}>
+                    <h3 className={searchStyles.resultTitle}>{entry.title}</h3>
+                    <div className={searchStyles.ratingRow}>
+                      <span className={searchStyles.resultRating}>
+                        Мій: {entry.rating ?? "—"}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+                <div className={searchStyles.posterWrapper}>
+                  {posterUrl ? (
+                    <Image
+                      src={posterUrl}
+                      alt={entry.title}
+                      width={180}
+                      height={270}
+                      className={searchStyles.poster}
+                    />
+                  ) : (
+                    <div className={searchStyles.posterPlaceholder}>Без постера</div>
+                  )}
+                </div>
+                <div className={searchStyles.resultContent}>
+                  <p className={searchStyles.resultMeta}>
+                    Рік: {entry.year ?? "—"} ·{" "}
+                    {entry.roles.map((role) => GAME_COMPANY_ROLE_LABELS[role]).join(" • ")}
+                  </p>
+                  <div className={searchStyles.userMeta}>
+                    <span>Пройдено: {entry.isViewed ? "так" : "ні"}</span>
+                  </div>
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      ) : (
+        <p className={styles.emptyBox}>{emptyMessage}</p>
+      )}
+    </section>
+  );
+}
+
+export default function StudioDetailPage({ sourceCompanyId }: { sourceCompanyId: string }) {
+  const [studio, setStudio] = useState<StudioRecord | null>(null);
+  const [games, setGames] = useState<StudioGameEntry[]>([]);
+  const [message, setMessage] = useState("Завантаження студії…");
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    void (async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        if (!isCancelled) {
+          setMessage("Потрібна авторизація.");
+        }
+        return;
+      }
+
+      const { data: companyData, error: companyError } = await supabase
+        .from("companies")
+        .select("id, name, logo_url")
+        .eq("source", "igdb")
+        .eq("source_company_id", sourceCompanyId)
+        .maybeSingle();
+
+      if (companyError || !companyData) {
+        if (!isCancelled) {
+          setStudio(null);
+          setGames([]);
+          setMessage(companyError ? "Не вдалося завантажити студію." : "Студію не знайдено.");
+        }
+        return;
+      }
+
+      const company = companyData as { id: string; name: string; logo_url: string | null };
+
+      const { data: linkData, error: linkError } = await supabase
+        .from("item_companies")
+        .select("item_id, role_kind")
+        .eq("company_id", company.id);
+
+      if (linkError) {
+        if (!isCancelled) {
+          setMessage("Не вдалося завантажити ігри студії.");
+        }
+        return;
+      }
+
+      const rolesByItemId = new Map<string, Set<GameCompanyRole>>();
+      ((linkData ?? []) as Array<{ item_id?: string | null; role_kind?: string | null }>).forEach(
+        (row) => {
+          if (!row.item_id || (row.role_kind !== "developer" && row.role_kind !== "publisher")) {
+            return;
+          }
+          const roles = rolesByItemId.get(row.item_id) ?? new Set<GameCompanyRole>();
+          roles.add(row.role_kind);
+          rolesByItemId.set(row.item_id, roles);
+        },
+      );
+
+      const itemIds = [...rolesByItemId.keys()];
+      let nextGames: StudioGameEntry[] = [];
+
+      if (itemIds.length > 0) {
+        const { data: viewsData, error: viewsError } = await supabase
+          .from("user_views")
+          .select("id, item_id, rating, is_viewed, items!inner(title, poster_url, year)")
+          .eq("user_id", user.id)
+          .in("item_id", itemIds);
+
+        if (viewsError) {
+          if (!isCancelled) {
+            setMessage("Не вдалося завантажити ігри студії.");
+          }
+          return;
+        }
+
+        nextGames = ((viewsData ?? []) as Array<{
+          id: string;
+          item_id: string;
+          rating?: number | null;
+          is_viewed?: boolean | null;
+          items:
+            | { title?: string | null; poster_url?: string | null; year?: number | null }
+            | Array<{ title?: string | null; poster_url?: string | null; year?: number | null }>
+            | null;
+        }>)
+          .map((row) => {
+            const item = Array.isArray(row.items) ? row.items[0] : row.items;
+            return {
+              itemId: row.item_id,
+              viewId: row.id,
+              title: item?.title ?? "Без назви",
+              posterUrl: item?.poster_url ?? null,
+              year: item?.year ?? null,
+              rating: row.rating ?? null,
+              isViewed: Boolean(row.is_viewed),
+              roles: (["developer", "publisher"] as const).filter((role) =>
+                rolesByItemId.get(row.item_id)?.has(role),
+              ),
+            };
+          })
+          .sort((left, right) => (right.year ?? 0) - (left.year ?? 0));
+      }
+
+      if (!isCancelled) {
+        setStudio({ id: company.id, name: company.name, logoUrl: company.logo_url });
+        setGames(nextGames);
+        setMessage(nextGames.length > 0 ? "" : "У твоїй колекції ще немає ігор цієї студії.");
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [sourceCompanyId]);
+
+  const stats = useMemo(() => {
+    const ratings = games
+      .map((entry) => entry.rating)
+      .filter((value): value is number => value !== null);
+    const roleAverage = (role: GameCompanyRole) =>
+      averageRating(
+        games
+          .filter((entry) => entry.roles.includes(role) && entry.rating !== null)
+          .map((entry) => entry.rating ?? 0),
+      );
+    return {
+      inCollection: games.length,
+      played: games.filter((entry) => entry.isViewed).length,
+      average: averageRating(ratings),
+      developerAverage: roleAverage("developer"),
+      publisherAverage: roleAverage("publisher"),
+    };
+  }, [games]);
+
+  const developedGames = useMemo(
+    () => games.filter((entry) => entry.roles.includes("developer")),
+    [games],
+  );
+  const publishedGames = useMemo(
+    () => games.filter((entry) => entry.roles.includes("publisher")),
+    [games],
+  );
+  const logoUrl = toImageUrl(studio?.logoUrl);
+
+  return (
+    <CatalogLayout
+      title={studio?.name ?? "Студія"}
+      headerRight={
+        <Link href="/studios" className="btnBase btnSecondary">
+          Усі студії
+        </Link>
+      }
+    >
+      <div className={styles.content}>
+        {message ? <p className={styles.message}>{message}</p> : null}
+
+        {studio ? (
+          <>
+            <section className={styles.hero}>
+              <div className={styles.heroMedia}>
+                {logoUrl ? (
+                  <Image
+                    src={logoUrl}
+                    alt={studio.name}
+                    width={284}
+                    height={160}
+                    className={styles.heroImage}
+                  />
+                ) : (
+                  <div className={styles.heroPlaceholder}>Логотип недоступний</div>
+                )}
+              </div>
+              <div className={styles.heroContent}>
+                <div className={styles.kpiGrid}>
+                  <div className={styles.kpiCard}>
+                    <span className={styles.kpiLabel}>У колекції</span>
+                    <span className={styles.kpiValue}>{stats.inCollection}</span>
+                  </div>
+                  <div className={styles.kpiCard}>
+                    <span className={styles.kpiLabel}>Пройдено</span>
+                    <span className={styles.kpiValue}>{stats.played}</span>
+                  </div>
+                  <div className={styles.kpiCard}>
+                    <span className={styles.kpiLabel}>Середня моя оцінка</span>
+                    <span className={styles.kpiValue}>
+                      {stats.average !== null ? stats.average.toFixed(1) : "—"}
+                    </span>
+                  </div>
+                </div>
+
+                <div className={styles.metaList}>
+                  <p className={styles.metaItem}>
+                    Як розробник:{" "}
+                    {stats.developerAverage !== null ? stats.developerAverage.toFixed(1) : "—"}
+                  </p>
+                  <p className={styles.metaItem}>
+                    Як видавець:{" "}
+                    {stats.publisherAverage !== null ? stats.publisherAverage.toFixed(1) : "—"}
+                  </p>
+                </div>
+              </div>
+            </section>
+
+            <StudioGamesSection
+              title="Розробка"
+              entries={developedGames}
+              emptyMessage="Немає ігор, розроблених цією студією."
+            />
+            <StudioGamesSection
+              title="Видання"
+              entries={publishedGames}
+              emptyMessage="Немає ігор, виданих цією студією."
+            />
+          </>
+        ) : null}
+      </div>
+    </CatalogLayout>
+  );
+}
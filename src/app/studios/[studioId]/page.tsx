@@ -0,0 +1,10 @@
+import StudioDetailPage from "./StudioDetailPage";
+
+export default async function StudioPage({
+  params,
+}: {
+  params: Promise<{ studioId: string }>;
+}) {
+  const { studioId } = await params;
+  return <StudioDetailPage sourceCompanyId={studioId} />;
+}
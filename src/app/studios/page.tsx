@@ -0,0 +1,5 @@
+import StudiosPage from "./StudiosPage";
+
+export default function StudiosRoutePage() {
+  return <StudiosPage />;
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useState } from "react";
+import CatalogLayout from "@/components/catalog/CatalogLayout";
+import type { PublicProfilePayload, PublicProfileTitle } from "@/lib/users/publicProfile";
+import styles from "./PublicProfilePage.module.css";
+
+type PublicProfilePageProps = {
+  username: string;
+};
+
+const formatRating = (value: number | null) =>
+  typeof value === "number" ? value.toFixed(1) : "—";
+
+function PublicTitleGrid({
+  titles,
+  emptyMessage,
+}: {
+  titles: PublicProfileTitle[];
+  emptyMessage: string;
+}) {
+  if (titles.length === 0) {
+    return <p className={styles.empty}>{emptyMessage}</p>;
+  }
+
+  return (
+    <div className={styles.titleGrid}>
+      {titles.map((title, index) => (
+        <div key={`${title.mediaKind}:${title.title}:${index}`} className={styles.titleCard}>
+          {title.posterUrl ? (
+            <Image
+              className={styles.poster}
+              src={title.posterUrl}
+              alt={`Постер ${title.title}`}
+              width={96}
+              height={140}
+              unoptimized
+            />
+          ) : (
+            <div className={styles.posterPlaceholder}>Без постера</div>
+          )}
+          <span className={styles.titleName}>{title.title}</span>
+          <span className={styles.titleMeta}>
+            {[title.year, title.rating !== null ? `★ ${formatRating(title.rating)}` : null]
+              .filter(Boolean)
+              .join(" · ")}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function PublicProfilePage({ username }: PublicProfilePageProps) {
+  const [profile, setProfile] = useState<PublicProfilePayload | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    let isCancelled = false;
+    void (async () => {
+      try {
+        const response = await fetch(`/api/public-profile/${encodeURIComponent(username)}`);
+        const data = (await response.json()) as PublicProfilePayload & { error?: string };
+        if (isCancelled) return;
+        if (!response.ok) {
+          setMessage(
+            response.status === 404
+              ? "Профіль не знайдено або він закритий."
+              : data.error ?? "Не вдалося завантажити профіль.",
+          );
+          return;
+        }
+        setProfile(data);
+      } catch {
+        if (!isCancelled) {
+          setMessage("Не вдалося завантажити профіль.");
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [username]);
+
+  const films = profile?.statistics?.films ?? null;
+  const games = profile?.statistics?.games ?? null;
+
+  return (
+    <CatalogLayout title={profile?.username ?? username} showBrandLogo>
+      {isLoading ? <p className={styles.empty}>Завантаження...</p> : null}
+      {message ? <p className={styles.empty}>{message}</p> : null}
+      {profile?.statistics ? (
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Статистика</h2>
+          <div className={styles.kpiGrid}>
+            {films ? (
+              <>
+                <div className={styles.kpiCard}>
+                  <span className={styles.kpiLabel}>Фільмів і серіалів</span>
+                  <strong className={styles.kpiValue}>{films.totalTitles}</strong>
+                </div>
+                <div className={styles.kpiCard}>
+                  <span className={styles.kpiLabel}>Переглянуто</span>
+                  <strong className={styles.kpiValue}>{films.watchedTitles}</strong>
+                </div>
+                <div className={styles.kpiCard}>
+                  <span className={styles.kpiLabel}>Середня оцінка фільмів</span>
+                  <strong className={styles.kpiValue}>{formatRating(films.averageRating)}</strong>
+                </div>
+              </>
+            ) : null}
+            {games ? (
+              <>
+                <div className={styles.kpiCard}>
+                  <span className={styles.kpiLabel}>Ігор</span>
+                  <strong className={styles.kpiValue}>{games.totalTitles}</strong>
+                </div>
+                <div className={styles.kpiCard}>
+                  <span className={styles.kpiLabel}>Повністю зіграно</span>
+                  <strong className={styles.kpiValue}>{games.completedTitles}</strong>
+                </div>
+                <div className={styles.kpiCard}>
+                  <span className={styles.kpiLabel}>Середня оцінка ігор</span>
+                  <strong className={styles.kpiValue}>{formatRating(games.averageRating)}</strong>
+                </div>
+                {games.totalHours ? (
+                  <div className={styles.kpiCard}>
+                    <span className={styles.kpiLabel}>Годин у грі</span>
+                    <strong className={styles.kpiValue}>{games.totalHours}</strong>
+                  </div>
+                ) : null}
+              </>
+            ) : null}
+          </div>
+          {!films && !games ? (
+            <p className={styles.empty}>Статистика ще не сформована.</p>
+          ) : null}
+        </section>
+      ) : null}
+      {profile?.topRated ? (
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Найвищі оцінки: фільми</h2>
+          <PublicTitleGrid titles={profile.topRated.films} emptyMessage="Ще немає оцінених фільмів." />
+          <h2 className={styles.sectionTitle}>Найвищі оцінки: ігри</h2>
+          <PublicTitleGrid titles={profile.topRated.games} emptyMessage="Ще немає оцінених ігор." />
+        </section>
+      ) : null}
+      {profile?.lists && profile.lists.length > 0 ? (
+        <section className={styles.section}>
+          {profile.lists.map((list) => (
+            <div key={list.id} className={styles.list}>
+              <h2 className={styles.sectionTitle}>{list.name}</h2>
+              <PublicTitleGrid titles={list.entries} emptyMessage="Список порожній." />
+            </div>
+          ))}
+        </section>
+      ) : null}
+    </CatalogLayout>
+  );
+}
@@ -0,0 +1,15 @@
+import { notFound } from "next/navigation";
+import { parsePublicProfileUsernameParam } from "@/lib/users/publicProfile";
+import PublicProfilePage from "./PublicProfilePage";
+
+export default async function PublicProfileRoute({
+  params,
+}: {
+  params: Promise<{ username: string }>;
+}) {
+  const username = parsePublicProfileUsernameParam((await params).username);
+  if (!username) {
+    notFound();
+  }
+  return <PublicProfilePage username={username} />;
+}
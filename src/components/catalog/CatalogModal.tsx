@@ -13,6 +13,16 @@ import Image from "next/image";
 import { createPortal } from "react-dom";
 import { useSnackbar } from "@/components/ui/SnackbarProvider";
 import type { PosterMenuAction } from "@/lib/collection/serviceSearchLinks";
+import {
+  EMPTY_GAME_PROGRESS,
+  GAME_COMPLETION_STATUSES,
+  GAME_COMPLETION_STATUS_LABELS,
+  getGameProgressValidationError,
+  normalizeGameCompletionStatus,
+  normalizeGameHoursPlayed,
+  type GameCompletionStatus,
+  type GameProgressInput,
+} from "@/lib/games/gameProgress";
 import {
   stripShishkaAssessmentFromComment,
   type ShishkaFitAssessment,
@@ -38,6 +48,7 @@ type CatalogModalProps = {
     platforms: string[];
     availability: string | null;
     shishkaFitAssessment: ShishkaFitAssessment | null;
+    gameProgress: GameProgressInput | null;
   }) => Promise<void>;
   onDelete?: () => Promise<void>;
   onRefresh?: () => Promise<void>;
@@ -51,9 +62,11 @@ type CatalogModalProps = {
     platforms: string[];
     availability: string | null;
     shishkaFitAssessment: ShishkaFitAssessment | null;
+    gameProgress: GameProgressInput | null;
   }) => Promise<ShishkaFitAssessment>;
   onPersistEvaluatedAssessment?: (assessment: ShishkaFitAssessment) => Promise<void>;
   extraActions?: React.ReactNode;
+  extraContent?: React.ReactNode;
   previewAction?: {
     label: string;
     onClick: () => void;
@@ -73,6 +86,7 @@ type CatalogModalProps = {
     platforms?: string[] | null;
     availability?: string | null;
     shishkaFitAssessment?: ShishkaFitAssessment | null;
+    gameProgress?: GameProgressInput | null;
   };
   submitLabel?: string;
   onReadOnlyPrimaryAction?: () => Promise<void> | void;
@@ -81,6 +95,7 @@ type CatalogModalProps = {
   readOnlyPrimarySuccessMessage?: string | null;
   readOnlyPrimaryCloses?: boolean;
   showRecommendSimilar?: boolean;
+  showGameProgress?: boolean;
   children:
     | React.ReactNode
     | ((context: {
@@ -95,6 +110,13 @@ type FitPopoverPlacement = {
 
 type ConfirmAction = "delete" | "discard";
 
+type GameProgressDraft = {
+  hoursPlayed: string;
+  completionStatus: GameCompletionStatus | "";
+  startedAt: string;
+  finishedAt: string;
+};
+
 const RATING_MIN = 1;
 const RATING_MAX = 5;
 const RATING_STEP = 0.5;
@@ -118,6 +140,20 @@ const normalizeViewPercent = (value: number) => {
   return Math.min(VIEW_PERCENT_MAX, Math.max(VIEW_PERCENT_MIN, rounded));
 };
 
+const toGameProgressDraft = (progress: GameProgressInput): GameProgressDraft => ({
+  hoursPlayed: progress.hoursPlayed === null ? "" : String(progress.hoursPlayed),
+  completionStatus: progress.completionStatus ?? "",
+  startedAt: progress.startedAt ?? "",
+  finishedAt: progress.finishedAt ?? "",
+});
+
+const fromGameProgressDraft = (draft: GameProgressDraft): GameProgressInput => ({
+  hoursPlayed: normalizeGameHoursPlayed(draft.hoursPlayed),
+  completionStatus: normalizeGameCompletionStatus(draft.completionStatus),
+  startedAt: draft.startedAt || null,
+  finishedAt: draft.finishedAt || null,
+});
+
 export default function CatalogModal({
   title,
   posterUrl,
@@ -129,6 +165,7 @@ export default function CatalogModal({
   onEvaluate,
   onPersistEvaluatedAssessment,
   extraActions,
+  extraContent,
   previewAction,
   previewMenuAction,
   fitTargetText = "цей тайтл",
@@ -145,6 +182,7 @@ export default function CatalogModal({
   readOnlyPrimarySuccessMessage = "Додано",
   readOnlyPrimaryCloses = true,
   showRecommendSimilar = true,
+  showGameProgress = false,
   children,
 }: CatalogModalProps) {
   const { showSnackbar } = useSnackbar();
@@ -166,6 +204,9 @@ export default function CatalogModal({
   const initialViewPercent = initialValues?.viewPercent;
   const initialAvailability = initialValues?.availability;
   const initialShishkaFitAssessment = initialValues?.shishkaFitAssessment ?? null;
+  const initialGameProgressKey = JSON.stringify(
+    fromGameProgressDraft(toGameProgressDraft(initialValues?.gameProgress ?? EMPTY_GAME_PROGRESS)),
+  );
   const initialShishkaFitAssessmentKey = useMemo(
     () =>
       initialShishkaFitAssessment
@@ -206,6 +247,9 @@ export default function CatalogModal({
   const [viewPercentInput, setViewPercentInput] = useState("100");
   const [platforms, setPlatforms] = useState<string[]>([]);
   const [availability, setAvailability] = useState<string | null>(null);
+  const [gameProgressDraft, setGameProgressDraft] = useState<GameProgressDraft>(() =>
+    toGameProgressDraft(EMPTY_GAME_PROGRESS),
+  );
   const [shishkaFitAssessment, setShishkaFitAssessment] =
     useState<ShishkaFitAssessment | null>(null);
   const [isSaving, setIsSaving] = useState(false);
@@ -248,6 +292,7 @@ export default function CatalogModal({
       setViewPercentInput("100");
       setPlatforms([]);
       setAvailability(null);
+      setGameProgressDraft(toGameProgressDraft(EMPTY_GAME_PROGRESS));
       setIsFitPopoverOpen(false);
       return;
     }
@@ -270,11 +315,15 @@ export default function CatalogModal({
     setViewPercentInput(String(normalizedInitialViewPercent));
     setPlatforms(initialPlatformsKey ? initialPlatformsKey.split("|") : []);
     setAvailability(initialAvailability ?? null);
+    setGameProgressDraft(
+      toGameProgressDraft(JSON.parse(initialGameProgressKey) as GameProgressInput),
+    );
     setIsFitPopoverOpen(false);
   }, [
     isEditMode,
     today,
     initialAvailability,
+    initialGameProgressKey,
     normalizedInitialComment,
     initialIsViewed,
     initialRating,
@@ -317,12 +366,16 @@ export default function CatalogModal({
       rating !== (initialRating ?? null) ||
       viewPercent !== normalizeViewPercent(initialViewPercent ?? 100) ||
       currentPlatformsKey !== initialPlatformsKey ||
-      availability !== (initialAvailability ?? null)
+      availability !== (initialAvailability ?? null) ||
+      (showGameProgress &&
+        JSON.stringify(fromGameProgressDraft(gameProgressDraft)) !== initialGameProgressKey)
     );
   }, [
     availability,
     comment,
+    gameProgressDraft,
     initialAvailability,
+    initialGameProgressKey,
     normalizedInitialComment,
     initialIsViewed,
     initialPlatformsKey,
@@ -336,6 +389,7 @@ export default function CatalogModal({
     rating,
     readOnly,
     recommendSimilar,
+    showGameProgress,
     today,
     viewPercent,
     viewedAt,
@@ -656,6 +710,13 @@ export default function CatalogModal({
       return;
     }
 
+    const gameProgress = showGameProgress ? fromGameProgressDraft(gameProgressDraft) : null;
+    const gameProgressError = gameProgress ? getGameProgressValidationError(gameProgress) : null;
+    if (gameProgressError) {
+      setSaveError(gameProgressError);
+      return;
+    }
+
     setIsSaving(true);
     setSaveError("");
 
@@ -670,6 +731,7 @@ export default function CatalogModal({
         platforms,
         availability,
         shishkaFitAssessment,
+        gameProgress,
       });
       showSnackbar(isEditMode ? "Збережено" : "Додано");
       onClose();
@@ -728,6 +790,7 @@ export default function CatalogModal({
         platforms,
         availability,
         shishkaFitAssessment,
+        gameProgress: showGameProgress ? fromGameProgressDraft(gameProgressDraft) : null,
       });
       if (onPersistEvaluatedAssessment) {
         await onPersistEvaluatedAssessment(nextAssessment);
@@ -1390,6 +1453,90 @@ export default function CatalogModal({
                 </div>
               ) : null}
 
+              {showGameProgress ? (
+                <div className={styles.gameProgressGrid}>
+                  <label className={styles.label}>
+                    Статус гри
+                    <select
+                      className={styles.select}
+                      value={gameProgressDraft.completionStatus}
+                      onChange={(event) =>
+                        setGameProgressDraft((prev) => ({
+                          ...prev,
+                          completionStatus: normalizeGameCompletionStatus(event.target.value) ?? "",
+                        }))
+                      }
+                      disabled={readOnly || isSaving}
+                    >
+                      <option value="">Не вказано</option>
+                      {GAME_COMPLETION_STATUSES.map((status) => (
+                        <option key={status} value={status}>
+                          {GAME_COMPLETION_STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className={styles.label}>
+                    Години гри
+                    <input
+                      className={styles.input}
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="0"
+                      value={gameProgressDraft.hoursPlayed}
+                      onChange={(event) =>
+                        setGameProgressDraft((prev) => ({
+                          ...prev,
+                          hoursPlayed: event.target.value,
+                        }))
+                      }
+                      onBlur={() =>
+                        setGameProgressDraft((prev) => {
+                          const hoursPlayed = normalizeGameHoursPlayed(prev.hoursPlayed);
+                          return {
+                            ...prev,
+                            hoursPlayed: hoursPlayed === null ? "" : String(hoursPlayed),
+                          };
+                        })
+                      }
+                      disabled={readOnly || isSaving}
+                    />
+                  </label>
+                  <label className={styles.label}>
+                    Початок гри
+                    <input
+                      className={styles.input}
+                      type="date"
+                      value={gameProgressDraft.startedAt}
+                      max={gameProgressDraft.finishedAt || undefined}
+                      onChange={(event) =>
+                        setGameProgressDraft((prev) => ({
+                          ...prev,
+                          startedAt: event.target.value,
+                        }))
+                      }
+                      disabled={readOnly || isSaving}
+                    />
+                  </label>
+                  <label className={styles.label}>
+                    Завершення гри
+                    <input
+                      className={styles.input}
+                      type="date"
+                      value={gameProgressDraft.finishedAt}
+                      min={gameProgressDraft.startedAt || undefined}
+                      onChange={(event) =>
+                        setGameProgressDraft((prev) => ({
+                          ...prev,
+                          finishedAt: event.target.value,
+                        }))
+                      }
+                      disabled={readOnly || isSaving}
+                    />
+                  </label>
+                </div>
+              ) : null}
+
               <div className={styles.formRow}>
                 <label className={styles.label}>
                   Коментар
@@ -1534,6 +1681,7 @@ export default function CatalogModal({
                 </label>
               ) : null}
             </div>
+            {extraContent}
           </div>
         </div>
 
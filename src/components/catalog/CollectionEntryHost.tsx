@@ -32,10 +32,13 @@ import {
 import { type FilmNormalizedGenre, type FilmNormalizedPerson } from "@/lib/films/normalizedMetadata";
 import { loadStoredGenresForItem } from "@/lib/films/storedGenres";
 import { loadStoredPeopleForItem } from "@/lib/films/storedPeople";
+import { refreshItemFranchise } from "@/lib/franchises/membership";
 import {
   type GameCollectionTrailer,
   type GameCollectionFormPayload,
 } from "@/lib/games/collectionFlow";
+import { refreshGameCompanies } from "@/lib/games/companies";
+import { normalizeGameProgress, type GameProgressInput } from "@/lib/games/gameProgress";
 import { type GameNormalizedGenre } from "@/lib/games/normalizedMetadata";
 import { loadStoredGameGenresForItem } from "@/lib/games/storedGenres";
 import {
@@ -65,6 +68,7 @@ type SharedInitialValues = {
   platforms?: string[] | null;
   availability?: string | null;
   shishkaFitAssessment?: ShishkaFitAssessment | null;
+  gameProgress?: GameProgressInput | null;
 };
 
 type ExistingOwnView = {
@@ -78,6 +82,10 @@ type ExistingOwnView = {
   view_percent: number;
   availability: string | null;
   platforms: string[] | null;
+  hours_played?: number | null;
+  completion_status?: string | null;
+  started_at?: string | null;
+  finished_at?: string | null;
 };
 
 type FilmEntryState = {
@@ -149,6 +157,7 @@ const toInitialValues = (existingView: ExistingOwnView | null): SharedInitialVal
     viewPercent: existingView.view_percent,
     platforms: existingView.platforms ?? [],
     availability: existingView.availability,
+    gameProgress: normalizeGameProgress(existingView),
   };
 };
 
@@ -164,7 +173,7 @@ async function loadExistingOwnView(itemId: string) {
   const { data } = await supabase
     .from("user_views")
     .select(
-      "id, item_id, viewed_at, rating, comment, recommend_similar, is_viewed, view_percent, availability, platforms",
+      "id, item_id, viewed_at, rating, comment, recommend_similar, is_viewed, view_percent, availability, platforms, hours_played, completion_status, started_at, finished_at",
     )
     .eq("user_id", user.id)
     .eq("item_id", itemId)
@@ -694,9 +703,18 @@ export default function CollectionEntryHost({ request, onClose }: HostProps) {
               },
               payload: payload as FilmCollectionFormPayload,
             });
+            const savedItemId = result.itemId ?? state.itemId ?? null;
+            if (savedItemId && state.mediaType !== "tv") {
+              void refreshItemFranchise({
+                supabase,
+                itemId: savedItemId,
+                mediaKind: "film",
+                externalId: state.externalId,
+              });
+            }
             emitCollectionEntrySaved({
               mediaKind: "film",
-              itemId: result.itemId ?? state.itemId ?? null,
+              itemId: savedItemId,
               viewId: result.viewId ?? state.existingView?.id ?? null,
             });
             await request.onCompleted?.();
@@ -723,6 +741,7 @@ export default function CollectionEntryHost({ request, onClose }: HostProps) {
         size="wide"
         fitTargetText="ця гра"
         showRecommendSimilar={false}
+        showGameProgress
         platformOptions={state.platformOptions}
         availabilityOptions={state.availabilityOptions}
         initialValues={state.initialValues}
@@ -755,9 +774,23 @@ export default function CollectionEntryHost({ request, onClose }: HostProps) {
             },
             payload: payload as GameCollectionFormPayload,
           });
+          const savedItemId = result.itemId ?? state.itemId ?? null;
+          if (savedItemId && state.ratingSource !== "rawg") {
+            void refreshGameCompanies({
+              supabase,
+              itemId: savedItemId,
+              externalId: state.externalId,
+            });
+            void refreshItemFranchise({
+              supabase,
+              itemId: savedItemId,
+              mediaKind: "game",
+              externalId: state.externalId,
+            });
+          }
           emitCollectionEntrySaved({
             mediaKind: "game",
-            itemId: result.itemId ?? state.itemId ?? null,
+            itemId: savedItemId,
             viewId: result.viewId ?? state.existingView?.id ?? null,
           });
           await request.onCompleted?.();
@@ -780,6 +813,7 @@ export default function CollectionEntryHost({ request, onClose }: HostProps) {
                 : state.genres
             }
             description={state.description}
+            progress={state.initialValues.gameProgress ?? null}
             message={
               <>
                 {state.existingView ? (
@@ -2,7 +2,11 @@
 
 import type { ReactNode } from "react";
 import CatalogModal from "@/components/catalog/CatalogModal";
+import UserListsMenu from "@/components/catalog/UserListsMenu";
+import EntryDiscussion from "@/components/catalog/edit/EntryDiscussion";
+import ViewSessionsEditor from "@/components/catalog/edit/ViewSessionsEditor";
 import type { PosterMenuAction } from "@/lib/collection/serviceSearchLinks";
+import type { GameProgressInput } from "@/lib/games/gameProgress";
 import type { ShishkaFitAssessment } from "@/lib/shishka/fitAssessment";
 
 type CatalogModalPayload = {
@@ -15,10 +19,12 @@ type CatalogModalPayload = {
   platforms: string[];
   availability: string | null;
   shishkaFitAssessment: ShishkaFitAssessment | null;
+  gameProgress: GameProgressInput | null;
 };
 
 type ExistingCollectionEntryModalProps = {
   title: string;
+  viewId?: string;
   posterUrl?: string;
   imageUrls?: string[];
   fitTargetText: string;
@@ -36,6 +42,7 @@ type ExistingCollectionEntryModalProps = {
   };
   previewMenuAction?: PosterMenuAction;
   extraActions?: ReactNode;
+  extraContent?: ReactNode;
   initialValues: {
     viewedAt?: string;
     comment?: string | null;
@@ -46,9 +53,11 @@ type ExistingCollectionEntryModalProps = {
     platforms?: string[] | null;
     availability?: string | null;
     shishkaFitAssessment?: ShishkaFitAssessment | null;
+    gameProgress?: GameProgressInput | null;
   };
   availabilityOptions?: readonly string[];
   platformOptions?: readonly string[];
+  showGameProgress?: boolean;
   onRefresh?: () => Promise<void>;
   onEvaluate?: (payload: CatalogModalPayload) => Promise<ShishkaFitAssessment>;
   onPersistEvaluatedAssessment?: (assessment: ShishkaFitAssessment) => Promise<void>;
@@ -59,6 +68,7 @@ type ExistingCollectionEntryModalProps = {
 
 export default function ExistingCollectionEntryModal({
   title,
+  viewId,
   posterUrl,
   imageUrls,
   fitTargetText,
@@ -71,9 +81,11 @@ export default function ExistingCollectionEntryModal({
   previewAction,
   previewMenuAction,
   extraActions,
+  extraContent,
   initialValues,
   availabilityOptions = [],
   platformOptions = [],
+  showGameProgress = false,
   onRefresh,
   onEvaluate,
   onPersistEvaluatedAssessment,
@@ -81,6 +93,8 @@ export default function ExistingCollectionEntryModal({
   onDelete,
   children,
 }: ExistingCollectionEntryModalProps) {
+  const listsMenu = !readOnly && viewId ? <UserListsMenu viewId={viewId} /> : null;
+
   return (
     <CatalogModal
       title={title}
@@ -90,6 +104,7 @@ export default function ExistingCollectionEntryModal({
       fitTargetText={fitTargetText}
       showRecommendSimilar={false}
       platformOptions={platformOptions}
+      showGameProgress={showGameProgress}
       availabilityOptions={availabilityOptions}
       initialValues={initialValues}
       submitLabel={readOnly ? "Відкрити форму додавання" : "Зберегти"}
@@ -102,7 +117,23 @@ export default function ExistingCollectionEntryModal({
       readOnlyPrimarySuccessMessage={null}
       previewAction={previewAction}
       previewMenuAction={previewMenuAction}
-      extraActions={extraActions}
+      extraActions={
+        extraActions || listsMenu ? (
+          <>
+            {extraActions}
+            {listsMenu}
+          </>
+        ) : null
+      }
+      extraContent={
+        extraContent || viewId ? (
+          <>
+            {extraContent}
+            {viewId ? <ViewSessionsEditor viewId={viewId} readOnly={readOnly} /> : null}
+            {viewId ? <EntryDiscussion viewId={viewId} /> : null}
+          </>
+        ) : null
+      }
       onRefresh={readOnly ? undefined : onRefresh}
       onEvaluate={readOnly ? undefined : onEvaluate}
       onPersistEvaluatedAssessment={
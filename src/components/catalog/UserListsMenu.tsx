@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  USER_LIST_NAME_MAX_LENGTH,
+  addViewToUserList,
+  createUserList,
+  loadListIdsForView,
+  loadUserLists,
+  removeViewFromUserList,
+  type UserList,
+} from "@/lib/collection/userLists";
+import styles from "./UserListsMenu.module.css";
+
+type UserListsMenuProps = {
+  viewId: string;
+  variant?: "button" | "icon";
+  className?: string;
+};
+
+export default function UserListsMenu({
+  viewId,
+  variant = "button",
+  className,
+}: UserListsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [lists, setLists] = useState<UserList[]>([]);
+  const [memberListIds, setMemberListIds] = useState<Set<string>>(new Set());
+  const [pendingListId, setPendingListId] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [message, setMessage] = useState("");
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCancelled = false;
+    setIsLoading(true);
+    setMessage("");
+    void (async () => {
+      try {
+        const [nextLists, nextMemberListIds] = await Promise.all([
+          loadUserLists(),
+          loadListIdsForView(viewId),
+        ]);
+        if (isCancelled) return;
+        setLists(nextLists);
+        setMemberListIds(new Set(nextMemberListIds));
+      } catch (error) {
+        if (!isCancelled) {
+          setMessage(error instanceof Error ? error.message : "Не вдалося завантажити списки.");
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, viewId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleOutsideClick = (event: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    window.addEventListener("mousedown", handleOutsideClick);
+    return () => window.removeEventListener("mousedown", handleOutsideClick);
+  }, [isOpen]);
+
+  const toggleList = async (listId: string) => {
+    const isMember = memberListIds.has(listId);
+    setPendingListId(listId);
+    setMessage("");
+    try {
+      if (isMember) {
+        await removeViewFromUserList(listId, viewId);
+      } else {
+        await addViewToUserList(listId, viewId);
+      }
+      setMemberListIds((prev) => {
+        const next = new Set(prev);
+        if (isMember) {
+          next.delete(listId);
+        } else {
+          next.add(listId);
+        }
+        return next;
+      });
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося оновити список.");
+    } finally {
+      setPendingListId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setMessage("");
+    try {
+      const list = await createUserList(newListName);
+      await addViewToUserList(list.id, viewId);
+      setLists((prev) => [...prev, list]);
+      setMemberListIds((prev) => new Set(prev).add(list.id));
+      setNewListName("");
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося створити список.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div
+      ref={rootRef}
+      className={`${styles.root} ${className ?? ""}`}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <button
+        type="button"
+        className={
+          variant === "icon" ? styles.iconTrigger : "btnBase btnSecondary"
+        }
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label="Списки"
+        title="Списки"
+      >
+        {variant === "icon" ? "☰" : "Списки"}
+      </button>
+      {isOpen ? (
+        <div className={styles.menu} role="menu">
+          {isLoading ? <p className={styles.hint}>Завантаження...</p> : null}
+          {!isLoading && lists.length === 0 ? (
+            <p className={styles.hint}>Ще немає списків.</p>
+          ) : null}
+          {!isLoading
+            ? lists.map((list) => (
+                <label key={list.id} className={styles.option}>
+                  <input
+                    type="checkbox"
+                    checked={memberListIds.has(list.id)}
+                    onChange={() => void toggleList(list.id)}
+                    disabled={pendingListId === list.id}
+                  />
+                  <span className={styles.optionLabel}>{list.name}</span>
+                  {list.isShared ? <span className={styles.sharedBadge}>друзям</span> : null}
+                </label>
+              ))
+            : null}
+          <form
+            className={styles.createRow}
+            onSubmit={(event) => {
+              event.preventDefault();
+              void handleCreate();
+            }}
+          >
+            <input
+              className={styles.createInput}
+              value={newListName}
+              maxLength={USER_LIST_NAME_MAX_LENGTH}
+              placeholder="Новий список"
+              onChange={(event) => setNewListName(event.target.value)}
+              disabled={isCreating}
+            />
+            <button
+              type="submit"
+              className="btnBase btnPrimary"
+              disabled={isCreating || !newListName.trim()}
+            >
+              +
+            </button>
+          </form>
+          {message ? <p className={styles.message}>{message}</p> : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
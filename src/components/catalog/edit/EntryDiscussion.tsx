@@ -0,0 +1,244 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ENTRY_COMMENT_MAX_LENGTH,
+  ENTRY_REACTION_EMOJIS,
+  buildCommentThreads,
+  canDeleteEntryComment,
+  summarizeReactions,
+  type EntryCommentThread,
+  type EntryReactionEmoji,
+} from "@/lib/collection/entryDiscussion";
+import {
+  addEntryComment,
+  deleteEntryComment,
+  loadEntryDiscussion,
+  toggleEntryReaction,
+  type EntryDiscussion as EntryDiscussionData,
+} from "@/lib/collection/entryDiscussionFlow";
+import { supabase } from "@/lib/supabase/client";
+import styles from "./EntryDiscussion.module.css";
+
+type EntryDiscussionProps = {
+  viewId: string;
+};
+
+const EMPTY_DISCUSSION: EntryDiscussionData = {
+  entryOwnerUserId: null,
+  comments: [],
+  reactions: [],
+};
+
+const formatCommentDate = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("uk-UA", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+};
+
+export default function EntryDiscussion({ viewId }: EntryDiscussionProps) {
+  const [discussion, setDiscussion] = useState<EntryDiscussionData>(EMPTY_DISCUSSION);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<EntryCommentThread | null>(null);
+  const [message, setMessage] = useState("");
+
+  const reload = useCallback(async () => {
+    try {
+      const [
+        {
+          data: { user },
+        },
+        nextDiscussion,
+      ] = await Promise.all([supabase.auth.getUser(), loadEntryDiscussion(supabase, viewId)]);
+      setCurrentUserId(user?.id ?? null);
+      setDiscussion(nextDiscussion);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося завантажити обговорення.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [viewId]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const threads = useMemo(() => buildCommentThreads(discussion.comments), [discussion.comments]);
+  const reactionSummary = useMemo(
+    () => summarizeReactions(discussion.reactions, currentUserId),
+    [currentUserId, discussion.reactions],
+  );
+  const myReactions = new Set(
+    reactionSummary.filter((summary) => summary.reactedByMe).map((summary) => summary.emoji),
+  );
+
+  const handleToggleReaction = async (emoji: EntryReactionEmoji) => {
+    if (!currentUserId) return;
+    setIsSaving(true);
+    setMessage("");
+    try {
+      await toggleEntryReaction(supabase, {
+        viewId,
+        userId: currentUserId,
+        emoji,
+        isActive: myReactions.has(emoji),
+      });
+      await reload();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося оновити реакцію.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!currentUserId) return;
+    setIsSaving(true);
+    setMessage("");
+    try {
+      await addEntryComment(supabase, {
+        viewId,
+        userId: currentUserId,
+        body: draft,
+        parentCommentId: replyTo?.id ?? null,
+      });
+      setDraft("");
+      setReplyTo(null);
+      await reload();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося додати коментар.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    setIsSaving(true);
+    setMessage("");
+    try {
+      await deleteEntryComment(supabase, commentId);
+      if (replyTo?.id === commentId) {
+        setReplyTo(null);
+      }
+      await reload();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося видалити коментар.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderThread = (thread: EntryCommentThread) => (
+    <li key={thread.id} className={styles.comment}>
+      <div className={styles.commentHeader}>
+        <span className={styles.commentAuthor}>{thread.authorName}</span>
+        <span className={styles.commentDate}>{formatCommentDate(thread.createdAt)}</span>
+      </div>
+      <p className={styles.commentBody}>{thread.body}</p>
+      <div className={styles.commentActions}>
+        <button
+          type="button"
+          className={styles.linkButton}
+          onClick={() => setReplyTo(thread)}
+          disabled={isSaving || !currentUserId}
+        >
+          Відповісти
+        </button>
+        {canDeleteEntryComment({
+          comment: thread,
+          currentUserId,
+          entryOwnerUserId: discussion.entryOwnerUserId,
+        }) ? (
+          <button
+            type="button"
+            className={styles.linkButton}
+            onClick={() => void handleDelete(thread.id)}
+            disabled={isSaving}
+          >
+            Видалити
+          </button>
+        ) : null}
+      </div>
+      {thread.replies.length > 0 ? (
+        <ul className={styles.replies}>{thread.replies.map(renderThread)}</ul>
+      ) : null}
+    </li>
+  );
+
+  return (
+    <section className={styles.root}>
+      <h3 className={styles.title}>
+        Обговорення
+        {discussion.comments.length > 0 ? ` · ${discussion.comments.length}` : ""}
+      </h3>
+
+      <div className={styles.reactions}>
+        {ENTRY_REACTION_EMOJIS.map((emoji) => {
+          const summary = reactionSummary.find((entry) => entry.emoji === emoji);
+          return (
+            <button
+              key={emoji}
+              type="button"
+              className={`${styles.reaction} ${summary?.reactedByMe ? styles.reactionActive : ""}`}
+              onClick={() => void handleToggleReaction(emoji)}
+              disabled={isSaving || !currentUserId}
+              aria-pressed={summary?.reactedByMe ?? false}
+            >
+              {emoji}
+              {summary ? <span className={styles.reactionCount}>{summary.count}</span> : null}
+            </button>
+          );
+        })}
+      </div>
+
+      {isLoading ? <p className={styles.hint}>Завантаження...</p> : null}
+      {!isLoading && threads.length === 0 ? (
+        <p className={styles.hint}>Ще немає коментарів.</p>
+      ) : null}
+      {threads.length > 0 ? <ul className={styles.list}>{threads.map(renderThread)}</ul> : null}
+
+      <div className={styles.form}>
+        {replyTo ? (
+          <p className={styles.hint}>
+            Відповідь для {replyTo.authorName}{" "}
+            <button
+              type="button"
+              className={styles.linkButton}
+              onClick={() => setReplyTo(null)}
+              disabled={isSaving}
+            >
+              Скасувати
+            </button>
+          </p>
+        ) : null}
+        <textarea
+          className={styles.textarea}
+          value={draft}
+          maxLength={ENTRY_COMMENT_MAX_LENGTH}
+          placeholder="Написати коментар..."
+          onChange={(event) => setDraft(event.target.value)}
+          disabled={isSaving || !currentUserId}
+        />
+        <div className={styles.formActions}>
+          <button
+            type="button"
+            className="btnBase btnPrimary"
+            onClick={() => void handleSubmit()}
+            disabled={isSaving || !currentUserId || !draft.trim()}
+          >
+            {isSaving ? "Збереження..." : "Надіслати"}
+          </button>
+        </div>
+      </div>
+      {message ? <p className={styles.hint}>{message}</p> : null}
+    </section>
+  );
+}
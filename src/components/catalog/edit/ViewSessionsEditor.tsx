@@ -0,0 +1,290 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  COLLECTION_ENTRY_SAVED_EVENT,
+  type CollectionEntrySavedEventDetail,
+} from "@/lib/collection/events";
+import { PERSONAL_RATING_MAX, PERSONAL_RATING_MIN } from "@/lib/collection/ratingScale";
+import { VIEW_SESSION_NOTE_MAX_LENGTH, type ViewSession } from "@/lib/collection/viewSessions";
+import {
+  addViewSession,
+  deleteViewSession,
+  loadViewSessions,
+  updateViewSession,
+} from "@/lib/collection/viewSessionsFlow";
+import styles from "./ViewSessionsEditor.module.css";
+
+type ViewSessionsEditorProps = {
+  viewId: string;
+  readOnly?: boolean;
+  title?: string;
+};
+
+type SessionDraft = {
+  viewedAt: string;
+  rating: string;
+  note: string;
+};
+
+const RATING_OPTIONS = Array.from(
+  { length: (PERSONAL_RATING_MAX - PERSONAL_RATING_MIN) * 2 + 1 },
+  (_, index) => PERSONAL_RATING_MIN + index * 0.5,
+);
+
+const getTodayDateValue = () => new Date().toISOString().slice(0, 10);
+
+const createEmptyDraft = (): SessionDraft => ({
+  viewedAt: getTodayDateValue(),
+  rating: "",
+  note: "",
+});
+
+const formatSessionDate = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("uk-UA", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  }).format(date);
+};
+
+export default function ViewSessionsEditor({
+  viewId,
+  readOnly = false,
+  title = "Історія переглядів",
+}: ViewSessionsEditorProps) {
+  const [sessions, setSessions] = useState<ViewSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SessionDraft>(createEmptyDraft);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const reload = useCallback(async () => {
+    try {
+      setSessions(await loadViewSessions(viewId));
+    } catch (error) {
+      setMessage(
+        error instanceof Error ? error.message : "Не вдалося завантажити історію переглядів.",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [viewId]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  useEffect(() => {
+    const handleCollectionEntrySaved = (event: Event) => {
+      const detail = (event as CustomEvent<CollectionEntrySavedEventDetail>).detail;
+      if (detail?.viewId === viewId) {
+        void reload();
+      }
+    };
+
+    window.addEventListener(COLLECTION_ENTRY_SAVED_EVENT, handleCollectionEntrySaved);
+    return () => {
+      window.removeEventListener(COLLECTION_ENTRY_SAVED_EVENT, handleCollectionEntrySaved);
+    };
+  }, [reload, viewId]);
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingSessionId(null);
+    setDraft(createEmptyDraft());
+  };
+
+  const startEditing = (session: ViewSession) => {
+    setEditingSessionId(session.id);
+    setDraft({
+      viewedAt: session.viewedAt.slice(0, 10),
+      rating: session.rating === null ? "" : String(session.rating),
+      note: session.note ?? "",
+    });
+    setIsFormOpen(true);
+    setMessage("");
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    setMessage("");
+    const input = {
+      viewedAt: draft.viewedAt,
+      rating: draft.rating ? Number(draft.rating) : null,
+      note: draft.note,
+    };
+    try {
+      if (editingSessionId) {
+        await updateViewSession(editingSessionId, input);
+      } else {
+        await addViewSession(viewId, input);
+      }
+      closeForm();
+      await reload();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося зберегти перегляд.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (sessionId: string) => {
+    setIsSaving(true);
+    setMessage("");
+    try {
+      await deleteViewSession(sessionId);
+      if (editingSessionId === sessionId) {
+        closeForm();
+      }
+      await reload();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося видалити перегляд.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (readOnly && !isLoading && sessions.length <= 1) {
+    return null;
+  }
+
+  return (
+    <section className={styles.root}>
+      <div className={styles.header}>
+        <h3 className={styles.title}>
+          {title}
+          {sessions.length > 0 ? ` · ${sessions.length}` : ""}
+        </h3>
+        {!readOnly && !isFormOpen ? (
+          <button
+            type="button"
+            className="btnBase btnSecondary"
+            onClick={() => {
+              setDraft(createEmptyDraft());
+              setIsFormOpen(true);
+              setMessage("");
+            }}
+            disabled={isSaving}
+          >
+            Додати перегляд
+          </button>
+        ) : null}
+      </div>
+
+      {isLoading ? <p className={styles.hint}>Завантаження...</p> : null}
+      {!isLoading && sessions.length === 0 ? (
+        <p className={styles.hint}>Ще немає датованих переглядів.</p>
+      ) : null}
+      {sessions.length > 0 ? (
+        <ul className={styles.list}>
+          {sessions.map((session) => (
+            <li key={session.id} className={styles.item}>
+              <div className={styles.itemMain}>
+                <span className={styles.itemDate}>{formatSessionDate(session.viewedAt)}</span>
+                {session.isPrimary && sessions.length > 1 ? (
+                  <span className={styles.itemBadge}>дата запису</span>
+                ) : null}
+                {session.rating !== null ? (
+                  <span className={styles.itemRating}>★ {session.rating}</span>
+                ) : null}
+                {session.note ? <p className={styles.itemNote}>{session.note}</p> : null}
+              </div>
+              {!readOnly ? (
+                <div className={styles.itemActions}>
+                  <button
+                    type="button"
+                    className={styles.linkButton}
+                    onClick={() => startEditing(session)}
+                    disabled={isSaving}
+                  >
+                    Змінити
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.linkButton}
+                    onClick={() => void handleDelete(session.id)}
+                    disabled={isSaving}
+                  >
+                    Видалити
+                  </button>
+                </div>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {!readOnly && isFormOpen ? (
+        <div className={styles.form}>
+          <div className={styles.formRow}>
+            <label className={styles.field}>
+              Дата
+              <input
+                className={styles.input}
+                type="date"
+                value={draft.viewedAt}
+                max={getTodayDateValue()}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, viewedAt: event.target.value }))
+                }
+                disabled={isSaving}
+              />
+            </label>
+            <label className={styles.field}>
+              Рейтинг
+              <select
+                className={styles.input}
+                value={draft.rating}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, rating: event.target.value }))
+                }
+                disabled={isSaving}
+              >
+                <option value="">—</option>
+                {RATING_OPTIONS.map((rating) => (
+                  <option key={rating} value={String(rating)}>
+                    {rating}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className={styles.field}>
+            Нотатка
+            <textarea
+              className={styles.textarea}
+              value={draft.note}
+              maxLength={VIEW_SESSION_NOTE_MAX_LENGTH}
+              onChange={(event) => setDraft((prev) => ({ ...prev, note: event.target.value }))}
+              disabled={isSaving}
+            />
+          </label>
+          <div className={styles.formActions}>
+            <button
+              type="button"
+              className="btnBase btnSecondary"
+              onClick={closeForm}
+              disabled={isSaving}
+            >
+              Скасувати
+            </button>
+            <button
+              type="button"
+              className="btnBase btnPrimary"
+              onClick={() => void handleSubmit()}
+              disabled={isSaving || !draft.viewedAt}
+            >
+              {isSaving ? "Збереження..." : editingSessionId ? "Зберегти" : "Додати"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+      {message ? <p className={styles.hint}>{message}</p> : null}
+    </section>
+  );
+}
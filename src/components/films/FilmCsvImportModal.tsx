@@ -0,0 +1,410 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import CloseIconButton from "@/components/ui/CloseIconButton";
+import modalStyles from "@/components/catalog/CatalogSearchModal.module.css";
+import styles from "@/components/catalog/CsvImportModal.module.css";
+import { emitCollectionEntrySaved } from "@/lib/collection/events";
+import { formatCollectionEntryPersonalRating } from "@/lib/collection/existingEntryState";
+import { downloadCsvFile } from "@/lib/csv/downloadCsv";
+import { getCsvTimestamp } from "@/lib/csv/getCsvTimestamp";
+import { addFilmToCollection } from "@/lib/films/collectionFlow";
+import {
+  FILM_CSV_IMPORT_ERROR_REPORT_HEADERS,
+  FILM_CSV_IMPORT_FORMAT_LABELS,
+  buildFilmCsvImportErrorReportRows,
+  buildFilmCsvImportPayload,
+  parseFilmCsvImport,
+  resolveFilmCsvImportMatch,
+  type FilmCsvImportCandidate,
+  type FilmCsvImportErrorReportRow,
+  type FilmCsvImportFormat,
+  type FilmCsvImportMatchStatus,
+  type FilmCsvImportRow,
+} from "@/lib/films/csvImport";
+import { supabase } from "@/lib/supabase/client";
+
+type FilmCsvImportModalProps = {
+  onClose: () => void;
+};
+
+type ImportStep = "upload" | "matching" | "review" | "importing" | "done";
+type ReviewFilter = "all" | FilmCsvImportMatchStatus;
+
+type ReviewRow = FilmCsvImportRow & {
+  key: string;
+  status: FilmCsvImportMatchStatus;
+  candidates: FilmCsvImportCandidate[];
+  selectedCandidateKey: string | null;
+  searchError: string | null;
+};
+
+type ImportSummary = {
+  imported: number;
+  skippedExisting: number;
+  skippedByUser: number;
+  failed: number;
+};
+
+const STATUS_LABELS: Record<FilmCsvImportMatchStatus, string> = {
+  matched: "Знайдено",
+  ambiguous: "Перевірити",
+  unmatched: "Не знайдено",
+};
+
+const formatCandidateLabel = (candidate: FilmCsvImportCandidate) => {
+  const originalTitle =
+    candidate.originalTitle && candidate.originalTitle !== candidate.title
+      ? ` / ${candidate.originalTitle}`
+      : "";
+  const meta = [candidate.year, candidate.mediaType === "tv" ? "серіал" : null]
+    .filter(Boolean)
+    .join(", ");
+  return `${candidate.title}${originalTitle}${meta ? ` (${meta})` : ""}`;
+};
+
+const getCandidateKey = (candidate: FilmCsvImportCandidate) =>
+  `${candidate.mediaType ?? "movie"}:${candidate.id}`;
+
+const describeRow = (row: FilmCsvImportRow) =>
+  [
+    row.year || null,
+    row.rating != null ? `Мій: ${formatCollectionEntryPersonalRating(row.rating)}` : null,
+    row.viewedAt ? new Date(row.viewedAt).toLocaleDateString("uk-UA") : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const searchCandidates = async (row: FilmCsvImportRow) => {
+  const searchParams = new URLSearchParams({ q: row.title });
+  if (row.year) searchParams.set("year", row.year);
+  if (row.imdbId) searchParams.set("imdb", row.imdbId);
+  const response = await fetch(`/api/tmdb?${searchParams.toString()}`);
+  const data = (await response.json().catch(() => null)) as {
+    results?: FilmCsvImportCandidate[];
+    error?: string;
+  } | null;
+  if (!response.ok) {
+    throw new Error(data?.error || "TMDB error.");
+  }
+  return data?.results ?? [];
+};
+
+export default function FilmCsvImportModal({ onClose }: FilmCsvImportModalProps) {
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [format, setFormat] = useState<FilmCsvImportFormat | null>(null);
+  const [message, setMessage] = useState("");
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [reportRows, setReportRows] = useState<FilmCsvImportErrorReportRow[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>("all");
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const isCancelledRef = useRef(false);
+
+  useEffect(() => {
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      isCancelledRef.current = true;
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  const statusCounts = useMemo(
+    () =>
+      rows.reduce(
+        (acc, row) => {
+          acc[row.status] += 1;
+          return acc;
+        },
+        { matched: 0, ambiguous: 0, unmatched: 0 } as Record<FilmCsvImportMatchStatus, number>,
+      ),
+    [rows],
+  );
+  const selectedCount = rows.filter((row) => row.selectedCandidateKey).length;
+  const unresolvedCount = rows.filter(
+    (row) => row.status === "ambiguous" && !row.selectedCandidateKey,
+  ).length;
+  const visibleRows =
+    reviewFilter === "all" ? rows : rows.filter((row) => row.status === reviewFilter);
+
+  const handleFileChange = async (file: File | null) => {
+    if (!file) return;
+    setMessage("");
+
+    let parsed: ReturnType<typeof parseFilmCsvImport>;
+    try {
+      parsed = parseFilmCsvImport(await file.text());
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося прочитати CSV.");
+      return;
+    }
+
+    setFormat(parsed.format);
+    setReportRows(
+      parsed.errors.map((error) => ({
+        rowNumber: error.rowNumber,
+        title: error.title,
+        year: "",
+        reason: error.message,
+      })),
+    );
+    if (parsed.rows.length === 0) {
+      setMessage("У файлі немає рядків для імпорту.");
+      return;
+    }
+
+    setStep("matching");
+    setProgress({ done: 0, total: parsed.rows.length });
+    const reviewRows: ReviewRow[] = [];
+    for (const [index, row] of parsed.rows.entries()) {
+      if (isCancelledRef.current) return;
+      let candidates: FilmCsvImportCandidate[] = [];
+      let searchError: string | null = null;
+      try {
+        candidates = await searchCandidates(row);
+      } catch (error) {
+        searchError = error instanceof Error ? error.message : "TMDB error.";
+      }
+      const match = resolveFilmCsvImportMatch(row, candidates);
+      const matchedCandidate = candidates.find((candidate) => candidate.id === match.candidateId);
+      reviewRows.push({
+        ...row,
+        key: String(row.rowNumber),
+        status: match.status,
+        candidates,
+        selectedCandidateKey: matchedCandidate ? getCandidateKey(matchedCandidate) : null,
+        searchError,
+      });
+      setProgress({ done: index + 1, total: parsed.rows.length });
+    }
+
+    setRows(reviewRows);
+    setStep("review");
+  };
+
+  const updateSelection = (key: string, candidateKey: string | null) => {
+    setRows((prev) =>
+      prev.map((row) => (row.key === key ? { ...row, selectedCandidateKey: candidateKey } : row)),
+    );
+  };
+
+  const handleImport = async () => {
+    const rowsToImport = rows.filter((row) => row.selectedCandidateKey);
+    const nextReportRows = [...reportRows];
+    const nextSummary: ImportSummary = {
+      imported: 0,
+      skippedExisting: 0,
+      skippedByUser: 0,
+      failed: 0,
+    };
+    rows
+      .filter((row) => !row.selectedCandidateKey)
+      .forEach((row) => {
+        nextSummary.skippedByUser += 1;
+        nextReportRows.push({
+          rowNumber: row.rowNumber,
+          title: row.title,
+          year: row.year,
+          reason:
+            row.searchError ??
+            (row.status === "unmatched" ? "Не знайдено у TMDB." : "Пропущено під час перевірки."),
+        });
+      });
+
+    setStep("importing");
+    setProgress({ done: 0, total: rowsToImport.length });
+
+    for (const [index, row] of rowsToImport.entries()) {
+      if (isCancelledRef.current) return;
+      const candidate = row.candidates.find(
+        (entry) => getCandidateKey(entry) === row.selectedCandidateKey,
+      );
+      if (!candidate) continue;
+
+      try {
+        await addFilmToCollection({
+          supabase,
+          film: candidate,
+          payload: buildFilmCsvImportPayload(row),
+          allowUpdateExistingView: false,
+        });
+        nextSummary.imported += 1;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Не вдалося зберегти.";
+        if (errorMessage === "Вже у твоїй колекції.") {
+          nextSummary.skippedExisting += 1;
+        } else {
+          nextSummary.failed += 1;
+          nextReportRows.push({
+            rowNumber: row.rowNumber,
+            title: row.title,
+            year: row.year,
+            reason: errorMessage,
+          });
+        }
+      }
+      setProgress({ done: index + 1, total: rowsToImport.length });
+    }
+
+    setReportRows(nextReportRows);
+    setSummary(nextSummary);
+    setStep("done");
+    if (nextSummary.imported > 0) {
+      emitCollectionEntrySaved({ mediaKind: "film", itemId: null });
+    }
+  };
+
+  const handleDownloadReport = () => {
+    downloadCsvFile(
+      `film_import_errors_${getCsvTimestamp()}.csv`,
+      FILM_CSV_IMPORT_ERROR_REPORT_HEADERS,
+      buildFilmCsvImportErrorReportRows(
+        [...reportRows].sort((left, right) => left.rowNumber - right.rowNumber),
+      ),
+    );
+  };
+
+  const isBusy = step === "matching" || step === "importing";
+
+  return (
+    <div
+      className={modalStyles.overlay}
+      role="dialog"
+      aria-modal="true"
+      onClick={isBusy ? undefined : onClose}
+    >
+      <div className={modalStyles.modal} onClick={(event) => event.stopPropagation()}>
+        <div className={modalStyles.header}>
+          <h2 className={modalStyles.title}>Імпорт фільмів з CSV</h2>
+          <CloseIconButton onClick={onClose} />
+        </div>
+        <div className={modalStyles.body}>
+          {step === "upload" ? (
+            <div className={styles.uploadStep}>
+              <p className={styles.hint}>
+                Підтримуються Letterboxd diary.csv / ratings.csv / reviews.csv та IMDb
+                ratings.csv. Оцінки переводяться у шкалу 1–5 з кроком 0.5.
+              </p>
+              <label className="btnBase btnPrimary">
+                Обрати файл
+                <input
+                  className={styles.fileInput}
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(event) => {
+                    void handleFileChange(event.target.files?.[0] ?? null);
+                    event.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+          ) : null}
+
+          {format ? (
+            <p className={styles.hint}>Формат: {FILM_CSV_IMPORT_FORMAT_LABELS[format]}</p>
+          ) : null}
+
+          {isBusy ? (
+            <div className={styles.progress}>
+              <p className={styles.hint}>
+                {step === "matching" ? "Шукаємо у TMDB" : "Додаємо до колекції"}:{" "}
+                {progress.done} / {progress.total}
+              </p>
+              <progress className={styles.progressBar} value={progress.done} max={progress.total} />
+            </div>
+          ) : null}
+
+          {step === "review" ? (
+            <>
+              <div className={styles.reviewToolbar}>
+                <div className={styles.filterSwitch}>
+                  {(["all", "ambiguous", "unmatched", "matched"] as ReviewFilter[]).map(
+                    (filter) => (
+                      <button
+                        key={filter}
+                        type="button"
+                        className={`${styles.filterButton} ${
+                          reviewFilter === filter ? styles.filterButtonActive : ""
+                        }`}
+                        onClick={() => setReviewFilter(filter)}
+                      >
+                        {filter === "all"
+                          ? `Всі (${rows.length})`
+                          : `${STATUS_LABELS[filter]} (${statusCounts[filter]})`}
+                      </button>
+                    ),
+                  )}
+                </div>
+                <button
+                  type="button"
+                  className="btnBase btnPrimary"
+                  onClick={() => void handleImport()}
+                  disabled={selectedCount === 0}
+                >
+                  Імпортувати ({selectedCount})
+                </button>
+              </div>
+              {unresolvedCount > 0 ? (
+                <p className={styles.hint}>
+                  Рядки «{STATUS_LABELS.ambiguous}» ({unresolvedCount}) не імпортуються, доки не
+                  обереш для них варіант.
+                </p>
+              ) : null}
+              <ul className={styles.reviewList}>
+                {visibleRows.map((row) => (
+                  <li key={row.key} className={styles.reviewRow}>
+                    <div className={styles.reviewSource}>
+                      <span className={styles.reviewTitle}>{row.title}</span>
+                      <span className={styles.reviewMeta}>{describeRow(row)}</span>
+                    </div>
+                    <span className={`${styles.statusBadge} ${styles[`status_${row.status}`]}`}>
+                      {STATUS_LABELS[row.status]}
+                    </span>
+                    <select
+                      className={styles.candidateSelect}
+                      value={row.selectedCandidateKey ?? ""}
+                      onChange={(event) => updateSelection(row.key, event.target.value || null)}
+                    >
+                      <option value="">Пропустити</option>
+                      {row.candidates.map((candidate) => (
+                        <option key={getCandidateKey(candidate)} value={getCandidateKey(candidate)}>
+                          {formatCandidateLabel(candidate)}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+
+          {step === "done" && summary ? (
+            <div className={styles.summary}>
+              <p>Додано: {summary.imported}</p>
+              <p>Вже були у колекції: {summary.skippedExisting}</p>
+              <p>Пропущено: {summary.skippedByUser}</p>
+              <p>Помилки збереження: {summary.failed}</p>
+              <div className={styles.summaryActions}>
+                {reportRows.length > 0 ? (
+                  <button
+                    type="button"
+                    className="btnBase btnSecondary"
+                    onClick={handleDownloadReport}
+                  >
+                    Завантажити звіт ({reportRows.length})
+                  </button>
+                ) : null}
+                <button type="button" className="btnBase btnPrimary" onClick={onClose}>
+                  Готово
+                </button>
+              </div>
+            </div>
+          ) : null}
+
+          {message ? <p className={styles.message}>{message}</p> : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  formatTvEpisodeCode,
+  getTvEpisodeKey,
+  listAiredTvEpisodes,
+  normalizeTvLastAiredEpisode,
+  normalizeTvSeasons,
+  summarizeTvProgress,
+  type TvEpisodeRef,
+  type TvProgressSummary,
+} from "@/lib/films/tvProgress";
+import {
+  isTvStructureStale,
+  loadTvWatchedEpisodes,
+  setTvEpisodesWatched,
+  syncTvStructure,
+  type TvStructure,
+  type TvWatchedEpisodes,
+} from "@/lib/films/tvProgressFlow";
+import { supabase } from "@/lib/supabase/client";
+import styles from "./TvEpisodeProgress.module.css";
+
+type TvEpisodeProgressProps = {
+  viewId: string;
+  itemId: string;
+  externalId: string | null;
+  seasons: unknown;
+  lastAiredEpisode: unknown;
+  structureSyncedAt?: string | null;
+  readOnly?: boolean;
+  onProgressChange?: (summary: TvProgressSummary, watched: TvWatchedEpisodes) => void;
+};
+
+export default function TvEpisodeProgress({
+  viewId,
+  itemId,
+  externalId,
+  seasons,
+  lastAiredEpisode,
+  structureSyncedAt,
+  readOnly = false,
+  onProgressChange,
+}: TvEpisodeProgressProps) {
+  const [structure, setStructure] = useState<TvStructure>(() => ({
+    seasons: normalizeTvSeasons(seasons),
+    lastAired: normalizeTvLastAiredEpisode(lastAiredEpisode),
+  }));
+  const [watched, setWatched] = useState<TvWatchedEpisodes>({
+    episodes: [],
+    lastWatchedAt: null,
+  });
+  const [expandedSeason, setExpandedSeason] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    let isCancelled = false;
+    void (async () => {
+      try {
+        const watchedByViewId = await loadTvWatchedEpisodes(supabase, [viewId]);
+        if (isCancelled) return;
+        setWatched(watchedByViewId.get(viewId) ?? { episodes: [], lastWatchedAt: null });
+        if (!readOnly && externalId && isTvStructureStale(structureSyncedAt)) {
+          const nextStructure = await syncTvStructure({ supabase, itemId, externalId });
+          if (!isCancelled) {
+            setStructure(nextStructure);
+          }
+        }
+      } catch (error) {
+        if (!isCancelled) {
+          setMessage(error instanceof Error ? error.message : "Не вдалося завантажити сезони.");
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [externalId, itemId, readOnly, structureSyncedAt, viewId]);
+
+  const summary = useMemo(
+    () =>
+      summarizeTvProgress({
+        seasons: structure.seasons,
+        lastAired: structure.lastAired,
+        watchedEpisodes: watched.episodes,
+        lastWatchedAt: watched.lastWatchedAt,
+      }),
+    [structure, watched],
+  );
+  const watchedKeys = useMemo(
+    () => new Set(watched.episodes.map(getTvEpisodeKey)),
+    [watched.episodes],
+  );
+  const airedKeys = useMemo(
+    () => new Set(listAiredTvEpisodes(structure.seasons, structure.lastAired).map(getTvEpisodeKey)),
+    [structure],
+  );
+
+  const toggleEpisodes = async (episodes: TvEpisodeRef[], nextWatched: boolean) => {
+    setIsSaving(true);
+    setMessage("");
+    try {
+      const result = await setTvEpisodesWatched({
+        supabase,
+        viewId,
+        episodes,
+        watched: nextWatched,
+        structure,
+      });
+      setWatched(result.watched);
+      onProgressChange?.(result.summary, result.watched);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося зберегти прогрес.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isLoading && structure.seasons.length === 0) {
+    return message ? <p className={styles.hint}>{message}</p> : null;
+  }
+
+  return (
+    <section className={styles.root}>
+      <div className={styles.header}>
+        <h3 className={styles.title}>Сезони</h3>
+        <span className={styles.summary}>
+          {summary.watchedCount} з {summary.airedCount} серій
+          {summary.nextEpisode ? ` · далі ${formatTvEpisodeCode(summary.nextEpisode)}` : ""}
+        </span>
+      </div>
+      {isLoading ? <p className={styles.hint}>Завантаження...</p> : null}
+      <div className={styles.seasons}>
+        {structure.seasons.map((season) => {
+          const seasonEpisodes = Array.from({ length: season.episodeCount }, (_, index) => ({
+            seasonNumber: season.seasonNumber,
+            episodeNumber: index + 1,
+          }));
+          const airedSeasonEpisodes = seasonEpisodes.filter((episode) =>
+            airedKeys.has(getTvEpisodeKey(episode)),
+          );
+          const watchedCount = seasonEpisodes.filter((episode) =>
+            watchedKeys.has(getTvEpisodeKey(episode)),
+          ).length;
+          const isSeasonComplete =
+            airedSeasonEpisodes.length > 0 && watchedCount >= airedSeasonEpisodes.length;
+          const isExpanded = expandedSeason === season.seasonNumber;
+
+          return (
+            <div key={season.seasonNumber} className={styles.season}>
+              <div className={styles.seasonRow}>
+                <button
+                  type="button"
+                  className={styles.seasonToggle}
+                  onClick={() =>
+                    setExpandedSeason((prev) =>
+                      prev === season.seasonNumber ? null : season.seasonNumber,
+                    )
+                  }
+                  aria-expanded={isExpanded}
+                >
+                  {season.name || `Сезон ${season.seasonNumber}`}
+                  <span className={styles.seasonCount}>
+                    {watchedCount}/{season.episodeCount}
+                  </span>
+                </button>
+                {!readOnly && airedSeasonEpisodes.length > 0 ? (
+                  <button
+                    type="button"
+                    className={styles.linkButton}
+                    onClick={() => void toggleEpisodes(airedSeasonEpisodes, !isSeasonComplete)}
+                    disabled={isSaving}
+                  >
+                    {isSeasonComplete ? "Скинути сезон" : "Весь сезон"}
+                  </button>
+                ) : null}
+              </div>
+              {isExpanded ? (
+                <div className={styles.episodes}>
+                  {seasonEpisodes.map((episode) => {
+                    const key = getTvEpisodeKey(episode);
+                    const isWatched = watchedKeys.has(key);
+                    const isAired = airedKeys.has(key);
+                    return (
+                      <button
+                        key={key}
+                        type="button"
+                        className={`${styles.episode} ${isWatched ? styles.episodeWatched : ""}`}
+                        onClick={() => void toggleEpisodes([episode], !isWatched)}
+                        disabled={readOnly || isSaving || (!isAired && !isWatched)}
+                        aria-pressed={isWatched}
+                        title={formatTvEpisodeCode(episode)}
+                      >
+                        {episode.episodeNumber}
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+      {message ? <p className={styles.hint}>{message}</p> : null}
+    </section>
+  );
+}
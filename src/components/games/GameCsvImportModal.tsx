@@ -0,0 +1,387 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import CloseIconButton from "@/components/ui/CloseIconButton";
+import modalStyles from "@/components/catalog/CatalogSearchModal.module.css";
+import { emitCollectionEntrySaved } from "@/lib/collection/events";
+import { formatCollectionEntryPersonalRating } from "@/lib/collection/existingEntryState";
+import { addGameToCollection } from "@/lib/games/collectionFlow";
+import {
+  buildGameCsvImportPayload,
+  parseGameCsvImport,
+  resolveGameCsvImportMatch,
+  type GameCsvImportCandidate,
+  type GameCsvImportMatchStatus,
+  type GameCsvImportParseError,
+  type GameCsvImportRow,
+} from "@/lib/games/csvImport";
+import { supabase } from "@/lib/supabase/client";
+import styles from "@/components/catalog/CsvImportModal.module.css";
+
+type GameCsvImportModalProps = {
+  onClose: () => void;
+};
+
+type ImportStep = "upload" | "matching" | "review" | "importing" | "done";
+type ReviewFilter = "all" | GameCsvImportMatchStatus;
+
+type ReviewRow = GameCsvImportRow & {
+  key: string;
+  status: GameCsvImportMatchStatus;
+  candidates: GameCsvImportCandidate[];
+  selectedCandidateId: string | null;
+};
+
+type ImportSummary = {
+  imported: number;
+  skippedExisting: number;
+  skippedByUser: number;
+  failed: Array<{ title: string; message: string }>;
+};
+
+const MATCH_BATCH_SIZE = 10;
+
+const STATUS_LABELS: Record<GameCsvImportMatchStatus, string> = {
+  matched: "Знайдено",
+  ambiguous: "Перевірити",
+  unmatched: "Не знайдено",
+};
+
+const formatCandidateLabel = (candidate: GameCsvImportCandidate) =>
+  candidate.released ? `${candidate.title} (${candidate.released.slice(0, 4)})` : candidate.title;
+
+const describeRowState = (row: GameCsvImportRow) => {
+  const state = row.isViewed
+    ? row.viewPercent >= 100
+      ? "Пройдено"
+      : `Закинуто (${row.viewPercent}%)`
+    : "Не зіграно";
+  const rating =
+    row.isViewed && row.rating != null
+      ? `Мій: ${formatCollectionEntryPersonalRating(row.rating)}`
+      : null;
+  return [state, rating, row.platforms.join(", ") || null].filter(Boolean).join(" · ");
+};
+
+export default function GameCsvImportModal({ onClose }: GameCsvImportModalProps) {
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [message, setMessage] = useState("");
+  const [parseErrors, setParseErrors] = useState<GameCsvImportParseError[]>([]);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>("all");
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const isCancelledRef = useRef(false);
+
+  useEffect(() => {
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      isCancelledRef.current = true;
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  const statusCounts = useMemo(
+    () =>
+      rows.reduce(
+        (acc, row) => {
+          acc[row.status] += 1;
+          return acc;
+        },
+        { matched: 0, ambiguous: 0, unmatched: 0 } as Record<GameCsvImportMatchStatus, number>,
+      ),
+    [rows],
+  );
+  const selectedCount = rows.filter((row) => row.selectedCandidateId).length;
+  const unresolvedCount = rows.filter(
+    (row) => row.status === "ambiguous" && !row.selectedCandidateId,
+  ).length;
+  const visibleRows =
+    reviewFilter === "all" ? rows : rows.filter((row) => row.status === reviewFilter);
+
+  const matchRows = async (parsedRows: GameCsvImportRow[]) => {
+    const reviewRows: ReviewRow[] = parsedRows.map((row) => ({
+      ...row,
+      key: String(row.rowNumber),
+      status: "unmatched",
+      candidates: [],
+      selectedCandidateId: null,
+    }));
+    setProgress({ done: 0, total: reviewRows.length });
+
+    for (let offset = 0; offset < reviewRows.length; offset += MATCH_BATCH_SIZE) {
+      if (isCancelledRef.current) return;
+      const batch = reviewRows.slice(offset, offset + MATCH_BATCH_SIZE);
+      const response = await fetch("/api/igdb/import-match", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rows: batch.map((row) => ({ key: row.key, title: row.title })),
+        }),
+      });
+      const data = (await response.json().catch(() => null)) as {
+        matches?: Array<{ key: string; candidates: GameCsvImportCandidate[] }>;
+        error?: string;
+      } | null;
+
+      if (!response.ok) {
+        throw new Error(data?.error || "Не вдалося зіставити ігри з IGDB.");
+      }
+
+      const candidatesByKey = new Map(
+        (data?.matches ?? []).map((match) => [match.key, match.candidates ?? []]),
+      );
+      batch.forEach((row) => {
+        const candidates = candidatesByKey.get(row.key) ?? [];
+        const match = resolveGameCsvImportMatch(row, candidates);
+        row.candidates = candidates;
+        row.status = match.status;
+        row.selectedCandidateId = match.candidateId;
+      });
+      setProgress({
+        done: Math.min(offset + batch.length, reviewRows.length),
+        total: reviewRows.length,
+      });
+    }
+
+    setRows(reviewRows);
+  };
+
+  const handleFileChange = async (file: File | null) => {
+    if (!file) return;
+    setFileName(file.name);
+    setMessage("");
+
+    let parsed: ReturnType<typeof parseGameCsvImport>;
+    try {
+      parsed = parseGameCsvImport(await file.text());
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Не вдалося прочитати CSV.");
+      return;
+    }
+
+    setParseErrors(parsed.errors);
+    if (parsed.rows.length === 0) {
+      setMessage("У файлі немає рядків для імпорту.");
+      return;
+    }
+
+    setStep("matching");
+    try {
+      await matchRows(parsed.rows);
+      if (!isCancelledRef.current) {
+        setStep("review");
+      }
+    } catch (error) {
+      setStep("upload");
+      setMessage(error instanceof Error ? error.message : "Не вдалося зіставити ігри з IGDB.");
+    }
+  };
+
+  const updateSelection = (key: string, candidateId: string | null) => {
+    setRows((prev) =>
+      prev.map((row) => (row.key === key ? { ...row, selectedCandidateId: candidateId } : row)),
+    );
+  };
+
+  const handleImport = async () => {
+    const rowsToImport = rows.filter((row) => row.selectedCandidateId);
+    const nextSummary: ImportSummary = {
+      imported: 0,
+      skippedExisting: 0,
+      skippedByUser: rows.length - rowsToImport.length,
+      failed: [],
+    };
+    setStep("importing");
+    setProgress({ done: 0, total: rowsToImport.length });
+
+    for (const [index, row] of rowsToImport.entries()) {
+      if (isCancelledRef.current) return;
+      const candidate = row.candidates.find((entry) => entry.id === row.selectedCandidateId);
+      if (!candidate) {
+        nextSummary.skippedByUser += 1;
+        continue;
+      }
+
+      try {
+        await addGameToCollection({
+          supabase,
+          game: {
+            ...candidate,
+            poster: candidate.poster || row.coverUrl || "",
+          },
+          payload: buildGameCsvImportPayload(row),
+          allowUpdateExistingView: false,
+        });
+        nextSummary.imported += 1;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Не вдалося зберегти.";
+        if (errorMessage === "Вже у твоїй колекції.") {
+          nextSummary.skippedExisting += 1;
+        } else {
+          nextSummary.failed.push({ title: row.title, message: errorMessage });
+        }
+      }
+      setProgress({ done: index + 1, total: rowsToImport.length });
+    }
+
+    setSummary(nextSummary);
+    setStep("done");
+    if (nextSummary.imported > 0) {
+      emitCollectionEntrySaved({ mediaKind: "game", itemId: null });
+    }
+  };
+
+  const isBusy = step === "matching" || step === "importing";
+
+  return (
+    <div
+      className={modalStyles.overlay}
+      role="dialog"
+      aria-modal="true"
+      onClick={isBusy ? undefined : onClose}
+    >
+      <div className={modalStyles.modal} onClick={(event) => event.stopPropagation()}>
+        <div className={modalStyles.header}>
+          <h2 className={modalStyles.title}>Імпорт ігор з CSV</h2>
+          <CloseIconButton onClick={onClose} />
+        </div>
+        <div className={modalStyles.body}>
+          {step === "upload" ? (
+            <div className={styles.uploadStep}>
+              <p className={styles.hint}>
+                Очікувані колонки: name, platform, added_on, user_rating, labels, notes,
+                image_url_medium. Рейтинг 0–100 перетворюється у шкалу 1–5, мітка
+                &quot;Finished&quot; означає пройдено, &quot;Droped&quot; — закинуто.
+              </p>
+              <label className="btnBase btnPrimary">
+                Обрати файл
+                <input
+                  className={styles.fileInput}
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(event) => {
+                    void handleFileChange(event.target.files?.[0] ?? null);
+                    event.target.value = "";
+                  }}
+                />
+              </label>
+              {fileName ? <p className={styles.hint}>Файл: {fileName}</p> : null}
+            </div>
+          ) : null}
+
+          {isBusy ? (
+            <div className={styles.progress}>
+              <p className={styles.hint}>
+                {step === "matching" ? "Зіставляємо з IGDB" : "Додаємо до колекції"}:{" "}
+                {progress.done} / {progress.total}
+              </p>
+              <progress className={styles.progressBar} value={progress.done} max={progress.total} />
+            </div>
+          ) : null}
+
+          {step === "review" ? (
+            <>
+              <div className={styles.reviewToolbar}>
+                <div className={styles.filterSwitch}>
+                  {(["all", "ambiguous", "unmatched", "matched"] as ReviewFilter[]).map(
+                    (filter) => (
+                      <button
+                        key={filter}
+                        type="button"
+                        className={`${styles.filterButton} ${
+                          reviewFilter === filter ? styles.filterButtonActive : ""
+                        }`}
+                        onClick={() => setReviewFilter(filter)}
+                      >
+                        {filter === "all"
+                          ? `Всі (${rows.length})`
+                          : `${STATUS_LABELS[filter]} (${statusCounts[filter]})`}
+                      </button>
+                    ),
+                  )}
+                </div>
+                <button
+                  type="button"
+                  className="btnBase btnPrimary"
+                  onClick={() => void handleImport()}
+                  disabled={selectedCount === 0}
+                >
+                  Імпортувати ({selectedCount})
+                </button>
+              </div>
+              {unresolvedCount > 0 ? (
+                <p className={styles.hint}>
+                  Рядки «{STATUS_LABELS.ambiguous}» ({unresolvedCount}) не імпортуються, доки не
+                  обереш для них варіант.
+                </p>
+              ) : null}
+              <ul className={styles.reviewList}>
+                {visibleRows.map((row) => (
+                  <li key={row.key} className={styles.reviewRow}>
+                    <div className={styles.reviewSource}>
+                      <span className={styles.reviewTitle}>{row.title}</span>
+                      <span className={styles.reviewMeta}>{describeRowState(row)}</span>
+                    </div>
+                    <span className={`${styles.statusBadge} ${styles[`status_${row.status}`]}`}>
+                      {STATUS_LABELS[row.status]}
+                    </span>
+                    <select
+                      className={styles.candidateSelect}
+                      value={row.selectedCandidateId ?? ""}
+                      onChange={(event) => updateSelection(row.key, event.target.value || null)}
+                    >
+                      <option value="">Пропустити</option>
+                      {row.candidates.map((candidate) => (
+                        <option key={candidate.id} value={candidate.id}>
+                          {formatCandidateLabel(candidate)}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+
+          {step === "done" && summary ? (
+            <div className={styles.summary}>
+              <p>Додано: {summary.imported}</p>
+              <p>Вже були у колекції: {summary.skippedExisting}</p>
+              <p>Пропущено: {summary.skippedByUser}</p>
+              {summary.failed.length > 0 ? (
+                <>
+                  <p>Помилки: {summary.failed.length}</p>
+                  <ul className={styles.failedList}>
+                    {summary.failed.map((entry, index) => (
+                      <li key={`${entry.title}-${index}`}>
+                        {entry.title} — {entry.message}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              ) : null}
+              <button type="button" className="btnBase btnPrimary" onClick={onClose}>
+                Готово
+              </button>
+            </div>
+          ) : null}
+
+          {parseErrors.length > 0 && step !== "done" ? (
+            <p className={styles.hint}>
+              Пропущено рядків з помилками: {parseErrors.length} (
+              {parseErrors
+                .slice(0, 5)
+                .map((error) => `#${error.rowNumber}`)
+                .join(", ")}
+              {parseErrors.length > 5 ? ", …" : ""})
+            </p>
+          ) : null}
+          {message ? <p className={styles.message}>{message}</p> : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,11 @@ import {
   type ReactNode,
 } from "react";
 import styles from "@/components/catalog/CatalogSearch.module.css";
+import {
+  GAME_COMPLETION_STATUS_LABELS,
+  formatGameHoursPlayed,
+  type GameProgressInput,
+} from "@/lib/games/gameProgress";
 
 function ModalDescription({ text }: { text: string }) {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -70,6 +75,39 @@ export const getExternalRatingLabel = (
   return "RAWG";
 };
 
+const formatPlayDate = (value: string) => {
+  const [year, month, day] = value.split("-");
+  return year && month && day ? `${day}.${month}.${year}` : value;
+};
+
+export function GameProgressMeta({ progress }: { progress?: GameProgressInput | null }) {
+  if (!progress) {
+    return null;
+  }
+
+  const statusParts = [
+    progress.completionStatus ? GAME_COMPLETION_STATUS_LABELS[progress.completionStatus] : null,
+    progress.hoursPlayed !== null ? formatGameHoursPlayed(progress.hoursPlayed) : null,
+  ].filter(Boolean);
+  const period =
+    progress.startedAt && progress.finishedAt
+      ? `${formatPlayDate(progress.startedAt)} — ${formatPlayDate(progress.finishedAt)}`
+      : progress.startedAt
+        ? `з ${formatPlayDate(progress.startedAt)}`
+        : progress.finishedAt
+          ? `до ${formatPlayDate(progress.finishedAt)}`
+          : null;
+
+  return (
+    <>
+      {statusParts.length > 0 ? (
+        <p className={styles.resultMeta}>Прогрес: {statusParts.join(" · ")}</p>
+      ) : null}
+      {period ? <p className={styles.resultMeta}>Період гри: {period}</p> : null}
+    </>
+  );
+}
+
 type GameMetadataContentProps = {
   externalRating?: number | string | null;
   externalRatingSource?: "igdb" | "rawg";
@@ -78,6 +116,7 @@ type GameMetadataContentProps = {
   year?: string | null;
   genres?: ReactNode | null;
   description?: string | null;
+  progress?: GameProgressInput | null;
   message?: ReactNode | null;
 };
 
@@ -89,6 +128,7 @@ export default function GameMetadataContent({
   year,
   genres,
   description,
+  progress,
   message,
 }: GameMetadataContentProps) {
   const resolvedGenres = typeof genres === "string" ? genres.trim() : genres;
@@ -105,6 +145,7 @@ export default function GameMetadataContent({
       </div>
       {resolvedYear ? <p className={styles.resultMeta}>Рік: {resolvedYear}</p> : null}
       {resolvedGenres ? <p className={styles.resultMeta}>Жанри: {resolvedGenres}</p> : null}
+      <GameProgressMeta progress={progress} />
       {description ? (
         <ModalDescription text={description} />
       ) : (
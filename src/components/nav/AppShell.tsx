@@ -28,6 +28,8 @@ export default function AppShell({ children }: AppShellProps) {
   const pathname = usePathname();
   const router = useRouter();
   const isAuthRoute = pathname.startsWith("/auth");
+  // Public profiles are readable without a session; signed-in users still get the shell.
+  const isPublicProfileRoute = pathname.startsWith("/u/");
 
   const isCurrentPath = (path: string) => {
     if (path === "/") {
@@ -137,12 +139,12 @@ export default function AppShell({ children }: AppShellProps) {
   }, [hasSession, isAuthRoute]);
 
   useEffect(() => {
-    if (isAuthRoute || pathname === "/") return;
+    if (isAuthRoute || isPublicProfileRoute || pathname === "/") return;
     if (hasSession === false) {
       const currentPath = `${window.location.pathname}${window.location.search}`;
       router.replace(`/auth?redirect=${encodeURIComponent(currentPath)}`);
     }
-  }, [hasSession, isAuthRoute, pathname, router]);
+  }, [hasSession, isAuthRoute, isPublicProfileRoute, pathname, router]);
 
   useEffect(() => {
     // eslint-disable-next-line react-hooks/set-state-in-effect
@@ -165,6 +167,9 @@ export default function AppShell({ children }: AppShellProps) {
     if (pathname === "/") {
       return <HomeUnauthPage />;
     }
+    if (isPublicProfileRoute && hasSession === false) {
+      return <>{children}</>;
+    }
     return null;
   }
 
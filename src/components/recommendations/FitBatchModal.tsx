@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import CloseIconButton from "@/components/ui/CloseIconButton";
+import {
+  formatShishkaFitJobStatus,
+  isShishkaFitJobActive,
+  type ShishkaFitJob,
+} from "@/lib/shishka/fitJob";
+import type { RecommendationRequestOption } from "./RecommendationRequestModal";
+import styles from "./RecommendationRequestModal.module.css";
+
+type FitBatchModalProps = {
+  title: string;
+  scopeLabel: string;
+  options: RecommendationRequestOption[];
+  emptyMessage: string;
+  isLoading: boolean;
+  job: ShishkaFitJob | null;
+  error: string;
+  isStarting: boolean;
+  onStart: (scopeValue: string) => Promise<void>;
+  onClose: () => void;
+};
+
+export default function FitBatchModal({
+  title,
+  scopeLabel,
+  options,
+  emptyMessage,
+  isLoading,
+  job,
+  error,
+  isStarting,
+  onStart,
+  onClose,
+}: FitBatchModalProps) {
+  const [selectedScope, setSelectedScope] = useState("");
+  const isRunning = isShishkaFitJobActive(job);
+  const activeSelectedScope = options.some((option) => option.value === selectedScope)
+    ? selectedScope
+    : (options[0]?.value ?? "");
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className={styles.overlay} role="dialog" aria-modal="true" onClick={onClose}>
+      <div className={styles.modal} onClick={(event) => event.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>{title}</h2>
+          <CloseIconButton className={`${styles.closeButton} btnSecondary`} onClick={onClose} />
+        </div>
+
+        <div className={styles.body}>
+          <p className={styles.empty}>
+            Шишка оцінить усі заплановані тайтли за актуальним профілем. Оцінка йде у фоні:
+            вікно можна закрити або перезавантажити сторінку.
+          </p>
+          {isLoading ? (
+            <p className={styles.empty}>Завантаження доступних варіантів…</p>
+          ) : options.length === 0 ? (
+            <p className={styles.empty}>{emptyMessage}</p>
+          ) : (
+            <label className={styles.label}>
+              {scopeLabel}
+              <div className={styles.options}>
+                {options.map((option) => (
+                  <label key={option.value} className={styles.optionRow}>
+                    <input
+                      className={styles.radio}
+                      type="radio"
+                      name="fit-batch-scope"
+                      value={option.value}
+                      checked={activeSelectedScope === option.value}
+                      onChange={() => setSelectedScope(option.value)}
+                      disabled={isRunning || isStarting}
+                    />
+                    <span>{option.label}</span>
+                  </label>
+                ))}
+              </div>
+            </label>
+          )}
+          {job ? (
+            <div className={styles.label}>
+              {job.scopeValue}
+              <progress
+                className={styles.progress}
+                value={job.processedCount}
+                max={Math.max(job.totalCount, 1)}
+              />
+              <p
+                className={job.status === "failed" ? styles.statusError : styles.status}
+                aria-live="polite"
+              >
+                {formatShishkaFitJobStatus(job)}
+              </p>
+            </div>
+          ) : null}
+        </div>
+
+        {error ? <p className={styles.error}>{error}</p> : null}
+
+        <div className={styles.actions}>
+          <button type="button" className="btnBase btnSecondary" onClick={onClose}>
+            Закрити
+          </button>
+          <button
+            type="button"
+            className="btnBase btnPrimary"
+            onClick={() => {
+              void onStart(activeSelectedScope);
+            }}
+            disabled={isRunning || isStarting || isLoading || !activeSelectedScope}
+          >
+            {isRunning ? "Оцінюємо..." : "Оцінити заплановані"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
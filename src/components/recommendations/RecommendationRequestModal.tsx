@@ -9,6 +9,19 @@ export type RecommendationRequestOption = {
   label: string;
 };
 
+export type RecommendationCandidateStatus = "idle" | "busy" | "planned" | "dismissed" | "failed";
+
+export type RecommendationDismissReason = "not_interested" | "already_seen";
+
+export type RecommendationCandidateView = {
+  key: string;
+  title: string;
+  meta: string;
+  why: string;
+  status: RecommendationCandidateStatus;
+  note?: string;
+};
+
 type RecommendationRequestModalProps = {
   title: string;
   scopeLabel: string;
@@ -21,8 +34,12 @@ type RecommendationRequestModalProps = {
   canPreviewPrompt?: boolean;
   isPreviewingPrompt?: boolean;
   promptPreview?: string;
+  candidates?: RecommendationCandidateView[];
   placeholder: string;
   onClose: () => void;
+  onOpenCandidate?: (key: string) => Promise<void>;
+  onPlanCandidate?: (key: string) => Promise<void>;
+  onDismissCandidate?: (key: string, reason: RecommendationDismissReason) => Promise<void>;
   onPreviewPrompt?: (scopeValue: string, wishes: string) => Promise<void>;
   onSubmit: (scopeValue: string, wishes: string) => Promise<void>;
 };
@@ -41,8 +58,12 @@ export default function RecommendationRequestModal({
   canPreviewPrompt = false,
   isPreviewingPrompt = false,
   promptPreview,
+  candidates = [],
   placeholder,
   onClose,
+  onOpenCandidate,
+  onPlanCandidate,
+  onDismissCandidate,
   onPreviewPrompt,
   onSubmit,
 }: RecommendationRequestModalProps) {
@@ -151,6 +172,82 @@ export default function RecommendationRequestModal({
             {statusMessage}
           </p>
         ) : null}
+        {candidates.length > 0 ? (
+          <ul className={styles.candidates} aria-live="polite">
+            {candidates.map((candidate) => (
+              <li key={candidate.key} className={styles.candidate}>
+                <div className={styles.candidateText}>
+                  <span className={styles.candidateTitle}>{candidate.title}</span>
+                  <span className={styles.candidateMeta}>{candidate.meta}</span>
+                  <p className={styles.candidateWhy}>{candidate.why}</p>
+                  {candidate.note ? (
+                    <span
+                      className={
+                        candidate.status === "failed" ? styles.candidateError : styles.candidateMeta
+                      }
+                    >
+                      {candidate.note}
+                    </span>
+                  ) : null}
+                </div>
+                <div className={styles.candidateActions}>
+                  {onOpenCandidate ? (
+                    <button
+                      type="button"
+                      className="btnBase btnSecondary"
+                      onClick={() => {
+                        void onOpenCandidate(candidate.key);
+                      }}
+                      disabled={candidate.status === "busy" || candidate.status === "dismissed"}
+                    >
+                      Відкрити
+                    </button>
+                  ) : null}
+                  {onPlanCandidate ? (
+                    <button
+                      type="button"
+                      className="btnBase btnPrimary"
+                      onClick={() => {
+                        void onPlanCandidate(candidate.key);
+                      }}
+                      disabled={
+                        candidate.status === "busy"
+                        || candidate.status === "planned"
+                        || candidate.status === "dismissed"
+                      }
+                    >
+                      {candidate.status === "planned" ? "У планах" : "Додати в плани"}
+                    </button>
+                  ) : null}
+                  {onDismissCandidate && candidate.status !== "planned" ? (
+                    <div className={styles.candidateFeedback}>
+                      <button
+                        type="button"
+                        className="btnBase btnSecondary"
+                        onClick={() => {
+                          void onDismissCandidate(candidate.key, "not_interested");
+                        }}
+                        disabled={candidate.status === "busy" || candidate.status === "dismissed"}
+                      >
+                        Не цікаво
+                      </button>
+                      <button
+                        type="button"
+                        className="btnBase btnSecondary"
+                        onClick={() => {
+                          void onDismissCandidate(candidate.key, "already_seen");
+                        }}
+                        disabled={candidate.status === "busy" || candidate.status === "dismissed"}
+                      >
+                        Вже бачив
+                      </button>
+                    </div>
+                  ) : null}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : null}
         {promptPreview ? (
           <div className={styles.previewPanel}>
             <span className={styles.previewLabel}>Prompt preview</span>
@@ -187,7 +284,13 @@ export default function RecommendationRequestModal({
             }}
             disabled={isSubmitting || isLoading || options.length === 0}
           >
-            {isSubmitting ? "Рекомендуємо..." : "Рекомендувати"}
+            {isSubmitting
+              ? candidates.length > 0
+                ? `Рекомендуємо... (${candidates.length})`
+                : "Рекомендуємо..."
+              : candidates.length > 0
+                ? "Ще рекомендації"
+                : "Рекомендувати"}
           </button>
         </div>
       </div>
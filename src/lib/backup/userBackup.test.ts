@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import {
+  USER_BACKUP_FORMAT,
+  USER_BACKUP_VERSION,
+  buildUserBackupViewRestoreRow,
+  getUserBackupItemKey,
+  getUserBackupListKey,
+  parseUserBackup,
+} from "@/lib/backup/userBackup";
+
+const buildEntry = (overrides: Record<string, unknown> = {}) => ({
+  item: {
+    type: "film",
+    filmMediaType: "tv",
+    externalId: "1396",
+    title: "Пуститися берега",
+    year: 2008,
+    ...overrides,
+  },
+  view: {
+    rating: 4.5,
+    isViewed: true,
+    viewPercent: 100,
+    platforms: null,
+  },
+});
+
+describe("user backup", () => {
+  it("builds stable natural keys for catalog items", () => {
+    expect(
+      getUserBackupItemKey({
+        type: "film",
+        filmMediaType: "tv",
+        externalId: "1396",
+        title: "Breaking Bad",
+        year: 2008,
+      }),
+    ).toBe("film:tv:1396");
+    expect(
+      getUserBackupItemKey({
+        type: "game",
+        filmMediaType: null,
+        externalId: "igdb:1942",
+        title: "The Witcher 3",
+        year: 2015,
+      }),
+    ).toBe("game:igdb:1942");
+    expect(
+      getUserBackupItemKey({
+        type: "game",
+        filmMediaType: null,
+        externalId: null,
+        title: " Tetris ",
+        year: null,
+      }),
+    ).toBe("game:title:tetris:");
+  });
+
+  it("parses a backup and fills optional collections", () => {
+    const backup = parseUserBackup(
+      JSON.stringify({
+        format: USER_BACKUP_FORMAT,
+        version: USER_BACKUP_VERSION,
+        exportedAt: "2026-05-01T10:00:00.000Z",
+        entries: [buildEntry()],
+      }),
+    );
+
+    expect(backup.entries[0].item.people).toEqual([]);
+    expect(backup.entries[0].item.genreItems).toEqual([]);
+    expect(backup.entries[0].view.platforms).toEqual([]);
+    expect(backup.profileAnalyses).toEqual([]);
+    expect(backup.contacts).toEqual([]);
+    expect(backup.displayPreferences).toBeNull();
+  });
+
+  it("reads version 1 backups without lists, sessions and recommendations", () => {
+    const backup = parseUserBackup(
+      JSON.stringify({
+        format: USER_BACKUP_FORMAT,
+        version: 1,
+        entries: [buildEntry()],
+      }),
+    );
+
+    expect(backup.version).toBe(USER_BACKUP_VERSION);
+    expect(backup.entries[0].view).toMatchObject({
+      hoursPlayed: null,
+      completionStatus: null,
+      sessions: [],
+      episodes: [],
+      lists: [],
+    });
+    expect(backup.lists).toEqual([]);
+    expect(backup.recommendations).toEqual([]);
+    expect(backup.recommendationCandidates).toEqual([]);
+  });
+
+  it("keeps recommendations with their catalog item and drops broken ones", () => {
+    const backup = parseUserBackup(
+      JSON.stringify({
+        format: USER_BACKUP_FORMAT,
+        version: USER_BACKUP_VERSION,
+        entries: [],
+        recommendations: [
+          {
+            toUserId: "friend-1",
+            toUsername: "olena",
+            item: buildEntry().item,
+            comment: "Глянь",
+            status: "pending",
+          },
+          { toUserId: "friend-2", item: { type: "book", title: "Кобзар" } },
+        ],
+        recommendationCandidates: [
+          { mediaKind: "film", itemKey: "film:tv:1396", title: "Пуститися берега" },
+          { mediaKind: "music", itemKey: "x" },
+        ],
+      }),
+    );
+
+    expect(backup.recommendations).toHaveLength(1);
+    expect(backup.recommendations[0].item.people).toEqual([]);
+    expect(backup.recommendationCandidates).toHaveLength(1);
+  });
+
+  it("rejects foreign files, newer versions and broken entries", () => {
+    expect(() => parseUserBackup("not json")).toThrow("коректним JSON");
+    expect(() => parseUserBackup(JSON.stringify({ format: "other" }))).toThrow(
+      "Це не резервна копія",
+    );
+    expect(() =>
+      parseUserBackup(
+        JSON.stringify({ format: USER_BACKUP_FORMAT, version: USER_BACKUP_VERSION + 1, entries: [] }),
+      ),
+    ).toThrow("не підтримується");
+    expect(() =>
+      parseUserBackup(
+        JSON.stringify({
+          format: USER_BACKUP_FORMAT,
+          version: USER_BACKUP_VERSION,
+          entries: [buildEntry({ type: "book" })],
+        }),
+      ),
+    ).toThrow("некоректні записи");
+  });
+
+  it("maps views to restore rows", () => {
+    const backup = parseUserBackup(
+      JSON.stringify({
+        format: USER_BACKUP_FORMAT,
+        version: USER_BACKUP_VERSION,
+        entries: [buildEntry()],
+      }),
+    );
+
+    expect(buildUserBackupViewRestoreRow("item-1", backup.entries[0].view)).toMatchObject({
+      item_id: "item-1",
+      rating: 4.5,
+      is_viewed: true,
+      view_percent: 100,
+      platforms: [],
+      sessions: [],
+      episodes: [],
+      list_entries: [],
+    });
+  });
+
+  it("maps sessions, episodes and list memberships to restore rows", () => {
+    const entry = buildEntry();
+    const backup = parseUserBackup(
+      JSON.stringify({
+        format: USER_BACKUP_FORMAT,
+        version: USER_BACKUP_VERSION,
+        entries: [
+          {
+            ...entry,
+            view: {
+              ...entry.view,
+              sessions: [
+                { viewedAt: "2024-01-02T00:00:00.000Z", rating: 4, note: null },
+                { viewedAt: "2026-03-04T00:00:00.000Z", rating: 5, note: "Вдруге" },
+              ],
+              episodes: [{ seasonNumber: 1, episodeNumber: 2, watchedAt: "2024-01-01" }],
+              lists: [
+                { listName: " Улюблене ", position: 3 },
+                { listName: "Видалений список", position: 0 },
+              ],
+            },
+          },
+        ],
+      }),
+    );
+
+    const row = buildUserBackupViewRestoreRow(
+      "item-1",
+      backup.entries[0].view,
+      new Map([[getUserBackupListKey("улюблене"), "list-1"]]),
+    );
+    expect(row.sessions).toEqual([
+      { viewed_at: "2024-01-02T00:00:00.000Z", rating: 4, note: null },
+      { viewed_at: "2026-03-04T00:00:00.000Z", rating: 5, note: "Вдруге" },
+    ]);
+    expect(row.episodes).toEqual([
+      { season_number: 1, episode_number: 2, watched_at: "2024-01-01" },
+    ]);
+    expect(row.list_entries).toEqual([{ list_id: "list-1", position: 3 }]);
+  });
+});
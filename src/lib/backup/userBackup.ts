@@ -0,0 +1,313 @@
+import type { FilmNormalizedPerson } from "@/lib/films/normalizedMetadata";
+import type { DisplayPreferences } from "@/lib/settings/displayPreferences";
+
+export const USER_BACKUP_FORMAT = "catalogy-backup";
+export const USER_BACKUP_VERSION = 2;
+
+export type UserBackupGenre = {
+  source: "tmdb" | "rawg" | "igdb";
+  sourceGenreId: string;
+  name: string;
+};
+
+export type UserBackupItem = {
+  type: "film" | "game";
+  filmMediaType: "movie" | "tv" | null;
+  externalId: string | null;
+  title: string;
+  titleUk: string | null;
+  titleEn: string | null;
+  titleOriginal: string | null;
+  description: string | null;
+  genres: string | null;
+  director: string | null;
+  actors: string | null;
+  posterUrl: string | null;
+  imdbRating: string | null;
+  year: number | null;
+  trailers: unknown[] | null;
+  people: FilmNormalizedPerson[];
+  genreItems: UserBackupGenre[];
+};
+
+export type UserBackupView = {
+  rating: number | null;
+  comment: string | null;
+  viewedAt: string | null;
+  isViewed: boolean;
+  viewPercent: number | null;
+  recommendSimilar: boolean;
+  availability: string | null;
+  platforms: string[];
+  shishkaFitLabel: string | null;
+  shishkaFitReason: string | null;
+  shishkaFitProfileAnalyzedAt: string | null;
+  shishkaFitScopeValue: string | null;
+  hoursPlayed: number | null;
+  completionStatus: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string | null;
+  sessions: UserBackupViewSession[];
+  episodes: UserBackupEpisode[];
+  /** Names of the lists the entry belongs to, with its position in each. */
+  lists: UserBackupListEntry[];
+};
+
+export type UserBackupViewSession = {
+  viewedAt: string;
+  rating: number | null;
+  note: string | null;
+};
+
+export type UserBackupEpisode = {
+  seasonNumber: number;
+  episodeNumber: number;
+  watchedAt: string;
+};
+
+export type UserBackupListEntry = {
+  listName: string;
+  position: number;
+};
+
+export type UserBackupList = {
+  name: string;
+  position: number;
+  isShared: boolean;
+};
+
+export type UserBackupEntry = {
+  item: UserBackupItem;
+  view: UserBackupView;
+};
+
+export type UserBackupProfileAnalysis = {
+  mediaKind: "film" | "game";
+  scopeType: "format" | "platform";
+  scopeValue: string;
+  userProfile: unknown;
+  systemProfile: unknown;
+  sourceTitlesCount: number;
+  analyzedAt: string;
+};
+
+export type UserBackupContact = {
+  otherUserId: string;
+  username: string | null;
+  notifyFilmAdded: boolean;
+  notifyFilmViewed: boolean;
+  notifyGameAdded: boolean;
+  notifyGameViewed: boolean;
+};
+
+/**
+ * Recommendations the user sent. Received ones belong to their senders and
+ * come back with the sender's own backup.
+ */
+export type UserBackupRecommendation = {
+  toUserId: string;
+  toUsername: string | null;
+  item: UserBackupItem;
+  comment: string | null;
+  status: "pending" | "accepted" | "dismissed" | "saved";
+  createdAt: string | null;
+};
+
+export type UserBackupRecommendationCandidate = {
+  mediaKind: "film" | "game";
+  scopeValue: string;
+  itemKey: string;
+  title: string;
+  year: string;
+  candidateType: string;
+  why: string;
+  status: "new" | "not_interested" | "already_seen" | "added";
+};
+
+export type UserBackup = {
+  format: typeof USER_BACKUP_FORMAT;
+  version: typeof USER_BACKUP_VERSION;
+  exportedAt: string;
+  username: string | null;
+  displayPreferences: DisplayPreferences | null;
+  entries: UserBackupEntry[];
+  profileAnalyses: UserBackupProfileAnalysis[];
+  contacts: UserBackupContact[];
+  lists: UserBackupList[];
+  recommendations: UserBackupRecommendation[];
+  recommendationCandidates: UserBackupRecommendationCandidate[];
+};
+
+export type UserBackupRestoreMode = "merge" | "overwrite";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Natural key of a catalog item, stable across databases. */
+export const getUserBackupItemKey = (
+  item: Pick<UserBackupItem, "type" | "filmMediaType" | "externalId" | "title" | "year">,
+) =>
+  item.externalId
+    ? item.type === "film"
+      ? `film:${item.filmMediaType ?? "movie"}:${item.externalId}`
+      : `game:${item.externalId}`
+    : `${item.type}:title:${item.title.trim().toLowerCase()}:${item.year ?? ""}`;
+
+const parseRecords = <T>(value: unknown, isValid: (record: Record<string, unknown>) => boolean) =>
+  Array.isArray(value)
+    ? (value.filter((record) => isRecord(record) && isValid(record)) as T[])
+    : [];
+
+const toNullable = <T>(value: T | undefined) => value ?? null;
+
+/** Lists are unique per user by trimmed, case-insensitive name. */
+export const getUserBackupListKey = (name: string) => name.trim().toLowerCase();
+
+/** Version 1 backups predate lists, sessions and episodes; their fields default to empty. */
+export const parseUserBackup = (content: string): UserBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("Файл не є коректним JSON.");
+  }
+
+  if (!isRecord(parsed) || parsed.format !== USER_BACKUP_FORMAT) {
+    throw new Error("Це не резервна копія Catalogy.");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > USER_BACKUP_VERSION) {
+    throw new Error("Версія резервної копії не підтримується. Онови застосунок.");
+  }
+  if (!Array.isArray(parsed.entries)) {
+    throw new Error("Резервна копія пошкоджена: немає записів колекції.");
+  }
+
+  const entries = parsed.entries.filter(
+    (entry): entry is UserBackupEntry =>
+      isRecord(entry) &&
+      isRecord(entry.item) &&
+      isRecord(entry.view) &&
+      (entry.item.type === "film" || entry.item.type === "game") &&
+      typeof entry.item.title === "string",
+  );
+  if (entries.length !== parsed.entries.length) {
+    throw new Error("Резервна копія пошкоджена: є некоректні записи колекції.");
+  }
+
+  return {
+    format: USER_BACKUP_FORMAT,
+    version: USER_BACKUP_VERSION,
+    exportedAt: typeof parsed.exportedAt === "string" ? parsed.exportedAt : "",
+    username: typeof parsed.username === "string" ? parsed.username : null,
+    displayPreferences: isRecord(parsed.displayPreferences)
+      ? (parsed.displayPreferences as DisplayPreferences)
+      : null,
+    entries: entries.map((entry) => ({
+      item: {
+        ...entry.item,
+        people: Array.isArray(entry.item.people) ? entry.item.people : [],
+        genreItems: Array.isArray(entry.item.genreItems) ? entry.item.genreItems : [],
+      },
+      view: {
+        ...entry.view,
+        platforms: Array.isArray(entry.view.platforms) ? entry.view.platforms : [],
+        hoursPlayed: toNullable(entry.view.hoursPlayed),
+        completionStatus: toNullable(entry.view.completionStatus),
+        startedAt: toNullable(entry.view.startedAt),
+        finishedAt: toNullable(entry.view.finishedAt),
+        sessions: parseRecords<UserBackupViewSession>(
+          entry.view.sessions,
+          (session) => typeof session.viewedAt === "string",
+        ),
+        episodes: parseRecords<UserBackupEpisode>(
+          entry.view.episodes,
+          (episode) =>
+            typeof episode.seasonNumber === "number" && typeof episode.episodeNumber === "number",
+        ),
+        lists: parseRecords<UserBackupListEntry>(
+          entry.view.lists,
+          (list) => typeof list.listName === "string",
+        ),
+      },
+    })),
+    profileAnalyses: Array.isArray(parsed.profileAnalyses)
+      ? (parsed.profileAnalyses.filter(isRecord) as UserBackupProfileAnalysis[])
+      : [],
+    contacts: Array.isArray(parsed.contacts)
+      ? (parsed.contacts.filter(
+          (contact) => isRecord(contact) && typeof contact.otherUserId === "string",
+        ) as UserBackupContact[])
+      : [],
+    lists: parseRecords<UserBackupList>(parsed.lists, (list) => typeof list.name === "string"),
+    recommendations: parseRecords<UserBackupRecommendation>(
+      parsed.recommendations,
+      (recommendation) =>
+        typeof recommendation.toUserId === "string" &&
+        isRecord(recommendation.item) &&
+        (recommendation.item.type === "film" || recommendation.item.type === "game") &&
+        typeof recommendation.item.title === "string",
+    ).map((recommendation) => ({
+      ...recommendation,
+      item: {
+        ...recommendation.item,
+        people: Array.isArray(recommendation.item.people) ? recommendation.item.people : [],
+        genreItems: Array.isArray(recommendation.item.genreItems)
+          ? recommendation.item.genreItems
+          : [],
+      },
+    })),
+    recommendationCandidates: parseRecords<UserBackupRecommendationCandidate>(
+      parsed.recommendationCandidates,
+      (candidate) =>
+        (candidate.mediaKind === "film" || candidate.mediaKind === "game") &&
+        typeof candidate.itemKey === "string",
+    ),
+  };
+};
+
+export const buildUserBackupFileName = (timestamp: string) =>
+  `catalogy_backup_${timestamp}.json`;
+
+/**
+ * Row shape expected by the `restore_user_views` RPC. List memberships are
+ * passed as ids of the lists already restored for this account.
+ */
+export const buildUserBackupViewRestoreRow = (
+  itemId: string,
+  view: UserBackupView,
+  listIdsByName: Map<string, string> = new Map(),
+) => ({
+  item_id: itemId,
+  rating: view.rating,
+  comment: view.comment,
+  viewed_at: view.viewedAt,
+  is_viewed: view.isViewed,
+  view_percent: view.viewPercent,
+  recommend_similar: view.recommendSimilar,
+  availability: view.availability,
+  platforms: view.platforms,
+  shishka_fit_label: view.shishkaFitLabel,
+  shishka_fit_reason: view.shishkaFitReason,
+  shishka_fit_profile_analyzed_at: view.shishkaFitProfileAnalyzedAt,
+  shishka_fit_scope_value: view.shishkaFitScopeValue,
+  hours_played: view.hoursPlayed,
+  completion_status: view.completionStatus,
+  started_at: view.startedAt,
+  finished_at: view.finishedAt,
+  created_at: view.createdAt,
+  sessions: view.sessions.map((session) => ({
+    viewed_at: session.viewedAt,
+    rating: session.rating,
+    note: session.note,
+  })),
+  episodes: view.episodes.map((episode) => ({
+    season_number: episode.seasonNumber,
+    episode_number: episode.episodeNumber,
+    watched_at: episode.watchedAt,
+  })),
+  list_entries: view.lists.flatMap((entry) => {
+    const listId = listIdsByName.get(getUserBackupListKey(entry.listName));
+    return listId ? [{ list_id: listId, position: entry.position }] : [];
+  }),
+});
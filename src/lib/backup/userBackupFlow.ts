@@ -0,0 +1,1151 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  USER_BACKUP_FORMAT,
+  USER_BACKUP_VERSION,
+  buildUserBackupViewRestoreRow,
+  getUserBackupItemKey,
+  getUserBackupListKey,
+  type UserBackup,
+  type UserBackupContact,
+  type UserBackupEntry,
+  type UserBackupEpisode,
+  type UserBackupGenre,
+  type UserBackupItem,
+  type UserBackupList,
+  type UserBackupListEntry,
+  type UserBackupProfileAnalysis,
+  type UserBackupRecommendation,
+  type UserBackupRecommendationCandidate,
+  type UserBackupRestoreMode,
+  type UserBackupViewSession,
+} from "@/lib/backup/userBackup";
+import {
+  syncFilmNormalizedMetadata,
+  type FilmNormalizedPerson,
+} from "@/lib/films/normalizedMetadata";
+import { trySyncGameNormalizedGenres } from "@/lib/games/normalizedMetadata";
+import {
+  DEFAULT_GAME_PLATFORM_OPTIONS,
+  isAvailabilityOption,
+  writeDisplayPreferences,
+  type DisplayPreferences,
+} from "@/lib/settings/displayPreferences";
+
+const PAGE_SIZE = 1000;
+const ITEM_METADATA_CHUNK_SIZE = 100;
+const RESTORE_VIEWS_CHUNK_SIZE = 100;
+const VIEW_CHILDREN_CHUNK_SIZE = 150;
+
+const ITEM_COLUMNS =
+  "id, type, film_media_type, external_id, title, title_uk, title_en, title_original, description, genres, director, actors, poster_url, imdb_rating, year, trailers";
+
+const PROFILE_SETTINGS_COLUMNS =
+  "username, settings_show_film_availability, settings_show_game_availability, settings_visible_game_platforms, settings_default_game_platform, settings_default_film_availability, settings_default_game_availability, settings_default_film_is_viewed, settings_default_game_is_viewed";
+
+type ItemRow = {
+  id: string;
+  type: "film" | "game";
+  film_media_type: "movie" | "tv" | null;
+  external_id: string | null;
+  title: string;
+  title_uk: string | null;
+  title_en: string | null;
+  title_original: string | null;
+  description: string | null;
+  genres: string | null;
+  director: string | null;
+  actors: string | null;
+  poster_url: string | null;
+  imdb_rating: string | null;
+  year: number | null;
+  trailers: unknown[] | null;
+};
+
+type ViewRow = {
+  id: string;
+  created_at: string | null;
+  viewed_at: string | null;
+  rating: number | null;
+  comment: string | null;
+  is_viewed: boolean;
+  view_percent: number | null;
+  recommend_similar: boolean | null;
+  availability: string | null;
+  platforms: string[] | null;
+  shishka_fit_label: string | null;
+  shishka_fit_reason: string | null;
+  shishka_fit_profile_analyzed_at: string | null;
+  shishka_fit_scope_value: string | null;
+  hours_played: number | null;
+  completion_status: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  items: ItemRow | ItemRow[] | null;
+};
+
+type ItemPeopleRow = {
+  item_id: string;
+  role_kind: FilmNormalizedPerson["roleKind"];
+  credit_group: FilmNormalizedPerson["creditGroup"];
+  department: string | null;
+  job: string | null;
+  character_name: string | null;
+  credit_order: number | null;
+  is_primary: boolean | null;
+  people: PersonRow | PersonRow[] | null;
+};
+
+type PersonRow = {
+  source_person_id: string;
+  name: string;
+  name_original: string | null;
+  profile_url: string | null;
+};
+
+type ItemGenreRow = {
+  item_id: string;
+  genres: GenreRow | GenreRow[] | null;
+};
+
+type GenreRow = {
+  source: UserBackupGenre["source"];
+  source_genre_id: string;
+  name: string;
+};
+
+type ProfileSettingsRow = {
+  username: string | null;
+  settings_show_film_availability: boolean | null;
+  settings_show_game_availability: boolean | null;
+  settings_visible_game_platforms: string[] | null;
+  settings_default_game_platform: string | null;
+  settings_default_film_availability: string | null;
+  settings_default_game_availability: string | null;
+  settings_default_film_is_viewed: boolean | null;
+  settings_default_game_is_viewed: boolean | null;
+};
+
+type RecommendationRow = {
+  to_user_id: string;
+  comment: string | null;
+  status: UserBackupRecommendation["status"];
+  created_at: string | null;
+  items: ItemRow | ItemRow[] | null;
+};
+
+type RecommendationCandidateRow = {
+  media_kind: UserBackupRecommendationCandidate["mediaKind"];
+  scope_value: string;
+  item_key: string;
+  title: string;
+  year: string;
+  candidate_type: string;
+  why: string;
+  status: UserBackupRecommendationCandidate["status"];
+};
+
+export type UserBackupRestoreSummary = {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: Array<{ title: string; message: string }>;
+  profileAnalyses: number;
+  contacts: number;
+  lists: number;
+  recommendations: number;
+  recommendationCandidates: number;
+  preferencesRestored: boolean;
+};
+
+const unwrapRelation = <T>(value: T | T[] | null) =>
+  Array.isArray(value) ? (value[0] ?? null) : value;
+
+const chunk = <T>(values: T[], size: number) => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < values.length; index += size) {
+    chunks.push(values.slice(index, index + size));
+  }
+  return chunks;
+};
+
+const requireUserId = async (supabase: SupabaseClient) => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error("Потрібна авторизація.");
+  }
+  return user.id;
+};
+
+const mapProfileSettings = (row: ProfileSettingsRow | null): DisplayPreferences => {
+  const visiblePlatforms = (row?.settings_visible_game_platforms ?? []).filter(Boolean);
+  return {
+    showFilmAvailability: row?.settings_show_film_availability ?? true,
+    showGameAvailability: row?.settings_show_game_availability ?? true,
+    visibleGamePlatforms:
+      visiblePlatforms.length > 0 ? visiblePlatforms : [...DEFAULT_GAME_PLATFORM_OPTIONS],
+    defaultGamePlatform: row?.settings_default_game_platform ?? null,
+    defaultFilmAvailability: row?.settings_default_film_availability ?? null,
+    defaultGameAvailability: row?.settings_default_game_availability ?? null,
+    defaultFilmIsViewed:
+      typeof row?.settings_default_film_is_viewed === "boolean"
+        ? row.settings_default_film_is_viewed
+        : null,
+    defaultGameIsViewed:
+      typeof row?.settings_default_game_is_viewed === "boolean"
+        ? row.settings_default_game_is_viewed
+        : null,
+  };
+};
+
+const mapItemRow = (
+  item: ItemRow,
+  people: FilmNormalizedPerson[],
+  genreItems: UserBackupGenre[],
+): UserBackupItem => ({
+  type: item.type,
+  filmMediaType: item.film_media_type,
+  externalId: item.external_id,
+  title: item.title,
+  titleUk: item.title_uk,
+  titleEn: item.title_en,
+  titleOriginal: item.title_original,
+  description: item.description,
+  genres: item.genres,
+  director: item.director,
+  actors: item.actors,
+  posterUrl: item.poster_url,
+  imdbRating: item.imdb_rating,
+  year: item.year,
+  trailers: item.trailers,
+  people,
+  genreItems,
+});
+
+const loadItemMetadata = async (supabase: SupabaseClient, itemIds: string[]) => {
+  const peopleByItemId = new Map<string, FilmNormalizedPerson[]>();
+  const genresByItemId = new Map<string, UserBackupGenre[]>();
+
+  for (const idsChunk of chunk(itemIds, ITEM_METADATA_CHUNK_SIZE)) {
+    const peopleRows: ItemPeopleRow[] = [];
+    // Full casts easily exceed the API row limit, so people are paged separately.
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("item_people")
+        .select(
+          "item_id, role_kind, credit_group, department, job, character_name, credit_order, is_primary, people!inner(source_person_id, name, name_original, profile_url)",
+        )
+        .in("item_id", idsChunk)
+        .order("item_id", { ascending: true })
+        .order("credit_order", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error("Не вдалося завантажити людей і жанри.");
+      }
+      peopleRows.push(...((data ?? []) as ItemPeopleRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const genresRes = await supabase
+      .from("item_genres")
+      .select("item_id, genres!inner(source, source_genre_id, name)")
+      .in("item_id", idsChunk);
+
+    if (genresRes.error) {
+      throw new Error("Не вдалося завантажити людей і жанри.");
+    }
+
+    peopleRows.forEach((row) => {
+      const person = unwrapRelation(row.people);
+      if (!person) return;
+      const list = peopleByItemId.get(row.item_id) ?? [];
+      list.push({
+        tmdbPersonId: person.source_person_id,
+        name: person.name,
+        originalName: person.name_original ?? undefined,
+        roleKind: row.role_kind,
+        creditGroup: row.credit_group,
+        department: row.department,
+        job: row.job,
+        characterName: row.character_name,
+        creditOrder: row.credit_order,
+        isPrimary: Boolean(row.is_primary),
+        profileUrl: person.profile_url,
+      });
+      peopleByItemId.set(row.item_id, list);
+    });
+
+    ((genresRes.data ?? []) as ItemGenreRow[]).forEach((row) => {
+      const genre = unwrapRelation(row.genres);
+      if (!genre) return;
+      const list = genresByItemId.get(row.item_id) ?? [];
+      list.push({ source: genre.source, sourceGenreId: genre.source_genre_id, name: genre.name });
+      genresByItemId.set(row.item_id, list);
+    });
+  }
+
+  return { peopleByItemId, genresByItemId };
+};
+
+const loadPaged = async <T>(
+  load: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>,
+  errorMessage: string,
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await load(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(errorMessage);
+    }
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+};
+
+const loadRowsByViewIds = async <T>(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  viewIds: string[],
+  orderColumn: string,
+) => {
+  const rows: T[] = [];
+  for (const idsChunk of chunk(viewIds, VIEW_CHILDREN_CHUNK_SIZE)) {
+    rows.push(
+      ...(await loadPaged<T>(
+        (from, to) =>
+          supabase
+            .from(table)
+            .select(columns)
+            .in("view_id", idsChunk)
+            .order("view_id", { ascending: true })
+            .order(orderColumn, { ascending: true })
+            .range(from, to),
+        "Не вдалося завантажити історію переглядів і списки.",
+      )),
+    );
+  }
+  return rows;
+};
+
+const groupByViewId = <T extends { view_id: string }, R>(rows: T[], map: (row: T) => R | null) => {
+  const grouped = new Map<string, R[]>();
+  rows.forEach((row) => {
+    const value = map(row);
+    if (value === null) return;
+    const list = grouped.get(row.view_id) ?? [];
+    list.push(value);
+    grouped.set(row.view_id, list);
+  });
+  return grouped;
+};
+
+/** Sessions, episode progress and list memberships of the exported views. */
+const loadViewChildren = async (
+  supabase: SupabaseClient,
+  viewIds: string[],
+  listNamesById: Map<string, string>,
+) => {
+  const sessionRows = await loadRowsByViewIds<{
+    view_id: string;
+    viewed_at: string;
+    rating: number | null;
+    note: string | null;
+  }>(supabase, "user_view_sessions", "view_id, viewed_at, rating, note", viewIds, "viewed_at");
+  const episodeRows = await loadRowsByViewIds<{
+    view_id: string;
+    season_number: number;
+    episode_number: number;
+    watched_at: string;
+  }>(
+    supabase,
+    "user_episode_progress",
+    "view_id, season_number, episode_number, watched_at",
+    viewIds,
+    "watched_at",
+  );
+  const listEntryRows =
+    listNamesById.size > 0
+      ? await loadRowsByViewIds<{ view_id: string; list_id: string; position: number }>(
+          supabase,
+          "user_list_entries",
+          "view_id, list_id, position",
+          viewIds,
+          "position",
+        )
+      : [];
+
+  return {
+    sessionsByViewId: groupByViewId<(typeof sessionRows)[number], UserBackupViewSession>(
+      sessionRows,
+      (row) => ({ viewedAt: row.viewed_at, rating: row.rating, note: row.note }),
+    ),
+    episodesByViewId: groupByViewId<(typeof episodeRows)[number], UserBackupEpisode>(
+      episodeRows,
+      (row) => ({
+        seasonNumber: row.season_number,
+        episodeNumber: row.episode_number,
+        watchedAt: row.watched_at,
+      }),
+    ),
+    listEntriesByViewId: groupByViewId<(typeof listEntryRows)[number], UserBackupListEntry>(
+      listEntryRows,
+      (row) => {
+        const listName = listNamesById.get(row.list_id);
+        return listName ? { listName, position: row.position } : null;
+      },
+    ),
+  };
+};
+
+export const exportUserBackup = async (supabase: SupabaseClient): Promise<UserBackup> => {
+  const userId = await requireUserId(supabase);
+
+  const viewRows: ViewRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("user_views")
+      .select(
+        `id, created_at, viewed_at, rating, comment, is_viewed, view_percent, recommend_similar, availability, platforms, shishka_fit_label, shishka_fit_reason, shishka_fit_profile_analyzed_at, shishka_fit_scope_value, hours_played, completion_status, started_at, finished_at, items:items!inner(${ITEM_COLUMNS})`,
+      )
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error("Не вдалося завантажити колекцію.");
+    }
+    viewRows.push(...((data ?? []) as ViewRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const [listRows, recommendationRows, candidateRows] = await Promise.all([
+    loadPaged<{ id: string; name: string; position: number; is_shared: boolean }>(
+      (from, to) =>
+        supabase
+          .from("user_lists")
+          .select("id, name, position, is_shared")
+          .eq("user_id", userId)
+          .order("position", { ascending: true })
+          .range(from, to),
+      "Не вдалося завантажити списки.",
+    ),
+    loadPaged<RecommendationRow>(
+      (from, to) =>
+        supabase
+          .from("recommendations")
+          .select(`to_user_id, comment, status, created_at, items:items!inner(${ITEM_COLUMNS})`)
+          .eq("from_user_id", userId)
+          .order("created_at", { ascending: true })
+          .range(from, to),
+      "Не вдалося завантажити рекомендації друзям.",
+    ),
+    loadPaged<RecommendationCandidateRow>(
+      (from, to) =>
+        supabase
+          .from("recommendation_candidates")
+          .select(
+            "media_kind, scope_value, item_key, title, year, candidate_type, why, status",
+          )
+          .eq("user_id", userId)
+          .order("created_at", { ascending: true })
+          .range(from, to),
+      "Не вдалося завантажити рекомендації Шишки.",
+    ),
+  ]);
+
+  const itemIds = [...viewRows, ...recommendationRows]
+    .map((row) => unwrapRelation(row.items)?.id)
+    .filter((itemId): itemId is string => Boolean(itemId));
+  const { peopleByItemId, genresByItemId } = await loadItemMetadata(supabase, [
+    ...new Set(itemIds),
+  ]);
+  const { sessionsByViewId, episodesByViewId, listEntriesByViewId } = await loadViewChildren(
+    supabase,
+    viewRows.map((row) => row.id),
+    new Map(listRows.map((row) => [row.id, row.name])),
+  );
+
+  const [profileRes, analysesRes, contactsRes] = await Promise.all([
+    supabase.from("profiles").select(PROFILE_SETTINGS_COLUMNS).eq("id", userId).maybeSingle(),
+    supabase
+      .from("profile_analyses")
+      .select(
+        "media_kind, scope_type, scope_value, user_profile, system_profile, source_titles_count, analyzed_at",
+      )
+      .eq("user_id", userId),
+    supabase
+      .from("contacts")
+      .select(
+        "other_user_id, notify_film_added, notify_film_viewed, notify_game_added, notify_game_viewed",
+      )
+      .eq("user_id", userId)
+      .eq("status", "accepted"),
+  ]);
+
+  if (profileRes.error || analysesRes.error || contactsRes.error) {
+    throw new Error("Не вдалося завантажити налаштування профілю.");
+  }
+
+  const contactRows = (contactsRes.data ?? []) as Array<{
+    other_user_id: string;
+    notify_film_added: boolean;
+    notify_film_viewed: boolean;
+    notify_game_added: boolean;
+    notify_game_viewed: boolean;
+  }>;
+  const usernamesById = new Map<string, string | null>();
+  const otherUserIds = [
+    ...new Set([
+      ...contactRows.map((row) => row.other_user_id),
+      ...recommendationRows.map((row) => row.to_user_id),
+    ]),
+  ];
+  if (otherUserIds.length > 0) {
+    const { data: contactProfiles } = await supabase
+      .from("profiles")
+      .select("id, username")
+      .in("id", otherUserIds);
+    ((contactProfiles ?? []) as Array<{ id: string; username: string | null }>).forEach((row) =>
+      usernamesById.set(row.id, row.username),
+    );
+  }
+
+  const profile = profileRes.data as ProfileSettingsRow | null;
+  const entries: UserBackupEntry[] = viewRows.flatMap((row) => {
+    const item = unwrapRelation(row.items);
+    if (!item) return [];
+    return [
+      {
+        item: mapItemRow(
+          item,
+          peopleByItemId.get(item.id) ?? [],
+          genresByItemId.get(item.id) ?? [],
+        ),
+        view: {
+          rating: row.rating,
+          comment: row.comment,
+          viewedAt: row.viewed_at,
+          isViewed: row.is_viewed,
+          viewPercent: row.view_percent,
+          recommendSimilar: Boolean(row.recommend_similar),
+          availability: row.availability,
+          platforms: row.platforms ?? [],
+          shishkaFitLabel: row.shishka_fit_label,
+          shishkaFitReason: row.shishka_fit_reason,
+          shishkaFitProfileAnalyzedAt: row.shishka_fit_profile_analyzed_at,
+          shishkaFitScopeValue: row.shishka_fit_scope_value,
+          hoursPlayed: row.hours_played,
+          completionStatus: row.completion_status,
+          startedAt: row.started_at,
+          finishedAt: row.finished_at,
+          createdAt: row.created_at,
+          sessions: sessionsByViewId.get(row.id) ?? [],
+          episodes: episodesByViewId.get(row.id) ?? [],
+          lists: listEntriesByViewId.get(row.id) ?? [],
+        },
+      },
+    ];
+  });
+
+  return {
+    format: USER_BACKUP_FORMAT,
+    version: USER_BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    username: profile?.username ?? null,
+    displayPreferences: mapProfileSettings(profile),
+    entries,
+    profileAnalyses: (
+      (analysesRes.data ?? []) as Array<{
+        media_kind: UserBackupProfileAnalysis["mediaKind"];
+        scope_type: UserBackupProfileAnalysis["scopeType"];
+        scope_value: string;
+        user_profile: unknown;
+        system_profile: unknown;
+        source_titles_count: number;
+        analyzed_at: string;
+      }>
+    ).map((row) => ({
+      mediaKind: row.media_kind,
+      scopeType: row.scope_type,
+      scopeValue: row.scope_value,
+      userProfile: row.user_profile,
+      systemProfile: row.system_profile,
+      sourceTitlesCount: row.source_titles_count,
+      analyzedAt: row.analyzed_at,
+    })),
+    contacts: contactRows.map((row) => ({
+      otherUserId: row.other_user_id,
+      username: usernamesById.get(row.other_user_id) ?? null,
+      notifyFilmAdded: row.notify_film_added,
+      notifyFilmViewed: row.notify_film_viewed,
+      notifyGameAdded: row.notify_game_added,
+      notifyGameViewed: row.notify_game_viewed,
+    })),
+    lists: listRows.map(
+      (row): UserBackupList => ({
+        name: row.name,
+        position: row.position,
+        isShared: row.is_shared,
+      }),
+    ),
+    recommendations: recommendationRows.flatMap((row): UserBackupRecommendation[] => {
+      const item = unwrapRelation(row.items);
+      if (!item) return [];
+      return [
+        {
+          toUserId: row.to_user_id,
+          toUsername: usernamesById.get(row.to_user_id) ?? null,
+          item: mapItemRow(
+            item,
+            peopleByItemId.get(item.id) ?? [],
+            genresByItemId.get(item.id) ?? [],
+          ),
+          comment: row.comment,
+          status: row.status,
+          createdAt: row.created_at,
+        },
+      ];
+    }),
+    recommendationCandidates: candidateRows.map(
+      (row): UserBackupRecommendationCandidate => ({
+        mediaKind: row.media_kind,
+        scopeValue: row.scope_value,
+        itemKey: row.item_key,
+        title: row.title,
+        year: row.year,
+        candidateType: row.candidate_type,
+        why: row.why,
+        status: row.status,
+      }),
+    ),
+  };
+};
+
+const findItemId = async (supabase: SupabaseClient, item: UserBackupItem) => {
+  let query = supabase.from("items").select("id").eq("type", item.type);
+  if (item.externalId) {
+    query = query.eq("external_id", item.externalId);
+    if (item.type === "film") {
+      query = query.eq("film_media_type", item.filmMediaType ?? "movie");
+    }
+  } else {
+    query = query.eq("title", item.title);
+    query = item.year ? query.eq("year", item.year) : query.is("year", null);
+  }
+
+  const { data, error } = await query.limit(1).maybeSingle();
+  if (error) {
+    throw new Error("Не вдалося перевірити каталог.");
+  }
+  return (data?.id as string | undefined) ?? null;
+};
+
+const restoreItem = async (supabase: SupabaseClient, item: UserBackupItem) => {
+  const existingId = await findItemId(supabase, item);
+  if (existingId) {
+    return existingId;
+  }
+
+  const { data, error } = await supabase
+    .from("items")
+    .insert({
+      type: item.type,
+      film_media_type: item.type === "film" ? (item.filmMediaType ?? "movie") : null,
+      external_id: item.externalId,
+      title: item.title,
+      title_uk: item.titleUk,
+      title_en: item.titleEn,
+      title_original: item.titleOriginal,
+      description: item.description,
+      genres: item.genres,
+      director: item.director,
+      actors: item.actors,
+      poster_url: item.posterUrl,
+      imdb_rating: item.imdbRating,
+      year: item.year,
+      trailers: item.trailers,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      const racedId = await findItemId(supabase, item);
+      if (racedId) return racedId;
+    }
+    throw new Error("Не вдалося створити запис у каталозі.");
+  }
+
+  // Normalized metadata is only seeded for items this restore created, shared
+  // catalog rows keep whatever the latest metadata refresh wrote.
+  const itemId = data.id as string;
+  if (item.type === "film") {
+    try {
+      await syncFilmNormalizedMetadata(supabase, itemId, {
+        people: item.people.length > 0 ? item.people : null,
+        genres:
+          item.genreItems.length > 0
+            ? item.genreItems
+                .filter((genre) => genre.source === "tmdb")
+                .map((genre) => ({ tmdbGenreId: genre.sourceGenreId, name: genre.name }))
+            : null,
+      });
+    } catch {
+      // The view is still worth restoring without people and genres.
+    }
+  } else if (item.genreItems.length > 0) {
+    await trySyncGameNormalizedGenres(
+      supabase,
+      itemId,
+      item.genreItems
+        .filter((genre) => genre.source !== "tmdb")
+        .map((genre) => ({
+          source: genre.source as "rawg" | "igdb",
+          sourceGenreId: genre.sourceGenreId,
+          name: genre.name,
+        })),
+    );
+  }
+
+  return itemId;
+};
+
+const restoreProfileAnalyses = async (
+  supabase: SupabaseClient,
+  userId: string,
+  analyses: UserBackupProfileAnalysis[],
+  mode: UserBackupRestoreMode,
+) => {
+  if (analyses.length === 0) return 0;
+  const { data, error } = await supabase
+    .from("profile_analyses")
+    .upsert(
+      analyses.map((analysis) => ({
+        user_id: userId,
+        media_kind: analysis.mediaKind,
+        scope_type: analysis.scopeType,
+        scope_value: analysis.scopeValue,
+        user_profile: analysis.userProfile,
+        system_profile: analysis.systemProfile,
+        source_titles_count: analysis.sourceTitlesCount,
+        analyzed_at: analysis.analyzedAt,
+      })),
+      {
+        onConflict: "user_id,media_kind,scope_type,scope_value",
+        ignoreDuplicates: mode === "merge",
+      },
+    )
+    .select("id");
+
+  if (error) {
+    throw new Error("Не вдалося відновити аналіз профілю.");
+  }
+  return data?.length ?? 0;
+};
+
+/**
+ * Maps contacts referenced by a backup to the current account's contacts. A
+ * backup taken on another deployment has different user ids, usernames still match.
+ */
+const loadContactResolver = async (
+  supabase: SupabaseClient,
+  userId: string,
+  references: Array<{ otherUserId: string; username: string | null }>,
+) => {
+  const { data: currentContacts, error } = await supabase
+    .from("contacts")
+    .select("other_user_id, status")
+    .eq("user_id", userId);
+  if (error) {
+    throw new Error("Не вдалося завантажити друзів.");
+  }
+  const contactRows = (currentContacts ?? []) as Array<{ other_user_id: string; status: string }>;
+  const contactIds = new Set(contactRows.map((row) => row.other_user_id));
+  const acceptedIds = new Set(
+    contactRows.filter((row) => row.status === "accepted").map((row) => row.other_user_id),
+  );
+
+  const usernames = references
+    .filter((reference) => !contactIds.has(reference.otherUserId) && reference.username)
+    .map((reference) => reference.username as string);
+  const idsByUsername = new Map<string, string>();
+  if (usernames.length > 0) {
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("id, username")
+      .in("username", [...new Set(usernames)]);
+    ((profiles ?? []) as Array<{ id: string; username: string }>).forEach((row) =>
+      idsByUsername.set(row.username, row.id),
+    );
+  }
+
+  const resolve = (reference: { otherUserId: string; username: string | null }) => {
+    const otherUserId = contactIds.has(reference.otherUserId)
+      ? reference.otherUserId
+      : reference.username
+        ? idsByUsername.get(reference.username)
+        : undefined;
+    return otherUserId && contactIds.has(otherUserId) ? otherUserId : undefined;
+  };
+  return { resolve, isAccepted: (otherUserId: string) => acceptedIds.has(otherUserId) };
+};
+
+const restoreContactFlags = async (
+  supabase: SupabaseClient,
+  userId: string,
+  contacts: UserBackupContact[],
+) => {
+  if (contacts.length === 0) return 0;
+
+  const { resolve } = await loadContactResolver(supabase, userId, contacts);
+  let restored = 0;
+  for (const contact of contacts) {
+    const otherUserId = resolve(contact);
+    if (!otherUserId) continue;
+
+    const { error: updateError } = await supabase
+      .from("contacts")
+      .update({
+        notify_film_added: Boolean(contact.notifyFilmAdded),
+        notify_film_viewed: Boolean(contact.notifyFilmViewed),
+        notify_game_added: Boolean(contact.notifyGameAdded),
+        notify_game_viewed: Boolean(contact.notifyGameViewed),
+      })
+      .eq("user_id", userId)
+      .eq("other_user_id", otherUserId);
+    if (!updateError) {
+      restored += 1;
+    }
+  }
+  return restored;
+};
+
+/**
+ * Creates missing lists by name and returns ids for every list in the backup.
+ * In "overwrite" mode existing lists also take the backup's order and sharing.
+ */
+const restoreLists = async (
+  supabase: SupabaseClient,
+  userId: string,
+  lists: UserBackupList[],
+  mode: UserBackupRestoreMode,
+) => {
+  const listIdsByName = new Map<string, string>();
+  if (lists.length === 0) return { listIdsByName, restored: 0 };
+
+  const { data, error } = await supabase
+    .from("user_lists")
+    .select("id, name")
+    .eq("user_id", userId);
+  if (error) {
+    throw new Error("Не вдалося завантажити списки.");
+  }
+  ((data ?? []) as Array<{ id: string; name: string }>).forEach((row) =>
+    listIdsByName.set(getUserBackupListKey(row.name), row.id),
+  );
+
+  let restored = 0;
+  for (const list of lists) {
+    const key = getUserBackupListKey(list.name);
+    const existingId = listIdsByName.get(key);
+    if (existingId) {
+      if (mode !== "overwrite") continue;
+      const { error: updateError } = await supabase
+        .from("user_lists")
+        .update({ position: list.position, is_shared: Boolean(list.isShared) })
+        .eq("id", existingId);
+      if (!updateError) restored += 1;
+      continue;
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from("user_lists")
+      .insert({
+        user_id: userId,
+        name: list.name.trim(),
+        position: list.position,
+        is_shared: Boolean(list.isShared),
+      })
+      .select("id")
+      .single();
+    if (insertError) {
+      throw new Error("Не вдалося відновити списки.");
+    }
+    listIdsByName.set(key, created.id as string);
+    restored += 1;
+  }
+  return { listIdsByName, restored };
+};
+
+/**
+ * Re-sends recommendations to friends that are still accepted contacts, the
+ * same rule `send_recommendation` applies. Existing ones are not duplicated.
+ */
+const restoreRecommendations = async (
+  supabase: SupabaseClient,
+  userId: string,
+  recommendations: UserBackupRecommendation[],
+  failed: UserBackupRestoreSummary["failed"],
+) => {
+  if (recommendations.length === 0) return 0;
+
+  const { resolve, isAccepted } = await loadContactResolver(
+    supabase,
+    userId,
+    recommendations.map((recommendation) => ({
+      otherUserId: recommendation.toUserId,
+      username: recommendation.toUsername,
+    })),
+  );
+
+  let restored = 0;
+  for (const recommendation of recommendations) {
+    const toUserId = resolve({
+      otherUserId: recommendation.toUserId,
+      username: recommendation.toUsername,
+    });
+    if (!toUserId || !isAccepted(toUserId)) continue;
+
+    try {
+      const itemId = await restoreItem(supabase, recommendation.item);
+      const { data: existing, error: existingError } = await supabase
+        .from("recommendations")
+        .select("id")
+        .eq("from_user_id", userId)
+        .eq("to_user_id", toUserId)
+        .eq("item_id", itemId)
+        .limit(1);
+      if (existingError) {
+        throw new Error("Не вдалося перевірити рекомендації.");
+      }
+      if ((existing ?? []).length > 0) continue;
+
+      const { error } = await supabase.from("recommendations").insert({
+        from_user_id: userId,
+        to_user_id: toUserId,
+        item_id: itemId,
+        comment: recommendation.comment,
+        status: recommendation.status,
+        ...(recommendation.createdAt ? { created_at: recommendation.createdAt } : {}),
+      });
+      if (error) {
+        throw new Error("Не вдалося відновити рекомендацію.");
+      }
+      restored += 1;
+    } catch (error) {
+      failed.push({
+        title: recommendation.item.title,
+        message: error instanceof Error ? error.message : "Не вдалося відновити рекомендацію.",
+      });
+    }
+  }
+  return restored;
+};
+
+const restoreRecommendationCandidates = async (
+  supabase: SupabaseClient,
+  userId: string,
+  candidates: UserBackupRecommendationCandidate[],
+  mode: UserBackupRestoreMode,
+) => {
+  let restored = 0;
+  for (const candidatesChunk of chunk(candidates, RESTORE_VIEWS_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from("recommendation_candidates")
+      .upsert(
+        candidatesChunk.map((candidate) => ({
+          user_id: userId,
+          media_kind: candidate.mediaKind,
+          scope_value: candidate.scopeValue,
+          item_key: candidate.itemKey,
+          title: candidate.title,
+          year: candidate.year ?? "",
+          candidate_type: candidate.candidateType ?? "",
+          why: candidate.why ?? "",
+          status: candidate.status,
+        })),
+        {
+          onConflict: "user_id,media_kind,item_key",
+          ignoreDuplicates: mode === "merge",
+        },
+      )
+      .select("id");
+
+    if (error) {
+      throw new Error("Не вдалося відновити рекомендації Шишки.");
+    }
+    restored += data?.length ?? 0;
+  }
+  return restored;
+};
+
+const restoreDisplayPreferences = async (
+  supabase: SupabaseClient,
+  userId: string,
+  preferences: DisplayPreferences,
+) => {
+  const platformOptions = DEFAULT_GAME_PLATFORM_OPTIONS as readonly string[];
+  const visibleGamePlatforms = (preferences.visibleGamePlatforms ?? []).filter((platform) =>
+    platformOptions.includes(platform),
+  );
+  const normalized: DisplayPreferences = {
+    showFilmAvailability: preferences.showFilmAvailability ?? true,
+    showGameAvailability: preferences.showGameAvailability ?? true,
+    visibleGamePlatforms:
+      visibleGamePlatforms.length > 0 ? visibleGamePlatforms : [...DEFAULT_GAME_PLATFORM_OPTIONS],
+    defaultGamePlatform:
+      preferences.defaultGamePlatform &&
+      visibleGamePlatforms.includes(preferences.defaultGamePlatform)
+        ? preferences.defaultGamePlatform
+        : null,
+    defaultFilmAvailability: isAvailabilityOption(preferences.defaultFilmAvailability)
+      ? preferences.defaultFilmAvailability
+      : null,
+    defaultGameAvailability: isAvailabilityOption(preferences.defaultGameAvailability)
+      ? preferences.defaultGameAvailability
+      : null,
+    defaultFilmIsViewed:
+      typeof preferences.defaultFilmIsViewed === "boolean" ? preferences.defaultFilmIsViewed : null,
+    defaultGameIsViewed:
+      typeof preferences.defaultGameIsViewed === "boolean" ? preferences.defaultGameIsViewed : null,
+  };
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({
+      settings_show_film_availability: normalized.showFilmAvailability,
+      settings_show_game_availability: normalized.showGameAvailability,
+      settings_visible_game_platforms: normalized.visibleGamePlatforms,
+      settings_default_game_platform: normalized.defaultGamePlatform,
+      settings_default_film_availability: normalized.defaultFilmAvailability,
+      settings_default_game_availability: normalized.defaultGameAvailability,
+      settings_default_film_is_viewed: normalized.defaultFilmIsViewed,
+      settings_default_game_is_viewed: normalized.defaultGameIsViewed,
+    })
+    .eq("id", userId);
+
+  if (error) {
+    throw new Error("Не вдалося відновити налаштування.");
+  }
+  writeDisplayPreferences(normalized);
+};
+
+/**
+ * Restores a backup into the signed-in account. Items are matched by their
+ * external ids, so running the same backup twice does not create duplicates.
+ * In "merge" mode existing entries (with their sessions, episodes and list
+ * memberships), lists, analyses and settings are left untouched; "overwrite"
+ * replaces them with the backup values.
+ */
+export const restoreUserBackup = async ({
+  supabase,
+  backup,
+  mode,
+  onProgress,
+}: {
+  supabase: SupabaseClient;
+  backup: UserBackup;
+  mode: UserBackupRestoreMode;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<UserBackupRestoreSummary> => {
+  const userId = await requireUserId(supabase);
+  const summary: UserBackupRestoreSummary = {
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    failed: [],
+    profileAnalyses: 0,
+    contacts: 0,
+    lists: 0,
+    recommendations: 0,
+    recommendationCandidates: 0,
+    preferencesRestored: false,
+  };
+
+  const { listIdsByName, restored: restoredLists } = await restoreLists(
+    supabase,
+    userId,
+    backup.lists,
+    mode,
+  );
+  summary.lists = restoredLists;
+
+  const entriesByKey = new Map<string, UserBackupEntry>();
+  backup.entries.forEach((entry) => entriesByKey.set(getUserBackupItemKey(entry.item), entry));
+  const entries = [...entriesByKey.values()];
+  const total = entries.length;
+  let done = 0;
+
+  for (const entriesChunk of chunk(entries, RESTORE_VIEWS_CHUNK_SIZE)) {
+    const rows: ReturnType<typeof buildUserBackupViewRestoreRow>[] = [];
+    const restoredEntries: UserBackupEntry[] = [];
+    for (const entry of entriesChunk) {
+      try {
+        const itemId = await restoreItem(supabase, entry.item);
+        rows.push(buildUserBackupViewRestoreRow(itemId, entry.view, listIdsByName));
+        restoredEntries.push(entry);
+      } catch (error) {
+        summary.failed.push({
+          title: entry.item.title,
+          message: error instanceof Error ? error.message : "Не вдалося відновити запис.",
+        });
+      }
+    }
+
+    if (rows.length > 0) {
+      const { data, error } = await supabase.rpc("restore_user_views", {
+        p_entries: rows,
+        p_overwrite: mode === "overwrite",
+      });
+      if (error) {
+        restoredEntries.forEach((entry) =>
+          summary.failed.push({
+            title: entry.item.title,
+            message: "Не вдалося зберегти у колекцію.",
+          }),
+        );
+      } else {
+        const counts = (data ?? {}) as { created?: number; updated?: number; skipped?: number };
+        summary.created += counts.created ?? 0;
+        summary.updated += counts.updated ?? 0;
+        summary.skipped += counts.skipped ?? 0;
+      }
+    }
+
+    done += entriesChunk.length;
+    onProgress?.(done, total);
+  }
+
+  summary.profileAnalyses = await restoreProfileAnalyses(
+    supabase,
+    userId,
+    backup.profileAnalyses,
+    mode,
+  );
+  summary.recommendations = await restoreRecommendations(
+    supabase,
+    userId,
+    backup.recommendations,
+    summary.failed,
+  );
+  summary.recommendationCandidates = await restoreRecommendationCandidates(
+    supabase,
+    userId,
+    backup.recommendationCandidates,
+    mode,
+  );
+
+  if (mode === "overwrite") {
+    summary.contacts = await restoreContactFlags(supabase, userId, backup.contacts);
+    if (backup.displayPreferences) {
+      await restoreDisplayPreferences(supabase, userId, backup.displayPreferences);
+      summary.preferencesRestored = true;
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  findDuplicateGroups,
+  toDuplicateTitleKey,
+  type DuplicateScanItem,
+} from "@/lib/catalog/duplicates";
+
+const item = (id: string, overrides: Partial<DuplicateScanItem> = {}): DuplicateScanItem => ({
+  id,
+  type: "film",
+  title: id,
+  title_uk: null,
+  title_en: null,
+  title_original: null,
+  year: 2010,
+  external_id: null,
+  film_media_type: null,
+  ...overrides,
+});
+
+describe("catalog duplicates", () => {
+  it("normalizes case, accents and punctuation in titles", () => {
+    expect(toDuplicateTitleKey("  Pokémon: Let’s Go!  ")).toBe("pokemon let s go");
+  });
+
+  it("groups by external id or title and year, suggesting the most used survivor", () => {
+    const groups = findDuplicateGroups(
+      [
+        item("omdb", { title: "Inception", external_id: "tt1375666" }),
+        item("tmdb", {
+          title: "Початок",
+          title_original: "Inception",
+          external_id: "27205",
+          film_media_type: "movie",
+        }),
+        item("tmdb-again", { title: "Початок", external_id: "27205 " }),
+        item("remake", { title: "Inception", year: 2031 }),
+        item("game", { type: "game", title: "Inception" }),
+      ],
+      new Map([["tmdb", 3]]),
+    );
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].reasons).toEqual(["external_id", "title_year"]);
+    expect(groups[0].items.map((entry) => entry.id)).toEqual(["tmdb", "omdb", "tmdb-again"]);
+  });
+
+  it("keeps a film and a series with the same title apart", () => {
+    expect(
+      findDuplicateGroups([
+        item("movie", { title: "Fargo", film_media_type: "movie" }),
+        item("tv", { title: "Fargo", film_media_type: "tv" }),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("checks the format against the whole group, not only the first match", () => {
+    const groups = findDuplicateGroups([
+      item("unknown", { title: "Fargo", year: 1996 }),
+      item("movie", { title: "Fargo", year: 1996, film_media_type: "movie" }),
+      item("tv", { title: "Fargo", year: 1996, film_media_type: "tv" }),
+      item("tv-again", { title: "Fargo", year: 1996, film_media_type: "tv" }),
+    ]);
+
+    expect(groups.map((group) => group.items.map((entry) => entry.id).sort())).toEqual([
+      ["movie", "unknown"],
+      ["tv", "tv-again"],
+    ]);
+  });
+});
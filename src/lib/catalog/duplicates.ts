@@ -0,0 +1,237 @@
+import type { getSupabaseAdmin } from "@/lib/supabase/admin";
+import { normalizeEnglishTitle, normalizeTitle } from "@/lib/films/collectionFlow";
+
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
+
+const PAGE_SIZE = 1000;
+const VIEW_COUNT_CHUNK_SIZE = 150;
+
+export type DuplicateScanItem = {
+  id: string;
+  type: "film" | "game";
+  title: string;
+  title_uk: string | null;
+  title_en: string | null;
+  title_original: string | null;
+  year: number | null;
+  external_id: string | null;
+  film_media_type: "movie" | "tv" | null;
+};
+
+export type DuplicateMatchReason = "external_id" | "title_year";
+
+export type DuplicateGroupItem = DuplicateScanItem & { viewCount: number };
+
+export type DuplicateGroup = {
+  reasons: DuplicateMatchReason[];
+  /** Suggested survivor first: most collection entries, then a known TV/movie format. */
+  items: DuplicateGroupItem[];
+};
+
+export type ItemMergeSummary = {
+  movedViews: number;
+  /** Entries of users who had both items, folded into their survivor entry. */
+  mergedViews: number;
+  movedSessions: number;
+  movedListEntries: number;
+  movedEpisodes: number;
+  movedComments: number;
+  movedReactions: number;
+  movedRecommendations: number;
+  movedPeople: number;
+  movedGenres: number;
+  movedCompanies: number;
+  movedFranchises: number;
+  movedActivityEvents: number;
+};
+
+export const DUPLICATE_SCAN_ITEM_COLUMNS =
+  "id, type, title, title_uk, title_en, title_original, year, external_id, film_media_type";
+
+/** Case-, punctuation- and whitespace-insensitive form of a title for matching. */
+export const toDuplicateTitleKey = (value?: string | null) =>
+  (normalizeTitle(value) ?? "")
+    .toLocaleLowerCase("uk")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const getMatchKeys = (item: DuplicateScanItem) => {
+  const keys: { key: string; reason: DuplicateMatchReason }[] = [];
+  const externalId = item.external_id?.trim().toLowerCase();
+  if (externalId) {
+    keys.push({ key: `ext:${item.type}:${externalId}`, reason: "external_id" });
+  }
+  if (item.year) {
+    const titles = [
+      item.title,
+      item.title_uk,
+      normalizeEnglishTitle(item.title_en, item.title_original),
+      item.title_original,
+    ];
+    new Set(titles.map(toDuplicateTitleKey).filter(Boolean)).forEach((titleKey) => {
+      keys.push({ key: `title:${item.type}:${titleKey}:${item.year}`, reason: "title_year" });
+    });
+  }
+  return keys;
+};
+
+/**
+ * Groups items that share an external id or a normalized title and year. A
+ * film and a series with the same title are kept apart when both formats are
+ * known, also when an item of unknown format matches both of them.
+ */
+export const findDuplicateGroups = (
+  items: DuplicateScanItem[],
+  viewCounts: Map<string, number> = new Map(),
+): DuplicateGroup[] => {
+  const parent = new Map(items.map((item) => [item.id, item.id]));
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id;
+    if (root === id) return id;
+    const resolved = find(root);
+    parent.set(id, resolved);
+    return resolved;
+  };
+  const reasonsByRoot = new Map<string, Set<DuplicateMatchReason>>();
+  const typeByRoot = new Map(items.map((item) => [item.id, item.type]));
+  const mediaTypeByRoot = new Map(items.map((item) => [item.id, item.film_media_type]));
+  const idsByKey = new Map<string, string[]>();
+
+  const union = (leftId: string, rightId: string, reason: DuplicateMatchReason) => {
+    const leftRoot = find(leftId);
+    const rightRoot = find(rightId);
+    if (leftRoot === rightRoot) {
+      reasonsByRoot.get(leftRoot)?.add(reason);
+      return;
+    }
+    const leftMediaType = mediaTypeByRoot.get(leftRoot);
+    const rightMediaType = mediaTypeByRoot.get(rightRoot);
+    if (
+      typeByRoot.get(leftRoot) !== typeByRoot.get(rightRoot) ||
+      (leftMediaType && rightMediaType && leftMediaType !== rightMediaType)
+    ) {
+      return;
+    }
+    parent.set(rightRoot, leftRoot);
+    mediaTypeByRoot.set(leftRoot, leftMediaType ?? rightMediaType ?? null);
+    reasonsByRoot.set(
+      leftRoot,
+      new Set([
+        ...(reasonsByRoot.get(leftRoot) ?? []),
+        ...(reasonsByRoot.get(rightRoot) ?? []),
+        reason,
+      ]),
+    );
+  };
+
+  items.forEach((item) => {
+    getMatchKeys(item).forEach(({ key, reason }) => {
+      const ids = idsByKey.get(key) ?? [];
+      ids.forEach((id) => union(id, item.id, reason));
+      ids.push(item.id);
+      idsByKey.set(key, ids);
+    });
+  });
+
+  const groups = new Map<string, DuplicateGroupItem[]>();
+  items.forEach((item) => {
+    const root = find(item.id);
+    const group = groups.get(root) ?? [];
+    group.push({ ...item, viewCount: viewCounts.get(item.id) ?? 0 });
+    groups.set(root, group);
+  });
+
+  return [...groups.entries()]
+    .filter(([, groupItems]) => groupItems.length > 1)
+    .map(([root, groupItems]) => ({
+      reasons: [...(reasonsByRoot.get(root) ?? [])].sort(),
+      items: groupItems.sort(
+        (left, right) =>
+          right.viewCount - left.viewCount ||
+          Number(Boolean(right.film_media_type)) - Number(Boolean(left.film_media_type)) ||
+          left.id.localeCompare(right.id),
+      ),
+    }))
+    .sort((left, right) => left.items[0].title.localeCompare(right.items[0].title, "uk"));
+};
+
+/** Scans the whole catalog; view counts are loaded only for items that have a duplicate. */
+export const loadDuplicateGroups = async (supabaseAdmin: SupabaseAdmin) => {
+  const items: DuplicateScanItem[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from("items")
+      .select(DUPLICATE_SCAN_ITEM_COLUMNS)
+      .in("type", ["film", "game"])
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message || "Не вдалося завантажити каталог.");
+    }
+    items.push(...((data ?? []) as DuplicateScanItem[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const candidateIds = findDuplicateGroups(items).flatMap((group) =>
+    group.items.map((item) => item.id),
+  );
+  const viewCounts = new Map<string, number>();
+
+  for (let offset = 0; offset < candidateIds.length; offset += VIEW_COUNT_CHUNK_SIZE) {
+    const chunk = candidateIds.slice(offset, offset + VIEW_COUNT_CHUNK_SIZE);
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from("user_views")
+        .select("item_id")
+        .in("item_id", chunk)
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(error.message || "Не вдалося порахувати записи користувачів.");
+      }
+      ((data ?? []) as Array<{ item_id: string }>).forEach((row) => {
+        viewCounts.set(row.item_id, (viewCounts.get(row.item_id) ?? 0) + 1);
+      });
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  const candidateIdSet = new Set(candidateIds);
+  return findDuplicateGroups(
+    items.filter((item) => candidateIdSet.has(item.id)),
+    viewCounts,
+  );
+};
+
+/** Merges each duplicate into the survivor in its own transaction (`merge_items`). */
+export const mergeDuplicateItems = async ({
+  supabaseAdmin,
+  survivorId,
+  duplicateIds,
+}: {
+  supabaseAdmin: SupabaseAdmin;
+  survivorId: string;
+  duplicateIds: string[];
+}) => {
+  const results: Array<
+    { duplicateId: string } & ({ summary: ItemMergeSummary } | { error: string })
+  > = [];
+
+  for (const duplicateId of duplicateIds) {
+    const { data, error } = await supabaseAdmin.rpc("merge_items", {
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId,
+    });
+    results.push(
+      error
+        ? { duplicateId, error: error.message || "Не вдалося об’єднати записи." }
+        : { duplicateId, summary: data as ItemMergeSummary },
+    );
+  }
+
+  return results;
+};
@@ -1,6 +1,7 @@
 "use client";
 
 import { supabase } from "@/lib/supabase/client";
+import { normalizeGameProgress } from "@/lib/games/gameProgress";
 import { normalizeGamePlatforms } from "@/lib/games/platforms";
 import type { GameNormalizedGenre } from "@/lib/games/normalizedMetadata";
 import type { ShishkaFitAssessment } from "@/lib/shishka/fitAssessment";
@@ -20,7 +21,7 @@ export const loadGameGenreEditEntry = async (
   const { data, error } = await supabase
     .from("user_views")
     .select(
-      "id, viewed_at, comment, recommend_similar, is_viewed, rating, view_percent, availability, platforms, shishka_fit_label, shishka_fit_reason, shishka_fit_profile_analyzed_at, shishka_fit_scope_value, items!inner(id, title, description, genres, poster_url, external_id, year, imdb_rating, type, trailers)",
+      "id, viewed_at, comment, recommend_similar, is_viewed, rating, view_percent, availability, platforms, hours_played, completion_status, started_at, finished_at, shishka_fit_label, shishka_fit_reason, shishka_fit_profile_analyzed_at, shishka_fit_scope_value, items!inner(id, title, description, genres, poster_url, external_id, year, imdb_rating, type, trailers)",
     )
     .eq("id", viewId)
     .eq("user_id", user.id)
@@ -91,6 +92,7 @@ export const loadGameGenreEditEntry = async (
     viewPercent: data.view_percent,
     availability: data.availability,
     platforms: normalizeGamePlatforms(data.platforms),
+    gameProgress: normalizeGameProgress(data),
     shishkaFitLabel: (data.shishka_fit_label as ShishkaFitAssessment["label"] | null) ?? null,
     shishkaFitReason: data.shishka_fit_reason ?? null,
     shishkaFitProfileAnalyzedAt: data.shishka_fit_profile_analyzed_at ?? null,
@@ -1,7 +1,9 @@
 "use client";
 
 import type { FilmNormalizedPerson } from "@/lib/films/normalizedMetadata";
+import type { TvLastAiredEpisode, TvSeason } from "@/lib/films/tvProgress";
 import type { GameCollectionTrailer } from "@/lib/games/collectionFlow";
+import type { GameCompletionStatus, GameProgressInput } from "@/lib/games/gameProgress";
 import type { GameNormalizedGenre } from "@/lib/games/normalizedMetadata";
 import type { ShishkaFitAssessment } from "@/lib/shishka/fitAssessment";
 
@@ -51,6 +53,9 @@ export type FilmEditEntryView = {
     trailers: FilmCollectionTrailer[] | null;
     year?: number | null;
     type: string;
+    tv_seasons?: TvSeason[] | null;
+    tv_last_aired_episode?: TvLastAiredEpisode | null;
+    tv_structure_synced_at?: string | null;
   };
 };
 
@@ -71,6 +76,10 @@ export type GameEditEntryView = {
   is_viewed: boolean;
   availability: string | null;
   platforms: string[] | null;
+  hours_played?: number | null;
+  completion_status?: GameCompletionStatus | null;
+  started_at?: string | null;
+  finished_at?: string | null;
   shishka_fit_label?: ShishkaFitAssessment["label"] | null;
   shishka_fit_reason?: string | null;
   shishka_fit_profile_analyzed_at?: string | null;
@@ -103,6 +112,7 @@ export type GameGenreEditEntryView = {
   viewPercent: number;
   availability: string | null;
   platforms: string[];
+  gameProgress: GameProgressInput;
   shishkaFitLabel: ShishkaFitAssessment["label"] | null;
   shishkaFitReason: string | null;
   shishkaFitProfileAnalyzedAt: string | null;
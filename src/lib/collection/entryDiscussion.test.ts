@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCommentThreads,
+  canDeleteEntryComment,
+  getEntryCommentValidationError,
+  summarizeReactions,
+  type EntryComment,
+} from "@/lib/collection/entryDiscussion";
+
+const comment = (
+  id: string,
+  createdAt: string,
+  parentCommentId: string | null = null,
+): EntryComment => ({
+  id,
+  viewId: "view-1",
+  authorUserId: `author-${id}`,
+  authorName: id,
+  parentCommentId,
+  body: `body ${id}`,
+  createdAt,
+});
+
+describe("entry discussion", () => {
+  it("nests replies under their parents in chronological order", () => {
+    const threads = buildCommentThreads([
+      comment("c", "2026-05-01T12:00:00Z", "a"),
+      comment("a", "2026-05-01T10:00:00Z"),
+      comment("b", "2026-05-01T11:00:00Z"),
+      comment("d", "2026-05-01T13:00:00Z", "c"),
+      comment("orphan", "2026-05-01T09:00:00Z", "missing"),
+    ]);
+
+    expect(threads.map((thread) => thread.id)).toEqual(["orphan", "a", "b"]);
+    expect(threads[1].replies.map((reply) => reply.id)).toEqual(["c"]);
+    expect(threads[1].replies[0].replies.map((reply) => reply.id)).toEqual(["d"]);
+  });
+
+  it("summarizes reactions in picker order and marks the viewer's own", () => {
+    expect(
+      summarizeReactions(
+        [
+          { userId: "u1", emoji: "🔥" },
+          { userId: "u2", emoji: "👍" },
+          { userId: "u1", emoji: "👍" },
+          { userId: "u3", emoji: "unknown" },
+        ],
+        "u1",
+      ),
+    ).toEqual([
+      { emoji: "👍", count: 2, reactedByMe: true },
+      { emoji: "🔥", count: 1, reactedByMe: true },
+    ]);
+  });
+
+  it("validates bodies and delete permissions", () => {
+    expect(getEntryCommentValidationError("   ")).toMatch(/порожнім/);
+    expect(getEntryCommentValidationError("x".repeat(2001))).toMatch(/2000/);
+    expect(getEntryCommentValidationError(" ok ")).toBeNull();
+
+    const target = { authorUserId: "friend" };
+    expect(
+      canDeleteEntryComment({ comment: target, currentUserId: "friend", entryOwnerUserId: "me" }),
+    ).toBe(true);
+    expect(
+      canDeleteEntryComment({ comment: target, currentUserId: "me", entryOwnerUserId: "me" }),
+    ).toBe(true);
+    expect(
+      canDeleteEntryComment({ comment: target, currentUserId: "other", entryOwnerUserId: "me" }),
+    ).toBe(false);
+  });
+});
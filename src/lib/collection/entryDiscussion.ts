@@ -0,0 +1,95 @@
+export const ENTRY_REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🔥"] as const;
+
+export type EntryReactionEmoji = (typeof ENTRY_REACTION_EMOJIS)[number];
+
+export const ENTRY_COMMENT_MAX_LENGTH = 2000;
+
+export type EntryComment = {
+  id: string;
+  viewId: string;
+  authorUserId: string;
+  authorName: string;
+  parentCommentId: string | null;
+  body: string;
+  createdAt: string;
+};
+
+export type EntryCommentThread = EntryComment & {
+  replies: EntryCommentThread[];
+};
+
+export type EntryReaction = {
+  userId: string;
+  emoji: string;
+};
+
+export type EntryReactionSummary = {
+  emoji: EntryReactionEmoji;
+  count: number;
+  reactedByMe: boolean;
+};
+
+export const isEntryReactionEmoji = (value: unknown): value is EntryReactionEmoji =>
+  typeof value === "string" && (ENTRY_REACTION_EMOJIS as readonly string[]).includes(value);
+
+export const getEntryCommentValidationError = (body: string) => {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    return "Коментар не може бути порожнім.";
+  }
+  if (trimmed.length > ENTRY_COMMENT_MAX_LENGTH) {
+    return `Коментар має бути до ${ENTRY_COMMENT_MAX_LENGTH} символів.`;
+  }
+  return null;
+};
+
+const compareByCreatedAt = (left: EntryComment, right: EntryComment) =>
+  left.createdAt.localeCompare(right.createdAt) || left.id.localeCompare(right.id);
+
+/**
+ * Nests flat comment rows under their parents, oldest first at every level.
+ * Replies whose parent is missing (e.g. deleted concurrently) surface at the top.
+ */
+export const buildCommentThreads = (comments: EntryComment[]): EntryCommentThread[] => {
+  const threadsById = new Map<string, EntryCommentThread>();
+  [...comments].sort(compareByCreatedAt).forEach((comment) => {
+    threadsById.set(comment.id, { ...comment, replies: [] });
+  });
+
+  const roots: EntryCommentThread[] = [];
+  threadsById.forEach((thread) => {
+    const parent = thread.parentCommentId ? threadsById.get(thread.parentCommentId) : null;
+    if (parent) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  });
+  return roots;
+};
+
+/** Per-emoji counts in the fixed picker order; emojis nobody used are omitted. */
+export const summarizeReactions = (
+  reactions: EntryReaction[],
+  currentUserId: string | null,
+): EntryReactionSummary[] =>
+  ENTRY_REACTION_EMOJIS.map((emoji) => {
+    const matching = reactions.filter((reaction) => reaction.emoji === emoji);
+    return {
+      emoji,
+      count: matching.length,
+      reactedByMe: Boolean(currentUserId) && matching.some((reaction) => reaction.userId === currentUserId),
+    };
+  }).filter((summary) => summary.count > 0);
+
+export const canDeleteEntryComment = ({
+  comment,
+  currentUserId,
+  entryOwnerUserId,
+}: {
+  comment: Pick<EntryComment, "authorUserId">;
+  currentUserId: string | null;
+  entryOwnerUserId: string | null;
+}) =>
+  Boolean(currentUserId) &&
+  (comment.authorUserId === currentUserId || entryOwnerUserId === currentUserId);
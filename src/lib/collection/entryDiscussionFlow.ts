@@ -0,0 +1,155 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getEntryCommentValidationError,
+  type EntryComment,
+  type EntryReaction,
+  type EntryReactionEmoji,
+} from "@/lib/collection/entryDiscussion";
+import { getDisplayName } from "@/lib/users/displayName";
+
+export type EntryDiscussion = {
+  entryOwnerUserId: string | null;
+  comments: EntryComment[];
+  reactions: EntryReaction[];
+};
+
+type EntryCommentRow = {
+  id: string;
+  view_id: string;
+  author_user_id: string;
+  parent_comment_id: string | null;
+  body: string;
+  created_at: string;
+};
+
+const ENTRY_COMMENT_SELECT = "id, view_id, author_user_id, parent_comment_id, body, created_at";
+
+const loadAuthorNames = async (supabase: SupabaseClient, userIds: string[]) => {
+  if (userIds.length === 0) {
+    return new Map<string, string | null>();
+  }
+  const { data } = await supabase.from("profiles").select("id, username").in("id", userIds);
+  return new Map(
+    ((data ?? []) as Array<{ id: string; username: string | null }>).map((profile) => [
+      profile.id,
+      profile.username,
+    ]),
+  );
+};
+
+const mapEntryCommentRow = (
+  row: EntryCommentRow,
+  usernames: Map<string, string | null>,
+): EntryComment => ({
+  id: row.id,
+  viewId: row.view_id,
+  authorUserId: row.author_user_id,
+  authorName: getDisplayName(usernames.get(row.author_user_id), row.author_user_id),
+  parentCommentId: row.parent_comment_id,
+  body: row.body,
+  createdAt: row.created_at,
+});
+
+/** Comments, reactions and the entry owner for one `user_views` row. */
+export const loadEntryDiscussion = async (
+  supabase: SupabaseClient,
+  viewId: string,
+): Promise<EntryDiscussion> => {
+  const [viewResult, commentsResult, reactionsResult] = await Promise.all([
+    supabase.from("user_views").select("user_id").eq("id", viewId).maybeSingle(),
+    supabase
+      .from("user_view_comments")
+      .select(ENTRY_COMMENT_SELECT)
+      .eq("view_id", viewId)
+      .order("created_at", { ascending: true }),
+    supabase.from("user_view_reactions").select("user_id, emoji").eq("view_id", viewId),
+  ]);
+
+  if (commentsResult.error || reactionsResult.error) {
+    throw new Error("Не вдалося завантажити обговорення.");
+  }
+
+  const commentRows = (commentsResult.data ?? []) as EntryCommentRow[];
+  const usernames = await loadAuthorNames(supabase, [
+    ...new Set(commentRows.map((row) => row.author_user_id)),
+  ]);
+
+  return {
+    entryOwnerUserId: (viewResult.data as { user_id?: string } | null)?.user_id ?? null,
+    comments: commentRows.map((row) => mapEntryCommentRow(row, usernames)),
+    reactions: ((reactionsResult.data ?? []) as Array<{ user_id: string; emoji: string }>).map(
+      (row) => ({ userId: row.user_id, emoji: row.emoji }),
+    ),
+  };
+};
+
+export const addEntryComment = async (
+  supabase: SupabaseClient,
+  {
+    viewId,
+    userId,
+    body,
+    parentCommentId = null,
+  }: {
+    viewId: string;
+    userId: string;
+    body: string;
+    parentCommentId?: string | null;
+  },
+) => {
+  const validationError = getEntryCommentValidationError(body);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const { error } = await supabase.from("user_view_comments").insert({
+    view_id: viewId,
+    author_user_id: userId,
+    parent_comment_id: parentCommentId,
+    body: body.trim(),
+  });
+
+  if (error) {
+    throw new Error("Не вдалося додати коментар.");
+  }
+};
+
+export const deleteEntryComment = async (supabase: SupabaseClient, commentId: string) => {
+  const { error } = await supabase.from("user_view_comments").delete().eq("id", commentId);
+  if (error) {
+    throw new Error("Не вдалося видалити коментар.");
+  }
+};
+
+export const toggleEntryReaction = async (
+  supabase: SupabaseClient,
+  {
+    viewId,
+    userId,
+    emoji,
+    isActive,
+  }: {
+    viewId: string;
+    userId: string;
+    emoji: EntryReactionEmoji;
+    isActive: boolean;
+  },
+) => {
+  const { error } = isActive
+    ? await supabase
+        .from("user_view_reactions")
+        .delete()
+        .eq("view_id", viewId)
+        .eq("user_id", userId)
+        .eq("emoji", emoji)
+    : await supabase
+        .from("user_view_reactions")
+        .upsert(
+          { view_id: viewId, user_id: userId, emoji },
+          { onConflict: "view_id,user_id,emoji", ignoreDuplicates: true },
+        );
+
+  if (error) {
+    throw new Error("Не вдалося оновити реакцію.");
+  }
+};
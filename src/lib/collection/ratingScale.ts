@@ -0,0 +1,11 @@
+export const PERSONAL_RATING_MIN = 1;
+export const PERSONAL_RATING_MAX = 5;
+
+export const rescaleToPersonalRating = (value: number | null | undefined, sourceMax: number) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0 || sourceMax <= 0) {
+    return null;
+  }
+  const scaled = (Math.min(value, sourceMax) / sourceMax) * PERSONAL_RATING_MAX;
+  const halfSteps = Math.round(scaled * 2) / 2;
+  return Math.max(PERSONAL_RATING_MIN, Math.min(PERSONAL_RATING_MAX, halfSteps));
+};
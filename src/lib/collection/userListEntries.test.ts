@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildUserListPositions,
+  compareByUserListPosition,
+  orderUserListEntryViewIds,
+} from "@/lib/collection/userListEntries";
+
+describe("user list entries", () => {
+  it("orders list entries by position, then by when they were added", () => {
+    expect(
+      orderUserListEntryViewIds([
+        { view_id: "c", position: 2, created_at: "2026-05-01T10:00:00Z" },
+        { view_id: "b", position: 0, created_at: "2026-05-03T10:00:00Z" },
+        { view_id: "a", position: 0, created_at: "2026-05-02T10:00:00Z" },
+        { view_id: "d", position: null, created_at: "2026-05-01T09:00:00Z" },
+      ]),
+    ).toEqual(["d", "a", "b", "c"]);
+  });
+
+  it("returns no view ids for an empty list", () => {
+    expect(orderUserListEntryViewIds([])).toEqual([]);
+  });
+
+  it("sorts loaded views in list order and puts views outside the list last", () => {
+    const positions = buildUserListPositions(["view-2", "view-3", "view-1"]);
+
+    expect(
+      ["view-1", "view-4", "view-2", "view-3"].sort((left, right) =>
+        compareByUserListPosition(left, right, positions),
+      ),
+    ).toEqual(["view-2", "view-3", "view-1", "view-4"]);
+  });
+});
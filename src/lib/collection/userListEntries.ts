@@ -0,0 +1,37 @@
+export type UserListEntryRow = {
+  view_id: string;
+  position: number | null;
+  created_at: string | null;
+};
+
+/**
+ * View ids of a list in the order the owner added them: by stored position,
+ * then by creation time for entries that share one (e.g. restored in bulk).
+ */
+export const orderUserListEntryViewIds = (rows: UserListEntryRow[]) =>
+  [...rows]
+    .sort(
+      (left, right) =>
+        (left.position ?? 0) - (right.position ?? 0) ||
+        Date.parse(left.created_at ?? "") - Date.parse(right.created_at ?? "") ||
+        left.view_id.localeCompare(right.view_id),
+    )
+    .map((row) => row.view_id);
+
+/** Position of every view in an ordered list, for sorting loaded collection pages. */
+export const buildUserListPositions = (orderedViewIds: string[]) =>
+  new Map(orderedViewIds.map((viewId, index) => [viewId, index]));
+
+/** Compares two views by list order; views outside the list go last. */
+export const compareByUserListPosition = (
+  leftViewId: string,
+  rightViewId: string,
+  positions: Map<string, number>,
+) => {
+  const left = positions.get(leftViewId);
+  const right = positions.get(rightViewId);
+  if (left === undefined && right === undefined) return 0;
+  if (left === undefined) return 1;
+  if (right === undefined) return -1;
+  return left - right;
+};
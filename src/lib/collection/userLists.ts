@@ -0,0 +1,234 @@
+"use client";
+
+import { supabase } from "@/lib/supabase/client";
+import {
+  orderUserListEntryViewIds,
+  type UserListEntryRow,
+} from "@/lib/collection/userListEntries";
+
+export const USER_LISTS_CHANGED_EVENT = "collection:user-lists-changed";
+export const USER_LIST_NAME_MAX_LENGTH = 80;
+
+export type UserList = {
+  id: string;
+  name: string;
+  position: number;
+  isShared: boolean;
+  isPublic: boolean;
+};
+
+export type UserListsChangedEventDetail = {
+  listId: string | null;
+  viewId?: string | null;
+};
+
+type UserListRow = {
+  id: string;
+  name: string;
+  position: number | null;
+  is_shared: boolean | null;
+  is_public: boolean | null;
+};
+
+const mapUserListRow = (row: UserListRow): UserList => ({
+  id: row.id,
+  name: row.name,
+  position: row.position ?? 0,
+  isShared: Boolean(row.is_shared),
+  isPublic: Boolean(row.is_public),
+});
+
+export const emitUserListsChanged = (detail: UserListsChangedEventDetail) => {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  window.dispatchEvent(
+    new CustomEvent<UserListsChangedEventDetail>(USER_LISTS_CHANGED_EVENT, { detail }),
+  );
+};
+
+const requireUserId = async () => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("Потрібна авторизація.");
+  }
+  return user.id;
+};
+
+/**
+ * Lists of the signed-in user, or the shared lists of a friend when
+ * `ownerUserId` is given (RLS hides everything else).
+ */
+export const loadUserLists = async ({ ownerUserId }: { ownerUserId?: string } = {}) => {
+  const effectiveOwnerId = ownerUserId ?? (await requireUserId());
+  const { data, error } = await supabase
+    .from("user_lists")
+    .select("id, name, position, is_shared, is_public")
+    .eq("user_id", effectiveOwnerId)
+    .order("position", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error("Не вдалося завантажити списки.");
+  }
+
+  return ((data ?? []) as UserListRow[]).map(mapUserListRow);
+};
+
+export const createUserList = async (name: string) => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error("Вкажи назву списку.");
+  }
+  if (trimmedName.length > USER_LIST_NAME_MAX_LENGTH) {
+    throw new Error(`Назва списку має бути до ${USER_LIST_NAME_MAX_LENGTH} символів.`);
+  }
+
+  const userId = await requireUserId();
+  const { data: lastList } = await supabase
+    .from("user_lists")
+    .select("position")
+    .eq("user_id", userId)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from("user_lists")
+    .insert({
+      user_id: userId,
+      name: trimmedName,
+      position: ((lastList?.position as number | undefined) ?? -1) + 1,
+    })
+    .select("id, name, position, is_shared, is_public")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("Список з такою назвою вже існує.");
+    }
+    throw new Error("Не вдалося створити список.");
+  }
+
+  const list = mapUserListRow(data as UserListRow);
+  emitUserListsChanged({ listId: list.id });
+  return list;
+};
+
+export const updateUserList = async (
+  listId: string,
+  patch: { name?: string; isShared?: boolean; isPublic?: boolean },
+) => {
+  const updates: { name?: string; is_shared?: boolean; is_public?: boolean } = {};
+  if (patch.name !== undefined) {
+    const trimmedName = patch.name.trim();
+    if (!trimmedName || trimmedName.length > USER_LIST_NAME_MAX_LENGTH) {
+      throw new Error(`Назва списку має бути від 1 до ${USER_LIST_NAME_MAX_LENGTH} символів.`);
+    }
+    updates.name = trimmedName;
+  }
+  if (patch.isShared !== undefined) {
+    updates.is_shared = patch.isShared;
+  }
+  if (patch.isPublic !== undefined) {
+    updates.is_public = patch.isPublic;
+  }
+
+  const { error } = await supabase.from("user_lists").update(updates).eq("id", listId);
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("Список з такою назвою вже існує.");
+    }
+    throw new Error("Не вдалося оновити список.");
+  }
+  emitUserListsChanged({ listId });
+};
+
+export const deleteUserList = async (listId: string) => {
+  const { error } = await supabase.from("user_lists").delete().eq("id", listId);
+  if (error) {
+    throw new Error("Не вдалося видалити список.");
+  }
+  emitUserListsChanged({ listId });
+};
+
+/** Persists the given order of list ids as their positions. */
+export const reorderUserLists = async (orderedListIds: string[]) => {
+  const results = await Promise.all(
+    orderedListIds.map((listId, position) =>
+      supabase.from("user_lists").update({ position }).eq("id", listId),
+    ),
+  );
+  if (results.some((result) => result.error)) {
+    throw new Error("Не вдалося змінити порядок списків.");
+  }
+  emitUserListsChanged({ listId: null });
+};
+
+export const loadListIdsForView = async (viewId: string) => {
+  const { data, error } = await supabase
+    .from("user_list_entries")
+    .select("list_id")
+    .eq("view_id", viewId);
+
+  if (error) {
+    throw new Error("Не вдалося завантажити списки запису.");
+  }
+
+  return ((data ?? []) as Array<{ list_id: string }>).map((row) => row.list_id);
+};
+
+/** View ids of a list in its stored order. */
+export const loadViewIdsForList = async (listId: string) => {
+  const { data, error } = await supabase
+    .from("user_list_entries")
+    .select("view_id, position, created_at")
+    .eq("list_id", listId);
+
+  if (error) {
+    throw new Error("Не вдалося завантажити записи списку.");
+  }
+
+  return orderUserListEntryViewIds((data ?? []) as UserListEntryRow[]);
+};
+
+export const addViewToUserList = async (listId: string, viewId: string) => {
+  const { data: lastEntry } = await supabase
+    .from("user_list_entries")
+    .select("position")
+    .eq("list_id", listId)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { error } = await supabase.from("user_list_entries").upsert(
+    {
+      list_id: listId,
+      view_id: viewId,
+      position: ((lastEntry?.position as number | undefined) ?? -1) + 1,
+    },
+    { onConflict: "list_id,view_id", ignoreDuplicates: true },
+  );
+
+  if (error) {
+    throw new Error("Не вдалося додати до списку.");
+  }
+  emitUserListsChanged({ listId, viewId });
+};
+
+export const removeViewFromUserList = async (listId: string, viewId: string) => {
+  const { error } = await supabase
+    .from("user_list_entries")
+    .delete()
+    .eq("list_id", listId)
+    .eq("view_id", viewId);
+
+  if (error) {
+    throw new Error("Не вдалося прибрати зі списку.");
+  }
+  emitUserListsChanged({ listId, viewId });
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildViewSessionPayload,
+  mapViewSessionRows,
+  type ViewSessionRow,
+} from "@/lib/collection/viewSessions";
+
+const session = (
+  id: string,
+  viewedAt: string,
+  createdAt: string,
+  rating: ViewSessionRow["rating"] = null,
+): ViewSessionRow => ({ id, viewed_at: viewedAt, rating, note: null, created_at: createdAt });
+
+describe("view sessions", () => {
+  it("orders sessions newest first and marks the one mirroring the entry", () => {
+    const sessions = mapViewSessionRows(
+      [
+        session("first", "2024-01-10T00:00:00+00:00", "2024-01-10T20:00:00Z", "4.5"),
+        session("rewatch", "2026-03-01T00:00:00+00:00", "2026-03-01T20:00:00Z", 5),
+        session("middle", "2025-06-01T00:00:00+00:00", "2025-06-01T20:00:00Z"),
+      ],
+      "2024-01-10T00:00:00.000Z",
+    );
+
+    expect(sessions.map((item) => item.id)).toEqual(["rewatch", "middle", "first"]);
+    expect(sessions.filter((item) => item.isPrimary).map((item) => item.id)).toEqual(["first"]);
+    expect(sessions[2].rating).toBe(4.5);
+  });
+
+  it("marks only the earliest created session when several share the entry date", () => {
+    const sessions = mapViewSessionRows(
+      [
+        session("duplicate", "2024-01-10T00:00:00Z", "2025-01-01T00:00:00Z"),
+        session("primary", "2024-01-10T00:00:00Z", "2024-01-10T00:00:00Z"),
+      ],
+      "2024-01-10T00:00:00Z",
+    );
+
+    expect(sessions.map((item) => [item.id, item.isPrimary])).toEqual([
+      ["duplicate", false],
+      ["primary", true],
+    ]);
+  });
+
+  it("marks no session when the entry date has none or is unknown", () => {
+    const rows = [session("a", "2024-01-10T00:00:00Z", "2024-01-10T00:00:00Z")];
+
+    expect(mapViewSessionRows(rows, "2024-02-01T00:00:00Z")[0].isPrimary).toBe(false);
+    expect(mapViewSessionRows(rows, null)[0].isPrimary).toBe(false);
+  });
+
+  it("validates the session date and note before saving", () => {
+    expect(buildViewSessionPayload({ viewedAt: "2026-03-01", rating: 4, note: "  " })).toEqual({
+      viewed_at: "2026-03-01T00:00:00.000Z",
+      rating: 4,
+      note: null,
+    });
+    expect(() => buildViewSessionPayload({ viewedAt: "", rating: null, note: "" })).toThrow(
+      "Вкажи дату",
+    );
+    expect(() =>
+      buildViewSessionPayload({ viewedAt: "2026-03-01", rating: null, note: "x".repeat(1001) }),
+    ).toThrow("до 1000");
+  });
+});
@@ -0,0 +1,75 @@
+export const VIEW_SESSION_NOTE_MAX_LENGTH = 1000;
+
+export type ViewSession = {
+  id: string;
+  viewedAt: string;
+  rating: number | null;
+  note: string | null;
+  /** Mirrors the entry's own viewed_at/rating; editing the entry updates it. */
+  isPrimary: boolean;
+};
+
+export type ViewSessionInput = {
+  viewedAt: string;
+  rating: number | null;
+  note: string;
+};
+
+export type ViewSessionRow = {
+  id: string;
+  viewed_at: string;
+  rating: number | string | null;
+  note: string | null;
+  created_at?: string | null;
+};
+
+export const VIEW_SESSION_SELECT = "id, viewed_at, rating, note, created_at";
+
+export const mapViewSessionRow = (row: ViewSessionRow, isPrimary = false): ViewSession => ({
+  id: row.id,
+  viewedAt: row.viewed_at,
+  rating: row.rating === null ? null : Number(row.rating),
+  note: row.note,
+  isPrimary,
+});
+
+const toTime = (value: string | null | undefined) => {
+  const time = value ? Date.parse(value) : Number.NaN;
+  return Number.isNaN(time) ? 0 : time;
+};
+
+/**
+ * Sessions newest first. The primary one is the session whose date matches the
+ * entry's viewed_at, the same match the `sync_user_view_primary_session`
+ * trigger uses; when several share that date the earliest created wins.
+ */
+export const mapViewSessionRows = (rows: ViewSessionRow[], entryViewedAt: string | null) => {
+  const sorted = [...rows].sort(
+    (left, right) =>
+      toTime(right.viewed_at) - toTime(left.viewed_at) ||
+      toTime(right.created_at) - toTime(left.created_at),
+  );
+  const entryTime = entryViewedAt ? Date.parse(entryViewedAt) : Number.NaN;
+  const primary = Number.isNaN(entryTime)
+    ? undefined
+    : sorted.findLast((row) => Date.parse(row.viewed_at) === entryTime);
+
+  return sorted.map((row) => mapViewSessionRow(row, row === primary));
+};
+
+export const buildViewSessionPayload = (input: ViewSessionInput) => {
+  const viewedAt = new Date(input.viewedAt);
+  if (Number.isNaN(viewedAt.getTime())) {
+    throw new Error("Вкажи дату перегляду.");
+  }
+  const note = input.note.trim();
+  if (note.length > VIEW_SESSION_NOTE_MAX_LENGTH) {
+    throw new Error(`Нотатка має бути до ${VIEW_SESSION_NOTE_MAX_LENGTH} символів.`);
+  }
+
+  return {
+    viewed_at: viewedAt.toISOString(),
+    rating: input.rating,
+    note: note || null,
+  };
+};
@@ -0,0 +1,73 @@
+"use client";
+
+import { supabase } from "@/lib/supabase/client";
+import {
+  VIEW_SESSION_SELECT,
+  buildViewSessionPayload,
+  mapViewSessionRow,
+  mapViewSessionRows,
+  type ViewSessionInput,
+  type ViewSessionRow,
+} from "@/lib/collection/viewSessions";
+
+/** Sessions of one collection entry, newest first, with its primary session marked. */
+export const loadViewSessions = async (viewId: string) => {
+  const [sessionsRes, viewRes] = await Promise.all([
+    supabase.from("user_view_sessions").select(VIEW_SESSION_SELECT).eq("view_id", viewId),
+    supabase.from("user_views").select("viewed_at").eq("id", viewId).maybeSingle(),
+  ]);
+
+  if (sessionsRes.error) {
+    throw new Error("Не вдалося завантажити історію переглядів.");
+  }
+
+  return mapViewSessionRows(
+    (sessionsRes.data ?? []) as ViewSessionRow[],
+    (viewRes.data?.viewed_at as string | null | undefined) ?? null,
+  );
+};
+
+export const addViewSession = async (viewId: string, input: ViewSessionInput) => {
+  const payload = buildViewSessionPayload(input);
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("Потрібна авторизація.");
+  }
+
+  const { data, error } = await supabase
+    .from("user_view_sessions")
+    .insert({ ...payload, view_id: viewId, user_id: user.id })
+    .select(VIEW_SESSION_SELECT)
+    .single();
+
+  if (error) {
+    throw new Error("Не вдалося додати перегляд.");
+  }
+
+  return mapViewSessionRow(data as ViewSessionRow);
+};
+
+export const updateViewSession = async (sessionId: string, input: ViewSessionInput) => {
+  const { data, error } = await supabase
+    .from("user_view_sessions")
+    .update(buildViewSessionPayload(input))
+    .eq("id", sessionId)
+    .select(VIEW_SESSION_SELECT)
+    .single();
+
+  if (error) {
+    throw new Error("Не вдалося оновити перегляд.");
+  }
+
+  return mapViewSessionRow(data as ViewSessionRow);
+};
+
+export const deleteViewSession = async (sessionId: string) => {
+  const { error } = await supabase.from("user_view_sessions").delete().eq("id", sessionId);
+  if (error) {
+    throw new Error("Не вдалося видалити перегляд.");
+  }
+};
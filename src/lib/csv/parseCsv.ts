@@ -0,0 +1,65 @@
+const stripBom = (value: string) => (value.charCodeAt(0) === 0xfeff ? value.slice(1) : value);
+
+export const parseCsvRows = (content: string) => {
+  const input = stripBom(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let isQuoted = false;
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+
+    if (isQuoted) {
+      if (char === '"') {
+        if (input[index + 1] === '"') {
+          cell += '"';
+          index += 1;
+        } else {
+          isQuoted = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      isQuoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((entry) => entry.some((value) => value.trim()));
+};
+
+export const parseCsvRecords = (content: string) => {
+  const [headerRow, ...dataRows] = parseCsvRows(content);
+  if (!headerRow) {
+    return { headers: [] as string[], records: [] as Record<string, string>[] };
+  }
+
+  const headers = headerRow.map((header) => header.trim());
+  const records = dataRows.map((row) =>
+    Object.fromEntries(headers.map((header, index) => [header, row[index]?.trim() ?? ""])),
+  );
+
+  return { headers, records };
+};
@@ -0,0 +1,178 @@
+import net from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { buildSmtpMimeMessage, sendSmtpMail } from "@/lib/email/smtp";
+
+type SinkSession = {
+  commands: string[];
+  data: string;
+};
+
+const startSmtpSink = (rejectRecipient = false) =>
+  new Promise<{ server: net.Server; port: number; sessions: SinkSession[] }>((resolve) => {
+    const sessions: SinkSession[] = [];
+    const server = net.createServer((socket) => {
+      const session: SinkSession = { commands: [], data: "" };
+      sessions.push(session);
+      let buffer = "";
+      let inData = false;
+
+      socket.write("220 sink ready\r\n");
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString("utf8");
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end < 0) return;
+          session.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 queued\r\n");
+          return;
+        }
+
+        let lineEnd = buffer.indexOf("\r\n");
+        while (lineEnd >= 0 && !inData) {
+          const line = buffer.slice(0, lineEnd);
+          buffer = buffer.slice(lineEnd + 2);
+          session.commands.push(line);
+          const verb = line.split(" ")[0].toUpperCase();
+          if (verb === "EHLO") socket.write("250-sink\r\n250 AUTH PLAIN\r\n");
+          else if (verb === "AUTH") socket.write("235 ok\r\n");
+          else if (verb === "RCPT" && rejectRecipient) socket.write("550 no such user\r\n");
+          else if (verb === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (verb === "QUIT") {
+            socket.end("221 bye\r\n");
+          } else socket.write("250 ok\r\n");
+          lineEnd = buffer.indexOf("\r\n");
+        }
+      });
+    });
+
+    server.listen(0, "127.0.0.1", () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port, sessions });
+    });
+  });
+
+let activeServer: net.Server | null = null;
+
+afterEach(async () => {
+  await new Promise((resolve) => activeServer?.close(resolve) ?? resolve(null));
+  activeServer = null;
+});
+
+const message = {
+  to: "Оля <olia@example.com>",
+  subject: "Оля: Дюна",
+  text: "Привіт\n.крапка на початку",
+  html: "<p>Привіт</p>",
+  headers: { "List-Unsubscribe": "<https://www.catalogy.fans/unsubscribe>" },
+};
+
+describe("smtp", () => {
+  it("builds a multipart message with encoded subject and base64 parts", () => {
+    const mime = buildSmtpMimeMessage({
+      from: "Catalogy <noreply@catalogy.fans>",
+      message,
+      messageId: "<id@catalogy.fans>",
+      date: new Date("2026-05-11T09:00:00Z"),
+      boundary: "b1",
+    });
+
+    expect(mime).toContain(`Subject: =?UTF-8?B?${Buffer.from("Оля: Дюна").toString("base64")}?=`);
+    expect(mime).toContain('Content-Type: multipart/alternative; boundary="b1"');
+    expect(mime).toContain("List-Unsubscribe: <https://www.catalogy.fans/unsubscribe>");
+    expect(mime).toContain(Buffer.from(message.html).toString("base64"));
+    expect(mime.endsWith("--b1--\r\n")).toBe(true);
+  });
+
+  it("delivers to a local sink without credentials when plain SMTP is allowed", async () => {
+    const sink = await startSmtpSink();
+    activeServer = sink.server;
+
+    const result = await sendSmtpMail(
+      {
+        host: "127.0.0.1",
+        port: sink.port,
+        secure: false,
+        allowInsecure: true,
+        user: null,
+        password: null,
+        from: "Catalogy <noreply@catalogy.fans>",
+      },
+      message,
+    );
+
+    const [session] = sink.sessions;
+    expect(result.providerMessageId).toMatch(/^<.+@catalogy\.fans>$/);
+    expect(session.commands).toEqual([
+      "EHLO 127.0.0.1",
+      "MAIL FROM:<noreply@catalogy.fans>",
+      "RCPT TO:<olia@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(session.data).toContain(`Message-ID: ${result.providerMessageId}`);
+  });
+
+  it("refuses to send credentials over a connection without TLS", async () => {
+    const sink = await startSmtpSink();
+    activeServer = sink.server;
+
+    await expect(
+      sendSmtpMail(
+        {
+          host: "127.0.0.1",
+          port: sink.port,
+          secure: false,
+          allowInsecure: true,
+          user: "user",
+          password: "secret",
+          from: "noreply@catalogy.fans",
+        },
+        message,
+      ),
+    ).rejects.toThrow("автентифікація без TLS заборонена");
+    expect(sink.sessions[0].commands).toEqual(["EHLO 127.0.0.1"]);
+  });
+
+  it("does not send over plain SMTP unless it is explicitly allowed", async () => {
+    const sink = await startSmtpSink();
+    activeServer = sink.server;
+
+    await expect(
+      sendSmtpMail(
+        {
+          host: "127.0.0.1",
+          port: sink.port,
+          secure: false,
+          allowInsecure: false,
+          user: null,
+          password: null,
+          from: "noreply@catalogy.fans",
+        },
+        message,
+      ),
+    ).rejects.toThrow("SMTP_ALLOW_INSECURE=true");
+  });
+
+  it("surfaces rejected recipients as errors", async () => {
+    const sink = await startSmtpSink(true);
+    activeServer = sink.server;
+
+    await expect(
+      sendSmtpMail(
+        {
+          host: "127.0.0.1",
+          port: sink.port,
+          secure: false,
+          allowInsecure: true,
+          user: null,
+          password: null,
+          from: "noreply@catalogy.fans",
+        },
+        message,
+      ),
+    ).rejects.toThrow("SMTP 550: no such user");
+  });
+});
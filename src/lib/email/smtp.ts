@@ -0,0 +1,274 @@
+import { randomUUID } from "node:crypto";
+import net from "node:net";
+import tls from "node:tls";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465). Plain connections upgrade via STARTTLS when offered. */
+  secure: boolean;
+  /** Send over a plain connection when STARTTLS is not offered; never with credentials. */
+  allowInsecure: boolean;
+  user: string | null;
+  password: string | null;
+  from: string;
+};
+
+export type SmtpMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+};
+
+type SmtpReply = {
+  code: number;
+  lines: string[];
+};
+
+type SmtpSocket = net.Socket | tls.TLSSocket;
+
+const SMTP_TIMEOUT_MS = 15000;
+const BASE64_LINE_LENGTH = 76;
+
+/**
+ * SMTP settings from env. Without `SMTP_HOST`/`SMTP_FROM` the email channel is
+ * treated as not configured. For a local sink (Mailpit, MailHog) set
+ * `SMTP_HOST=localhost`, `SMTP_PORT=1025`, `SMTP_ALLOW_INSECURE=true` and leave
+ * the credentials empty.
+ */
+export const getSmtpConfig = (): SmtpConfig | null => {
+  const host = process.env.SMTP_HOST?.trim();
+  const from = process.env.SMTP_FROM?.trim();
+  if (!host || !from) {
+    return null;
+  }
+
+  const secure = process.env.SMTP_SECURE?.trim().toLowerCase() === "true";
+  const port = Number.parseInt(process.env.SMTP_PORT ?? "", 10);
+
+  return {
+    host,
+    port: Number.isFinite(port) && port > 0 ? port : secure ? 465 : 587,
+    secure,
+    allowInsecure: process.env.SMTP_ALLOW_INSECURE?.trim().toLowerCase() === "true",
+    user: process.env.SMTP_USER?.trim() || null,
+    password: process.env.SMTP_PASSWORD ?? null,
+    from,
+  };
+};
+
+/** `Catalogy <noreply@catalogy.fans>` -> `noreply@catalogy.fans`. */
+export const extractEmailAddress = (value: string) => {
+  const match = value.match(/<([^<>]+)>\s*$/);
+  return (match ? match[1] : value).trim();
+};
+
+const encodeHeaderValue = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+const encodeBase64Body = (value: string) => {
+  const encoded = Buffer.from(value, "utf8").toString("base64");
+  const lines: string[] = [];
+  for (let index = 0; index < encoded.length; index += BASE64_LINE_LENGTH) {
+    lines.push(encoded.slice(index, index + BASE64_LINE_LENGTH));
+  }
+  return lines.join("\r\n");
+};
+
+/** multipart/alternative message with base64 parts, CRLF line endings. */
+export const buildSmtpMimeMessage = ({
+  from,
+  message,
+  messageId,
+  date = new Date(),
+  boundary = `catalogy-${randomUUID()}`,
+}: {
+  from: string;
+  message: SmtpMessage;
+  messageId: string;
+  date?: Date;
+  boundary?: string;
+}) => {
+  const headers: Record<string, string> = {
+    From: from,
+    To: message.to,
+    Subject: encodeHeaderValue(message.subject),
+    Date: date.toUTCString(),
+    "Message-ID": messageId,
+    "MIME-Version": "1.0",
+    "Content-Type": `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  };
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBase64Body(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBase64Body(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+};
+
+const createReplyReader = (socket: SmtpSocket) => {
+  const replies: SmtpReply[] = [];
+  let buffer = "";
+  let pendingLines: string[] = [];
+  let failure: Error | null = null;
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let lineEnd = buffer.indexOf("\r\n");
+    while (lineEnd >= 0) {
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      pendingLines.push(line.slice(4));
+      if (line[3] !== "-") {
+        const reply = { code: Number.parseInt(line.slice(0, 3), 10), lines: pendingLines };
+        pendingLines = [];
+        if (waiting) {
+          waiting.resolve(reply);
+          waiting = null;
+        } else {
+          replies.push(reply);
+        }
+      }
+      lineEnd = buffer.indexOf("\r\n");
+    }
+  };
+  const onFailure = (error?: Error) => {
+    failure = error ?? new Error("SMTP-з’єднання закрито.");
+    waiting?.reject(failure);
+    waiting = null;
+  };
+  const onClose = () => onFailure();
+
+  socket.on("data", onData);
+  socket.on("error", onFailure);
+  socket.on("close", onClose);
+
+  return {
+    next: () => {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise<SmtpReply>((resolve, reject) => {
+        waiting = { resolve, reject };
+      });
+    },
+    detach: () => {
+      socket.off("data", onData);
+      socket.off("error", onFailure);
+      socket.off("close", onClose);
+    },
+  };
+};
+
+/** Armed before connecting, so an unreachable host or a stalled handshake fails too. */
+const limitIdleTime = <T extends SmtpSocket>(socket: T) =>
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP timeout.")));
+
+const connectSocket = (config: SmtpConfig) =>
+  new Promise<SmtpSocket>((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () =>
+          resolve(socket),
+        )
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    limitIdleTime(socket);
+    socket.once("error", reject);
+  });
+
+const upgradeSocket = (socket: net.Socket, host: string) =>
+  new Promise<tls.TLSSocket>((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+    limitIdleTime(secureSocket);
+    secureSocket.once("error", reject);
+  });
+
+/**
+ * Minimal SMTP submission: EHLO, STARTTLS, AUTH PLAIN, one recipient. The
+ * dispatcher only ever submits one message per connection to a relay, so this
+ * stays a small client instead of a mailer dependency with pooling, DKIM and
+ * transports we don't use. Credentials are sent only over TLS; a plain
+ * connection needs `allowInsecure` and no credentials (local sinks).
+ * Returns the generated Message-ID as the provider id.
+ */
+export const sendSmtpMail = async (config: SmtpConfig, message: SmtpMessage) => {
+  const fromAddress = extractEmailAddress(config.from);
+  const messageId = `<${randomUUID()}@${fromAddress.split("@")[1] || config.host}>`;
+  let socket = await connectSocket(config);
+  let reader = createReplyReader(socket);
+
+  const expect = async (codes: number[]) => {
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${reply.code}: ${reply.lines.join(" ") || "unexpected reply"}`);
+    }
+    return reply;
+  };
+  const command = (line: string, codes: number[]) => {
+    socket.write(`${line}\r\n`);
+    return expect(codes);
+  };
+
+  try {
+    await expect([220]);
+    const capabilities = (await command(`EHLO ${config.host}`, [250])).lines;
+
+    if (!config.secure && capabilities.some((line) => line.toUpperCase() === "STARTTLS")) {
+      await command("STARTTLS", [220]);
+      reader.detach();
+      socket = await upgradeSocket(socket as net.Socket, config.host);
+      reader = createReplyReader(socket);
+      await command(`EHLO ${config.host}`, [250]);
+    }
+
+    if (!(socket instanceof tls.TLSSocket)) {
+      if (config.user) {
+        throw new Error("SMTP-сервер не пропонує STARTTLS; автентифікація без TLS заборонена.");
+      }
+      if (!config.allowInsecure) {
+        throw new Error(
+          "SMTP-сервер не пропонує STARTTLS; без TLS можна надсилати лише на локальний sink (SMTP_ALLOW_INSECURE=true).",
+        );
+      }
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\u0000${config.user}\u0000${config.password ?? ""}`).toString(
+        "base64",
+      );
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${fromAddress}>`, [250]);
+    await command(`RCPT TO:<${extractEmailAddress(message.to)}>`, [250, 251]);
+    await command("DATA", [354]);
+    const body = buildSmtpMimeMessage({ from: config.from, message, messageId }).replace(
+      /^\./gm,
+      "..",
+    );
+    await command(`${body}.`, [250]);
+    await command("QUIT", [221]).catch(() => null);
+
+    return { providerMessageId: messageId };
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+};
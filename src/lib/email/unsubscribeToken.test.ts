@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildEmailUnsubscribeUrl,
+  createEmailUnsubscribeToken,
+  verifyEmailUnsubscribeToken,
+} from "@/lib/email/unsubscribeToken";
+
+const SECRET = "test-secret";
+
+describe("email unsubscribe token", () => {
+  it("round-trips signed claims", () => {
+    const token = createEmailUnsubscribeToken({ userId: "user-1", channel: "email" }, SECRET);
+
+    expect(verifyEmailUnsubscribeToken(token, SECRET)).toEqual({
+      userId: "user-1",
+      channel: "email",
+    });
+    expect(buildEmailUnsubscribeUrl("https://www.catalogy.fans/", token)).toBe(
+      `https://www.catalogy.fans/api/friends/email-unsubscribe?token=${token}`,
+    );
+  });
+
+  it("rejects tampered, foreign and malformed tokens", () => {
+    const token = createEmailUnsubscribeToken({ userId: "user-1", channel: "email" }, SECRET);
+    const [, signature] = token.split(".");
+    const forgedClaims = Buffer.from(JSON.stringify({ u: "user-2", c: "email" })).toString(
+      "base64url",
+    );
+
+    expect(verifyEmailUnsubscribeToken(`${forgedClaims}.${signature}`, SECRET)).toBeNull();
+    expect(verifyEmailUnsubscribeToken(token, "other-secret")).toBeNull();
+    expect(verifyEmailUnsubscribeToken("not-a-token", SECRET)).toBeNull();
+    expect(verifyEmailUnsubscribeToken(null, SECRET)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export type EmailUnsubscribeClaims = {
+  userId: string;
+  channel: "email";
+};
+
+const sign = (value: string, secret: string) =>
+  createHmac("sha256", secret).update(value).digest("base64url");
+
+export const getEmailUnsubscribeSecret = () =>
+  process.env.EMAIL_UNSUBSCRIBE_SECRET?.trim() || null;
+
+/**
+ * `<base64url claims>.<base64url hmac>`. Tokens do not expire: an unsubscribe
+ * link from an old email has to keep working.
+ */
+export const createEmailUnsubscribeToken = (claims: EmailUnsubscribeClaims, secret: string) => {
+  const encodedClaims = Buffer.from(
+    JSON.stringify({ u: claims.userId, c: claims.channel }),
+    "utf8",
+  ).toString("base64url");
+  return `${encodedClaims}.${sign(encodedClaims, secret)}`;
+};
+
+export const verifyEmailUnsubscribeToken = (
+  token: string | null | undefined,
+  secret: string,
+): EmailUnsubscribeClaims | null => {
+  const [encodedClaims, signature, ...rest] = token?.trim().split(".") ?? [];
+  if (!encodedClaims || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedClaims, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(encodedClaims, "base64url").toString("utf8")) as {
+      u?: unknown;
+      c?: unknown;
+    };
+    return typeof parsed.u === "string" && parsed.u && parsed.c === "email"
+      ? { userId: parsed.u, channel: "email" }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const buildEmailUnsubscribeUrl = (appBaseUrl: string, token: string) =>
+  `${appBaseUrl.trim().replace(/\/+$/, "")}/api/friends/email-unsubscribe?token=${encodeURIComponent(token)}`;
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFilmCsvImportPayload,
+  detectFilmCsvImportFormat,
+  parseFilmCsvImport,
+  resolveFilmCsvImportMatch,
+} from "@/lib/films/csvImport";
+
+describe("film csv import", () => {
+  it("detects supported export formats", () => {
+    expect(
+      detectFilmCsvImportFormat(["Date", "Name", "Year", "Letterboxd URI", "Rating", "Rewatch", "Tags", "Watched Date"]),
+    ).toBe("letterboxd-diary");
+    expect(detectFilmCsvImportFormat(["Date", "Name", "Year", "Letterboxd URI", "Rating"])).toBe(
+      "letterboxd-ratings",
+    );
+    expect(detectFilmCsvImportFormat(["Const", "Your Rating", "Date Rated", "Title"])).toBe(
+      "imdb-ratings",
+    );
+    expect(detectFilmCsvImportFormat(["title", "year"])).toBeNull();
+  });
+
+  it("keeps the latest diary entry per film and rescales half-star ratings", () => {
+    const { format, rows } = parseFilmCsvImport(
+      [
+        "Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date",
+        "2024-01-02,Heat,1995,https://boxd.it/a,4,,,2024-01-01",
+        '2024-06-02,Heat,1995,https://boxd.it/b,4.5,Yes,"crime, la",2024-06-01',
+        "2024-03-02,Alien,1979,https://boxd.it/c,0.5,,,2024-03-01",
+      ].join("\n"),
+    );
+
+    expect(format).toBe("letterboxd-diary");
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      title: "Heat",
+      rating: 4.5,
+      viewedAt: "2024-06-01T12:00:00.000Z",
+      comment: "Теги: crime, la\nПовторний перегляд",
+    });
+    expect(rows[1].rating).toBe(1);
+  });
+
+  it("maps IMDb ratings with ids and media types", () => {
+    const { rows } = parseFilmCsvImport(
+      [
+        "Const,Your Rating,Date Rated,Title,URL,Title Type,IMDb Rating,Runtime (mins),Year",
+        "tt0113277,9,2023-02-10,Heat,https://imdb.com/title/tt0113277,Movie,8.3,170,1995",
+        "tt0903747,7,2023-02-11,Breaking Bad,https://imdb.com/title/tt0903747,TV Series,9.5,49,2008",
+      ].join("\n"),
+    );
+
+    expect(rows[0]).toMatchObject({ imdbId: "tt0113277", mediaType: "movie", rating: 4.5 });
+    expect(rows[1]).toMatchObject({ mediaType: "tv", rating: 3.5 });
+    expect(buildFilmCsvImportPayload(rows[1])).toMatchObject({ isViewed: true, viewPercent: 100 });
+  });
+
+  it("resolves matches by imdb id, then by title and year", () => {
+    const candidates = [
+      { id: "1", title: "Спека", originalTitle: "Heat", year: "1986", mediaType: "movie" as const },
+      { id: "2", title: "Жара", originalTitle: "Heat", year: "1995", mediaType: "movie" as const },
+    ];
+
+    expect(
+      resolveFilmCsvImportMatch({ title: "Heat", year: "1995", mediaType: null }, candidates),
+    ).toEqual({ status: "matched", candidateId: "2" });
+    expect(
+      resolveFilmCsvImportMatch({ title: "Heat", year: "", mediaType: null }, [
+        ...candidates,
+        { id: "3", title: "Heat", year: "2013", imdbMatch: true },
+      ]),
+    ).toEqual({ status: "matched", candidateId: "3" });
+    expect(
+      resolveFilmCsvImportMatch({ title: "Heat", year: "", mediaType: null }, candidates),
+    ).toEqual({ status: "ambiguous", candidateId: null });
+    expect(
+      resolveFilmCsvImportMatch({ title: "Heat", year: "1995", mediaType: "tv" }, candidates),
+    ).toEqual({ status: "unmatched", candidateId: null });
+  });
+
+  it("accepts an imdb id match only when the media type agrees", () => {
+    const candidates = [
+      { id: "10", title: "Heat", year: "1995", mediaType: "tv" as const, imdbMatch: true },
+      { id: "11", title: "Heat", year: "1995", imdbMatch: true },
+      { id: "12", title: "Heat", year: "1995", mediaType: "movie" as const, imdbMatch: true },
+    ];
+
+    expect(
+      resolveFilmCsvImportMatch({ title: "Heat", year: "1995", mediaType: "movie" }, candidates),
+    ).toEqual({ status: "matched", candidateId: "12" });
+    expect(
+      resolveFilmCsvImportMatch(
+        { title: "Heat", year: "1995", mediaType: "movie" },
+        candidates.slice(0, 2),
+      ),
+    ).toEqual({ status: "matched", candidateId: "11" });
+  });
+});
@@ -0,0 +1,206 @@
+import { rescaleToPersonalRating } from "@/lib/collection/ratingScale";
+import { parseCsvRecords } from "@/lib/csv/parseCsv";
+import type {
+  FilmCollectionFormPayload,
+  FilmCollectionSource,
+} from "@/lib/films/collectionFlow";
+
+export type FilmCsvImportFormat = "letterboxd-diary" | "letterboxd-ratings" | "imdb-ratings";
+
+export const FILM_CSV_IMPORT_FORMAT_LABELS: Record<FilmCsvImportFormat, string> = {
+  "letterboxd-diary": "Letterboxd diary.csv",
+  "letterboxd-ratings": "Letterboxd ratings.csv",
+  "imdb-ratings": "IMDb ratings.csv",
+};
+
+export type FilmCsvImportRow = {
+  rowNumber: number;
+  title: string;
+  year: string;
+  imdbId: string | null;
+  mediaType: "movie" | "tv" | null;
+  rating: number | null;
+  viewedAt: string | null;
+  comment: string;
+};
+
+export type FilmCsvImportParseError = {
+  rowNumber: number;
+  title: string;
+  message: string;
+};
+
+export type FilmCsvImportCandidate = FilmCollectionSource & {
+  imdbMatch?: boolean;
+};
+
+export type FilmCsvImportMatchStatus = "matched" | "ambiguous" | "unmatched";
+
+export type FilmCsvImportErrorReportRow = {
+  rowNumber: number;
+  title: string;
+  year: string;
+  reason: string;
+};
+
+export const FILM_CSV_IMPORT_ERROR_REPORT_HEADERS = ["row", "title", "year", "reason"];
+
+const IMDB_TV_TITLE_TYPES = new Set(["tv series", "tv mini series", "tvseries", "tvminiseries"]);
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase();
+
+export const detectFilmCsvImportFormat = (headers: string[]): FilmCsvImportFormat | null => {
+  const normalized = new Set(headers.map(normalizeHeader));
+  if (normalized.has("const") && normalized.has("your rating")) {
+    return "imdb-ratings";
+  }
+  if (normalized.has("letterboxd uri") && normalized.has("name")) {
+    return normalized.has("watched date") ? "letterboxd-diary" : "letterboxd-ratings";
+  }
+  return null;
+};
+
+export const normalizeFilmCsvTitle = (value: string) =>
+  value
+    .toLocaleLowerCase("uk-UA")
+    .replace(/[^a-zа-яіїєґ0-9]+/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const toIsoDate = (value?: string) => {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  const parsed = new Date(/^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T12:00:00.000Z` : trimmed);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+};
+
+const parseNumber = (value?: string) => {
+  const parsed = Number.parseFloat((value ?? "").trim().replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const buildLetterboxdComment = (record: (column: string) => string) => {
+  const review = record("review");
+  const tags = record("tags");
+  const rewatch = record("rewatch").toLowerCase() === "yes";
+  return [review, tags ? `Теги: ${tags}` : "", rewatch ? "Повторний перегляд" : ""]
+    .filter(Boolean)
+    .join("\n");
+};
+
+const mapRecord = (
+  format: FilmCsvImportFormat,
+  get: (column: string) => string,
+): Omit<FilmCsvImportRow, "rowNumber"> => {
+  if (format === "imdb-ratings") {
+    const titleType = get("title type").toLowerCase();
+    return {
+      title: get("title") || get("original title"),
+      year: get("year"),
+      imdbId: get("const") || null,
+      mediaType: IMDB_TV_TITLE_TYPES.has(titleType) ? "tv" : titleType ? "movie" : null,
+      rating: rescaleToPersonalRating(parseNumber(get("your rating")), 10),
+      viewedAt: toIsoDate(get("date rated")),
+      comment: "",
+    };
+  }
+
+  return {
+    title: get("name"),
+    year: get("year"),
+    imdbId: null,
+    mediaType: null,
+    rating: rescaleToPersonalRating(parseNumber(get("rating")), 5),
+    viewedAt: toIsoDate(get("watched date") || get("date")),
+    comment: buildLetterboxdComment(get),
+  };
+};
+
+const isLaterView = (left: FilmCsvImportRow, right: FilmCsvImportRow) =>
+  (left.viewedAt ?? "") > (right.viewedAt ?? "");
+
+export const parseFilmCsvImport = (content: string) => {
+  const { headers, records } = parseCsvRecords(content);
+  const format = detectFilmCsvImportFormat(headers);
+  if (!format) {
+    throw new Error("Не вдалося розпізнати формат CSV. Підтримуються Letterboxd та IMDb.");
+  }
+
+  const headerByKey = new Map(headers.map((header) => [normalizeHeader(header), header]));
+  const rowsByKey = new Map<string, FilmCsvImportRow>();
+  const errors: FilmCsvImportParseError[] = [];
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 2;
+    const get = (column: string) => record[headerByKey.get(column) ?? column]?.trim() ?? "";
+    const mapped = mapRecord(format, get);
+
+    if (!mapped.title) {
+      errors.push({ rowNumber, title: "", message: "Порожня назва." });
+      return;
+    }
+
+    const row = { rowNumber, ...mapped };
+    // Diary exports contain one line per rewatch, the latest one wins.
+    const key = row.imdbId ?? `${normalizeFilmCsvTitle(row.title)}|${row.year}`;
+    const existing = rowsByKey.get(key);
+    if (!existing || isLaterView(row, existing)) {
+      rowsByKey.set(key, row);
+    }
+  });
+
+  return { format, rows: Array.from(rowsByKey.values()), errors };
+};
+
+export const resolveFilmCsvImportMatch = (
+  row: Pick<FilmCsvImportRow, "title" | "year" | "mediaType">,
+  candidates: FilmCsvImportCandidate[],
+): { status: FilmCsvImportMatchStatus; candidateId: string | null } => {
+  const scopedCandidates = row.mediaType
+    ? candidates.filter((candidate) => !candidate.mediaType || candidate.mediaType === row.mediaType)
+    : candidates;
+  if (scopedCandidates.length === 0) {
+    return { status: "unmatched", candidateId: null };
+  }
+
+  // TMDB can resolve one IMDb id to both a movie and a series; the id only counts with its kind.
+  const imdbMatch = scopedCandidates.find(
+    (candidate) =>
+      candidate.imdbMatch && (!row.mediaType || candidate.mediaType === row.mediaType),
+  );
+  if (imdbMatch) {
+    return { status: "matched", candidateId: imdbMatch.id };
+  }
+
+  const normalizedTitle = normalizeFilmCsvTitle(row.title);
+  const exactMatches = scopedCandidates.filter((candidate) =>
+    [candidate.title, candidate.originalTitle, candidate.englishTitle].some(
+      (title) => title && normalizeFilmCsvTitle(title) === normalizedTitle,
+    ),
+  );
+  const yearMatches = row.year
+    ? exactMatches.filter((candidate) => candidate.year === row.year)
+    : exactMatches;
+
+  if (yearMatches.length === 1) {
+    return { status: "matched", candidateId: yearMatches[0].id };
+  }
+
+  // Several plausible titles: the user picks one in the review step.
+  return { status: "ambiguous", candidateId: null };
+};
+
+export const buildFilmCsvImportPayload = (row: FilmCsvImportRow): FilmCollectionFormPayload => ({
+  viewedAt: row.viewedAt ?? new Date().toISOString(),
+  comment: row.comment,
+  recommendSimilar: false,
+  isViewed: true,
+  rating: row.rating,
+  viewPercent: 100,
+  platforms: [],
+  availability: null,
+  shishkaFitAssessment: null,
+});
+
+export const buildFilmCsvImportErrorReportRows = (rows: FilmCsvImportErrorReportRow[]) =>
+  rows.map((row) => [String(row.rowNumber), row.title, row.year, row.reason]);
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatTvEpisodeCode,
+  listAiredTvEpisodes,
+  normalizeTvLastAiredEpisode,
+  normalizeTvSeasons,
+  summarizeTvProgress,
+} from "@/lib/films/tvProgress";
+
+const seasons = normalizeTvSeasons([
+  { seasonNumber: 2, episodeCount: 3, airDate: "2021-01-01", name: "Сезон 2" },
+  { seasonNumber: 0, episodeCount: 4, airDate: null, name: "Спецвипуски" },
+  { seasonNumber: 1, episodeCount: 2, airDate: "2020-01-01", name: "Сезон 1" },
+]);
+
+describe("tv progress", () => {
+  it("drops specials and stops at the last aired episode", () => {
+    expect(seasons.map((season) => season.seasonNumber)).toEqual([1, 2]);
+    const lastAired = normalizeTvLastAiredEpisode({
+      seasonNumber: 2,
+      episodeNumber: 2,
+      airDate: "2021-01-08",
+    });
+
+    expect(listAiredTvEpisodes(seasons, lastAired).map(formatTvEpisodeCode)).toEqual([
+      "S1E1",
+      "S1E2",
+      "S2E1",
+      "S2E2",
+    ]);
+    expect(listAiredTvEpisodes(seasons, null)).toHaveLength(5);
+  });
+
+  it("derives percent and the next episode after the furthest watched one", () => {
+    const summary = summarizeTvProgress({
+      seasons,
+      lastAired: { seasonNumber: 2, episodeNumber: 3, airDate: "2021-01-15" },
+      watchedEpisodes: [
+        { seasonNumber: 1, episodeNumber: 1 },
+        { seasonNumber: 2, episodeNumber: 1 },
+      ],
+      lastWatchedAt: "2021-02-01T10:00:00Z",
+    });
+
+    expect(summary).toMatchObject({
+      airedCount: 5,
+      watchedCount: 2,
+      viewPercent: 40,
+      isViewed: true,
+      nextEpisode: { seasonNumber: 2, episodeNumber: 2 },
+      hasNewEpisode: false,
+    });
+  });
+
+  it("flags a new episode that aired after the last watched one", () => {
+    const summary = summarizeTvProgress({
+      seasons,
+      lastAired: { seasonNumber: 2, episodeNumber: 3, airDate: "2021-03-01" },
+      watchedEpisodes: [
+        { seasonNumber: 1, episodeNumber: 1 },
+        { seasonNumber: 1, episodeNumber: 2 },
+        { seasonNumber: 2, episodeNumber: 1 },
+        { seasonNumber: 2, episodeNumber: 2 },
+      ],
+      lastWatchedAt: "2021-02-01T10:00:00Z",
+    });
+
+    expect(summary.nextEpisode).toEqual({ seasonNumber: 2, episodeNumber: 3 });
+    expect(summary.hasNewEpisode).toBe(true);
+  });
+
+  it("starts from the first episode when nothing is watched", () => {
+    const summary = summarizeTvProgress({
+      seasons,
+      lastAired: null,
+      watchedEpisodes: [],
+      lastWatchedAt: null,
+    });
+
+    expect(summary).toMatchObject({
+      viewPercent: 0,
+      isViewed: false,
+      nextEpisode: { seasonNumber: 1, episodeNumber: 1 },
+      hasNewEpisode: false,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+export type TvSeason = {
+  seasonNumber: number;
+  episodeCount: number;
+  airDate: string | null;
+  name: string;
+};
+
+export type TvEpisodeRef = {
+  seasonNumber: number;
+  episodeNumber: number;
+};
+
+export type TvLastAiredEpisode = TvEpisodeRef & {
+  airDate: string | null;
+};
+
+export type TvProgressSummary = {
+  airedCount: number;
+  watchedCount: number;
+  viewPercent: number;
+  isViewed: boolean;
+  nextEpisode: TvEpisodeRef | null;
+  hasNewEpisode: boolean;
+};
+
+export const getTvEpisodeKey = ({ seasonNumber, episodeNumber }: TvEpisodeRef) =>
+  `${seasonNumber}:${episodeNumber}`;
+
+export const formatTvEpisodeCode = ({ seasonNumber, episodeNumber }: TvEpisodeRef) =>
+  `S${seasonNumber}E${episodeNumber}`;
+
+const compareTvEpisodes = (left: TvEpisodeRef, right: TvEpisodeRef) =>
+  left.seasonNumber !== right.seasonNumber
+    ? left.seasonNumber - right.seasonNumber
+    : left.episodeNumber - right.episodeNumber;
+
+const toFiniteInt = (value: unknown) => {
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(parsed) ? Math.trunc(parsed) : null;
+};
+
+/** Reads the `items.tv_seasons` jsonb, dropping specials (season 0) and empty seasons. */
+export const normalizeTvSeasons = (value: unknown): TvSeason[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => {
+      if (!entry || typeof entry !== "object") return null;
+      const record = entry as Record<string, unknown>;
+      const seasonNumber = toFiniteInt(record.seasonNumber);
+      const episodeCount = toFiniteInt(record.episodeCount);
+      if (seasonNumber === null || seasonNumber < 1 || !episodeCount || episodeCount < 1) {
+        return null;
+      }
+      return {
+        seasonNumber,
+        episodeCount,
+        airDate: typeof record.airDate === "string" && record.airDate ? record.airDate : null,
+        name: typeof record.name === "string" ? record.name : "",
+      };
+    })
+    .filter((season): season is TvSeason => Boolean(season))
+    .sort((left, right) => left.seasonNumber - right.seasonNumber);
+};
+
+export const normalizeTvLastAiredEpisode = (value: unknown): TvLastAiredEpisode | null => {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const seasonNumber = toFiniteInt(record.seasonNumber);
+  const episodeNumber = toFiniteInt(record.episodeNumber);
+  if (!seasonNumber || !episodeNumber || seasonNumber < 1 || episodeNumber < 1) {
+    return null;
+  }
+  return {
+    seasonNumber,
+    episodeNumber,
+    airDate: typeof record.airDate === "string" && record.airDate ? record.airDate : null,
+  };
+};
+
+/**
+ * Episodes that have already aired, in watch order. Without a known last aired
+ * episode every listed episode counts as aired.
+ */
+export const listAiredTvEpisodes = (
+  seasons: TvSeason[],
+  lastAired: TvLastAiredEpisode | null,
+) => {
+  const episodes: TvEpisodeRef[] = [];
+  seasons.forEach((season) => {
+    for (let episodeNumber = 1; episodeNumber <= season.episodeCount; episodeNumber += 1) {
+      const episode = { seasonNumber: season.seasonNumber, episodeNumber };
+      if (lastAired && compareTvEpisodes(episode, lastAired) > 0) {
+        return;
+      }
+      episodes.push(episode);
+    }
+  });
+  return episodes;
+};
+
+export const summarizeTvProgress = ({
+  seasons,
+  lastAired,
+  watchedEpisodes,
+  lastWatchedAt,
+}: {
+  seasons: TvSeason[];
+  lastAired: TvLastAiredEpisode | null;
+  watchedEpisodes: TvEpisodeRef[];
+  lastWatchedAt: string | null;
+}): TvProgressSummary => {
+  const airedEpisodes = listAiredTvEpisodes(seasons, lastAired);
+  const watchedKeys = new Set(watchedEpisodes.map(getTvEpisodeKey));
+  const watchedAired = airedEpisodes.filter((episode) =>
+    watchedKeys.has(getTvEpisodeKey(episode)),
+  );
+  const furthestWatched = watchedAired[watchedAired.length - 1] ?? null;
+  const nextEpisode = furthestWatched
+    ? airedEpisodes.find((episode) => compareTvEpisodes(episode, furthestWatched) > 0) ?? null
+    : airedEpisodes[0] ?? null;
+  const lastAiredTime = lastAired?.airDate ? new Date(lastAired.airDate).getTime() : NaN;
+  const lastWatchedTime = lastWatchedAt ? new Date(lastWatchedAt).getTime() : NaN;
+
+  return {
+    airedCount: airedEpisodes.length,
+    watchedCount: watchedAired.length,
+    viewPercent:
+      airedEpisodes.length > 0
+        ? Math.round((watchedAired.length / airedEpisodes.length) * 100)
+        : 0,
+    isViewed: watchedAired.length > 0,
+    nextEpisode,
+    hasNewEpisode:
+      Boolean(furthestWatched && nextEpisode) &&
+      Number.isFinite(lastAiredTime) &&
+      Number.isFinite(lastWatchedTime) &&
+      lastAiredTime > lastWatchedTime,
+  };
+};
@@ -0,0 +1,201 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  normalizeTvLastAiredEpisode,
+  normalizeTvSeasons,
+  summarizeTvProgress,
+  type TvEpisodeRef,
+  type TvLastAiredEpisode,
+  type TvProgressSummary,
+  type TvSeason,
+} from "@/lib/films/tvProgress";
+
+export const TV_STRUCTURE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const EPISODE_PROGRESS_BATCH_SIZE = 200;
+
+export type TvStructure = {
+  seasons: TvSeason[];
+  lastAired: TvLastAiredEpisode | null;
+};
+
+export type TvWatchedEpisodes = {
+  episodes: TvEpisodeRef[];
+  lastWatchedAt: string | null;
+};
+
+type EpisodeProgressRow = {
+  view_id: string;
+  season_number: number;
+  episode_number: number;
+  watched_at: string | null;
+};
+
+export const isTvStructureStale = (syncedAt?: string | null) => {
+  if (!syncedAt) return true;
+  const syncedTime = new Date(syncedAt).getTime();
+  return Number.isNaN(syncedTime) || Date.now() - syncedTime > TV_STRUCTURE_MAX_AGE_MS;
+};
+
+/** Pulls the season structure from TMDB and stores it on the shared item row. */
+export const syncTvStructure = async ({
+  supabase,
+  itemId,
+  externalId,
+}: {
+  supabase: SupabaseClient;
+  itemId: string;
+  externalId: string;
+}): Promise<TvStructure> => {
+  const response = await fetch(`/api/tmdb/${externalId}?mediaType=tv`);
+  const data = (await response.json()) as {
+    error?: string;
+    tvSeasons?: unknown;
+    tvLastAiredEpisode?: unknown;
+  };
+
+  if (!response.ok) {
+    throw new Error(data.error ?? "Не вдалося завантажити сезони.");
+  }
+
+  const structure = {
+    seasons: normalizeTvSeasons(data.tvSeasons),
+    lastAired: normalizeTvLastAiredEpisode(data.tvLastAiredEpisode),
+  };
+  const { error } = await supabase
+    .from("items")
+    .update({
+      tv_seasons: structure.seasons,
+      tv_last_aired_episode: structure.lastAired,
+      tv_structure_synced_at: new Date().toISOString(),
+    })
+    .eq("id", itemId);
+
+  if (error) {
+    throw new Error("Не вдалося зберегти сезони.");
+  }
+
+  return structure;
+};
+
+export const loadTvWatchedEpisodes = async (supabase: SupabaseClient, viewIds: string[]) => {
+  const watchedByViewId = new Map<string, TvWatchedEpisodes>();
+
+  for (let offset = 0; offset < viewIds.length; offset += EPISODE_PROGRESS_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("user_episode_progress")
+      .select("view_id, season_number, episode_number, watched_at")
+      .in("view_id", viewIds.slice(offset, offset + EPISODE_PROGRESS_BATCH_SIZE));
+
+    if (error) {
+      throw new Error("Не вдалося завантажити прогрес серіалів.");
+    }
+
+    ((data ?? []) as EpisodeProgressRow[]).forEach((row) => {
+      const current = watchedByViewId.get(row.view_id) ?? { episodes: [], lastWatchedAt: null };
+      current.episodes.push({
+        seasonNumber: row.season_number,
+        episodeNumber: row.episode_number,
+      });
+      if (row.watched_at && (!current.lastWatchedAt || row.watched_at > current.lastWatchedAt)) {
+        current.lastWatchedAt = row.watched_at;
+      }
+      watchedByViewId.set(row.view_id, current);
+    });
+  }
+
+  return watchedByViewId;
+};
+
+/**
+ * Marks episodes as watched or unwatched and re-derives the entry's
+ * `view_percent`/`is_viewed` from the aired episodes.
+ */
+export const setTvEpisodesWatched = async ({
+  supabase,
+  viewId,
+  episodes,
+  watched,
+  structure,
+}: {
+  supabase: SupabaseClient;
+  viewId: string;
+  episodes: TvEpisodeRef[];
+  watched: boolean;
+  structure: TvStructure;
+}): Promise<{ watched: TvWatchedEpisodes; summary: TvProgressSummary }> => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("Потрібна авторизація.");
+  }
+
+  if (episodes.length > 0) {
+    if (watched) {
+      const { error } = await supabase.from("user_episode_progress").upsert(
+        episodes.map((episode) => ({
+          view_id: viewId,
+          user_id: user.id,
+          season_number: episode.seasonNumber,
+          episode_number: episode.episodeNumber,
+        })),
+        { onConflict: "view_id,season_number,episode_number", ignoreDuplicates: true },
+      );
+      if (error) {
+        throw new Error("Не вдалося зберегти прогрес.");
+      }
+    } else {
+      const bySeason = new Map<number, number[]>();
+      episodes.forEach((episode) => {
+        bySeason.set(episode.seasonNumber, [
+          ...(bySeason.get(episode.seasonNumber) ?? []),
+          episode.episodeNumber,
+        ]);
+      });
+      for (const [seasonNumber, episodeNumbers] of bySeason) {
+        const { error } = await supabase
+          .from("user_episode_progress")
+          .delete()
+          .eq("view_id", viewId)
+          .eq("season_number", seasonNumber)
+          .in("episode_number", episodeNumbers);
+        if (error) {
+          throw new Error("Не вдалося зберегти прогрес.");
+        }
+      }
+    }
+  }
+
+  const nextWatched = (await loadTvWatchedEpisodes(supabase, [viewId])).get(viewId) ?? {
+    episodes: [],
+    lastWatchedAt: null,
+  };
+  const summary = summarizeTvProgress({
+    seasons: structure.seasons,
+    lastAired: structure.lastAired,
+    watchedEpisodes: nextWatched.episodes,
+    lastWatchedAt: nextWatched.lastWatchedAt,
+  });
+
+  const { data: currentView } = await supabase
+    .from("user_views")
+    .select("is_viewed")
+    .eq("id", viewId)
+    .maybeSingle();
+  const { error: viewError } = await supabase
+    .from("user_views")
+    .update({
+      view_percent: summary.viewPercent,
+      is_viewed: summary.isViewed,
+      ...(summary.isViewed && currentView && !currentView.is_viewed
+        ? { viewed_at: new Date().toISOString() }
+        : {}),
+    })
+    .eq("id", viewId);
+
+  if (viewError) {
+    throw new Error("Не вдалося оновити прогрес перегляду.");
+  }
+
+  return { watched: nextWatched, summary };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFranchiseProgress,
+  formatFranchiseProgress,
+  groupByFranchise,
+  type FranchiseGroup,
+} from "@/lib/franchises/membership";
+import { buildFranchiseHref, parseFranchiseRouteId } from "@/lib/franchises/routes";
+
+const entry = (sourceItemId: string, title: string) => ({
+  sourceItemId,
+  title,
+  year: "",
+  posterUrl: "",
+});
+
+describe("franchises", () => {
+  it("round-trips route ids, including prefixed IGDB ids", () => {
+    const href = buildFranchiseHref({ source: "igdb", sourceFranchiseId: "franchise-12" });
+
+    expect(href).toBe("/franchises/igdb-franchise-12");
+    expect(parseFranchiseRouteId("igdb-franchise-12")).toEqual({
+      source: "igdb",
+      sourceFranchiseId: "franchise-12",
+    });
+    expect(parseFranchiseRouteId("rawg-4")).toBeNull();
+    expect(parseFranchiseRouteId("tmdb-")).toBeNull();
+  });
+
+  it("counts watched and missing entries in franchise order", () => {
+    const progress = buildFranchiseProgress(
+      [entry("120", "Братство Персня"), entry("121", "Дві вежі"), entry("122", "Повернення короля")],
+      new Map([
+        ["120", { viewId: "v1", isViewed: true, rating: 9 }],
+        ["122", { viewId: "v3", isViewed: false, rating: null }],
+      ]),
+    );
+
+    expect(progress.rows.map((row) => row.position)).toEqual([1, 2, 3]);
+    expect(progress).toMatchObject({ totalCount: 3, ownedCount: 2, watchedCount: 1 });
+    expect(progress.missing.map((row) => row.title)).toEqual(["Дві вежі"]);
+    expect(formatFranchiseProgress(progress, "film")).toBe("1 з 3 переглянуто");
+  });
+
+  it("groups items by franchise and keeps the rest separately", () => {
+    const yakuza: FranchiseGroup = {
+      href: "/franchises/igdb-franchise-1",
+      name: "Yakuza",
+      position: 0,
+      totalCount: 9,
+      watchedCount: 2,
+    };
+    const groups = new Map([
+      ["b", { ...yakuza, position: 3 }],
+      ["a", { ...yakuza, position: 1 }],
+    ]);
+
+    const { sections, ungrouped } = groupByFranchise(["b", "c", "a"], (id) => id, groups);
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].items).toEqual(["a", "b"]);
+    expect(ungrouped).toEqual(["c"]);
+  });
+});
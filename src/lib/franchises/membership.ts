@@ -0,0 +1,272 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildFranchiseHref, type FranchiseSource } from "@/lib/franchises/routes";
+
+export type FranchiseMediaKind = "film" | "game";
+
+export type FranchiseEntry = {
+  sourceItemId: string;
+  title: string;
+  year: string;
+  posterUrl: string;
+};
+
+/** A TMDB collection or IGDB franchise/series with members in release order. */
+export type FranchiseDetail = {
+  mediaKind: FranchiseMediaKind;
+  source: FranchiseSource;
+  sourceFranchiseId: string;
+  name: string;
+  posterUrl: string;
+  entries: FranchiseEntry[];
+};
+
+export type FranchiseOwnedEntry = {
+  viewId: string;
+  isViewed: boolean;
+  rating: number | null;
+};
+
+export type FranchiseProgressRow = FranchiseEntry & {
+  position: number;
+  owned: FranchiseOwnedEntry | null;
+};
+
+export type FranchiseGroup = {
+  href: string;
+  name: string;
+  position: number;
+  totalCount: number;
+  watchedCount: number;
+};
+
+type FranchiseRecord = {
+  id: string;
+  source: FranchiseSource;
+  source_franchise_id: string;
+  name: string;
+  entries: FranchiseEntry[] | null;
+};
+
+export const formatFranchiseProgress = (
+  { watchedCount, totalCount }: { watchedCount: number; totalCount: number },
+  mediaKind: FranchiseMediaKind,
+) => `${watchedCount} з ${totalCount} ${mediaKind === "film" ? "переглянуто" : "пройдено"}`;
+
+/** Lines the source membership up with the owner's views, keyed by `items.external_id`. */
+export const buildFranchiseProgress = (
+  entries: FranchiseEntry[],
+  ownedByExternalId: Map<string, FranchiseOwnedEntry>,
+) => {
+  const rows: FranchiseProgressRow[] = entries.map((entry, index) => ({
+    ...entry,
+    position: index + 1,
+    owned: ownedByExternalId.get(entry.sourceItemId) ?? null,
+  }));
+
+  return {
+    rows,
+    totalCount: rows.length,
+    ownedCount: rows.filter((row) => row.owned).length,
+    watchedCount: rows.filter((row) => row.owned?.isViewed).length,
+    missing: rows.filter((row) => !row.owned),
+  };
+};
+
+export const fetchItemFranchise = async ({
+  mediaKind,
+  externalId,
+}: {
+  mediaKind: FranchiseMediaKind;
+  externalId: string;
+}): Promise<FranchiseDetail | null | undefined> => {
+  const params = new URLSearchParams({ mediaKind, externalId });
+  const response = await fetch(`/api/franchises/lookup?${params.toString()}`);
+  if (!response.ok) return undefined;
+  const data = (await response.json()) as { franchise?: FranchiseDetail | null };
+  return data.franchise ?? null;
+};
+
+/**
+ * Stores the franchise of a collection item with its current membership and links the item.
+ * A title without a franchise loses stale links; a failed lookup changes nothing.
+ */
+export const refreshItemFranchise = async ({
+  supabase,
+  itemId,
+  mediaKind,
+  externalId,
+}: {
+  supabase: SupabaseClient;
+  itemId: string;
+  mediaKind: FranchiseMediaKind;
+  externalId: string;
+}) => {
+  try {
+    const franchise = await fetchItemFranchise({ mediaKind, externalId });
+    if (franchise === undefined) {
+      return false;
+    }
+
+    const { error: deleteLinksError } = await supabase
+      .from("item_franchises")
+      .delete()
+      .eq("item_id", itemId);
+
+    if (deleteLinksError || !franchise) {
+      return !deleteLinksError;
+    }
+
+    const { data: franchiseRow, error: upsertError } = await supabase
+      .from("franchises")
+      .upsert(
+        {
+          media_kind: franchise.mediaKind,
+          source: franchise.source,
+          source_franchise_id: franchise.sourceFranchiseId,
+          name: franchise.name,
+          poster_url: franchise.posterUrl || null,
+          entries: franchise.entries,
+        },
+        { onConflict: "source,source_franchise_id" },
+      )
+      .select("id")
+      .single();
+
+    if (upsertError || !franchiseRow) {
+      return false;
+    }
+
+    const position = franchise.entries.findIndex((entry) => entry.sourceItemId === externalId);
+    const { error: linkError } = await supabase.from("item_franchises").insert({
+      item_id: itemId,
+      franchise_id: (franchiseRow as { id: string }).id,
+      position: position >= 0 ? position + 1 : null,
+    });
+
+    return !linkError;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Franchise headers for the grouped card view, keyed by item id. Watched counts
+ * cover the owner's whole collection, not only the items loaded on screen.
+ */
+export const loadFranchiseGroups = async ({
+  supabase,
+  ownerUserId,
+  itemIds,
+}: {
+  supabase: SupabaseClient;
+  ownerUserId: string;
+  itemIds: string[];
+}): Promise<Map<string, FranchiseGroup>> => {
+  const groups = new Map<string, FranchiseGroup>();
+  if (itemIds.length === 0) {
+    return groups;
+  }
+
+  const { data: linkData, error: linkError } = await supabase
+    .from("item_franchises")
+    .select("item_id, position, franchises!inner(id, source, source_franchise_id, name, entries)")
+    .in("item_id", itemIds);
+
+  if (linkError) {
+    return groups;
+  }
+
+  const links = ((linkData ?? []) as Array<{
+    item_id: string;
+    position: number | null;
+    franchises: FranchiseRecord | FranchiseRecord[];
+  }>).flatMap((row) => {
+    const franchise = Array.isArray(row.franchises) ? row.franchises[0] : row.franchises;
+    return franchise ? [{ itemId: row.item_id, position: row.position, franchise }] : [];
+  });
+
+  const franchiseIds = [...new Set(links.map((link) => link.franchise.id))];
+  const watchedByFranchiseId = new Map<string, number>();
+
+  if (franchiseIds.length > 0) {
+    const { data: memberData } = await supabase
+      .from("item_franchises")
+      .select("item_id, franchise_id")
+      .in("franchise_id", franchiseIds);
+    const members = (memberData ?? []) as Array<{ item_id: string; franchise_id: string }>;
+
+    const { data: viewData } = await supabase
+      .from("user_views")
+      .select("item_id")
+      .eq("user_id", ownerUserId)
+      .eq("is_viewed", true)
+      .in("item_id", [...new Set(members.map((member) => member.item_id))]);
+    const watchedItemIds = new Set(
+      ((viewData ?? []) as Array<{ item_id: string }>).map((row) => row.item_id),
+    );
+
+    members.forEach((member) => {
+      if (watchedItemIds.has(member.item_id)) {
+        watchedByFranchiseId.set(
+          member.franchise_id,
+          (watchedByFranchiseId.get(member.franchise_id) ?? 0) + 1,
+        );
+      }
+    });
+  }
+
+  links.forEach(({ itemId, position, franchise }) => {
+    if (groups.has(itemId)) {
+      return;
+    }
+    groups.set(itemId, {
+      href: buildFranchiseHref({
+        source: franchise.source,
+        sourceFranchiseId: franchise.source_franchise_id,
+      }),
+      name: franchise.name,
+      position: position ?? Number.MAX_SAFE_INTEGER,
+      totalCount: franchise.entries?.length ?? 0,
+      watchedCount: watchedByFranchiseId.get(franchise.id) ?? 0,
+    });
+  });
+
+  return groups;
+};
+
+/**
+ * Splits a list into franchise sections (alphabetical, members in franchise
+ * order) followed by one section with everything outside a franchise.
+ */
+export const groupByFranchise = <T>(
+  items: T[],
+  getItemId: (item: T) => string,
+  groupsByItemId: Map<string, FranchiseGroup>,
+) => {
+  const sections = new Map<string, { group: FranchiseGroup; items: T[] }>();
+  const ungrouped: T[] = [];
+
+  items.forEach((item) => {
+    const group = groupsByItemId.get(getItemId(item));
+    if (!group) {
+      ungrouped.push(item);
+      return;
+    }
+    const section = sections.get(group.href) ?? { group, items: [] };
+    section.items.push(item);
+    sections.set(group.href, section);
+  });
+
+  const positionOf = (item: T) =>
+    groupsByItemId.get(getItemId(item))?.position ?? Number.MAX_SAFE_INTEGER;
+
+  return {
+    sections: [...sections.values()]
+      .map((section) => ({
+        ...section,
+        items: [...section.items].sort((left, right) => positionOf(left) - positionOf(right)),
+      }))
+      .sort((left, right) => left.group.name.localeCompare(right.group.name, "uk")),
+    ungrouped,
+  };
+};
@@ -0,0 +1,21 @@
+export type FranchiseSource = "tmdb" | "igdb";
+
+export type FranchiseRouteTarget = {
+  source: FranchiseSource;
+  sourceFranchiseId: string;
+};
+
+export const buildFranchiseHref = ({ source, sourceFranchiseId }: FranchiseRouteTarget) =>
+  `/franchises/${source}-${sourceFranchiseId}`;
+
+export const parseFranchiseRouteId = (franchiseId: string): FranchiseRouteTarget | null => {
+  const separatorIndex = franchiseId.indexOf("-");
+  const source = franchiseId.slice(0, separatorIndex);
+  const sourceFranchiseId = franchiseId.slice(separatorIndex + 1);
+
+  if (separatorIndex <= 0 || !sourceFranchiseId || (source !== "tmdb" && source !== "igdb")) {
+    return null;
+  }
+
+  return { source, sourceFranchiseId };
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  groupFriendActivityEvents,
+  type FriendActivityEventRow,
+} from "@/lib/friends/activityFeed";
+
+const buildEvent = (
+  id: string,
+  actorUserId: string,
+  occurredAt: string,
+  overrides: Partial<FriendActivityEventRow> = {},
+): FriendActivityEventRow => ({
+  id,
+  actor_user_id: actorUserId,
+  user_view_id: `view-${id}`,
+  item_id: `item-${id}`,
+  media_kind: "film",
+  event_type: "added",
+  occurred_at: occurredAt,
+  payload: {},
+  ...overrides,
+});
+
+describe("friend activity feed", () => {
+  it("groups consecutive events of one friend within the window", () => {
+    const bursts = groupFriendActivityEvents([
+      buildEvent("1", "anna", "2026-05-08T12:00:00Z"),
+      buildEvent("2", "anna", "2026-05-08T11:00:00Z"),
+      buildEvent("3", "anna", "2026-05-08T09:30:00Z"),
+      buildEvent("4", "bohdan", "2026-05-08T09:00:00Z"),
+      buildEvent("5", "anna", "2026-05-08T08:00:00Z"),
+      buildEvent("6", "anna", "2026-05-07T08:00:00Z"),
+    ]);
+
+    expect(bursts.map((burst) => burst.events.map((event) => event.id))).toEqual([
+      ["1", "2", "3"],
+      ["4"],
+      ["5"],
+      ["6"],
+    ]);
+    expect(bursts[0]).toMatchObject({
+      actorUserId: "anna",
+      startedAt: "2026-05-08T09:30:00Z",
+      endedAt: "2026-05-08T12:00:00Z",
+    });
+  });
+
+  it("keeps only the latest event of an entry inside a burst", () => {
+    const bursts = groupFriendActivityEvents([
+      buildEvent("viewed", "anna", "2026-05-08T12:00:00Z", {
+        user_view_id: "view-1",
+        event_type: "viewed",
+      }),
+      buildEvent("added", "anna", "2026-05-08T11:59:00Z", { user_view_id: "view-1" }),
+    ]);
+
+    expect(bursts).toHaveLength(1);
+    expect(bursts[0].events.map((event) => event.event_type)).toEqual(["viewed"]);
+  });
+});
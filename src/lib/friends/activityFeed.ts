@@ -0,0 +1,120 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { FriendNotificationPayload } from "@/lib/friends/notifications";
+
+export const FRIEND_ACTIVITY_FEED_PAGE_SIZE = 30;
+/** Events from one friend closer than this are shown as a single burst. */
+export const FRIEND_ACTIVITY_BURST_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+export type FriendActivityEventRow = {
+  id: string;
+  actor_user_id: string;
+  user_view_id: string;
+  item_id: string;
+  media_kind: "film" | "game";
+  event_type: "added" | "viewed";
+  occurred_at: string;
+  payload: FriendNotificationPayload;
+};
+
+export type FriendActivityFeedCursor = {
+  occurredAt: string;
+  id: string;
+};
+
+export type FriendActivityBurst = {
+  key: string;
+  actorUserId: string;
+  startedAt: string;
+  endedAt: string;
+  events: FriendActivityEventRow[];
+};
+
+export const FRIEND_ACTIVITY_EVENT_SELECT =
+  "id, actor_user_id, user_view_id, item_id, media_kind, event_type, occurred_at, payload";
+
+/** Loads one page of friend events, newest first, using a keyset cursor. */
+export const loadFriendActivityFeedPage = async (
+  supabase: SupabaseClient,
+  {
+    actorUserIds,
+    cursor = null,
+    pageSize = FRIEND_ACTIVITY_FEED_PAGE_SIZE,
+  }: {
+    actorUserIds: string[];
+    cursor?: FriendActivityFeedCursor | null;
+    pageSize?: number;
+  },
+) => {
+  if (actorUserIds.length === 0) {
+    return { events: [] as FriendActivityEventRow[], nextCursor: null };
+  }
+
+  let query = supabase
+    .from("friend_activity_events")
+    .select(FRIEND_ACTIVITY_EVENT_SELECT)
+    .in("actor_user_id", actorUserIds)
+    .order("occurred_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(pageSize);
+
+  if (cursor) {
+    query = query.or(
+      `occurred_at.lt.${cursor.occurredAt},and(occurred_at.eq.${cursor.occurredAt},id.lt.${cursor.id})`,
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error("Не вдалося завантажити стрічку друзів.");
+  }
+
+  const events = (data ?? []) as FriendActivityEventRow[];
+  const lastEvent = events[events.length - 1];
+  return {
+    events,
+    nextCursor:
+      events.length === pageSize && lastEvent
+        ? { occurredAt: lastEvent.occurred_at, id: lastEvent.id }
+        : null,
+  };
+};
+
+/**
+ * Groups newest-first events into bursts: consecutive events of the same
+ * friend within the burst window. Marking a title as viewed right after
+ * adding it keeps only the "viewed" event of that entry.
+ */
+export const groupFriendActivityEvents = (
+  events: FriendActivityEventRow[],
+  windowMs = FRIEND_ACTIVITY_BURST_WINDOW_MS,
+) => {
+  const bursts: FriendActivityBurst[] = [];
+
+  events.forEach((event) => {
+    const current = bursts[bursts.length - 1];
+    const eventTime = new Date(event.occurred_at).getTime();
+    const canJoin =
+      current &&
+      current.actorUserId === event.actor_user_id &&
+      new Date(current.startedAt).getTime() - eventTime <= windowMs;
+
+    if (!canJoin) {
+      bursts.push({
+        key: event.id,
+        actorUserId: event.actor_user_id,
+        startedAt: event.occurred_at,
+        endedAt: event.occurred_at,
+        events: [event],
+      });
+      return;
+    }
+
+    current.startedAt = event.occurred_at;
+    if (current.events.some((entry) => entry.user_view_id === event.user_view_id)) {
+      return;
+    }
+    current.events.push(event);
+  });
+
+  return bursts;
+};
@@ -0,0 +1,28 @@
+import type { TelegramDeliveryPayload } from "@/lib/friends/telegram";
+
+export const FRIEND_NOTIFICATION_CHANNELS = ["telegram", "email"] as const;
+
+export type FriendNotificationChannel = (typeof FRIEND_NOTIFICATION_CHANNELS)[number];
+
+/** Row payload written by `enqueue_friend_notification_delivery`; each channel reads its own address. */
+export type FriendDeliveryPayload = TelegramDeliveryPayload & {
+  recipientEmail?: string;
+};
+
+export type FriendNotificationDeliveryChannel = {
+  channel: FriendNotificationChannel;
+  /** Address to deliver to; null means the row can never be delivered and gets disabled. */
+  getRecipient: (payload: FriendDeliveryPayload) => string | null;
+  send: (input: {
+    recipient: string;
+    actorName: string;
+    payload: FriendDeliveryPayload;
+    appBaseUrl: string;
+  }) => Promise<{ providerMessageId: string | null }>;
+};
+
+/** 5, 10, 20, 40 minutes, then hourly. Shared so every channel retries on the same schedule. */
+export const computeDeliveryRetryAt = (attemptCount: number) => {
+  const delayMinutes = Math.min(5 * 2 ** Math.max(attemptCount - 1, 0), 60);
+  return new Date(Date.now() + delayMinutes * 60 * 1000).toISOString();
+};
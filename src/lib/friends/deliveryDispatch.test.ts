@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { fillFriendDeliveryPayload, type UserViewDetail } from "@/lib/friends/deliveryDispatch";
+
+const ownerView: UserViewDetail = {
+  id: "view-1",
+  user_id: "owner",
+  item_id: "item-1",
+  rating: 4.5,
+  comment: "Мій відгук",
+  is_viewed: true,
+  view_percent: 100,
+  viewed_at: "2026-05-10T10:00:00Z",
+};
+
+describe("friend delivery dispatch", () => {
+  it("fills activity payloads written before rating and comment were stored", () => {
+    expect(
+      fillFriendDeliveryPayload(
+        { userViewId: "view-1", eventType: "viewed", title: "Дюна" },
+        ownerView,
+      ),
+    ).toMatchObject({
+      rating: 4.5,
+      comment: "Мій відгук",
+      isViewed: true,
+      viewPercent: 100,
+      viewedAt: "2026-05-10T10:00:00Z",
+    });
+  });
+
+  it("does not attribute the owner's entry to a friend's reaction", () => {
+    const payload = {
+      userViewId: "view-1",
+      entryOwnerUserId: "owner",
+      actorUserId: "friend",
+      eventType: "reacted" as const,
+      reaction: "🔥",
+      title: "Дюна",
+    };
+
+    const filled = fillFriendDeliveryPayload(payload, ownerView);
+
+    expect(filled).toEqual(payload);
+    expect(filled.comment).toBeUndefined();
+    expect(filled.rating).toBeUndefined();
+  });
+});
@@ -0,0 +1,238 @@
+import type { getSupabaseAdmin } from "@/lib/supabase/admin";
+import {
+  computeDeliveryRetryAt,
+  type FriendDeliveryPayload,
+  type FriendNotificationChannel,
+  type FriendNotificationDeliveryChannel,
+} from "@/lib/friends/deliveryChannels";
+import type { FriendNotificationDeliveryMode } from "@/lib/friends/notificationDigest";
+import { isEntryDiscussionEventType } from "@/lib/friends/notifications";
+import { getDisplayName } from "@/lib/users/displayName";
+
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
+
+export type FriendDeliveryRow = {
+  id: string;
+  recipient_user_id: string;
+  channel: FriendNotificationChannel;
+  status: "pending" | "processing" | "sent" | "failed" | "disabled";
+  attempt_count: number;
+  delivery_mode: FriendNotificationDeliveryMode;
+  payload: FriendDeliveryPayload;
+};
+
+export type FriendDeliveryResult = {
+  deliveryId: string;
+  status: "sent" | "failed" | "skipped";
+  reason?: string;
+};
+
+export type UserViewDetail = {
+  id: string;
+  user_id: string;
+  item_id: string;
+  rating: number | null;
+  comment: string | null;
+  is_viewed: boolean;
+  view_percent: number;
+  viewed_at: string;
+};
+
+export const FRIEND_DELIVERY_ROW_COLUMNS =
+  "id, recipient_user_id, channel, status, attempt_count, delivery_mode, payload";
+
+/**
+ * Fills fields missing from older payloads from the actor's `user_views` row.
+ * Comment/reaction notices point at the owner's entry, not the actor's, so
+ * they are sent as stored.
+ */
+export const fillFriendDeliveryPayload = (
+  payload: FriendDeliveryPayload,
+  detail?: UserViewDetail,
+): FriendDeliveryPayload => {
+  if (isEntryDiscussionEventType(payload.eventType)) {
+    return payload;
+  }
+
+  return {
+    ...payload,
+    rating: typeof payload.rating === "number" ? payload.rating : detail?.rating ?? null,
+    comment: payload.comment ?? detail?.comment ?? null,
+    isViewed: typeof payload.isViewed === "boolean" ? payload.isViewed : detail?.is_viewed,
+    viewPercent:
+      typeof payload.viewPercent === "number" ? payload.viewPercent : detail?.view_percent,
+    viewedAt: payload.viewedAt ?? detail?.viewed_at ?? null,
+  };
+};
+
+/**
+ * Sends each row on its own through `channel`, filling rating/comment/progress
+ * from `user_views` for payloads written before those fields were added
+ * (`fillFriendDeliveryPayload`).
+ */
+export const dispatchFriendDeliveries = async ({
+  supabaseAdmin,
+  channel,
+  rows,
+  appBaseUrl,
+  dryRun,
+}: {
+  supabaseAdmin: SupabaseAdmin;
+  channel: FriendNotificationDeliveryChannel;
+  rows: FriendDeliveryRow[];
+  appBaseUrl: string;
+  dryRun: boolean;
+}) => {
+  const missingRecipientReason = `Missing ${channel.channel} recipient.`;
+  const actorIds = [...new Set(rows.map((row) => row.payload.actorUserId).filter(Boolean))];
+  const userViewIds = [
+    ...new Set(rows.map((row) => row.payload.userViewId?.trim() ?? "").filter(Boolean)),
+  ];
+  const itemIds = [
+    ...new Set(rows.map((row) => row.payload.itemId?.trim() ?? "").filter(Boolean)),
+  ];
+  const { data: profiles } =
+    actorIds.length > 0
+      ? await supabaseAdmin.from("profiles").select("id, username").in("id", actorIds)
+      : { data: [] as { id: string; username: string | null }[] };
+  const profileMap = new Map(
+    (profiles ?? []).map((profile) => [profile.id, profile.username]),
+  );
+  const detailsByViewId = new Map<string, UserViewDetail>();
+  const detailsByActorItem = new Map<string, UserViewDetail>();
+
+  if (userViewIds.length > 0) {
+    const { data: userViews } = await supabaseAdmin
+      .from("user_views")
+      .select("id, user_id, item_id, rating, comment, is_viewed, view_percent, viewed_at")
+      .in("id", userViewIds);
+
+    (userViews ?? []).forEach((row) => {
+      const detail = row as UserViewDetail;
+      detailsByViewId.set(detail.id, detail);
+      detailsByActorItem.set(`${detail.user_id}:${detail.item_id}`, detail);
+    });
+  }
+
+  if (actorIds.length > 0 && itemIds.length > 0) {
+    const { data: actorViews } = await supabaseAdmin
+      .from("user_views")
+      .select("id, user_id, item_id, rating, comment, is_viewed, view_percent, viewed_at")
+      .in("user_id", actorIds)
+      .in("item_id", itemIds);
+
+    (actorViews ?? []).forEach((row) => {
+      const detail = row as UserViewDetail;
+      if (!detailsByViewId.has(detail.id)) {
+        detailsByViewId.set(detail.id, detail);
+      }
+      const actorItemKey = `${detail.user_id}:${detail.item_id}`;
+      if (!detailsByActorItem.has(actorItemKey)) {
+        detailsByActorItem.set(actorItemKey, detail);
+      }
+    });
+  }
+
+  let sent = 0;
+  let failed = 0;
+  let skipped = 0;
+  const results: FriendDeliveryResult[] = [];
+
+  for (const delivery of rows) {
+    const recipient = channel.getRecipient(delivery.payload);
+    const actorId = delivery.payload.actorUserId?.trim();
+    const actorName = getDisplayName(
+      actorId ? profileMap.get(actorId) ?? null : null,
+      actorId ?? "friend",
+    );
+
+    if (!recipient) {
+      skipped += 1;
+      results.push({
+        deliveryId: delivery.id,
+        status: "skipped",
+        reason: missingRecipientReason,
+      });
+      if (!dryRun) {
+        await supabaseAdmin
+          .from("friend_notification_deliveries")
+          .update({
+            status: "disabled",
+            last_error: missingRecipientReason,
+            last_attempt_at: new Date().toISOString(),
+          })
+          .eq("id", delivery.id);
+      }
+      continue;
+    }
+
+    const detail =
+      (delivery.payload.userViewId
+        ? detailsByViewId.get(delivery.payload.userViewId)
+        : undefined) ??
+      (actorId && delivery.payload.itemId
+        ? detailsByActorItem.get(`${actorId}:${delivery.payload.itemId}`)
+        : undefined);
+    const payload = fillFriendDeliveryPayload(delivery.payload, detail);
+
+    if (dryRun) {
+      results.push({ deliveryId: delivery.id, status: "sent" });
+      sent += 1;
+      continue;
+    }
+
+    await supabaseAdmin
+      .from("friend_notification_deliveries")
+      .update({
+        status: "processing",
+        attempt_count: delivery.attempt_count + 1,
+        last_attempt_at: new Date().toISOString(),
+        last_error: null,
+      })
+      .eq("id", delivery.id);
+
+    try {
+      const { providerMessageId } = await channel.send({
+        recipient,
+        actorName,
+        payload,
+        appBaseUrl,
+      });
+
+      await supabaseAdmin
+        .from("friend_notification_deliveries")
+        .update({
+          status: "sent",
+          sent_at: new Date().toISOString(),
+          provider_message_id: providerMessageId,
+          last_error: null,
+        })
+        .eq("id", delivery.id);
+
+      sent += 1;
+      results.push({ deliveryId: delivery.id, status: "sent" });
+    } catch (error) {
+      const nextAttemptCount = delivery.attempt_count + 1;
+      const message =
+        error instanceof Error ? error.message : `${channel.channel} delivery failed.`;
+
+      await supabaseAdmin
+        .from("friend_notification_deliveries")
+        .update({
+          status: "failed",
+          last_error: message,
+          available_at: computeDeliveryRetryAt(nextAttemptCount),
+        })
+        .eq("id", delivery.id);
+
+      failed += 1;
+      results.push({
+        deliveryId: delivery.id,
+        status: "failed",
+        reason: message,
+      });
+    }
+  }
+
+  return { sent, failed, skipped, results };
+};
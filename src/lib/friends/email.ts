@@ -0,0 +1,121 @@
+import { sendSmtpMail, type SmtpConfig } from "@/lib/email/smtp";
+import {
+  buildEmailUnsubscribeUrl,
+  createEmailUnsubscribeToken,
+} from "@/lib/email/unsubscribeToken";
+import type {
+  FriendDeliveryPayload,
+  FriendNotificationDeliveryChannel,
+} from "@/lib/friends/deliveryChannels";
+import { getFriendNotificationActionSentence } from "@/lib/friends/notifications";
+import {
+  formatTelegramNotificationText,
+  getTelegramNotificationUrl,
+} from "@/lib/friends/telegram";
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Subject, plain-text and HTML parts of one notification email. The text part
+ * reuses the Telegram wording; the HTML part adds the poster and a button.
+ */
+export const formatFriendNotificationEmail = ({
+  actorName,
+  payload,
+  appBaseUrl,
+  unsubscribeUrl,
+}: {
+  actorName: string;
+  payload: FriendDeliveryPayload;
+  appBaseUrl?: string | null;
+  unsubscribeUrl: string;
+}) => {
+  const title = payload.title?.trim() || "Без назви";
+  const actionSentence = getFriendNotificationActionSentence(payload.mediaKind, payload.eventType);
+  const directUrl = getTelegramNotificationUrl(payload, appBaseUrl);
+  const posterUrl = payload.posterUrl?.trim();
+  const comment = payload.comment?.trim() || null;
+  const rating =
+    typeof payload.rating === "number" && Number.isFinite(payload.rating)
+      ? payload.rating.toFixed(1)
+      : null;
+
+  const text = [
+    formatTelegramNotificationText({ actorName, payload, appBaseUrl }),
+    "",
+    `Відписатися від email-сповіщень: ${unsubscribeUrl}`,
+  ].join("\n");
+
+  const html = [
+    '<!doctype html><html lang="uk"><body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,sans-serif;color:#18181b;">',
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">',
+    "<tr><td>",
+    `<p style="margin:0 0 8px;font-size:14px;color:#71717a;">Оновлення від друга — ${escapeHtml(actorName)}</p>`,
+    `<h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(title)}</h1>`,
+    posterUrl?.startsWith("https://")
+      ? `<img src="${escapeHtml(posterUrl)}" alt="${escapeHtml(title)}" width="160" style="display:block;border-radius:8px;margin:0 0 16px;" />`
+      : "",
+    `<p style="margin:0 0 8px;">${escapeHtml(actionSentence)}</p>`,
+    rating ? `<p style="margin:0 0 8px;">Рейтинг: <strong>${rating}</strong></p>` : "",
+    payload.reaction ? `<p style="margin:0 0 8px;">Реакція: ${escapeHtml(payload.reaction)}</p>` : "",
+    comment
+      ? `<blockquote style="margin:0 0 16px;padding:8px 12px;border-left:3px solid #d4d4d8;white-space:pre-wrap;">${escapeHtml(comment)}</blockquote>`
+      : "",
+    directUrl
+      ? `<p style="margin:16px 0;"><a href="${escapeHtml(directUrl)}" style="display:inline-block;padding:10px 18px;background:#18181b;color:#ffffff;border-radius:8px;text-decoration:none;">Відкрити</a></p>`
+      : "",
+    "</td></tr></table>",
+    `<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#71717a;text-align:center;">Не хочеш отримувати ці листи? <a href="${escapeHtml(unsubscribeUrl)}" style="color:#71717a;">Відписатися</a></p>`,
+    "</body></html>",
+  ].join("");
+
+  return {
+    subject: `${actorName}: ${title}`,
+    text,
+    html,
+  };
+};
+
+export const createEmailDeliveryChannel = ({
+  smtp,
+  unsubscribeSecret,
+}: {
+  smtp: SmtpConfig;
+  unsubscribeSecret: string;
+}): FriendNotificationDeliveryChannel => ({
+  channel: "email",
+  getRecipient: (payload) => {
+    const email = payload.recipientEmail?.trim();
+    return email && email.includes("@") && payload.recipientUserId ? email : null;
+  },
+  send: ({ recipient, actorName, payload, appBaseUrl }) => {
+    const unsubscribeUrl = buildEmailUnsubscribeUrl(
+      appBaseUrl,
+      createEmailUnsubscribeToken(
+        { userId: payload.recipientUserId ?? "", channel: "email" },
+        unsubscribeSecret,
+      ),
+    );
+    const email = formatFriendNotificationEmail({
+      actorName,
+      payload,
+      appBaseUrl,
+      unsubscribeUrl,
+    });
+
+    return sendSmtpMail(smtp, {
+      to: recipient,
+      ...email,
+      headers: {
+        "List-Unsubscribe": `<${unsubscribeUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      },
+    });
+  },
+});
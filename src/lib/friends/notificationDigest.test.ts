@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatFriendNotificationDigestText,
+  groupFriendNotificationDigest,
+  normalizeFriendNotificationDeliveryMode,
+} from "@/lib/friends/notificationDigest";
+
+describe("friend notification digest", () => {
+  it("groups deliveries by friend and media kind", () => {
+    const groups = groupFriendNotificationDigest([
+      { actorUserId: "a", mediaKind: "game", eventType: "added", title: "Hades" },
+      { actorUserId: "b", mediaKind: "film", eventType: "viewed", title: "Дюна" },
+      { actorUserId: "a", mediaKind: "game", eventType: "added", title: "Celeste" },
+      { actorUserId: "a", mediaKind: "game", eventType: "viewed", title: "Hades" },
+      { actorUserId: "a", mediaKind: "film", eventType: "added", title: "Alien" },
+      { mediaKind: "film", eventType: "added", title: "orphan" },
+    ]);
+
+    expect(groups.map((group) => `${group.actorUserId}:${group.mediaKind}`)).toEqual([
+      "a:game",
+      "b:film",
+      "a:film",
+    ]);
+    expect(groups[0]).toMatchObject({
+      counts: { added: 2, viewed: 1 },
+      titles: ["Hades", "Celeste"],
+      total: 3,
+    });
+  });
+
+  it("formats one message for the whole window", () => {
+    const groups = groupFriendNotificationDigest(
+      Array.from({ length: 7 }, (_, index) => ({
+        actorUserId: "a",
+        mediaKind: "game" as const,
+        eventType: "added" as const,
+        title: `Game ${index + 1}`,
+      })),
+    );
+
+    const text = formatFriendNotificationDigestText({
+      mode: "daily",
+      groups,
+      actorNames: new Map([["a", "Оля"]]),
+      appBaseUrl: "https://www.catalogy.fans/",
+    });
+
+    expect(text).toContain("Щоденний дайджест: 7 оновлень від друзів");
+    expect(text).toContain("Оля · ігри (додано: 7)");
+    expect(text).toContain("  • Game 5");
+    expect(text).not.toContain("Game 6");
+    expect(text).toContain("…та ще 2");
+    expect(text).toContain("https://www.catalogy.fans/friends");
+  });
+
+  it("falls back to instant delivery for unknown modes", () => {
+    expect(normalizeFriendNotificationDeliveryMode("weekly")).toBe("weekly");
+    expect(normalizeFriendNotificationDeliveryMode("monthly")).toBe("instant");
+    expect(normalizeFriendNotificationDeliveryMode(null)).toBe("instant");
+  });
+});
@@ -0,0 +1,125 @@
+import type { FriendNotificationEventType } from "@/lib/friends/notifications";
+
+export const FRIEND_NOTIFICATION_DELIVERY_MODES = ["instant", "hourly", "daily", "weekly"] as const;
+
+export type FriendNotificationDeliveryMode = (typeof FRIEND_NOTIFICATION_DELIVERY_MODES)[number];
+
+export const FRIEND_NOTIFICATION_DELIVERY_MODE_LABELS: Record<
+  FriendNotificationDeliveryMode,
+  string
+> = {
+  instant: "Одразу",
+  hourly: "Раз на годину",
+  daily: "Щоденний дайджест",
+  weekly: "Щотижневий дайджест",
+};
+
+const DIGEST_TITLES_PER_GROUP = 5;
+
+export type FriendDigestEntry = {
+  actorUserId?: string;
+  mediaKind?: "film" | "game";
+  eventType?: FriendNotificationEventType;
+  title?: string;
+};
+
+export type FriendDigestGroup = {
+  actorUserId: string;
+  mediaKind: "film" | "game";
+  counts: Partial<Record<FriendNotificationEventType, number>>;
+  titles: string[];
+  total: number;
+};
+
+export const normalizeFriendNotificationDeliveryMode = (
+  value: unknown,
+): FriendNotificationDeliveryMode =>
+  typeof value === "string" &&
+  (FRIEND_NOTIFICATION_DELIVERY_MODES as readonly string[]).includes(value)
+    ? (value as FriendNotificationDeliveryMode)
+    : "instant";
+
+/**
+ * Groups pending deliveries by friend and media kind, keeping the order in
+ * which friends first appear and de-duplicating titles within a group.
+ */
+export const groupFriendNotificationDigest = (entries: FriendDigestEntry[]): FriendDigestGroup[] => {
+  const groups = new Map<string, FriendDigestGroup>();
+
+  entries.forEach((entry) => {
+    const actorUserId = entry.actorUserId?.trim();
+    if (!actorUserId || !entry.mediaKind) return;
+
+    const key = `${actorUserId}:${entry.mediaKind}`;
+    const group = groups.get(key) ?? {
+      actorUserId,
+      mediaKind: entry.mediaKind,
+      counts: {},
+      titles: [],
+      total: 0,
+    };
+    const eventType = entry.eventType ?? "added";
+    group.counts[eventType] = (group.counts[eventType] ?? 0) + 1;
+    group.total += 1;
+    const title = entry.title?.trim();
+    if (title && !group.titles.includes(title)) {
+      group.titles.push(title);
+    }
+    groups.set(key, group);
+  });
+
+  return [...groups.values()];
+};
+
+const EVENT_COUNT_LABELS: Record<FriendNotificationEventType, string> = {
+  added: "додано",
+  viewed: "завершено",
+  commented: "коментарів",
+  replied: "відповідей",
+  reacted: "реакцій",
+};
+
+const formatGroupLine = (group: FriendDigestGroup, actorName: string) => {
+  const mediaLabel = group.mediaKind === "game" ? "ігри" : "фільми";
+  const counts = (Object.keys(EVENT_COUNT_LABELS) as FriendNotificationEventType[])
+    .filter((eventType) => group.counts[eventType])
+    .map((eventType) => `${EVENT_COUNT_LABELS[eventType]}: ${group.counts[eventType]}`)
+    .join(", ");
+  const titles = group.titles.slice(0, DIGEST_TITLES_PER_GROUP);
+  const hiddenTitles = group.titles.length - titles.length;
+
+  return [
+    `${actorName} · ${mediaLabel} (${counts})`,
+    ...titles.map((title) => `  • ${title}`),
+    hiddenTitles > 0 ? `  …та ще ${hiddenTitles}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+export const formatFriendNotificationDigestText = ({
+  mode,
+  groups,
+  actorNames,
+  appBaseUrl,
+}: {
+  mode: FriendNotificationDeliveryMode;
+  groups: FriendDigestGroup[];
+  actorNames: Map<string, string>;
+  appBaseUrl?: string | null;
+}) => {
+  const total = groups.reduce((sum, group) => sum + group.total, 0);
+  const normalizedBaseUrl = appBaseUrl?.trim().replace(/\/+$/, "");
+
+  return [
+    `${FRIEND_NOTIFICATION_DELIVERY_MODE_LABELS[mode]}: ${total} оновлень від друзів`,
+    "",
+    ...groups.map((group) =>
+      formatGroupLine(group, actorNames.get(group.actorUserId) ?? "Друг"),
+    ),
+    normalizedBaseUrl ? "" : null,
+    normalizedBaseUrl ? `Усі оновлення: ${normalizedBaseUrl}/friends` : null,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+};
@@ -1,16 +1,89 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 
+export type FriendNotificationEventType =
+  | "added"
+  | "viewed"
+  | "commented"
+  | "replied"
+  | "reacted";
+
 export type FriendNotificationPayload = {
   itemId?: string;
   userViewId?: string;
+  entryOwnerUserId?: string;
   title?: string;
   posterUrl?: string | null;
   rating?: number | null;
+  comment?: string | null;
+  reaction?: string | null;
   mediaKind?: "film" | "game";
-  eventType?: "added" | "viewed";
+  eventType?: FriendNotificationEventType;
   occurredAt?: string;
 };
 
+/** Comment/reaction notices point at a collection entry rather than a friend activity event. */
+export const isEntryDiscussionEventType = (eventType?: FriendNotificationEventType | null) =>
+  eventType === "commented" || eventType === "replied" || eventType === "reacted";
+
+/** One-line description of a notification, shared by the delivery channels. */
+export const getFriendNotificationActionSentence = (
+  mediaKind?: "film" | "game",
+  eventType?: FriendNotificationEventType,
+) => {
+  if (eventType === "commented") {
+    return mediaKind === "game"
+      ? "Прокоментував(ла) твою гру."
+      : "Прокоментував(ла) твій фільм.";
+  }
+
+  if (eventType === "replied") {
+    return "Відповів(ла) на твій коментар.";
+  }
+
+  if (eventType === "reacted") {
+    return mediaKind === "game"
+      ? "Відреагував(ла) на твою гру."
+      : "Відреагував(ла) на твій фільм.";
+  }
+
+  if (eventType === "viewed") {
+    return mediaKind === "game"
+      ? "Завершив(ла) проходження гри."
+      : "Завершив(ла) перегляд фільму.";
+  }
+
+  return mediaKind === "game"
+    ? "Додав(ла) гру до колекції."
+    : "Додав(ла) фільм до колекції.";
+};
+
+/**
+ * Path of the entry a discussion notification refers to: the recipient's own
+ * library when they own the entry, otherwise the owner's friend library.
+ */
+export const buildEntryDiscussionPath = ({
+  recipientUserId,
+  entryOwnerUserId,
+  mediaKind,
+  userViewId,
+}: {
+  recipientUserId?: string | null;
+  entryOwnerUserId?: string | null;
+  mediaKind?: "film" | "game" | null;
+  userViewId?: string | null;
+}) => {
+  const normalizedOwnerId = entryOwnerUserId?.trim();
+  const normalizedUserViewId = userViewId?.trim();
+  if (!normalizedOwnerId || !normalizedUserViewId || !mediaKind) {
+    return null;
+  }
+
+  const librarySegment = mediaKind === "game" ? "games" : "films";
+  return normalizedOwnerId === recipientUserId?.trim()
+    ? `/${librarySegment}/view/${normalizedUserViewId}`
+    : `/friends/${normalizedOwnerId}/${librarySegment}/view/${normalizedUserViewId}`;
+};
+
 export const buildFriendActivityPath = ({
   actorUserId,
   mediaKind,
@@ -127,9 +200,9 @@ export type FriendNotificationRow = {
   id: string;
   recipient_user_id: string;
   actor_user_id: string;
-  event_id: string;
+  event_id: string | null;
   media_kind: "film" | "game";
-  event_type: "added" | "viewed";
+  event_type: FriendNotificationEventType;
   is_read: boolean;
   read_at: string | null;
   created_at: string;
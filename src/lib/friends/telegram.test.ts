@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTelegramNotificationKeyboard,
+  decodeTelegramNotificationAction,
+  encodeTelegramNotificationAction,
+} from "@/lib/friends/telegram";
+
+const ITEM_ID = "0b8f7c1e-5d2a-4c3b-9e6f-1a2b3c4d5e6f";
+const ACTOR_ID = "9f8e7d6c-5b4a-4321-8fed-cba987654321";
+
+describe("telegram notification actions", () => {
+  it("round-trips callback data", () => {
+    const plan = encodeTelegramNotificationAction({ action: "plan", itemId: ITEM_ID });
+    const mute = encodeTelegramNotificationAction({ action: "mute", actorUserId: ACTOR_ID });
+
+    expect(new TextEncoder().encode(plan).length).toBeLessThanOrEqual(64);
+    expect(decodeTelegramNotificationAction(plan)).toEqual({ action: "plan", itemId: ITEM_ID });
+    expect(decodeTelegramNotificationAction(mute)).toEqual({
+      action: "mute",
+      actorUserId: ACTOR_ID,
+    });
+    expect(decodeTelegramNotificationAction("p:not-a-uuid")).toBeNull();
+    expect(decodeTelegramNotificationAction("a:-:g:-:1942")).toBeNull();
+  });
+
+  it("offers plan, mute and open for friend activity", () => {
+    expect(
+      buildTelegramNotificationKeyboard({
+        payload: { itemId: ITEM_ID, actorUserId: ACTOR_ID, mediaKind: "film", eventType: "added" },
+        appBaseUrl: "https://www.catalogy.fans/",
+      }),
+    ).toEqual({
+      inline_keyboard: [
+        [
+          { text: "Додати в плани", callback_data: `p:${ITEM_ID}` },
+          { text: "Вимкнути сповіщення від друга", callback_data: `m:${ACTOR_ID}` },
+        ],
+        [
+          {
+            text: "Відкрити",
+            url: `https://www.catalogy.fans/friends?addItem=${ITEM_ID}&addMediaKind=film`,
+          },
+        ],
+      ],
+    });
+  });
+
+  it("keeps only the open link for discussions and skips non-https links", () => {
+    const discussion = {
+      itemId: ITEM_ID,
+      actorUserId: ACTOR_ID,
+      recipientUserId: "owner",
+      entryOwnerUserId: "owner",
+      userViewId: "view-1",
+      mediaKind: "game" as const,
+      eventType: "commented" as const,
+    };
+
+    expect(
+      buildTelegramNotificationKeyboard({
+        payload: discussion,
+        appBaseUrl: "https://www.catalogy.fans",
+      }),
+    ).toEqual({
+      inline_keyboard: [[{ text: "Відкрити", url: "https://www.catalogy.fans/games/view/view-1" }]],
+    });
+    expect(
+      buildTelegramNotificationKeyboard({
+        payload: discussion,
+        appBaseUrl: "http://localhost:3000",
+      }),
+    ).toBeUndefined();
+  });
+});
@@ -1,4 +1,14 @@
-import { buildFriendCollectionEntryUrl } from "@/lib/friends/notifications";
+import {
+  buildEntryDiscussionPath,
+  buildFriendCollectionEntryUrl,
+  getFriendNotificationActionSentence,
+  isEntryDiscussionEventType,
+  type FriendNotificationEventType,
+} from "@/lib/friends/notifications";
+import {
+  computeDeliveryRetryAt,
+  type FriendNotificationDeliveryChannel,
+} from "@/lib/friends/deliveryChannels";
 
 export type TelegramDeliveryPayload = {
   notificationId?: string;
@@ -6,16 +16,32 @@ export type TelegramDeliveryPayload = {
   actorUserId?: string;
   telegramChatId?: string;
   userViewId?: string;
+  entryOwnerUserId?: string;
   itemId?: string;
   title?: string;
   posterUrl?: string | null;
   rating?: number | null;
   comment?: string | null;
+  reaction?: string | null;
   isViewed?: boolean;
   viewPercent?: number | null;
   viewedAt?: string | null;
   mediaKind?: "film" | "game";
-  eventType?: "added" | "viewed";
+  eventType?: FriendNotificationEventType;
+};
+
+export type TelegramInlineKeyboardButton =
+  | {
+      text: string;
+      callback_data: string;
+    }
+  | {
+      text: string;
+      url: string;
+    };
+
+export type TelegramInlineKeyboard = {
+  inline_keyboard: TelegramInlineKeyboardButton[][];
 };
 
 const DEFAULT_PRODUCTION_APP_URL = "https://www.catalogy.fans";
@@ -60,19 +86,29 @@ type TelegramApiSuccess<T> = {
   result?: T;
 };
 
-const getActionSentence = (
-  mediaKind?: "film" | "game",
-  eventType?: "added" | "viewed",
+/** App link for a delivery: the discussed entry or the add-to-collection flow on /friends. */
+export const getTelegramNotificationUrl = (
+  payload: TelegramDeliveryPayload,
+  appBaseUrl?: string | null,
 ) => {
-  if (eventType === "viewed") {
-    return mediaKind === "game"
-      ? "Завершив(ла) проходження гри."
-      : "Завершив(ла) перегляд фільму.";
+  if (isEntryDiscussionEventType(payload.eventType)) {
+    const discussionPath = buildEntryDiscussionPath({
+      recipientUserId: payload.recipientUserId,
+      entryOwnerUserId: payload.entryOwnerUserId,
+      mediaKind: payload.mediaKind,
+      userViewId: payload.userViewId,
+    });
+    if (!discussionPath) {
+      return null;
+    }
+    return `${appBaseUrl?.trim().replace(/\/+$/, "") ?? ""}${discussionPath}`;
   }
 
-  return mediaKind === "game"
-    ? "Додав(ла) гру до колекції."
-    : "Додав(ла) фільм до колекції.";
+  return buildFriendCollectionEntryUrl({
+    mediaKind: payload.mediaKind,
+    itemId: payload.itemId,
+    baseUrl: appBaseUrl,
+  });
 };
 
 export const formatTelegramNotificationText = ({
@@ -84,8 +120,28 @@ export const formatTelegramNotificationText = ({
   payload: TelegramDeliveryPayload;
   appBaseUrl?: string | null;
 }) => {
-  const actionSentence = getActionSentence(payload.mediaKind, payload.eventType);
+  const actionSentence = getFriendNotificationActionSentence(payload.mediaKind, payload.eventType);
   const title = payload.title?.trim() || "Без назви";
+
+  const directUrl = getTelegramNotificationUrl(payload, appBaseUrl);
+
+  if (isEntryDiscussionEventType(payload.eventType)) {
+    const discussionComment = payload.comment?.trim() || null;
+
+    return [
+      `Оновлення від друга - ${actorName}`,
+      "",
+      actionSentence,
+      `Назва: ${title}`,
+      payload.reaction ? `Реакція: ${payload.reaction}` : null,
+      discussionComment ? "Коментар:" : null,
+      discussionComment,
+      directUrl ? `Відкрити: ${directUrl}` : null,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
   const rating =
     typeof payload.rating === "number" && Number.isFinite(payload.rating)
       ? payload.rating.toFixed(1)
@@ -105,11 +161,6 @@ export const formatTelegramNotificationText = ({
       ? `Дата перегляду: ${new Date(payload.viewedAt).toLocaleDateString("uk-UA")}`
       : null;
   const comment = payload.comment?.trim() || null;
-  const directUrl = buildFriendCollectionEntryUrl({
-    mediaKind: payload.mediaKind,
-    itemId: payload.itemId,
-    baseUrl: appBaseUrl,
-  });
 
   return [
     `Оновлення від друга - ${actorName}`,
@@ -128,23 +179,87 @@ export const formatTelegramNotificationText = ({
     .join("\n");
 };
 
-export const computeTelegramRetryAt = (attemptCount: number) => {
-  const delayMinutes = Math.min(5 * 2 ** Math.max(attemptCount - 1, 0), 60);
-  return new Date(Date.now() + delayMinutes * 60 * 1000).toISOString();
+export type TelegramNotificationAction =
+  | { action: "plan"; itemId: string }
+  | { action: "mute"; actorUserId: string };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** `p:<itemId>` / `m:<actorUserId>`; both fit Telegram's 64-byte callback limit. */
+export const encodeTelegramNotificationAction = (value: TelegramNotificationAction) =>
+  value.action === "plan" ? `p:${value.itemId}` : `m:${value.actorUserId}`;
+
+export const decodeTelegramNotificationAction = (
+  data?: string | null,
+): TelegramNotificationAction | null => {
+  const [code, id, ...rest] = data?.split(":") ?? [];
+  if (rest.length > 0 || !id || !UUID_PATTERN.test(id)) {
+    return null;
+  }
+  if (code === "p") return { action: "plan", itemId: id };
+  if (code === "m") return { action: "mute", actorUserId: id };
+  return null;
 };
 
+/**
+ * Inline actions under a delivery. Friend activity gets "plan" and "mute";
+ * every delivery gets "open" when the link is https (Telegram rejects others).
+ */
+export const buildTelegramNotificationKeyboard = ({
+  payload,
+  appBaseUrl,
+}: {
+  payload: TelegramDeliveryPayload;
+  appBaseUrl?: string | null;
+}): TelegramInlineKeyboard | undefined => {
+  const rows: TelegramInlineKeyboardButton[][] = [];
+  const itemId = payload.itemId?.trim();
+  const actorUserId = payload.actorUserId?.trim();
+
+  if (!isEntryDiscussionEventType(payload.eventType)) {
+    const actionRow: TelegramInlineKeyboardButton[] = [];
+    if (itemId && UUID_PATTERN.test(itemId)) {
+      actionRow.push({
+        text: "Додати в плани",
+        callback_data: encodeTelegramNotificationAction({ action: "plan", itemId }),
+      });
+    }
+    if (actorUserId && UUID_PATTERN.test(actorUserId)) {
+      actionRow.push({
+        text: "Вимкнути сповіщення від друга",
+        callback_data: encodeTelegramNotificationAction({ action: "mute", actorUserId }),
+      });
+    }
+    if (actionRow.length > 0) {
+      rows.push(actionRow);
+    }
+  }
+
+  const directUrl = getTelegramNotificationUrl(payload, appBaseUrl);
+  if (directUrl?.startsWith("https://")) {
+    rows.push([{ text: "Відкрити", url: directUrl }]);
+  }
+
+  return rows.length > 0 ? { inline_keyboard: rows } : undefined;
+};
+
+export const computeTelegramRetryAt = computeDeliveryRetryAt;
+
 export const sendTelegramMessage = async ({
   botToken,
   chatId,
   text,
+  replyMarkup,
 }: {
   botToken: string;
   chatId: string;
   text: string;
+  replyMarkup?: TelegramInlineKeyboard;
 }) => {
   const data = await callTelegramApi<{ message_id?: number | string }>(botToken, "sendMessage", {
     chat_id: chatId,
     text,
+    reply_markup: replyMarkup,
   });
 
   return {
@@ -157,16 +272,19 @@ export const sendTelegramPhoto = async ({
   chatId,
   photoUrl,
   caption,
+  replyMarkup,
 }: {
   botToken: string;
   chatId: string;
   photoUrl: string;
   caption: string;
+  replyMarkup?: TelegramInlineKeyboard;
 }) => {
   const data = await callTelegramApi<{ message_id?: number | string }>(botToken, "sendPhoto", {
     chat_id: chatId,
     photo: photoUrl,
     caption,
+    reply_markup: replyMarkup,
   });
 
   return {
@@ -179,11 +297,13 @@ export const sendTelegramNotification = async ({
   chatId,
   text,
   photoUrl,
+  replyMarkup,
 }: {
   botToken: string;
   chatId: string;
   text: string;
   photoUrl?: string | null;
+  replyMarkup?: TelegramInlineKeyboard;
 }) => {
   const normalizedPhotoUrl = photoUrl?.trim();
 
@@ -194,6 +314,7 @@ export const sendTelegramNotification = async ({
         chatId,
         photoUrl: normalizedPhotoUrl,
         caption: text,
+        replyMarkup,
       });
     } catch {
       // Fall back to text-only delivery if Telegram cannot fetch the poster URL.
@@ -204,9 +325,57 @@ export const sendTelegramNotification = async ({
     botToken,
     chatId,
     text,
+    replyMarkup,
   });
 };
 
+export const createTelegramDeliveryChannel = (
+  botToken: string,
+): FriendNotificationDeliveryChannel => ({
+  channel: "telegram",
+  getRecipient: (payload) => payload.telegramChatId?.trim() || null,
+  send: ({ recipient, actorName, payload, appBaseUrl }) =>
+    sendTelegramNotification({
+      botToken,
+      chatId: recipient,
+      text: formatTelegramNotificationText({ actorName, payload, appBaseUrl }),
+      photoUrl: payload.posterUrl,
+      replyMarkup: buildTelegramNotificationKeyboard({ payload, appBaseUrl }),
+    }),
+});
+
+/** Replaces the text of a bot message and drops its inline keyboard. */
+export const editTelegramMessageText = async ({
+  botToken,
+  chatId,
+  messageId,
+  text,
+}: {
+  botToken: string;
+  chatId: string;
+  messageId: number | string;
+  text: string;
+}) =>
+  callTelegramApi<unknown>(botToken, "editMessageText", {
+    chat_id: chatId,
+    message_id: messageId,
+    text,
+  });
+
+export const answerTelegramCallbackQuery = async ({
+  botToken,
+  callbackQueryId,
+  text,
+}: {
+  botToken: string;
+  callbackQueryId: string;
+  text?: string;
+}) =>
+  callTelegramApi<boolean>(botToken, "answerCallbackQuery", {
+    callback_query_id: callbackQueryId,
+    text,
+  });
+
 export type TelegramWebhookInfo = {
   url?: string;
   has_custom_certificate?: boolean;
@@ -258,5 +427,5 @@ export const setTelegramWebhook = async ({
     url: webhookUrl,
     secret_token: secretToken ?? undefined,
     drop_pending_updates: dropPendingUpdates,
-    allowed_updates: ["message"],
+    allowed_updates: ["message", "callback_query"],
   });
@@ -3,8 +3,18 @@ import {
   updateCollectionItemRecordWithRetry,
   updateCollectionViewRecord,
 } from "@/lib/collection/viewUpdateMutation";
-import type { GameNormalizedGenre } from "@/lib/games/normalizedMetadata";
-import { trySyncGameNormalizedGenres } from "@/lib/games/normalizedMetadata";
+import {
+  toGameProgressViewColumns,
+  type GameProgressInput,
+} from "@/lib/games/gameProgress";
+import type {
+  GameNormalizedCompany,
+  GameNormalizedGenre,
+} from "@/lib/games/normalizedMetadata";
+import {
+  trySyncGameNormalizedCompanies,
+  trySyncGameNormalizedGenres,
+} from "@/lib/games/normalizedMetadata";
 import { normalizeGamePlatforms } from "@/lib/games/platforms";
 import type { ShishkaFitAssessment } from "@/lib/shishka/fitAssessment";
 
@@ -30,6 +40,7 @@ export type GameCollectionFormPayload = {
   platforms: string[];
   availability: string | null;
   shishkaFitAssessment: ShishkaFitAssessment | null;
+  gameProgress?: GameProgressInput | null;
 };
 
 export type GameCollectionSource = {
@@ -38,6 +49,7 @@ export type GameCollectionSource = {
   rating: number | null;
   genres: string;
   genreItems?: GameNormalizedGenre[] | null;
+  companyItems?: GameNormalizedCompany[] | null;
   released: string;
   poster: string;
   trailers?: GameCollectionTrailer[] | null;
@@ -51,10 +63,14 @@ export type GameItemDraftInput = {
   description: string | null;
   genres: string | null;
   normalizedGenres?: GameNormalizedGenre[] | null;
+  normalizedCompanies?: GameNormalizedCompany[] | null;
   external_id: string | null;
   trailers: GameCollectionTrailer[] | null;
 };
 
+const buildGameProgressColumns = (payload: GameCollectionFormPayload) =>
+  payload.gameProgress ? toGameProgressViewColumns(payload.gameProgress) : {};
+
 export const normalizeGameTrailers = (trailers?: GameCollectionTrailer[] | null) =>
   trailers && trailers.length > 0 ? trailers : null;
 
@@ -167,6 +183,7 @@ export const addGameToCollection = async ({
   }
 
   await trySyncGameNormalizedGenres(supabase, itemId, game.genreItems ?? null);
+  await trySyncGameNormalizedCompanies(supabase, itemId, game.companyItems ?? null);
 
   const normalizedPlatforms = normalizeGamePlatforms(payload.platforms);
   const { error: viewError } = await supabase.from("user_views").insert({
@@ -185,6 +202,7 @@ export const addGameToCollection = async ({
     shishka_fit_profile_analyzed_at:
       payload.shishkaFitAssessment?.profileAnalyzedAt ?? null,
     shishka_fit_scope_value: payload.shishkaFitAssessment?.scopeValue ?? null,
+    ...buildGameProgressColumns(payload),
   });
 
   if (viewError) {
@@ -205,6 +223,7 @@ export const addGameToCollection = async ({
           shishka_fit_profile_analyzed_at:
             payload.shishkaFitAssessment?.profileAnalyzedAt ?? null,
           shishka_fit_scope_value: payload.shishkaFitAssessment?.scopeValue ?? null,
+          ...buildGameProgressColumns(payload),
         })
         .eq("user_id", user.id)
         .eq("item_id", itemId);
@@ -246,6 +265,7 @@ export const updateGameView = async ({
     payload,
     extra: {
       platforms: normalizedPlatforms,
+      ...buildGameProgressColumns(payload),
     },
     errorMessage: "Не вдалося оновити запис.",
   });
@@ -279,6 +299,7 @@ export const updateGameView = async ({
   });
 
   await trySyncGameNormalizedGenres(supabase, itemId, itemDraft.normalizedGenres ?? null);
+  await trySyncGameNormalizedCompanies(supabase, itemId, itemDraft.normalizedCompanies ?? null);
 
   return { normalizedPlatforms };
 };
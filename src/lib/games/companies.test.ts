@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { aggregateStudioStats, toStudioCompanyRows } from "@/lib/games/companies";
+import { mapIgdbInvolvedCompanies } from "@/lib/igdb/server";
+
+describe("game companies", () => {
+  it("maps IGDB involved companies to one entry per role", () => {
+    expect(
+      mapIgdbInvolvedCompanies([
+        {
+          developer: true,
+          publisher: true,
+          company: {
+            id: 11,
+            name: " CD Projekt RED ",
+            logo: { url: "//images.igdb.com/igdb/image/upload/t_thumb/a.jpg" },
+          },
+        },
+        { developer: false, publisher: false, company: { id: 12, name: "Porting House" } },
+        { publisher: true, company: { name: "No id" } },
+      ]),
+    ).toEqual([
+      {
+        source: "igdb",
+        sourceCompanyId: "11",
+        name: "CD Projekt RED",
+        logoUrl: "https://images.igdb.com/igdb/image/upload/t_logo_med/a.jpg",
+        roleKind: "developer",
+      },
+      {
+        source: "igdb",
+        sourceCompanyId: "11",
+        name: "CD Projekt RED",
+        logoUrl: "https://images.igdb.com/igdb/image/upload/t_logo_med/a.jpg",
+        roleKind: "publisher",
+      },
+    ]);
+  });
+
+  it("aggregates own ratings per studio, counting each game once", () => {
+    const rows = toStudioCompanyRows([
+      { item_id: "a", role_kind: "developer", companies: { source_company_id: "1", name: "FromSoftware" } },
+      { item_id: "a", role_kind: "publisher", companies: [{ source_company_id: "1", name: "FromSoftware" }] },
+      { item_id: "b", role_kind: "developer", companies: { source_company_id: "1", name: "FromSoftware" } },
+      { item_id: "b", role_kind: "publisher", companies: { source_company_id: "2", name: "Bandai Namco" } },
+      { item_id: "c", role_kind: "developer", companies: { source_company_id: "3", name: "Not owned" } },
+      { item_id: "a", role_kind: "porting", companies: { source_company_id: "4", name: "Ignored" } },
+    ]);
+    const itemStats = new Map([
+      ["a", { isViewed: true, rating: 9 }],
+      ["b", { isViewed: false, rating: 7 }],
+    ]);
+
+    expect(aggregateStudioStats(rows, itemStats)).toEqual([
+      {
+        sourceCompanyId: "1",
+        name: "FromSoftware",
+        logoUrl: null,
+        roles: ["developer", "publisher"],
+        totalTitles: 2,
+        playedTitles: 1,
+        averageRating: 8,
+      },
+      {
+        sourceCompanyId: "2",
+        name: "Bandai Namco",
+        logoUrl: null,
+        roles: ["publisher"],
+        totalTitles: 1,
+        playedTitles: 0,
+        averageRating: 7,
+      },
+    ]);
+  });
+});
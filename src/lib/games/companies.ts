@@ -0,0 +1,189 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  syncGameNormalizedCompanies,
+  type GameNormalizedCompany,
+} from "@/lib/games/normalizedMetadata";
+
+export type GameCompanyRole = GameNormalizedCompany["roleKind"];
+
+export const GAME_COMPANY_ROLE_LABELS: Record<GameCompanyRole, string> = {
+  developer: "Розробник",
+  publisher: "Видавець",
+};
+
+export type StudioItemStat = {
+  isViewed: boolean;
+  rating: number | null;
+};
+
+export type StudioCollectionStat = {
+  sourceCompanyId: string;
+  name: string;
+  logoUrl: string | null;
+  roles: GameCompanyRole[];
+  totalTitles: number;
+  playedTitles: number;
+  averageRating: number | null;
+};
+
+export type StudioCompanyRow = {
+  itemId: string;
+  sourceCompanyId: string;
+  name: string;
+  logoUrl: string | null;
+  roleKind: GameCompanyRole;
+};
+
+type ItemCompanyRecord = {
+  item_id?: string | null;
+  role_kind?: string | null;
+  companies:
+    | { source_company_id?: string | null; name?: string | null; logo_url?: string | null }
+    | Array<{ source_company_id?: string | null; name?: string | null; logo_url?: string | null }>
+    | null;
+};
+
+/** Columns to select from `item_companies` for {@link toStudioCompanyRows}. */
+export const ITEM_COMPANY_SELECT =
+  "item_id, role_kind, companies!inner(source_company_id, name, logo_url)";
+
+export const toStudioCompanyRows = (data: unknown[] | null): StudioCompanyRow[] =>
+  ((data ?? []) as ItemCompanyRecord[]).flatMap((row) => {
+    const company = Array.isArray(row.companies) ? row.companies[0] : row.companies;
+    if (
+      !row.item_id ||
+      (row.role_kind !== "developer" && row.role_kind !== "publisher") ||
+      !company?.source_company_id ||
+      !company.name
+    ) {
+      return [];
+    }
+    return [
+      {
+        itemId: row.item_id,
+        sourceCompanyId: company.source_company_id,
+        name: company.name,
+        logoUrl: company.logo_url ?? null,
+        roleKind: row.role_kind,
+      },
+    ];
+  });
+
+export const buildStudioHref = (sourceCompanyId: string) => `/studios/${sourceCompanyId}`;
+
+export const averageRating = (ratings: number[]) =>
+  ratings.length > 0 ? ratings.reduce((sum, value) => sum + value, 0) / ratings.length : null;
+
+/**
+ * Folds item/company links into per-studio totals over the caller's own views.
+ * A game counts once per studio even when the studio both developed and published it.
+ */
+export const aggregateStudioStats = (
+  rows: StudioCompanyRow[],
+  itemStats: Map<string, StudioItemStat>,
+): StudioCollectionStat[] => {
+  const aggregate = new Map<
+    string,
+    {
+      sourceCompanyId: string;
+      name: string;
+      logoUrl: string | null;
+      roles: Set<GameCompanyRole>;
+      itemIds: Set<string>;
+      playedTitles: number;
+      ratings: number[];
+    }
+  >();
+
+  rows.forEach((row) => {
+    const item = itemStats.get(row.itemId);
+    if (!item) {
+      return;
+    }
+
+    const current = aggregate.get(row.sourceCompanyId) ?? {
+      sourceCompanyId: row.sourceCompanyId,
+      name: row.name,
+      logoUrl: row.logoUrl,
+      roles: new Set<GameCompanyRole>(),
+      itemIds: new Set<string>(),
+      playedTitles: 0,
+      ratings: [],
+    };
+
+    current.roles.add(row.roleKind);
+    if (!current.itemIds.has(row.itemId)) {
+      current.itemIds.add(row.itemId);
+      if (item.isViewed) {
+        current.playedTitles += 1;
+      }
+      if (item.rating !== null) {
+        current.ratings.push(item.rating);
+      }
+    }
+
+    aggregate.set(row.sourceCompanyId, current);
+  });
+
+  return [...aggregate.values()]
+    .map((entry) => ({
+      sourceCompanyId: entry.sourceCompanyId,
+      name: entry.name,
+      logoUrl: entry.logoUrl,
+      roles: (["developer", "publisher"] as const).filter((role) => entry.roles.has(role)),
+      totalTitles: entry.itemIds.size,
+      playedTitles: entry.playedTitles,
+      averageRating: averageRating(entry.ratings),
+    }))
+    .sort((left, right) => {
+      if (right.totalTitles !== left.totalTitles) return right.totalTitles - left.totalTitles;
+      return left.name.localeCompare(right.name, "uk");
+    });
+};
+
+export const fetchGameCompanies = async (
+  gameId: string,
+): Promise<GameNormalizedCompany[] | null> => {
+  const response = await fetch(`/api/rawg/${gameId}`);
+  if (!response.ok) return null;
+  const detail = (await response.json()) as { companyItems?: GameNormalizedCompany[] | null };
+  return detail.companyItems ?? null;
+};
+
+/**
+ * Pulls developers and publishers for an IGDB game and links them to the item.
+ * Details without company data (the RAWG fallback) leave existing links alone.
+ */
+export const refreshGameCompanies = async ({
+  supabase,
+  itemId,
+  externalId,
+}: {
+  supabase: SupabaseClient;
+  itemId: string;
+  externalId: string;
+}) => {
+  try {
+    const companies = await fetchGameCompanies(externalId);
+    await syncGameNormalizedCompanies(supabase, itemId, companies);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const loadStoredGameCompaniesForItem = async (
+  supabase: SupabaseClient,
+  itemId: string,
+): Promise<StudioCompanyRow[]> => {
+  const { data, error } = await supabase
+    .from("item_companies")
+    .select(ITEM_COMPANY_SELECT)
+    .eq("item_id", itemId);
+
+  if (error) {
+    return [];
+  }
+
+  return toStudioCompanyRows(data);
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  GAME_CSV_DROPPED_VIEW_PERCENT,
+  buildGameCsvImportPayload,
+  convertPercentRatingToHalfStep,
+  parseGameCsvImport,
+  resolveGameCsvImportMatch,
+} from "@/lib/games/csvImport";
+
+const CSV_HEADER = "name,platform,added_on,user_rating,labels,notes,image_url_medium";
+
+const buildCandidate = (id: string, title: string, poster = "") => ({
+  id,
+  title,
+  rating: null,
+  genres: "",
+  released: "",
+  poster,
+});
+
+describe("game csv import", () => {
+  it("rescales 0-100 ratings to the half-step personal scale", () => {
+    expect(convertPercentRatingToHalfStep(0)).toBeNull();
+    expect(convertPercentRatingToHalfStep(5)).toBe(1);
+    expect(convertPercentRatingToHalfStep(50)).toBe(2.5);
+    expect(convertPercentRatingToHalfStep(65)).toBe(3.5);
+    expect(convertPercentRatingToHalfStep(100)).toBe(5);
+  });
+
+  it("maps platforms, labels and quoted notes", () => {
+    const { rows, errors } = parseGameCsvImport(
+      [
+        CSV_HEADER,
+        'A Plague Tale: Requiem,PlayStation 5,2024-01-04,100,Finished,,https://images.igdb.com/igdb/image/upload/t_720p_2x/co5pwb.png',
+        '13 Sentinels: Aegis Rim,PlayStation 4,2023-09-19,15,Droped,"халява, текстова",',
+        'Warhammer 40,PC (Microsoft Windows),2023-05-26,0,"Halyava, New",,',
+        ",PlayStation 4,2023-05-26,0,New,,",
+      ].join("\n"),
+    );
+
+    expect(errors).toEqual([{ rowNumber: 5, message: "Порожня назва гри." }]);
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({
+      title: "A Plague Tale: Requiem",
+      platforms: ["PlayStation"],
+      isViewed: true,
+      viewPercent: 100,
+      rating: 5,
+      addedOn: "2024-01-04T12:00:00.000Z",
+    });
+    expect(rows[1]).toMatchObject({
+      isViewed: true,
+      viewPercent: GAME_CSV_DROPPED_VIEW_PERCENT,
+      notes: "халява, текстова",
+    });
+    expect(rows[2]).toMatchObject({ platforms: ["PC"], isViewed: false, viewPercent: 0 });
+    expect(buildGameCsvImportPayload(rows[2]).comment).toBe("Мітки: Halyava, New");
+  });
+
+  it("rejects files without required columns", () => {
+    expect(() => parseGameCsvImport("title,year\nHeat,1995")).toThrow("name, platform");
+  });
+
+  it("prefers cover id matches and flags ambiguous titles", () => {
+    const row = {
+      title: "Doom",
+      coverUrl: "https://images.igdb.com/igdb/image/upload/t_720p_2x/co1abc.png",
+    };
+
+    expect(
+      resolveGameCsvImportMatch(row, [
+        buildCandidate("1", "Doom", "https://images.igdb.com/igdb/image/upload/t_1080p/co9zzz.jpg"),
+        buildCandidate("2", "Doom", "https://images.igdb.com/igdb/image/upload/t_1080p/co1abc.jpg"),
+      ]),
+    ).toEqual({ status: "matched", candidateId: "2" });
+
+    expect(
+      resolveGameCsvImportMatch({ title: "Doom", coverUrl: null }, [
+        buildCandidate("1", "Doom"),
+        buildCandidate("2", "DOOM"),
+      ]),
+    ).toEqual({ status: "ambiguous", candidateId: null });
+
+    expect(resolveGameCsvImportMatch({ title: "Doom", coverUrl: null }, [])).toEqual({
+      status: "unmatched",
+      candidateId: null,
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { rescaleToPersonalRating } from "@/lib/collection/ratingScale";
+import { parseCsvRecords } from "@/lib/csv/parseCsv";
+import type {
+  GameCollectionFormPayload,
+  GameCollectionSource,
+} from "@/lib/games/collectionFlow";
+import { normalizeGamePlatforms } from "@/lib/games/platforms";
+
+export const GAME_CSV_IMPORT_REQUIRED_COLUMNS = ["name", "platform"] as const;
+
+export const GAME_CSV_DROPPED_VIEW_PERCENT = 50;
+
+const FINISHED_LABELS = new Set(["finished", "completed", "beaten"]);
+const DROPPED_LABELS = new Set(["droped", "dropped", "abandoned"]);
+const TEMPORARY_ACCESS_LABELS = new Set(["ps+", "game pass", "gamepass"]);
+
+export type GameCsvImportRow = {
+  rowNumber: number;
+  title: string;
+  platforms: string[];
+  addedOn: string | null;
+  sourceRating: number | null;
+  rating: number | null;
+  isViewed: boolean;
+  viewPercent: number;
+  availability: string | null;
+  labels: string[];
+  notes: string;
+  coverUrl: string | null;
+};
+
+export type GameCsvImportParseError = {
+  rowNumber: number;
+  message: string;
+};
+
+export type GameCsvImportCandidate = GameCollectionSource;
+
+export type GameCsvImportMatchStatus = "matched" | "ambiguous" | "unmatched";
+
+export type GameCsvImportMatch = {
+  status: GameCsvImportMatchStatus;
+  candidateId: string | null;
+};
+
+export const normalizeGameCsvTitle = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/[™®©]/g, "")
+    .replace(/[^a-zа-яіїєґ0-9]+/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const convertPercentRatingToHalfStep = (value?: number | null) =>
+  rescaleToPersonalRating(value, 100);
+
+const parseLabels = (value?: string) =>
+  (value ?? "")
+    .split(",")
+    .map((label) => label.trim())
+    .filter(Boolean);
+
+const parseAddedOn = (value?: string) => {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  const parsed = new Date(/^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T12:00:00.000Z` : trimmed);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+};
+
+const parseSourceRating = (value?: string) => {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  const parsed = Number.parseFloat(trimmed.replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const resolveViewState = (labels: string[]) => {
+  const normalized = labels.map((label) => label.toLowerCase());
+  if (normalized.some((label) => FINISHED_LABELS.has(label))) {
+    return { isViewed: true, viewPercent: 100 };
+  }
+  if (normalized.some((label) => DROPPED_LABELS.has(label))) {
+    return { isViewed: true, viewPercent: GAME_CSV_DROPPED_VIEW_PERCENT };
+  }
+  return { isViewed: false, viewPercent: 0 };
+};
+
+const resolveAvailability = (labels: string[]) =>
+  labels.some((label) => TEMPORARY_ACCESS_LABELS.has(label.toLowerCase()))
+    ? "Тимчасовий доступ"
+    : "В колекції";
+
+export const parseGameCsvImport = (content: string) => {
+  const { headers, records } = parseCsvRecords(content);
+  const normalizedHeaders = headers.map((header) => header.toLowerCase());
+  const missingColumns = GAME_CSV_IMPORT_REQUIRED_COLUMNS.filter(
+    (column) => !normalizedHeaders.includes(column),
+  );
+  if (missingColumns.length > 0) {
+    throw new Error(`У CSV бракує колонок: ${missingColumns.join(", ")}.`);
+  }
+
+  const rows: GameCsvImportRow[] = [];
+  const errors: GameCsvImportParseError[] = [];
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 2;
+    const get = (column: string) =>
+      record[headers[normalizedHeaders.indexOf(column)] ?? column] ?? "";
+    const title = get("name").trim();
+    if (!title) {
+      errors.push({ rowNumber, message: "Порожня назва гри." });
+      return;
+    }
+
+    const labels = parseLabels(get("labels"));
+    const sourceRating = parseSourceRating(get("user_rating"));
+    const platforms = normalizeGamePlatforms([get("platform")]);
+    const coverUrl = get("image_url_medium").trim() || null;
+
+    rows.push({
+      rowNumber,
+      title,
+      platforms,
+      addedOn: parseAddedOn(get("added_on")),
+      sourceRating,
+      rating: convertPercentRatingToHalfStep(sourceRating),
+      ...resolveViewState(labels),
+      availability: resolveAvailability(labels),
+      labels,
+      notes: get("notes").trim(),
+      coverUrl,
+    });
+  });
+
+  return { rows, errors };
+};
+
+const extractIgdbImageId = (url?: string | null) =>
+  url?.match(/\/t_[a-z0-9_]+\/([a-z0-9]+)\.(?:png|jpe?g|webp)/i)?.[1] ?? null;
+
+export const resolveGameCsvImportMatch = (
+  row: Pick<GameCsvImportRow, "title" | "coverUrl">,
+  candidates: GameCsvImportCandidate[],
+): GameCsvImportMatch => {
+  if (candidates.length === 0) {
+    return { status: "unmatched", candidateId: null };
+  }
+
+  const coverId = extractIgdbImageId(row.coverUrl);
+  if (coverId) {
+    const byCover = candidates.find((candidate) => extractIgdbImageId(candidate.poster) === coverId);
+    if (byCover) {
+      return { status: "matched", candidateId: byCover.id };
+    }
+  }
+
+  const normalizedTitle = normalizeGameCsvTitle(row.title);
+  const exactMatches = candidates.filter(
+    (candidate) => normalizeGameCsvTitle(candidate.title) === normalizedTitle,
+  );
+  if (exactMatches.length === 1) {
+    return { status: "matched", candidateId: exactMatches[0].id };
+  }
+
+  // Several plausible games: the user picks one in the review step.
+  return { status: "ambiguous", candidateId: null };
+};
+
+const buildImportComment = (row: GameCsvImportRow) => {
+  const extraLabels = row.labels.filter((label) => {
+    const normalized = label.toLowerCase();
+    return !FINISHED_LABELS.has(normalized) && !DROPPED_LABELS.has(normalized);
+  });
+  return [row.notes, extraLabels.length > 0 ? `Мітки: ${extraLabels.join(", ")}` : ""]
+    .filter(Boolean)
+    .join("\n");
+};
+
+export const buildGameCsvImportPayload = (row: GameCsvImportRow): GameCollectionFormPayload => ({
+  viewedAt: row.addedOn ?? new Date().toISOString(),
+  comment: buildImportComment(row),
+  recommendSimilar: false,
+  isViewed: row.isViewed,
+  rating: row.isViewed ? row.rating : null,
+  viewPercent: row.viewPercent,
+  platforms: row.platforms,
+  availability: row.availability,
+  shishkaFitAssessment: null,
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatGameHoursPlayed,
+  getGameProgressValidationError,
+  normalizeGameHoursPlayed,
+  normalizeGameProgress,
+  toGameProgressViewColumns,
+} from "@/lib/games/gameProgress";
+
+describe("game progress", () => {
+  it("parses hours from numbers and localized input", () => {
+    expect(normalizeGameHoursPlayed("12,46")).toBe(12.5);
+    expect(normalizeGameHoursPlayed(40)).toBe(40);
+    expect(normalizeGameHoursPlayed("")).toBeNull();
+    expect(normalizeGameHoursPlayed("-3")).toBeNull();
+    expect(normalizeGameHoursPlayed("abc")).toBeNull();
+  });
+
+  it("normalizes stored view columns", () => {
+    expect(
+      normalizeGameProgress({
+        hours_played: "7.5",
+        completion_status: "completed_100",
+        started_at: "2026-01-03T00:00:00+00:00",
+        finished_at: "bad",
+      }),
+    ).toEqual({
+      hoursPlayed: 7.5,
+      completionStatus: "completed_100",
+      startedAt: "2026-01-03",
+      finishedAt: null,
+    });
+    expect(normalizeGameProgress({ completion_status: "unknown" }).completionStatus).toBeNull();
+  });
+
+  it("rejects a finish date before the start date", () => {
+    const progress = {
+      hoursPlayed: 3,
+      completionStatus: "beaten" as const,
+      startedAt: "2026-02-10",
+      finishedAt: "2026-02-01",
+    };
+
+    expect(getGameProgressValidationError(progress)).toMatch(/раніше/);
+    expect(
+      getGameProgressValidationError({ ...progress, finishedAt: "2026-02-10" }),
+    ).toBeNull();
+  });
+
+  it("maps the form input to user_views columns", () => {
+    expect(
+      toGameProgressViewColumns({
+        hoursPlayed: 120.04,
+        completionStatus: "endless",
+        startedAt: "2025-12-01",
+        finishedAt: null,
+      }),
+    ).toEqual({
+      hours_played: 120,
+      completion_status: "endless",
+      started_at: "2025-12-01",
+      finished_at: null,
+    });
+    expect(formatGameHoursPlayed(12.5)).toBe("12.5 год");
+    expect(formatGameHoursPlayed(3)).toBe("3 год");
+  });
+});
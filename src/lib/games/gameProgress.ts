@@ -0,0 +1,100 @@
+export const GAME_COMPLETION_STATUSES = [
+  "playing",
+  "beaten",
+  "completed_100",
+  "abandoned",
+  "on_hold",
+  "endless",
+] as const;
+
+export type GameCompletionStatus = (typeof GAME_COMPLETION_STATUSES)[number];
+
+export const GAME_COMPLETION_STATUS_LABELS: Record<GameCompletionStatus, string> = {
+  playing: "Граю",
+  beaten: "Пройдено",
+  completed_100: "100%",
+  abandoned: "Покинуто",
+  on_hold: "На паузі",
+  endless: "Нескінченна",
+};
+
+export const GAME_HOURS_PLAYED_MAX = 99999;
+
+export type GameProgressInput = {
+  hoursPlayed: number | null;
+  completionStatus: GameCompletionStatus | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type GameProgressViewColumns = {
+  hours_played: number | null;
+  completion_status: GameCompletionStatus | null;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+export const EMPTY_GAME_PROGRESS: GameProgressInput = {
+  hoursPlayed: null,
+  completionStatus: null,
+  startedAt: null,
+  finishedAt: null,
+};
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const normalizeGameCompletionStatus = (value: unknown): GameCompletionStatus | null =>
+  typeof value === "string" &&
+  (GAME_COMPLETION_STATUSES as readonly string[]).includes(value)
+    ? (value as GameCompletionStatus)
+    : null;
+
+/** Accepts numbers or user input such as "12,5"; rounds to one decimal. */
+export const normalizeGameHoursPlayed = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null;
+  const parsed =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim()
+        ? Number(value.trim().replace(",", "."))
+        : Number.NaN;
+  if (!Number.isFinite(parsed) || parsed < 0) return null;
+  return Math.min(GAME_HOURS_PLAYED_MAX, Math.round(parsed * 10) / 10);
+};
+
+const normalizeGameProgressDate = (value: unknown) => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().slice(0, 10);
+  return DATE_ONLY_PATTERN.test(trimmed) ? trimmed : null;
+};
+
+export const normalizeGameProgress = (value: {
+  hours_played?: unknown;
+  completion_status?: unknown;
+  started_at?: unknown;
+  finished_at?: unknown;
+}): GameProgressInput => ({
+  hoursPlayed: normalizeGameHoursPlayed(value.hours_played),
+  completionStatus: normalizeGameCompletionStatus(value.completion_status),
+  startedAt: normalizeGameProgressDate(value.started_at),
+  finishedAt: normalizeGameProgressDate(value.finished_at),
+});
+
+export const getGameProgressValidationError = (progress: GameProgressInput) => {
+  if (progress.startedAt && progress.finishedAt && progress.finishedAt < progress.startedAt) {
+    return "Дата завершення не може бути раніше дати початку.";
+  }
+  return null;
+};
+
+export const toGameProgressViewColumns = (
+  progress: GameProgressInput,
+): GameProgressViewColumns => ({
+  hours_played: normalizeGameHoursPlayed(progress.hoursPlayed),
+  completion_status: normalizeGameCompletionStatus(progress.completionStatus),
+  started_at: normalizeGameProgressDate(progress.startedAt),
+  finished_at: normalizeGameProgressDate(progress.finishedAt),
+});
+
+export const formatGameHoursPlayed = (hours: number) =>
+  `${Number.isInteger(hours) ? hours : hours.toFixed(1)} год`;
@@ -105,3 +105,104 @@ export const trySyncGameNormalizedGenres = async (
     return false;
   }
 };
+
+export type GameNormalizedCompany = {
+  source: "igdb";
+  sourceCompanyId: string;
+  name: string;
+  logoUrl?: string | null;
+  roleKind: "developer" | "publisher";
+};
+
+export const syncGameNormalizedCompanies = async (
+  supabase: SupabaseClient,
+  itemId: string,
+  companies?: GameNormalizedCompany[] | null,
+) => {
+  if (!companies) {
+    return;
+  }
+
+  const safeCompanies = companies.filter(
+    (company) => company.sourceCompanyId.trim() && company.name.trim(),
+  );
+
+  const { error: deleteCompaniesError } = await supabase
+    .from("item_companies")
+    .delete()
+    .eq("item_id", itemId);
+
+  if (deleteCompaniesError) {
+    throw new Error("Не вдалося синхронізувати студії для гри.");
+  }
+
+  if (safeCompanies.length === 0) {
+    return;
+  }
+
+  const companyEntities = new Map<string, GameNormalizedCompany>();
+  safeCompanies.forEach((company) => {
+    companyEntities.set(`${company.source}:${company.sourceCompanyId}`, company);
+  });
+
+  const { data: upsertedCompanies, error: upsertCompaniesError } = await supabase
+    .from("companies")
+    .upsert(
+      [...companyEntities.values()].map((company) => ({
+        source: company.source,
+        source_company_id: company.sourceCompanyId,
+        name: company.name,
+        logo_url: company.logoUrl ?? null,
+      })),
+      { onConflict: "source,source_company_id" },
+    )
+    .select("id, source, source_company_id");
+
+  if (upsertCompaniesError) {
+    throw new Error("Не вдалося зберегти студії для гри.");
+  }
+
+  const companyIdsByKey = new Map(
+    ((upsertedCompanies ?? []) as Array<{ id: string; source: string; source_company_id: string }>).map(
+      (row) => [`${row.source}:${row.source_company_id}`, row.id],
+    ),
+  );
+
+  const itemCompanyRows = new Map<string, { item_id: string; company_id: string; role_kind: string }>();
+  safeCompanies.forEach((company) => {
+    const companyId = companyIdsByKey.get(`${company.source}:${company.sourceCompanyId}`);
+    if (!companyId) {
+      return;
+    }
+    itemCompanyRows.set(`${companyId}:${company.roleKind}`, {
+      item_id: itemId,
+      company_id: companyId,
+      role_kind: company.roleKind,
+    });
+  });
+
+  if (itemCompanyRows.size === 0) {
+    return;
+  }
+
+  const { error: insertItemCompaniesError } = await supabase
+    .from("item_companies")
+    .insert([...itemCompanyRows.values()]);
+
+  if (insertItemCompaniesError) {
+    throw new Error("Не вдалося зв’язати студії з грою.");
+  }
+};
+
+export const trySyncGameNormalizedCompanies = async (
+  supabase: SupabaseClient,
+  itemId: string,
+  companies?: GameNormalizedCompany[] | null,
+) => {
+  try {
+    await syncGameNormalizedCompanies(supabase, itemId, companies);
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -3,12 +3,19 @@ const GAME_PLATFORM_LABEL_ALIASES: Record<string, string> = {
   playstation: "PlayStation",
   "playstation 4": "PlayStation",
   "playstation 5": "PlayStation",
+  "playstation 2": "PlayStation",
+  "playstation 3": "PlayStation",
+  "playstation portable": "PlayStation",
   ps4: "PlayStation",
   ps5: "PlayStation",
   "ps vr": "PlayStation VR",
   "playstation vr": "PlayStation VR",
   "ps playlink": "PlayStation PlayLink",
   playlink: "PlayStation PlayLink",
+  "pc (microsoft windows)": "PC",
+  windows: "PC",
+  "nintendo switch": "Nintendo",
+  "nintendo 64": "Nintendo",
 };
 
 export const normalizeGamePlatformLabel = (value?: string | null) => {
@@ -1,3 +1,5 @@
+import type { FranchiseDetail } from "@/lib/franchises/membership";
+
 type IgdbCredentials = {
   clientId: string;
   clientSecret: string;
@@ -16,6 +18,21 @@ type IgdbGame = {
   summary?: string;
   cover?: { url?: string };
   genres?: Array<{ id?: number; name?: string }>;
+  involved_companies?: IgdbInvolvedCompany[];
+};
+
+type IgdbInvolvedCompany = {
+  developer?: boolean;
+  publisher?: boolean;
+  company?: { id?: number; name?: string; logo?: { url?: string } };
+};
+
+export type IgdbMappedCompany = {
+  source: "igdb";
+  sourceCompanyId: string;
+  name: string;
+  logoUrl: string | null;
+  roleKind: "developer" | "publisher";
 };
 
 type IgdbGameVideo = {
@@ -68,6 +85,7 @@ type IgdbMappedGameDetail = {
     name: string;
   }>;
   description: string;
+  companyItems: IgdbMappedCompany[];
   trailers?: IgdbTrailer[];
 };
 
@@ -110,6 +128,35 @@ const normalizeCoverUrl = (url?: string) => {
     .replace("/t_720p/", "/t_1080p/");
 };
 
+const normalizeLogoUrl = (url?: string) => {
+  if (!url) return null;
+  const normalizedUrl = url.trim();
+  const withProtocol = normalizedUrl.startsWith("//") ? `https:${normalizedUrl}` : normalizedUrl;
+  return withProtocol.replace("/t_thumb/", "/t_logo_med/");
+};
+
+/** One entry per company and role; a studio that both develops and publishes appears twice. */
+export const mapIgdbInvolvedCompanies = (
+  involvedCompanies?: IgdbInvolvedCompany[],
+): IgdbMappedCompany[] =>
+  (involvedCompanies ?? []).flatMap((involved) => {
+    const company = involved.company;
+    if (!company?.id || !company.name?.trim()) {
+      return [];
+    }
+    const roleKinds = [
+      ...(involved.developer ? ["developer" as const] : []),
+      ...(involved.publisher ? ["publisher" as const] : []),
+    ];
+    return roleKinds.map((roleKind) => ({
+      source: "igdb" as const,
+      sourceCompanyId: String(company.id),
+      name: company.name?.trim() ?? "",
+      logoUrl: normalizeLogoUrl(company.logo?.url),
+      roleKind,
+    }));
+  });
+
 const escapeQuery = (value: string) => value.replaceAll("\\", "\\\\").replaceAll("\"", "\\\"");
 
 const getAccessToken = async (credentials: IgdbCredentials) => {
@@ -245,7 +292,7 @@ export const getIgdbGameDetails = async (
   if (!Number.isFinite(numericId)) return null;
 
   const body = `
-fields id,name,total_rating,first_release_date,cover.url,genres.name,summary;
+fields id,name,total_rating,first_release_date,cover.url,genres.name,summary,involved_companies.developer,involved_companies.publisher,involved_companies.company.name,involved_companies.company.logo.url;
 where id = ${numericId};
 limit 1;
 `;
@@ -294,6 +341,79 @@ limit 10;
         name: genre.name,
       })),
     description: row.summary ?? "",
+    companyItems: mapIgdbInvolvedCompanies(row.involved_companies),
     trailers,
   };
 };
+
+type IgdbGameSeries = {
+  franchise?: { id?: number; name?: string };
+  franchises?: Array<{ id?: number; name?: string }>;
+  collections?: Array<{ id?: number; name?: string }>;
+};
+
+/**
+ * The franchise (or, without one, the series) an IGDB game belongs to, with
+ * its main games in release order. Ids are prefixed because IGDB numbers
+ * franchises and collections independently.
+ */
+export const getIgdbGameFranchise = async (gameId: string): Promise<FranchiseDetail | null> => {
+  const numericId = Number.parseInt(gameId, 10);
+  if (!Number.isFinite(numericId)) return null;
+
+  const rows = await requestIgdb<IgdbGameSeries>(
+    "games",
+    `
+fields franchise.name,franchises.name,collections.name;
+where id = ${numericId};
+limit 1;
+`,
+  );
+  const row = rows[0];
+  const franchise = [row?.franchise, ...(row?.franchises ?? [])].find(
+    (candidate) => candidate?.id && candidate.name,
+  );
+  const collection = (row?.collections ?? []).find((candidate) => candidate.id && candidate.name);
+  const series = franchise
+    ? {
+        kind: "franchise",
+        id: franchise.id,
+        name: franchise.name,
+        filter: `franchises = (${franchise.id}) | franchise = ${franchise.id}`,
+      }
+    : collection
+      ? {
+          kind: "collection",
+          id: collection.id,
+          name: collection.name,
+          filter: `collections = (${collection.id})`,
+        }
+      : null;
+  if (!series) return null;
+
+  const members = mapIgdbGames(
+    await requestIgdb<IgdbGame>(
+      "games",
+      `
+fields id,name,first_release_date,cover.url;
+where (${series.filter}) & version_parent = null;
+sort first_release_date asc;
+limit 100;
+`,
+    ),
+  );
+
+  return {
+    mediaKind: "game",
+    source: "igdb",
+    sourceFranchiseId: `${series.kind}-${series.id}`,
+    name: series.name ?? "",
+    posterUrl: members[0]?.poster ?? "",
+    entries: members.map((member) => ({
+      sourceItemId: member.id,
+      title: member.title,
+      year: member.released.slice(0, 4),
+      posterUrl: member.poster,
+    })),
+  };
+};
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import {
+  createChatCompletion,
+  createStructuredChatCompletion,
+  DEFAULT_LLM_BASE_URL,
+  getLlmErrorResponse,
+  LlmError,
+  streamChatCompletion,
+  type LlmProviderConfig,
+  type LlmUsageEvent,
+} from "@/lib/llm/client";
+
+const completion = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+
+const createConfig = (
+  responses: Array<Response | Error>,
+  overrides: Partial<LlmProviderConfig> = {},
+) => {
+  const calls: Array<{ url: string; body: Record<string, unknown>; headers: HeadersInit }> = [];
+  const config: LlmProviderConfig = {
+    baseUrl: "http://localhost:11434/v1",
+    apiKey: null,
+    timeoutMs: 1000,
+    maxRetries: 2,
+    retryDelayMs: 0,
+    fetchImpl: async (input, init) => {
+      calls.push({
+        url: String(input),
+        body: JSON.parse(String(init?.body)) as Record<string, unknown>,
+        headers: init?.headers ?? {},
+      });
+      const next = responses.shift();
+      if (!next) throw new Error("No more responses.");
+      if (next instanceof Error) throw next;
+      return next;
+    },
+    ...overrides,
+  };
+  return { config, calls };
+};
+
+const messages = [{ role: "user" as const, content: "Hi" }];
+
+describe("llm client", () => {
+  it("talks to a local OpenAI-compatible backend and retries transient failures", async () => {
+    const { config, calls } = createConfig([
+      new Response(JSON.stringify({ error: { message: "busy" } }), { status: 503 }),
+      Object.assign(new Error("timed out"), { name: "TimeoutError" }),
+      completion("  Привіт  "),
+    ]);
+
+    await expect(
+      createChatCompletion({ model: "llama3", messages, temperature: 0.2, jsonMode: true, config }),
+    ).resolves.toBe("Привіт");
+    expect(calls).toHaveLength(3);
+    expect(calls[0].url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(calls[0].body).toEqual({
+      model: "llama3",
+      messages,
+      temperature: 0.2,
+      response_format: { type: "json_object" },
+    });
+    expect(calls[0].headers).not.toHaveProperty("Authorization");
+  });
+
+  it("maps provider errors without retrying client errors", async () => {
+    const { config, calls } = createConfig([
+      new Response(JSON.stringify({ error: { message: "Invalid model" } }), { status: 400 }),
+    ]);
+
+    const error = await createChatCompletion({ model: "nope", messages, config }).catch(
+      (reason: unknown) => reason,
+    );
+    expect(calls).toHaveLength(1);
+    expect(getLlmErrorResponse(error, "fallback")).toEqual({
+      status: 400,
+      error: "Invalid model",
+      code: "upstream",
+    });
+
+    const rateLimited = createConfig(
+      Array.from(
+        { length: 3 },
+        () => new Response("{}", { status: 429, headers: { "retry-after": "0" } }),
+      ),
+    );
+    await expect(
+      createChatCompletion({ model: "m", messages, config: rateLimited.config }),
+    ).rejects.toMatchObject({ code: "rate_limited", status: 429 });
+    expect(rateLimited.calls).toHaveLength(3);
+
+    await expect(
+      createChatCompletion({
+        model: "m",
+        messages,
+        config: createConfig([], { baseUrl: DEFAULT_LLM_BASE_URL }).config,
+      }),
+    ).rejects.toMatchObject({ code: "configuration" });
+    expect(getLlmErrorResponse(new Error("boom"), "fallback")).toEqual({
+      status: 500,
+      error: "boom",
+      code: null,
+    });
+  });
+
+  it("re-asks once when the answer fails validation", async () => {
+    const parse = (content: string) => {
+      const parsed = JSON.parse(content) as { label?: string };
+      if (!parsed.label) throw new Error("Missing label.");
+      return parsed.label;
+    };
+
+    const recovered = createConfig([completion('{"oops":1}'), completion('{"label":"Явно"}')]);
+    await expect(
+      createStructuredChatCompletion({ model: "m", messages, config: recovered.config, parse }),
+    ).resolves.toBe("Явно");
+
+    const broken = createConfig([completion("not json"), completion('{"oops":1}')]);
+    const error = await createStructuredChatCompletion({
+      model: "m",
+      messages,
+      config: broken.config,
+      parse,
+    }).catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(LlmError);
+    expect(error).toMatchObject({ code: "invalid_output", status: 500 });
+    expect((error as LlmError).message).toBe("Missing label.");
+  });
+
+  it("streams content deltas and reports usage from the final chunk", async () => {
+    const sse = [
+      'data: {"choices":[{"delta":{"content":"1. Heat"}}]}',
+      'data: {"choices":[{"delta":{"content":" (1995)"}}]}',
+      'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":5}}',
+      "data: [DONE]",
+      "",
+    ].join("\n\n");
+    const { config, calls } = createConfig([
+      new Response("{}", { status: 503 }),
+      new Response(sse, { status: 200 }),
+    ]);
+    const events: LlmUsageEvent[] = [];
+
+    const deltas: string[] = [];
+    for await (const delta of streamChatCompletion({
+      model: "m",
+      messages,
+      config,
+      onUsage: (event) => {
+        events.push(event);
+      },
+    })) {
+      deltas.push(delta);
+    }
+
+    expect(deltas).toEqual(["1. Heat", " (1995)"]);
+    expect(calls).toHaveLength(2);
+    expect(calls[1].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    expect(events).toEqual([
+      expect.objectContaining({ promptTokens: 12, completionTokens: 5, success: true }),
+    ]);
+
+    const empty = createConfig([new Response("data: [DONE]\n\n", { status: 200 })]);
+    const consume = async () => {
+      for await (const delta of streamChatCompletion({ model: "m", messages, config: empty.config })) {
+        void delta;
+      }
+    };
+    await expect(consume()).rejects.toMatchObject({ code: "empty_response" });
+  });
+});
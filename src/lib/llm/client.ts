@@ -0,0 +1,432 @@
+export const DEFAULT_LLM_BASE_URL = "https://api.openai.com/v1";
+
+const DEFAULT_LLM_TIMEOUT_MS = 60000;
+const DEFAULT_LLM_MAX_RETRIES = 2;
+const DEFAULT_LLM_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+const STRUCTURED_OUTPUT_ATTEMPTS = 2;
+
+export type LlmChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type LlmProviderConfig = {
+  /** OpenAI-compatible root, e.g. `http://localhost:11434/v1` for Ollama. */
+  baseUrl: string;
+  apiKey: string | null;
+  timeoutMs: number;
+  maxRetries: number;
+  retryDelayMs: number;
+  fetchImpl?: typeof fetch;
+};
+
+export type LlmErrorCode =
+  | "configuration"
+  | "timeout"
+  | "rate_limited"
+  | "upstream"
+  | "empty_response"
+  | "invalid_output"
+  | "unauthorized"
+  | "quota_exceeded";
+
+export class LlmError extends Error {
+  readonly code: LlmErrorCode;
+  readonly status: number;
+
+  constructor(code: LlmErrorCode, message: string, status: number) {
+    super(message);
+    this.name = "LlmError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/** One provider call as reported to `onUsage`; failed calls carry zero tokens. */
+export type LlmUsageEvent = {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  success: boolean;
+  errorCode: LlmErrorCode | null;
+};
+
+export type LlmUsageHandler = (event: LlmUsageEvent) => void | Promise<void>;
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string } | string;
+};
+
+type ChatCompletionChunk = {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+};
+
+type CompletionResult =
+  | { error: LlmError; retryAfter: string | null }
+  | { content: string; promptTokens: number; completionTokens: number };
+
+const parsePositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Provider settings from env. `LLM_BASE_URL` points the app at any
+ * OpenAI-compatible server (Ollama, llama.cpp, vLLM, a mock); the API key is
+ * only required for the hosted OpenAI endpoint.
+ */
+export const getLlmProviderConfig = (): LlmProviderConfig => ({
+  baseUrl: (process.env.LLM_BASE_URL?.trim() || DEFAULT_LLM_BASE_URL).replace(/\/+$/, ""),
+  apiKey: process.env.LLM_API_KEY?.trim() || process.env.OPENAI_API_KEY?.trim() || null,
+  timeoutMs: parsePositiveInt(process.env.LLM_TIMEOUT_MS, DEFAULT_LLM_TIMEOUT_MS),
+  maxRetries: parsePositiveInt(process.env.LLM_MAX_RETRIES, DEFAULT_LLM_MAX_RETRIES),
+  retryDelayMs: DEFAULT_LLM_RETRY_DELAY_MS,
+});
+
+/**
+ * Upper bound for one structured completion: every attempt timing out and
+ * waiting the longest backoff between retries.
+ */
+export const getLlmMaxCallDurationMs = (config: LlmProviderConfig = getLlmProviderConfig()) =>
+  STRUCTURED_OUTPUT_ATTEMPTS *
+  ((config.maxRetries + 1) * config.timeoutMs + config.maxRetries * MAX_RETRY_DELAY_MS);
+
+export const extractJsonObject = (value: string) => {
+  const start = value.indexOf("{");
+  const end = value.lastIndexOf("}");
+  if (start < 0 || end <= start) {
+    throw new Error("Модель повернула некоректну відповідь.");
+  }
+  return value.slice(start, end + 1);
+};
+
+const readErrorMessage = (data: ChatCompletionResponse | null) =>
+  typeof data?.error === "string" ? data.error : data?.error?.message;
+
+const getRetryDelay = (config: LlmProviderConfig, attempt: number, retryAfter: string | null) => {
+  const retryAfterSeconds = Number.parseFloat(retryAfter ?? "");
+  const delay = Number.isFinite(retryAfterSeconds)
+    ? retryAfterSeconds * 1000
+    : config.retryDelayMs * 2 ** attempt;
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+};
+
+const wait = (ms: number) =>
+  ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+
+const mapTransportError = (error: unknown) => {
+  const isTimeout =
+    error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+  return isTimeout
+    ? new LlmError("timeout", "Модель не відповіла вчасно.", 504)
+    : new LlmError("upstream", "Не вдалося з’єднатися з LLM-провайдером.", 502);
+};
+
+const mapResponseError = (response: Response, data: ChatCompletionResponse | null) => {
+  const message = readErrorMessage(data) || `LLM request failed (${response.status}).`;
+  return {
+    error:
+      response.status === 429
+        ? new LlmError("rate_limited", message, 429)
+        : new LlmError("upstream", message, response.status >= 500 ? 502 : response.status),
+    retryAfter: response.headers.get("retry-after"),
+  };
+};
+
+const postCompletion = async (
+  config: LlmProviderConfig,
+  body: Record<string, unknown>,
+): Promise<{ response: Response } | { error: LlmError; retryAfter: string | null }> => {
+  const fetchImpl = config.fetchImpl ?? fetch;
+
+  try {
+    return {
+      response: await fetchImpl(`${config.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(config.timeoutMs),
+      }),
+    };
+  } catch (error) {
+    return { error: mapTransportError(error), retryAfter: null };
+  }
+};
+
+const requestCompletion = async (
+  config: LlmProviderConfig,
+  body: Record<string, unknown>,
+): Promise<CompletionResult> => {
+  const posted = await postCompletion(config, body);
+  if ("error" in posted) {
+    return posted;
+  }
+
+  const { response } = posted;
+  const data = (await response.json().catch(() => null)) as ChatCompletionResponse | null;
+
+  if (!response.ok) {
+    return mapResponseError(response, data);
+  }
+
+  const content = data?.choices?.[0]?.message?.content?.trim();
+  if (!content) {
+    return {
+      error: new LlmError("empty_response", "Порожня відповідь моделі.", 502),
+      retryAfter: null,
+    };
+  }
+
+  return {
+    content,
+    promptTokens: data?.usage?.prompt_tokens ?? 0,
+    completionTokens: data?.usage?.completion_tokens ?? 0,
+  };
+};
+
+const isRetryable = (error: LlmError) =>
+  error.code === "timeout" ||
+  error.code === "rate_limited" ||
+  error.code === "empty_response" ||
+  (error.code === "upstream" && error.status === 502);
+
+const reportUsage = async (
+  onUsage: LlmUsageHandler | null | undefined,
+  event: LlmUsageEvent,
+) => {
+  try {
+    await onUsage?.(event);
+  } catch {
+    // Accounting must never fail the model call itself.
+  }
+};
+
+/**
+ * One chat completion against the configured provider. Timeouts, 429s and
+ * 5xx responses are retried with exponential backoff (or `Retry-After`).
+ * `onUsage` receives one event per call, after retries are settled.
+ */
+export const createChatCompletion = async ({
+  model,
+  messages,
+  temperature,
+  jsonMode = false,
+  config = getLlmProviderConfig(),
+  onUsage,
+}: {
+  model: string;
+  messages: LlmChatMessage[];
+  temperature?: number;
+  jsonMode?: boolean;
+  config?: LlmProviderConfig;
+  onUsage?: LlmUsageHandler | null;
+}) => {
+  if (!config.apiKey && config.baseUrl === DEFAULT_LLM_BASE_URL) {
+    throw new LlmError("configuration", "Missing OPENAI_API_KEY.", 500);
+  }
+
+  const body = {
+    model,
+    messages,
+    ...(typeof temperature === "number" ? { temperature } : {}),
+    ...(jsonMode ? { response_format: { type: "json_object" } } : {}),
+  };
+
+  const startedAt = Date.now();
+
+  for (let attempt = 0; ; attempt += 1) {
+    const result = await requestCompletion(config, body);
+    if ("content" in result) {
+      await reportUsage(onUsage, {
+        model,
+        promptTokens: result.promptTokens,
+        completionTokens: result.completionTokens,
+        latencyMs: Date.now() - startedAt,
+        success: true,
+        errorCode: null,
+      });
+      return result.content;
+    }
+    if (attempt >= config.maxRetries || !isRetryable(result.error)) {
+      await reportUsage(onUsage, {
+        model,
+        promptTokens: 0,
+        completionTokens: 0,
+        latencyMs: Date.now() - startedAt,
+        success: false,
+        errorCode: result.error.code,
+      });
+      throw result.error;
+    }
+    await wait(getRetryDelay(config, attempt, result.retryAfter));
+  }
+};
+
+/**
+ * Chat completion whose content must pass `parse` (e.g. `parseFilmProfileAnalysis`,
+ * which mirrors `FILM_PROFILE_ANALYSIS_JSON_SCHEMA`). An answer that fails
+ * validation is requested once more before giving up.
+ */
+export const createStructuredChatCompletion = async <T>({
+  parse,
+  ...request
+}: Parameters<typeof createChatCompletion>[0] & {
+  parse: (content: string) => T;
+}) => {
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt < STRUCTURED_OUTPUT_ATTEMPTS; attempt += 1) {
+    const content = await createChatCompletion(request);
+    try {
+      return parse(content);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw new LlmError(
+    "invalid_output",
+    lastError instanceof Error && lastError.message
+      ? lastError.message
+      : "Некоректний формат відповіді моделі.",
+    500,
+  );
+};
+
+const parseStreamChunk = (line: string) => {
+  const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+  if (!data || data === "[DONE]") {
+    return null;
+  }
+  try {
+    return JSON.parse(data) as ChatCompletionChunk;
+  } catch {
+    return null;
+  }
+};
+
+const openCompletionStream = async (config: LlmProviderConfig, body: Record<string, unknown>) => {
+  for (let attempt = 0; ; attempt += 1) {
+    const posted = await postCompletion(config, body);
+    if ("response" in posted && posted.response.ok) {
+      return posted.response;
+    }
+    const failed =
+      "error" in posted
+        ? posted
+        : mapResponseError(
+            posted.response,
+            (await posted.response.json().catch(() => null)) as ChatCompletionResponse | null,
+          );
+    if (attempt >= config.maxRetries || !isRetryable(failed.error)) {
+      throw failed.error;
+    }
+    await wait(getRetryDelay(config, attempt, failed.retryAfter));
+  }
+};
+
+/**
+ * Streaming chat completion: yields content deltas as the provider sends them
+ * (`stream: true`, OpenAI SSE chunks). Only opening the stream is retried; a
+ * stream that breaks midway fails with the mapped `LlmError`. `onUsage` fires
+ * once the stream ends, including when the consumer stops reading early.
+ */
+export async function* streamChatCompletion({
+  model,
+  messages,
+  temperature,
+  config = getLlmProviderConfig(),
+  onUsage,
+}: Omit<Parameters<typeof createChatCompletion>[0], "jsonMode">): AsyncGenerator<string> {
+  if (!config.apiKey && config.baseUrl === DEFAULT_LLM_BASE_URL) {
+    throw new LlmError("configuration", "Missing OPENAI_API_KEY.", 500);
+  }
+
+  const body = {
+    model,
+    messages,
+    stream: true,
+    stream_options: { include_usage: true },
+    ...(typeof temperature === "number" ? { temperature } : {}),
+  };
+
+  const startedAt = Date.now();
+  const usage = { promptTokens: 0, completionTokens: 0 };
+  let failure: LlmError | null = null;
+
+  try {
+    const response = await openCompletionStream(config, body);
+    if (!response.body) {
+      throw new LlmError("empty_response", "Порожня відповідь моделі.", 502);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    let hasContent = false;
+
+    try {
+      for (;;) {
+        let chunk: ReadableStreamReadResult<string>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          throw mapTransportError(error);
+        }
+        if (chunk.done) break;
+
+        buffer += chunk.value;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const parsed = parseStreamChunk(line);
+          if (parsed?.usage) {
+            usage.promptTokens = parsed.usage.prompt_tokens ?? 0;
+            usage.completionTokens = parsed.usage.completion_tokens ?? 0;
+          }
+          const delta = parsed?.choices?.[0]?.delta?.content;
+          if (delta) {
+            hasContent = true;
+            yield delta;
+          }
+        }
+      }
+    } finally {
+      await reader.cancel().catch(() => undefined);
+    }
+
+    if (!hasContent) {
+      throw new LlmError("empty_response", "Порожня відповідь моделі.", 502);
+    }
+  } catch (error) {
+    failure = error instanceof LlmError ? error : mapTransportError(error);
+    throw failure;
+  } finally {
+    await reportUsage(onUsage, {
+      model,
+      promptTokens: failure ? 0 : usage.promptTokens,
+      completionTokens: failure ? 0 : usage.completionTokens,
+      latencyMs: Date.now() - startedAt,
+      success: !failure,
+      errorCode: failure?.code ?? null,
+    });
+  }
+}
+
+/** Status and message for route responses, so every LLM route reports failures the same way. */
+export const getLlmErrorResponse = (error: unknown, fallbackMessage: string) =>
+  error instanceof LlmError
+    ? { status: error.status, error: error.message, code: error.code }
+    : {
+        status: 500,
+        error: error instanceof Error && error.message ? error.message : fallbackMessage,
+        code: null,
+      };
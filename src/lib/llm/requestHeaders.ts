@@ -0,0 +1,15 @@
+"use client";
+
+import { supabase } from "@/lib/supabase/client";
+
+/** JSON headers for `/api/openai/*`; the session token lets the route account usage per user. */
+export const getLlmRequestHeaders = async (): Promise<Record<string, string>> => {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  return {
+    "Content-Type": "application/json",
+    ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+  };
+};
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  authenticateLlmRequest,
+  beginLlmUsage,
+  formatLlmQuotaExceededMessage,
+  getLlmDailyQuota,
+  getLlmQuotaWindowStart,
+  isLlmQuotaExceeded,
+} from "@/lib/llm/usage";
+
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+describe("llm usage quotas", () => {
+  it("reads quotas from env and treats 0 as unlimited", () => {
+    process.env.LLM_DAILY_REQUEST_QUOTA = "5";
+    process.env.LLM_DAILY_TOKEN_QUOTA = "0";
+    const quota = getLlmDailyQuota();
+    expect(quota).toEqual({ requests: 5, tokens: 0 });
+
+    expect(isLlmQuotaExceeded({ requests: 4, tokens: 10_000_000 }, quota)).toBe(false);
+    expect(isLlmQuotaExceeded({ requests: 5, tokens: 0 }, quota)).toBe(true);
+    expect(formatLlmQuotaExceededMessage({ requests: 5, tokens: 120 }, quota)).toBe(
+      "Денний ліміт ШІ вичерпано (запитів 5/5). Ліміт оновиться о 00:00 UTC.",
+    );
+  });
+
+  it("counts the day from UTC midnight and skips accounting without Supabase", async () => {
+    expect(getLlmQuotaWindowStart(new Date("2026-05-12T23:30:00-03:00")).toISOString()).toBe(
+      "2026-05-13T00:00:00.000Z",
+    );
+
+    delete process.env.SUPABASE_URL;
+    delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+    const caller = await authenticateLlmRequest(new Request("http://localhost/api"));
+    expect(caller).toBeNull();
+    await expect(beginLlmUsage(caller, "film-fit-evaluation")).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { getSupabaseAdmin } from "@/lib/supabase/admin";
+import { LlmError, type LlmUsageEvent } from "@/lib/llm/client";
+
+export type LlmUsageRoute =
+  | "film-fit-evaluation"
+  | "game-fit-evaluation"
+  | "film-profile-analysis"
+  | "game-profile-analysis"
+  | "film-recommendations"
+  | "game-recommendations";
+
+export type LlmDailyQuota = {
+  requests: number;
+  tokens: number;
+};
+
+export type LlmDailyUsage = {
+  requests: number;
+  tokens: number;
+};
+
+const DEFAULT_DAILY_REQUEST_QUOTA = 100;
+const DEFAULT_DAILY_TOKEN_QUOTA = 300000;
+
+const parseQuota = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/** `LLM_DAILY_REQUEST_QUOTA` / `LLM_DAILY_TOKEN_QUOTA`; 0 disables that limit. */
+export const getLlmDailyQuota = (): LlmDailyQuota => ({
+  requests: parseQuota(process.env.LLM_DAILY_REQUEST_QUOTA, DEFAULT_DAILY_REQUEST_QUOTA),
+  tokens: parseQuota(process.env.LLM_DAILY_TOKEN_QUOTA, DEFAULT_DAILY_TOKEN_QUOTA),
+});
+
+export const getLlmQuotaWindowStart = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+/** Same rule as `reserve_llm_usage`, which enforces it in the database. */
+export const isLlmQuotaExceeded = (usage: LlmDailyUsage, quota: LlmDailyQuota) =>
+  (quota.requests > 0 && usage.requests >= quota.requests) ||
+  (quota.tokens > 0 && usage.tokens >= quota.tokens);
+
+export const formatLlmQuotaExceededMessage = (usage: LlmDailyUsage, quota: LlmDailyQuota) => {
+  const limits = [
+    quota.requests > 0 ? `запитів ${usage.requests}/${quota.requests}` : null,
+    quota.tokens > 0 ? `токенів ${usage.tokens}/${quota.tokens}` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+  return `Денний ліміт ШІ вичерпано (${limits}). Ліміт оновиться о 00:00 UTC.`;
+};
+
+const getBearerToken = (request: Request) => {
+  const authorization = request.headers.get("authorization")?.trim();
+  if (!authorization?.toLowerCase().startsWith("bearer ")) {
+    return null;
+  }
+  return authorization.slice(7).trim();
+};
+
+/**
+ * Accounting needs the service role to verify the caller and write history.
+ * Setups without it (local dev against a mock model, tests) skip quotas.
+ */
+const isLlmUsageAccountingEnabled = () =>
+  Boolean(
+    (process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL) &&
+      process.env.SUPABASE_SERVICE_ROLE_KEY,
+  );
+
+export type LlmCaller = {
+  supabaseAdmin: ReturnType<typeof getSupabaseAdmin>;
+  userId: string;
+};
+
+/**
+ * Resolves the signed-in user behind an LLM route call. Returns null when
+ * accounting is disabled; throws `LlmError` (401) for anonymous callers.
+ */
+export const authenticateLlmRequest = async (request: Request): Promise<LlmCaller | null> => {
+  if (!isLlmUsageAccountingEnabled()) {
+    return null;
+  }
+
+  const accessToken = getBearerToken(request);
+  if (!accessToken) {
+    throw new LlmError("unauthorized", "Потрібна авторизація.", 401);
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseAdmin.auth.getUser(accessToken);
+
+  if (authError || !user) {
+    throw new LlmError("unauthorized", "Потрібна авторизація.", 401);
+  }
+
+  return { supabaseAdmin, userId: user.id };
+};
+
+/**
+ * Reserves one request of today's quota before a model call and returns the
+ * `onUsage` handler that persists each call, or null without a caller. The
+ * check and the reservation run atomically in `reserve_llm_usage`; the first
+ * reported call completes the reserved row. Throws `LlmError` (429) once the
+ * quota is spent.
+ */
+export const beginLlmUsage = async (caller: LlmCaller | null, route: LlmUsageRoute) => {
+  if (!caller) {
+    return null;
+  }
+
+  const { supabaseAdmin, userId } = caller;
+  const quota = getLlmDailyQuota();
+  const { data, error: reserveError } = await supabaseAdmin.rpc("reserve_llm_usage", {
+    p_user_id: userId,
+    p_route: route,
+    p_window_start: getLlmQuotaWindowStart().toISOString(),
+    p_request_quota: quota.requests,
+    p_token_quota: quota.tokens,
+  });
+
+  if (reserveError || !data) {
+    throw new Error("Не вдалося перевірити ліміт ШІ.");
+  }
+
+  const reservation = data as LlmDailyUsage & { reservationId: string | null };
+  if (!reservation.reservationId) {
+    const usage = { requests: reservation.requests, tokens: reservation.tokens };
+    throw new LlmError("quota_exceeded", formatLlmQuotaExceededMessage(usage, quota), 429);
+  }
+
+  let reservationId: string | null = reservation.reservationId;
+  return async (event: LlmUsageEvent) => {
+    const row = {
+      model: event.model,
+      prompt_tokens: event.promptTokens,
+      completion_tokens: event.completionTokens,
+      latency_ms: event.latencyMs,
+      success: event.success,
+      error_code: event.errorCode,
+    };
+    if (reservationId) {
+      const id = reservationId;
+      reservationId = null;
+      await supabaseAdmin.from("llm_usage_events").update(row).eq("id", id);
+      return;
+    }
+    await supabaseAdmin.from("llm_usage_events").insert({ user_id: userId, route, ...row });
+  };
+};
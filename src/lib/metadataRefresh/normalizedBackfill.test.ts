@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import {
+  summarizeNormalizedCoverage,
+  type NormalizedBackfillItem,
+} from "@/lib/metadataRefresh/normalizedBackfill";
+
+const item = (
+  id: string,
+  type: "film" | "game",
+  overrides: Partial<NormalizedBackfillItem> = {},
+): NormalizedBackfillItem => ({
+  id,
+  type,
+  title: id,
+  external_id: `ext-${id}`,
+  film_media_type: type === "film" ? "movie" : null,
+  genres: "Драма",
+  director: type === "film" ? "Режисер" : null,
+  actors: null,
+  ...overrides,
+});
+
+describe("normalized metadata coverage", () => {
+  it("splits items into normalized and text-only, queueing only those with a source id", () => {
+    const coverage = summarizeNormalizedCoverage(
+      [
+        item("full", "film"),
+        item("no-people", "film"),
+        item("no-source", "film", { external_id: null }),
+        item("no-text", "film", { genres: null, director: null }),
+        item("game-full", "game"),
+        item("game-text", "game"),
+      ],
+      new Set(["full", "no-people", "game-full"]),
+      new Set(["full"]),
+    );
+
+    expect(coverage.film).toEqual({ total: 4, normalized: 2, textOnly: 2, withoutSource: 1 });
+    expect(coverage.game).toEqual({ total: 2, normalized: 1, textOnly: 1, withoutSource: 0 });
+    expect(coverage.pending.map((entry) => entry.id)).toEqual(["no-people", "game-text"]);
+  });
+});
@@ -0,0 +1,221 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  syncFilmNormalizedMetadata,
+  type FilmNormalizedGenre,
+  type FilmNormalizedPerson,
+} from "@/lib/films/normalizedMetadata";
+import {
+  syncGameNormalizedGenres,
+  type GameNormalizedGenre,
+} from "@/lib/games/normalizedMetadata";
+import { loadRelatedItemIds } from "@/lib/metadataRefresh/relatedItemIds";
+
+const PAGE_SIZE = 1000;
+const BACKFILL_REQUEST_INTERVAL_MS = 400;
+
+export type NormalizedBackfillItem = {
+  id: string;
+  type: "film" | "game";
+  title: string;
+  external_id: string | null;
+  film_media_type: "movie" | "tv" | null;
+  genres: string | null;
+  director: string | null;
+  actors: string | null;
+};
+
+export type NormalizedCoverageStats = {
+  total: number;
+  normalized: number;
+  textOnly: number;
+  withoutSource: number;
+};
+
+export type NormalizedCoverage = {
+  film: NormalizedCoverageStats;
+  game: NormalizedCoverageStats;
+  pending: NormalizedBackfillItem[];
+};
+
+export type NormalizedBackfillSummary = {
+  done: number;
+  stopped: boolean;
+  failed: { title: string; message: string }[];
+};
+
+const hasText = (value: string | null) => Boolean(value?.trim());
+
+/**
+ * An item is text-only while one of its legacy text columns has no normalized
+ * counterpart: `genres` without `item_genres`, or a film's director/actors
+ * without `item_people`. Items without any of that text have nothing to backfill.
+ */
+export const isTextOnlyItem = (
+  item: NormalizedBackfillItem,
+  { hasGenres, hasPeople }: { hasGenres: boolean; hasPeople: boolean },
+) =>
+  (hasText(item.genres) && !hasGenres) ||
+  (item.type === "film" && (hasText(item.director) || hasText(item.actors)) && !hasPeople);
+
+export const summarizeNormalizedCoverage = (
+  items: NormalizedBackfillItem[],
+  genreItemIds: Set<string>,
+  peopleItemIds: Set<string>,
+): NormalizedCoverage => {
+  const emptyStats = (): NormalizedCoverageStats => ({
+    total: 0,
+    normalized: 0,
+    textOnly: 0,
+    withoutSource: 0,
+  });
+  const coverage: NormalizedCoverage = { film: emptyStats(), game: emptyStats(), pending: [] };
+
+  items.forEach((item) => {
+    const stats = coverage[item.type];
+    stats.total += 1;
+    if (
+      !isTextOnlyItem(item, {
+        hasGenres: genreItemIds.has(item.id),
+        hasPeople: peopleItemIds.has(item.id),
+      })
+    ) {
+      stats.normalized += 1;
+      return;
+    }
+    stats.textOnly += 1;
+    if (item.external_id?.trim()) {
+      coverage.pending.push(item);
+    } else {
+      stats.withoutSource += 1;
+    }
+  });
+
+  return coverage;
+};
+
+/** Coverage of the current user's collection; shared items are counted once. */
+export const loadNormalizedCoverage = async (supabase: SupabaseClient) => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error("Потрібна авторизація.");
+  }
+
+  const itemsById = new Map<string, NormalizedBackfillItem>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("user_views")
+      .select(
+        "items:items!inner(id, type, title, external_id, film_media_type, genres, director, actors)",
+      )
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error("Не вдалося завантажити колекцію.");
+    }
+    ((data ?? []) as Array<{
+      items: NormalizedBackfillItem | NormalizedBackfillItem[] | null;
+    }>).forEach((row) => {
+      const item = Array.isArray(row.items) ? row.items[0] : row.items;
+      if (item && (item.type === "film" || item.type === "game")) {
+        itemsById.set(item.id, item);
+      }
+    });
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const items = [...itemsById.values()];
+  const itemIds = items.map((item) => item.id);
+  const [genreItemIds, peopleItemIds] = await Promise.all([
+    loadRelatedItemIds(supabase, "item_genres", itemIds),
+    loadRelatedItemIds(
+      supabase,
+      "item_people",
+      items.filter((item) => item.type === "film").map((item) => item.id),
+    ),
+  ]);
+
+  return summarizeNormalizedCoverage(items, genreItemIds, peopleItemIds);
+};
+
+const backfillItem = async (supabase: SupabaseClient, item: NormalizedBackfillItem) => {
+  const externalId = item.external_id?.trim() ?? "";
+
+  if (item.type === "film") {
+    const response = await fetch(
+      `/api/tmdb/${encodeURIComponent(externalId)}?mediaType=${item.film_media_type ?? "movie"}`,
+    );
+    if (!response.ok) {
+      throw new Error("TMDB не повернув деталі.");
+    }
+    const detail = (await response.json()) as {
+      people?: FilmNormalizedPerson[] | null;
+      genreItems?: FilmNormalizedGenre[] | null;
+    };
+    if (!detail.people?.length && !detail.genreItems?.length) {
+      throw new Error("TMDB не знає людей і жанрів цього тайтлу.");
+    }
+    await syncFilmNormalizedMetadata(supabase, item.id, {
+      people: detail.people?.length ? detail.people : null,
+      genres: detail.genreItems?.length ? detail.genreItems : null,
+    });
+    return;
+  }
+
+  const response = await fetch(`/api/rawg/${encodeURIComponent(externalId)}`);
+  if (!response.ok) {
+    throw new Error("Не вдалося отримати деталі гри.");
+  }
+  const detail = (await response.json()) as { genreItems?: GameNormalizedGenre[] | null };
+  if (!detail.genreItems?.length) {
+    throw new Error("Джерело не знає жанрів цієї гри.");
+  }
+  await syncGameNormalizedGenres(supabase, item.id, detail.genreItems);
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fills `item_people`/`item_genres` for text-only items one by one. The queue is
+ * derived from missing rows, so a stopped or interrupted run resumes on the
+ * next call with whatever is still text-only.
+ */
+export const runNormalizedBackfill = async ({
+  supabase,
+  items,
+  signal,
+  onProgress,
+}: {
+  supabase: SupabaseClient;
+  items: NormalizedBackfillItem[];
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<NormalizedBackfillSummary> => {
+  const summary: NormalizedBackfillSummary = { done: 0, stopped: false, failed: [] };
+
+  for (const [index, item] of items.entries()) {
+    if (signal?.aborted) {
+      summary.stopped = true;
+      break;
+    }
+    if (index > 0) {
+      await wait(BACKFILL_REQUEST_INTERVAL_MS);
+    }
+
+    try {
+      await backfillItem(supabase, item);
+    } catch (error) {
+      summary.failed.push({
+        title: item.title,
+        message: error instanceof Error ? error.message : "Не вдалося доповнити метадані.",
+      });
+    }
+    summary.done += 1;
+    onProgress?.(summary.done, items.length);
+  }
+
+  return summary;
+};
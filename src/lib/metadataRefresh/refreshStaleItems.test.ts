@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { diffItemMetadata } from "@/lib/metadataRefresh/refreshStaleItems";
+
+const trailer = (key: string) => ({
+  id: key,
+  name: "Trailer",
+  site: "YouTube",
+  key,
+  type: "Trailer",
+  official: true,
+  language: "uk",
+  region: "UA",
+  url: `https://www.youtube.com/watch?v=${key}`,
+});
+
+const stored = {
+  imdb_rating: "7.8",
+  poster_url: "https://image.tmdb.org/t/p/w780/a.jpg",
+  genres: "Драма",
+  director: "Дені Вільнев",
+  actors: null,
+  trailers: [trailer("abc")],
+  peopleLinks: 12,
+  genreLinks: 0,
+};
+
+describe("metadata refresh diff", () => {
+  it("reports changed fields, trailers by key and relations by link count", () => {
+    expect(
+      diffItemMetadata(stored, {
+        ...stored,
+        imdb_rating: "8.1",
+        trailers: [trailer("abc"), trailer("def")],
+        genreLinks: 2,
+      }),
+    ).toEqual({
+      imdb_rating: { before: "7.8", after: "8.1" },
+      trailers: { before: ["abc"], after: ["abc", "def"] },
+      item_genres: { before: 0, after: 2 },
+    });
+  });
+
+  it("treats a missing value and null as the same", () => {
+    expect(diffItemMetadata(stored, { ...stored, actors: undefined as never })).toEqual({});
+  });
+});
@@ -0,0 +1,405 @@
+import type { getSupabaseAdmin } from "@/lib/supabase/admin";
+import { summarizeFilmPeople, type FilmCollectionTrailer } from "@/lib/films/collectionFlow";
+import { syncFilmNormalizedMetadata } from "@/lib/films/normalizedMetadata";
+import { normalizeTvLastAiredEpisode, normalizeTvSeasons } from "@/lib/films/tvProgress";
+import {
+  syncGameNormalizedCompanies,
+  syncGameNormalizedGenres,
+} from "@/lib/games/normalizedMetadata";
+import { getIgdbGameDetails } from "@/lib/igdb/server";
+import { loadRelatedItemCounts } from "@/lib/metadataRefresh/relatedItemIds";
+import { getOmdbImdbRating } from "@/lib/omdb/server";
+import { getTmdbTitleRefreshDetail, getTmdbTvStructure } from "@/lib/tmdb/server";
+
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
+
+export type MetadataRefreshItemRow = {
+  id: string;
+  type: "film" | "game";
+  external_id: string;
+  film_media_type: "movie" | "tv" | null;
+  imdb_rating: string | null;
+  poster_url: string | null;
+  genres: string | null;
+  director: string | null;
+  actors: string | null;
+  trailers: FilmCollectionTrailer[] | null;
+};
+
+type MetadataRefreshColumns = Pick<
+  MetadataRefreshItemRow,
+  "imdb_rating" | "poster_url" | "genres" | "director" | "actors" | "trailers"
+>;
+
+export type MetadataRefreshChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type MetadataRefreshResult = {
+  itemId: string;
+  status: "updated" | "unchanged" | "failed";
+  changes: MetadataRefreshChanges;
+  reason?: string;
+};
+
+type RelatedCounts = { peopleLinks: number; genreLinks: number };
+
+export const METADATA_REFRESH_ITEM_COLUMNS =
+  "id, type, external_id, film_media_type, imdb_rating, poster_url, genres, director, actors, trailers";
+
+const trailerKeys = (trailers: FilmCollectionTrailer[] | null) =>
+  (trailers ?? []).map((trailer) => trailer.key).join(",");
+
+/**
+ * Field-level diff between the stored item and the refreshed one. Trailers are
+ * compared and reported by their video keys so the diff stays readable.
+ */
+export const diffItemMetadata = (
+  before: MetadataRefreshColumns & RelatedCounts,
+  after: MetadataRefreshColumns & RelatedCounts,
+) => {
+  const changes: MetadataRefreshChanges = {};
+  (["imdb_rating", "poster_url", "genres", "director", "actors"] as const).forEach((field) => {
+    if ((before[field] ?? null) !== (after[field] ?? null)) {
+      changes[field] = { before: before[field] ?? null, after: after[field] ?? null };
+    }
+  });
+  if (trailerKeys(before.trailers) !== trailerKeys(after.trailers)) {
+    changes.trailers = {
+      before: (before.trailers ?? []).map((trailer) => trailer.key),
+      after: (after.trailers ?? []).map((trailer) => trailer.key),
+    };
+  }
+  if (before.peopleLinks !== after.peopleLinks) {
+    changes.item_people = { before: before.peopleLinks, after: after.peopleLinks };
+  }
+  if (before.genreLinks !== after.genreLinks) {
+    changes.item_genres = { before: before.genreLinks, after: after.genreLinks };
+  }
+  return changes;
+};
+
+const pickFresh = (value: string | null | undefined, fallback: string | null) =>
+  value?.trim() ? value.trim() : fallback;
+
+/**
+ * Fetches the title again and writes what changed. Empty source values keep the
+ * stored ones, matching the manual "refresh metadata" flow in the catalogs.
+ */
+const refreshItem = async ({
+  supabaseAdmin,
+  row,
+  relatedBefore,
+  dryRun,
+}: {
+  supabaseAdmin: SupabaseAdmin;
+  row: MetadataRefreshItemRow;
+  relatedBefore: RelatedCounts;
+  dryRun: boolean;
+}): Promise<Omit<MetadataRefreshResult, "itemId">> => {
+  const current: MetadataRefreshColumns = {
+    imdb_rating: row.imdb_rating,
+    poster_url: row.poster_url,
+    genres: row.genres,
+    director: row.director,
+    actors: row.actors,
+    trailers: row.trailers,
+  };
+  let next: MetadataRefreshColumns;
+  let fetchedCounts: RelatedCounts;
+  let syncRelations: () => Promise<void>;
+
+  if (row.type === "film") {
+    const detail = await getTmdbTitleRefreshDetail(
+      row.external_id,
+      row.film_media_type ?? "movie",
+    );
+    if (!detail) {
+      throw new Error("Тайтл не знайдено у TMDB.");
+    }
+    const imdbRating =
+      detail.imdbRating || !detail.imdbId || !process.env.OMDB_API_KEY
+        ? detail.imdbRating
+        : await getOmdbImdbRating(detail.imdbId);
+    const peopleSummary = summarizeFilmPeople(detail.people);
+
+    next = {
+      imdb_rating: pickFresh(imdbRating, row.imdb_rating),
+      poster_url: pickFresh(detail.poster, row.poster_url),
+      genres: pickFresh(detail.genres, row.genres),
+      director: peopleSummary.director ?? pickFresh(detail.director, row.director),
+      actors: peopleSummary.actors ?? pickFresh(detail.actors, row.actors),
+      trailers: detail.trailers.length > 0 ? detail.trailers : row.trailers,
+    };
+    fetchedCounts = {
+      peopleLinks: detail.people.length > 0 ? detail.people.length : relatedBefore.peopleLinks,
+      genreLinks:
+        detail.genreItems.length > 0 ? detail.genreItems.length : relatedBefore.genreLinks,
+    };
+    syncRelations = () =>
+      syncFilmNormalizedMetadata(supabaseAdmin, row.id, {
+        people: detail.people.length > 0 ? detail.people : null,
+        genres: detail.genreItems.length > 0 ? detail.genreItems : null,
+      });
+  } else {
+    const detail = await getIgdbGameDetails(row.external_id);
+    if (!detail) {
+      throw new Error("Гру не знайдено в IGDB.");
+    }
+
+    next = {
+      ...current,
+      imdb_rating:
+        typeof detail.rating === "number" ? detail.rating.toFixed(1) : row.imdb_rating,
+      poster_url: pickFresh(detail.poster, row.poster_url),
+      genres: pickFresh(detail.genres, row.genres),
+      trailers: detail.trailers && detail.trailers.length > 0 ? detail.trailers : row.trailers,
+    };
+    fetchedCounts = {
+      peopleLinks: relatedBefore.peopleLinks,
+      genreLinks:
+        detail.genreItems.length > 0 ? detail.genreItems.length : relatedBefore.genreLinks,
+    };
+    syncRelations = async () => {
+      if (detail.genreItems.length > 0) {
+        await syncGameNormalizedGenres(supabaseAdmin, row.id, detail.genreItems);
+      }
+      if (detail.companyItems.length > 0) {
+        await syncGameNormalizedCompanies(supabaseAdmin, row.id, detail.companyItems);
+      }
+    };
+  }
+
+  if (dryRun) {
+    const changes = diffItemMetadata(
+      { ...current, ...relatedBefore },
+      { ...next, ...fetchedCounts },
+    );
+    return { status: Object.keys(changes).length > 0 ? "updated" : "unchanged", changes };
+  }
+
+  await syncRelations();
+  const { error: updateError } = await supabaseAdmin
+    .from("items")
+    .update({ ...next, metadata_refreshed_at: new Date().toISOString() })
+    .eq("id", row.id);
+
+  if (updateError) {
+    throw new Error(updateError.message || "Не вдалося оновити запис каталогу.");
+  }
+
+  const [peopleAfter, genresAfter] = await Promise.all([
+    loadRelatedItemCounts(supabaseAdmin, "item_people", [row.id]),
+    loadRelatedItemCounts(supabaseAdmin, "item_genres", [row.id]),
+  ]);
+  const changes = diffItemMetadata(
+    { ...current, ...relatedBefore },
+    {
+      ...next,
+      peopleLinks: peopleAfter.get(row.id) ?? 0,
+      genreLinks: genresAfter.get(row.id) ?? 0,
+    },
+  );
+  return { status: Object.keys(changes).length > 0 ? "updated" : "unchanged", changes };
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Refreshes the items whose metadata is oldest (never-refreshed first), one at
+ * a time with a pause between them to stay under TMDB/OMDb/IGDB rate limits.
+ * Every attempt is logged to `item_metadata_refresh_events`; failed items are
+ * stamped too so a title the source no longer knows does not block the queue.
+ */
+export const refreshStaleItemMetadata = async ({
+  supabaseAdmin,
+  limit,
+  staleBefore,
+  requestIntervalMs,
+  dryRun,
+}: {
+  supabaseAdmin: SupabaseAdmin;
+  limit: number;
+  staleBefore: string;
+  requestIntervalMs: number;
+  dryRun: boolean;
+}) => {
+  const { data, error } = await supabaseAdmin
+    .from("items")
+    .select(METADATA_REFRESH_ITEM_COLUMNS)
+    .in("type", ["film", "game"])
+    .not("external_id", "is", null)
+    .or(`metadata_refreshed_at.is.null,metadata_refreshed_at.lt.${staleBefore}`)
+    .order("metadata_refreshed_at", { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(error.message || "Не вдалося завантажити застарілі записи.");
+  }
+
+  const rows = (data ?? []) as MetadataRefreshItemRow[];
+  const itemIds = rows.map((row) => row.id);
+  const [peopleBefore, genresBefore] = await Promise.all([
+    loadRelatedItemCounts(supabaseAdmin, "item_people", itemIds),
+    loadRelatedItemCounts(supabaseAdmin, "item_genres", itemIds),
+  ]);
+  const results: MetadataRefreshResult[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    if (index > 0) {
+      await wait(requestIntervalMs);
+    }
+
+    let result: MetadataRefreshResult;
+    try {
+      result = {
+        itemId: row.id,
+        ...(await refreshItem({
+          supabaseAdmin,
+          row,
+          relatedBefore: {
+            peopleLinks: peopleBefore.get(row.id) ?? 0,
+            genreLinks: genresBefore.get(row.id) ?? 0,
+          },
+          dryRun,
+        })),
+      };
+    } catch (refreshError) {
+      result = {
+        itemId: row.id,
+        status: "failed",
+        changes: {},
+        reason:
+          refreshError instanceof Error ? refreshError.message : "Metadata refresh failed.",
+      };
+      if (!dryRun) {
+        await supabaseAdmin
+          .from("items")
+          .update({ metadata_refreshed_at: new Date().toISOString() })
+          .eq("id", row.id);
+      }
+    }
+
+    if (!dryRun) {
+      await supabaseAdmin.from("item_metadata_refresh_events").insert({
+        item_id: row.id,
+        status: result.status,
+        changes: result.changes,
+        error: result.reason ?? null,
+      });
+    }
+    results.push(result);
+  }
+
+  return results;
+};
+
+type TvStructureItemRow = {
+  id: string;
+  external_id: string;
+  tv_seasons: unknown;
+  tv_last_aired_episode: unknown;
+};
+
+const formatLastAired = (value: unknown) => {
+  const episode = normalizeTvLastAiredEpisode(value);
+  return episode ? `S${episode.seasonNumber}E${episode.episodeNumber}` : null;
+};
+
+/**
+ * Re-reads the season structure of series whose `tv_structure_synced_at` is
+ * older than `staleBefore`, so "new episode" badges appear without anyone
+ * opening the series first. Only the structure columns are written.
+ */
+export const refreshStaleTvStructures = async ({
+  supabaseAdmin,
+  limit,
+  staleBefore,
+  requestIntervalMs,
+  dryRun,
+}: {
+  supabaseAdmin: SupabaseAdmin;
+  limit: number;
+  staleBefore: string;
+  requestIntervalMs: number;
+  dryRun: boolean;
+}) => {
+  const { data, error } = await supabaseAdmin
+    .from("items")
+    .select("id, external_id, tv_seasons, tv_last_aired_episode")
+    .eq("type", "film")
+    .eq("film_media_type", "tv")
+    .not("external_id", "is", null)
+    .or(`tv_structure_synced_at.is.null,tv_structure_synced_at.lt.${staleBefore}`)
+    .order("tv_structure_synced_at", { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(error.message || "Не вдалося завантажити серіали.");
+  }
+
+  const results: MetadataRefreshResult[] = [];
+  for (const [index, row] of ((data ?? []) as TvStructureItemRow[]).entries()) {
+    if (index > 0) {
+      await wait(requestIntervalMs);
+    }
+
+    try {
+      const structure = await getTmdbTvStructure(row.external_id);
+      if (!structure) {
+        throw new Error("Серіал не знайдено у TMDB.");
+      }
+      const seasons = normalizeTvSeasons(structure.tvSeasons);
+      const lastAired = normalizeTvLastAiredEpisode(structure.tvLastAiredEpisode);
+      const changes: MetadataRefreshChanges = {};
+      const episodesBefore = normalizeTvSeasons(row.tv_seasons).reduce(
+        (total, season) => total + season.episodeCount,
+        0,
+      );
+      const episodesAfter = seasons.reduce((total, season) => total + season.episodeCount, 0);
+      if (episodesBefore !== episodesAfter) {
+        changes.tv_seasons = { before: episodesBefore, after: episodesAfter };
+      }
+      if (formatLastAired(row.tv_last_aired_episode) !== formatLastAired(lastAired)) {
+        changes.tv_last_aired_episode = {
+          before: formatLastAired(row.tv_last_aired_episode),
+          after: formatLastAired(lastAired),
+        };
+      }
+
+      if (!dryRun) {
+        const { error: updateError } = await supabaseAdmin
+          .from("items")
+          .update({
+            tv_seasons: seasons,
+            tv_last_aired_episode: lastAired,
+            tv_structure_synced_at: new Date().toISOString(),
+          })
+          .eq("id", row.id);
+        if (updateError) {
+          throw new Error(updateError.message || "Не вдалося зберегти сезони.");
+        }
+      }
+      results.push({
+        itemId: row.id,
+        status: Object.keys(changes).length > 0 ? "updated" : "unchanged",
+        changes,
+      });
+    } catch (refreshError) {
+      // Stamped like failed metadata refreshes so one broken series does not block the queue.
+      if (!dryRun) {
+        await supabaseAdmin
+          .from("items")
+          .update({ tv_structure_synced_at: new Date().toISOString() })
+          .eq("id", row.id);
+      }
+      results.push({
+        itemId: row.id,
+        status: "failed",
+        changes: {},
+        reason:
+          refreshError instanceof Error ? refreshError.message : "TV structure refresh failed.",
+      });
+    }
+  }
+
+  return results;
+};
@@ -3,32 +3,49 @@ import type { SupabaseClient } from "@supabase/supabase-js";
 type RelatedItemsTable = "item_genres" | "item_people";
 
 const RELATION_QUERY_BATCH_SIZE = 150;
+const RELATION_PAGE_SIZE = 1000;
 
-export const loadRelatedItemIds = async (
+// Full casts easily exceed the API row limit, so each chunk is paged.
+const forEachRelatedItemId = async (
   supabase: SupabaseClient,
   table: RelatedItemsTable,
   itemIds: string[],
+  visit: (itemId: string) => void,
 ) => {
-  const relatedItemIds = new Set<string>();
-
   for (let offset = 0; offset < itemIds.length; offset += RELATION_QUERY_BATCH_SIZE) {
     const chunk = itemIds.slice(offset, offset + RELATION_QUERY_BATCH_SIZE);
     if (chunk.length === 0) {
       continue;
     }
 
-    const { data, error } = await supabase.from(table).select("item_id").in("item_id", chunk);
-    if (error) {
-      throw error;
-    }
-
-    ((data ?? []) as Array<{ item_id?: string | null }>).forEach((row) => {
-      if (row.item_id) {
-        relatedItemIds.add(row.item_id);
+    for (let from = 0; ; from += RELATION_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select("item_id")
+        .in("item_id", chunk)
+        .order("id", { ascending: true })
+        .range(from, from + RELATION_PAGE_SIZE - 1);
+      if (error) {
+        throw error;
       }
-    });
+
+      ((data ?? []) as Array<{ item_id?: string | null }>).forEach((row) => {
+        if (row.item_id) {
+          visit(row.item_id);
+        }
+      });
+      if (!data || data.length < RELATION_PAGE_SIZE) break;
+    }
   }
+};
 
+export const loadRelatedItemIds = async (
+  supabase: SupabaseClient,
+  table: RelatedItemsTable,
+  itemIds: string[],
+) => {
+  const relatedItemIds = new Set<string>();
+  await forEachRelatedItemId(supabase, table, itemIds, (itemId) => relatedItemIds.add(itemId));
   return relatedItemIds;
 };
 
@@ -38,24 +55,8 @@ export const loadRelatedItemCounts = async (
   itemIds: string[],
 ) => {
   const relatedItemCounts = new Map<string, number>();
-
-  for (let offset = 0; offset < itemIds.length; offset += RELATION_QUERY_BATCH_SIZE) {
-    const chunk = itemIds.slice(offset, offset + RELATION_QUERY_BATCH_SIZE);
-    if (chunk.length === 0) {
-      continue;
-    }
-
-    const { data, error } = await supabase.from(table).select("item_id").in("item_id", chunk);
-    if (error) {
-      throw error;
-    }
-
-    ((data ?? []) as Array<{ item_id?: string | null }>).forEach((row) => {
-      if (row.item_id) {
-        relatedItemCounts.set(row.item_id, (relatedItemCounts.get(row.item_id) ?? 0) + 1);
-      }
-    });
-  }
-
+  await forEachRelatedItemId(supabase, table, itemIds, (itemId) =>
+    relatedItemCounts.set(itemId, (relatedItemCounts.get(itemId) ?? 0) + 1),
+  );
   return relatedItemCounts;
 };
@@ -0,0 +1,28 @@
+/** The IMDb rating OMDb reports for an IMDb id, or "" when it has none. */
+export const getOmdbImdbRating = async (imdbId: string) => {
+  const apiKey = process.env.OMDB_API_KEY;
+  if (!apiKey) {
+    throw new Error("Missing OMDB_API_KEY.");
+  }
+
+  const detailUrl = new URL("https://www.omdbapi.com/");
+  detailUrl.searchParams.set("apikey", apiKey);
+  detailUrl.searchParams.set("i", imdbId);
+
+  const response = await fetch(detailUrl.toString());
+  if (!response.ok) {
+    throw new Error(`OMDb request failed with status ${response.status}.`);
+  }
+
+  const data = (await response.json()) as {
+    imdbRating?: string;
+    Response?: "True" | "False";
+    Error?: string;
+  };
+  if (data.Response === "False") {
+    throw new Error(data.Error ?? "OMDb error.");
+  }
+
+  const rating = data.imdbRating?.trim() ?? "";
+  return rating && rating !== "N/A" ? rating : "";
+};
@@ -24,6 +24,7 @@ describe("recommendation diagnostics", () => {
       keptCount: 1,
       filteredKnownCount: 2,
       filteredDuplicateCount: 1,
+      filteredFeedbackCount: 0,
     });
   });
 
@@ -36,6 +37,7 @@ describe("recommendation diagnostics", () => {
         keptCount: 0,
         filteredKnownCount: 0,
         filteredDuplicateCount: 0,
+        filteredFeedbackCount: 0,
       },
       {
         label: "Спроба 2 (retry prompt)",
@@ -44,6 +46,7 @@ describe("recommendation diagnostics", () => {
         keptCount: 0,
         filteredKnownCount: 2,
         filteredDuplicateCount: 1,
+        filteredFeedbackCount: 0,
       },
     ]);
 
@@ -52,4 +55,24 @@ describe("recommendation diagnostics", () => {
     expect(message).toContain("дублікати у відповіді моделі: 1");
     expect(message).toContain("Спроба 1 (базовий prompt): модель не повернула жодного коректно розпарсеного кандидата");
   });
+
+  it("counts candidates excluded by earlier feedback", () => {
+    const result = filterRecommendationsWithStats(
+      [
+        { title: "Heat", year: "1995" },
+        { title: "Thief", year: "1981" },
+      ],
+      new Set(["heat"]),
+      (value) => value.toLowerCase(),
+      new Set(["heat", "thief (1981)"]),
+    );
+
+    expect(result.recommendations).toEqual([]);
+    expect(result.stats).toMatchObject({ filteredFeedbackCount: 2, filteredKnownCount: 0 });
+    expect(
+      buildRecommendationFailureMessage([
+        { label: "Спроба 1", requestedCount: 2, ...result.stats },
+      ]),
+    ).toContain("відхилені за відгуком: 2");
+  });
 });
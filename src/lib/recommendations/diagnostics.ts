@@ -8,6 +8,8 @@ export type RecommendationFilterStats = {
   keptCount: number;
   filteredKnownCount: number;
   filteredDuplicateCount: number;
+  /** Candidates the user already marked "not interested" / "already seen" / "added". */
+  filteredFeedbackCount: number;
 };
 
 export type RecommendationAttemptDiagnostics = RecommendationFilterStats & {
@@ -15,28 +17,69 @@ export type RecommendationAttemptDiagnostics = RecommendationFilterStats & {
   requestedCount: number;
 };
 
+export type RecommendationVerdict = "kept" | "feedback" | "known" | "duplicate";
+
+/** Whether the title (with or without its year) is already in the collection. */
+export const isKnownRecommendation = (
+  entry: RecommendationCandidate,
+  knownTitles: Set<string>,
+  normalizeTitle: (value: string) => string,
+) =>
+  knownTitles.has(normalizeTitle(entry.title)) ||
+  knownTitles.has(normalizeTitle(`${entry.title} (${entry.year})`));
+
+/**
+ * Checks one candidate against earlier feedback, the collection and the
+ * candidates kept so far; records kept titles in `seen`.
+ */
+export const classifyRecommendation = (
+  entry: RecommendationCandidate,
+  knownTitles: Set<string>,
+  seen: Set<string>,
+  normalizeTitle: (value: string) => string,
+  feedbackTitles: Set<string> = new Set(),
+): RecommendationVerdict => {
+  const normalizedTitle = normalizeTitle(entry.title);
+  const normalizedWithYear = normalizeTitle(`${entry.title} (${entry.year})`);
+  if (feedbackTitles.has(normalizedTitle) || feedbackTitles.has(normalizedWithYear)) {
+    return "feedback";
+  }
+  if (isKnownRecommendation(entry, knownTitles, normalizeTitle)) {
+    return "known";
+  }
+  if (seen.has(normalizedTitle)) {
+    return "duplicate";
+  }
+  seen.add(normalizedTitle);
+  return "kept";
+};
+
 export const filterRecommendationsWithStats = <T extends RecommendationCandidate>(
   recommendations: T[],
   knownTitles: Set<string>,
   normalizeTitle: (value: string) => string,
+  feedbackTitles?: Set<string>,
 ): { recommendations: T[]; stats: RecommendationFilterStats } => {
   const seen = new Set<string>();
   const kept: T[] = [];
   let filteredKnownCount = 0;
   let filteredDuplicateCount = 0;
+  let filteredFeedbackCount = 0;
 
   recommendations.forEach((entry) => {
-    const normalizedTitle = normalizeTitle(entry.title);
-    const normalizedWithYear = normalizeTitle(`${entry.title} (${entry.year})`);
-    if (knownTitles.has(normalizedTitle) || knownTitles.has(normalizedWithYear)) {
+    const verdict = classifyRecommendation(entry, knownTitles, seen, normalizeTitle, feedbackTitles);
+    if (verdict === "feedback") {
+      filteredFeedbackCount += 1;
+      return;
+    }
+    if (verdict === "known") {
       filteredKnownCount += 1;
       return;
     }
-    if (seen.has(normalizedTitle)) {
+    if (verdict === "duplicate") {
       filteredDuplicateCount += 1;
       return;
     }
-    seen.add(normalizedTitle);
     kept.push(entry);
   });
 
@@ -47,10 +90,21 @@ export const filterRecommendationsWithStats = <T extends RecommendationCandidate
       keptCount: kept.length,
       filteredKnownCount,
       filteredDuplicateCount,
+      filteredFeedbackCount,
     },
   };
 };
 
+export const formatRecommendationList = (
+  recommendations: Array<RecommendationCandidate & { type: string; why: string }>,
+) =>
+  recommendations
+    .map(
+      (entry, index) =>
+        `${index + 1}. ${entry.title} (${entry.year}) — type: ${entry.type}\nWhy it fits: ${entry.why}`,
+    )
+    .join("\n\n");
+
 const formatAttemptLine = (attempt: RecommendationAttemptDiagnostics) => {
   if (attempt.parsedCount === 0) {
     return `${attempt.label}: модель не повернула жодного коректно розпарсеного кандидата у потрібному форматі.`;
@@ -64,6 +118,9 @@ const formatAttemptLine = (attempt: RecommendationAttemptDiagnostics) => {
     attempt.filteredDuplicateCount > 0
       ? `відсіяно як дублікати всередині відповіді: ${attempt.filteredDuplicateCount}`
       : null,
+    attempt.filteredFeedbackCount > 0
+      ? `відхилені раніше за відгуком: ${attempt.filteredFeedbackCount}`
+      : null,
     attempt.keptCount > 0 ? `придатні кандидати після фільтрації: ${attempt.keptCount}` : null,
   ].filter((value): value is string => Boolean(value));
 
@@ -76,6 +133,7 @@ export const buildRecommendationFailureMessage = (
   const totalParsed = attempts.reduce((sum, attempt) => sum + attempt.parsedCount, 0);
   const totalKnown = attempts.reduce((sum, attempt) => sum + attempt.filteredKnownCount, 0);
   const totalDuplicates = attempts.reduce((sum, attempt) => sum + attempt.filteredDuplicateCount, 0);
+  const totalFeedback = attempts.reduce((sum, attempt) => sum + attempt.filteredFeedbackCount, 0);
   const totalKept = attempts.reduce((sum, attempt) => sum + attempt.keptCount, 0);
 
   const summary =
@@ -88,6 +146,7 @@ export const buildRecommendationFailureMessage = (
   const totals = [
     totalKnown > 0 ? `вже відомі/наявні в колекції: ${totalKnown}` : null,
     totalDuplicates > 0 ? `дублікати у відповіді моделі: ${totalDuplicates}` : null,
+    totalFeedback > 0 ? `відхилені за відгуком: ${totalFeedback}` : null,
   ].filter((value): value is string => Boolean(value));
 
   return [summary, totals.length > 0 ? `Підсумок фільтрації: ${totals.join(", ")}.` : null, ...attempts.map(formatAttemptLine)]
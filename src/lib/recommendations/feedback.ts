@@ -0,0 +1,171 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LlmCaller } from "@/lib/llm/usage";
+
+export type RecommendationMediaKind = "film" | "game";
+
+export type RecommendationFeedbackStatus = "new" | "not_interested" | "already_seen" | "added";
+
+export type RecommendationFeedbackEntry = {
+  title: string;
+  year: string;
+  status: Exclude<RecommendationFeedbackStatus, "new">;
+};
+
+export type StoredRecommendationCandidate = {
+  scopeValue: string;
+  title: string;
+  year: string;
+  type: string;
+  why: string;
+  /** Status of a newly stored candidate; `new` unless stated otherwise. */
+  status?: RecommendationFeedbackStatus;
+};
+
+type StoredRecommendationCandidateRow = {
+  scope_value: string;
+  title: string;
+  year: string;
+  candidate_type: string;
+  why: string;
+};
+
+const FEEDBACK_STATUSES: RecommendationFeedbackEntry["status"][] = [
+  "not_interested",
+  "already_seen",
+  "added",
+];
+
+/** At most this many marked titles go into a prompt; older feedback is dropped first. */
+const MAX_FEEDBACK_ENTRIES = 150;
+
+export const RECOMMENDATION_FEEDBACK_LABELS: Record<RecommendationFeedbackEntry["status"], string> = {
+  not_interested: "Не цікаво",
+  already_seen: "Вже бачив",
+  added: "Додано в плани",
+};
+
+export const buildRecommendationItemKey = (candidate: { title: string; year?: string | null }) =>
+  [
+    candidate.title.trim().toLocaleLowerCase("uk-UA").replace(/\s+/g, " "),
+    (candidate.year ?? "").trim(),
+  ].join("|");
+
+/** Titles the caller already reacted to, newest first. */
+export const loadRecommendationFeedback = async (
+  { supabaseAdmin, userId }: LlmCaller,
+  mediaKind: RecommendationMediaKind,
+): Promise<RecommendationFeedbackEntry[]> => {
+  const { data, error } = await supabaseAdmin
+    .from("recommendation_candidates")
+    .select("title, year, status")
+    .eq("user_id", userId)
+    .eq("media_kind", mediaKind)
+    .in("status", FEEDBACK_STATUSES)
+    .order("updated_at", { ascending: false })
+    .limit(MAX_FEEDBACK_ENTRIES);
+
+  if (error) {
+    return [];
+  }
+
+  return (data ?? []) as RecommendationFeedbackEntry[];
+};
+
+/**
+ * Records generated candidates with their `why`. Titles seen before keep their
+ * feedback status, so a repeated suggestion never resets "not interested".
+ */
+export const saveRecommendationCandidates = async (
+  { supabaseAdmin, userId }: LlmCaller,
+  mediaKind: RecommendationMediaKind,
+  candidates: StoredRecommendationCandidate[],
+) => {
+  if (candidates.length === 0) {
+    return;
+  }
+
+  await supabaseAdmin.from("recommendation_candidates").upsert(
+    candidates.map((candidate) => ({
+      user_id: userId,
+      media_kind: mediaKind,
+      scope_value: candidate.scopeValue,
+      item_key: buildRecommendationItemKey(candidate),
+      title: candidate.title,
+      year: candidate.year,
+      candidate_type: candidate.type,
+      why: candidate.why,
+      status: candidate.status ?? "new",
+    })),
+    { onConflict: "user_id,media_kind,item_key", ignoreDuplicates: true },
+  );
+};
+
+/** Candidates generated earlier that are still waiting for a reaction. */
+export const loadPendingRecommendationCandidates = async ({
+  supabase,
+  mediaKind,
+  limit = 12,
+}: {
+  supabase: SupabaseClient;
+  mediaKind: RecommendationMediaKind;
+  limit?: number;
+}): Promise<StoredRecommendationCandidate[]> => {
+  const { data, error } = await supabase
+    .from("recommendation_candidates")
+    .select("scope_value, title, year, candidate_type, why")
+    .eq("media_kind", mediaKind)
+    .eq("status", "new")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return [];
+  }
+
+  return ((data ?? []) as StoredRecommendationCandidateRow[]).map((row) => ({
+    scopeValue: row.scope_value,
+    title: row.title,
+    year: row.year,
+    type: row.candidate_type,
+    why: row.why,
+  }));
+};
+
+export const setRecommendationFeedback = async ({
+  supabase,
+  mediaKind,
+  candidate,
+  status,
+}: {
+  supabase: SupabaseClient;
+  mediaKind: RecommendationMediaKind;
+  candidate: StoredRecommendationCandidate;
+  status: RecommendationFeedbackEntry["status"];
+}) => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("Потрібна авторизація.");
+  }
+
+  const { error } = await supabase.from("recommendation_candidates").upsert(
+    {
+      user_id: user.id,
+      media_kind: mediaKind,
+      scope_value: candidate.scopeValue,
+      item_key: buildRecommendationItemKey(candidate),
+      title: candidate.title,
+      year: candidate.year,
+      candidate_type: candidate.type,
+      why: candidate.why,
+      status,
+    },
+    { onConflict: "user_id,media_kind,item_key" },
+  );
+
+  if (error) {
+    throw new Error("Не вдалося зберегти відгук.");
+  }
+};
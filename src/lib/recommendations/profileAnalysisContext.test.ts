@@ -2,6 +2,7 @@ import { describe, expect, it } from "vitest";
 import {
   buildFilmRecommendationProfileContext,
   buildGameRecommendationProfileContext,
+  buildRecommendationFeedbackContext,
 } from "@/lib/recommendations/profileAnalysisContext";
 
 describe("profileAnalysisContext", () => {
@@ -29,4 +30,17 @@ describe("profileAnalysisContext", () => {
     expect(context).toContain("Playstyle signals: Fast feedback loops");
     expect(context).toContain("Genre signals: none");
   });
+
+  it("lists feedback exclusions by reaction", () => {
+    expect(buildRecommendationFeedbackContext([])).toBe("");
+
+    const context = buildRecommendationFeedbackContext([
+      { title: "Heat", year: "1995", status: "not_interested" },
+      { title: "Alien", year: "", status: "already_seen" },
+    ]);
+
+    expect(context).toContain("Rejected earlier as not interesting: Heat (1995)");
+    expect(context).toContain("Already seen outside the collection: Alien");
+    expect(context).toContain("Already added to plans: none");
+  });
 });
@@ -2,6 +2,7 @@ import type {
   FilmProfileSystemLayer,
   GameProfileSystemLayer,
 } from "@/lib/profile-analysis/types";
+import type { RecommendationFeedbackEntry } from "@/lib/recommendations/feedback";
 
 type FilmRecommendationProfileAnalysis = {
   systemProfile: FilmProfileSystemLayer;
@@ -124,3 +125,25 @@ Contradictions: ${formatList(asStringArray(systemProfile.contradictions))}
 Treat this active-scope profile analysis as the primary signal layer for recommendations when it is present.
 === PROFILE ANALYSIS END ===`.trim();
 };
+
+const formatFeedbackTitles = (
+  entries: RecommendationFeedbackEntry[],
+  status: RecommendationFeedbackEntry["status"],
+) =>
+  formatList(
+    entries
+      .filter((entry) => entry.status === status)
+      .map((entry) => (entry.year ? `${entry.title} (${entry.year})` : entry.title)),
+  );
+
+export const buildRecommendationFeedbackContext = (entries: RecommendationFeedbackEntry[]) => {
+  if (entries.length === 0) return "";
+
+  return `
+=== RECOMMENDATION FEEDBACK START ===
+Rejected earlier as not interesting: ${formatFeedbackTitles(entries, "not_interested")}
+Already seen outside the collection: ${formatFeedbackTitles(entries, "already_seen")}
+Already added to plans: ${formatFeedbackTitles(entries, "added")}
+Never recommend any of these titles again. Treat "rejected" titles as weak negative taste signals.
+=== RECOMMENDATION FEEDBACK END ===`.trim();
+};
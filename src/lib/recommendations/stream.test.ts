@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  createRecommendationBlockReader,
+  formatRecommendationStreamEvent,
+  parseRecommendationStreamEvents,
+  readRecommendationStream,
+  type RecommendationStreamEvent,
+} from "@/lib/recommendations/stream";
+import { createRecommendationEventStream } from "@/lib/recommendations/streamResponse";
+
+type Candidate = { title: string; year: string; type: string; why: string };
+
+const parseBlock = (block: string): Candidate[] => {
+  const match = block.match(/^\d+\.\s*(.*?) \((\d{4})\)\nWhy it fits: ([\s\S]+)$/);
+  return match ? [{ title: match[1], year: match[2], type: "movie", why: match[3].trim() }] : [];
+};
+
+const toStream = async function* (chunks: string[]) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+};
+
+describe("recommendation stream", () => {
+  it("releases numbered blocks only once the next one starts", () => {
+    const reader = createRecommendationBlockReader();
+
+    expect(reader.push("1. Heat (1995)\nWhy it fits: напруга")).toEqual([]);
+    expect(reader.push("\n2")).toEqual([]);
+    expect(reader.push(". Alien (1979)\nWhy")).toEqual(["1. Heat (1995)\nWhy it fits: напруга"]);
+    expect(reader.flush()).toEqual(["2. Alien (1979)\nWhy"]);
+    expect(reader.flush()).toEqual([]);
+  });
+
+  it("round-trips events through the SSE encoding", () => {
+    const events: RecommendationStreamEvent[] = [
+      { type: "attempt", label: "Спроба 1" },
+      { type: "candidate", recommendation: { title: "Heat", year: "1995" } },
+    ];
+    const encoded = events.map(formatRecommendationStreamEvent).join("");
+
+    expect(parseRecommendationStreamEvents(encoded)).toEqual({ events, rest: "" });
+    expect(parseRecommendationStreamEvents(encoded.slice(0, -5)).events).toEqual([events[0]]);
+  });
+
+  it("emits filtered candidates as they arrive and retries until the minimum is met", async () => {
+    const prompts: string[] = [];
+    const parsedTitles: string[] = [];
+    const stream = createRecommendationEventStream<Candidate>({
+      attempts: [
+        { label: "Спроба 1", requestedCount: 3, prompt: "first" },
+        { label: "Спроба 2", requestedCount: 5, prompt: "second" },
+      ],
+      minimumCount: 2,
+      outputCount: 3,
+      knownTitles: new Set(["alien"]),
+      normalizeTitle: (value) => value.toLowerCase().replace(/\s*\(\d{4}\)/, ""),
+      parse: parseBlock,
+      streamCompletion: (prompt) => {
+        prompts.push(prompt);
+        return prompt === "first"
+          ? toStream(["1. Heat (1995)\nWhy it fits: a", "\n2. Alien (1979)\nWhy it fits: b"])
+          : toStream(["1. Heat (1995)\nWhy it fits: c\n2. Thief (1981)\nWhy it fits: d"]);
+      },
+      onParsed: async (entries) => {
+        parsedTitles.push(...entries.map((entry) => entry.title));
+      },
+      fallbackErrorMessage: "fallback",
+    });
+
+    const received: string[] = [];
+    const result = await readRecommendationStream<Candidate>(new Response(stream), (event) => {
+      received.push(event.type === "candidate" ? event.recommendation.title : event.type);
+    });
+
+    expect(prompts).toEqual(["first", "second"]);
+    expect(received).toEqual(["attempt", "Heat", "attempt", "Thief", "done"]);
+    expect(parsedTitles).toEqual(["Heat", "Alien", "Heat", "Thief"]);
+    expect(result).toMatchObject({
+      type: "done",
+      recommendations: [{ title: "Heat" }, { title: "Thief" }],
+    });
+  });
+
+  it("reports model failures as an error event", async () => {
+    const stream = createRecommendationEventStream<Candidate>({
+      attempts: [{ label: "Спроба 1", requestedCount: 3, prompt: "first" }],
+      minimumCount: 1,
+      outputCount: 3,
+      knownTitles: new Set(),
+      normalizeTitle: (value) => value,
+      parse: parseBlock,
+      streamCompletion: async function* () {
+        yield* [];
+        throw new Error("Модель недоступна.");
+      },
+      fallbackErrorMessage: "fallback",
+    });
+
+    await expect(readRecommendationStream(new Response(stream), () => undefined)).resolves.toEqual({
+      type: "error",
+      error: "Модель недоступна.",
+      code: null,
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import type { RecommendationCandidate } from "@/lib/recommendations/diagnostics";
+
+export type RecommendationStreamEvent<T extends RecommendationCandidate = RecommendationCandidate> =
+  | { type: "attempt"; label: string }
+  | { type: "candidate"; recommendation: T }
+  | { type: "done"; message: string; recommendations: T[] }
+  | { type: "error"; error: string; code: string | null };
+
+const RECOMMENDATION_BLOCK_START = /\n(?=\s*\d+[.)]\s+)/;
+const STREAM_EVENT_TYPES = new Set(["attempt", "candidate", "done", "error"]);
+
+export const formatRecommendationStreamEvent = ({
+  type,
+  ...data
+}: RecommendationStreamEvent) => `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/** Splits an SSE buffer into complete events; `rest` is the unfinished tail to prepend to the next chunk. */
+export const parseRecommendationStreamEvents = <T extends RecommendationCandidate>(
+  buffer: string,
+): { events: RecommendationStreamEvent<T>[]; rest: string } => {
+  const chunks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = chunks.pop() ?? "";
+  const events = chunks.flatMap((chunk) => {
+    const lines = chunk.split("\n");
+    const type = lines.find((line) => line.startsWith("event:"))?.slice(6).trim();
+    const data = lines
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trim())
+      .join("\n");
+    if (!type || !STREAM_EVENT_TYPES.has(type) || !data) {
+      return [];
+    }
+    try {
+      return [{ type, ...(JSON.parse(data) as object) } as RecommendationStreamEvent<T>];
+    } catch {
+      return [];
+    }
+  });
+  return { events, rest };
+};
+
+/**
+ * Collects streamed model text into numbered list blocks ("1. Title (Year) — type: …").
+ * A block is released once the next one starts, so it is never parsed half-written.
+ */
+export const createRecommendationBlockReader = () => {
+  let buffer = "";
+
+  return {
+    push: (delta: string) => {
+      buffer += delta.replace(/\r\n/g, "\n");
+      const blocks = buffer.split(RECOMMENDATION_BLOCK_START);
+      buffer = blocks.pop() ?? "";
+      return blocks.map((block) => block.trim()).filter(Boolean);
+    },
+    flush: () => {
+      const block = buffer.trim();
+      buffer = "";
+      return block ? [block] : [];
+    },
+  };
+};
+
+/**
+ * Reads a `text/event-stream` recommendation response, forwarding every event
+ * to `onEvent`, and resolves with the closing `done` or `error` event.
+ */
+export const readRecommendationStream = async <T extends RecommendationCandidate>(
+  response: Response,
+  onEvent: (event: RecommendationStreamEvent<T>) => void,
+): Promise<Extract<RecommendationStreamEvent<T>, { type: "done" | "error" }>> => {
+  if (!response.body) {
+    return { type: "error", error: "Порожня відповідь сервера.", code: null };
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? "\n\n" : value;
+    const parsed = parseRecommendationStreamEvents<T>(buffer);
+    buffer = parsed.rest;
+
+    for (const event of parsed.events) {
+      onEvent(event);
+      if (event.type === "done" || event.type === "error") {
+        await reader.cancel().catch(() => undefined);
+        return event;
+      }
+    }
+
+    if (done) {
+      return { type: "error", error: "Потік рекомендацій обірвався.", code: null };
+    }
+  }
+};
@@ -0,0 +1,154 @@
+import { getLlmErrorResponse } from "@/lib/llm/client";
+import {
+  buildRecommendationFailureMessage,
+  classifyRecommendation,
+  formatRecommendationList,
+  type RecommendationAttemptDiagnostics,
+  type RecommendationCandidate,
+} from "@/lib/recommendations/diagnostics";
+import {
+  createRecommendationBlockReader,
+  formatRecommendationStreamEvent,
+  type RecommendationStreamEvent,
+} from "@/lib/recommendations/stream";
+
+export type RecommendationStreamAttempt = {
+  label: string;
+  requestedCount: number;
+  prompt: string;
+};
+
+type StreamableRecommendation = RecommendationCandidate & { type: string; why: string };
+
+/**
+ * Runs the recommendation attempts against a streaming model call and emits
+ * each candidate as soon as its list block is complete and passes the
+ * feedback/collection/duplicate filter. Later attempts run only while fewer
+ * than `minimumCount` candidates were kept; reading stops at `outputCount`.
+ * `onParsed` receives every parsed entry, filtered or not, before any of them
+ * is sent, so a candidate is stored by the time the client can react to it.
+ */
+export const createRecommendationEventStream = <T extends StreamableRecommendation>({
+  attempts,
+  minimumCount,
+  outputCount,
+  knownTitles,
+  feedbackTitles,
+  normalizeTitle,
+  parse,
+  streamCompletion,
+  onParsed,
+  fallbackErrorMessage,
+}: {
+  attempts: RecommendationStreamAttempt[];
+  minimumCount: number;
+  outputCount: number;
+  knownTitles: Set<string>;
+  feedbackTitles?: Set<string>;
+  normalizeTitle: (value: string) => string;
+  parse: (block: string) => T[];
+  streamCompletion: (prompt: string) => AsyncIterable<string>;
+  onParsed?: (entries: T[]) => Promise<void>;
+  fallbackErrorMessage: string;
+}) => {
+  const encoder = new TextEncoder();
+  let isCancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: RecommendationStreamEvent<T>) => {
+        if (!isCancelled) {
+          controller.enqueue(encoder.encode(formatRecommendationStreamEvent(event)));
+        }
+      };
+      const seen = new Set<string>();
+      const kept: T[] = [];
+      const diagnostics: RecommendationAttemptDiagnostics[] = [];
+
+      try {
+        for (const attempt of attempts) {
+          if (isCancelled || kept.length >= minimumCount) break;
+          send({ type: "attempt", label: attempt.label });
+
+          const stats = {
+            parsedCount: 0,
+            keptCount: 0,
+            filteredKnownCount: 0,
+            filteredDuplicateCount: 0,
+            filteredFeedbackCount: 0,
+          };
+          const reader = createRecommendationBlockReader();
+          const accept = async (blocks: string[]) => {
+            const entries = blocks.flatMap(parse);
+            if (entries.length > 0) {
+              await onParsed?.(entries);
+            }
+            for (const entry of entries) {
+              if (kept.length >= outputCount) break;
+              stats.parsedCount += 1;
+              const verdict = classifyRecommendation(
+                entry,
+                knownTitles,
+                seen,
+                normalizeTitle,
+                feedbackTitles,
+              );
+              if (verdict === "feedback") {
+                stats.filteredFeedbackCount += 1;
+              } else if (verdict === "known") {
+                stats.filteredKnownCount += 1;
+              } else if (verdict === "duplicate") {
+                stats.filteredDuplicateCount += 1;
+              } else {
+                stats.keptCount += 1;
+                kept.push(entry);
+                send({ type: "candidate", recommendation: entry });
+              }
+            }
+            return kept.length >= outputCount;
+          };
+
+          let isFull = false;
+          for await (const delta of streamCompletion(attempt.prompt)) {
+            isFull = await accept(reader.push(delta));
+            if (isFull || isCancelled) break;
+          }
+          if (!isFull) {
+            await accept(reader.flush());
+          }
+
+          diagnostics.push({
+            label: attempt.label,
+            requestedCount: attempt.requestedCount,
+            ...stats,
+          });
+        }
+
+        send({
+          type: "done",
+          message:
+            kept.length > 0
+              ? formatRecommendationList(kept)
+              : buildRecommendationFailureMessage(diagnostics),
+          recommendations: kept,
+        });
+      } catch (error) {
+        const { error: message, code } = getLlmErrorResponse(error, fallbackErrorMessage);
+        send({ type: "error", error: message, code });
+      } finally {
+        if (!isCancelled) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      isCancelled = true;
+    },
+  });
+};
+
+export const RECOMMENDATION_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  "X-Accel-Buffering": "no",
+};
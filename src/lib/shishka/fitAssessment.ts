@@ -1,3 +1,5 @@
+import { extractJsonObject } from "@/lib/llm/client";
+
 export const SHISHKA_FIT_LABELS = [
   "Навряд",
   "Слабко",
@@ -21,6 +23,24 @@ const LEGACY_FIT_ASSESSMENT_PREFIX = "Шишка:";
 export const isShishkaFitLabel = (value: string): value is ShishkaFitLabel =>
   SHISHKA_FIT_LABELS.includes(value as ShishkaFitLabel);
 
+/** Position on the Навряд → Явно scale, or -1 for titles without a verdict. */
+export const getShishkaFitLabelRank = (label?: string | null) =>
+  label && isShishkaFitLabel(label) ? SHISHKA_FIT_LABELS.indexOf(label) : -1;
+
+/** Validates the `{"label","reason"}` answer requested by the fit-evaluation prompts. */
+export const parseShishkaFitAnswer = (content: string) => {
+  const parsed = JSON.parse(extractJsonObject(content)) as {
+    label?: unknown;
+    reason?: unknown;
+  };
+  const reason = typeof parsed.reason === "string" ? parsed.reason.trim() : "";
+  if (typeof parsed.label !== "string" || !isShishkaFitLabel(parsed.label) || !reason) {
+    throw new Error("Некоректний формат оцінки.");
+  }
+
+  return { label: parsed.label, reason };
+};
+
 export const formatShishkaAssessmentComment = ({
   label,
   reason,
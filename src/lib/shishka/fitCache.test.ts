@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { buildShishkaFitItemKey, getCachedShishkaFit } from "@/lib/shishka/fitCache";
+
+describe("shishka fit cache", () => {
+  it("builds the same item key for cosmetic title differences", () => {
+    expect(buildShishkaFitItemKey({ title: "  Dune:   Part Two ", year: 2024, mediaType: "movie" })).toBe(
+      buildShishkaFitItemKey({ title: "dune: part two", year: "2024", mediaType: "movie" }),
+    );
+    expect(buildShishkaFitItemKey({ title: "Dune", year: 2021, mediaType: "movie" })).not.toBe(
+      buildShishkaFitItemKey({ title: "Dune", year: 2021, mediaType: "tv" }),
+    );
+  });
+
+  it("evaluates directly without a caller or profile snapshot", async () => {
+    let calls = 0;
+    const evaluate = async () => {
+      calls += 1;
+      return { label: "Схоже" as const, reason: "Підходить." };
+    };
+    const key = { mediaKind: "film" as const, scopeValue: "Кіно", itemKey: "movie|dune|2021" };
+
+    await expect(
+      getCachedShishkaFit(null, { ...key, profileAnalyzedAt: "2026-05-01T00:00:00Z" }, evaluate),
+    ).resolves.toEqual({ answer: { label: "Схоже", reason: "Підходить." }, cached: false });
+    expect(calls).toBe(1);
+  });
+});
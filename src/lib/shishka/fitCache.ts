@@ -0,0 +1,104 @@
+import type { LlmCaller } from "@/lib/llm/usage";
+import type { ShishkaFitAssessment } from "@/lib/shishka/fitAssessment";
+
+export type ShishkaFitMediaKind = "film" | "game";
+
+export type ShishkaFitAnswer = Pick<ShishkaFitAssessment, "label" | "reason">;
+
+export type ShishkaFitCacheKey = {
+  mediaKind: ShishkaFitMediaKind;
+  scopeValue: string;
+  itemKey: string;
+  profileAnalyzedAt: string;
+};
+
+/**
+ * Stable identity of a title across the edit modal, catalog and batch jobs,
+ * which all send title/year rather than an item id.
+ */
+export const buildShishkaFitItemKey = (item: {
+  title: string;
+  year?: string | number | null;
+  mediaType?: "movie" | "tv" | null;
+}) =>
+  [
+    item.mediaType ?? "",
+    item.title.trim().toLocaleLowerCase("uk-UA").replace(/\s+/g, " "),
+    String(item.year ?? "").trim(),
+  ].join("|");
+
+export const readShishkaFitCache = async (
+  { supabaseAdmin, userId }: LlmCaller,
+  key: ShishkaFitCacheKey,
+): Promise<ShishkaFitAnswer | null> => {
+  const { data, error } = await supabaseAdmin
+    .from("shishka_fit_cache")
+    .select("label, reason")
+    .eq("user_id", userId)
+    .eq("media_kind", key.mediaKind)
+    .eq("scope_value", key.scopeValue)
+    .eq("item_key", key.itemKey)
+    .eq("profile_analyzed_at", key.profileAnalyzedAt)
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return { label: data.label, reason: data.reason };
+};
+
+/** Stores the verdict and drops ones made against older profile snapshots. */
+export const writeShishkaFitCache = async (
+  { supabaseAdmin, userId }: LlmCaller,
+  key: ShishkaFitCacheKey,
+  answer: ShishkaFitAnswer,
+) => {
+  await supabaseAdmin.from("shishka_fit_cache").upsert(
+    {
+      user_id: userId,
+      media_kind: key.mediaKind,
+      scope_value: key.scopeValue,
+      item_key: key.itemKey,
+      profile_analyzed_at: key.profileAnalyzedAt,
+      label: answer.label,
+      reason: answer.reason,
+    },
+    { onConflict: "user_id,media_kind,scope_value,item_key,profile_analyzed_at" },
+  );
+
+  await supabaseAdmin
+    .from("shishka_fit_cache")
+    .delete()
+    .eq("user_id", userId)
+    .eq("media_kind", key.mediaKind)
+    .eq("scope_value", key.scopeValue)
+    .eq("item_key", key.itemKey)
+    .neq("profile_analyzed_at", key.profileAnalyzedAt);
+};
+
+/**
+ * Returns the cached verdict for this item and profile snapshot, or runs
+ * `evaluate` and caches its answer. Without a caller (accounting disabled)
+ * or a snapshot timestamp nothing is cached.
+ */
+export const getCachedShishkaFit = async (
+  caller: LlmCaller | null,
+  key: Omit<ShishkaFitCacheKey, "profileAnalyzedAt"> & { profileAnalyzedAt?: string | null },
+  evaluate: () => Promise<ShishkaFitAnswer>,
+) => {
+  const profileAnalyzedAt = key.profileAnalyzedAt?.trim();
+  if (!caller || !profileAnalyzedAt) {
+    return { answer: await evaluate(), cached: false };
+  }
+
+  const cacheKey = { ...key, profileAnalyzedAt };
+  const cached = await readShishkaFitCache(caller, cacheKey);
+  if (cached) {
+    return { answer: cached, cached: true };
+  }
+
+  const answer = await evaluate();
+  await writeShishkaFitCache(caller, cacheKey, answer);
+  return { answer, cached: false };
+};
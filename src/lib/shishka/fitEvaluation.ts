@@ -0,0 +1,147 @@
+import { createStructuredChatCompletion, type LlmUsageHandler } from "@/lib/llm/client";
+import { getOpenAiRecommendationModel } from "@/lib/openai/models";
+import type {
+  FilmProfileSystemLayer,
+  FilmProfileUserLayer,
+  GameProfileSystemLayer,
+  GameProfileUserLayer,
+} from "@/lib/profile-analysis/types";
+import {
+  buildFilmRecommendationProfileContext,
+  buildGameRecommendationProfileContext,
+} from "@/lib/recommendations/profileAnalysisContext";
+import { parseShishkaFitAnswer } from "@/lib/shishka/fitAssessment";
+
+export type FilmFitEvaluationProfile = {
+  userProfile: FilmProfileUserLayer;
+  systemProfile: FilmProfileSystemLayer;
+  sourceTitlesCount?: number;
+  analyzedAt?: string;
+};
+
+export type GameFitEvaluationProfile = {
+  userProfile: GameProfileUserLayer;
+  systemProfile: GameProfileSystemLayer;
+  sourceTitlesCount?: number;
+  analyzedAt?: string;
+};
+
+export type FilmFitEvaluationItem = {
+  title: string;
+  year?: string | number | null;
+  mediaType?: "movie" | "tv" | null;
+  genres?: string | null;
+  director?: string | null;
+  actors?: string | null;
+  plot?: string | null;
+};
+
+export type GameFitEvaluationItem = {
+  title: string;
+  year?: string | number | null;
+  genres?: string | null;
+  description?: string | null;
+  platforms?: string[] | null;
+};
+
+const OPENAI_MODEL = getOpenAiRecommendationModel();
+
+const FIT_ANSWER_FORMAT = `Return JSON only in this shape:
+{"label":"Навряд|Слабко|Можливо|Схоже|Явно","reason":"1-2 concise sentences in Ukrainian"}
+
+Label meaning:
+- Навряд — strong mismatch
+- Слабко — weak fit
+- Можливо — mixed / uncertain fit
+- Схоже — likely fit
+- Явно — very strong fit`;
+
+const buildFilmFitPrompt = (
+  profileAnalysis: FilmFitEvaluationProfile,
+  scopeLabel: string,
+  item: FilmFitEvaluationItem,
+) => `${buildFilmRecommendationProfileContext(profileAnalysis, scopeLabel)}
+
+Evaluate how likely this title is to match the user's taste.
+
+${FIT_ANSWER_FORMAT}
+
+Rules:
+- Base the answer on the analyzed taste profile, not popularity.
+- Consider both positive fit signals and mismatch risk.
+- Keep the reason specific to this user's taste.
+- Do not write a plot summary.
+
+Title:
+- Назва: ${item.title}
+- Рік: ${item.year ?? "невідомо"}
+- Формат: ${item.mediaType === "tv" ? "Серіал" : "Фільм"}
+- Жанри: ${item.genres?.trim() || "невідомо"}
+- Режисер: ${item.director?.trim() || "невідомо"}
+- Актори: ${item.actors?.trim() || "невідомо"}
+- Опис: ${item.plot?.trim() || "немає опису"}`.trim();
+
+const buildGameFitPrompt = (
+  profileAnalysis: GameFitEvaluationProfile,
+  scopeLabel: string,
+  item: GameFitEvaluationItem,
+) => `${buildGameRecommendationProfileContext(profileAnalysis, scopeLabel)}
+
+Evaluate how likely this game is to fit the user's taste.
+
+${FIT_ANSWER_FORMAT}
+
+Rules:
+- Base the answer on the analyzed taste profile, not popularity.
+- Consider positive fit signals and mismatch risk.
+- Keep the reason specific to this user's taste.
+- Do not write a generic store description.
+
+Game:
+- Назва: ${item.title}
+- Рік: ${item.year ?? "невідомо"}
+- Жанри: ${item.genres?.trim() || "невідомо"}
+- Платформи: ${item.platforms?.join(", ") || scopeLabel}
+- Опис: ${item.description?.trim() || "немає опису"}`.trim();
+
+const requestFitAnswer = (prompt: string, onUsage: LlmUsageHandler | null) =>
+  createStructuredChatCompletion({
+    model: OPENAI_MODEL,
+    onUsage,
+    temperature: 0.2,
+    messages: [
+      {
+        role: "system",
+        content: "You are a precise taste-fit evaluator. Always return valid JSON only.",
+      },
+      {
+        role: "user",
+        content: prompt,
+      },
+    ],
+    parse: parseShishkaFitAnswer,
+  });
+
+export const evaluateFilmFit = ({
+  profileAnalysis,
+  scopeLabel,
+  item,
+  onUsage = null,
+}: {
+  profileAnalysis: FilmFitEvaluationProfile;
+  scopeLabel: string;
+  item: FilmFitEvaluationItem;
+  onUsage?: LlmUsageHandler | null;
+}) => requestFitAnswer(buildFilmFitPrompt(profileAnalysis, scopeLabel, item), onUsage);
+
+export const evaluateGameFit = ({
+  profileAnalysis,
+  scopeLabel,
+  item,
+  onUsage = null,
+}: {
+  profileAnalysis: GameFitEvaluationProfile;
+  scopeLabel: string;
+  item: GameFitEvaluationItem;
+  onUsage?: LlmUsageHandler | null;
+}) => requestFitAnswer(buildGameFitPrompt(profileAnalysis, scopeLabel, item), onUsage);
@@ -5,7 +5,10 @@ import type {
   GameProfileSystemLayer,
   GameProfileUserLayer,
 } from "@/lib/profile-analysis/types";
+import { getLlmRequestHeaders } from "@/lib/llm/requestHeaders";
 import type { ShishkaFitAssessment } from "@/lib/shishka/fitAssessment";
+import type { ShishkaFitMediaKind } from "@/lib/shishka/fitCache";
+import type { ShishkaFitJob } from "@/lib/shishka/fitJob";
 
 export type FilmFitProfileAnalysis = {
   userProfile: FilmProfileUserLayer;
@@ -88,9 +91,7 @@ export const requestFilmFitEvaluation = async (payload: {
 }) => {
   const response = await fetch("/api/openai/film-fit-evaluation", {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
+    headers: await getLlmRequestHeaders(),
     body: JSON.stringify(payload),
   });
   const data = (await response.json()) as {
@@ -123,9 +124,7 @@ export const requestGameFitEvaluation = async (payload: {
 }) => {
   const response = await fetch("/api/openai/game-fit-evaluation", {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
+    headers: await getLlmRequestHeaders(),
     body: JSON.stringify(payload),
   });
   const data = (await response.json()) as {
@@ -144,3 +143,31 @@ export const requestGameFitEvaluation = async (payload: {
     scopeValue: payload.scopeLabel,
   } satisfies ShishkaFitAssessment;
 };
+
+const readShishkaFitJobResponse = async (response: Response, fallbackMessage: string) => {
+  const data = (await response.json()) as { job?: ShishkaFitJob; error?: string };
+
+  if (!response.ok || !data.job) {
+    throw new Error(data.error ?? fallbackMessage);
+  }
+
+  return data.job;
+};
+
+/** Starts (or resumes) the background evaluation of all planned titles in a scope. */
+export const startShishkaFitJob = async (mediaKind: ShishkaFitMediaKind, scopeValue: string) => {
+  const response = await fetch("/api/openai/fit-evaluation-jobs", {
+    method: "POST",
+    headers: await getLlmRequestHeaders(),
+    body: JSON.stringify({ mediaKind, scopeValue }),
+  });
+  return readShishkaFitJobResponse(response, "Не вдалося запустити пакетну оцінку.");
+};
+
+export const fetchShishkaFitJob = async (jobId: string) => {
+  const response = await fetch(
+    `/api/openai/fit-evaluation-jobs?id=${encodeURIComponent(jobId)}`,
+    { headers: await getLlmRequestHeaders() },
+  );
+  return readShishkaFitJobResponse(response, "Не вдалося завантажити пакетну оцінку.");
+};
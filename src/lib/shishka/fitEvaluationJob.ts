@@ -0,0 +1,318 @@
+import { getLlmMaxCallDurationMs, LlmError } from "@/lib/llm/client";
+import { beginLlmUsage, type LlmCaller } from "@/lib/llm/usage";
+import {
+  buildShishkaFitItemKey,
+  getCachedShishkaFit,
+  type ShishkaFitMediaKind,
+} from "@/lib/shishka/fitCache";
+import { evaluateFilmFit, evaluateGameFit } from "@/lib/shishka/fitEvaluation";
+import {
+  getShishkaFitTargetScopeValue,
+  mapShishkaFitJob,
+  SHISHKA_FIT_ACTIVE_JOB_STATUSES,
+  SHISHKA_FIT_JOB_COLUMNS,
+  type ShishkaFitJobRow,
+} from "@/lib/shishka/fitJob";
+
+type PlannedViewRow = {
+  id: string;
+  platforms?: string[] | null;
+  shishka_fit_profile_analyzed_at: string | null;
+  items: {
+    title: string;
+    year: number | null;
+    genres: string | null;
+    description: string | null;
+    director?: string | null;
+    actors?: string | null;
+    film_media_type?: "movie" | "tv" | null;
+  };
+};
+
+type FitTarget = {
+  viewId: string;
+  evaluatedAt: string | null;
+  item: {
+    title: string;
+    year: number | null;
+    genres: string | null;
+    description: string | null;
+    director?: string | null;
+    actors?: string | null;
+    mediaType?: "movie" | "tv" | null;
+    platforms?: string[] | null;
+  };
+};
+
+const loadPlannedTargets = async (
+  { supabaseAdmin, userId }: LlmCaller,
+  mediaKind: ShishkaFitMediaKind,
+  scopeValue: string,
+) => {
+  const { data, error } = await supabaseAdmin
+    .from("user_views")
+    .select(
+      mediaKind === "film"
+        ? "id, shishka_fit_profile_analyzed_at, items!inner(title, year, genres, description, director, actors, film_media_type, type)"
+        : "id, platforms, shishka_fit_profile_analyzed_at, items!inner(title, year, genres, description, type)",
+    )
+    .eq("user_id", userId)
+    .eq("is_viewed", false)
+    .eq("items.type", mediaKind)
+    .order("id", { ascending: true });
+
+  if (error) {
+    throw new Error("Не вдалося завантажити заплановані тайтли.");
+  }
+
+  return ((data ?? []) as unknown as PlannedViewRow[])
+    .map<FitTarget>((row) => ({
+      viewId: row.id,
+      evaluatedAt: row.shishka_fit_profile_analyzed_at,
+      item: {
+        title: row.items.title,
+        year: row.items.year,
+        genres: row.items.genres,
+        description: row.items.description,
+        director: row.items.director ?? null,
+        actors: row.items.actors ?? null,
+        mediaType: row.items.film_media_type ?? null,
+        platforms: row.platforms ?? null,
+      },
+    }))
+    .filter((target) => getShishkaFitTargetScopeValue(mediaKind, target.item) === scopeValue);
+};
+
+const loadProfileAnalysis = async (
+  { supabaseAdmin, userId }: LlmCaller,
+  mediaKind: ShishkaFitMediaKind,
+  scopeValue: string,
+) => {
+  const { data } = await supabaseAdmin
+    .from("profile_analyses")
+    .select("user_profile, system_profile, source_titles_count, analyzed_at")
+    .eq("user_id", userId)
+    .eq("media_kind", mediaKind)
+    .eq("scope_type", mediaKind === "film" ? "format" : "platform")
+    .eq("scope_value", scopeValue)
+    .maybeSingle();
+
+  return data
+    ? {
+        userProfile: data.user_profile,
+        systemProfile: data.system_profile,
+        sourceTitlesCount: data.source_titles_count ?? 0,
+        analyzedAt: data.analyzed_at as string,
+      }
+    : null;
+};
+
+/** Room for the cache lookup and the `user_views` write around the model call. */
+const STALLED_JOB_MARGIN_MS = 60 * 1000;
+
+/**
+ * Progress is written after every title, so a running job is stalled only once
+ * it has been silent for longer than the slowest possible title evaluation.
+ */
+export const getShishkaFitStalledJobMs = () => getLlmMaxCallDurationMs() + STALLED_JOB_MARGIN_MS;
+
+/**
+ * Queues a background evaluation of every planned title in the scope. An
+ * unfinished job for the same scope is returned instead of a duplicate.
+ */
+export const createShishkaFitJob = async (
+  caller: LlmCaller,
+  mediaKind: ShishkaFitMediaKind,
+  scopeValue: string,
+) => {
+  const { supabaseAdmin, userId } = caller;
+  const { data: activeJob } = await supabaseAdmin
+    .from("shishka_fit_jobs")
+    .select(SHISHKA_FIT_JOB_COLUMNS)
+    .eq("user_id", userId)
+    .eq("media_kind", mediaKind)
+    .eq("scope_value", scopeValue)
+    .in("status", SHISHKA_FIT_ACTIVE_JOB_STATUSES)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (activeJob) {
+    return mapShishkaFitJob(activeJob as ShishkaFitJobRow);
+  }
+
+  const targets = await loadPlannedTargets(caller, mediaKind, scopeValue);
+  const { data, error } = await supabaseAdmin
+    .from("shishka_fit_jobs")
+    .insert({
+      user_id: userId,
+      media_kind: mediaKind,
+      scope_value: scopeValue,
+      total_count: targets.length,
+    })
+    .select(SHISHKA_FIT_JOB_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error("Не вдалося створити пакетну оцінку.");
+  }
+
+  return mapShishkaFitJob(data as ShishkaFitJobRow);
+};
+
+/**
+ * Works through a job: titles already evaluated against the current profile
+ * snapshot are skipped, the rest go through the shared fit cache and land on
+ * `user_views`. Progress is written after every title, so a job interrupted
+ * mid-way can simply be run again. A spent daily quota fails the job.
+ *
+ * One run starts new evaluations for at most `timeBudgetMs` (always at least
+ * one), then hands the job back as `pending` with its progress; the next run
+ * resumes after the titles already processed. Targets are loaded in a stable order.
+ *
+ * The job is claimed with a conditional update on the `status`/`updated_at`
+ * that were read, so two overlapping runs (e.g. a reload that saw the job as
+ * stalled) never work on it at the same time.
+ */
+export const runShishkaFitJob = async (
+  caller: LlmCaller,
+  jobId: string,
+  timeBudgetMs: number,
+) => {
+  const { supabaseAdmin, userId } = caller;
+  const startedAt = Date.now();
+  const { data: jobRow } = await supabaseAdmin
+    .from("shishka_fit_jobs")
+    .select(SHISHKA_FIT_JOB_COLUMNS)
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!jobRow || (jobRow as ShishkaFitJobRow).status === "completed") {
+    return;
+  }
+
+  const job = mapShishkaFitJob(jobRow as ShishkaFitJobRow);
+  const updateJob = (patch: Record<string, unknown>) =>
+    supabaseAdmin.from("shishka_fit_jobs").update(patch).eq("id", job.id);
+
+  const { data: claimedRows } = await supabaseAdmin
+    .from("shishka_fit_jobs")
+    .update({ status: "running", error: null })
+    .eq("id", job.id)
+    .eq("status", job.status)
+    .eq("updated_at", job.updatedAt)
+    .select("id");
+
+  if (!claimedRows || claimedRows.length === 0) {
+    return;
+  }
+
+  try {
+    const profileAnalysis = await loadProfileAnalysis(caller, job.mediaKind, job.scopeValue);
+    if (!profileAnalysis) {
+      await updateJob({
+        status: "failed",
+        error:
+          job.mediaKind === "film"
+            ? "Спершу онови профіль для цього формату."
+            : "Спершу онови профіль для цієї платформи.",
+      });
+      return;
+    }
+
+    const targets = await loadPlannedTargets(caller, job.mediaKind, job.scopeValue);
+    const progress = {
+      processed: Math.min(job.processedCount, targets.length),
+      cached: job.cachedCount,
+      failed: job.failedCount,
+    };
+    let evaluatedCount = 0;
+    await updateJob({ total_count: targets.length });
+
+    for (const target of targets.slice(progress.processed)) {
+      const isUpToDate =
+        target.evaluatedAt !== null &&
+        Date.parse(target.evaluatedAt) === Date.parse(profileAnalysis.analyzedAt);
+      if (isUpToDate) {
+        progress.processed += 1;
+        progress.cached += 1;
+        continue;
+      }
+
+      if (evaluatedCount > 0 && Date.now() - startedAt > timeBudgetMs) {
+        await updateJob({
+          status: "pending",
+          processed_count: progress.processed,
+          cached_count: progress.cached,
+          failed_count: progress.failed,
+        });
+        return;
+      }
+      evaluatedCount += 1;
+
+      try {
+        const { answer, cached } = await getCachedShishkaFit(
+          caller,
+          {
+            mediaKind: job.mediaKind,
+            scopeValue: job.scopeValue,
+            itemKey: buildShishkaFitItemKey(target.item),
+            profileAnalyzedAt: profileAnalysis.analyzedAt,
+          },
+          async () =>
+            job.mediaKind === "film"
+              ? evaluateFilmFit({
+                  profileAnalysis,
+                  scopeLabel: job.scopeValue,
+                  item: { ...target.item, plot: target.item.description },
+                  onUsage: await beginLlmUsage(caller, "film-fit-evaluation"),
+                })
+              : evaluateGameFit({
+                  profileAnalysis,
+                  scopeLabel: job.scopeValue,
+                  item: target.item,
+                  onUsage: await beginLlmUsage(caller, "game-fit-evaluation"),
+                }),
+        );
+
+        await supabaseAdmin
+          .from("user_views")
+          .update({
+            shishka_fit_label: answer.label,
+            shishka_fit_reason: answer.reason,
+            shishka_fit_profile_analyzed_at: profileAnalysis.analyzedAt,
+            shishka_fit_scope_value: job.scopeValue,
+          })
+          .eq("id", target.viewId)
+          .eq("user_id", userId);
+
+        progress.cached += cached ? 1 : 0;
+      } catch (error) {
+        if (error instanceof LlmError && error.code === "quota_exceeded") {
+          throw error;
+        }
+        progress.failed += 1;
+      }
+
+      progress.processed += 1;
+      await updateJob({
+        processed_count: progress.processed,
+        cached_count: progress.cached,
+        failed_count: progress.failed,
+      });
+    }
+
+    await updateJob({
+      status: "completed",
+      processed_count: progress.processed,
+      cached_count: progress.cached,
+      failed_count: progress.failed,
+    });
+  } catch (error) {
+    await updateJob({
+      status: "failed",
+      error: error instanceof Error ? error.message : "Не вдалося завершити пакетну оцінку.",
+    });
+  }
+};
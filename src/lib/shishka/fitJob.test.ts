@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatShishkaFitJobStatus,
+  getShishkaFitTargetScopeValue,
+  shouldStartShishkaFitJob,
+  type ShishkaFitJob,
+} from "@/lib/shishka/fitJob";
+
+const createJob = (overrides: Partial<ShishkaFitJob>): ShishkaFitJob => ({
+  id: "job-1",
+  mediaKind: "film",
+  scopeValue: "Кіно",
+  status: "pending",
+  totalCount: 10,
+  processedCount: 0,
+  cachedCount: 0,
+  failedCount: 0,
+  error: null,
+  createdAt: "2026-05-13T10:00:00.000Z",
+  updatedAt: "2026-05-13T10:00:00.000Z",
+  ...overrides,
+});
+
+describe("shishka fit jobs", () => {
+  it("matches planned titles to the same scopes as single evaluations", () => {
+    expect(getShishkaFitTargetScopeValue("film", { mediaType: "tv" })).toBe("Серіали");
+    expect(getShishkaFitTargetScopeValue("film", { mediaType: null })).toBe("Кіно");
+    expect(getShishkaFitTargetScopeValue("game", { platforms: [" ", "PS5", "PC"] })).toBe("PS5");
+    expect(getShishkaFitTargetScopeValue("game", { platforms: [] })).toBe("Ігри");
+  });
+
+  it("restarts only pending or stalled jobs", () => {
+    const stalledJobMs = 8 * 60 * 1000;
+    const now = Date.parse("2026-05-13T10:10:00.000Z");
+    expect(shouldStartShishkaFitJob(createJob({}), stalledJobMs, now)).toBe(true);
+    expect(
+      shouldStartShishkaFitJob(
+        createJob({ status: "running", updatedAt: "2026-05-13T10:04:30.000Z" }),
+        stalledJobMs,
+        now,
+      ),
+    ).toBe(false);
+    expect(shouldStartShishkaFitJob(createJob({ status: "running" }), stalledJobMs, now)).toBe(
+      true,
+    );
+    expect(
+      shouldStartShishkaFitJob(createJob({ status: "completed" }), stalledJobMs, now),
+    ).toBe(false);
+  });
+
+  it("describes progress and outcome", () => {
+    expect(
+      formatShishkaFitJobStatus(createJob({ status: "running", processedCount: 3 })),
+    ).toBe("Оцінюємо заплановані: 3/10...");
+    expect(
+      formatShishkaFitJobStatus(
+        createJob({ status: "completed", processedCount: 10, failedCount: 2 }),
+      ),
+    ).toBe("Оцінено 10/10, помилок: 2.");
+    expect(formatShishkaFitJobStatus(createJob({ status: "failed", error: "Ліміт." }))).toBe(
+      "Ліміт.",
+    );
+  });
+});
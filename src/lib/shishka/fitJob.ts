@@ -0,0 +1,91 @@
+import type { ShishkaFitMediaKind } from "@/lib/shishka/fitCache";
+
+export type ShishkaFitJobStatus = "pending" | "running" | "completed" | "failed";
+
+export type ShishkaFitJob = {
+  id: string;
+  mediaKind: ShishkaFitMediaKind;
+  scopeValue: string;
+  status: ShishkaFitJobStatus;
+  totalCount: number;
+  processedCount: number;
+  cachedCount: number;
+  failedCount: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ShishkaFitJobRow = {
+  id: string;
+  media_kind: ShishkaFitMediaKind;
+  scope_value: string;
+  status: ShishkaFitJobStatus;
+  total_count: number;
+  processed_count: number;
+  cached_count: number;
+  failed_count: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const SHISHKA_FIT_JOB_COLUMNS =
+  "id, media_kind, scope_value, status, total_count, processed_count, cached_count, failed_count, error, created_at, updated_at";
+
+export const SHISHKA_FIT_ACTIVE_JOB_STATUSES: ShishkaFitJobStatus[] = ["pending", "running"];
+
+export const mapShishkaFitJob = (row: ShishkaFitJobRow): ShishkaFitJob => ({
+  id: row.id,
+  mediaKind: row.media_kind,
+  scopeValue: row.scope_value,
+  status: row.status,
+  totalCount: row.total_count,
+  processedCount: row.processed_count,
+  cachedCount: row.cached_count,
+  failedCount: row.failed_count,
+  error: row.error,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const isShishkaFitJobActive = (job: ShishkaFitJob | null): job is ShishkaFitJob =>
+  Boolean(job && SHISHKA_FIT_ACTIVE_JOB_STATUSES.includes(job.status));
+
+/**
+ * A job needs a (re)start when it has not begun yet or a running one stopped
+ * reporting progress, e.g. because the serverless invocation was recycled.
+ * Decided by the API route only: `stalledJobMs` depends on server LLM settings.
+ */
+export const shouldStartShishkaFitJob = (
+  job: ShishkaFitJob,
+  stalledJobMs: number,
+  now = Date.now(),
+) =>
+  job.status === "pending" ||
+  (job.status === "running" && now - Date.parse(job.updatedAt) > stalledJobMs);
+
+/** Same scope rules as the single-title flows: film format, or the first platform of a game. */
+export const getShishkaFitTargetScopeValue = (
+  mediaKind: ShishkaFitMediaKind,
+  item: { mediaType?: "movie" | "tv" | null; platforms?: string[] | null },
+) => {
+  if (mediaKind === "film") {
+    return item.mediaType === "tv" ? "Серіали" : "Кіно";
+  }
+  const platform = (item.platforms ?? []).map((value) => value?.trim()).find(Boolean);
+  return platform ?? "Ігри";
+};
+
+export const formatShishkaFitJobStatus = (job: ShishkaFitJob) => {
+  if (job.status === "failed") {
+    return job.error ?? "Пакетну оцінку зупинено.";
+  }
+  const progress = `${job.processedCount}/${job.totalCount}`;
+  if (job.status === "completed") {
+    return job.failedCount > 0
+      ? `Оцінено ${progress}, помилок: ${job.failedCount}.`
+      : `Оцінено ${progress}.`;
+  }
+  return `Оцінюємо заплановані: ${progress}...`;
+};
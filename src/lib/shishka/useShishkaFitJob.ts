@@ -0,0 +1,91 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+import type { ShishkaFitMediaKind } from "@/lib/shishka/fitCache";
+import { fetchShishkaFitJob, startShishkaFitJob } from "@/lib/shishka/fitEvaluationClient";
+import {
+  isShishkaFitJobActive,
+  mapShishkaFitJob,
+  SHISHKA_FIT_ACTIVE_JOB_STATUSES,
+  SHISHKA_FIT_JOB_COLUMNS,
+  type ShishkaFitJob,
+} from "@/lib/shishka/fitJob";
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Batch fit evaluation state for one media kind (and optionally one scope).
+ * An unfinished job is picked up again after a page reload and handed back to
+ * the API, which restarts it if it stalled; progress is polled while the job is active.
+ */
+export const useShishkaFitJob = (
+  mediaKind: ShishkaFitMediaKind,
+  { scopeValue, enabled = true }: { scopeValue?: string; enabled?: boolean } = {},
+) => {
+  const [job, setJob] = useState<ShishkaFitJob | null>(null);
+  const [error, setError] = useState("");
+  const [isStarting, setIsStarting] = useState(false);
+
+  const start = useCallback(
+    async (nextScopeValue: string) => {
+      setError("");
+      setIsStarting(true);
+      try {
+        setJob(await startShishkaFitJob(mediaKind, nextScopeValue));
+      } catch (startError) {
+        setError(
+          startError instanceof Error ? startError.message : "Не вдалося запустити пакетну оцінку.",
+        );
+      } finally {
+        setIsStarting(false);
+      }
+    },
+    [mediaKind],
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    let isCancelled = false;
+    void (async () => {
+      let query = supabase
+        .from("shishka_fit_jobs")
+        .select(SHISHKA_FIT_JOB_COLUMNS)
+        .eq("media_kind", mediaKind)
+        .in("status", SHISHKA_FIT_ACTIVE_JOB_STATUSES);
+      if (scopeValue) {
+        query = query.eq("scope_value", scopeValue);
+      }
+      const { data } = await query.order("created_at", { ascending: false }).limit(1);
+      const activeJob = data?.[0] ? mapShishkaFitJob(data[0]) : null;
+      if (isCancelled || !activeJob) return;
+      setJob(activeJob);
+      await start(activeJob.scopeValue);
+    })();
+    return () => {
+      isCancelled = true;
+    };
+  }, [enabled, mediaKind, scopeValue, start]);
+
+  const activeJobId = isShishkaFitJobActive(job) ? job.id : null;
+
+  useEffect(() => {
+    if (!activeJobId) return;
+    const timer = window.setTimeout(() => {
+      void fetchShishkaFitJob(activeJobId)
+        .then((nextJob) => {
+          setJob(nextJob);
+          // A run that used up its time hands the job back as pending; ask for the next one.
+          if (nextJob.status === "pending" && nextJob.processedCount > 0) {
+            void start(nextJob.scopeValue);
+          }
+        })
+        .catch((pollError: unknown) => {
+          setError(pollError instanceof Error ? pollError.message : "Не вдалося оновити прогрес.");
+        });
+    }, POLL_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [activeJobId, job, start]);
+
+  return { job, error, isStarting, start };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTelegramBotCandidateKeyboard,
+  decodeTelegramBotCallback,
+  encodeTelegramBotCallback,
+  parseTelegramBotCommand,
+} from "@/lib/telegram/botCommands";
+
+describe("telegram bot commands", () => {
+  it("parses commands with arguments and bot mentions", () => {
+    expect(parseTelegramBotCommand("/add  Дюна: Частина друга ")).toEqual({
+      name: "add",
+      query: "Дюна: Частина друга",
+    });
+    expect(parseTelegramBotCommand("/watched@catalogy_bot Blade Runner 2049 4,5")).toEqual({
+      name: "watched",
+      query: "Blade Runner 2049",
+      rating: 4.5,
+    });
+    expect(parseTelegramBotCommand("/watched 1917")).toEqual({
+      name: "watched",
+      query: "1917",
+      rating: null,
+    });
+    expect(parseTelegramBotCommand("/watched Apollo 13 9")).toEqual({
+      name: "watched",
+      query: "Apollo 13 9",
+      rating: null,
+    });
+    expect(parseTelegramBotCommand("/STATS")).toEqual({ name: "stats" });
+    expect(parseTelegramBotCommand("/start abc")).toBeNull();
+    expect(parseTelegramBotCommand("hello")).toBeNull();
+  });
+
+  it("round-trips callback data within the Telegram size limit", () => {
+    const callback = {
+      action: "watched" as const,
+      rating: 3.5,
+      candidate: { kind: "film" as const, externalId: "693134", mediaType: "tv" as const },
+    };
+    const encoded = encodeTelegramBotCallback(callback);
+
+    expect(encoded).toBe("w:3.5:f:tv:693134");
+    expect(new TextEncoder().encode(encoded).length).toBeLessThanOrEqual(64);
+    expect(decodeTelegramBotCallback(encoded)).toEqual(callback);
+    expect(decodeTelegramBotCallback("a:-:g:-:1942")).toEqual({
+      action: "add",
+      rating: null,
+      candidate: { kind: "game", externalId: "1942" },
+    });
+    expect(decodeTelegramBotCallback("a:-:f:person:1")).toBeNull();
+    expect(decodeTelegramBotCallback("garbage")).toBeNull();
+  });
+
+  it("builds one keyboard row per candidate", () => {
+    const keyboard = buildTelegramBotCandidateKeyboard(
+      [
+        { kind: "film", externalId: "1", mediaType: "movie", title: "Дюна", year: "2021" },
+        { kind: "game", externalId: "2", title: "Dune: Awakening", year: "" },
+      ],
+      "add",
+      null,
+    );
+
+    expect(keyboard.inline_keyboard).toEqual([
+      [{ text: "🎬 Дюна (2021)", callback_data: "a:-:f:movie:1" }],
+      [{ text: "🎮 Dune: Awakening", callback_data: "a:-:g:-:2" }],
+    ]);
+  });
+});
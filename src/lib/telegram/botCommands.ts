@@ -0,0 +1,160 @@
+import { PERSONAL_RATING_MAX, PERSONAL_RATING_MIN } from "@/lib/collection/ratingScale";
+import type { TelegramInlineKeyboard } from "@/lib/friends/telegram";
+
+export type TelegramBotCommand =
+  | { name: "add"; query: string }
+  | { name: "watched"; query: string; rating: number | null }
+  | { name: "plan" }
+  | { name: "random" }
+  | { name: "stats" }
+  | { name: "help" };
+
+export type TelegramBotCandidate =
+  | {
+      kind: "film";
+      externalId: string;
+      mediaType: "movie" | "tv";
+      title: string;
+      year: string;
+    }
+  | {
+      kind: "game";
+      externalId: string;
+      title: string;
+      year: string;
+    };
+
+export type TelegramBotCandidateRef =
+  | { kind: "film"; externalId: string; mediaType: "movie" | "tv" }
+  | { kind: "game"; externalId: string };
+
+export type TelegramBotCallback = {
+  action: "add" | "watched";
+  rating: number | null;
+  candidate: TelegramBotCandidateRef;
+};
+
+export type TelegramBotStats = {
+  films: { total: number; viewed: number };
+  games: { total: number; viewed: number };
+};
+
+export const TELEGRAM_BOT_CANDIDATES_LIMIT = 6;
+
+export const TELEGRAM_BOT_HELP_TEXT = [
+  "Команди:",
+  "/add <назва> — додати фільм, серіал або гру до колекції",
+  "/watched <назва> <оцінка 1-5> — позначити переглянутим з оцінкою",
+  "/plan — що ще не переглянуто",
+  "/random — випадковий тайтл із запланованого",
+  "/stats — коротка статистика колекції",
+].join("\n");
+
+const COMMAND_PATTERN = /^\/([a-z]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i;
+
+const normalizeBotRating = (value: string) => {
+  const parsed = Number(value.replace(",", "."));
+  if (!Number.isFinite(parsed) || parsed < PERSONAL_RATING_MIN || parsed > PERSONAL_RATING_MAX) {
+    return null;
+  }
+  return Math.round(parsed * 2) / 2;
+};
+
+/** Splits a trailing rating off `/watched` arguments; "Дюна 4,5" -> ["Дюна", 4.5]. */
+const splitTrailingRating = (value: string): [string, number | null] => {
+  const match = value.match(/^(.*\S)\s+(\d+(?:[.,]\d+)?)$/);
+  if (!match) {
+    return [value, null];
+  }
+  const rating = normalizeBotRating(match[2]);
+  return rating === null ? [value, null] : [match[1].trim(), rating];
+};
+
+/** Parses chat text into a bot command; `/start` is handled by chat linking. */
+export const parseTelegramBotCommand = (text?: string | null): TelegramBotCommand | null => {
+  const match = text?.trim().match(COMMAND_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const name = match[1].toLowerCase();
+  const args = match[2]?.trim() ?? "";
+
+  switch (name) {
+    case "add":
+      return { name: "add", query: args };
+    case "watched": {
+      const [query, rating] = splitTrailingRating(args);
+      return { name: "watched", query, rating };
+    }
+    case "plan":
+    case "random":
+    case "stats":
+    case "help":
+      return { name };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Callback data stays within Telegram's 64-byte limit:
+ * `<a|w>:<rating|->:<f|g>:<movie|tv|->:<externalId>`.
+ */
+export const encodeTelegramBotCallback = ({ action, rating, candidate }: TelegramBotCallback) =>
+  [
+    action === "watched" ? "w" : "a",
+    rating === null ? "-" : String(rating),
+    candidate.kind === "film" ? "f" : "g",
+    candidate.kind === "film" ? candidate.mediaType : "-",
+    candidate.externalId,
+  ].join(":");
+
+export const decodeTelegramBotCallback = (data?: string | null): TelegramBotCallback | null => {
+  const parts = data?.split(":") ?? [];
+  if (parts.length !== 5) {
+    return null;
+  }
+
+  const [actionCode, ratingCode, kindCode, mediaType, externalId] = parts;
+  if ((actionCode !== "a" && actionCode !== "w") || !/^\d+$/.test(externalId)) {
+    return null;
+  }
+  const rating = ratingCode === "-" ? null : normalizeBotRating(ratingCode);
+
+  let candidate: TelegramBotCandidateRef;
+  if (kindCode === "f" && (mediaType === "movie" || mediaType === "tv")) {
+    candidate = { kind: "film", externalId, mediaType };
+  } else if (kindCode === "g") {
+    candidate = { kind: "game", externalId };
+  } else {
+    return null;
+  }
+
+  return { action: actionCode === "w" ? "watched" : "add", rating, candidate };
+};
+
+export const formatTelegramBotCandidateLabel = (candidate: TelegramBotCandidate) => {
+  const icon = candidate.kind === "game" ? "🎮" : candidate.mediaType === "tv" ? "📺" : "🎬";
+  return `${icon} ${candidate.title}${candidate.year ? ` (${candidate.year})` : ""}`;
+};
+
+export const buildTelegramBotCandidateKeyboard = (
+  candidates: TelegramBotCandidate[],
+  action: TelegramBotCallback["action"],
+  rating: number | null,
+): TelegramInlineKeyboard => ({
+  inline_keyboard: candidates.slice(0, TELEGRAM_BOT_CANDIDATES_LIMIT).map((candidate) => [
+    {
+      text: formatTelegramBotCandidateLabel(candidate),
+      callback_data: encodeTelegramBotCallback({ action, rating, candidate }),
+    },
+  ]),
+});
+
+export const formatTelegramBotStats = (stats: TelegramBotStats) =>
+  [
+    "Статистика колекції:",
+    `Фільми та серіали: ${stats.films.total} (переглянуто ${stats.films.viewed})`,
+    `Ігри: ${stats.games.total} (пройдено ${stats.games.viewed})`,
+  ].join("\n");
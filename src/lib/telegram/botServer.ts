@@ -0,0 +1,395 @@
+import { getSupabaseAdmin } from "@/lib/supabase/admin";
+import { getIgdbGameDetails, searchGamesInIgdb } from "@/lib/igdb/server";
+import { getTmdbTitleSummary, searchTmdbTitles } from "@/lib/tmdb/server";
+import {
+  TELEGRAM_BOT_CANDIDATES_LIMIT,
+  type TelegramBotCallback,
+  type TelegramBotCandidate,
+  type TelegramBotCandidateRef,
+  type TelegramBotStats,
+} from "./botCommands";
+
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
+
+type BotCatalogItem = {
+  type: "film" | "game";
+  title: string;
+  title_uk?: string | null;
+  title_original?: string | null;
+  description: string | null;
+  genres?: string | null;
+  poster_url: string | null;
+  external_id: string;
+  imdb_rating: string | null;
+  year: number | null;
+  film_media_type?: "movie" | "tv";
+};
+
+type PlannedItemRow = {
+  title: string;
+  year: number | null;
+  type: string;
+};
+
+type PlannedViewRow = {
+  items: PlannedItemRow | PlannedItemRow[] | null;
+};
+
+export type TelegramBotPlannedTitle = {
+  title: string;
+  year: string | null;
+  mediaKind: "film" | "game";
+};
+
+export type TelegramBotSaveResult = {
+  title: string;
+  status: "added" | "updated" | "exists";
+};
+
+const BOT_PLAN_LIMIT = 10;
+const BOT_RANDOM_POOL_LIMIT = 200;
+
+const parseYear = (value?: string | null) => {
+  const parsed = Number.parseInt(value?.slice(0, 4) ?? "", 10);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/** Profile linked to the chat via `/start <token>`, or null for unknown chats. */
+export const findTelegramLinkedUserId = async (supabaseAdmin: SupabaseAdmin, chatId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from("profiles")
+    .select("id")
+    .eq("telegram_chat_id", chatId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || "Не вдалося знайти прив’язаний профіль.");
+  }
+
+  return (data?.id as string | undefined) ?? null;
+};
+
+/** Films/series from TMDB first, then games from IGDB; one failing source does not hide the other. */
+export const searchTelegramBotCandidates = async (
+  query: string,
+): Promise<TelegramBotCandidate[]> => {
+  const [films, games] = await Promise.allSettled([
+    searchTmdbTitles(query),
+    searchGamesInIgdb(query),
+  ]);
+  const half = Math.ceil(TELEGRAM_BOT_CANDIDATES_LIMIT / 2);
+
+  const filmCandidates: TelegramBotCandidate[] =
+    films.status === "fulfilled"
+      ? films.value.slice(0, half).map((film) => ({
+          kind: "film",
+          externalId: film.id,
+          mediaType: film.mediaType,
+          title: film.title || film.originalTitle || "Без назви",
+          year: film.year,
+        }))
+      : [];
+  const gameCandidates: TelegramBotCandidate[] =
+    games.status === "fulfilled"
+      ? games.value.slice(0, half).map((game) => ({
+          kind: "game",
+          externalId: game.id,
+          title: game.title,
+          year: game.released.slice(0, 4),
+        }))
+      : [];
+
+  if (films.status === "rejected" && games.status === "rejected") {
+    throw new Error("Пошук тимчасово недоступний.");
+  }
+
+  return [...filmCandidates, ...gameCandidates].slice(0, TELEGRAM_BOT_CANDIDATES_LIMIT);
+};
+
+const loadCatalogItemSource = async (
+  candidate: TelegramBotCandidateRef,
+): Promise<BotCatalogItem | null> => {
+  if (candidate.kind === "film") {
+    const film = await getTmdbTitleSummary(candidate.externalId, candidate.mediaType);
+    if (!film) return null;
+    return {
+      type: "film",
+      title: film.title || film.originalTitle || "Без назви",
+      title_uk: film.title || null,
+      title_original: film.originalTitle || null,
+      description: film.plot || null,
+      poster_url: film.poster || null,
+      external_id: film.id,
+      imdb_rating: film.imdbRating || null,
+      year: parseYear(film.year),
+      film_media_type: film.mediaType,
+    };
+  }
+
+  const game = await getIgdbGameDetails(candidate.externalId);
+  if (!game) return null;
+  return {
+    type: "game",
+    title: game.title,
+    description: game.description || null,
+    genres: game.genres || null,
+    poster_url: game.poster || null,
+    external_id: candidate.externalId,
+    imdb_rating: typeof game.rating === "number" ? game.rating.toFixed(1) : null,
+    year: parseYear(game.released),
+  };
+};
+
+const findCatalogItemId = async (
+  supabaseAdmin: SupabaseAdmin,
+  candidate: TelegramBotCandidateRef,
+) => {
+  let query = supabaseAdmin
+    .from("items")
+    .select("id, title")
+    .eq("type", candidate.kind)
+    .eq("external_id", candidate.externalId);
+  if (candidate.kind === "film") {
+    query = query.eq("film_media_type", candidate.mediaType);
+  }
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    throw new Error("Не вдалося перевірити каталог.");
+  }
+
+  return data as { id: string; title: string } | null;
+};
+
+/**
+ * Reuses the shared catalog row when someone already added the title; otherwise
+ * creates a minimal one that the metadata refresh can enrich later.
+ */
+const ensureCatalogItem = async (
+  supabaseAdmin: SupabaseAdmin,
+  candidate: TelegramBotCandidateRef,
+) => {
+  const existing = await findCatalogItemId(supabaseAdmin, candidate);
+  if (existing) {
+    return existing;
+  }
+
+  const source = await loadCatalogItemSource(candidate);
+  if (!source) {
+    throw new Error("Не вдалося знайти тайтл.");
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("items")
+    .insert(source)
+    .select("id, title")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      const raced = await findCatalogItemId(supabaseAdmin, candidate);
+      if (raced) return raced;
+    }
+    throw new Error("Не вдалося створити запис у каталозі.");
+  }
+
+  return data as { id: string; title: string };
+};
+
+const upsertCollectionView = async (
+  supabaseAdmin: SupabaseAdmin,
+  {
+    userId,
+    item,
+    isWatched,
+    rating,
+  }: {
+    userId: string;
+    item: { id: string; title: string };
+    isWatched: boolean;
+    rating: number | null;
+  },
+): Promise<TelegramBotSaveResult> => {
+  const { data: existingView, error: existingError } = await supabaseAdmin
+    .from("user_views")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("item_id", item.id)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new Error("Не вдалося перевірити колекцію.");
+  }
+
+  const viewedColumns = {
+    is_viewed: true,
+    view_percent: 100,
+    viewed_at: new Date().toISOString(),
+    ...(rating !== null ? { rating } : {}),
+  };
+
+  if (existingView?.id) {
+    if (!isWatched) {
+      return { title: item.title, status: "exists" };
+    }
+    const { error } = await supabaseAdmin
+      .from("user_views")
+      .update(viewedColumns)
+      .eq("id", existingView.id);
+    if (error) {
+      throw new Error("Не вдалося оновити запис.");
+    }
+    return { title: item.title, status: "updated" };
+  }
+
+  const { error } = await supabaseAdmin.from("user_views").insert({
+    user_id: userId,
+    item_id: item.id,
+    ...(isWatched ? viewedColumns : { is_viewed: false, view_percent: 0, rating: null }),
+  });
+
+  if (error) {
+    throw new Error("Не вдалося додати у колекцію.");
+  }
+
+  return { title: item.title, status: "added" };
+};
+
+/** Writes the picked title into the linked user's collection. */
+export const saveTelegramBotEntry = async (
+  supabaseAdmin: SupabaseAdmin,
+  {
+    userId,
+    callback,
+  }: {
+    userId: string;
+    callback: TelegramBotCallback;
+  },
+) =>
+  upsertCollectionView(supabaseAdmin, {
+    userId,
+    item: await ensureCatalogItem(supabaseAdmin, callback.candidate),
+    isWatched: callback.action === "watched",
+    rating: callback.rating,
+  });
+
+/** Adds an existing catalog item (from a friend's activity) as planned. */
+export const planTelegramBotItem = async (
+  supabaseAdmin: SupabaseAdmin,
+  { userId, itemId }: { userId: string; itemId: string },
+) => {
+  const { data: item, error } = await supabaseAdmin
+    .from("items")
+    .select("id, title")
+    .eq("id", itemId)
+    .maybeSingle();
+
+  if (error || !item) {
+    throw new Error("Не вдалося знайти тайтл.");
+  }
+
+  return upsertCollectionView(supabaseAdmin, {
+    userId,
+    item: item as { id: string; title: string },
+    isWatched: false,
+    rating: null,
+  });
+};
+
+/** Turns off every `contacts.notify_*` flag the user set for this friend. */
+export const muteTelegramBotFriend = async (
+  supabaseAdmin: SupabaseAdmin,
+  { userId, friendUserId }: { userId: string; friendUserId: string },
+) => {
+  const { data, error } = await supabaseAdmin
+    .from("contacts")
+    .update({
+      notify_film_added: false,
+      notify_film_viewed: false,
+      notify_game_added: false,
+      notify_game_viewed: false,
+    })
+    .eq("user_id", userId)
+    .eq("other_user_id", friendUserId)
+    .select("other_user_id");
+
+  if (error) {
+    throw new Error("Не вдалося оновити сповіщення.");
+  }
+
+  return (data ?? []).length > 0;
+};
+
+const mapPlannedTitle = (row: PlannedViewRow): TelegramBotPlannedTitle | null => {
+  const item = Array.isArray(row.items) ? row.items[0] : row.items;
+  if (!item?.title) return null;
+  return {
+    title: item.title,
+    year: item.year ? String(item.year) : null,
+    mediaKind: item.type === "game" ? "game" : "film",
+  };
+};
+
+const loadPlannedViews = async (supabaseAdmin: SupabaseAdmin, userId: string, limit: number) => {
+  const { data, error } = await supabaseAdmin
+    .from("user_views")
+    .select("items:items!inner(title, year, type)")
+    .eq("user_id", userId)
+    .eq("is_viewed", false)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error("Не вдалося завантажити заплановане.");
+  }
+
+  return ((data ?? []) as PlannedViewRow[])
+    .map(mapPlannedTitle)
+    .filter((title): title is TelegramBotPlannedTitle => Boolean(title));
+};
+
+export const loadTelegramBotPlan = (supabaseAdmin: SupabaseAdmin, userId: string) =>
+  loadPlannedViews(supabaseAdmin, userId, BOT_PLAN_LIMIT);
+
+export const pickTelegramBotRandomTitle = async (supabaseAdmin: SupabaseAdmin, userId: string) => {
+  const titles = await loadPlannedViews(supabaseAdmin, userId, BOT_RANDOM_POOL_LIMIT);
+  return titles.length > 0 ? titles[Math.floor(Math.random() * titles.length)] : null;
+};
+
+const countViews = async (
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+  mediaKind: "film" | "game",
+  viewedOnly: boolean,
+) => {
+  let query = supabaseAdmin
+    .from("user_views")
+    .select("id, items!inner(type)", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("items.type", mediaKind);
+  if (viewedOnly) {
+    query = query.eq("is_viewed", true);
+  }
+  const { count, error } = await query;
+  if (error) {
+    throw new Error("Не вдалося порахувати статистику.");
+  }
+  return count ?? 0;
+};
+
+export const loadTelegramBotStats = async (
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+): Promise<TelegramBotStats> => {
+  const [filmsTotal, filmsViewed, gamesTotal, gamesViewed] = await Promise.all([
+    countViews(supabaseAdmin, userId, "film", false),
+    countViews(supabaseAdmin, userId, "film", true),
+    countViews(supabaseAdmin, userId, "game", false),
+    countViews(supabaseAdmin, userId, "game", true),
+  ]);
+
+  return {
+    films: { total: filmsTotal, viewed: filmsViewed },
+    games: { total: gamesTotal, viewed: gamesViewed },
+  };
+};
@@ -0,0 +1,430 @@
+import type { FilmCollectionTrailer } from "@/lib/films/collectionFlow";
+import type { FilmNormalizedGenre, FilmNormalizedPerson } from "@/lib/films/normalizedMetadata";
+import type { FranchiseDetail } from "@/lib/franchises/membership";
+
+type TmdbCredentials = {
+  token: string | null;
+  apiKey: string | null;
+};
+
+export type TmdbSearchRow = {
+  id: number;
+  media_type: "movie" | "tv" | "person";
+  title: string;
+  original_title?: string;
+  name?: string;
+  original_name?: string;
+  genre_ids?: number[];
+  release_date?: string;
+  first_air_date?: string;
+  poster_path?: string | null;
+  overview?: string | null;
+  vote_average?: number | null;
+};
+
+export type TmdbTitleSummary = {
+  id: string;
+  title: string;
+  originalTitle: string;
+  year: string;
+  poster: string;
+  plot: string;
+  imdbRating: string;
+  mediaType: "movie" | "tv";
+};
+
+export type TmdbCredits = {
+  cast?: {
+    id: number;
+    name: string;
+    original_name?: string;
+    character?: string | null;
+    order?: number | null;
+    profile_path?: string | null;
+    known_for_department?: string;
+  }[];
+  crew?: {
+    id: number;
+    name: string;
+    original_name?: string;
+    job: string;
+    department?: string | null;
+    profile_path?: string | null;
+    known_for_department?: string;
+  }[];
+};
+
+export type TmdbCreator = {
+  id?: number;
+  name: string;
+  original_name?: string;
+  profile_path?: string | null;
+};
+
+export type TmdbVideo = {
+  id?: string;
+  key?: string;
+  name?: string;
+  site?: string;
+  type?: string;
+  official?: boolean;
+  iso_639_1?: string;
+  iso_3166_1?: string;
+};
+
+/** Stored metadata a scheduled refresh compares against the collection item. */
+export type TmdbTvStructureSource = {
+  seasons?: {
+    season_number?: number | null;
+    episode_count?: number | null;
+    air_date?: string | null;
+    name?: string | null;
+  }[];
+  last_episode_to_air?: {
+    season_number?: number | null;
+    episode_number?: number | null;
+    air_date?: string | null;
+  } | null;
+};
+
+export type TmdbTitleRefreshDetail = {
+  poster: string;
+  imdbRating: string;
+  imdbId: string;
+  genres: string;
+  genreItems: FilmNormalizedGenre[];
+  director: string;
+  actors: string;
+  people: FilmNormalizedPerson[];
+  trailers: FilmCollectionTrailer[];
+};
+
+const getCredentials = (): TmdbCredentials | null => {
+  const token = process.env.TMDB_READ_ACCESS_TOKEN ?? null;
+  const apiKey = process.env.TMDB_API_KEY ?? null;
+  if (!token && !apiKey) {
+    return null;
+  }
+  return { token, apiKey };
+};
+
+const requestTmdb = async <T>(path: string, params: Record<string, string>) => {
+  const credentials = getCredentials();
+  if (!credentials) {
+    throw new Error("Missing TMDB credentials.");
+  }
+
+  const url = new URL(`https://api.themoviedb.org/3/${path}`);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  if (credentials.apiKey) {
+    url.searchParams.set("api_key", credentials.apiKey);
+  }
+
+  const response = await fetch(url.toString(), {
+    headers: credentials.token ? { Authorization: `Bearer ${credentials.token}` } : undefined,
+  });
+  const data = (await response.json()) as T | { status_message?: string };
+
+  if (!response.ok) {
+    throw new Error(
+      data && typeof data === "object" && "status_message" in data && data.status_message
+        ? data.status_message
+        : "TMDB error.",
+    );
+  }
+
+  return data as T;
+};
+
+const mapTmdbTitleSummary = (
+  row: Omit<TmdbSearchRow, "media_type">,
+  mediaType: "movie" | "tv",
+): TmdbTitleSummary => ({
+  id: String(row.id),
+  title: row.title ?? row.name ?? "",
+  originalTitle: row.original_title ?? row.original_name ?? "",
+  year: (row.release_date ?? row.first_air_date ?? "").slice(0, 4),
+  poster: row.poster_path ? `https://image.tmdb.org/t/p/w500${row.poster_path}` : "",
+  plot: row.overview ?? "",
+  imdbRating: typeof row.vote_average === "number" ? row.vote_average.toFixed(1) : "",
+  mediaType,
+});
+
+/** Raw `search/multi` rows in the app locale; includes people, which callers filter out. */
+export const searchTmdbMulti = async (query: string) => {
+  const data = await requestTmdb<{ results?: TmdbSearchRow[] }>("search/multi", {
+    query,
+    include_adult: "false",
+    language: "uk-UA",
+    region: "UA",
+  });
+  return data.results ?? [];
+};
+
+export const searchTmdbTitles = async (query: string): Promise<TmdbTitleSummary[]> =>
+  (await searchTmdbMulti(query))
+    .filter(
+      (row): row is TmdbSearchRow & { media_type: "movie" | "tv" } =>
+        row.media_type === "movie" || row.media_type === "tv",
+    )
+    .map((row) => mapTmdbTitleSummary(row, row.media_type));
+
+export const getTmdbTitleSummary = async (
+  id: string,
+  mediaType: "movie" | "tv",
+): Promise<TmdbTitleSummary | null> => {
+  if (!/^\d+$/.test(id)) return null;
+  const row = await requestTmdb<Omit<TmdbSearchRow, "media_type">>(`${mediaType}/${id}`, {
+    language: "uk-UA",
+    region: "UA",
+  });
+  return mapTmdbTitleSummary(row, mediaType);
+};
+
+type TmdbCollectionPart = {
+  id: number;
+  title?: string;
+  name?: string;
+  release_date?: string;
+  poster_path?: string | null;
+};
+
+/** The TMDB collection a movie belongs to, with its parts in release order. */
+export const getTmdbMovieFranchise = async (movieId: string): Promise<FranchiseDetail | null> => {
+  if (!/^\d+$/.test(movieId)) return null;
+  const movie = await requestTmdb<{
+    belongs_to_collection?: { id: number; name?: string; poster_path?: string | null } | null;
+  }>(`movie/${movieId}`, { language: "uk-UA" });
+  const collection = movie.belongs_to_collection;
+  if (!collection?.id) return null;
+
+  const detail = await requestTmdb<{
+    name?: string;
+    poster_path?: string | null;
+    parts?: TmdbCollectionPart[];
+  }>(`collection/${collection.id}`, { language: "uk-UA" });
+
+  const entries = [...(detail.parts ?? [])]
+    .sort((left, right) => {
+      const leftDate = left.release_date || "9999";
+      const rightDate = right.release_date || "9999";
+      return leftDate.localeCompare(rightDate);
+    })
+    .map((part) => ({
+      sourceItemId: String(part.id),
+      title: part.title ?? part.name ?? "",
+      year: (part.release_date ?? "").slice(0, 4),
+      posterUrl: part.poster_path ? `https://image.tmdb.org/t/p/w500${part.poster_path}` : "",
+    }));
+  const posterPath = detail.poster_path ?? collection.poster_path;
+
+  return {
+    mediaKind: "film",
+    source: "tmdb",
+    sourceFranchiseId: String(collection.id),
+    name: detail.name ?? collection.name ?? "",
+    posterUrl: posterPath ? `https://image.tmdb.org/t/p/w500${posterPath}` : "",
+    entries,
+  };
+};
+
+const toProfileUrl = (profilePath?: string | null) =>
+  profilePath ? `https://image.tmdb.org/t/p/w500${profilePath}` : "";
+
+/**
+ * Directors, writers, producers, creators and the top-billed cast in the
+ * shape stored in `item_people`, plus the legacy comma-separated summaries.
+ */
+export const mapTmdbCreditsToPeople = ({
+  credits,
+  createdBy,
+  mediaType,
+}: {
+  credits?: TmdbCredits;
+  createdBy?: TmdbCreator[];
+  mediaType: "movie" | "tv";
+}) => {
+  const crew = credits?.crew ?? [];
+  const directorJobs =
+    mediaType === "tv" ? ["Series Director", "Director", "Creator"] : ["Director"];
+  const directorCredits = crew.filter((member) => directorJobs.includes(member.job)).slice(0, 3);
+  const writerJobs =
+    mediaType === "tv"
+      ? ["Writer", "Screenplay", "Teleplay", "Story Editor", "Series Composition"]
+      : ["Writer", "Screenplay"];
+  const writerCredits = crew.filter((member) => writerJobs.includes(member.job)).slice(0, 4);
+  const producerJobs =
+    mediaType === "tv"
+      ? ["Producer", "Executive Producer", "Co-Producer", "Series Producer"]
+      : ["Producer", "Executive Producer", "Co-Producer"];
+  const producerCredits = crew.filter((member) => producerJobs.includes(member.job)).slice(0, 4);
+  const actorCredits = (credits?.cast ?? []).slice(0, 12);
+  const mapCrew = (
+    members: NonNullable<TmdbCredits["crew"]>,
+    roleKind: "director" | "writer" | "producer",
+  ): FilmNormalizedPerson[] =>
+    members.map((member, index) => ({
+      tmdbPersonId: String(member.id),
+      name: member.name,
+      originalName: member.original_name ?? member.name,
+      roleKind,
+      creditGroup: "crew",
+      department: member.department ?? member.known_for_department ?? "",
+      job: member.job ?? "",
+      characterName: "",
+      creditOrder: index,
+      isPrimary: index === 0,
+      profileUrl: toProfileUrl(member.profile_path),
+    }));
+  const creatorPeople: FilmNormalizedPerson[] = (createdBy ?? [])
+    .filter(
+      (member) =>
+        typeof member.id === "number" &&
+        !directorCredits.some((credit) => credit.id === member.id),
+    )
+    .map((member, index) => ({
+      tmdbPersonId: String(member.id),
+      name: member.name,
+      originalName: member.original_name ?? member.name,
+      roleKind: "director",
+      creditGroup: "crew",
+      department: "Creator",
+      job: "Creator",
+      characterName: "",
+      creditOrder: directorCredits.length + index,
+      isPrimary: directorCredits.length === 0 && index === 0,
+      profileUrl: toProfileUrl(member.profile_path),
+    }));
+
+  return {
+    director: directorCredits[0]?.name ?? createdBy?.[0]?.name ?? "",
+    actors: actorCredits
+      .slice(0, 5)
+      .map((member) => member.name)
+      .join(", "),
+    people: [
+      ...mapCrew(directorCredits, "director"),
+      ...mapCrew(writerCredits, "writer"),
+      ...mapCrew(producerCredits, "producer"),
+      ...creatorPeople,
+      ...actorCredits.map((member, index): FilmNormalizedPerson => ({
+        tmdbPersonId: String(member.id),
+        name: member.name,
+        originalName: member.original_name ?? member.name,
+        roleKind: "actor",
+        creditGroup: "cast",
+        department: member.known_for_department ?? "Acting",
+        job: "Actor",
+        characterName: member.character ?? "",
+        creditOrder: member.order ?? index,
+        isPrimary: index < 5,
+        profileUrl: toProfileUrl(member.profile_path),
+      })),
+    ],
+  };
+};
+
+/** YouTube trailers and teasers, preferring the ones in the app language. */
+export const mapTmdbTrailers = (
+  videos: TmdbVideo[] | undefined,
+  localeLanguage: string,
+): FilmCollectionTrailer[] => {
+  const videoCandidates = (videos ?? []).filter(
+    (video) =>
+      video.site === "YouTube" &&
+      Boolean(video.key) &&
+      (video.type === "Trailer" || video.type === "Teaser"),
+  );
+  const localeVideos = videoCandidates.filter(
+    (video) => video.iso_639_1?.toLowerCase() === localeLanguage.toLowerCase(),
+  );
+  return (localeVideos.length > 0 ? localeVideos : videoCandidates).map((video) => ({
+    id: video.id ?? "",
+    name: video.name ?? "",
+    site: video.site ?? "",
+    key: video.key ?? "",
+    type: video.type ?? "",
+    official: Boolean(video.official),
+    language: video.iso_639_1 ?? "",
+    region: video.iso_3166_1 ?? "",
+    url: video.key ? `https://www.youtube.com/watch?v=${video.key}` : "",
+  }));
+};
+
+export const getTmdbTitleRefreshDetail = async (
+  id: string,
+  mediaType: "movie" | "tv",
+): Promise<TmdbTitleRefreshDetail | null> => {
+  if (!/^\d+$/.test(id)) return null;
+  const detail = await requestTmdb<{
+    poster_path?: string | null;
+    vote_average?: number | null;
+    genres?: { id: number; name: string }[];
+    created_by?: TmdbCreator[];
+    credits?: TmdbCredits;
+    videos?: { results?: TmdbVideo[] };
+    external_ids?: { imdb_id?: string | null };
+  }>(`${mediaType}/${id}`, {
+    append_to_response: "credits,videos,external_ids",
+    include_video_language: "uk,en,null",
+    language: "uk-UA",
+    region: "UA",
+  });
+  const credits = mapTmdbCreditsToPeople({
+    credits: detail.credits,
+    createdBy: detail.created_by,
+    mediaType,
+  });
+
+  return {
+    poster: detail.poster_path ? `https://image.tmdb.org/t/p/w780${detail.poster_path}` : "",
+    imdbRating:
+      typeof detail.vote_average === "number" && detail.vote_average > 0
+        ? detail.vote_average.toFixed(1)
+        : "",
+    imdbId: detail.external_ids?.imdb_id ?? "",
+    genres: (detail.genres ?? []).map((genre) => genre.name).join(", "),
+    genreItems: (detail.genres ?? []).map((genre) => ({
+      tmdbGenreId: String(genre.id),
+      name: genre.name,
+    })),
+    ...credits,
+    trailers: mapTmdbTrailers(detail.videos?.results, "uk"),
+  };
+};
+
+/** Aired seasons (specials excluded) and the last aired episode of a TMDB series. */
+export const mapTmdbTvStructure = (detail: TmdbTvStructureSource) => {
+  const lastEpisode = detail.last_episode_to_air;
+  return {
+    tvSeasons: (detail.seasons ?? [])
+      .filter(
+        (season) =>
+          typeof season.season_number === "number" &&
+          season.season_number > 0 &&
+          typeof season.episode_count === "number" &&
+          season.episode_count > 0,
+      )
+      .map((season) => ({
+        seasonNumber: season.season_number as number,
+        episodeCount: season.episode_count as number,
+        airDate: season.air_date || null,
+        name: season.name ?? "",
+      })),
+    tvLastAiredEpisode:
+      typeof lastEpisode?.season_number === "number" &&
+      typeof lastEpisode.episode_number === "number"
+        ? {
+            seasonNumber: lastEpisode.season_number,
+            episodeNumber: lastEpisode.episode_number,
+            airDate: lastEpisode.air_date || null,
+          }
+        : null,
+  };
+};
+
+export const getTmdbTvStructure = async (id: string) => {
+  if (!/^\d+$/.test(id)) return null;
+  const detail = await requestTmdb<TmdbTvStructureSource>(`tv/${id}`, { language: "uk-UA" });
+  return mapTmdbTvStructure(detail);
+};
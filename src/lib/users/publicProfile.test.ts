@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPublicProfilePath,
+  isPublicProfileUsername,
+  normalizePublicProfileSettings,
+  parsePublicProfileUsernameParam,
+  summarizePublicProfileStatistics,
+} from "@/lib/users/publicProfile";
+
+describe("public profile", () => {
+  it("accepts only usernames allowed by the profiles constraint", () => {
+    expect(isPublicProfileUsername("film_fan-42")).toBe(true);
+    expect(isPublicProfileUsername("ab")).toBe(false);
+    expect(isPublicProfileUsername("name with spaces")).toBe(false);
+    expect(buildPublicProfilePath("film_fan-42")).toBe("/u/film_fan-42");
+  });
+
+  it("decodes the route param once and rejects malformed escapes", () => {
+    expect(parsePublicProfileUsernameParam("film_fan-42")).toBe("film_fan-42");
+    expect(parsePublicProfileUsernameParam("film%5Ffan")).toBe("film_fan");
+    expect(parsePublicProfileUsernameParam("%E0%A4%A")).toBeNull();
+    expect(parsePublicProfileUsernameParam("film%2525fan")).toBeNull();
+  });
+
+  it("keeps the profile closed and sections open by default", () => {
+    expect(normalizePublicProfileSettings(null)).toEqual({
+      enabled: false,
+      showLists: true,
+      showTopRated: true,
+      showStatistics: true,
+    });
+    expect(
+      normalizePublicProfileSettings({
+        public_profile_enabled: true,
+        public_profile_show_statistics: false,
+      }),
+    ).toMatchObject({ enabled: true, showStatistics: false });
+  });
+
+  it("reads headline numbers from snapshot payloads", () => {
+    expect(
+      summarizePublicProfileStatistics({
+        filmPayload: {
+          summary: { totalTitles: 120, watchedTitles: 90, averageRating: 3.8 },
+        },
+        gamePayload: {
+          summary: { totalTitles: 40, completedTitles: 12, averageRating: null },
+          playtime: { totalHours: 315.5 },
+        },
+      }),
+    ).toEqual({
+      films: { totalTitles: 120, watchedTitles: 90, averageRating: 3.8 },
+      games: { totalTitles: 40, completedTitles: 12, averageRating: null, totalHours: 315.5 },
+    });
+    expect(
+      summarizePublicProfileStatistics({ filmPayload: null, gamePayload: { summary: {} } }),
+    ).toEqual({
+      films: null,
+      games: { totalTitles: 0, completedTitles: 0, averageRating: null, totalHours: null },
+    });
+  });
+});
@@ -0,0 +1,117 @@
+export const PUBLIC_PROFILE_USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,24}$/;
+export const PUBLIC_PROFILE_TOP_RATED_LIMIT = 10;
+export const PUBLIC_PROFILE_LIST_ENTRIES_LIMIT = 24;
+
+export type PublicProfileSettings = {
+  enabled: boolean;
+  showLists: boolean;
+  showTopRated: boolean;
+  showStatistics: boolean;
+};
+
+export type PublicProfileTitle = {
+  mediaKind: "film" | "game";
+  title: string;
+  year: string | null;
+  posterUrl: string | null;
+  rating: number | null;
+};
+
+export type PublicProfileList = {
+  id: string;
+  name: string;
+  entries: PublicProfileTitle[];
+};
+
+export type PublicProfileStatistics = {
+  films: {
+    totalTitles: number;
+    watchedTitles: number;
+    averageRating: number | null;
+  } | null;
+  games: {
+    totalTitles: number;
+    completedTitles: number;
+    averageRating: number | null;
+    totalHours: number | null;
+  } | null;
+};
+
+export type PublicProfilePayload = {
+  username: string;
+  lists: PublicProfileList[] | null;
+  topRated: {
+    films: PublicProfileTitle[];
+    games: PublicProfileTitle[];
+  } | null;
+  statistics: PublicProfileStatistics | null;
+};
+
+export const isPublicProfileUsername = (value: string) =>
+  PUBLIC_PROFILE_USERNAME_PATTERN.test(value);
+
+/** Route param -> username; null for a malformed escape or a name no profile can have. */
+export const parsePublicProfileUsernameParam = (value: string) => {
+  let username: string;
+  try {
+    username = decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+  return isPublicProfileUsername(username) ? username : null;
+};
+
+export const buildPublicProfilePath = (username: string) =>
+  `/u/${encodeURIComponent(username)}`;
+
+export const normalizePublicProfileSettings = (row: {
+  public_profile_enabled?: boolean | null;
+  public_profile_show_lists?: boolean | null;
+  public_profile_show_top_rated?: boolean | null;
+  public_profile_show_statistics?: boolean | null;
+} | null): PublicProfileSettings => ({
+  enabled: Boolean(row?.public_profile_enabled),
+  showLists: row?.public_profile_show_lists ?? true,
+  showTopRated: row?.public_profile_show_top_rated ?? true,
+  showStatistics: row?.public_profile_show_statistics ?? true,
+});
+
+const readNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const readRecord = (value: unknown) =>
+  value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+
+/**
+ * Picks the few headline numbers that are safe to show publicly from the
+ * stored statistics snapshot payloads, which may be missing or outdated.
+ */
+export const summarizePublicProfileStatistics = ({
+  filmPayload,
+  gamePayload,
+}: {
+  filmPayload: unknown;
+  gamePayload: unknown;
+}): PublicProfileStatistics => {
+  const filmSummary = readRecord(readRecord(filmPayload)?.summary);
+  const gameSummary = readRecord(readRecord(gamePayload)?.summary);
+  const gamePlaytime = readRecord(readRecord(gamePayload)?.playtime);
+
+  return {
+    films: filmSummary
+      ? {
+          totalTitles: readNumber(filmSummary.totalTitles) ?? 0,
+          watchedTitles: readNumber(filmSummary.watchedTitles) ?? 0,
+          averageRating: readNumber(filmSummary.averageRating),
+        }
+      : null,
+    games: gameSummary
+      ? {
+          totalTitles: readNumber(gameSummary.totalTitles) ?? 0,
+          completedTitles: readNumber(gameSummary.completedTitles) ?? 0,
+          averageRating: readNumber(gameSummary.averageRating),
+          totalHours: readNumber(gamePlaytime?.totalHours),
+        }
+      : null,
+  };
+};
@@ -0,0 +1,184 @@
+import { getSupabaseAdmin } from "@/lib/supabase/admin";
+import {
+  PUBLIC_PROFILE_LIST_ENTRIES_LIMIT,
+  PUBLIC_PROFILE_TOP_RATED_LIMIT,
+  isPublicProfileUsername,
+  normalizePublicProfileSettings,
+  summarizePublicProfileStatistics,
+  type PublicProfileList,
+  type PublicProfilePayload,
+  type PublicProfileTitle,
+} from "./publicProfile";
+
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
+
+type PublicItemRow = {
+  title?: string | null;
+  year?: string | number | null;
+  poster_url?: string | null;
+  type?: string | null;
+};
+
+type PublicViewRow = {
+  id: string;
+  rating: number | null;
+  items: PublicItemRow | PublicItemRow[] | null;
+};
+
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+const mapPublicTitle = (row: PublicViewRow): PublicProfileTitle | null => {
+  const item = Array.isArray(row.items) ? row.items[0] : row.items;
+  if (!item?.title) {
+    return null;
+  }
+  return {
+    mediaKind: item.type === "game" ? "game" : "film",
+    title: item.title,
+    year: item.year ? String(item.year) : null,
+    posterUrl: item.poster_url ?? null,
+    rating: row.rating,
+  };
+};
+
+const loadTopRated = async (
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+  mediaKind: "film" | "game",
+) => {
+  const { data, error } = await supabaseAdmin
+    .from("user_views")
+    .select("id, rating, items:items!inner(title, year, poster_url, type)")
+    .eq("user_id", userId)
+    .eq("items.type", mediaKind)
+    .not("rating", "is", null)
+    .order("rating", { ascending: false })
+    .order("viewed_at", { ascending: false })
+    .limit(PUBLIC_PROFILE_TOP_RATED_LIMIT);
+
+  if (error) {
+    throw new Error(error.message || "Не вдалося завантажити найкращі оцінки.");
+  }
+
+  return ((data ?? []) as PublicViewRow[])
+    .map(mapPublicTitle)
+    .filter((title): title is PublicProfileTitle => Boolean(title));
+};
+
+const loadPublicLists = async (
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+): Promise<PublicProfileList[]> => {
+  const { data: lists, error } = await supabaseAdmin
+    .from("user_lists")
+    .select("id, name")
+    .eq("user_id", userId)
+    .eq("is_public", true)
+    .order("position", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message || "Не вдалося завантажити списки.");
+  }
+
+  const listRows = (lists ?? []) as Array<{ id: string; name: string }>;
+  if (listRows.length === 0) {
+    return [];
+  }
+
+  const { data: entries, error: entriesError } = await supabaseAdmin
+    .from("user_list_entries")
+    .select(
+      "list_id, position, user_views!inner(id, rating, items:items!inner(title, year, poster_url, type))",
+    )
+    .in(
+      "list_id",
+      listRows.map((list) => list.id),
+    )
+    .order("position", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (entriesError) {
+    throw new Error(entriesError.message || "Не вдалося завантажити записи списків.");
+  }
+
+  const titlesByListId = new Map<string, PublicProfileTitle[]>();
+  ((entries ?? []) as Array<{
+    list_id: string;
+    user_views: PublicViewRow | PublicViewRow[] | null;
+  }>).forEach((entry) => {
+    const view = Array.isArray(entry.user_views) ? entry.user_views[0] : entry.user_views;
+    const title = view ? mapPublicTitle(view) : null;
+    if (!title) return;
+    const current = titlesByListId.get(entry.list_id) ?? [];
+    if (current.length >= PUBLIC_PROFILE_LIST_ENTRIES_LIMIT) return;
+    current.push(title);
+    titlesByListId.set(entry.list_id, current);
+  });
+
+  return listRows.map((list) => ({
+    id: list.id,
+    name: list.name,
+    entries: titlesByListId.get(list.id) ?? [],
+  }));
+};
+
+const loadPublicStatistics = async (supabaseAdmin: SupabaseAdmin, userId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from("statistics_snapshots")
+    .select("media_kind, payload")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(error.message || "Не вдалося завантажити статистику.");
+  }
+
+  const rows = (data ?? []) as Array<{ media_kind: string; payload: unknown }>;
+  return summarizePublicProfileStatistics({
+    filmPayload: rows.find((row) => row.media_kind === "film")?.payload ?? null,
+    gamePayload: rows.find((row) => row.media_kind === "game")?.payload ?? null,
+  });
+};
+
+/**
+ * Resolves an opt-in public profile by username. Returns null when the
+ * username is unknown or the owner has not enabled the public page.
+ */
+export async function loadPublicProfile(username: string): Promise<PublicProfilePayload | null> {
+  if (!isPublicProfileUsername(username)) {
+    return null;
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: profile, error } = await supabaseAdmin
+    .from("profiles")
+    .select(
+      "id, username, public_profile_enabled, public_profile_show_lists, public_profile_show_top_rated, public_profile_show_statistics",
+    )
+    .ilike("username", escapeLikePattern(username))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || "Не вдалося завантажити профіль.");
+  }
+
+  const settings = normalizePublicProfileSettings(profile);
+  if (!profile?.id || !profile.username || !settings.enabled) {
+    return null;
+  }
+
+  const [lists, topRatedFilms, topRatedGames, statistics] = await Promise.all([
+    settings.showLists ? loadPublicLists(supabaseAdmin, profile.id) : null,
+    settings.showTopRated ? loadTopRated(supabaseAdmin, profile.id, "film") : null,
+    settings.showTopRated ? loadTopRated(supabaseAdmin, profile.id, "game") : null,
+    settings.showStatistics ? loadPublicStatistics(supabaseAdmin, profile.id) : null,
+  ]);
+
+  return {
+    username: profile.username,
+    lists,
+    topRated:
+      topRatedFilms && topRatedGames ? { films: topRatedFilms, games: topRatedGames } : null,
+    statistics,
+  };
+}
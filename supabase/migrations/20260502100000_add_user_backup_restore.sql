@@ -0,0 +1,163 @@
+create or replace function handle_user_view_friend_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Bulk restores set this flag so friends are not flooded with historical entries.
+  if coalesce(current_setting('catalogy.skip_friend_activity', true), '') = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    perform create_friend_activity_event(
+      new.user_id,
+      new.id,
+      new.item_id,
+      'added',
+      coalesce(new.created_at, now())
+    );
+
+    if new.is_viewed then
+      perform create_friend_activity_event(
+        new.user_id,
+        new.id,
+        new.item_id,
+        'viewed',
+        coalesce(new.viewed_at, new.updated_at, new.created_at, now())
+      );
+    end if;
+
+    return new;
+  end if;
+
+  if coalesce(old.is_viewed, false) = false and coalesce(new.is_viewed, false) = true then
+    perform create_friend_activity_event(
+      new.user_id,
+      new.id,
+      new.item_id,
+      'viewed',
+      coalesce(new.viewed_at, new.updated_at, now())
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.restore_user_views(
+  p_entries jsonb,
+  p_overwrite boolean default false
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  entry jsonb;
+  entry_item_id uuid;
+  created_count int := 0;
+  updated_count int := 0;
+  skipped_count int := 0;
+begin
+  if current_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  perform set_config('catalogy.skip_friend_activity', 'on', true);
+
+  for entry in
+    select value from jsonb_array_elements(coalesce(p_entries, '[]'::jsonb))
+  loop
+    entry_item_id := (entry->>'item_id')::uuid;
+
+    if exists (
+      select 1
+      from user_views
+      where user_id = current_user_id
+        and item_id = entry_item_id
+    ) then
+      if not p_overwrite then
+        skipped_count := skipped_count + 1;
+        continue;
+      end if;
+
+      update user_views
+      set
+        rating = (entry->>'rating')::numeric,
+        comment = entry->>'comment',
+        viewed_at = coalesce((entry->>'viewed_at')::timestamptz, viewed_at),
+        is_viewed = coalesce((entry->>'is_viewed')::boolean, is_viewed),
+        view_percent = coalesce((entry->>'view_percent')::int, view_percent),
+        recommend_similar = coalesce((entry->>'recommend_similar')::boolean, false),
+        availability = entry->>'availability',
+        platforms = coalesce(
+          array(select jsonb_array_elements_text(entry->'platforms')),
+          '{}'::text[]
+        ),
+        shishka_fit_label = entry->>'shishka_fit_label',
+        shishka_fit_reason = entry->>'shishka_fit_reason',
+        shishka_fit_profile_analyzed_at = (entry->>'shishka_fit_profile_analyzed_at')::timestamptz,
+        shishka_fit_scope_value = entry->>'shishka_fit_scope_value'
+      where user_id = current_user_id
+        and item_id = entry_item_id;
+
+      updated_count := updated_count + 1;
+      continue;
+    end if;
+
+    insert into user_views (
+      user_id,
+      item_id,
+      rating,
+      comment,
+      viewed_at,
+      is_viewed,
+      view_percent,
+      recommend_similar,
+      availability,
+      platforms,
+      shishka_fit_label,
+      shishka_fit_reason,
+      shishka_fit_profile_analyzed_at,
+      shishka_fit_scope_value,
+      created_at
+    )
+    values (
+      current_user_id,
+      entry_item_id,
+      (entry->>'rating')::numeric,
+      entry->>'comment',
+      coalesce((entry->>'viewed_at')::timestamptz, now()),
+      coalesce((entry->>'is_viewed')::boolean, true),
+      coalesce((entry->>'view_percent')::int, 100),
+      coalesce((entry->>'recommend_similar')::boolean, false),
+      entry->>'availability',
+      coalesce(
+        array(select jsonb_array_elements_text(entry->'platforms')),
+        '{}'::text[]
+      ),
+      entry->>'shishka_fit_label',
+      entry->>'shishka_fit_reason',
+      (entry->>'shishka_fit_profile_analyzed_at')::timestamptz,
+      entry->>'shishka_fit_scope_value',
+      coalesce((entry->>'created_at')::timestamptz, now())
+    );
+
+    created_count := created_count + 1;
+  end loop;
+
+  perform set_config('catalogy.skip_friend_activity', 'off', true);
+
+  return jsonb_build_object(
+    'created', created_count,
+    'updated', updated_count,
+    'skipped', skipped_count
+  );
+end;
+$$;
+
+grant execute on function public.restore_user_views(jsonb, boolean) to authenticated;
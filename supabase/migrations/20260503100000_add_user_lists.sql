@@ -0,0 +1,141 @@
+create table if not exists user_lists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 80),
+  position int not null default 0,
+  is_shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists user_lists_user_name_unique_idx
+  on user_lists (user_id, lower(btrim(name)));
+
+create index if not exists user_lists_user_position_idx
+  on user_lists (user_id, position, created_at);
+
+drop trigger if exists set_user_lists_updated_at on user_lists;
+create trigger set_user_lists_updated_at
+before update on user_lists
+for each row execute function set_updated_at();
+
+create table if not exists user_list_entries (
+  list_id uuid not null references user_lists on delete cascade,
+  view_id uuid not null references user_views on delete cascade,
+  position int not null default 0,
+  created_at timestamptz not null default now(),
+  primary key (list_id, view_id)
+);
+
+create index if not exists user_list_entries_view_idx
+  on user_list_entries (view_id);
+
+create index if not exists user_list_entries_list_position_idx
+  on user_list_entries (list_id, position, created_at);
+
+-- Shared lists follow the same rule as the library itself: the owner must
+-- allow friends to see their views and the reader must be an accepted contact.
+create or replace function can_read_user_list(list_owner_id uuid, list_is_shared boolean)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    list_owner_id = auth.uid()
+    or (
+      list_is_shared
+      and exists (
+        select 1
+        from profiles
+        where id = list_owner_id
+          and views_visible_to_friends = true
+      )
+      and exists (
+        select 1
+        from contacts
+        where user_id = auth.uid()
+          and other_user_id = list_owner_id
+          and status = 'accepted'
+      )
+    );
+$$;
+
+alter table user_lists enable row level security;
+alter table user_list_entries enable row level security;
+
+drop policy if exists "User lists are readable by owner or friends when shared" on user_lists;
+create policy "User lists are readable by owner or friends when shared"
+  on user_lists for select
+  using (can_read_user_list(user_id, is_shared));
+
+drop policy if exists "User lists are insertable by owner" on user_lists;
+create policy "User lists are insertable by owner"
+  on user_lists for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "User lists are updatable by owner" on user_lists;
+create policy "User lists are updatable by owner"
+  on user_lists for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "User lists are deletable by owner" on user_lists;
+create policy "User lists are deletable by owner"
+  on user_lists for delete
+  using (auth.uid() = user_id);
+
+drop policy if exists "User list entries are readable with their list" on user_list_entries;
+create policy "User list entries are readable with their list"
+  on user_list_entries for select
+  using (
+    exists (
+      select 1
+      from user_lists
+      where user_lists.id = user_list_entries.list_id
+        and can_read_user_list(user_lists.user_id, user_lists.is_shared)
+    )
+  );
+
+drop policy if exists "User list entries are insertable by owner" on user_list_entries;
+create policy "User list entries are insertable by owner"
+  on user_list_entries for insert
+  with check (
+    exists (
+      select 1
+      from user_lists
+      where user_lists.id = user_list_entries.list_id
+        and user_lists.user_id = auth.uid()
+    )
+    and exists (
+      select 1
+      from user_views
+      where user_views.id = user_list_entries.view_id
+        and user_views.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "User list entries are updatable by owner" on user_list_entries;
+create policy "User list entries are updatable by owner"
+  on user_list_entries for update
+  using (
+    exists (
+      select 1
+      from user_lists
+      where user_lists.id = user_list_entries.list_id
+        and user_lists.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "User list entries are deletable by owner" on user_list_entries;
+create policy "User list entries are deletable by owner"
+  on user_list_entries for delete
+  using (
+    exists (
+      select 1
+      from user_lists
+      where user_lists.id = user_list_entries.list_id
+        and user_lists.user_id = auth.uid()
+    )
+  );
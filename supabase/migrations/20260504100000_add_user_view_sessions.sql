@@ -0,0 +1,162 @@
+create table if not exists user_view_sessions (
+  id uuid primary key default gen_random_uuid(),
+  view_id uuid not null references user_views on delete cascade,
+  user_id uuid not null references auth.users on delete cascade,
+  viewed_at timestamptz not null,
+  rating numeric(2,1) check (
+    rating is null
+    or (rating between 1 and 5 and rating * 2 = trunc(rating * 2))
+  ),
+  note text check (note is null or char_length(note) <= 1000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists user_view_sessions_view_viewed_idx
+  on user_view_sessions (view_id, viewed_at desc);
+
+create index if not exists user_view_sessions_user_viewed_idx
+  on user_view_sessions (user_id, viewed_at desc);
+
+drop trigger if exists set_user_view_sessions_updated_at on user_view_sessions;
+create trigger set_user_view_sessions_updated_at
+before update on user_view_sessions
+for each row execute function set_updated_at();
+
+-- Every viewed entry keeps at least one session that mirrors its own
+-- viewed_at/rating, so history stays complete once rewatches are added.
+insert into user_view_sessions (view_id, user_id, viewed_at, rating)
+select uv.id, uv.user_id, uv.viewed_at, uv.rating
+from user_views uv
+where uv.is_viewed = true
+  and not exists (
+    select 1
+    from user_view_sessions s
+    where s.view_id = uv.id
+  );
+
+create or replace function public.sync_user_view_primary_session()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+     and (
+       new.viewed_at is distinct from old.viewed_at
+       or new.rating is distinct from old.rating
+     ) then
+    update public.user_view_sessions
+    set
+      viewed_at = new.viewed_at,
+      rating = new.rating
+    where view_id = new.id
+      and viewed_at = old.viewed_at;
+  end if;
+
+  if new.is_viewed = true
+     and not exists (
+       select 1
+       from public.user_view_sessions
+       where view_id = new.id
+     ) then
+    insert into public.user_view_sessions (view_id, user_id, viewed_at, rating)
+    values (new.id, new.user_id, new.viewed_at, new.rating);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists user_views_sync_primary_session on user_views;
+create trigger user_views_sync_primary_session
+after insert or update of is_viewed, viewed_at, rating on user_views
+for each row
+execute function public.sync_user_view_primary_session();
+
+create or replace function public.mark_statistics_snapshots_dirty_on_user_view_sessions_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  session_row public.user_view_sessions;
+  media_kind text;
+begin
+  if tg_op = 'DELETE' then
+    session_row := old;
+  else
+    session_row := new;
+  end if;
+
+  select items.type into media_kind
+  from public.user_views
+  join public.items on items.id = user_views.item_id
+  where user_views.id = session_row.view_id;
+
+  perform public.touch_statistics_snapshot(session_row.user_id, media_kind);
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_view_sessions_statistics_snapshot_dirty on user_view_sessions;
+create trigger user_view_sessions_statistics_snapshot_dirty
+after insert or update or delete on user_view_sessions
+for each row
+execute function public.mark_statistics_snapshots_dirty_on_user_view_sessions_change();
+
+alter table user_view_sessions enable row level security;
+
+drop policy if exists "User view sessions are readable by owner" on user_view_sessions;
+create policy "User view sessions are readable by owner"
+  on user_view_sessions for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "User view sessions are readable by friends when allowed" on user_view_sessions;
+create policy "User view sessions are readable by friends when allowed"
+  on user_view_sessions for select
+  using (
+    exists (
+      select 1
+      from profiles
+      where id = user_view_sessions.user_id
+        and views_visible_to_friends = true
+    )
+    and exists (
+      select 1
+      from contacts
+      where user_id = auth.uid()
+        and other_user_id = user_view_sessions.user_id
+        and status = 'accepted'
+    )
+  );
+
+drop policy if exists "User view sessions are insertable by owner" on user_view_sessions;
+create policy "User view sessions are insertable by owner"
+  on user_view_sessions for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1
+      from user_views
+      where user_views.id = user_view_sessions.view_id
+        and user_views.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "User view sessions are updatable by owner" on user_view_sessions;
+create policy "User view sessions are updatable by owner"
+  on user_view_sessions for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "User view sessions are deletable by owner" on user_view_sessions;
+create policy "User view sessions are deletable by owner"
+  on user_view_sessions for delete
+  using (auth.uid() = user_id);
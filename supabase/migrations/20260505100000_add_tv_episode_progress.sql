@@ -0,0 +1,60 @@
+alter table items
+  add column if not exists tv_seasons jsonb,
+  add column if not exists tv_last_aired_episode jsonb,
+  add column if not exists tv_structure_synced_at timestamptz;
+
+create table if not exists user_episode_progress (
+  view_id uuid not null references user_views on delete cascade,
+  user_id uuid not null references auth.users on delete cascade,
+  season_number int not null check (season_number > 0),
+  episode_number int not null check (episode_number > 0),
+  watched_at timestamptz not null default now(),
+  primary key (view_id, season_number, episode_number)
+);
+
+create index if not exists user_episode_progress_user_watched_idx
+  on user_episode_progress (user_id, watched_at desc);
+
+alter table user_episode_progress enable row level security;
+
+drop policy if exists "Episode progress is readable by owner" on user_episode_progress;
+create policy "Episode progress is readable by owner"
+  on user_episode_progress for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Episode progress is readable by friends when allowed" on user_episode_progress;
+create policy "Episode progress is readable by friends when allowed"
+  on user_episode_progress for select
+  using (
+    exists (
+      select 1
+      from profiles
+      where id = user_episode_progress.user_id
+        and views_visible_to_friends = true
+    )
+    and exists (
+      select 1
+      from contacts
+      where user_id = auth.uid()
+        and other_user_id = user_episode_progress.user_id
+        and status = 'accepted'
+    )
+  );
+
+drop policy if exists "Episode progress is insertable by owner" on user_episode_progress;
+create policy "Episode progress is insertable by owner"
+  on user_episode_progress for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1
+      from user_views
+      where user_views.id = user_episode_progress.view_id
+        and user_views.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Episode progress is deletable by owner" on user_episode_progress;
+create policy "Episode progress is deletable by owner"
+  on user_episode_progress for delete
+  using (auth.uid() = user_id);
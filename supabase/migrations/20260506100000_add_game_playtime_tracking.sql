@@ -0,0 +1,96 @@
+alter table user_views
+  add column if not exists hours_played numeric(6,1),
+  add column if not exists completion_status text,
+  add column if not exists started_at date,
+  add column if not exists finished_at date;
+
+alter table user_views drop constraint if exists user_views_hours_played_check;
+alter table user_views
+  add constraint user_views_hours_played_check
+  check (hours_played is null or hours_played between 0 and 99999);
+
+alter table user_views drop constraint if exists user_views_completion_status_check;
+alter table user_views
+  add constraint user_views_completion_status_check
+  check (
+    completion_status is null
+    or completion_status in ('playing', 'beaten', 'completed_100', 'abandoned', 'on_hold', 'endless')
+  );
+
+alter table user_views drop constraint if exists user_views_play_dates_check;
+alter table user_views
+  add constraint user_views_play_dates_check
+  check (started_at is null or finished_at is null or finished_at >= started_at);
+
+create index if not exists user_views_user_completion_status_idx
+  on user_views (user_id, completion_status)
+  where completion_status is not null;
+
+create or replace function public.mark_statistics_snapshots_dirty_on_user_views_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  previous_media_kind text;
+  next_media_kind text;
+  has_stats_change boolean := false;
+begin
+  if tg_op = 'INSERT' then
+    select type into next_media_kind
+    from public.items
+    where id = new.item_id;
+
+    perform public.touch_statistics_snapshot(new.user_id, next_media_kind);
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    select type into previous_media_kind
+    from public.items
+    where id = old.item_id;
+
+    perform public.touch_statistics_snapshot(old.user_id, previous_media_kind);
+    return old;
+  end if;
+
+  has_stats_change :=
+    new.user_id is distinct from old.user_id
+    or new.item_id is distinct from old.item_id
+    or new.is_viewed is distinct from old.is_viewed
+    or new.rating is distinct from old.rating
+    or new.view_percent is distinct from old.view_percent
+    or new.viewed_at is distinct from old.viewed_at
+    or new.platforms is distinct from old.platforms
+    or new.hours_played is distinct from old.hours_played
+    or new.completion_status is distinct from old.completion_status;
+
+  if not has_stats_change then
+    return new;
+  end if;
+
+  select type into previous_media_kind
+  from public.items
+  where id = old.item_id;
+
+  select type into next_media_kind
+  from public.items
+  where id = new.item_id;
+
+  perform public.touch_statistics_snapshot(old.user_id, previous_media_kind);
+
+  if new.user_id is distinct from old.user_id
+     or next_media_kind is distinct from previous_media_kind then
+    perform public.touch_statistics_snapshot(new.user_id, next_media_kind);
+  end if;
+
+  return new;
+end;
+$$;
+
+update public.statistics_snapshots
+set is_stale = true,
+    last_invalidated_at = timezone('utc', now()),
+    updated_at = timezone('utc', now())
+where media_kind = 'game';
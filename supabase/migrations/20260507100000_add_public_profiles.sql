@@ -0,0 +1,14 @@
+alter table profiles
+  add column if not exists public_profile_enabled boolean not null default false,
+  add column if not exists public_profile_show_lists boolean not null default true,
+  add column if not exists public_profile_show_top_rated boolean not null default true,
+  add column if not exists public_profile_show_statistics boolean not null default true;
+
+alter table user_lists
+  add column if not exists is_public boolean not null default false;
+
+-- Public profiles are served by the API with the service role, so no anonymous
+-- RLS policies are added here. This index keeps the /u/[username] lookup cheap.
+create index if not exists profiles_public_username_idx
+  on profiles ((lower(username)))
+  where public_profile_enabled = true and username is not null;
@@ -0,0 +1,23 @@
+-- The in-app friends feed reads activity events directly, so accepted contacts
+-- may see them under the same visibility rule as the library itself.
+drop policy if exists "Friend activity events are readable by friends when allowed" on friend_activity_events;
+create policy "Friend activity events are readable by friends when allowed"
+  on friend_activity_events for select
+  using (
+    exists (
+      select 1
+      from profiles
+      where id = friend_activity_events.actor_user_id
+        and views_visible_to_friends = true
+    )
+    and exists (
+      select 1
+      from contacts
+      where user_id = auth.uid()
+        and other_user_id = friend_activity_events.actor_user_id
+        and status = 'accepted'
+    )
+  );
+
+create index if not exists friend_activity_events_occurred_idx
+  on friend_activity_events (occurred_at desc, id desc);
@@ -0,0 +1,301 @@
+create table if not exists user_view_comments (
+  id uuid primary key default gen_random_uuid(),
+  view_id uuid not null references user_views on delete cascade,
+  author_user_id uuid not null references auth.users on delete cascade,
+  parent_comment_id uuid references user_view_comments on delete cascade,
+  body text not null check (char_length(btrim(body)) between 1 and 2000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists user_view_comments_view_created_idx
+  on user_view_comments (view_id, created_at asc, id asc);
+
+create index if not exists user_view_comments_parent_idx
+  on user_view_comments (parent_comment_id);
+
+drop trigger if exists set_user_view_comments_updated_at on user_view_comments;
+create trigger set_user_view_comments_updated_at
+before update on user_view_comments
+for each row execute function set_updated_at();
+
+create table if not exists user_view_reactions (
+  view_id uuid not null references user_views on delete cascade,
+  user_id uuid not null references auth.users on delete cascade,
+  emoji text not null check (emoji in ('👍', '❤️', '😂', '😮', '😢', '🔥')),
+  created_at timestamptz not null default now(),
+  primary key (view_id, user_id, emoji)
+);
+
+create index if not exists user_view_reactions_user_idx
+  on user_view_reactions (user_id, created_at desc);
+
+-- Comments and reactions are visible to the entry owner and to accepted
+-- contacts who can already open the entry in the friend library.
+create or replace function public.can_access_user_view_discussion(input_view_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from user_views
+    where user_views.id = input_view_id
+      and (
+        user_views.user_id = auth.uid()
+        or (
+          exists (
+            select 1
+            from profiles
+            where profiles.id = user_views.user_id
+              and profiles.views_visible_to_friends = true
+          )
+          and exists (
+            select 1
+            from contacts
+            where contacts.user_id = auth.uid()
+              and contacts.other_user_id = user_views.user_id
+              and contacts.status = 'accepted'
+          )
+        )
+      )
+  );
+$$;
+
+alter table user_view_comments enable row level security;
+alter table user_view_reactions enable row level security;
+
+drop policy if exists "User view comments are readable by entry audience" on user_view_comments;
+create policy "User view comments are readable by entry audience"
+  on user_view_comments for select
+  using (public.can_access_user_view_discussion(view_id));
+
+drop policy if exists "User view comments are insertable by entry audience" on user_view_comments;
+create policy "User view comments are insertable by entry audience"
+  on user_view_comments for insert
+  with check (
+    auth.uid() = author_user_id
+    and public.can_access_user_view_discussion(view_id)
+    and (
+      parent_comment_id is null
+      or exists (
+        select 1
+        from user_view_comments parent
+        where parent.id = user_view_comments.parent_comment_id
+          and parent.view_id = user_view_comments.view_id
+      )
+    )
+  );
+
+drop policy if exists "User view comments are deletable by author or entry owner" on user_view_comments;
+create policy "User view comments are deletable by author or entry owner"
+  on user_view_comments for delete
+  using (
+    auth.uid() = author_user_id
+    or exists (
+      select 1
+      from user_views
+      where user_views.id = user_view_comments.view_id
+        and user_views.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "User view reactions are readable by entry audience" on user_view_reactions;
+create policy "User view reactions are readable by entry audience"
+  on user_view_reactions for select
+  using (public.can_access_user_view_discussion(view_id));
+
+drop policy if exists "User view reactions are insertable by entry audience" on user_view_reactions;
+create policy "User view reactions are insertable by entry audience"
+  on user_view_reactions for insert
+  with check (
+    auth.uid() = user_id
+    and public.can_access_user_view_discussion(view_id)
+  );
+
+drop policy if exists "User view reactions are deletable by owner" on user_view_reactions;
+create policy "User view reactions are deletable by owner"
+  on user_view_reactions for delete
+  using (auth.uid() = user_id);
+
+-- Discussion notifications reuse friend_notifications (and therefore the
+-- Telegram delivery trigger) but are not backed by a friend activity event.
+alter table friend_notifications
+  alter column event_id drop not null;
+
+alter table friend_notifications
+  add column if not exists comment_id uuid references user_view_comments on delete cascade;
+
+alter table friend_notifications
+  drop constraint if exists friend_notifications_event_type_check;
+
+alter table friend_notifications
+  add constraint friend_notifications_event_type_check
+  check (event_type in ('added', 'viewed', 'commented', 'replied', 'reacted'));
+
+create index if not exists friend_notifications_comment_idx
+  on friend_notifications (comment_id);
+
+create or replace function public.build_user_view_discussion_payload(
+  input_view_id uuid,
+  input_event_type text
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'itemId', items.id,
+    'userViewId', user_views.id,
+    'entryOwnerUserId', user_views.user_id,
+    'title', items.title,
+    'posterUrl', items.poster_url,
+    'mediaKind', items.type,
+    'eventType', input_event_type,
+    'occurredAt', now()
+  )
+  from user_views
+  join items on items.id = user_views.item_id
+  where user_views.id = input_view_id
+    and items.type in ('film', 'game');
+$$;
+
+create or replace function public.handle_user_view_comment_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  view_owner_id uuid;
+  parent_author_id uuid;
+  base_payload jsonb;
+begin
+  select user_id into view_owner_id
+  from user_views
+  where id = new.view_id;
+
+  base_payload := public.build_user_view_discussion_payload(new.view_id, 'commented');
+  if base_payload is null then
+    return new;
+  end if;
+  base_payload := base_payload || jsonb_build_object('comment', left(new.body, 500));
+
+  if new.parent_comment_id is not null then
+    select author_user_id into parent_author_id
+    from user_view_comments
+    where id = new.parent_comment_id;
+  end if;
+
+  if parent_author_id is not null and parent_author_id <> new.author_user_id then
+    insert into friend_notifications (
+      recipient_user_id,
+      actor_user_id,
+      comment_id,
+      media_kind,
+      event_type,
+      payload
+    )
+    values (
+      parent_author_id,
+      new.author_user_id,
+      new.id,
+      base_payload->>'mediaKind',
+      'replied',
+      base_payload || jsonb_build_object('eventType', 'replied')
+    );
+  end if;
+
+  if view_owner_id <> new.author_user_id
+     and view_owner_id is distinct from parent_author_id then
+    insert into friend_notifications (
+      recipient_user_id,
+      actor_user_id,
+      comment_id,
+      media_kind,
+      event_type,
+      payload
+    )
+    values (
+      view_owner_id,
+      new.author_user_id,
+      new.id,
+      base_payload->>'mediaKind',
+      'commented',
+      base_payload
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists handle_user_view_comment_notification on user_view_comments;
+create trigger handle_user_view_comment_notification
+after insert on user_view_comments
+for each row execute function public.handle_user_view_comment_notification();
+
+create or replace function public.handle_user_view_reaction_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  view_owner_id uuid;
+  base_payload jsonb;
+begin
+  select user_id into view_owner_id
+  from user_views
+  where id = new.view_id;
+
+  if view_owner_id is null or view_owner_id = new.user_id then
+    return new;
+  end if;
+
+  -- One unread reaction notice per friend and entry is enough; toggling
+  -- emojis back and forth should not spam the owner.
+  if exists (
+    select 1
+    from friend_notifications
+    where recipient_user_id = view_owner_id
+      and actor_user_id = new.user_id
+      and event_type = 'reacted'
+      and is_read = false
+      and payload->>'userViewId' = new.view_id::text
+  ) then
+    return new;
+  end if;
+
+  base_payload := public.build_user_view_discussion_payload(new.view_id, 'reacted');
+  if base_payload is null then
+    return new;
+  end if;
+
+  insert into friend_notifications (
+    recipient_user_id,
+    actor_user_id,
+    media_kind,
+    event_type,
+    payload
+  )
+  values (
+    view_owner_id,
+    new.user_id,
+    base_payload->>'mediaKind',
+    'reacted',
+    base_payload || jsonb_build_object('reaction', new.emoji)
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists handle_user_view_reaction_notification on user_view_reactions;
+create trigger handle_user_view_reaction_notification
+after insert on user_view_reactions
+for each row execute function public.handle_user_view_reaction_notification();
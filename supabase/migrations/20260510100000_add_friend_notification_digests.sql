@@ -0,0 +1,117 @@
+alter table profiles
+  add column if not exists telegram_delivery_mode text not null default 'instant';
+
+alter table profiles
+  drop constraint if exists profiles_telegram_delivery_mode_check;
+
+alter table profiles
+  add constraint profiles_telegram_delivery_mode_check
+  check (telegram_delivery_mode in ('instant', 'hourly', 'daily', 'weekly'));
+
+-- The mode is captured per delivery so switching it later does not move rows
+-- that were already scheduled into another window.
+alter table friend_notification_deliveries
+  add column if not exists delivery_mode text not null default 'instant';
+
+alter table friend_notification_deliveries
+  drop constraint if exists friend_notification_deliveries_delivery_mode_check;
+
+alter table friend_notification_deliveries
+  add constraint friend_notification_deliveries_delivery_mode_check
+  check (delivery_mode in ('instant', 'hourly', 'daily', 'weekly'));
+
+create index if not exists friend_notification_deliveries_digest_idx
+  on friend_notification_deliveries (recipient_user_id, delivery_mode, status, available_at);
+
+-- End of the digest window that starts at input_from. Daily and weekly digests
+-- go out at 09:00 Kyiv time (weekly on Mondays).
+create or replace function public.next_friend_digest_at(
+  input_mode text,
+  input_from timestamptz default now()
+)
+returns timestamptz
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  local_from timestamp := input_from at time zone 'Europe/Kyiv';
+  local_next timestamp;
+begin
+  if input_mode = 'hourly' then
+    return date_trunc('hour', input_from) + interval '1 hour';
+  end if;
+
+  if input_mode = 'daily' then
+    local_next := date_trunc('day', local_from) + interval '9 hours';
+    if local_next <= local_from then
+      local_next := local_next + interval '1 day';
+    end if;
+    return local_next at time zone 'Europe/Kyiv';
+  end if;
+
+  if input_mode = 'weekly' then
+    local_next := date_trunc('week', local_from) + interval '9 hours';
+    if local_next <= local_from then
+      local_next := local_next + interval '7 days';
+    end if;
+    return local_next at time zone 'Europe/Kyiv';
+  end if;
+
+  return input_from;
+end;
+$$;
+
+create or replace function enqueue_friend_notification_delivery()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  recipient_profile record;
+begin
+  select telegram_notifications_enabled, telegram_chat_id, telegram_delivery_mode
+    into recipient_profile
+  from profiles
+  where id = new.recipient_user_id;
+
+  if not found then
+    return new;
+  end if;
+
+  if recipient_profile.telegram_notifications_enabled
+     and recipient_profile.telegram_chat_id is not null
+     and btrim(recipient_profile.telegram_chat_id) <> '' then
+    insert into friend_notification_deliveries (
+      notification_id,
+      recipient_user_id,
+      channel,
+      status,
+      delivery_mode,
+      available_at,
+      payload
+    )
+    values (
+      new.id,
+      new.recipient_user_id,
+      'telegram',
+      'pending',
+      coalesce(recipient_profile.telegram_delivery_mode, 'instant'),
+      public.next_friend_digest_at(
+        coalesce(recipient_profile.telegram_delivery_mode, 'instant'),
+        now()
+      ),
+      new.payload || jsonb_build_object(
+        'notificationId', new.id,
+        'recipientUserId', new.recipient_user_id,
+        'actorUserId', new.actor_user_id,
+        'telegramChatId', recipient_profile.telegram_chat_id
+      )
+    )
+    on conflict (notification_id, channel) do nothing;
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,98 @@
+alter table profiles
+  add column if not exists email_notifications_enabled boolean not null default false;
+
+alter table friend_notification_deliveries
+  drop constraint if exists friend_notification_deliveries_channel_check;
+
+alter table friend_notification_deliveries
+  add constraint friend_notification_deliveries_channel_check
+  check (channel in ('telegram', 'email'));
+
+-- Email goes out one message per notification; digest modes stay Telegram-only.
+create or replace function enqueue_friend_notification_delivery()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  recipient_profile record;
+  recipient_email text;
+begin
+  select
+    telegram_notifications_enabled,
+    telegram_chat_id,
+    telegram_delivery_mode,
+    email_notifications_enabled
+    into recipient_profile
+  from profiles
+  where id = new.recipient_user_id;
+
+  if not found then
+    return new;
+  end if;
+
+  if recipient_profile.telegram_notifications_enabled
+     and recipient_profile.telegram_chat_id is not null
+     and btrim(recipient_profile.telegram_chat_id) <> '' then
+    insert into friend_notification_deliveries (
+      notification_id,
+      recipient_user_id,
+      channel,
+      status,
+      delivery_mode,
+      available_at,
+      payload
+    )
+    values (
+      new.id,
+      new.recipient_user_id,
+      'telegram',
+      'pending',
+      coalesce(recipient_profile.telegram_delivery_mode, 'instant'),
+      public.next_friend_digest_at(
+        coalesce(recipient_profile.telegram_delivery_mode, 'instant'),
+        now()
+      ),
+      new.payload || jsonb_build_object(
+        'notificationId', new.id,
+        'recipientUserId', new.recipient_user_id,
+        'actorUserId', new.actor_user_id,
+        'telegramChatId', recipient_profile.telegram_chat_id
+      )
+    )
+    on conflict (notification_id, channel) do nothing;
+  end if;
+
+  if recipient_profile.email_notifications_enabled then
+    select email into recipient_email
+    from auth.users
+    where id = new.recipient_user_id;
+
+    if recipient_email is not null and btrim(recipient_email) <> '' then
+      insert into friend_notification_deliveries (
+        notification_id,
+        recipient_user_id,
+        channel,
+        status,
+        payload
+      )
+      values (
+        new.id,
+        new.recipient_user_id,
+        'email',
+        'pending',
+        new.payload || jsonb_build_object(
+          'notificationId', new.id,
+          'recipientUserId', new.recipient_user_id,
+          'actorUserId', new.actor_user_id,
+          'recipientEmail', recipient_email
+        )
+      )
+      on conflict (notification_id, channel) do nothing;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
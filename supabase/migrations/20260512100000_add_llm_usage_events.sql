@@ -0,0 +1,23 @@
+create table if not exists llm_usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users on delete cascade,
+  route text not null,
+  model text not null,
+  prompt_tokens int not null default 0 check (prompt_tokens >= 0),
+  completion_tokens int not null default 0 check (completion_tokens >= 0),
+  latency_ms int not null default 0 check (latency_ms >= 0),
+  success boolean not null,
+  error_code text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists llm_usage_events_user_created_idx
+  on llm_usage_events (user_id, created_at desc);
+
+alter table llm_usage_events enable row level security;
+
+-- Rows are written by the API routes with the service role; users only read their own history.
+drop policy if exists "LLM usage is readable by owner" on llm_usage_events;
+create policy "LLM usage is readable by owner"
+  on llm_usage_events for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,51 @@
+create table if not exists shishka_fit_cache (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users on delete cascade,
+  media_kind text not null check (media_kind in ('film', 'game')),
+  scope_value text not null,
+  item_key text not null,
+  profile_analyzed_at timestamptz not null,
+  label text not null,
+  reason text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, media_kind, scope_value, item_key, profile_analyzed_at)
+);
+
+alter table shishka_fit_cache enable row level security;
+
+-- Verdicts are written by the fit-evaluation routes with the service role.
+drop policy if exists "Fit cache is readable by owner" on shishka_fit_cache;
+create policy "Fit cache is readable by owner"
+  on shishka_fit_cache for select
+  using (auth.uid() = user_id);
+
+create table if not exists shishka_fit_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users on delete cascade,
+  media_kind text not null check (media_kind in ('film', 'game')),
+  scope_value text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'running', 'completed', 'failed')),
+  total_count int not null default 0,
+  processed_count int not null default 0,
+  cached_count int not null default 0,
+  failed_count int not null default 0,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists shishka_fit_jobs_user_created_idx
+  on shishka_fit_jobs (user_id, created_at desc);
+
+drop trigger if exists set_shishka_fit_jobs_updated_at on shishka_fit_jobs;
+create trigger set_shishka_fit_jobs_updated_at
+before update on shishka_fit_jobs
+for each row execute function set_updated_at();
+
+alter table shishka_fit_jobs enable row level security;
+
+drop policy if exists "Fit jobs are readable by owner" on shishka_fit_jobs;
+create policy "Fit jobs are readable by owner"
+  on shishka_fit_jobs for select
+  using (auth.uid() = user_id);
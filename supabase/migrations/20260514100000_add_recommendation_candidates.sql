@@ -0,0 +1,43 @@
+create table if not exists recommendation_candidates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users on delete cascade,
+  media_kind text not null check (media_kind in ('film', 'game')),
+  scope_value text not null,
+  item_key text not null,
+  title text not null,
+  year text not null default '',
+  candidate_type text not null default '',
+  why text not null default '',
+  status text not null default 'new'
+    check (status in ('new', 'not_interested', 'already_seen', 'added')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, media_kind, item_key)
+);
+
+create index if not exists recommendation_candidates_user_kind_status_idx
+  on recommendation_candidates (user_id, media_kind, status, created_at desc);
+
+drop trigger if exists set_recommendation_candidates_updated_at on recommendation_candidates;
+create trigger set_recommendation_candidates_updated_at
+before update on recommendation_candidates
+for each row execute function set_updated_at();
+
+alter table recommendation_candidates enable row level security;
+
+-- The recommendation routes record candidates with the service role; the owner sets feedback.
+drop policy if exists "Recommendation candidates are readable by owner" on recommendation_candidates;
+create policy "Recommendation candidates are readable by owner"
+  on recommendation_candidates for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Recommendation candidates are insertable by owner" on recommendation_candidates;
+create policy "Recommendation candidates are insertable by owner"
+  on recommendation_candidates for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Recommendation candidates are updatable by owner" on recommendation_candidates;
+create policy "Recommendation candidates are updatable by owner"
+  on recommendation_candidates for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,79 @@
+create table if not exists public.companies (
+  id uuid primary key default gen_random_uuid(),
+  source text not null check (source in ('igdb')),
+  source_company_id text not null,
+  name text not null,
+  logo_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (source, source_company_id)
+);
+
+create index if not exists companies_name_idx
+  on public.companies (name);
+
+drop trigger if exists set_companies_updated_at on public.companies;
+create trigger set_companies_updated_at
+before update on public.companies
+for each row execute function set_updated_at();
+
+alter table public.companies enable row level security;
+
+drop policy if exists "Companies are readable by authenticated users" on public.companies;
+create policy "Companies are readable by authenticated users"
+  on public.companies for select
+  using (auth.uid() is not null);
+
+drop policy if exists "Companies are insertable by authenticated users" on public.companies;
+create policy "Companies are insertable by authenticated users"
+  on public.companies for insert
+  with check (auth.uid() is not null);
+
+drop policy if exists "Companies are updatable by authenticated users" on public.companies;
+create policy "Companies are updatable by authenticated users"
+  on public.companies for update
+  using (auth.uid() is not null)
+  with check (auth.uid() is not null);
+
+drop policy if exists "Companies are deletable by authenticated users" on public.companies;
+create policy "Companies are deletable by authenticated users"
+  on public.companies for delete
+  using (auth.uid() is not null);
+
+create table if not exists public.item_companies (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references public.items (id) on delete cascade,
+  company_id uuid not null references public.companies (id) on delete cascade,
+  role_kind text not null check (role_kind in ('developer', 'publisher')),
+  created_at timestamptz not null default now(),
+  unique (item_id, company_id, role_kind)
+);
+
+create index if not exists item_companies_company_idx
+  on public.item_companies (company_id, role_kind, item_id);
+
+create index if not exists item_companies_item_idx
+  on public.item_companies (item_id, role_kind);
+
+alter table public.item_companies enable row level security;
+
+drop policy if exists "Item companies are readable by authenticated users" on public.item_companies;
+create policy "Item companies are readable by authenticated users"
+  on public.item_companies for select
+  using (auth.uid() is not null);
+
+drop policy if exists "Item companies are insertable by authenticated users" on public.item_companies;
+create policy "Item companies are insertable by authenticated users"
+  on public.item_companies for insert
+  with check (auth.uid() is not null);
+
+drop policy if exists "Item companies are updatable by authenticated users" on public.item_companies;
+create policy "Item companies are updatable by authenticated users"
+  on public.item_companies for update
+  using (auth.uid() is not null)
+  with check (auth.uid() is not null);
+
+drop policy if exists "Item companies are deletable by authenticated users" on public.item_companies;
+create policy "Item companies are deletable by authenticated users"
+  on public.item_companies for delete
+  using (auth.uid() is not null);
@@ -0,0 +1,82 @@
+create table if not exists public.franchises (
+  id uuid primary key default gen_random_uuid(),
+  media_kind text not null check (media_kind in ('film', 'game')),
+  source text not null check (source in ('tmdb', 'igdb')),
+  source_franchise_id text not null,
+  name text not null,
+  poster_url text,
+  -- Ordered membership as reported by the source: [{ sourceItemId, title, year, posterUrl }].
+  entries jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (source, source_franchise_id)
+);
+
+create index if not exists franchises_name_idx
+  on public.franchises (media_kind, name);
+
+drop trigger if exists set_franchises_updated_at on public.franchises;
+create trigger set_franchises_updated_at
+before update on public.franchises
+for each row execute function set_updated_at();
+
+alter table public.franchises enable row level security;
+
+drop policy if exists "Franchises are readable by authenticated users" on public.franchises;
+create policy "Franchises are readable by authenticated users"
+  on public.franchises for select
+  using (auth.uid() is not null);
+
+drop policy if exists "Franchises are insertable by authenticated users" on public.franchises;
+create policy "Franchises are insertable by authenticated users"
+  on public.franchises for insert
+  with check (auth.uid() is not null);
+
+drop policy if exists "Franchises are updatable by authenticated users" on public.franchises;
+create policy "Franchises are updatable by authenticated users"
+  on public.franchises for update
+  using (auth.uid() is not null)
+  with check (auth.uid() is not null);
+
+drop policy if exists "Franchises are deletable by authenticated users" on public.franchises;
+create policy "Franchises are deletable by authenticated users"
+  on public.franchises for delete
+  using (auth.uid() is not null);
+
+create table if not exists public.item_franchises (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references public.items (id) on delete cascade,
+  franchise_id uuid not null references public.franchises (id) on delete cascade,
+  position int,
+  created_at timestamptz not null default now(),
+  unique (item_id, franchise_id)
+);
+
+create index if not exists item_franchises_franchise_idx
+  on public.item_franchises (franchise_id, position);
+
+create index if not exists item_franchises_item_idx
+  on public.item_franchises (item_id, franchise_id);
+
+alter table public.item_franchises enable row level security;
+
+drop policy if exists "Item franchises are readable by authenticated users" on public.item_franchises;
+create policy "Item franchises are readable by authenticated users"
+  on public.item_franchises for select
+  using (auth.uid() is not null);
+
+drop policy if exists "Item franchises are insertable by authenticated users" on public.item_franchises;
+create policy "Item franchises are insertable by authenticated users"
+  on public.item_franchises for insert
+  with check (auth.uid() is not null);
+
+drop policy if exists "Item franchises are updatable by authenticated users" on public.item_franchises;
+create policy "Item franchises are updatable by authenticated users"
+  on public.item_franchises for update
+  using (auth.uid() is not null)
+  with check (auth.uid() is not null);
+
+drop policy if exists "Item franchises are deletable by authenticated users" on public.item_franchises;
+create policy "Item franchises are deletable by authenticated users"
+  on public.item_franchises for delete
+  using (auth.uid() is not null);
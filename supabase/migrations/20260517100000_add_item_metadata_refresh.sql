@@ -0,0 +1,49 @@
+alter table items
+  add column if not exists metadata_refreshed_at timestamptz;
+
+create index if not exists items_metadata_refreshed_at_idx
+  on items (metadata_refreshed_at asc nulls first);
+
+create table if not exists item_metadata_refresh_events (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references items on delete cascade,
+  status text not null check (status in ('updated', 'unchanged', 'failed')),
+  -- Changed fields as { field: { before, after } }; people/genres report link counts.
+  changes jsonb not null default '{}'::jsonb,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists item_metadata_refresh_events_created_idx
+  on item_metadata_refresh_events (created_at desc);
+
+create index if not exists item_metadata_refresh_events_item_idx
+  on item_metadata_refresh_events (item_id, created_at desc);
+
+-- Written and read only by the refresh endpoint with the service role.
+alter table item_metadata_refresh_events enable row level security;
+
+create or replace function request_metadata_refresh(
+  refresh_url text,
+  refresh_secret text,
+  refresh_limit int default 20,
+  refresh_dry_run boolean default false
+)
+returns bigint
+language sql
+security definer
+set search_path = public
+as $$
+  select net.http_post(
+    url := refresh_url,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || refresh_secret
+    ),
+    body := jsonb_build_object(
+      'limit', greatest(1, least(refresh_limit, 50)),
+      'dryRun', refresh_dry_run
+    ),
+    timeout_milliseconds := 60000
+  );
+$$;
@@ -0,0 +1,106 @@
+-- Folds a duplicate catalog item into the surviving one and deletes it.
+-- A user with entries on both keeps the survivor's entry; relation rows the
+-- survivor already has are dropped instead of duplicated.
+create or replace function merge_items(
+  p_survivor_id uuid,
+  p_duplicate_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  survivor_type text;
+  duplicate_type text;
+  moved_views int := 0;
+  dropped_views int := 0;
+  moved_recommendations int := 0;
+  moved_people int := 0;
+  moved_genres int := 0;
+  moved_activity_events int := 0;
+begin
+  if p_survivor_id is null or p_duplicate_id is null or p_survivor_id = p_duplicate_id then
+    raise exception 'Invalid merge pair';
+  end if;
+
+  select type into survivor_type from items where id = p_survivor_id for update;
+  select type into duplicate_type from items where id = p_duplicate_id for update;
+
+  if survivor_type is null or duplicate_type is null then
+    raise exception 'Item not found';
+  end if;
+
+  if survivor_type <> duplicate_type then
+    raise exception 'Item types differ';
+  end if;
+
+  delete from user_views as duplicate_view
+  where duplicate_view.item_id = p_duplicate_id
+    and exists (
+      select 1 from user_views as survivor_view
+      where survivor_view.item_id = p_survivor_id
+        and survivor_view.user_id = duplicate_view.user_id
+    );
+  get diagnostics dropped_views = row_count;
+
+  update user_views set item_id = p_survivor_id where item_id = p_duplicate_id;
+  get diagnostics moved_views = row_count;
+
+  update recommendations set item_id = p_survivor_id where item_id = p_duplicate_id;
+  get diagnostics moved_recommendations = row_count;
+
+  update friend_activity_events set item_id = p_survivor_id where item_id = p_duplicate_id;
+  get diagnostics moved_activity_events = row_count;
+
+  if not exists (select 1 from item_people where item_id = p_survivor_id) then
+    update item_people set item_id = p_survivor_id where item_id = p_duplicate_id;
+    get diagnostics moved_people = row_count;
+  end if;
+
+  update item_genres as duplicate_genre
+  set item_id = p_survivor_id
+  where duplicate_genre.item_id = p_duplicate_id
+    and not exists (
+      select 1 from item_genres as survivor_genre
+      where survivor_genre.item_id = p_survivor_id
+        and survivor_genre.genre_id = duplicate_genre.genre_id
+    );
+  get diagnostics moved_genres = row_count;
+
+  update item_companies as duplicate_company
+  set item_id = p_survivor_id
+  where duplicate_company.item_id = p_duplicate_id
+    and not exists (
+      select 1 from item_companies as survivor_company
+      where survivor_company.item_id = p_survivor_id
+        and survivor_company.company_id = duplicate_company.company_id
+        and survivor_company.role_kind = duplicate_company.role_kind
+    );
+
+  update item_franchises as duplicate_franchise
+  set item_id = p_survivor_id
+  where duplicate_franchise.item_id = p_duplicate_id
+    and not exists (
+      select 1 from item_franchises as survivor_franchise
+      where survivor_franchise.item_id = p_survivor_id
+        and survivor_franchise.franchise_id = duplicate_franchise.franchise_id
+    );
+
+  delete from items where id = p_duplicate_id;
+
+  return jsonb_build_object(
+    'movedViews', moved_views,
+    'droppedViews', dropped_views,
+    'movedRecommendations', moved_recommendations,
+    'movedPeople', moved_people,
+    'movedGenres', moved_genres,
+    'movedActivityEvents', moved_activity_events
+  );
+end;
+$$;
+
+-- Re-points other users' data, so only the service role may call it.
+revoke all on function merge_items(uuid, uuid) from public;
+revoke all on function merge_items(uuid, uuid) from anon, authenticated;
+grant execute on function merge_items(uuid, uuid) to service_role;
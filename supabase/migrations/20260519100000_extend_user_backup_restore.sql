@@ -0,0 +1,174 @@
+-- Backups now carry game playtime, rewatch sessions, episode progress and list
+-- memberships of every entry; they are restored together with the view itself.
+create or replace function public.restore_user_views(
+  p_entries jsonb,
+  p_overwrite boolean default false
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  entry jsonb;
+  entry_item_id uuid;
+  entry_view_id uuid;
+  created_count int := 0;
+  updated_count int := 0;
+  skipped_count int := 0;
+begin
+  if current_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  perform set_config('catalogy.skip_friend_activity', 'on', true);
+
+  for entry in
+    select value from jsonb_array_elements(coalesce(p_entries, '[]'::jsonb))
+  loop
+    entry_item_id := (entry->>'item_id')::uuid;
+
+    select id into entry_view_id
+    from user_views
+    where user_id = current_user_id
+      and item_id = entry_item_id;
+
+    if entry_view_id is not null then
+      if not p_overwrite then
+        skipped_count := skipped_count + 1;
+        continue;
+      end if;
+
+      update user_views
+      set
+        rating = (entry->>'rating')::numeric,
+        comment = entry->>'comment',
+        viewed_at = coalesce((entry->>'viewed_at')::timestamptz, viewed_at),
+        is_viewed = coalesce((entry->>'is_viewed')::boolean, is_viewed),
+        view_percent = coalesce((entry->>'view_percent')::int, view_percent),
+        recommend_similar = coalesce((entry->>'recommend_similar')::boolean, false),
+        availability = entry->>'availability',
+        platforms = coalesce(
+          array(select jsonb_array_elements_text(entry->'platforms')),
+          '{}'::text[]
+        ),
+        shishka_fit_label = entry->>'shishka_fit_label',
+        shishka_fit_reason = entry->>'shishka_fit_reason',
+        shishka_fit_profile_analyzed_at = (entry->>'shishka_fit_profile_analyzed_at')::timestamptz,
+        shishka_fit_scope_value = entry->>'shishka_fit_scope_value',
+        hours_played = (entry->>'hours_played')::numeric,
+        completion_status = entry->>'completion_status',
+        started_at = (entry->>'started_at')::date,
+        finished_at = (entry->>'finished_at')::date
+      where id = entry_view_id;
+
+      updated_count := updated_count + 1;
+    else
+      insert into user_views (
+        user_id,
+        item_id,
+        rating,
+        comment,
+        viewed_at,
+        is_viewed,
+        view_percent,
+        recommend_similar,
+        availability,
+        platforms,
+        shishka_fit_label,
+        shishka_fit_reason,
+        shishka_fit_profile_analyzed_at,
+        shishka_fit_scope_value,
+        hours_played,
+        completion_status,
+        started_at,
+        finished_at,
+        created_at
+      )
+      values (
+        current_user_id,
+        entry_item_id,
+        (entry->>'rating')::numeric,
+        entry->>'comment',
+        coalesce((entry->>'viewed_at')::timestamptz, now()),
+        coalesce((entry->>'is_viewed')::boolean, true),
+        coalesce((entry->>'view_percent')::int, 100),
+        coalesce((entry->>'recommend_similar')::boolean, false),
+        entry->>'availability',
+        coalesce(
+          array(select jsonb_array_elements_text(entry->'platforms')),
+          '{}'::text[]
+        ),
+        entry->>'shishka_fit_label',
+        entry->>'shishka_fit_reason',
+        (entry->>'shishka_fit_profile_analyzed_at')::timestamptz,
+        entry->>'shishka_fit_scope_value',
+        (entry->>'hours_played')::numeric,
+        entry->>'completion_status',
+        (entry->>'started_at')::date,
+        (entry->>'finished_at')::date,
+        coalesce((entry->>'created_at')::timestamptz, now())
+      )
+      returning id into entry_view_id;
+
+      created_count := created_count + 1;
+    end if;
+
+    -- The primary-session trigger has already mirrored viewed_at/rating; a
+    -- backup with its own history replaces that with the full list of sessions.
+    if jsonb_array_length(coalesce(entry->'sessions', '[]'::jsonb)) > 0 then
+      delete from user_view_sessions where view_id = entry_view_id;
+
+      insert into user_view_sessions (view_id, user_id, viewed_at, rating, note)
+      select
+        entry_view_id,
+        current_user_id,
+        (session->>'viewed_at')::timestamptz,
+        (session->>'rating')::numeric,
+        session->>'note'
+      from jsonb_array_elements(entry->'sessions') as session
+      where session->>'viewed_at' is not null;
+    end if;
+
+    if jsonb_array_length(coalesce(entry->'episodes', '[]'::jsonb)) > 0 then
+      delete from user_episode_progress where view_id = entry_view_id;
+
+      insert into user_episode_progress (
+        view_id,
+        user_id,
+        season_number,
+        episode_number,
+        watched_at
+      )
+      select
+        entry_view_id,
+        current_user_id,
+        (episode->>'season_number')::int,
+        (episode->>'episode_number')::int,
+        coalesce((episode->>'watched_at')::timestamptz, now())
+      from jsonb_array_elements(entry->'episodes') as episode
+      on conflict (view_id, season_number, episode_number) do nothing;
+    end if;
+
+    insert into user_list_entries (list_id, view_id, position)
+    select
+      (list_entry->>'list_id')::uuid,
+      entry_view_id,
+      coalesce((list_entry->>'position')::int, 0)
+    from jsonb_array_elements(coalesce(entry->'list_entries', '[]'::jsonb)) as list_entry
+    on conflict (list_id, view_id) do update
+      set position = excluded.position;
+  end loop;
+
+  perform set_config('catalogy.skip_friend_activity', 'off', true);
+
+  return jsonb_build_object(
+    'created', created_count,
+    'updated', updated_count,
+    'skipped', skipped_count
+  );
+end;
+$$;
+
+grant execute on function public.restore_user_views(jsonb, boolean) to authenticated;
@@ -0,0 +1,251 @@
+-- A user with entries on both items no longer loses the duplicate's entry:
+-- its sessions, list memberships, episode progress, comments, reactions and
+-- activity events move to the survivor's entry, which keeps the viewed/latest
+-- state of the two. Item people are moved one by one, skipping only the exact
+-- credits the survivor already has.
+create or replace function merge_items(
+  p_survivor_id uuid,
+  p_duplicate_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  survivor_type text;
+  duplicate_type text;
+  survivor_view user_views%rowtype;
+  duplicate_view user_views%rowtype;
+  prefer_duplicate boolean;
+  survivor_sessions jsonb;
+  step_count int;
+  moved_views int := 0;
+  merged_views int := 0;
+  moved_sessions int := 0;
+  moved_list_entries int := 0;
+  moved_episodes int := 0;
+  moved_comments int := 0;
+  moved_reactions int := 0;
+  moved_recommendations int := 0;
+  moved_people int := 0;
+  moved_genres int := 0;
+  moved_companies int := 0;
+  moved_franchises int := 0;
+  moved_activity_events int := 0;
+begin
+  if p_survivor_id is null or p_duplicate_id is null or p_survivor_id = p_duplicate_id then
+    raise exception 'Invalid merge pair';
+  end if;
+
+  select type into survivor_type from items where id = p_survivor_id for update;
+  select type into duplicate_type from items where id = p_duplicate_id for update;
+
+  if survivor_type is null or duplicate_type is null then
+    raise exception 'Item not found';
+  end if;
+
+  if survivor_type <> duplicate_type then
+    raise exception 'Item types differ';
+  end if;
+
+  -- Merging two entries of one user is not a new "added"/"viewed" event.
+  perform set_config('catalogy.skip_friend_activity', 'on', true);
+
+  for duplicate_view in
+    select duplicate_entry.*
+    from user_views as duplicate_entry
+    where duplicate_entry.item_id = p_duplicate_id
+      and exists (
+        select 1 from user_views as survivor_entry
+        where survivor_entry.item_id = p_survivor_id
+          and survivor_entry.user_id = duplicate_entry.user_id
+      )
+    for update
+  loop
+    select * into survivor_view
+    from user_views
+    where item_id = p_survivor_id
+      and user_id = duplicate_view.user_id
+    for update;
+
+    update user_view_sessions as duplicate_session
+    set view_id = survivor_view.id
+    where duplicate_session.view_id = duplicate_view.id
+      and not exists (
+        select 1 from user_view_sessions as survivor_session
+        where survivor_session.view_id = survivor_view.id
+          and survivor_session.viewed_at = duplicate_session.viewed_at
+      );
+    get diagnostics step_count = row_count;
+    moved_sessions := moved_sessions + step_count;
+
+    update user_list_entries as duplicate_entry
+    set view_id = survivor_view.id
+    where duplicate_entry.view_id = duplicate_view.id
+      and not exists (
+        select 1 from user_list_entries as survivor_entry
+        where survivor_entry.view_id = survivor_view.id
+          and survivor_entry.list_id = duplicate_entry.list_id
+      );
+    get diagnostics step_count = row_count;
+    moved_list_entries := moved_list_entries + step_count;
+
+    update user_episode_progress as duplicate_episode
+    set view_id = survivor_view.id
+    where duplicate_episode.view_id = duplicate_view.id
+      and not exists (
+        select 1 from user_episode_progress as survivor_episode
+        where survivor_episode.view_id = survivor_view.id
+          and survivor_episode.season_number = duplicate_episode.season_number
+          and survivor_episode.episode_number = duplicate_episode.episode_number
+      );
+    get diagnostics step_count = row_count;
+    moved_episodes := moved_episodes + step_count;
+
+    update user_view_comments
+    set view_id = survivor_view.id
+    where view_id = duplicate_view.id;
+    get diagnostics step_count = row_count;
+    moved_comments := moved_comments + step_count;
+
+    update user_view_reactions as duplicate_reaction
+    set view_id = survivor_view.id
+    where duplicate_reaction.view_id = duplicate_view.id
+      and not exists (
+        select 1 from user_view_reactions as survivor_reaction
+        where survivor_reaction.view_id = survivor_view.id
+          and survivor_reaction.user_id = duplicate_reaction.user_id
+          and survivor_reaction.emoji = duplicate_reaction.emoji
+      );
+    get diagnostics step_count = row_count;
+    moved_reactions := moved_reactions + step_count;
+
+    update friend_activity_events
+    set user_view_id = survivor_view.id
+    where user_view_id = duplicate_view.id;
+
+    -- Keep the viewed state, and among two viewed (or two planned) entries the later one.
+    prefer_duplicate :=
+      (duplicate_view.is_viewed and not survivor_view.is_viewed)
+      or (
+        duplicate_view.is_viewed = survivor_view.is_viewed
+        and duplicate_view.viewed_at > survivor_view.viewed_at
+      );
+
+    -- The primary-session trigger rewrites sessions dated like the old
+    -- viewed_at; the moved history is restored right after the update.
+    select coalesce(
+      jsonb_agg(jsonb_build_object('id', id, 'viewed_at', viewed_at, 'rating', rating)),
+      '[]'::jsonb
+    )
+    into survivor_sessions
+    from user_view_sessions
+    where view_id = survivor_view.id;
+
+    update user_views
+    set
+      is_viewed = survivor_view.is_viewed or duplicate_view.is_viewed,
+      viewed_at = case
+        when prefer_duplicate then duplicate_view.viewed_at
+        else survivor_view.viewed_at
+      end,
+      rating = case
+        when prefer_duplicate then coalesce(duplicate_view.rating, survivor_view.rating)
+        else coalesce(survivor_view.rating, duplicate_view.rating)
+      end,
+      view_percent = greatest(survivor_view.view_percent, duplicate_view.view_percent),
+      comment = coalesce(survivor_view.comment, duplicate_view.comment)
+    where id = survivor_view.id;
+
+    update user_view_sessions as session
+    set viewed_at = kept.viewed_at, rating = kept.rating
+    from jsonb_to_recordset(survivor_sessions) as kept(id uuid, viewed_at timestamptz, rating numeric)
+    where session.id = kept.id
+      and (
+        session.viewed_at is distinct from kept.viewed_at
+        or session.rating is distinct from kept.rating
+      );
+
+    delete from user_views where id = duplicate_view.id;
+    merged_views := merged_views + 1;
+  end loop;
+
+  perform set_config('catalogy.skip_friend_activity', 'off', true);
+
+  update user_views set item_id = p_survivor_id where item_id = p_duplicate_id;
+  get diagnostics moved_views = row_count;
+
+  update recommendations set item_id = p_survivor_id where item_id = p_duplicate_id;
+  get diagnostics moved_recommendations = row_count;
+
+  update friend_activity_events set item_id = p_survivor_id where item_id = p_duplicate_id;
+  get diagnostics moved_activity_events = row_count;
+
+  update item_people as duplicate_person
+  set item_id = p_survivor_id
+  where duplicate_person.item_id = p_duplicate_id
+    and not exists (
+      select 1 from item_people as survivor_person
+      where survivor_person.item_id = p_survivor_id
+        and survivor_person.person_id = duplicate_person.person_id
+        and survivor_person.role_kind = duplicate_person.role_kind
+        and survivor_person.credit_group = duplicate_person.credit_group
+        and survivor_person.credit_order is not distinct from duplicate_person.credit_order
+    );
+  get diagnostics moved_people = row_count;
+
+  update item_genres as duplicate_genre
+  set item_id = p_survivor_id
+  where duplicate_genre.item_id = p_duplicate_id
+    and not exists (
+      select 1 from item_genres as survivor_genre
+      where survivor_genre.item_id = p_survivor_id
+        and survivor_genre.genre_id = duplicate_genre.genre_id
+    );
+  get diagnostics moved_genres = row_count;
+
+  update item_companies as duplicate_company
+  set item_id = p_survivor_id
+  where duplicate_company.item_id = p_duplicate_id
+    and not exists (
+      select 1 from item_companies as survivor_company
+      where survivor_company.item_id = p_survivor_id
+        and survivor_company.company_id = duplicate_company.company_id
+        and survivor_company.role_kind = duplicate_company.role_kind
+    );
+  get diagnostics moved_companies = row_count;
+
+  update item_franchises as duplicate_franchise
+  set item_id = p_survivor_id
+  where duplicate_franchise.item_id = p_duplicate_id
+    and not exists (
+      select 1 from item_franchises as survivor_franchise
+      where survivor_franchise.item_id = p_survivor_id
+        and survivor_franchise.franchise_id = duplicate_franchise.franchise_id
+    );
+  get diagnostics moved_franchises = row_count;
+
+  delete from items where id = p_duplicate_id;
+
+  return jsonb_build_object(
+    'movedViews', moved_views,
+    'mergedViews', merged_views,
+    'movedSessions', moved_sessions,
+    'movedListEntries', moved_list_entries,
+    'movedEpisodes', moved_episodes,
+    'movedComments', moved_comments,
+    'movedReactions', moved_reactions,
+    'movedRecommendations', moved_recommendations,
+    'movedPeople', moved_people,
+    'movedGenres', moved_genres,
+    'movedCompanies', moved_companies,
+    'movedFranchises', moved_franchises,
+    'movedActivityEvents', moved_activity_events
+  );
+end;
+$$;
+
+revoke all on function merge_items(uuid, uuid) from public;
+revoke all on function merge_items(uuid, uuid) from anon, authenticated;
+grant execute on function merge_items(uuid, uuid) to service_role;
@@ -0,0 +1,27 @@
+-- Updates had no `with check`, so a list owner could point an entry at
+-- another user's view and expose it through a public profile list.
+drop policy if exists "User list entries are updatable by owner" on user_list_entries;
+create policy "User list entries are updatable by owner"
+  on user_list_entries for update
+  using (
+    exists (
+      select 1
+      from user_lists
+      where user_lists.id = user_list_entries.list_id
+        and user_lists.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from user_lists
+      where user_lists.id = user_list_entries.list_id
+        and user_lists.user_id = auth.uid()
+    )
+    and exists (
+      select 1
+      from user_views
+      where user_views.id = user_list_entries.view_id
+        and user_views.user_id = auth.uid()
+    )
+  );
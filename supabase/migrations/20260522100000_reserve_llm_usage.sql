@@ -0,0 +1,53 @@
+-- Checks a user's daily LLM quota and reserves one request in the same
+-- transaction. The per-user advisory lock serializes concurrent routes, so two
+-- requests cannot both pass the check on the last free slot. The reserved row
+-- is completed by the first reported model call.
+create or replace function reserve_llm_usage(
+  p_user_id uuid,
+  p_route text,
+  p_window_start timestamptz,
+  p_request_quota int,
+  p_token_quota int
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  used_requests int;
+  used_tokens bigint;
+  reservation_id uuid;
+begin
+  perform pg_advisory_xact_lock(hashtextextended('llm_usage:' || p_user_id::text, 0));
+
+  select count(*), coalesce(sum(prompt_tokens + completion_tokens), 0)
+  into used_requests, used_tokens
+  from llm_usage_events
+  where user_id = p_user_id
+    and created_at >= p_window_start;
+
+  if (p_request_quota > 0 and used_requests >= p_request_quota)
+    or (p_token_quota > 0 and used_tokens >= p_token_quota) then
+    return jsonb_build_object(
+      'requests', used_requests,
+      'tokens', used_tokens,
+      'reservationId', null
+    );
+  end if;
+
+  insert into llm_usage_events (user_id, route, model, success, error_code)
+  values (p_user_id, p_route, '', false, 'reserved')
+  returning id into reservation_id;
+
+  return jsonb_build_object(
+    'requests', used_requests,
+    'tokens', used_tokens,
+    'reservationId', reservation_id
+  );
+end;
+$$;
+
+revoke all on function reserve_llm_usage(uuid, text, timestamptz, int, int) from public;
+revoke all on function reserve_llm_usage(uuid, text, timestamptz, int, int) from anon, authenticated;
+grant execute on function reserve_llm_usage(uuid, text, timestamptz, int, int) to service_role;